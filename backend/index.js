@@ -13,6 +13,15 @@ const { createRateLimiter } = require('./middleware/rateLimit');
 const { parseAllowedOrigins } = require('./utils/security');
 const { createFileOpParser } = require('./utils/fileOpParser');
 const { createFileOpPolicyGate, buildPolicyRepairPrompt } = require('./utils/fileOpPolicyGate');
+const { createLLMProviderRegistry } = require('./utils/llmProviders');
+const { createUsageTracker } = require('./utils/usageAccounting');
+const { normalizeFixedPlanSteps, buildFixedPrefixPrompt, mergePlanWithFixedPrefix } = require('./utils/planPrefix');
+const {
+  CONVERSATION_SUMMARY_SYSTEM_PROMPT,
+  normalizeSummaryMessages,
+  buildConversationSummaryPrompt,
+  normalizeConversationSummary
+} = require('./utils/conversationSummary');
 const {
   isMultiAgentArchitectEnabled,
   isResumePrompt,
@@ -178,36 +187,60 @@ app.get('/health', (req, res) => {
   });
 });
 
-const isMissingOrPlaceholderSecret = (raw) => {
-  const value = String(raw || '').trim();
-  if (!value) return true;
-  const lower = value.toLowerCase();
-  if (lower.length < 12) return true;
-  return (
-    lower.includes('replace') ||
-    lower.includes('placeholder') ||
-    lower.includes('example') ||
-    lower.includes('invalid') ||
-    lower === 'null' ||
-    lower === 'undefined'
-  );
+const llmProviders = createLLMProviderRegistry();
+
+const getPlannerRouting = (modelRouting = {}) => {
+  const requested = String(modelRouting?.plannerProvider || process.env.LLM_PLANNER_PROVIDER || '').trim().toLowerCase();
+  const provider = llmProviders.has(requested) ? requested : llmProviders.getDefaultProviderName();
+  const model = String(
+    modelRouting?.plannerModel || process.env.LLM_PLANNER_MODEL || llmProviders.getDefaultModel(provider, false)
+  ).trim();
+  return { provider, model };
 };
 
-const isDeepSeekConfigured = () => !isMissingOrPlaceholderSecret(process.env.DEEPSEEK_API_KEY);
+const getExecutorRouting = (thinkingMode, modelRouting = {}) => {
+  const requested = String(modelRouting?.executorProvider || process.env.LLM_EXECUTOR_PROVIDER || '').trim().toLowerCase();
+  const provider = llmProviders.has(requested) ? requested : llmProviders.getDefaultProviderName();
+  const model = String(
+    modelRouting?.executorModel || process.env.LLM_EXECUTOR_MODEL || llmProviders.getDefaultModel(provider, thinkingMode)
+  ).trim();
+  return { provider, model };
+};
+
+const respondLLMNotConfigured = (req, res, providerName) => {
+  return res.status(503).json({
+    error: 'LLM_NOT_CONFIGURED',
+    provider: providerName,
+    hint: llmProviders.getHint(providerName),
+    requestId: req.requestId
+  });
+};
 
 app.get(['/ai/provider-status', '/api/ai/provider-status'], (req, res) => {
-  const configured = isDeepSeekConfigured();
+  const providers = llmProviders.describe();
+  const plannerRoute = getPlannerRouting();
+  const executorRoute = getExecutorRouting(false);
+  const executorThinkingRoute = getExecutorRouting(true);
+  const plannerConfigured = llmProviders.isConfigured(plannerRoute.provider);
+  const executorConfigured = llmProviders.isConfigured(executorRoute.provider);
+  const configured = plannerConfigured && executorConfigured;
+  const missing = Array.from(
+    new Set([plannerConfigured ? null : plannerRoute.provider, executorConfigured ? null : executorRoute.provider].filter(Boolean))
+  );
   return res.json({
-    provider: 'deepseek',
+    provider: executorRoute.provider,
     configured,
+    providers,
+    routing: {
+      planner: { ...plannerRoute, configured: plannerConfigured },
+      executor: { ...executorRoute, thinkingModel: executorThinkingRoute.model, configured: executorConfigured }
+    },
     capabilities: {
       multiAgentArchitect: true,
       specialists: ['planner', 'html', 'css', 'javascript', 'resolver']
     },
     code: configured ? 'OK' : 'LLM_NOT_CONFIGURED',
-    hint: configured
-      ? null
-      : 'Set a valid DEEPSEEK_API_KEY in backend env (no placeholders), then restart the server.',
+    hint: configured ? null : missing.map((name) => llmProviders.getHint(name)).join(' '),
     requestId: req.requestId
   });
 });
@@ -313,139 +346,6 @@ app.post(['/preview/sessions', '/api/preview/sessions'], (req, res) => respondEx
 app.get(['/preview/sessions/:id', '/api/preview/sessions/:id'], (req, res) => respondExternalPreviewDisabled(req, res));
 app.patch(['/preview/sessions/:id', '/api/preview/sessions/:id'], (req, res) => respondExternalPreviewDisabled(req, res));
 app.delete(['/preview/sessions/:id', '/api/preview/sessions/:id'], (req, res) => respondExternalPreviewDisabled(req, res));
-const normalizeDeepSeekBaseUrl = (raw) => {
-  const base = String(raw || 'https://api.deepseek.com').trim().replace(/\/+$/, '');
-  return base.endsWith('/v1') ? base : `${base}/v1`;
-};
-
-const getDeepSeekConfig = () => {
-  const apiKey = process.env.DEEPSEEK_API_KEY;
-  if (isMissingOrPlaceholderSecret(apiKey)) {
-    throw new Error('LLM_NOT_CONFIGURED: DEEPSEEK_API_KEY is missing or placeholder');
-  }
-  const baseURL = normalizeDeepSeekBaseUrl(process.env.DEEPSEEK_BASE_URL || 'https://api.deepseek.com');
-  return { apiKey, baseURL };
-};
-
-const deepSeekCreateChatCompletion = async (payload, options = {}) => {
-  const { apiKey, baseURL } = getDeepSeekConfig();
-  const res = await fetch(`${baseURL}/chat/completions`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`
-    },
-    body: JSON.stringify(payload),
-    signal: options.signal
-  });
-
-  if (!res.ok) {
-    const text = await res.text().catch(() => '');
-    throw new Error(text || `DeepSeek request failed (${res.status})`);
-  }
-
-  return res.json();
-};
-
-async function* readSseDataMessages(readableStream) {
-  const reader = readableStream.getReader();
-  const decoder = new TextDecoder();
-  let buffer = '';
-
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-
-    buffer += decoder.decode(value, { stream: true });
-
-    let boundary = buffer.indexOf('\n\n');
-    while (boundary !== -1) {
-      const rawEvent = buffer.slice(0, boundary);
-      buffer = buffer.slice(boundary + 2);
-      boundary = buffer.indexOf('\n\n');
-
-      const lines = rawEvent.split(/\r?\n/);
-      const dataLines = [];
-      for (const line of lines) {
-        if (line.startsWith('data:')) {
-          const rest = line.slice('data:'.length);
-          dataLines.push(rest.startsWith(' ') ? rest.slice(1) : rest);
-        }
-      }
-
-      if (dataLines.length > 0) yield dataLines.join('\n');
-    }
-  }
-}
-
-async function* deepSeekStreamChatCompletion(payload, options = {}) {
-  const { apiKey, baseURL } = getDeepSeekConfig();
-  const res = await fetch(`${baseURL}/chat/completions`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({ ...payload, stream: true }),
-    signal: options.signal
-  });
-
-  if (!res.ok) {
-    const text = await res.text().catch(() => '');
-    throw new Error(text || `DeepSeek stream failed (${res.status})`);
-  }
-
-  if (!res.body) throw new Error('DeepSeek stream failed: empty response body');
-
-  for await (const dataText of readSseDataMessages(res.body)) {
-    const text = String(dataText || '').trim();
-    if (!text) continue;
-    if (text === '[DONE]') break;
-
-    try {
-      const parsed = JSON.parse(text);
-      yield parsed;
-    } catch {
-      // ignore non-JSON lines
-    }
-  }
-};
-
-const getLLMProvider = (overrideProvider) => {
-  const name = String(overrideProvider || process.env.LLM_PROVIDER || 'deepseek').trim().toLowerCase();
-  if (name === 'deepseek') {
-    return {
-      name,
-      createChatCompletion: deepSeekCreateChatCompletion,
-      streamChatCompletion: deepSeekStreamChatCompletion
-    };
-  }
-  throw new Error(`Unsupported LLM provider: ${name}`);
-};
-
-const getPlannerRouting = (modelRouting = {}) => {
-  const provider =
-    String(modelRouting?.plannerProvider || process.env.LLM_PLANNER_PROVIDER || process.env.LLM_PROVIDER || 'deepseek')
-      .trim()
-      .toLowerCase();
-  const model = String(modelRouting?.plannerModel || process.env.LLM_PLANNER_MODEL || process.env.DEEPSEEK_MODEL || 'deepseek-chat').trim();
-  return { provider, model };
-};
-
-const getExecutorRouting = (thinkingMode, modelRouting = {}) => {
-  const provider =
-    String(modelRouting?.executorProvider || process.env.LLM_EXECUTOR_PROVIDER || process.env.LLM_PROVIDER || 'deepseek')
-      .trim()
-      .toLowerCase();
-  const model = String(
-    modelRouting?.executorModel ||
-      process.env.LLM_EXECUTOR_MODEL ||
-      (thinkingMode ? process.env.DEEPSEEK_THINKING_MODEL : process.env.DEEPSEEK_MODEL) ||
-      (thinkingMode ? 'deepseek-reasoner' : 'deepseek-chat')
-  ).trim();
-  return { provider, model };
-};
-
 const shouldUseMultiAgentArchitect = ({ multiAgentEnabled, modelRouting, stage = 'generate' }) => {
   // Plan stage stays single-agent for speed and stability.
   if (stage === 'plan') return false;
@@ -632,10 +532,15 @@ const normalizeZipEntryPath = (rawPath) => {
 const addFilesToZip = (zip, files) => {
   let count = 0;
 
-  const addFile = (path, content) => {
+  const addFile = (path, content, encoding) => {
     const entryPath = normalizeZipEntryPath(path);
     if (!entryPath) return;
-    zip.file(entryPath, typeof content === 'string' ? content : String(content ?? ''));
+    if (encoding === 'base64' && typeof content === 'string') {
+      // Binary assets arrive base64-encoded and are written back byte for byte.
+      zip.file(entryPath, Buffer.from(content, 'base64'));
+    } else {
+      zip.file(entryPath, typeof content === 'string' ? content : String(content ?? ''));
+    }
     count += 1;
   };
 
@@ -655,7 +560,7 @@ const addFilesToZip = (zip, files) => {
     for (const file of files) {
       if (!file) continue;
       const path = file.path || file.name;
-      addFile(path, file.content);
+      addFile(path, file.content, file.encoding);
     }
     return count;
   }
@@ -829,9 +734,19 @@ RULE 4 — PROJECT STRUCTURE
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 RULE 5 — PATCH-FIRST EDITING & SURGICAL EDITS
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-   - Use [[PATCH_FILE: path | mode: edit]] for edits and [[PATCH_FILE: path | mode: create]] for new files.
-   - Always include the COMPLETE updated file body between marker and [[END_FILE]].
-   - Do not output SEARCH/REPLACE instructions.
+   - Use [[PATCH_FILE: path | mode: edit]] for rewrites and [[PATCH_FILE: path | mode: create]] for new files.
+   - A [[PATCH_FILE]] block always contains the COMPLETE updated file body between marker and [[END_FILE]].
+   - For small edits to an EXISTING file, prefer anchored hunks instead of rewriting the whole file:
+       [[PATCH_HUNKS: path | reason: short why]]
+       <<<<<<< SEARCH
+       exact existing lines, copied verbatim (enough to be unique)
+       =======
+       replacement lines
+       >>>>>>> REPLACE
+       [[END_FILE]]
+     Several SEARCH/REPLACE hunks may share one block. Unified diff hunks (@@ -12,3 +12,4 @@) are also accepted.
+   - SEARCH text MUST match the current file exactly once; hunks that do not apply are rejected, never force-written.
+   - NEVER use [[PATCH_HUNKS]] for files that do not exist yet.
    - When modifying an EXISTING project, ONLY emit files that ACTUALLY CHANGE.
    - Do NOT re-emit unchanged files. Example: if only background color changes, output ONLY style.css.
 
@@ -978,11 +893,13 @@ const normalizeConstraints = (rawConstraints = {}, fallbackProjectType = null) =
         ? rawConstraints.generationProfile
         : 'auto',
     destructiveSafetyMode:
-      rawConstraints?.destructiveSafetyMode === 'manual_confirm' ||
+      rawConstraints?.destructiveSafetyMode === 'review_changes' ||
       rawConstraints?.destructiveSafetyMode === 'no_delete_move' ||
       rawConstraints?.destructiveSafetyMode === 'backup_then_apply'
         ? rawConstraints.destructiveSafetyMode
-        : 'backup_then_apply'
+        : rawConstraints?.destructiveSafetyMode === 'manual_confirm'
+          ? 'review_changes'
+          : 'backup_then_apply'
   };
 };
 
@@ -1162,7 +1079,7 @@ const planLimiter = createRateLimiter({ windowMs: 60_000, max: 20 });
 app.post(planRouteRegex, planLimiter, async (req, res) => {
   console.log(`[plan] [${req.requestId}] Received request`);
   try {
-    const { prompt, thinkingMode, projectType, constraints: rawConstraints, contextMeta, modelRouting, architectMode, multiAgentEnabled: multiAgentToggle } = req.body || {};
+    const { prompt, thinkingMode, projectType, constraints: rawConstraints, contextMeta, modelRouting, architectMode, multiAgentEnabled: multiAgentToggle, fixedSteps: rawFixedSteps } = req.body || {};
     if (typeof prompt !== 'string' || prompt.trim().length === 0) {
       console.log(`[plan] [${req.requestId}] Error: Prompt is required`);
       return res.status(400).json({ error: 'Prompt is required', requestId: req.requestId });
@@ -1173,44 +1090,37 @@ app.post(planRouteRegex, planLimiter, async (req, res) => {
     }
     const constraints = normalizeConstraints(rawConstraints, projectType);
     const effectiveProjectType = constraints.projectMode;
-    const constrainedPrompt = attachConstraintsToPrompt(prompt, constraints);
+    const fixedSteps = normalizeFixedPlanSteps(rawFixedSteps);
+    const constrainedPrompt = buildFixedPrefixPrompt(attachConstraintsToPrompt(prompt, constraints), fixedSteps);
 
     const selectedSystemPrompt = PLAN_SYSTEM_PROMPT_FRONTEND;
 
-    if (!isDeepSeekConfigured()) {
-      return res.status(503).json({
-        error: 'LLM_NOT_CONFIGURED',
-        hint: 'Set a valid DEEPSEEK_API_KEY in backend env (no placeholders), then restart.',
-        requestId: req.requestId
-      });
+    const plannerRoute = getPlannerRouting(modelRouting);
+    if (!llmProviders.isConfigured(plannerRoute.provider)) {
+      return respondLLMNotConfigured(req, res, plannerRoute.provider);
     }
 
     const TIMEOUT_MS = thinkingMode ? 420_000 : 240_000;
-    const plannerRoute = getPlannerRouting(modelRouting);
     const multiAgentEnabled = shouldUseMultiAgentArchitect({
       multiAgentEnabled: Boolean(multiAgentToggle),
       modelRouting,
       stage: 'plan'
     });
     console.log(
-      `[plan] [${req.requestId}] prompt_length=${prompt.length} mode=${thinkingMode ? 'thinking' : 'fast'} type=${effectiveProjectType} planner=${plannerRoute.provider}:${plannerRoute.model} architect=${Boolean(architectMode)} multiAgentToggle=${Boolean(multiAgentToggle)} multiAgent=${multiAgentEnabled} session=${contextMeta?.sessionId || 'none'}`
+      `[plan] [${req.requestId}] prompt_length=${prompt.length} fixed_steps=${fixedSteps.length} mode=${thinkingMode ? 'thinking' : 'fast'} type=${effectiveProjectType} planner=${plannerRoute.provider}:${plannerRoute.model} architect=${Boolean(architectMode)} multiAgentToggle=${Boolean(multiAgentToggle)} multiAgent=${multiAgentEnabled} session=${contextMeta?.sessionId || 'none'}`
     );
 
-    let provider;
-    try {
-      provider = getLLMProvider(plannerRoute.provider);
-    } catch {
-      provider = getLLMProvider('deepseek');
-    }
+    const provider = llmProviders.get(plannerRoute.provider);
+    const usageTracker = createUsageTracker({ provider: plannerRoute.provider, model: plannerRoute.model, stage: 'plan' });
 
     if (multiAgentEnabled) {
       try {
         const multiAgentResult = await runPlanMultiAgent({
           prompt: constrainedPrompt,
           thinkingMode: Boolean(thinkingMode),
-          modelRouting: modelRouting || {},
+          modelRouting: { ...(modelRouting || {}), plannerModel: plannerRoute.model },
           plannerSystemPrompt: selectedSystemPrompt,
-          createChatCompletion: (payload) => provider.createChatCompletion(payload),
+          createChatCompletion: usageTracker.track((payload) => provider.createChatCompletion(payload), 'multi-agent'),
           timeoutMs: TIMEOUT_MS,
           onStatus: (phase, message) => {
             console.log(`[plan] [${req.requestId}] [multi-agent] ${phase}:${message}`);
@@ -1223,7 +1133,8 @@ app.post(planRouteRegex, planLimiter, async (req, res) => {
           description: multiAgentResult.plan.description,
           stack: multiAgentResult.plan.stack,
           fileTree: multiAgentResult.plan.fileTree,
-          steps: multiAgentResult.plan.steps,
+          steps: mergePlanWithFixedPrefix(fixedSteps, multiAgentResult.plan.steps),
+          usage: usageTracker.summary(),
           requestId: req.requestId
         });
       } catch (multiAgentError) {
@@ -1244,11 +1155,12 @@ app.post(planRouteRegex, planLimiter, async (req, res) => {
       ]
     };
 
+    const plannerCompletion = usageTracker.track((payload) => provider.createChatCompletion(payload), 'planner');
     let completion;
     try {
       console.log(`[plan] [${req.requestId}] Requesting AI completion...`);
       completion = await Promise.race([
-        provider.createChatCompletion({
+        plannerCompletion({
           ...request,
           response_format: { type: 'json_object' }
         }),
@@ -1257,7 +1169,7 @@ app.post(planRouteRegex, planLimiter, async (req, res) => {
     } catch (err) {
       console.log(`[plan] [${req.requestId}] First attempt failed: ${err.message}. Retrying without json_object format...`);
       completion = await Promise.race([
-        provider.createChatCompletion(request),
+        plannerCompletion(request),
         new Promise((_, reject) => setTimeout(() => reject(new Error('PLAN_TIMEOUT')), TIMEOUT_MS))
       ]);
     }
@@ -1282,7 +1194,8 @@ app.post(planRouteRegex, planLimiter, async (req, res) => {
           description: 'Recovered plan from non-JSON response.',
           stack: 'html-css-javascript',
           fileTree: [],
-          steps: fallbackSteps,
+          steps: mergePlanWithFixedPrefix(fixedSteps, fallbackSteps),
+          usage: usageTracker.summary(),
           requestId: req.requestId
         });
       }
@@ -1303,7 +1216,9 @@ app.post(planRouteRegex, planLimiter, async (req, res) => {
               title,
               category: String(step?.category ?? 'frontend').toLowerCase(),
               files: Array.isArray(step?.files) ? step.files : [],
-              description: String(step?.description ?? '')
+              description: String(step?.description ?? ''),
+              depends_on: Array.isArray(step?.depends_on) ? step.depends_on.map((ref) => String(ref)) : [],
+              ...(['small', 'medium', 'large'].includes(step?.estimatedSize) ? { estimatedSize: step.estimatedSize } : {})
             };
           })
           .filter(Boolean)
@@ -1316,7 +1231,8 @@ app.post(planRouteRegex, planLimiter, async (req, res) => {
       description: parsed?.description || '',
       stack: parsed?.stack || '',
       fileTree: Array.isArray(parsed?.fileTree) ? parsed.fileTree : [],
-      steps,
+      steps: mergePlanWithFixedPrefix(fixedSteps, steps),
+      usage: usageTracker.summary(),
       requestId: req.requestId
     });
   } catch (error) {
@@ -1345,6 +1261,68 @@ app.post(planRouteRegex, planLimiter, async (req, res) => {
   }
 });
 
+// /ai/summarize (mapped from /api/ai/summarize)
+// Structured summary of older chat messages for the client's context compression.
+const summarizeRouteRegex = /^\/api\/ai\/summarize|^\/ai\/summarize/;
+
+app.options(summarizeRouteRegex, cors(corsOptions));
+
+const summarizeLimiter = createRateLimiter({ windowMs: 60_000, max: 10 });
+
+app.post(summarizeRouteRegex, summarizeLimiter, async (req, res) => {
+  try {
+    const { messages: rawMessages, modelRouting } = req.body || {};
+    const messages = normalizeSummaryMessages(rawMessages);
+    if (messages.length === 0) {
+      return res.status(400).json({ error: 'Messages are required', requestId: req.requestId });
+    }
+
+    const plannerRoute = getPlannerRouting(modelRouting);
+    if (!llmProviders.isConfigured(plannerRoute.provider)) {
+      return respondLLMNotConfigured(req, res, plannerRoute.provider);
+    }
+    console.log(
+      `[summarize] [${req.requestId}] messages=${messages.length} planner=${plannerRoute.provider}:${plannerRoute.model}`
+    );
+
+    const provider = llmProviders.get(plannerRoute.provider);
+    const usageTracker = createUsageTracker({ provider: plannerRoute.provider, model: plannerRoute.model, stage: 'plan' });
+    const summarize = usageTracker.track((payload) => provider.createChatCompletion(payload), 'summarizer');
+    const TIMEOUT_MS = 90_000;
+    const completion = await Promise.race([
+      summarize({
+        model: plannerRoute.model,
+        temperature: 0.0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: CONVERSATION_SUMMARY_SYSTEM_PROMPT },
+          { role: 'user', content: buildConversationSummaryPrompt(messages) }
+        ]
+      }),
+      new Promise((_, reject) => setTimeout(() => reject(new Error('SUMMARY_TIMEOUT')), TIMEOUT_MS))
+    ]);
+
+    const content = String(completion?.choices?.[0]?.message?.content || '').trim();
+    const summary = normalizeConversationSummary(cleanAndParseJSON(content));
+    console.log(
+      `[summarize] [${req.requestId}] Success decisions=${summary.decisions.length} files=${summary.fileResponsibilities.length} tasks=${summary.openTasks.length}`
+    );
+    return res.json({
+      ...summary,
+      coveredMessages: messages.length,
+      usage: usageTracker.summary(),
+      requestId: req.requestId
+    });
+  } catch (error) {
+    if (String(error?.message || '').includes('SUMMARY_TIMEOUT')) {
+      return res.status(504).json({ error: 'SUMMARY_TIMEOUT', requestId: req.requestId });
+    }
+    const details = getErrorDetails(error);
+    console.error(`[summarize] [${req.requestId}] error=${details.message}`);
+    return res.status(500).json({ error: details.message, requestId: req.requestId });
+  }
+});
+
 // /generate (mapped from /api/generate)
 // Live streaming (no job queue): pipes model output directly to the client.
 // Matches: /api/ai/generate, /ai/generate, /api/generate, /generate, AND /ai/chat (legacy)
@@ -1358,6 +1336,7 @@ app.post(generateRouteRegex, generateLimiter, async (req, res) => {
 
   let keepAliveTimer = null;
   let abortTimer = null;
+  let usageTracker = null;
   const writeSse = (event, data) => {
     if (res.writableEnded) return;
     const payload = String(data ?? '');
@@ -1368,6 +1347,13 @@ app.post(generateRouteRegex, generateLimiter, async (req, res) => {
     }
     res.write('\n');
   };
+  // Token usage goes out as the last SSE event so the client can attribute it to the run that just ended.
+  const endStream = () => {
+    if (usageTracker && usageTracker.hasCalls()) {
+      writeSse('usage', JSON.stringify(usageTracker.summary()));
+    }
+    res.end();
+  };
 
   try {
     const {
@@ -1392,12 +1378,9 @@ app.post(generateRouteRegex, generateLimiter, async (req, res) => {
       res.status(400).send('Prompt is too long');
       return;
     }
-    if (!isDeepSeekConfigured()) {
-      return res.status(503).json({
-        error: 'LLM_NOT_CONFIGURED',
-        hint: 'Set a valid DEEPSEEK_API_KEY in backend env (no placeholders), then restart.',
-        requestId: req.requestId
-      });
+    const executorRoute = getExecutorRouting(Boolean(thinkingMode), modelRouting);
+    if (!llmProviders.isConfigured(executorRoute.provider)) {
+      return respondLLMNotConfigured(req, res, executorRoute.provider);
     }
 
     const constraints = normalizeConstraints(rawConstraints, projectType);
@@ -1423,12 +1406,11 @@ app.post(generateRouteRegex, generateLimiter, async (req, res) => {
       const threshold = Math.max(0, Number(writePolicy?.minContextConfidence || 0));
       if (threshold > 0 && confidence < threshold) {
         writeSse('status', `blocked:analysis confidence ${confidence.toFixed(1)} below threshold ${threshold.toFixed(1)}`);
-        res.end();
+        endStream();
         return;
       }
     }
 
-    const executorRoute = getExecutorRouting(Boolean(thinkingMode), modelRouting);
     const model = executorRoute.model;
     const useMultiAgent = shouldUseMultiAgentArchitect({
       multiAgentEnabled: Boolean(multiAgentEnabled),
@@ -1441,12 +1423,15 @@ app.post(generateRouteRegex, generateLimiter, async (req, res) => {
       `[generate] [${req.requestId}] model=${executorRoute.provider}:${executorRoute.model} architect=${Boolean(architectMode)} multiAgentToggle=${Boolean(multiAgentEnabled)} multiAgent=${useMultiAgent} resume=${resumePrompt} session=${contextMeta?.sessionId || 'none'}`
     );
 
-    let provider;
-    try {
-      provider = getLLMProvider(executorRoute.provider);
-    } catch {
-      provider = getLLMProvider('deepseek');
-    }
+    const provider = llmProviders.get(executorRoute.provider);
+    usageTracker = createUsageTracker({ provider: executorRoute.provider, model, stage: 'generate' });
+    // Specialist calls all go to the executor provider, so a planner model from another provider cannot be reused.
+    const plannerRoute = getPlannerRouting(modelRouting);
+    const specialistRouting = {
+      ...(modelRouting || {}),
+      executorModel: model,
+      ...(plannerRoute.provider === executorRoute.provider ? {} : { plannerModel: model })
+    };
 
     let policyRepairUsed = false;
     const emitPatchText = (patchText) => {
@@ -1475,7 +1460,10 @@ app.post(generateRouteRegex, generateLimiter, async (req, res) => {
       let repairedText = '';
       try {
         repairedText = await runSinglePolicyRepairAttempt({
-          provider,
+          provider: {
+            ...provider,
+            createChatCompletion: usageTracker.track((payload) => provider.createChatCompletion(payload), 'policy-repair')
+          },
           model,
           codeSystemPrompt: CODE_STREAM_SYSTEM_PROMPT,
           originalPrompt: `${finalPrompt}\n\n[PREVIOUS_INVALID_PATCH_STREAM]\n${String(sourcePatchText || '').slice(0, 20000)}`,
@@ -1510,9 +1498,9 @@ app.post(generateRouteRegex, generateLimiter, async (req, res) => {
         const multiAgentResult = await runGenerateMultiAgent({
           prompt: finalPrompt,
           thinkingMode: Boolean(thinkingMode),
-          modelRouting: modelRouting || {},
+          modelRouting: specialistRouting,
           codeSystemPrompt: CODE_STREAM_SYSTEM_PROMPT,
-          createChatCompletion: (payload) => provider.createChatCompletion(payload),
+          createChatCompletion: usageTracker.track((payload) => provider.createChatCompletion(payload), 'multi-agent'),
           timeoutMs: thinkingMode ? 480_000 : 360_000,
           onStatus: (phase, message) => {
             writeSse('status', `${phase}:${message}`);
@@ -1530,19 +1518,19 @@ app.post(generateRouteRegex, generateLimiter, async (req, res) => {
           if (!replay.ok) {
             const repaired = await tryPolicyRepair(replay.violation, merged);
             if (!repaired) {
-              res.end();
+              endStream();
               return;
             }
             emitPatchText(repaired);
             writeSse('status', 'done:Complete');
-            res.end();
+            endStream();
             return;
           }
 
           emitPatchText(merged);
 
           writeSse('status', 'done:Complete');
-          res.end();
+          endStream();
           return;
         }
       } catch (multiAgentError) {
@@ -1557,7 +1545,7 @@ app.post(generateRouteRegex, generateLimiter, async (req, res) => {
 
     // Legacy demo fallback (kept for compatibility but unreachable when provider is required).
     const explicitFrameworkRequested = hasExplicitFrameworkRequest(finalPrompt);
-    if (!isDeepSeekConfigured()) {
+    if (!llmProviders.isConfigured(executorRoute.provider)) {
       if (
         constraints.projectMode === 'FRONTEND_ONLY' &&
         constraints.generationProfile !== 'framework' &&
@@ -1706,7 +1694,7 @@ app.post(generateRouteRegex, generateLimiter, async (req, res) => {
 
         writeSse('token', [siteMap, indexHtml, aboutHtml, contactHtml, styleCss, scriptJs].join('\n'));
         writeSse('status', 'done:Complete');
-        res.end();
+        endStream();
         return;
       }
 
@@ -1869,7 +1857,7 @@ app.post(generateRouteRegex, generateLimiter, async (req, res) => {
 
       writeSse('token', indexHtml + '\n' + mainTsx + '\n' + heroTsx + '\n' + featuresTsx + '\n' + appTsx + '\n' + stylesCss);
       writeSse('status', 'done:Complete');
-      res.end();
+      endStream();
       return;
     }
 
@@ -1902,6 +1890,7 @@ app.post(generateRouteRegex, generateLimiter, async (req, res) => {
         { role: 'user', content: finalPrompt }
       ],
       stream: true,
+      stream_options: { include_usage: true },
       signal: abortController.signal
     };
 
@@ -1925,8 +1914,10 @@ app.post(generateRouteRegex, generateLimiter, async (req, res) => {
       writeSse('file_op', JSON.stringify(event));
     });
     const stream = provider.streamChatCompletion(request, { signal: abortController.signal });
+    let streamUsage = null;
     try {
       for await (const chunk of stream) {
+        if (chunk?.usage) streamUsage = chunk.usage;
         const delta = chunk?.choices?.[0]?.delta || {};
         const contentChunk = delta?.content;
         if (typeof contentChunk !== 'string' || contentChunk.length === 0) continue;
@@ -1944,27 +1935,29 @@ app.post(generateRouteRegex, generateLimiter, async (req, res) => {
       }
     } catch (streamError) {
       if (!policyViolation) throw streamError;
+    } finally {
+      usageTracker.record(streamUsage, { label: 'stream', model });
     }
     fileOpParser.finalize();
 
     if (policyViolation) {
       const repaired = await tryPolicyRepair(policyViolation);
       if (!repaired) {
-        res.end();
+        endStream();
         return;
       }
       emitPatchText(repaired);
       if (keepAliveTimer) clearInterval(keepAliveTimer);
       if (abortTimer) clearTimeout(abortTimer);
       writeSse('status', 'done:Complete');
-      res.end();
+      endStream();
       return;
     }
 
     if (keepAliveTimer) clearInterval(keepAliveTimer);
     if (abortTimer) clearTimeout(abortTimer);
     writeSse('status', 'done:Complete');
-    res.end();
+    endStream();
   } catch (error) {
     const details = getErrorDetails(error);
     console.error(`[generate] [${req.requestId}] error=${details.message}`);
@@ -1979,7 +1972,7 @@ app.post(generateRouteRegex, generateLimiter, async (req, res) => {
     } catch {
       // ignore
     }
-    res.end();
+    endStream();
   } finally {
     if (keepAliveTimer) {
       try {
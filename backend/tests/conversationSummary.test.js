@@ -0,0 +1,83 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  normalizeSummaryMessages,
+  buildConversationSummaryPrompt,
+  normalizeConversationSummary
+} = require('../utils/conversationSummary');
+
+test('keeps chat roles with content and caps message length', () => {
+  const messages = normalizeSummaryMessages([
+    { role: 'user', content: '  Build a bakery site  ' },
+    { role: 'tool', content: 'ignored' },
+    { role: 'assistant', content: '   ' },
+    { role: 'assistant', content: 'x'.repeat(5000) },
+    null
+  ]);
+
+  assert.equal(messages.length, 2);
+  assert.deepEqual(messages[0], { role: 'user', content: 'Build a bakery site' });
+  assert.equal(messages[1].content.length, 2400);
+  assert.deepEqual(normalizeSummaryMessages('nope'), []);
+});
+
+test('numbers the transcript and drops the oldest messages when it is too long', () => {
+  const short = buildConversationSummaryPrompt([
+    { role: 'user', content: 'Use a dark theme' },
+    { role: 'assistant', content: 'Updated style.css' }
+  ]);
+  assert.match(short, /^Summarize these 2 messages\.\n/);
+  assert.match(short, /\[1\] USER: Use a dark theme\n\[2\] ASSISTANT: Updated style\.css$/);
+
+  const long = buildConversationSummaryPrompt(
+    Array.from({ length: 20 }, (_, index) => ({ role: 'user', content: `${index} ${'y'.repeat(2390)}` }))
+  );
+  assert.match(long, /The first 9 were omitted for length\./);
+  assert.doesNotMatch(long, /\[9\] USER/);
+  assert.match(long, /\[20\] USER: 19 /);
+});
+
+test('keeps the previous summary and trims only the pending messages after it', () => {
+  const messages = normalizeSummaryMessages([
+    { role: 'system', content: `[PREVIOUS SUMMARY] of the 30 messages before these:\nBrand color is #c2410c\n${'s'.repeat(3000)}` },
+    ...Array.from({ length: 90 }, (_, index) => ({ role: 'user', content: `${index} ${'y'.repeat(2390)}` }))
+  ]);
+  assert.equal(messages.length, 80);
+  assert.equal(messages[0].role, 'system');
+  assert.ok(messages[0].content.length > 2400);
+  assert.match(messages[1].content, /^11 /);
+
+  const prompt = buildConversationSummaryPrompt(messages);
+  assert.match(prompt, /\[CONVERSATION\]\n\[1\] SYSTEM: \[PREVIOUS SUMMARY\][^\n]*\nBrand color is #c2410c/);
+  assert.match(prompt, /Messages 2-\d+ were omitted for length; \[1\] is the previous summary\./);
+  assert.doesNotMatch(prompt, /The first \d+ were omitted/);
+  assert.match(prompt, /\[80\] USER: 89 /);
+});
+
+test('normalizes the model summary and rejects empty answers', () => {
+  const summary = normalizeConversationSummary({
+    summary: ' A bakery landing page\n with a menu. ',
+    decisions: ['Never use a CDN', { summary: 'Brand color is #c2410c', files: ['./styles/style.css', 'styles/style.css', ''] }, {}],
+    fileResponsibilities: [
+      { path: 'index.html', responsibility: 'Landing page' },
+      { path: '', responsibility: 'dropped' },
+      { path: 'menu.html' }
+    ],
+    openTasks: [{ text: 'Add the contact form', files: ['contact.html'] }]
+  });
+
+  assert.deepEqual(summary, {
+    summary: 'A bakery landing page with a menu.',
+    decisions: [
+      { summary: 'Never use a CDN', files: [] },
+      { summary: 'Brand color is #c2410c', files: ['styles/style.css'] }
+    ],
+    fileResponsibilities: [{ path: 'index.html', responsibility: 'Landing page' }],
+    openTasks: [{ summary: 'Add the contact form', files: ['contact.html'] }]
+  });
+  assert.throws(() => normalizeConversationSummary({ summary: '', decisions: [] }), /empty/);
+  assert.throws(() => normalizeConversationSummary([]), /not a JSON object/);
+});
@@ -64,3 +64,34 @@ test('parses delete and move operations', () => {
     reason: 'rename'
   });
 });
+
+test('buffers PATCH_HUNKS blocks into a single hunks event', () => {
+  const events = [];
+  const parser = createFileOpParser((event) => events.push(event));
+
+  parser.push('[[PATCH_HUNKS: style.css | reason: darker header]]\n<<<<<<< SEARCH\n');
+  parser.push('header {\n  color: #333;\n=======\nheader {\n  color: #111;\n>>>>>>> REPLACE\n[[END_FILE]]');
+  parser.finalize();
+
+  assert.equal(events.length, 1);
+  assert.deepEqual(events[0], {
+    op: 'hunks',
+    phase: 'end',
+    path: 'style.css',
+    reason: 'darker header',
+    hunks: [{ format: 'search_replace', search: 'header {\n  color: #333;', replace: 'header {\n  color: #111;' }]
+  });
+});
+
+test('reports a cut-off PATCH_HUNKS block instead of emitting partial hunks', () => {
+  const events = [];
+  const parser = createFileOpParser((event) => events.push(event));
+
+  parser.push('[[PATCH_HUNKS: script.js]]\n<<<<<<< SEARCH\nconst a = 1;\n=======\nconst a = 2;\n');
+  parser.finalize();
+
+  assert.equal(events.length, 1);
+  assert.equal(events[0].op, 'hunks');
+  assert.ok(events[0].errors.some((error) => /REPLACE/.test(error)));
+  assert.ok(events[0].errors.some((error) => /cut off/.test(error)));
+});
@@ -331,3 +331,31 @@ test('static profile blocks unsupported create extension', () => {
   assert.equal(result.allowed, false);
   assert.equal(result.violation.code, 'STATIC_UNSUPPORTED_FILETYPE');
 });
+
+test('validates hunk patches against scope, manifest and parse errors', () => {
+  const writePolicy = {
+    interactionMode: 'edit',
+    allowedEditPaths: ['style.css', 'ghost.css'],
+    allowedCreateRules: [],
+    maxTouchedFiles: 4,
+    manifestPaths: ['style.css', 'index.html']
+  };
+  const hunks = [{ format: 'search_replace', search: 'a', replace: 'b' }];
+
+  const gate = createFileOpPolicyGate({ writePolicy });
+  assert.equal(gate.check({ op: 'hunks', phase: 'end', path: 'style.css', hunks }).allowed, true);
+  assert.equal(gate.check({ op: 'hunks', phase: 'end', path: 'index.html', hunks }).violation.code, 'PATCH_OUT_OF_SCOPE');
+  assert.equal(gate.check({ op: 'hunks', phase: 'end', path: 'ghost.css', hunks }).violation.code, 'HUNK_TARGET_MISSING');
+
+  const malformed = createFileOpPolicyGate({ writePolicy }).check({
+    op: 'hunks',
+    phase: 'end',
+    path: 'style.css',
+    hunks: [],
+    errors: ['Hunk 1 is missing its ======= marker']
+  });
+  assert.equal(malformed.violation.code, 'HUNK_MALFORMED');
+
+  const empty = createFileOpPolicyGate({ writePolicy }).check({ op: 'hunks', phase: 'end', path: 'style.css', hunks: [] });
+  assert.equal(empty.violation.code, 'HUNK_EMPTY');
+});
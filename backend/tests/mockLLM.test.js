@@ -0,0 +1,149 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { createLLMProviderRegistry } = require('../utils/llmProviders');
+const { createFileOpParser } = require('../utils/fileOpParser');
+const { createFileOpPolicyGate } = require('../utils/fileOpPolicyGate');
+const { classifyMockRequest, loadMockTranscripts } = require('../utils/mockLLM');
+const { validatePlanStrict, validatePatchStrict } = require('../utils/multiAgentOrchestrator');
+
+const createMock = (env = {}) => createLLMProviderRegistry({ env: { LLM_PROVIDER: 'mock', ...env } }).get('mock');
+
+const collectStream = async (iterable) => {
+  const chunks = [];
+  for await (const chunk of iterable) chunks.push(chunk);
+  return chunks;
+};
+
+const streamText = (chunks) => chunks.map((chunk) => chunk?.choices?.[0]?.delta?.content || '').join('');
+
+test('ships fixture transcripts that satisfy the strict plan and patch gates', () => {
+  const transcripts = loadMockTranscripts();
+  assert.ok(transcripts.has('static-site'));
+  assert.ok(transcripts.has('edit-ops'));
+  assert.ok(transcripts.has('truncated'));
+  assert.ok(transcripts.has('policy-violation'));
+
+  const site = transcripts.get('static-site');
+  assert.equal(validatePlanStrict(site.plan).ok, true);
+  assert.equal(validatePatchStrict(site.generate).ok, true);
+});
+
+test('is only configured when a deployment opts in', () => {
+  assert.equal(createLLMProviderRegistry({ env: {} }).isConfigured('mock'), false);
+  assert.equal(createLLMProviderRegistry({ env: { LLM_PROVIDER: 'mock' } }).isConfigured('mock'), true);
+  assert.equal(createLLMProviderRegistry({ env: { MOCK_LLM_ENABLED: 'true' } }).isConfigured('mock'), true);
+});
+
+test('classifies plan, repair and generate requests', () => {
+  assert.equal(classifyMockRequest({ response_format: { type: 'json_object' }, messages: [] }), 'plan');
+  assert.equal(classifyMockRequest({ messages: [{ role: 'user', content: 'Return ONLY JSON.' }] }), 'plan');
+  assert.equal(classifyMockRequest({ messages: [{ role: 'user', content: '[POLICY_REPAIR_ATTEMPT]\nfix it' }] }), 'repair');
+  assert.equal(classifyMockRequest({ messages: [{ role: 'user', content: 'Build a landing page' }] }), 'generate');
+});
+
+test('replays the plan transcript as chat-completion JSON with deterministic usage', async () => {
+  const mock = createMock();
+  const payload = { model: 'mock-llm', messages: [{ role: 'user', content: 'landing page' }], response_format: { type: 'json_object' } };
+  const first = await mock.createChatCompletion(payload);
+  const second = await mock.createChatCompletion(payload);
+
+  const plan = JSON.parse(first.choices[0].message.content);
+  assert.equal(plan.steps.length, 4);
+  assert.deepEqual(first.usage, second.usage);
+  assert.ok(first.usage.completion_tokens > 0);
+});
+
+test('streams generate transcripts in small chunks through the file-op parser', async () => {
+  const mock = createMock({ MOCK_LLM_CHUNK_SIZE: '7' });
+  const chunks = await collectStream(
+    mock.streamChatCompletion({ model: 'mock-llm', messages: [{ role: 'user', content: 'landing page' }] })
+  );
+
+  const events = [];
+  const parser = createFileOpParser((event) => events.push(event));
+  for (const chunk of chunks) parser.push(chunk?.choices?.[0]?.delta?.content || '');
+  parser.finalize();
+
+  const ended = events.filter((event) => event.op === 'patch' && event.phase === 'end').map((event) => event.path);
+  assert.deepEqual(ended, ['index.html', 'about.html', 'style.css', 'script.js', 'legacy.js']);
+  assert.ok(chunks[chunks.length - 1].usage.total_tokens > 0);
+});
+
+test('selects scenarios from a prompt directive and reports truncation', async () => {
+  const mock = createMock();
+  const chunks = await collectStream(
+    mock.streamChatCompletion({ model: 'mock-llm', messages: [{ role: 'user', content: 'continue [mock:truncated]' }] })
+  );
+
+  const finish = chunks.map((chunk) => chunk?.choices?.[0]?.finish_reason).filter(Boolean);
+  assert.deepEqual(finish, ['length']);
+  const text = streamText(chunks);
+  assert.equal(validatePatchStrict(text).ok, false);
+  assert.ok(!text.trimEnd().endsWith('[[END_FILE]]'));
+});
+
+test('edit-ops transcript emits edit, hunk, delete and move events', async () => {
+  const mock = createMock({ MOCK_LLM_SCENARIO: 'edit-ops' });
+  const completion = await mock.createChatCompletion({ model: 'mock-llm', messages: [{ role: 'user', content: 'edit' }] });
+
+  const events = [];
+  const parser = createFileOpParser((event) => events.push(event));
+  parser.push(completion.choices[0].message.content);
+  parser.finalize();
+
+  const starts = events.filter((event) => event.op === 'patch' && event.phase === 'start');
+  assert.ok(starts.every((event) => event.mode === 'edit'));
+  assert.deepEqual(
+    events.filter((event) => event.op !== 'patch').map((event) => [event.op, event.path, event.toPath]),
+    [
+      ['hunks', 'style.css', undefined],
+      ['delete', 'legacy.js', undefined],
+      ['move', 'about.html', 'pages/about.html']
+    ]
+  );
+  assert.equal(events.find((event) => event.op === 'hunks').hunks.length, 1);
+
+  // Replayed after static-site, every file it touches has to exist by then.
+  const created = loadMockTranscripts().get('static-site').plan.fileTree;
+  for (const event of events.filter((item) => item.path)) assert.ok(created.includes(event.path), event.path);
+});
+
+test('policy-violation transcript trips the static gate and repairs cleanly', async () => {
+  const mock = createMock({ MOCK_LLM_SCENARIO: 'policy-violation' });
+  const writePolicy = {
+    allowedEditPaths: [],
+    allowedCreateRules: [{ pattern: 'index.html' }, { pattern: 'style.css' }, { pattern: 'styles.css' }],
+    touchBudgetMode: 'adaptive'
+  };
+  const runGate = (text) => {
+    const gate = createFileOpPolicyGate({ writePolicy });
+    const violations = [];
+    const parser = createFileOpParser((event) => {
+      const result = gate.check(event);
+      if (!result.allowed) violations.push(result.violation.code);
+    });
+    parser.push(text);
+    parser.finalize();
+    return violations;
+  };
+
+  const generated = await mock.createChatCompletion({ model: 'mock-llm', messages: [{ role: 'user', content: 'styles' }] });
+  assert.deepEqual(runGate(generated.choices[0].message.content), ['FORBIDDEN_STATIC_FILENAME']);
+
+  const repaired = await mock.createChatCompletion({
+    model: 'mock-llm',
+    messages: [{ role: 'user', content: '[POLICY_REPAIR_ATTEMPT]\nfix' }]
+  });
+  assert.deepEqual(runGate(repaired.choices[0].message.content), []);
+});
+
+test('fails loudly for unknown scenarios', async () => {
+  const mock = createMock({ MOCK_LLM_SCENARIO: 'nope' });
+  await assert.rejects(
+    mock.createChatCompletion({ model: 'mock-llm', messages: [{ role: 'user', content: 'x' }] }),
+    (err) => err.code === 'MOCK_SCENARIO_NOT_FOUND' && /static-site/.test(err.message)
+  );
+});
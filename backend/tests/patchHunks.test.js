@@ -0,0 +1,35 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { parsePatchHunks } = require('../utils/patchHunks');
+
+test('parses several search/replace hunks in order', () => {
+  const { hunks, errors } = parsePatchHunks(
+    ['<<<<<<< SEARCH', 'a', '=======', 'b', '>>>>>>> REPLACE', '', '<<<<<<< SEARCH', 'c', '=======', '>>>>>>> REPLACE'].join('\n')
+  );
+
+  assert.deepEqual(errors, []);
+  assert.deepEqual(hunks, [
+    { format: 'search_replace', search: 'a', replace: 'b' },
+    { format: 'search_replace', search: 'c', replace: '' }
+  ]);
+});
+
+test('parses unified diff hunks with their start line', () => {
+  const { hunks, errors } = parsePatchHunks(
+    ['--- a/index.html', '+++ b/index.html', '@@ -4,3 +4,3 @@', ' <main>', '-  <h1>Old</h1>', '+  <h1>New</h1>', ' </main>'].join('\n')
+  );
+
+  assert.deepEqual(errors, []);
+  assert.deepEqual(hunks, [
+    { format: 'unified', search: '<main>\n  <h1>Old</h1>\n</main>', replace: '<main>\n  <h1>New</h1>\n</main>', startLine: 4 }
+  ]);
+});
+
+test('flags empty anchors, stray text and missing hunks', () => {
+  assert.match(parsePatchHunks('<<<<<<< SEARCH\n=======\nx\n>>>>>>> REPLACE').errors[0], /empty SEARCH anchor/);
+  assert.match(parsePatchHunks('Here is the fix:\n<<<<<<< SEARCH\na\n=======\nb\n>>>>>>> REPLACE').errors[0], /outside a hunk/);
+  assert.deepEqual(parsePatchHunks('\n').errors, ['No hunks found']);
+});
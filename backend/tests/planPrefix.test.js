@@ -0,0 +1,58 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { normalizeFixedPlanSteps, buildFixedPrefixPrompt, mergePlanWithFixedPrefix } = require('../utils/planPrefix');
+
+test('normalizes fixed steps and drops untitled entries', () => {
+  const steps = normalizeFixedPlanSteps([
+    { id: 1, title: ' Scaffold ', files: ['index.html', '', 3], notes: 'keep it flat', estimatedSize: 'huge' },
+    { title: '' },
+    'not a step'
+  ]);
+
+  assert.deepEqual(steps, [
+    { id: '1', title: 'Scaffold', category: 'frontend', files: ['index.html', '3'], description: '', notes: 'keep it flat' }
+  ]);
+  assert.deepEqual(normalizeFixedPlanSteps(undefined), []);
+});
+
+test('appends the fixed prefix and numbering rules to the planner prompt', () => {
+  const fixed = normalizeFixedPlanSteps([{ id: 'a', title: 'Scaffold', files: ['index.html'], notes: 'no CDN' }]);
+  const prompt = buildFixedPrefixPrompt('Build a landing page', fixed);
+
+  assert.match(prompt, /^Build a landing page\n/);
+  assert.match(prompt, /\[FIXED PLAN PREFIX\]/);
+  assert.match(prompt, /1\. \[id a\] Scaffold \| files: index\.html \| user notes: no CDN/);
+  assert.match(prompt, /Number new step ids from 2/);
+  assert.equal(buildFixedPrefixPrompt('unchanged', []), 'unchanged');
+});
+
+test('keeps the prefix verbatim, drops restated steps and renumbers the rest', () => {
+  const fixed = normalizeFixedPlanSteps([
+    { id: '1', title: 'Scaffold', files: ['index.html'] },
+    { id: '2', title: 'Hero section', files: ['index.html', 'style.css'], notes: 'use a video background' }
+  ]);
+  const generated = [
+    { id: '1', title: 'scaffold!', files: ['index.html'], depends_on: [] },
+    { id: '3', title: 'Pricing table', files: ['style.css'], depends_on: ['1', '2'] },
+    { id: '4', title: 'Contact form', files: ['script.js'], depends_on: ['3', '9', '4'] }
+  ];
+
+  const merged = mergePlanWithFixedPrefix(fixed, generated);
+
+  assert.deepEqual(merged.slice(0, 2), fixed);
+  assert.deepEqual(
+    merged.slice(2).map((step) => ({ id: step.id, title: step.title, depends_on: step.depends_on })),
+    [
+      { id: '3', title: 'Pricing table', depends_on: ['1', '2'] },
+      { id: '4', title: 'Contact form', depends_on: ['3'] }
+    ]
+  );
+});
+
+test('returns generated steps untouched without a prefix', () => {
+  const generated = [{ id: '1', title: 'Scaffold' }];
+  assert.equal(mergePlanWithFixedPrefix([], generated), generated);
+});
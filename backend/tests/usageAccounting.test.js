@@ -0,0 +1,61 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { createUsageTracker, normalizeUsage, estimateCostUsd } = require('../utils/usageAccounting');
+
+test('normalizes chat-completion usage including reasoning tokens', () => {
+  assert.deepEqual(
+    normalizeUsage({
+      prompt_tokens: 120,
+      completion_tokens: 80,
+      total_tokens: 200,
+      completion_tokens_details: { reasoning_tokens: 30 }
+    }),
+    { promptTokens: 120, completionTokens: 80, reasoningTokens: 30, totalTokens: 200 }
+  );
+  assert.equal(normalizeUsage(null), null);
+  assert.equal(normalizeUsage({ prompt_tokens: 5, completion_tokens: 7 }).totalTokens, 12);
+});
+
+test('prices known models, zero-rates local providers and honors overrides', () => {
+  const usage = { promptTokens: 1_000_000, completionTokens: 1_000_000 };
+  assert.equal(estimateCostUsd('deepseek', 'deepseek-chat', usage, {}), 0.7);
+  assert.equal(estimateCostUsd('ollama', 'llama3.1', usage, {}), 0);
+  assert.equal(estimateCostUsd('openai', 'unknown-model', usage, {}), null);
+  assert.equal(
+    estimateCostUsd('openai', 'my-model', usage, { LLM_PRICING_JSON: '{"my-model":{"input":1,"output":2}}' }),
+    3
+  );
+});
+
+test('tracks every wrapped completion call and sums totals', async () => {
+  const tracker = createUsageTracker({ provider: 'deepseek', model: 'deepseek-chat', stage: 'generate', env: {} });
+  const fakeCompletion = async (payload) => ({
+    choices: [{ message: { content: payload.model } }],
+    usage: { prompt_tokens: 100, completion_tokens: 50 }
+  });
+  const tracked = tracker.track(fakeCompletion, 'multi-agent');
+
+  const response = await tracked({ model: 'deepseek-chat', messages: [] });
+  await tracked({ model: 'deepseek-reasoner', messages: [] });
+  tracker.record(null, { label: 'stream' });
+
+  assert.equal(response.choices[0].message.content, 'deepseek-chat');
+  const summary = tracker.summary();
+  assert.equal(summary.stage, 'generate');
+  assert.equal(summary.requests, 3);
+  assert.equal(summary.promptTokens, 200);
+  assert.equal(summary.completionTokens, 100);
+  assert.equal(summary.totalTokens, 300);
+  assert.equal(summary.calls[1].model, 'deepseek-reasoner');
+  assert.equal(summary.calls[2].reported, false);
+  assert.ok(summary.costUsd > 0);
+});
+
+test('reports no calls until something is recorded', () => {
+  const tracker = createUsageTracker({ provider: 'openai', model: 'gpt-4o-mini', stage: 'plan' });
+  assert.equal(tracker.hasCalls(), false);
+  assert.equal(tracker.summary().costUsd, null);
+});
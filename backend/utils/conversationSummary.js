@@ -0,0 +1,122 @@
+'use strict';
+
+// Structured summary of the older part of a conversation. The client asks for it once the context budget
+// reaches "warning" and stores the result in its memory snapshot; its own keyword heuristics stay the fallback.
+const MAX_MESSAGES = 80;
+const MAX_MESSAGE_CHARS = 2400;
+// The carried [PREVIOUS SUMMARY] holds every earlier decision, so it gets more room than a single message.
+const MAX_PREVIOUS_SUMMARY_CHARS = 12_000;
+const MAX_TRANSCRIPT_CHARS = 28_000;
+const MAX_TEXT = 600;
+
+const CONVERSATION_SUMMARY_SYSTEM_PROMPT = [
+  'You summarize a conversation between a user and a coding assistant that builds a frontend project.',
+  'Return ONLY a JSON object with this shape:',
+  '{',
+  '  "summary": "3-6 sentences on what was asked and what was built so far",',
+  '  "decisions": [{ "summary": "a decision, rule or constraint the user settled", "files": ["path"] }],',
+  '  "fileResponsibilities": [{ "path": "relative/file/path", "responsibility": "what the file is for" }],',
+  '  "openTasks": [{ "summary": "work that was requested or promised but is not done", "files": ["path"] }]',
+  '}',
+  'Rules:',
+  '- Only include decisions the user made or explicitly agreed to; skip the assistant\'s own suggestions.',
+  '- A later decision replaces an earlier one on the same topic; keep only the latest.',
+  '- A [PREVIOUS SUMMARY] message covers earlier messages; fold it into your answer instead of dropping it.',
+  '- Use file paths exactly as they appear in the conversation.',
+  '- Leave a list empty rather than guessing.'
+].join('\n');
+
+const cleanText = (value, max = MAX_TEXT) =>
+  String(value ?? '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, max);
+
+const cleanFiles = (value) =>
+  Array.from(
+    new Set(
+      (Array.isArray(value) ? value : [])
+        .map((entry) => cleanText(entry, 200).replace(/\\/g, '/').replace(/^\.?\//, ''))
+        .filter(Boolean)
+    )
+  ).slice(0, 12);
+
+// The client sends the carried summary as a leading system message; it is kept whatever gets trimmed after it.
+const hasPreviousSummary = (messages) => messages.length > 0 && messages[0].role === 'system';
+
+const normalizeSummaryMessages = (raw) => {
+  const messages = (Array.isArray(raw) ? raw : [])
+    .filter((msg) => msg && (msg.role === 'user' || msg.role === 'assistant' || msg.role === 'system'))
+    .map((msg, index) => ({
+      role: msg.role,
+      content: String(msg.content ?? '')
+        .trim()
+        .slice(0, index === 0 && msg.role === 'system' ? MAX_PREVIOUS_SUMMARY_CHARS : MAX_MESSAGE_CHARS)
+    }))
+    .filter((msg) => msg.content);
+  if (!hasPreviousSummary(messages)) return messages.slice(-MAX_MESSAGES);
+  return [messages[0], ...messages.slice(1).slice(-(MAX_MESSAGES - 1))];
+};
+
+// Oldest messages are dropped first when the transcript is over budget; the newest ones carry the latest decisions.
+// A leading previous summary is never dropped, since nothing else carries what it covers.
+const buildConversationSummaryPrompt = (messages) => {
+  const formatLine = (i) => `[${i + 1}] ${messages[i].role.toUpperCase()}: ${messages[i].content}`;
+  const first = hasPreviousSummary(messages) ? 1 : 0;
+  const head = first ? [formatLine(0)] : [];
+  const lines = [];
+  let size = first ? head[0].length : 0;
+  for (let i = messages.length - 1; i >= first; i--) {
+    const line = formatLine(i);
+    if (size + line.length > MAX_TRANSCRIPT_CHARS && lines.length > 0) break;
+    lines.unshift(line);
+    size += line.length;
+  }
+  const omitted = messages.length - first - lines.length;
+  const note = !omitted
+    ? ''
+    : first
+      ? ` ${omitted === 1 ? 'Message 2 was' : `Messages 2-${omitted + 1} were`} omitted for length; [1] is the previous summary.`
+      : ` The first ${omitted} were omitted for length.`;
+  return [`Summarize these ${messages.length} messages.${note}`, '', '[CONVERSATION]', ...head, ...lines].join('\n');
+};
+
+const normalizeConversationSummary = (parsed) => {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Summary response is not a JSON object');
+  }
+  const factList = (value) =>
+    (Array.isArray(value) ? value : [])
+      .map((entry) =>
+        typeof entry === 'string'
+          ? { summary: cleanText(entry), files: [] }
+          : { summary: cleanText(entry?.summary ?? entry?.text), files: cleanFiles(entry?.files) }
+      )
+      .filter((entry) => entry.summary)
+      .slice(0, 20);
+  const fileResponsibilities = (Array.isArray(parsed.fileResponsibilities) ? parsed.fileResponsibilities : [])
+    .map((entry) => ({
+      path: cleanFiles([entry?.path])[0] || '',
+      responsibility: cleanText(entry?.responsibility ?? entry?.summary, 300)
+    }))
+    .filter((entry) => entry.path && entry.responsibility)
+    .slice(0, 40);
+
+  const summary = {
+    summary: cleanText(parsed.summary, 1600),
+    decisions: factList(parsed.decisions),
+    fileResponsibilities,
+    openTasks: factList(parsed.openTasks)
+  };
+  if (!summary.summary && summary.decisions.length === 0 && summary.openTasks.length === 0) {
+    throw new Error('Summary response is empty');
+  }
+  return summary;
+};
+
+module.exports = {
+  CONVERSATION_SUMMARY_SYSTEM_PROMPT,
+  normalizeSummaryMessages,
+  buildConversationSummaryPrompt,
+  normalizeConversationSummary
+};
@@ -1,12 +1,16 @@
 'use strict';
 
+const { parsePatchHunks } = require('./patchHunks');
+
 const PATCH_TOKEN = '[[PATCH_FILE:';
 const START_TOKEN = '[[START_FILE:';
 const EDIT_TOKEN = '[[EDIT_FILE:';
 const EDIT_NODE_TOKEN = '[[EDIT_NODE:';
 const DELETE_TOKEN = '[[DELETE_FILE:';
 const MOVE_TOKEN = '[[MOVE_FILE:';
+const HUNKS_TOKEN = '[[PATCH_HUNKS:';
 const END_TOKEN = '[[END_FILE]]';
+const OPEN_TOKENS = [PATCH_TOKEN, START_TOKEN, EDIT_TOKEN, EDIT_NODE_TOKEN, DELETE_TOKEN, MOVE_TOKEN, HUNKS_TOKEN];
 
 const parsePathModeReason = (payload, fallbackMode = 'create') => {
   const text = String(payload || '').trim();
@@ -65,6 +69,8 @@ const createFileOpParser = (onEvent) => {
   let currentPath = '';
   let currentMode = 'create';
   let currentReason;
+  // Hunk blocks are buffered and emitted whole: a partial hunk cannot be applied.
+  let hunkBody = null;
 
   const emit = (event) => {
     try {
@@ -76,6 +82,10 @@ const createFileOpParser = (onEvent) => {
 
   const flushPatchChunk = (chunk) => {
     if (!chunk) return;
+    if (hunkBody !== null) {
+      hunkBody += chunk;
+      return;
+    }
     emit({
       op: 'patch',
       phase: 'chunk',
@@ -86,14 +96,23 @@ const createFileOpParser = (onEvent) => {
     });
   };
 
-  const closePatch = () => {
-    emit({
-      op: 'patch',
-      phase: 'end',
-      path: currentPath,
-      mode: currentMode,
-      reason: currentReason
-    });
+  const closePatch = ({ truncated = false } = {}) => {
+    if (hunkBody !== null) {
+      const { hunks, errors } = parsePatchHunks(hunkBody);
+      if (truncated) errors.push('Hunk block was cut off before [[END_FILE]]');
+      const event = { op: 'hunks', phase: 'end', path: currentPath, reason: currentReason, hunks };
+      if (errors.length > 0) event.errors = errors;
+      emit(event);
+      hunkBody = null;
+    } else {
+      emit({
+        op: 'patch',
+        phase: 'end',
+        path: currentPath,
+        mode: currentMode,
+        reason: currentReason
+      });
+    }
     inPatch = false;
     currentPath = '';
     currentMode = 'create';
@@ -124,30 +143,26 @@ const createFileOpParser = (onEvent) => {
     });
   };
 
+  const openHunks = (payload) => {
+    const parsed = parsePathModeReason(payload, 'edit');
+    if (!parsed.path) return;
+    inPatch = true;
+    currentPath = parsed.path;
+    currentMode = 'edit';
+    currentReason = parsed.reason;
+    hunkBody = '';
+  };
+
   const drain = () => {
     while (scan.length > 0) {
       if (!inPatch) {
-        const patchIdx = scan.indexOf(PATCH_TOKEN);
-        const startIdx = scan.indexOf(START_TOKEN);
-        const editIdx = scan.indexOf(EDIT_TOKEN);
-        const editNodeIdx = scan.indexOf(EDIT_NODE_TOKEN);
-        const deleteIdx = scan.indexOf(DELETE_TOKEN);
-        const moveIdx = scan.indexOf(MOVE_TOKEN);
-
         const nextIdx =
-          [patchIdx, startIdx, editIdx, editNodeIdx, deleteIdx, moveIdx]
+          OPEN_TOKENS.map((token) => scan.indexOf(token))
             .filter((idx) => idx !== -1)
             .sort((a, b) => a - b)[0] ?? -1;
 
         if (nextIdx === -1) {
-          const keep = Math.max(
-            PATCH_TOKEN.length - 1,
-            START_TOKEN.length - 1,
-            EDIT_TOKEN.length - 1,
-            EDIT_NODE_TOKEN.length - 1,
-            DELETE_TOKEN.length - 1,
-            MOVE_TOKEN.length - 1
-          );
+          const keep = Math.max(...OPEN_TOKENS.map((token) => token.length - 1));
           scan = scan.slice(Math.max(0, scan.length - keep));
           return;
         }
@@ -187,6 +202,13 @@ const createFileOpParser = (onEvent) => {
           continue;
         }
 
+        if (scan.startsWith(HUNKS_TOKEN)) {
+          const payload = readMarkerPayload(0, HUNKS_TOKEN);
+          if (payload == null) return;
+          openHunks(payload);
+          continue;
+        }
+
         if (scan.startsWith(PATCH_TOKEN)) {
           const payload = readMarkerPayload(0, PATCH_TOKEN);
           if (payload == null) return;
@@ -218,8 +240,7 @@ const createFileOpParser = (onEvent) => {
 
       const endIdx = scan.indexOf(END_TOKEN);
       const nextMarkerIdx =
-        [PATCH_TOKEN, START_TOKEN, EDIT_TOKEN, EDIT_NODE_TOKEN, DELETE_TOKEN, MOVE_TOKEN]
-          .map((token) => scan.indexOf(token))
+        OPEN_TOKENS.map((token) => scan.indexOf(token))
           .filter((idx) => idx !== -1)
           .sort((a, b) => a - b)[0] ?? -1;
 
@@ -237,15 +258,7 @@ const createFileOpParser = (onEvent) => {
         continue;
       }
 
-      const keep = Math.max(
-        PATCH_TOKEN.length + 8,
-        START_TOKEN.length + 8,
-        EDIT_TOKEN.length + 8,
-        EDIT_NODE_TOKEN.length + 8,
-        DELETE_TOKEN.length + 8,
-        MOVE_TOKEN.length + 8,
-        END_TOKEN.length + 8
-      );
+      const keep = Math.max(...OPEN_TOKENS.map((token) => token.length + 8), END_TOKEN.length + 8);
       if (scan.length <= keep) return;
       flushPatchChunk(scan.slice(0, scan.length - keep));
       scan = scan.slice(scan.length - keep);
@@ -260,13 +273,13 @@ const createFileOpParser = (onEvent) => {
     },
     finalize() {
       if (!scan) {
-        if (inPatch) closePatch();
+        if (inPatch) closePatch({ truncated: true });
         return;
       }
       if (inPatch) {
         flushPatchChunk(scan);
         scan = '';
-        closePatch();
+        closePatch({ truncated: true });
       } else {
         scan = '';
       }
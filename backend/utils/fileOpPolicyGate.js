@@ -332,6 +332,10 @@ const createFileOpPolicyGate = ({ writePolicy = {}, workspaceAnalysis = null } =
     if (!normalized) continue;
     registerPath(normalized);
   }
+  // Hunks anchor on existing content, so their target must exist (when the manifest is known).
+  const existingPaths = manifestPaths.length > 0
+    ? new Set(manifestPaths.map((path) => normalizePath(path).toLowerCase()).filter(Boolean))
+    : null;
 
   const touchedPaths = new Set();
   const createdPaths = new Set();
@@ -484,6 +488,7 @@ const createFileOpPolicyGate = ({ writePolicy = {}, workspaceAnalysis = null } =
 
     registerPath(path);
     createdPaths.add(path.toLowerCase());
+    if (existingPaths) existingPaths.add(path.toLowerCase());
     activePatchByPath.set(path.toLowerCase(), { path, mode, content: '' });
     return { allowed: true };
   };
@@ -564,6 +569,7 @@ const createFileOpPolicyGate = ({ writePolicy = {}, workspaceAnalysis = null } =
     }
 
     unregisterPath(path);
+    if (existingPaths) existingPaths.delete(path.toLowerCase());
     return { allowed: true };
   };
 
@@ -610,6 +616,55 @@ const createFileOpPolicyGate = ({ writePolicy = {}, workspaceAnalysis = null } =
 
     unregisterPath(fromPath);
     registerPath(toPath);
+    if (existingPaths) {
+      existingPaths.delete(fromPath.toLowerCase());
+      existingPaths.add(toPath.toLowerCase());
+    }
+    return { allowed: true };
+  };
+
+  const checkHunks = (event) => {
+    const path = normalizePath(event.path);
+    if (!path) {
+      return {
+        allowed: false,
+        violation: buildPolicyViolation('INVALID_PATH', 'Hunk patch without path', event.path)
+      };
+    }
+    const touch = trackTouchedPath(path);
+    if (!touch.ok) return { allowed: false, violation: touch.violation };
+
+    const key = path.toLowerCase();
+    if (strictEditScope && !allowedEditSet.has(key) && !createdPaths.has(key)) {
+      return {
+        allowed: false,
+        violation: buildPolicyViolation('PATCH_OUT_OF_SCOPE', 'Edit path is outside write policy scope', path)
+      };
+    }
+    if (existingPaths && !existingPaths.has(key)) {
+      return {
+        allowed: false,
+        violation: buildPolicyViolation(
+          'HUNK_TARGET_MISSING',
+          'Hunk patches can only edit existing files; use [[PATCH_FILE]] to create new files',
+          path
+        )
+      };
+    }
+
+    const errors = Array.isArray(event.errors) ? event.errors.filter(Boolean) : [];
+    if (errors.length > 0) {
+      return {
+        allowed: false,
+        violation: buildPolicyViolation('HUNK_MALFORMED', `Malformed hunk patch: ${errors.join('; ')}`, path)
+      };
+    }
+    if (!Array.isArray(event.hunks) || event.hunks.length === 0) {
+      return {
+        allowed: false,
+        violation: buildPolicyViolation('HUNK_EMPTY', 'Hunk patch contains no hunks', path)
+      };
+    }
     return { allowed: true };
   };
 
@@ -623,6 +678,7 @@ const createFileOpPolicyGate = ({ writePolicy = {}, workspaceAnalysis = null } =
       if (op === 'patch' && phase === 'end') return checkPatchEnd(event);
       if (op === 'delete' && phase === 'end') return checkDelete(event);
       if (op === 'move' && phase === 'end') return checkMove(event);
+      if (op === 'hunks' && phase === 'end') return checkHunks(event);
       return { allowed: true };
     },
     snapshot() {
@@ -651,7 +707,7 @@ const buildPolicyRepairPrompt = ({ originalPrompt, violation, writePolicy, works
   return [
     '[POLICY_REPAIR_ATTEMPT]',
     'Your last patch stream violated strict write policy.',
-    'Output ONLY valid file-op protocol markers and full file contents.',
+    'Output ONLY valid file-op protocol markers with full file contents or well-formed [[PATCH_HUNKS]] blocks.',
     'Do not output explanations.',
     'Keep HTML/CSS/JavaScript separated by file type.',
     'For static frontend mode, keep CSS in .css files and JS in .js files (no inline <style>/<script>).',
@@ -0,0 +1,553 @@
+'use strict';
+
+const { createMockAdapter, DEFAULT_MOCK_SCENARIO, DEFAULT_MOCK_FIXTURES_DIR } = require('./mockLLM');
+
+const DEFAULT_PROVIDER = 'deepseek';
+const DEFAULT_ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_ANTHROPIC_MAX_TOKENS = 8192;
+
+const isMissingOrPlaceholderSecret = (raw) => {
+  const value = String(raw || '').trim();
+  if (!value) return true;
+  const lower = value.toLowerCase();
+  if (lower.length < 12) return true;
+  return (
+    lower.includes('replace') ||
+    lower.includes('placeholder') ||
+    lower.includes('example') ||
+    lower.includes('invalid') ||
+    lower === 'null' ||
+    lower === 'undefined'
+  );
+};
+
+const readEnv = (env, key, fallback = '') => {
+  const value = String(env?.[key] ?? '').trim();
+  return value || fallback;
+};
+
+const readPositiveInt = (env, key) => {
+  const n = Number(readEnv(env, key));
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : 0;
+};
+
+const trimTrailingSlashes = (raw) => String(raw || '').trim().replace(/\/+$/, '');
+
+const withV1Suffix = (raw) => {
+  const base = trimTrailingSlashes(raw);
+  return base.endsWith('/v1') ? base : `${base}/v1`;
+};
+
+const createNotConfiguredError = (message) => {
+  const err = new Error(`LLM_NOT_CONFIGURED: ${message}`);
+  err.code = 'LLM_NOT_CONFIGURED';
+  return err;
+};
+
+async function* readSseDataMessages(readableStream) {
+  const reader = readableStream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      const lines = rawEvent.split(/\r?\n/);
+      const dataLines = [];
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          const rest = line.slice('data:'.length);
+          dataLines.push(rest.startsWith(' ') ? rest.slice(1) : rest);
+        }
+      }
+
+      if (dataLines.length > 0) yield dataLines.join('\n');
+    }
+  }
+}
+
+async function* readNdjsonLines(readableStream) {
+  const reader = readableStream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf('\n');
+      if (line) yield line;
+    }
+  }
+
+  const tail = buffer.trim();
+  if (tail) yield tail;
+}
+
+const parseJsonOrNull = (text) => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+// Request payloads are built for the OpenAI chat-completions shape; strip transport-only keys before sending.
+const toWirePayload = (payload) => {
+  const { signal: _signal, ...rest } = payload || {};
+  return rest;
+};
+
+const ensureOk = async (res, label, action) => {
+  if (res.ok) return;
+  const text = await res.text().catch(() => '');
+  throw new Error(text || `${label} ${action} failed (${res.status})`);
+};
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible adapter (DeepSeek, OpenAI, and any /v1/chat/completions server)
+// ---------------------------------------------------------------------------
+
+const createOpenAICompatibleAdapter = ({ name, label, getConfig, fetchImpl }) => {
+  const buildHeaders = (apiKey) => {
+    const headers = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+    return headers;
+  };
+
+  const createChatCompletion = async (payload, options = {}) => {
+    const { apiKey, baseURL } = getConfig();
+    const res = await fetchImpl(`${baseURL}/chat/completions`, {
+      method: 'POST',
+      headers: buildHeaders(apiKey),
+      body: JSON.stringify(toWirePayload(payload)),
+      signal: options.signal
+    });
+    await ensureOk(res, label, 'request');
+    return res.json();
+  };
+
+  async function* streamChatCompletion(payload, options = {}) {
+    const { apiKey, baseURL } = getConfig();
+    const res = await fetchImpl(`${baseURL}/chat/completions`, {
+      method: 'POST',
+      headers: buildHeaders(apiKey),
+      body: JSON.stringify({ ...toWirePayload(payload), stream: true }),
+      signal: options.signal
+    });
+    await ensureOk(res, label, 'stream');
+    if (!res.body) throw new Error(`${label} stream failed: empty response body`);
+
+    for await (const dataText of readSseDataMessages(res.body)) {
+      const text = String(dataText || '').trim();
+      if (!text) continue;
+      if (text === '[DONE]') break;
+      const parsed = parseJsonOrNull(text);
+      if (parsed) yield parsed; // non-JSON lines are ignored
+    }
+  }
+
+  return { name, createChatCompletion, streamChatCompletion };
+};
+
+// ---------------------------------------------------------------------------
+// Anthropic-style adapter (Messages API), normalized to chat-completion shape
+// ---------------------------------------------------------------------------
+
+const toAnthropicRequest = (payload, maxTokensFallback) => {
+  const wire = toWirePayload(payload);
+  const messages = Array.isArray(wire.messages) ? wire.messages : [];
+  const system = messages
+    .filter((message) => message?.role === 'system')
+    .map((message) => String(message.content || ''))
+    .filter(Boolean)
+    .join('\n\n');
+  const turns = messages
+    .filter((message) => message?.role === 'user' || message?.role === 'assistant')
+    .map((message) => ({ role: message.role, content: String(message.content || '') }));
+
+  const body = {
+    model: wire.model,
+    max_tokens: Number(wire.max_tokens) > 0 ? Number(wire.max_tokens) : maxTokensFallback,
+    messages: turns
+  };
+  if (system) body.system = system;
+  if (typeof wire.temperature === 'number') body.temperature = wire.temperature;
+  return body;
+};
+
+const toChatCompletionUsage = (usage) => {
+  if (!usage || typeof usage !== 'object') return undefined;
+  const prompt = Number(usage.input_tokens || 0);
+  const completion = Number(usage.output_tokens || 0);
+  return { prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion };
+};
+
+const fromAnthropicResponse = (data) => {
+  const blocks = Array.isArray(data?.content) ? data.content : [];
+  const content = blocks
+    .filter((block) => block?.type === 'text')
+    .map((block) => String(block.text || ''))
+    .join('');
+  const reasoning = blocks
+    .filter((block) => block?.type === 'thinking')
+    .map((block) => String(block.thinking || ''))
+    .join('');
+  const message = { role: 'assistant', content };
+  if (reasoning) message.reasoning_content = reasoning;
+  return {
+    id: data?.id,
+    model: data?.model,
+    choices: [{ index: 0, message, finish_reason: data?.stop_reason || null }],
+    usage: toChatCompletionUsage(data?.usage)
+  };
+};
+
+const createAnthropicAdapter = ({ name, label, getConfig, fetchImpl }) => {
+  const buildHeaders = (apiKey, version) => ({
+    'Content-Type': 'application/json',
+    'x-api-key': apiKey,
+    'anthropic-version': version
+  });
+
+  const createChatCompletion = async (payload, options = {}) => {
+    const { apiKey, baseURL, version, maxTokens } = getConfig();
+    const res = await fetchImpl(`${baseURL}/messages`, {
+      method: 'POST',
+      headers: buildHeaders(apiKey, version),
+      body: JSON.stringify(toAnthropicRequest(payload, maxTokens)),
+      signal: options.signal
+    });
+    await ensureOk(res, label, 'request');
+    return fromAnthropicResponse(await res.json());
+  };
+
+  async function* streamChatCompletion(payload, options = {}) {
+    const { apiKey, baseURL, version, maxTokens } = getConfig();
+    const res = await fetchImpl(`${baseURL}/messages`, {
+      method: 'POST',
+      headers: buildHeaders(apiKey, version),
+      body: JSON.stringify({ ...toAnthropicRequest(payload, maxTokens), stream: true }),
+      signal: options.signal
+    });
+    await ensureOk(res, label, 'stream');
+    if (!res.body) throw new Error(`${label} stream failed: empty response body`);
+
+    const usage = { input_tokens: 0, output_tokens: 0 };
+    for await (const dataText of readSseDataMessages(res.body)) {
+      const event = parseJsonOrNull(String(dataText || '').trim());
+      if (!event) continue;
+
+      if (event.type === 'message_start') {
+        usage.input_tokens = Number(event.message?.usage?.input_tokens || 0);
+        continue;
+      }
+      if (event.type === 'message_delta') {
+        usage.output_tokens = Number(event.usage?.output_tokens || usage.output_tokens);
+        continue;
+      }
+      if (event.type === 'message_stop') break;
+      if (event.type === 'error') {
+        throw new Error(String(event.error?.message || `${label} stream error`));
+      }
+      if (event.type !== 'content_block_delta') continue;
+
+      if (event.delta?.type === 'text_delta') {
+        yield { choices: [{ index: 0, delta: { content: String(event.delta.text || '') } }] };
+      } else if (event.delta?.type === 'thinking_delta') {
+        yield { choices: [{ index: 0, delta: { reasoning_content: String(event.delta.thinking || '') } }] };
+      }
+    }
+
+    yield { choices: [], usage: toChatCompletionUsage(usage) };
+  }
+
+  return { name, createChatCompletion, streamChatCompletion };
+};
+
+// ---------------------------------------------------------------------------
+// Ollama-style adapter (native /api/chat with NDJSON streaming)
+// ---------------------------------------------------------------------------
+
+const toOllamaRequest = (payload, stream) => {
+  const wire = toWirePayload(payload);
+  const body = {
+    model: wire.model,
+    messages: (Array.isArray(wire.messages) ? wire.messages : []).map((message) => ({
+      role: message.role,
+      content: String(message.content || '')
+    })),
+    stream
+  };
+  if (typeof wire.temperature === 'number') body.options = { temperature: wire.temperature };
+  if (wire.response_format?.type === 'json_object') body.format = 'json';
+  return body;
+};
+
+const toOllamaUsage = (data) => {
+  const prompt = Number(data?.prompt_eval_count || 0);
+  const completion = Number(data?.eval_count || 0);
+  return { prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion };
+};
+
+const createOllamaAdapter = ({ name, label, getConfig, fetchImpl }) => {
+  const createChatCompletion = async (payload, options = {}) => {
+    const { baseURL } = getConfig();
+    const res = await fetchImpl(`${baseURL}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toOllamaRequest(payload, false)),
+      signal: options.signal
+    });
+    await ensureOk(res, label, 'request');
+    const data = await res.json();
+    return {
+      model: data?.model,
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: String(data?.message?.content || '') },
+          finish_reason: data?.done_reason || (data?.done ? 'stop' : null)
+        }
+      ],
+      usage: toOllamaUsage(data)
+    };
+  };
+
+  async function* streamChatCompletion(payload, options = {}) {
+    const { baseURL } = getConfig();
+    const res = await fetchImpl(`${baseURL}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toOllamaRequest(payload, true)),
+      signal: options.signal
+    });
+    await ensureOk(res, label, 'stream');
+    if (!res.body) throw new Error(`${label} stream failed: empty response body`);
+
+    for await (const line of readNdjsonLines(res.body)) {
+      const data = parseJsonOrNull(line);
+      if (!data) continue;
+      if (data.error) throw new Error(String(data.error));
+      const content = String(data.message?.content || '');
+      if (content) yield { choices: [{ index: 0, delta: { content } }] };
+      if (data.done) {
+        yield { choices: [], usage: toOllamaUsage(data) };
+        break;
+      }
+    }
+  }
+
+  return { name, createChatCompletion, streamChatCompletion };
+};
+
+// ---------------------------------------------------------------------------
+// Provider definitions (env is read lazily so restarts are not needed in tests)
+// ---------------------------------------------------------------------------
+
+const PROVIDER_DEFINITIONS = [
+  {
+    name: 'deepseek',
+    label: 'DeepSeek',
+    kind: 'openai-compatible',
+    createAdapter: createOpenAICompatibleAdapter,
+    readConfig: (env) => ({
+      apiKey: readEnv(env, 'DEEPSEEK_API_KEY'),
+      baseURL: withV1Suffix(readEnv(env, 'DEEPSEEK_BASE_URL', 'https://api.deepseek.com')),
+      model: readEnv(env, 'DEEPSEEK_MODEL', 'deepseek-chat'),
+      thinkingModel: readEnv(env, 'DEEPSEEK_THINKING_MODEL', 'deepseek-reasoner')
+    }),
+    isConfigured: (config) => !isMissingOrPlaceholderSecret(config.apiKey),
+    hint: 'Set a valid DEEPSEEK_API_KEY in backend env (no placeholders), then restart the server.'
+  },
+  {
+    name: 'openai',
+    label: 'OpenAI-compatible',
+    kind: 'openai-compatible',
+    createAdapter: createOpenAICompatibleAdapter,
+    readConfig: (env) => {
+      const model = readEnv(env, 'OPENAI_MODEL', 'gpt-4o-mini');
+      return {
+        apiKey: readEnv(env, 'OPENAI_API_KEY'),
+        baseURL: withV1Suffix(readEnv(env, 'OPENAI_BASE_URL', 'https://api.openai.com')),
+        model,
+        thinkingModel: readEnv(env, 'OPENAI_THINKING_MODEL', model)
+      };
+    },
+    isConfigured: (config) => !isMissingOrPlaceholderSecret(config.apiKey),
+    hint: 'Set OPENAI_API_KEY (and OPENAI_BASE_URL for self-hosted compatible servers) in backend env, then restart.'
+  },
+  {
+    name: 'anthropic',
+    label: 'Anthropic',
+    kind: 'anthropic',
+    createAdapter: createAnthropicAdapter,
+    readConfig: (env) => {
+      const model = readEnv(env, 'ANTHROPIC_MODEL', 'claude-sonnet-4-5');
+      const maxTokens = Number(readEnv(env, 'ANTHROPIC_MAX_TOKENS'));
+      return {
+        apiKey: readEnv(env, 'ANTHROPIC_API_KEY'),
+        baseURL: withV1Suffix(readEnv(env, 'ANTHROPIC_BASE_URL', 'https://api.anthropic.com')),
+        version: readEnv(env, 'ANTHROPIC_VERSION', DEFAULT_ANTHROPIC_VERSION),
+        maxTokens: Number.isFinite(maxTokens) && maxTokens > 0 ? maxTokens : DEFAULT_ANTHROPIC_MAX_TOKENS,
+        model,
+        thinkingModel: readEnv(env, 'ANTHROPIC_THINKING_MODEL', model)
+      };
+    },
+    isConfigured: (config) => !isMissingOrPlaceholderSecret(config.apiKey),
+    hint: 'Set a valid ANTHROPIC_API_KEY in backend env (no placeholders), then restart the server.'
+  },
+  {
+    name: 'ollama',
+    label: 'Ollama (local)',
+    kind: 'ollama',
+    createAdapter: createOllamaAdapter,
+    readConfig: (env) => {
+      const model = readEnv(env, 'OLLAMA_MODEL');
+      return {
+        apiKey: '',
+        baseURL: trimTrailingSlashes(readEnv(env, 'OLLAMA_BASE_URL', 'http://127.0.0.1:11434')),
+        model,
+        thinkingModel: readEnv(env, 'OLLAMA_THINKING_MODEL', model)
+      };
+    },
+    // Local servers need no key; an explicit model is what opts a deployment in.
+    isConfigured: (config) => Boolean(config.model),
+    hint: 'Set OLLAMA_MODEL (and OLLAMA_BASE_URL if not http://127.0.0.1:11434) in backend env, then restart.'
+  },
+  {
+    name: 'mock',
+    label: 'Mock (fixture replay)',
+    kind: 'mock',
+    createAdapter: createMockAdapter,
+    readConfig: (env) => {
+      const model = readEnv(env, 'MOCK_LLM_MODEL', 'mock-llm');
+      const selected = ['LLM_PROVIDER', 'LLM_PLANNER_PROVIDER', 'LLM_EXECUTOR_PROVIDER'].some(
+        (key) => readEnv(env, key).toLowerCase() === 'mock'
+      );
+      return {
+        apiKey: '',
+        baseURL: '',
+        model,
+        thinkingModel: model,
+        enabled: selected || /^(1|true|yes|on)$/i.test(readEnv(env, 'MOCK_LLM_ENABLED')),
+        scenario: readEnv(env, 'MOCK_LLM_SCENARIO', DEFAULT_MOCK_SCENARIO).toLowerCase(),
+        fixturesDir: readEnv(env, 'MOCK_LLM_FIXTURES_DIR', DEFAULT_MOCK_FIXTURES_DIR),
+        chunkSize: readPositiveInt(env, 'MOCK_LLM_CHUNK_SIZE'),
+        delayMs: readPositiveInt(env, 'MOCK_LLM_DELAY_MS')
+      };
+    },
+    // Never answers real traffic unless a deployment explicitly opts in.
+    isConfigured: (config) => config.enabled,
+    hint: 'Set LLM_PROVIDER=mock (or MOCK_LLM_ENABLED=true) to replay fixture transcripts from backend/fixtures/mock-llm.'
+  }
+];
+
+const createLLMProviderRegistry = ({ env = process.env, fetchImpl, definitions = PROVIDER_DEFINITIONS } = {}) => {
+  const doFetch = typeof fetchImpl === 'function' ? fetchImpl : (...args) => fetch(...args);
+  const byName = new Map(definitions.map((definition) => [definition.name, definition]));
+  const adapters = new Map();
+
+  const normalizeName = (raw) => String(raw || '').trim().toLowerCase();
+
+  const has = (rawName) => byName.has(normalizeName(rawName));
+
+  const getDefaultProviderName = () => {
+    const fromEnv = normalizeName(readEnv(env, 'LLM_PROVIDER'));
+    return byName.has(fromEnv) ? fromEnv : DEFAULT_PROVIDER;
+  };
+
+  const requireDefinition = (rawName) => {
+    const name = normalizeName(rawName);
+    const definition = byName.get(name);
+    if (!definition) throw new Error(`Unsupported LLM provider: ${name}`);
+    return definition;
+  };
+
+  const readConfig = (rawName) => requireDefinition(rawName).readConfig(env);
+
+  const isConfigured = (rawName) => {
+    if (!has(rawName)) return false;
+    const definition = requireDefinition(rawName);
+    return Boolean(definition.isConfigured(definition.readConfig(env)));
+  };
+
+  const getHint = (rawName) => {
+    if (!has(rawName)) return `Unknown LLM provider "${normalizeName(rawName)}". Use one of: ${Array.from(byName.keys()).join(', ')}.`;
+    return requireDefinition(rawName).hint;
+  };
+
+  const getDefaultModel = (rawName, thinkingMode = false) => {
+    const config = readConfig(rawName);
+    return thinkingMode ? config.thinkingModel || config.model : config.model;
+  };
+
+  const get = (rawName) => {
+    const definition = requireDefinition(rawName || getDefaultProviderName());
+    const cached = adapters.get(definition.name);
+    if (cached) return cached;
+
+    const getConfig = () => {
+      const config = definition.readConfig(env);
+      if (!definition.isConfigured(config)) throw createNotConfiguredError(definition.hint);
+      return config;
+    };
+    const adapter = definition.createAdapter({
+      name: definition.name,
+      label: definition.label,
+      getConfig,
+      fetchImpl: doFetch
+    });
+    adapters.set(definition.name, adapter);
+    return adapter;
+  };
+
+  const describe = () =>
+    definitions.map((definition) => {
+      const config = definition.readConfig(env);
+      const configured = Boolean(definition.isConfigured(config));
+      return {
+        name: definition.name,
+        label: definition.label,
+        kind: definition.kind,
+        configured,
+        baseUrl: config.baseURL || null,
+        model: config.model || null,
+        thinkingModel: config.thinkingModel || config.model || null,
+        hint: configured ? null : definition.hint
+      };
+    });
+
+  return {
+    has,
+    get,
+    isConfigured,
+    getHint,
+    getDefaultModel,
+    getDefaultProviderName,
+    describe,
+    list: () => Array.from(byName.keys())
+  };
+};
+
+module.exports = {
+  createLLMProviderRegistry,
+  isMissingOrPlaceholderSecret,
+  readSseDataMessages,
+  PROVIDER_DEFINITIONS
+};
@@ -0,0 +1,146 @@
+'use strict';
+
+const fs = require('fs');
+const path = require('path');
+
+const DEFAULT_MOCK_SCENARIO = 'static-site';
+const DEFAULT_MOCK_FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'mock-llm');
+const DEFAULT_MOCK_CHUNK_SIZE = 48;
+
+// A prompt containing `[mock:<scenario>]` overrides MOCK_LLM_SCENARIO for that request.
+const SCENARIO_DIRECTIVE_RE = /\[mock:([a-z0-9_-]+)\]/gi;
+
+const createMockError = (code, message) => {
+  const err = new Error(`${code}: ${message}`);
+  err.code = code;
+  return err;
+};
+
+const toText = (value) => (Array.isArray(value) ? value.join('\n') : String(value ?? ''));
+
+const loadMockTranscripts = (dir = DEFAULT_MOCK_FIXTURES_DIR) => {
+  let entries = [];
+  try {
+    entries = fs.readdirSync(dir).filter((entry) => entry.toLowerCase().endsWith('.json'));
+  } catch {
+    return new Map();
+  }
+
+  const transcripts = new Map();
+  for (const entry of entries.sort()) {
+    const raw = JSON.parse(fs.readFileSync(path.join(dir, entry), 'utf8'));
+    const name = String(raw?.name || entry.replace(/\.json$/i, '')).trim().toLowerCase();
+    transcripts.set(name, {
+      name,
+      description: String(raw?.description || ''),
+      plan: raw?.plan && typeof raw.plan === 'object' ? raw.plan : null,
+      generate: toText(raw?.generate),
+      repair: raw?.repair == null ? null : toText(raw.repair),
+      finishReason: String(raw?.finishReason || 'stop')
+    });
+  }
+  return transcripts;
+};
+
+const messageText = (message) => String(message?.content || '');
+
+const findScenarioDirective = (messages) => {
+  const userMessages = (Array.isArray(messages) ? messages : []).filter((message) => message?.role === 'user');
+  for (let i = userMessages.length - 1; i >= 0; i -= 1) {
+    const matches = Array.from(messageText(userMessages[i]).matchAll(SCENARIO_DIRECTIVE_RE));
+    if (matches.length > 0) return matches[matches.length - 1][1].toLowerCase();
+  }
+  return '';
+};
+
+// Mirrors how the routes and the multi-agent orchestrator phrase their requests.
+const classifyMockRequest = (payload) => {
+  const messages = Array.isArray(payload?.messages) ? payload.messages : [];
+  const lastUser = [...messages].reverse().find((message) => message?.role === 'user');
+  if (/\[POLICY_REPAIR_ATTEMPT\]/.test(messageText(lastUser))) return 'repair';
+  if (payload?.response_format?.type === 'json_object') return 'plan';
+  if (messages.some((message) => /ONLY (?:raw )?JSON/i.test(messageText(message)))) return 'plan';
+  return 'generate';
+};
+
+const estimateTokens = (text) => Math.ceil(String(text || '').length / 4);
+
+const buildUsage = (messages, completionText) => {
+  const prompt = (Array.isArray(messages) ? messages : []).reduce((acc, message) => acc + estimateTokens(messageText(message)), 0);
+  const completion = estimateTokens(completionText);
+  return { prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion };
+};
+
+const waitFor = (ms, signal) =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createMockError('ABORTED', 'Mock stream aborted'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener?.(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(createMockError('ABORTED', 'Mock stream aborted'));
+      },
+      { once: true }
+    );
+  });
+
+const createMockAdapter = ({ name, getConfig }) => {
+  const resolveReply = (payload) => {
+    const config = getConfig();
+    const transcripts = loadMockTranscripts(config.fixturesDir);
+    const scenarioName = findScenarioDirective(payload?.messages) || config.scenario;
+    const transcript = transcripts.get(scenarioName);
+    if (!transcript) {
+      throw createMockError(
+        'MOCK_SCENARIO_NOT_FOUND',
+        `No mock transcript named "${scenarioName}" in ${config.fixturesDir}. Available: ${Array.from(transcripts.keys()).join(', ') || 'none'}.`
+      );
+    }
+
+    const kind = classifyMockRequest(payload);
+    if (kind === 'plan') {
+      const plan = transcript.plan || transcripts.get(DEFAULT_MOCK_SCENARIO)?.plan;
+      if (!plan) throw createMockError('MOCK_PLAN_MISSING', `Mock transcript "${transcript.name}" has no plan.`);
+      return { content: JSON.stringify(plan), finishReason: 'stop', config };
+    }
+    if (kind === 'repair' && transcript.repair != null) {
+      return { content: transcript.repair, finishReason: 'stop', config };
+    }
+    return { content: transcript.generate, finishReason: transcript.finishReason, config };
+  };
+
+  const createChatCompletion = async (payload) => {
+    const { content, finishReason } = resolveReply(payload);
+    return {
+      id: `mock-${Date.now().toString(36)}`,
+      model: payload?.model,
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: finishReason }],
+      usage: buildUsage(payload?.messages, content)
+    };
+  };
+
+  async function* streamChatCompletion(payload, options = {}) {
+    const { content, finishReason, config } = resolveReply(payload);
+    const size = config.chunkSize > 0 ? config.chunkSize : DEFAULT_MOCK_CHUNK_SIZE;
+
+    for (let offset = 0; offset < content.length; offset += size) {
+      if (config.delayMs > 0) await waitFor(config.delayMs, options.signal);
+      if (options.signal?.aborted) return;
+      yield { choices: [{ index: 0, delta: { content: content.slice(offset, offset + size) } }] };
+    }
+
+    yield { choices: [{ index: 0, delta: {}, finish_reason: finishReason }] };
+    yield { choices: [], usage: buildUsage(payload?.messages, content) };
+  }
+
+  return { name, createChatCompletion, streamChatCompletion };
+};
+
+module.exports = {
+  createMockAdapter,
+  loadMockTranscripts,
+  classifyMockRequest,
+  DEFAULT_MOCK_SCENARIO,
+  DEFAULT_MOCK_FIXTURES_DIR
+};
@@ -312,7 +312,7 @@ const validatePatchStrict = (patchText) => {
   const chunkByPath = new Map();
   const patchStartModes = new Map();
 
-  const starts = (text.match(/\[\[(PATCH_FILE|START_FILE|EDIT_FILE|EDIT_NODE):/g) || []).length;
+  const starts = (text.match(/\[\[(PATCH_FILE|PATCH_HUNKS|START_FILE|EDIT_FILE|EDIT_NODE):/g) || []).length;
   const ends = (text.match(/\[\[END_FILE\]\]/g) || []).length;
   if (starts === 0) issues.push('No patch file markers were found');
   if (starts !== ends) {
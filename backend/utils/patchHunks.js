@@ -0,0 +1,100 @@
+'use strict';
+
+// Body grammar for [[PATCH_HUNKS: path]] ... [[END_FILE]] blocks. Two hunk styles are accepted:
+//
+//   <<<<<<< SEARCH            @@ -12,3 +12,4 @@
+//   exact existing lines       context line
+//   =======                   -removed line
+//   replacement lines         +added line
+//   >>>>>>> REPLACE            context line
+const SEARCH_OPEN_RE = /^<{5,9}\s*SEARCH\s*$/;
+const DIVIDER_RE = /^={5,9}\s*$/;
+const REPLACE_CLOSE_RE = /^>{5,9}\s*REPLACE\s*$/;
+const UNIFIED_HEADER_RE = /^@@\s+-(\d+)(?:,\d+)?\s+\+\d+(?:,\d+)?\s+@@/;
+const UNIFIED_FILE_HEADER_RE = /^(?:---|\+\+\+)\s/;
+
+const parsePatchHunks = (body) => {
+  const lines = String(body || '').replace(/\r\n/g, '\n').split('\n');
+  const hunks = [];
+  const errors = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (SEARCH_OPEN_RE.test(line)) {
+      const search = [];
+      const replace = [];
+      let section = 'search';
+      let closed = false;
+      i += 1;
+      while (i < lines.length) {
+        const current = lines[i];
+        if (section === 'search' && DIVIDER_RE.test(current)) {
+          section = 'replace';
+        } else if (section === 'replace' && REPLACE_CLOSE_RE.test(current)) {
+          closed = true;
+          i += 1;
+          break;
+        } else if (section === 'search') {
+          search.push(current);
+        } else {
+          replace.push(current);
+        }
+        i += 1;
+      }
+      if (!closed) {
+        errors.push(`Hunk ${hunks.length + 1} is missing its ${section === 'search' ? '=======' : '>>>>>>> REPLACE'} marker`);
+        break;
+      }
+      const hunk = { format: 'search_replace', search: search.join('\n'), replace: replace.join('\n') };
+      if (!hunk.search.trim()) errors.push(`Hunk ${hunks.length + 1} has an empty SEARCH anchor`);
+      hunks.push(hunk);
+      continue;
+    }
+
+    const header = line.match(UNIFIED_HEADER_RE);
+    if (header) {
+      const search = [];
+      const replace = [];
+      i += 1;
+      while (i < lines.length && !UNIFIED_HEADER_RE.test(lines[i]) && !SEARCH_OPEN_RE.test(lines[i])) {
+        const current = lines[i];
+        if (current.startsWith('\\')) {
+          // "\ No newline at end of file"
+        } else if (current.startsWith('-')) {
+          search.push(current.slice(1));
+        } else if (current.startsWith('+')) {
+          replace.push(current.slice(1));
+        } else if (current.startsWith(' ') || current === '') {
+          search.push(current.slice(1));
+          replace.push(current.slice(1));
+        } else {
+          break;
+        }
+        i += 1;
+      }
+      // A trailing blank line is block padding, not diff context.
+      while (search.length > 0 && replace.length > 0 && search[search.length - 1] === '' && replace[replace.length - 1] === '') {
+        search.pop();
+        replace.pop();
+      }
+      const hunk = { format: 'unified', search: search.join('\n'), replace: replace.join('\n'), startLine: Number(header[1]) };
+      if (!hunk.search.trim()) errors.push(`Hunk ${hunks.length + 1} has no context or removed lines to anchor on`);
+      hunks.push(hunk);
+      continue;
+    }
+
+    if (line.trim() && !UNIFIED_FILE_HEADER_RE.test(line)) {
+      errors.push(`Unexpected text outside a hunk: ${line.trim().slice(0, 80)}`);
+    }
+    i += 1;
+  }
+
+  if (hunks.length === 0 && errors.length === 0) errors.push('No hunks found');
+  return { hunks, errors };
+};
+
+module.exports = {
+  parsePatchHunks
+};
@@ -0,0 +1,113 @@
+'use strict';
+
+// "Re-plan from step N": the client sends the user-edited steps 1..N-1 as `fixedSteps`. The planner is told
+// to continue after them, and its answer is stitched behind the prefix so the edited steps survive verbatim.
+const MAX_FIXED_STEPS = 30;
+const MAX_TEXT = 2000;
+
+const cleanText = (value, max = MAX_TEXT) => String(value ?? '').trim().slice(0, max);
+
+const cleanList = (value, max = 40) =>
+  (Array.isArray(value) ? value : [])
+    .map((entry) => cleanText(entry, 400))
+    .filter(Boolean)
+    .slice(0, max);
+
+const titleKey = (title) =>
+  String(title || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\u0600-\u06ff]+/g, ' ')
+    .trim();
+
+const normalizeFixedPlanSteps = (raw) => {
+  const steps = [];
+  for (const entry of Array.isArray(raw) ? raw.slice(0, MAX_FIXED_STEPS) : []) {
+    const title = cleanText(entry?.title, 300);
+    if (!title) continue;
+    const step = {
+      id: cleanText(entry?.id, 40) || String(steps.length + 1),
+      title,
+      category: cleanText(entry?.category, 40).toLowerCase() || 'frontend',
+      files: cleanList(entry?.files),
+      description: cleanText(entry?.description)
+    };
+    const notes = cleanText(entry?.notes);
+    if (notes) step.notes = notes;
+    const dependsOn = cleanList(entry?.depends_on);
+    if (dependsOn.length > 0) step.depends_on = dependsOn;
+    if (['small', 'medium', 'large'].includes(entry?.estimatedSize)) step.estimatedSize = entry.estimatedSize;
+    steps.push(step);
+  }
+  return steps;
+};
+
+const buildFixedPrefixPrompt = (prompt, fixedSteps) => {
+  if (!Array.isArray(fixedSteps) || fixedSteps.length === 0) return prompt;
+  const lines = fixedSteps.map((step, index) => {
+    const files = step.files.length > 0 ? ` | files: ${step.files.join(', ')}` : '';
+    const notes = step.notes ? ` | user notes: ${step.notes}` : '';
+    return `${index + 1}. [id ${step.id}] ${step.title}${files}${step.description ? ` — ${step.description}` : ''}${notes}`;
+  });
+  return [
+    prompt,
+    '',
+    '[FIXED PLAN PREFIX]',
+    `The user has already edited and approved the first ${fixedSteps.length} step(s). They are final:`,
+    ...lines,
+    '',
+    '[RE-PLAN RULES]',
+    `- Plan ONLY the remaining work that comes after these steps; do not repeat, rename or reorder them.`,
+    `- Number new step ids from ${fixedSteps.length + 1}. New steps may list fixed step ids in "depends_on".`,
+    '- Keep the same JSON shape. The fileTree must still list every file, including files from the fixed steps.'
+  ].join('\n');
+};
+
+// Generated steps that restate a fixed step are dropped, the rest are renumbered after the prefix, and
+// their `depends_on` references are remapped to the new ids.
+const mergePlanWithFixedPrefix = (fixedSteps, generatedSteps) => {
+  if (!Array.isArray(fixedSteps) || fixedSteps.length === 0) return Array.isArray(generatedSteps) ? generatedSteps : [];
+  const fixedIds = new Set(fixedSteps.map((step) => step.id));
+  const fixedTitles = new Map(fixedSteps.map((step) => [titleKey(step.title), step.id]));
+
+  const idMap = new Map();
+  const kept = [];
+  for (const step of Array.isArray(generatedSteps) ? generatedSteps : []) {
+    if (!step || !step.title) continue;
+    const originalId = String(step.id ?? '');
+    const duplicateOf = fixedTitles.get(titleKey(step.title));
+    if (duplicateOf) {
+      if (originalId) idMap.set(originalId, duplicateOf);
+      continue;
+    }
+    kept.push({ step, originalId });
+  }
+
+  const used = new Set(fixedIds);
+  let next = fixedSteps.length + 1;
+  for (const entry of kept) {
+    while (used.has(String(next))) next += 1;
+    entry.id = String(next);
+    used.add(entry.id);
+    if (entry.originalId && !idMap.has(entry.originalId)) idMap.set(entry.originalId, entry.id);
+  }
+
+  const remapped = kept.map(({ step, id }) => {
+    const dependsOn = Array.from(
+      new Set(
+        (Array.isArray(step.depends_on) ? step.depends_on : [])
+          .map((ref) => String(ref ?? '').trim())
+          .map((ref) => (idMap.has(ref) ? idMap.get(ref) : fixedIds.has(ref) ? ref : null))
+          .filter((ref) => ref && ref !== id)
+      )
+    );
+    return { ...step, id, depends_on: dependsOn };
+  });
+
+  return [...fixedSteps, ...remapped];
+};
+
+module.exports = {
+  normalizeFixedPlanSteps,
+  buildFixedPrefixPrompt,
+  mergePlanWithFixedPrefix
+};
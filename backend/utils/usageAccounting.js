@@ -0,0 +1,125 @@
+'use strict';
+
+// USD per 1M tokens. Override or extend with LLM_PRICING_JSON, e.g. {"my-model":{"input":0.5,"output":1.5}}.
+const DEFAULT_MODEL_PRICING = {
+  'deepseek-chat': { input: 0.28, output: 0.42 },
+  'deepseek-reasoner': { input: 0.28, output: 0.42 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 }
+};
+
+// Local servers and fixture replay bill nothing regardless of model name.
+const FREE_PROVIDERS = new Set(['ollama', 'mock']);
+
+const toCount = (value) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.round(n) : 0;
+};
+
+const roundCost = (value) => Math.round(value * 1e6) / 1e6;
+
+const readPricingOverrides = (env = process.env) => {
+  const raw = String(env?.LLM_PRICING_JSON || '').trim();
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const getModelPricing = (provider, model, env = process.env) => {
+  if (FREE_PROVIDERS.has(String(provider || '').toLowerCase())) return { input: 0, output: 0 };
+  const key = String(model || '').trim().toLowerCase();
+  if (!key) return null;
+  const overrides = readPricingOverrides(env);
+  const entry = overrides[key] || overrides[model] || DEFAULT_MODEL_PRICING[key];
+  if (!entry) return null;
+  const input = Number(entry.input);
+  const output = Number(entry.output);
+  if (!Number.isFinite(input) || !Number.isFinite(output)) return null;
+  return { input, output };
+};
+
+// Accepts the chat-completion `usage` block (every adapter normalizes to this shape).
+const normalizeUsage = (raw) => {
+  if (!raw || typeof raw !== 'object') return null;
+  const promptTokens = toCount(raw.prompt_tokens ?? raw.promptTokens);
+  const completionTokens = toCount(raw.completion_tokens ?? raw.completionTokens);
+  const reasoningTokens = toCount(
+    raw.completion_tokens_details?.reasoning_tokens ?? raw.reasoning_tokens ?? raw.reasoningTokens
+  );
+  const totalTokens = toCount(raw.total_tokens ?? raw.totalTokens) || promptTokens + completionTokens;
+  return { promptTokens, completionTokens, reasoningTokens, totalTokens };
+};
+
+const estimateCostUsd = (provider, model, usage, env = process.env) => {
+  const pricing = getModelPricing(provider, model, env);
+  if (!pricing || !usage) return null;
+  return roundCost((usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000);
+};
+
+const createUsageTracker = ({ provider, model, stage, env = process.env } = {}) => {
+  const calls = [];
+
+  const record = (rawUsage, { label = 'completion', model: callModel } = {}) => {
+    const usage = normalizeUsage(rawUsage);
+    const effectiveModel = String(callModel || model || '');
+    calls.push({
+      label,
+      model: effectiveModel,
+      reported: Boolean(usage),
+      promptTokens: usage?.promptTokens || 0,
+      completionTokens: usage?.completionTokens || 0,
+      reasoningTokens: usage?.reasoningTokens || 0,
+      totalTokens: usage?.totalTokens || 0,
+      costUsd: usage ? estimateCostUsd(provider, effectiveModel, usage, env) : null
+    });
+  };
+
+  const track = (createChatCompletion, label) => async (payload, options) => {
+    const response = await createChatCompletion(payload, options);
+    record(response?.usage, { label, model: payload?.model });
+    return response;
+  };
+
+  const summary = () => {
+    const totals = calls.reduce(
+      (acc, call) => {
+        acc.promptTokens += call.promptTokens;
+        acc.completionTokens += call.completionTokens;
+        acc.reasoningTokens += call.reasoningTokens;
+        acc.totalTokens += call.totalTokens;
+        if (call.costUsd != null) acc.costUsd = roundCost((acc.costUsd || 0) + call.costUsd);
+        return acc;
+      },
+      { promptTokens: 0, completionTokens: 0, reasoningTokens: 0, totalTokens: 0, costUsd: null }
+    );
+    return {
+      stage: stage || 'generate',
+      provider: String(provider || ''),
+      model: String(model || ''),
+      requests: calls.length,
+      ...totals,
+      calls: calls.map((call) => ({ ...call }))
+    };
+  };
+
+  return {
+    record,
+    track,
+    summary,
+    hasCalls: () => calls.length > 0
+  };
+};
+
+module.exports = {
+  createUsageTracker,
+  normalizeUsage,
+  estimateCostUsd,
+  getModelPricing,
+  DEFAULT_MODEL_PRICING
+};
@@ -1,18 +1,26 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import styled from 'styled-components';
-import { AlertCircle, History, ListTodo, Menu, X, Eye, EyeOff, Trash2 } from 'lucide-react';
+import { AlertCircle, Brain, History, ListTodo, Menu, X, Eye, EyeOff, Trash2, RotateCcw, Undo2, Redo2 } from 'lucide-react';
 import { LanguageSwitcher } from './components/LanguageSwitcher';
 import { SubscriptionIndicator } from './components/SubscriptionIndicator';
 import { useLanguage } from './context/LanguageContext';
 
-import { AI_NEW_CHAT_GUARD_KEY, useAIStore } from './stores/aiStore';
+import { AI_NEW_CHAT_GUARD_KEY, useAIStore, type PlanStep } from './stores/aiStore';
 import { useProjectStore } from './stores/projectStore';
-import { usePreviewStore } from './stores/previewStore';
+import { selectRecentPreviewErrors, usePreviewStore } from './stores/previewStore';
+import { useJournalStore } from './stores/journalStore';
+import { useEditorStore } from './stores/editorStore';
+import { beginReviewRun, finishReviewRun, useReviewStore, type ReviewChangeInput } from './stores/reviewStore';
+import { useFeaturePackStore } from './stores/featurePackStore';
+import { useProjectMemoryStore } from './stores/projectMemoryStore';
 import { aiService, type StreamFileEvent } from './services/aiService';
 import { getLanguageFromExtension } from './utils/stackDetector';
 import { repairTruncatedContent } from './utils/codeRepair';
+import { isBinaryFile } from './utils/binaryAssets';
 import { sanitizeOperationPath, stripFileOperationMarkers } from './utils/fileOpGuards';
 import { normalizePlanCategory } from './utils/planCategory';
+import { applyPatchHunks, describePatchHunkFailure } from './utils/patchHunks';
+import { formatTokenCount, formatUsageCost } from './utils/tokenUsage';
 import {
   DEFAULT_APP_SETTINGS,
   patchAppSettings as patchStoredAppSettings,
@@ -24,6 +32,8 @@ import { resetAllLocalData } from './utils/dataReset';
 import { CodeEditor } from './components/CodeEditor';
 import { Sidebar } from './components/Sidebar';
 import { SidebarHistory } from './components/SidebarHistory';
+import { CheckpointBrowser } from './components/CheckpointBrowser';
+import { ProjectMemoryPanel } from './components/ProjectMemoryPanel';
 
 import { PromptInput } from './components/ui/PromptInput';
 import { ModeToggle } from './components/ui/ModeToggle';
@@ -33,6 +43,10 @@ import { MainActionButton, MainActionState } from './components/ui/MainActionBut
 import { PreviewWindow } from './components/ui/PreviewWindow';
 import { BrainConsole } from './components/ui/BrainConsole';
 import { PlanChecklist } from './components/ui/PlanChecklist';
+import { PlanEditor } from './components/ui/PlanEditor';
+import { ProjectGraphPanel } from './components/ui/ProjectGraphPanel';
+import { WorkspaceSearchPanel } from './components/ui/WorkspaceSearchPanel';
+import { ChangeReviewPanel } from './components/ui/ChangeReviewPanel';
 import { Content, Description, Heading, Popover, Trigger } from './components/ui/InstructionPopover';
 import { ToolsPanel } from './components/ui/ToolsPanel';
 import { GlobalStyles } from './styles/GlobalStyles';
@@ -44,6 +58,8 @@ import {
   mergePromptWithConstraints
 } from './services/constraintPromptBuilder';
 import { validateConstraints } from './services/constraintValidator';
+import { formatFeatureGap } from './services/featureStructureValidator';
+import { buildPlanGraph, runPlanSchedule } from './services/planScheduler';
 import type { GenerationConstraints } from './types/constraints';
 import { createFileMutationEngine } from './services/fileMutationEngine';
 import { buildContextBundle } from './services/contextRetrievalEngine';
@@ -390,6 +406,12 @@ const HeaderIconButton = styled.button`
     box-shadow: 0 4px 10px rgba(0, 0, 0, 0.1);
   }
 
+  &:disabled {
+    opacity: 0.4;
+    cursor: not-allowed;
+    pointer-events: none;
+  }
+
   @media (max-width: 768px) {
     width: 36px;
     height: 36px;
@@ -1792,6 +1814,8 @@ function App() {
     isPlanning,
     lastTokenAt,
     planSteps,
+    planReviewEnabled,
+    planReviewPrompt,
     projectType,
     selectedFeatures,
     customFeatureTags,
@@ -1825,6 +1849,7 @@ function App() {
     clearSystemConsoleContent,
     appendSystemConsoleContent,
     setPlanSteps,
+    setPlanReviewEnabled,
     setLastPlannedPrompt,
     generatePlan,
     clearFileStatuses,
@@ -1848,6 +1873,7 @@ function App() {
     addPolicyViolation,
     clearPolicyViolations,
     setBlockedReason,
+    recordTokenUsage,
     startNewChat
   } = useAIStore();
 
@@ -1866,7 +1892,7 @@ function App() {
       } catch {
         if (cancelled) return;
         setLlmConfigured(false);
-        setLlmConfigHint('Cannot verify backend AI provider. Check backend connectivity and DEEPSEEK_API_KEY.');
+        setLlmConfigHint('Cannot verify backend AI provider. Check backend connectivity and the LLM provider env (e.g. DEEPSEEK_API_KEY).');
       }
     };
     void checkProvider();
@@ -1909,13 +1935,11 @@ function App() {
         });
       }
 
-      await useProjectStore.getState().hydrateFromDisk();
-      if (cancelled) return;
-
       if (hasFreshNewChatGuard) {
-        await useProjectStore.getState().clearDisk();
-        if (cancelled) return;
         useProjectStore.getState().reset();
+      } else {
+        await useProjectStore.getState().hydrateFromDisk();
+        if (cancelled) return;
       }
 
       const ai = useAIStore.getState();
@@ -1988,13 +2012,20 @@ function App() {
     setProjectId
   } = useProjectStore();
   const { setPreviewUrl, logs, runtimeStatus, runtimeMessage } = usePreviewStore();
+  const workspaceProjectId = useProjectStore((state) => state.projectId);
+  const showWorkspaceSearch = useEditorStore((state) => state.showSearch);
+  const pendingReviewCount = useReviewStore((state) => state.changes.length);
+  const journalUndoLabel = useJournalStore((state) => state.undoLabel);
+  const journalRedoLabel = useJournalStore((state) => state.redoLabel);
 
   const [thinkingStatus, setThinkingStatus] = useState('');
   const [brainOpen, setBrainOpen] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [mobileTab, setMobileTab] = useState<'editor' | 'preview' | 'ai'>('editor');
-  const [desktopWorkbenchTab, setDesktopWorkbenchTab] = useState<'editor' | 'preview'>('editor');
+  const [desktopWorkbenchTab, setDesktopWorkbenchTab] = useState<'editor' | 'preview' | 'graph' | 'review'>('editor');
   const [historyOpen, setHistoryOpen] = useState(false);
+  const [checkpointsOpen, setCheckpointsOpen] = useState(false);
+  const [memoryOpen, setMemoryOpen] = useState(false);
   const [planOpen, setPlanOpen] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [constraintsPanelOpen, setConstraintsPanelOpen] = useState(false);
@@ -2079,7 +2110,10 @@ function App() {
     return 'idle';
   }, [executionPhase, files.length, isGenerating, isPlanning]);
 
-  const currentPlanStepId = useMemo(() => planSteps.find((step) => !step.completed)?.id, [planSteps]);
+  const currentPlanStepId = useMemo(
+    () => planSteps.find((step) => !step.completed && (step.status === 'pending' || step.status === 'in_progress'))?.id,
+    [planSteps]
+  );
   const isConsoleVisible = isMobileViewport
     ? mobileTab === 'ai'
     : true;
@@ -2324,6 +2358,7 @@ function App() {
       selectedFeatures={selectedFeatures}
       customFeatureTags={customFeatureTags}
       onToggleFeature={handleToggleFeature}
+      onSelectFeatures={setSelectedFeatures}
       onAddCustomTag={handleAddCustomFeatureTag}
       onRemoveCustomTag={handleRemoveCustomFeatureTag}
     />
@@ -2381,6 +2416,9 @@ function App() {
       if (analysisReport.riskFlags.length > 0) {
         lines.push(`[analysis-report] riskFlags=${analysisReport.riskFlags.join(', ')}`);
       }
+      for (const reference of analysisReport.brokenReferences.slice(0, 12)) {
+        lines.push(`[analysis-report] broken-reference ${reference}`);
+      }
     }
     if (blockedReason) lines.push(`[blocked] ${blockedReason}`);
     for (const issue of policyViolations) {
@@ -2425,6 +2463,45 @@ function App() {
     [addBrainEvent, appendSystemConsoleContent]
   );
 
+  useEffect(() => {
+    void useJournalStore.getState().refresh();
+  }, [workspaceProjectId]);
+
+  useEffect(() => {
+    void useFeaturePackStore.getState().load();
+  }, []);
+
+  useEffect(() => {
+    void useProjectMemoryStore.getState().load(workspaceProjectId);
+  }, [workspaceProjectId]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || !event.shiftKey || event.key.toLowerCase() !== 'f') return;
+      event.preventDefault();
+      useEditorStore.getState().setShowSearch(true);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const handleJournalStep = useCallback(
+    async (direction: 'undo' | 'redo', wholeRun: boolean) => {
+      const journal = useJournalStore.getState();
+      const result = direction === 'undo' ? await journal.undo({ wholeRun }) : await journal.redo({ wholeRun });
+      const verb = direction === 'undo' ? 'Undid' : 'Redid';
+      if (result.labels.length > 0) {
+        logSystem(
+          `[JOURNAL] ${verb} ${result.labels.length === 1 ? result.labels[0] : `${result.labels.length} operations`}`
+        );
+      }
+      if (!result.ok && result.reason === 'conflict') {
+        logSystem(`[JOURNAL] Stopped ${direction}: ${result.path} was changed since that operation`);
+      }
+    },
+    [logSystem]
+  );
+
   useEffect(() => {
     addBrainEvent({
       source: 'system',
@@ -2801,9 +2878,9 @@ function App() {
     const projectState = useProjectStore.getState();
     const aiState = useAIStore.getState();
     const previewState = usePreviewStore.getState();
-    const recentPreviewErrors = previewState.logs.slice(-24).map((entry) => String(entry.message || ''));
+    const recentPreviewErrors = selectRecentPreviewErrors(previewState);
     const contextBundle = buildContextBundle({
-      files: projectState.files,
+      files: projectState.files.filter((file) => !isBinaryFile(file)),
       activeFile: projectState.activeFile,
       recentPreviewErrors,
       prompt: requestPrompt,
@@ -2862,7 +2939,7 @@ function App() {
 
   const handleGenerate = useCallback(async (
     promptOverride?: string,
-    options?: { skipPlanning?: boolean; preserveProjectMeta?: boolean; resume?: boolean }
+    options?: { skipPlanning?: boolean; preserveProjectMeta?: boolean; resume?: boolean; executePlan?: boolean }
   ) => {
     const requestedResume = options?.resume === true;
     const rawPrompt = (promptOverride ?? prompt).trim();
@@ -2879,8 +2956,12 @@ function App() {
         logSystem(`[STATUS] ${msg}`);
         return;
       }
+      if (providerStatus.routing) {
+        const { planner, executor } = providerStatus.routing;
+        logSystem(`[STATUS] LLM routing: planner=${planner.provider}:${planner.model} executor=${executor.provider}:${executor.model}`);
+      }
     } catch {
-      const msg = 'LLM_NOT_CONFIGURED: cannot verify backend AI provider. Check API server and DEEPSEEK_API_KEY.';
+      const msg = 'LLM_NOT_CONFIGURED: cannot verify backend AI provider. Check API server and the LLM provider env (e.g. DEEPSEEK_API_KEY).';
       setLlmConfigured(false);
       setLlmConfigHint(msg);
       setError(msg);
@@ -2900,7 +2981,7 @@ function App() {
       prompt: basePrompt,
       generationProfile: generationConstraints.generationProfile,
       activeFile: projectSnapshotForAnalysis.activeFile,
-      recentPreviewErrors: previewSnapshotForAnalysis.logs.slice(-32).map((entry) => String(entry.message || '')),
+      recentPreviewErrors: selectRecentPreviewErrors(previewSnapshotForAnalysis, 32),
       interactionMode,
       minContextConfidence,
       maxContextChars: 120_000
@@ -3047,6 +3128,9 @@ function App() {
     const skipPlanning = options?.skipPlanning === true;
     const isResuming = requestedResume;
     const preserveProjectMeta = options?.preserveProjectMeta === true || isResuming;
+    // Runs the reviewed (possibly edited) plan as-is instead of asking the planner again.
+    const executeReviewedPlan = options?.executePlan === true;
+    useAIStore.getState().setPlanReviewPrompt(null);
 
     autoDebugRef.current = { signature: '', attempts: 0 };
     completionWatchRef.current = { at: 0, prompt: '' };
@@ -3072,6 +3156,7 @@ function App() {
     streamLastLogAtRef.current = Date.now();
     if (!isResuming) clearFileStatuses();
     setWritingFilePath(null);
+    await useProjectStore.getState().createCheckpoint('before generation');
     if (!preserveProjectMeta) resetProject();
     if (!preserveProjectMeta) resetFiles();
     if (!preserveProjectMeta) {
@@ -3103,6 +3188,17 @@ function App() {
     }
     reasoningBufferRef.current = '';
 
+    // Review runs keep every write in memory and hand the result to the review panel when the run ends.
+    const reviewBaseline =
+      generationConstraints.destructiveSafetyMode === 'review_changes' &&
+      preserveProjectMeta &&
+      useProjectStore.getState().files.length > 0
+        ? beginReviewRun()
+        : null;
+    const reviewProposals: ReviewChangeInput[] = [];
+    // Only paths the run itself wrote are reviewed, so edits typed during the run stay as they are.
+    const reviewWrittenPaths = new Set<string>();
+
     try {
       let generationSucceeded = false;
       const filePathMap = new Map<string, string>();
@@ -3174,20 +3270,19 @@ function App() {
         return lines.join('\n') + (lines.length > 0 ? '\n' : '');
       };
 
-      const normalizeGeneratedContent = (text: string) => {
-        const normalized = stripFileOperationMarkers(String(text || ''))
+      // Cleans model output line by line; hunk replacements use it directly so blank lines at their edges survive.
+      const normalizeGeneratedLines = (text: string) =>
+        stripFileOperationMarkers(String(text || ''))
           .replace(/\r\n/g, '\n')
-          .replace(/\uFEFF/g, '');
-
-        const noTrailingWhitespace = normalized
+          .replace(/\uFEFF/g, '')
           .split('\n')
           .map((line) => line.replace(/[ \t]+$/g, ''))
           .join('\n');
 
-        return noTrailingWhitespace
+      const normalizeGeneratedContent = (text: string) =>
+        normalizeGeneratedLines(text)
           .replace(/^(?:[ \t]*\n)+/, '')
           .replace(/(?:\n[ \t]*)+$/, '');
-      };
 
       const stabilizeResumeContent = (baseContent: string, streamedContent: string) => {
         const base = normalizeGeneratedContent(baseContent);
@@ -3263,6 +3358,7 @@ function App() {
         const healed = partial ? healHtmlDocument(cleaned) : cleaned;
         const finalText = normalizeGeneratedContent(healed);
 
+        reviewWrittenPaths.add(path);
         updateFile(path, finalText);
         upsertFileNode(path, finalText);
         upsertFile({
@@ -3727,6 +3823,7 @@ function App() {
         const filesSnapshot = useProjectStore.getState().files;
         const touched: string[] = [];
         const createOrUpdateFile = (path: string, content: string) => {
+          reviewWrittenPaths.add(path);
           updateFile(path, content);
           upsertFileNode(path, content);
           upsertFile({
@@ -3983,10 +4080,6 @@ function App() {
           logSystem(`[SAFETY] Blocked ${operationLabel}: destructive operations are disabled by policy.`);
           return;
         }
-        if (mode === 'manual_confirm') {
-          logSystem(`[SAFETY] Blocked ${operationLabel}: manual confirmation mode is enabled.`);
-          return;
-        }
         const normalizedPaths = Array.from(new Set(paths.map((path) => sanitizeOperationPath(path)).filter(Boolean)));
         if (normalizedPaths.length === 0) {
           apply();
@@ -3995,6 +4088,7 @@ function App() {
         void (async () => {
           try {
             const backup = await createWorkspaceBackup({
+              projectId: useProjectStore.getState().projectId,
               reason: `pre-${operationLabel}`,
               paths: normalizedPaths
             });
@@ -4020,12 +4114,36 @@ function App() {
           }
         })();
       };
-      let fileEventCounter = 0;
+      // Content each streamed file had before its write began; null when the write created it.
+      const journalBeforeByPath = new Map<string, string | null>();
+      const readWorkspaceContent = (path: string) => {
+        const file = useProjectStore.getState().files.find((f) => (f.path || f.name) === path);
+        return file ? String(file.content || '') : null;
+      };
+      // Hunk patches whose anchors did not match; the files stay untouched and the runStream call that received them
+      // retries them once.
+      type RejectedHunkPatch = { path: string; reasons: string[] };
+      const rejectHunkPatch = (rejected: RejectedHunkPatch[] | undefined, path: string, reasons: string[]) => {
+        rejected?.push({ path, reasons });
+        setFileStatus(path, 'ready');
+        logSystem(`[PATCH] Rejected hunks for ${path}: ${reasons.join('; ')}`);
+        addBrainEvent({
+          source: 'file',
+          level: 'warn',
+          message: `Rejected hunk patch for ${path} (file left unchanged)`,
+          path,
+          phase: 'recovering'
+        });
+      };
 
-      const handleFileEvent = (incomingEvent: StreamFileEvent) => {
+      const handleFileEvent = (
+        incomingEvent: StreamFileEvent,
+        onApplied?: () => void,
+        rejectedHunkPatches?: RejectedHunkPatch[]
+      ) => {
         const event = fileMutationEngine.applyFileOperation(incomingEvent);
         if (!event) return;
-        fileEventCounter += 1;
+        onApplied?.();
         if (event.type === 'delete') {
           const resolvedPath = resolveGeneratedPath(event.path || '');
           if (!resolvedPath) return;
@@ -4058,7 +4176,13 @@ function App() {
           }
 
           const applyDelete = () => {
+            const before = readWorkspaceContent(resolvedPath);
             deleteFile(resolvedPath);
+            void useJournalStore.getState().record({
+              runId,
+              label: `Delete ${resolvedPath}`,
+              changes: [{ path: resolvedPath, before, after: null }]
+            });
             filesByBaseName.delete((resolvedPath.split('/').pop() || resolvedPath).toLowerCase());
             unregisterDuplicatePurposePath(resolvedPath);
             setFilesFromProjectFiles(useProjectStore.getState().files);
@@ -4073,6 +4197,15 @@ function App() {
             });
             scheduleAutosave();
           };
+          if (reviewBaseline) {
+            reviewProposals.push({ kind: 'delete', path: resolvedPath, before: null, after: null, reason });
+            logSystem(`[REVIEW] Queued delete of ${resolvedPath} for review`);
+            return;
+          }
+          if (generationConstraints.destructiveSafetyMode === 'review_changes') {
+            logSystem(`[SAFETY] Blocked delete:${resolvedPath}: review mode is on and this run has nothing to review against.`);
+            return;
+          }
           if (isSensitive) {
             applyDestructiveOperationWithBackup([resolvedPath], `delete:${resolvedPath}`, applyDelete);
           } else {
@@ -4134,7 +4267,17 @@ function App() {
           }
 
           const applyMove = () => {
+            const movedContent = readWorkspaceContent(fromPath);
+            const replacedContent = readWorkspaceContent(toPath);
             moveFile(fromPath, toPath);
+            void useJournalStore.getState().record({
+              runId,
+              label: `Move ${fromPath} -> ${toPath}`,
+              changes: [
+                { path: fromPath, before: movedContent, after: null },
+                { path: toPath, before: replacedContent, after: readWorkspaceContent(toPath) }
+              ]
+            });
             filesByBaseName.delete((fromPath.split('/').pop() || fromPath).toLowerCase());
             filesByBaseName.set((toPath.split('/').pop() || toPath).toLowerCase(), toPath);
             unregisterDuplicatePurposePath(fromPath);
@@ -4152,6 +4295,15 @@ function App() {
             });
             scheduleAutosave();
           };
+          if (reviewBaseline) {
+            reviewProposals.push({ kind: 'move', path: fromPath, toPath, before: null, after: null, reason });
+            logSystem(`[REVIEW] Queued move ${fromPath} -> ${toPath} for review`);
+            return;
+          }
+          if (generationConstraints.destructiveSafetyMode === 'review_changes') {
+            logSystem(`[SAFETY] Blocked move:${fromPath}: review mode is on and this run has nothing to review against.`);
+            return;
+          }
           if (isSensitive) {
             applyDestructiveOperationWithBackup([fromPath], `move:${fromPath}`, applyMove);
           } else {
@@ -4160,6 +4312,75 @@ function App() {
           return;
         }
 
+        if (event.type === 'hunks') {
+          const resolvedPath = resolveGeneratedPath(event.path || '');
+          if (!resolvedPath) return;
+
+          const normalizedResolved = normalizePolicyPathLower(resolvedPath);
+          if (
+            interactionMode === 'edit' &&
+            !localAllowedEditSet.has(normalizedResolved) &&
+            !localCreatedPaths.has(normalizedResolved)
+          ) {
+            enforceLocalPolicyViolation('LOCAL_POLICY_EDIT_OUT_OF_SCOPE', 'edit path is outside allowed edit set', resolvedPath);
+            return;
+          }
+          if (!trackTouchedPath(resolvedPath)) {
+            enforceLocalPolicyViolation(
+              'LOCAL_POLICY_TOUCH_BUDGET_EXCEEDED',
+              `touch budget exceeded (${localTouchedPaths.size}/${localMaxTouched})`,
+              resolvedPath
+            );
+            return;
+          }
+
+          const existing = useProjectStore.getState().files.find((f) => (f.path || f.name) === resolvedPath);
+          if (!existing) {
+            rejectHunkPatch(rejectedHunkPatches, resolvedPath, ['target file does not exist']);
+            return;
+          }
+          if (event.errors && event.errors.length > 0) {
+            rejectHunkPatch(rejectedHunkPatches, resolvedPath, event.errors);
+            return;
+          }
+
+          // Only the inserted text is cleaned up; untouched lines keep their whitespace and line endings.
+          const result = applyPatchHunks(
+            String(existing.content || ''),
+            event.hunks.map((hunk) => ({ ...hunk, replace: normalizeGeneratedLines(hunk.replace) }))
+          );
+          if (!result.ok) {
+            rejectHunkPatch(rejectedHunkPatches, resolvedPath, result.failures.map(describePatchHunkFailure));
+            return;
+          }
+
+          const nextContent = result.content;
+          reviewWrittenPaths.add(resolvedPath);
+          updateFile(resolvedPath, nextContent);
+          if (!reviewBaseline) {
+            void useJournalStore.getState().record({
+              runId,
+              label: `Patch ${resolvedPath}`,
+              changes: [{ path: resolvedPath, before: String(existing.content || ''), after: nextContent }]
+            });
+          }
+          upsertFileNode(resolvedPath, nextContent);
+          setFileStatus(resolvedPath, 'ready');
+          setActiveFile(resolvedPath);
+          partialPaths.delete(resolvedPath);
+          logSystem(`[PATCH] Applied ${result.applied} hunk(s) to ${resolvedPath}${event.reason ? ` (${event.reason})` : ''}`);
+          addBrainEvent({
+            source: 'file',
+            level: 'success',
+            message: `Patched ${resolvedPath} (${result.applied} hunk${result.applied === 1 ? '' : 's'})`,
+            path: resolvedPath,
+            phase: 'executing'
+          });
+          useAIStore.getState().addCompletedFile(resolvedPath);
+          scheduleAutosave();
+          return;
+        }
+
         const resolvedPath = resolveGeneratedPath(event.path || '');
         if (!resolvedPath) return;
 
@@ -4217,6 +4438,7 @@ function App() {
           if (mode === 'edit' && isSensitiveWorkspacePath(resolvedPath) && !sensitiveEditBackups.has(resolvedPath)) {
             sensitiveEditBackups.add(resolvedPath);
             void createWorkspaceBackup({
+              projectId: useProjectStore.getState().projectId,
               reason: `pre-edit:${resolvedPath}`,
               paths: [resolvedPath]
             }).catch(() => undefined);
@@ -4251,6 +4473,10 @@ function App() {
           const existing = useProjectStore.getState().files.find((f) => (f.path || f.name) === resolvedPath);
           appendResumeModeByPathRef.current.set(resolvedPath, Boolean(event.append));
           preStreamContentByPathRef.current.set(resolvedPath, String(existing?.content || ''));
+          reviewWrittenPaths.add(resolvedPath);
+          if (!journalBeforeByPath.has(resolvedPath)) {
+            journalBeforeByPath.set(resolvedPath, existing ? String(existing.content || '') : null);
+          }
 
           if (!existing) {
             upsertFile({ name, path: resolvedPath, content: '', language: getLanguageFromExtension(resolvedPath) });
@@ -4450,6 +4676,16 @@ function App() {
             useAIStore.getState().addCompletedFile(resolvedPath);
             scheduleAutosave();
           }
+          if (!reviewBaseline && journalBeforeByPath.has(resolvedPath)) {
+            void useJournalStore.getState().record({
+              runId,
+              label: `Write ${resolvedPath}`,
+              changes: [
+                { path: resolvedPath, before: journalBeforeByPath.get(resolvedPath) ?? null, after: readWorkspaceContent(resolvedPath) }
+              ]
+            });
+            journalBeforeByPath.delete(resolvedPath);
+          }
           preStreamContentByPathRef.current.delete(resolvedPath);
           appendResumeModeByPathRef.current.delete(resolvedPath);
 
@@ -4500,14 +4736,16 @@ function App() {
         });
       };
 
+      // Plan steps can stream concurrently, so usage attribution, file-event counting and rejected hunks are per call.
       const runStream = async (
         streamPrompt: string,
-        options?: { useMultiAgent?: boolean }
+        options?: { useMultiAgent?: boolean; usageStepId?: string; onFileApplied?: () => void }
       ) => {
+        const rejectedHunkPatches: RejectedHunkPatch[] = [];
         const shouldUseMultiAgent = multiAgentRuntimeEnabled && options?.useMultiAgent !== false;
-        const runStreamAttempt = async (attemptUseMultiAgent: boolean) =>
+        const runStreamAttempt = async (attemptUseMultiAgent: boolean, attemptPrompt = streamPrompt) =>
           aiService.generateCodeStream(
-          streamPrompt,
+          attemptPrompt,
           (token) => {
             appendStreamText(token);
             streamCharCountRef.current += token.length;
@@ -4662,7 +4900,13 @@ function App() {
             multiAgentEnabled: attemptUseMultiAgent,
             includeReasoning: isThinkingMode,
             typingMs: 26,
-            onFileEvent: handleFileEvent,
+            onFileEvent: (event) => handleFileEvent(event, options?.onFileApplied, rejectedHunkPatches),
+            onUsage: (usage) => {
+              recordTokenUsage(usage, options?.usageStepId ?? null);
+              logSystem(
+                `[USAGE] ${usage.provider || 'llm'}: ${formatTokenCount(usage.totalTokens)} tokens across ${usage.requests} call(s), cost ${formatUsageCost(usage.costUsd)}`
+              );
+            },
             abortSignal: abortController.signal,
             resumeContext,
             history: buildHistoryPayload(),
@@ -4672,14 +4916,61 @@ function App() {
           }
         );
 
+        const retryRejectedHunkPatches = async () => {
+          const rejected = rejectedHunkPatches.splice(0);
+          if (rejected.length === 0 || abortController.signal.aborted) return;
+          const files = useProjectStore.getState().files;
+          const currentBlocks = Array.from(new Set(rejected.map((item) => item.path)))
+            .map((path) => {
+              const content = String(files.find((f) => (f.path || f.name) === path)?.content ?? '');
+              return `[[CTX_FILE: ${path}]]\n${content.slice(0, 12000)}\n[[END_CTX_FILE]]`;
+            })
+            .join('\n\n');
+          const retryPrompt = [
+            '[HUNK_PATCH_RETRY]',
+            'Some [[PATCH_HUNKS]] edits did not apply because their SEARCH anchors did not match the current file exactly once.',
+            'Those files were NOT changed. Re-emit ONLY the failed edits.',
+            'Copy SEARCH lines verbatim from the current content below with enough context to be unique,',
+            'or rewrite the file with [[PATCH_FILE: path | mode: edit]] if the change is large.',
+            '',
+            '[FAILED_PATCHES]',
+            ...rejected.map((item) => `- ${item.path}: ${item.reasons.join('; ')}`),
+            '',
+            '[CURRENT_FILES]',
+            currentBlocks,
+            '',
+            '[ORIGINAL_REQUEST]',
+            streamPrompt.slice(0, 6000)
+          ].join('\n');
+
+          logSystem(`[PATCH] Retrying ${rejected.length} rejected hunk patch(es) against current file content...`);
+          await runStreamAttempt(false, retryPrompt);
+
+          const stillRejected = rejectedHunkPatches.splice(0);
+          if (stillRejected.length > 0) {
+            const paths = Array.from(new Set(stillRejected.map((item) => item.path))).join(', ');
+            logSystem(`[PATCH] Hunks still did not apply after retry; left unchanged: ${paths}`);
+            addBrainEvent({
+              source: 'file',
+              level: 'error',
+              message: `Hunk patches still rejected after retry: ${paths}`,
+              phase: 'recovering'
+            });
+          }
+        };
+
         try {
           await runStreamAttempt(shouldUseMultiAgent);
+          await retryRejectedHunkPatches();
         } catch (error: any) {
           const detail = String(error?.message || error || '').trim();
           if (shouldUseMultiAgent && isMultiAgentFailureSignal(detail)) {
             disableMultiAgentRuntime(detail || 'multi-agent failure');
             logSystem('[STATUS] Retrying current task with single-agent mode...');
+            // The single-agent attempt re-emits the whole task, so earlier rejects are superseded.
+            rejectedHunkPatches.length = 0;
             await runStreamAttempt(false);
+            await retryRejectedHunkPatches();
             return;
           }
           if (
@@ -4713,7 +5004,7 @@ function App() {
 
       const buildAutoFixIssueBatches = (snapshot: ConstraintValidationSnapshot) => {
         const hidden = snapshot.hiddenIssues.map((x) => `hidden:${x}`);
-        const missing = snapshot.missingFeatures.map((x) => `missing:${x}`);
+        const missing = snapshot.featureChecks.filter((check) => !check.present).map((check) => `missing:${formatFeatureGap(check)}`);
         const critical = snapshot.criticalViolations.map((x) => `critical:${x}`);
         const routing = snapshot.routingViolations.map((x) => `routing:${x}`);
         const quality = snapshot.qualityViolations.map((x) => `quality:${x}`);
@@ -4854,7 +5145,7 @@ function App() {
       };
 
       const buildPlanStepPrompt = (
-        step: { title: string; description: string; files?: string[]; completed?: boolean },
+        step: { title: string; description: string; files?: string[]; notes?: string; completed?: boolean },
         allSteps: Array<{ title: string; completed?: boolean }>,
         retry = false
       ) =>
@@ -4873,6 +5164,7 @@ ${allSteps.map((s) => `- [${s.completed ? 'x' : ' '}] ${s.title}`).join('\n')}
 Implement this step: "${step.title}"
 Description: ${step.description}
 Target Files (deterministic order): ${(step.files || []).join(', ') || 'Auto-detect'}
+${step.notes?.trim() ? `User Notes: ${step.notes.trim()}` : ''}
 
 [OUTPUT PROTOCOL - STRICT]
 Output ONLY file-op markers and file contents. No prose, no explanations, no markdown.
@@ -4883,8 +5175,8 @@ Use ONLY this format:
 ${retry ? 'This is a retry because the previous attempt produced no effective file change. You MUST emit valid PATCH markers with real edits now.' : ''}
 `.trim();
 
-      const executePlanStepWithGuard = async (
-        step: { id: string; title: string; description: string; files?: string[]; completed?: boolean },
+      const runPlanStepWithGuard = async (
+        step: { id: string; title: string; description: string; files?: string[]; notes?: string; completed?: boolean },
         allSteps: Array<{ title: string; completed?: boolean }>
       ) => {
         const stepTargetPaths = Array.isArray(step.files) ? step.files.filter((path) => String(path || '').trim().length > 0) : [];
@@ -4893,27 +5185,31 @@ ${retry ? 'This is a retry because the previous attempt produced no effective fi
           augmentPolicyScopeForExecution(scopeSeedPaths, `plan-step:${step.id || step.title}`);
         }
 
-        const beforeEvents = fileEventCounter;
-        const beforePrint = captureWorkspaceFingerprint(step.files || []);
-        await runStream(buildPlanStepPrompt(step, allSteps, false), { useMultiAgent: true });
-        const afterPrint = captureWorkspaceFingerprint(step.files || []);
-        const changed = beforePrint.all !== afterPrint.all || beforePrint.scoped !== afterPrint.scoped;
+        await useProjectStore.getState().createCheckpoint(`before step: ${step.title}`);
 
-        if (changed) return;
+        // Other steps may be writing their own files meanwhile, so a workspace-wide change only
+        // counts when this step's stream actually applied file events.
+        let appliedEvents = 0;
+        const streamOptions = { useMultiAgent: true, usageStepId: step.id, onFileApplied: () => (appliedEvents += 1) };
+        const stepChanged = (before: ReturnType<typeof captureWorkspaceFingerprint>, events: number) => {
+          const after = captureWorkspaceFingerprint(step.files || []);
+          return before.scoped !== after.scoped || (appliedEvents > events && before.all !== after.all);
+        };
+
+        const beforePrint = captureWorkspaceFingerprint(step.files || []);
+        await runStream(buildPlanStepPrompt(step, allSteps, false), streamOptions);
+        if (stepChanged(beforePrint, 0)) return;
 
-        const firstEventDelta = fileEventCounter - beforeEvents;
+        const firstEventDelta = appliedEvents;
         logSystem(
           `[PLAN] Step "${step.title}" produced no effective change${firstEventDelta <= 0 ? ' (no file markers detected)' : ''}. Retrying once with strict marker enforcement.`
         );
 
-        const retryEvents = fileEventCounter;
         const retryBefore = captureWorkspaceFingerprint(step.files || []);
-        await runStream(buildPlanStepPrompt(step, allSteps, true), { useMultiAgent: true });
-        const retryAfter = captureWorkspaceFingerprint(step.files || []);
-        const changedOnRetry = retryBefore.all !== retryAfter.all || retryBefore.scoped !== retryAfter.scoped;
-        if (changedOnRetry) return;
+        await runStream(buildPlanStepPrompt(step, allSteps, true), streamOptions);
+        if (stepChanged(retryBefore, firstEventDelta)) return;
 
-        const retryEventDelta = fileEventCounter - retryEvents;
+        const retryEventDelta = appliedEvents - firstEventDelta;
         if (firstEventDelta > 0 || retryEventDelta > 0) {
           logSystem(
             `[PLAN] Step "${step.title}" emitted file markers but no net diff after retry; accepting as complete to avoid false no-op failure.`
@@ -5036,6 +5332,39 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
         );
       };
 
+      const executePlanSchedule = async <T extends PlanStep>(steps: T[]) => {
+        const graph = buildPlanGraph(steps);
+        const titleOf = (id: string) => steps.find((step) => step.id === id)?.title || id;
+        for (const cycle of graph.cycles) {
+          logSystem(`[PLAN] Dependency cycle ${cycle.map(titleOf).join(' -> ')}; running those steps in plan order.`);
+        }
+        for (const { stepId, ref } of graph.unknownDependencies) {
+          logSystem(`[PLAN] Step "${titleOf(stepId)}" depends on unknown step "${ref}"; ignoring that dependency.`);
+        }
+
+        const result = await runPlanSchedule(steps, {
+          runStep: async (step) => {
+            logSystem(`[PLAN] Executing step: ${step.title}`);
+            await runPlanStepWithGuard(step, useAIStore.getState().planSteps);
+          },
+          onStatus: (stepId, status, detail) => {
+            useAIStore.getState().setPlanStepStatus(stepId, status, detail);
+            if (status === 'failed') logSystem(`[PLAN] Step "${titleOf(stepId)}" failed: ${detail}`);
+            if (status === 'blocked') logSystem(`[PLAN] Step "${titleOf(stepId)}" blocked: ${detail}`);
+          },
+          findMissingFiles: (step) =>
+            (step.files || []).filter((path) => isFileLikePath(normalizeRefPath(path)) && !findWorkspaceFileByPath(path)),
+          shouldStop: () => abortController.signal.aborted || useAIStore.getState().executionPhase === 'interrupted'
+        });
+
+        if (result.interruption) throw result.interruption;
+        if (result.failed.length > 0) {
+          throw new Error(
+            `PLAN_STEPS_FAILED: ${result.failed.length} step(s) failed, ${result.blocked.length} blocked. Retry or skip them from the plan. First error: ${result.failed[0].error}`
+          );
+        }
+      };
+
       if (!SUPER_MODE_TEMP_DISABLED && modelMode === 'super') {
         setExecutionPhase('planning');
         logSystem('[SUPER-THINKING] Initializing Fast-Mode Blueprint...');
@@ -5068,6 +5397,7 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
           augmentPolicyScopeForExecution(planTargetPaths, 'plan-targets');
         }
         setPlanSteps(planStepsLocal);
+        if (data.usage) recordTokenUsage(data.usage);
         setLastPlannedPrompt(scopedPrompt);
         applyFrontendProjectModeV12(planStepsLocal.map((step) => ({ files: step.files })));
         logSystem('[WORKFLOW] Mapping automated logic nodes...');
@@ -5080,18 +5410,14 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
           await runStream(baseStreamPrompt, { useMultiAgent: true });
         }
 
-        for (const step of planStepsLocal) {
-          logSystem(`[PLAN] Executing step: ${step.title}`);
-          await executePlanStepWithGuard(step, planStepsLocal);
-          useAIStore.getState().setPlanStepCompleted(step.id, true);
-          if (useAIStore.getState().executionPhase === 'interrupted') break;
-        }
+        await executePlanSchedule(planStepsLocal);
       } else if (architectMode && (!skipPlanning || isResuming)) {
         setExecutionPhase('planning');
         const planBeforeRun = useAIStore.getState();
         const currentSteps = planBeforeRun.planSteps;
         const lastPlanned = planBeforeRun.lastPlannedPrompt;
-        const shouldGenerateFreshPlan = !isResuming && (currentSteps.length === 0 || lastPlanned !== scopedPrompt);
+        const shouldGenerateFreshPlan =
+          !isResuming && !executeReviewedPlan && (currentSteps.length === 0 || lastPlanned !== scopedPrompt);
 
         if (shouldGenerateFreshPlan) {
           await generatePlan(scopedPrompt, abortController.signal);
@@ -5116,6 +5442,15 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
         setPlanSteps(steps);
         applyFrontendProjectModeV12(steps.map((step) => ({ files: step.files })));
 
+        if (shouldGenerateFreshPlan && steps.length > 0 && useAIStore.getState().planReviewEnabled) {
+          useAIStore.getState().setPlanReviewPrompt(basePrompt);
+          clearAutoResumePayload();
+          setExecutionPhase('idle');
+          setPlanOpen(true);
+          logSystem('[PLAN] Plan ready for review. Edit the steps, then press Execute.');
+          return;
+        }
+
         if (steps.length === 0) {
           setExecutionPhase('executing');
           augmentPolicyScopeForExecution(collectPolicyFallbackPaths(), 'plan-empty-fallback');
@@ -5134,17 +5469,8 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
             augmentPolicyScopeForExecution([partialFile, ...collectPolicyFallbackPaths()], 'resume-partial');
             await runStream(baseStreamPrompt, { useMultiAgent: true });
           }
-          
-          for (const step of plannedExecutionSteps) {
-              if (step.completed) continue;
-              
-              logSystem(`[PLAN] Executing step: ${step.title}`);
-              await executePlanStepWithGuard(step, plannedExecutionSteps);
-              useAIStore.getState().setPlanStepCompleted(step.id, true);
-              
-              // Safety check for interruptions
-              if (useAIStore.getState().executionPhase === 'interrupted') break;
-          }
+
+          await executePlanSchedule(plannedExecutionSteps);
         }
       } else {
         setExecutionPhase('executing');
@@ -5191,6 +5517,9 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
             logSystem(
               `[constraints] Critical auto-fix required. Missing features: ${missingFeatures.join(', ') || 'none'}${qualitySummary}${routingSummary}${namingSummary}${hiddenSummary} | Retrieval coverage=${retrievalCoverageScore}%`
             );
+            for (const check of initialValidation.featureChecks) {
+              if (!check.present) logSystem(`[constraints] Missing ${formatFeatureGap(check)}`);
+            }
             const postFixValidation = await runSmartConstraintAutoFix(initialValidation);
             if (hasBlockingConstraintIssues(postFixValidation)) {
               const unresolved = [
@@ -5294,6 +5623,18 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
       setExecutionPhase('interrupted');
       setThinkingStatus('Interrupted');
     } finally {
+      if (reviewBaseline) {
+        flushFileBuffers({ force: true });
+        const pending = finishReviewRun(runId, reviewBaseline, reviewWrittenPaths, reviewProposals);
+        setFilesFromProjectFiles(useProjectStore.getState().files);
+        if (pending > 0) {
+          logSystem(`[REVIEW] ${pending} change(s) waiting for review.`);
+          useEditorStore.getState().setShowSearch(false);
+          setDesktopWorkbenchTab('review');
+        } else {
+          logSystem('[REVIEW] The run proposed no changes.');
+        }
+      }
       preStreamContentByPathRef.current.clear();
       setIsGenerating(false);
       setThinkingStatus('');
@@ -5319,6 +5660,7 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
     moveFile,
     prompt,
     deleteFile,
+    recordTokenUsage,
     resetProject,
     resetFiles,
     resolveFilePath,
@@ -5411,9 +5753,10 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
         'Use ONLY these markers:',
         '  - [[PATCH_FILE: path/to/file.ext | mode: edit | reason: ...]] ... [[END_FILE]] for edits',
         '  - [[PATCH_FILE: path/to/file.ext | mode: create | reason: ...]] ... [[END_FILE]] for new files',
+        '  - [[PATCH_HUNKS: path/to/file.ext | reason: ...]] <<<<<<< SEARCH / ======= / >>>>>>> REPLACE hunks ... [[END_FILE]] for small edits to existing files',
         '  - [[DELETE_FILE: path/to/file.ext | reason: ...]] for safe deletes',
         '  - [[MOVE_FILE: from/path.ext -> to/path.ext | reason: ...]] for safe moves',
-        'Prefer [[PATCH_FILE ... mode: edit]] whenever possible. Do NOT repeat unchanged files.',
+        'Prefer [[PATCH_HUNKS]] for small edits and [[PATCH_FILE ... mode: edit]] for larger rewrites. Do NOT repeat unchanged files.',
         continueInstructions,
         '',
         agentContextBlock,
@@ -5565,6 +5908,43 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
   ]);
 
 
+  const handleRetryPlanStep = useCallback(
+    (stepId: string) => {
+      if (isGenerating || isPlanning) return;
+      useAIStore.getState().retryPlanStep(stepId);
+      if (!architectMode) return;
+      void handleGenerate(undefined, { resume: true, preserveProjectMeta: true });
+    },
+    [architectMode, handleGenerate, isGenerating, isPlanning]
+  );
+
+  const handleSkipPlanStep = useCallback(
+    (stepId: string) => {
+      if (isGenerating || isPlanning) return;
+      useAIStore.getState().skipPlanStep(stepId);
+    },
+    [isGenerating, isPlanning]
+  );
+
+  const handleExecuteReviewedPlan = useCallback(() => {
+    const reviewedPrompt = useAIStore.getState().planReviewPrompt;
+    if (!reviewedPrompt || isGenerating || isPlanning) return;
+    void handleGenerate(reviewedPrompt, { preserveProjectMeta: true, executePlan: true });
+  }, [handleGenerate, isGenerating, isPlanning]);
+
+  const handleReplanFrom = useCallback(
+    async (index: number) => {
+      if (isGenerating || isPlanning) return;
+      const state = useAIStore.getState();
+      const fixedSteps = state.planSteps.slice(0, Math.max(0, index));
+      logSystem(`[PLAN] Re-planning from step ${index + 1} with ${fixedSteps.length} fixed step(s)…`);
+      await state.generatePlan(state.lastPlannedPrompt, undefined, { fixedSteps });
+      const error = useAIStore.getState().error;
+      if (error) logSystem(`[PLAN] Re-plan failed: ${error}`);
+    },
+    [isGenerating, isPlanning, logSystem]
+  );
+
   const handleMainActionClick = useCallback(() => {
     if (llmConfigured === false) {
       setError(llmConfigHint || 'LLM_NOT_CONFIGURED: backend AI provider is not configured.');
@@ -5812,6 +6192,48 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
                 <History size={18} />
               </HeaderIconButton>
             </DesktopOnly>
+            <DesktopOnly>
+              <HeaderIconButton
+                type="button"
+                onClick={(event) => void handleJournalStep('undo', event.shiftKey)}
+                disabled={isGenerating || !journalUndoLabel}
+                aria-label="Undo workspace change"
+                title={journalUndoLabel ? `Undo: ${journalUndoLabel} (Shift+click undoes the whole run)` : 'Nothing to undo'}
+              >
+                <Undo2 size={18} />
+              </HeaderIconButton>
+            </DesktopOnly>
+            <DesktopOnly>
+              <HeaderIconButton
+                type="button"
+                onClick={(event) => void handleJournalStep('redo', event.shiftKey)}
+                disabled={isGenerating || !journalRedoLabel}
+                aria-label="Redo workspace change"
+                title={journalRedoLabel ? `Redo: ${journalRedoLabel} (Shift+click redoes the whole run)` : 'Nothing to redo'}
+              >
+                <Redo2 size={18} />
+              </HeaderIconButton>
+            </DesktopOnly>
+            <DesktopOnly>
+              <HeaderIconButton
+                type="button"
+                onClick={() => setCheckpointsOpen((v) => !v)}
+                aria-label="View checkpoints"
+                title="View checkpoints"
+              >
+                <RotateCcw size={18} />
+              </HeaderIconButton>
+            </DesktopOnly>
+            <DesktopOnly>
+              <HeaderIconButton
+                type="button"
+                onClick={() => setMemoryOpen((v) => !v)}
+                aria-label={t('app.memory.title')}
+                title={t('app.memory.title')}
+              >
+                <Brain size={18} />
+              </HeaderIconButton>
+            </DesktopOnly>
             <DesktopOnly>
               <HeaderIconButton
                 type="button"
@@ -5900,21 +6322,55 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
               <WorkbenchTabs>
                 <WorkbenchTab
                   type="button"
-                  $active={desktopWorkbenchTab === 'editor'}
-                  onClick={() => setDesktopWorkbenchTab('editor')}
+                  $active={!showWorkspaceSearch && desktopWorkbenchTab === 'editor'}
+                  onClick={() => {
+                    useEditorStore.getState().setShowSearch(false);
+                    setDesktopWorkbenchTab('editor');
+                  }}
                 >
                   Editor
                 </WorkbenchTab>
                 <WorkbenchTab
                   type="button"
-                  $active={desktopWorkbenchTab === 'preview'}
+                  $active={!showWorkspaceSearch && desktopWorkbenchTab === 'preview'}
                   onClick={() => {
+                    useEditorStore.getState().setShowSearch(false);
                     setDesktopWorkbenchTab('preview');
                     setIsPreviewOpen(true);
                   }}
                 >
                   Live Preview
                 </WorkbenchTab>
+                <WorkbenchTab
+                  type="button"
+                  $active={!showWorkspaceSearch && desktopWorkbenchTab === 'graph'}
+                  onClick={() => {
+                    useEditorStore.getState().setShowSearch(false);
+                    setDesktopWorkbenchTab('graph');
+                  }}
+                >
+                  Graph
+                </WorkbenchTab>
+                <WorkbenchTab
+                  type="button"
+                  $active={showWorkspaceSearch}
+                  onClick={() => useEditorStore.getState().toggleSearch()}
+                  title={t('app.search.shortcut')}
+                >
+                  {t('app.search.tab')}
+                </WorkbenchTab>
+                {pendingReviewCount > 0 ? (
+                  <WorkbenchTab
+                    type="button"
+                    $active={!showWorkspaceSearch && desktopWorkbenchTab === 'review'}
+                    onClick={() => {
+                      useEditorStore.getState().setShowSearch(false);
+                      setDesktopWorkbenchTab('review');
+                    }}
+                  >
+                    {t('app.review.tab').replace('{count}', String(pendingReviewCount))}
+                  </WorkbenchTab>
+                ) : null}
               </WorkbenchTabs>
 
               <WorkbenchBody>
@@ -5923,8 +6379,34 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
                 </WorkbenchSidebar>
 
                 <WorkbenchPanel>
-                  {desktopWorkbenchTab === 'editor' ? (
+                  {showWorkspaceSearch ? (
+                    <WorkspaceSearchPanel
+                      onOpenMatch={(path, line, column) => {
+                        const editor = useEditorStore.getState();
+                        useProjectStore.getState().setActiveFile(path);
+                        editor.revealInEditor(path, line, column);
+                        editor.setShowSearch(false);
+                        setDesktopWorkbenchTab('editor');
+                      }}
+                      onClose={() => useEditorStore.getState().setShowSearch(false)}
+                    />
+                  ) : desktopWorkbenchTab === 'review' && pendingReviewCount > 0 ? (
+                    <ChangeReviewPanel
+                      onOpenFile={(path) => {
+                        useProjectStore.getState().setActiveFile(path);
+                        setDesktopWorkbenchTab('editor');
+                      }}
+                      onClose={() => setDesktopWorkbenchTab('editor')}
+                    />
+                  ) : desktopWorkbenchTab === 'editor' || desktopWorkbenchTab === 'review' ? (
                     <CodeEditor showFileTree={false} isVisible />
+                  ) : desktopWorkbenchTab === 'graph' ? (
+                    <ProjectGraphPanel
+                      onOpenFile={(path) => {
+                        useProjectStore.getState().setActiveFile(path);
+                        setDesktopWorkbenchTab('editor');
+                      }}
+                    />
                   ) : (
                     <PreviewWindow
                       enabled={isPreviewOpen}
@@ -5966,11 +6448,24 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
                 {(architectMode || planSteps.length > 0) && (
                   <MobilePlanPane>
                     <MobilePlanBody>
-                      {planSteps.length > 0 ? (
+                      {planReviewPrompt && !isGenerating && planSteps.length > 0 ? (
+                        <PlanEditor
+                          steps={planSteps}
+                          onChange={setPlanSteps}
+                          onExecute={handleExecuteReviewedPlan}
+                          onReplanFrom={handleReplanFrom}
+                          reviewEnabled={planReviewEnabled}
+                          onReviewEnabledChange={setPlanReviewEnabled}
+                          busy={isPlanning}
+                        />
+                      ) : planSteps.length > 0 ? (
                         <PlanChecklist
                           items={planSteps}
                           currentStepId={isGenerating ? currentPlanStepId : undefined}
                           embedded
+                          onRetryStep={handleRetryPlanStep}
+                          onSkipStep={handleSkipPlanStep}
+                          actionsDisabled={isGenerating || isPlanning}
                         />
                       ) : (
                         <div style={{ padding: 12, color: 'rgba(255,255,255,0.65)', fontSize: 12 }}>
@@ -6021,9 +6516,11 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
       </DrawerPanel>
 
       <OverlayScrim
-        $open={historyOpen || settingsOpen}
+        $open={historyOpen || checkpointsOpen || memoryOpen || settingsOpen}
         onClick={() => {
           setHistoryOpen(false);
+          setCheckpointsOpen(false);
+          setMemoryOpen(false);
           setSettingsOpen(false);
         }}
       />
@@ -6045,6 +6542,40 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
         </OverlayBody>
       </OverlayPanel>
 
+      <OverlayPanel $open={checkpointsOpen}>
+        <OverlayHeader>
+          <span>Checkpoints</span>
+          <button
+            type="button"
+            onClick={() => setCheckpointsOpen(false)}
+            style={{ border: 0, background: 'transparent', color: 'rgba(255,255,255,0.70)', cursor: 'pointer' }}
+            aria-label="Close checkpoints"
+          >
+            <X size={16} />
+          </button>
+        </OverlayHeader>
+        <OverlayBody>
+          <CheckpointBrowser open={checkpointsOpen} />
+        </OverlayBody>
+      </OverlayPanel>
+
+      <OverlayPanel $open={memoryOpen}>
+        <OverlayHeader>
+          <span>{t('app.memory.title')}</span>
+          <button
+            type="button"
+            onClick={() => setMemoryOpen(false)}
+            style={{ border: 0, background: 'transparent', color: 'rgba(255,255,255,0.70)', cursor: 'pointer' }}
+            aria-label={t('app.memory.close')}
+          >
+            <X size={16} />
+          </button>
+        </OverlayHeader>
+        <OverlayBody>
+          <ProjectMemoryPanel />
+        </OverlayBody>
+      </OverlayPanel>
+
       <OverlayPanel $open={settingsOpen}>
         <OverlayHeader>
           Project Settings
@@ -6235,6 +6766,58 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
                 </button>
               </div>
 
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 10 }}>
+                <div style={{ display: 'grid', gap: 2 }}>
+                  <div style={{ fontSize: 12, fontWeight: 700 }}>AI conversation summaries</div>
+                  <div style={{ fontSize: 10, color: 'rgba(255,255,255,0.55)' }}>When context runs high, ask the model to summarize older messages into decisions, file roles and open tasks.</div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => updateAppSettings({ llmConversationSummaries: !appSettings.llmConversationSummaries })}
+                  style={{
+                    minWidth: 64,
+                    height: 30,
+                    borderRadius: 999,
+                    border: '1px solid rgba(255,255,255,0.14)',
+                    background: appSettings.llmConversationSummaries ? 'rgba(34,197,94,0.2)' : 'rgba(255,255,255,0.06)',
+                    color: appSettings.llmConversationSummaries ? 'rgba(34,197,94,0.95)' : 'rgba(255,255,255,0.75)',
+                    fontWeight: 700,
+                    fontSize: 11,
+                    cursor: 'pointer'
+                  }}
+                >
+                  {appSettings.llmConversationSummaries ? 'ON' : 'OFF'}
+                </button>
+              </div>
+
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 10 }}>
+                <div style={{ display: 'grid', gap: 2 }}>
+                  <div style={{ fontSize: 12, fontWeight: 700 }}>Review AI changes</div>
+                  <div style={{ fontSize: 10, color: 'rgba(255,255,255,0.55)' }}>Hold edits, deletes and moves from edit runs in a diff review; only accepted changes are written.</div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setProjectStoreDestructiveSafetyMode(
+                      destructiveSafetyMode === 'review_changes' ? 'backup_then_apply' : 'review_changes'
+                    )
+                  }
+                  style={{
+                    minWidth: 64,
+                    height: 30,
+                    borderRadius: 999,
+                    border: '1px solid rgba(255,255,255,0.14)',
+                    background: destructiveSafetyMode === 'review_changes' ? 'rgba(34,197,94,0.2)' : 'rgba(255,255,255,0.06)',
+                    color: destructiveSafetyMode === 'review_changes' ? 'rgba(34,197,94,0.95)' : 'rgba(255,255,255,0.75)',
+                    fontWeight: 700,
+                    fontSize: 11,
+                    cursor: 'pointer'
+                  }}
+                >
+                  {destructiveSafetyMode === 'review_changes' ? 'ON' : 'OFF'}
+                </button>
+              </div>
+
               <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 10 }}>
                 <div style={{ display: 'grid', gap: 2 }}>
                   <div style={{ fontSize: 12, fontWeight: 700 }}>Multi-AI orchestration</div>
@@ -6335,11 +6918,26 @@ ${missingPaths.map((path) => `- ${path}`).join('\n')}
                 <span style={{ opacity: 0.7 }}>×</span>
               </FloatingPlanHeader>
               <FloatingPlanBody>
-                <PlanChecklist
-                  items={planSteps}
-                  currentStepId={isGenerating ? currentPlanStepId : undefined}
-                  embedded
-                />
+                {planReviewPrompt && !isGenerating && planSteps.length > 0 ? (
+                  <PlanEditor
+                    steps={planSteps}
+                    onChange={setPlanSteps}
+                    onExecute={handleExecuteReviewedPlan}
+                    onReplanFrom={handleReplanFrom}
+                    reviewEnabled={planReviewEnabled}
+                    onReviewEnabledChange={setPlanReviewEnabled}
+                    busy={isPlanning}
+                  />
+                ) : (
+                  <PlanChecklist
+                    items={planSteps}
+                    currentStepId={isGenerating ? currentPlanStepId : undefined}
+                    embedded
+                    onRetryStep={handleRetryPlanStep}
+                    onSkipStep={handleSkipPlanStep}
+                    actionsDisabled={isGenerating || isPlanning}
+                  />
+                )}
               </FloatingPlanBody>
             </FloatingPlanPanel>
           ) : (
@@ -0,0 +1,364 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import styled from 'styled-components';
+import { ChevronDown, ChevronRight, Clock, FileCode2, RotateCcw } from 'lucide-react';
+import { useAIStore } from '@/stores/aiStore';
+import { useProjectStore } from '@/stores/projectStore';
+import type { WorkspaceCheckpointRecord } from '@/utils/workspaceDb';
+import {
+  collapseLineDiff,
+  diffLines,
+  diffWorkspaceFiles,
+  type WorkspaceFileDiff,
+  type WorkspaceFileDiffStatus
+} from '@/utils/workspaceDiff';
+
+const Wrapper = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 10px;
+  padding: 12px;
+`;
+
+const SectionLabel = styled.div`
+  font-size: 10px;
+  font-weight: 800;
+  letter-spacing: 0.12em;
+  text-transform: uppercase;
+  color: rgba(255, 255, 255, 0.38);
+  padding: 0 2px;
+`;
+
+const Timeline = styled.div`
+  display: grid;
+  gap: 6px;
+`;
+
+const CheckpointCard = styled.button<{ $active?: boolean }>`
+  width: 100%;
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  padding: 9px 12px;
+  border-radius: 12px;
+  border: 1px solid ${(p) => (p.$active ? 'rgba(34, 211, 238, 0.35)' : 'rgba(255, 255, 255, 0.07)')};
+  background: ${(p) => (p.$active ? 'rgba(34, 211, 238, 0.08)' : 'rgba(255, 255, 255, 0.03)')};
+  color: rgba(255, 255, 255, 0.9);
+  text-align: left;
+  cursor: pointer;
+  transition: background 160ms ease, border-color 160ms ease;
+
+  &:hover {
+    background: rgba(255, 255, 255, 0.065);
+    border-color: rgba(34, 211, 238, 0.2);
+  }
+`;
+
+const CheckpointLabel = styled.div`
+  flex: 1;
+  min-width: 0;
+  font-size: 12px;
+  font-weight: 700;
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+`;
+
+const MetaChip = styled.span`
+  display: inline-flex;
+  align-items: center;
+  gap: 4px;
+  font-size: 10.5px;
+  color: rgba(255, 255, 255, 0.42);
+  flex-shrink: 0;
+`;
+
+const ActionRow = styled.div`
+  display: flex;
+  gap: 8px;
+`;
+
+const ActionButton = styled.button`
+  flex: 1;
+  height: 32px;
+  border-radius: 10px;
+  border: 1px solid rgba(34, 211, 238, 0.2);
+  background: rgba(34, 211, 238, 0.07);
+  color: rgba(255, 255, 255, 0.85);
+  font-size: 11px;
+  font-weight: 800;
+  letter-spacing: 0.07em;
+  text-transform: uppercase;
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  gap: 7px;
+  cursor: pointer;
+
+  &:hover:not(:disabled) {
+    border-color: rgba(34, 211, 238, 0.45);
+    background: rgba(34, 211, 238, 0.14);
+  }
+
+  &:disabled {
+    opacity: 0.45;
+    cursor: not-allowed;
+  }
+`;
+
+const FileRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 6px 8px;
+  border-radius: 9px;
+  background: rgba(255, 255, 255, 0.025);
+  font-size: 12px;
+  color: rgba(255, 255, 255, 0.82);
+`;
+
+const FileToggle = styled.button`
+  flex: 1;
+  min-width: 0;
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  border: 0;
+  background: transparent;
+  color: inherit;
+  font-family: 'JetBrains Mono', monospace;
+  font-size: 12px;
+  text-align: left;
+  cursor: pointer;
+
+  & span {
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+`;
+
+const STATUS_COLORS: Record<WorkspaceFileDiffStatus, string> = {
+  added: 'rgba(74, 222, 128, 0.9)',
+  removed: 'rgba(248, 113, 113, 0.9)',
+  modified: 'rgba(251, 191, 36, 0.9)',
+  unchanged: 'rgba(255, 255, 255, 0.4)'
+};
+
+const StatusBadge = styled.span<{ $status: WorkspaceFileDiffStatus }>`
+  font-size: 9px;
+  font-weight: 800;
+  letter-spacing: 0.06em;
+  text-transform: uppercase;
+  color: ${(p) => STATUS_COLORS[p.$status]};
+  flex-shrink: 0;
+`;
+
+const DiffView = styled.pre`
+  margin: 0 0 4px;
+  max-height: 320px;
+  overflow: auto;
+  border-radius: 9px;
+  border: 1px solid rgba(255, 255, 255, 0.06);
+  background: rgba(0, 0, 0, 0.3);
+  font-family: 'JetBrains Mono', monospace;
+  font-size: 11px;
+  line-height: 1.5;
+`;
+
+const DiffLine = styled.div<{ $type: 'equal' | 'insert' | 'delete' | 'skip' }>`
+  padding: 0 8px;
+  white-space: pre;
+  color: ${(p) =>
+    p.$type === 'insert'
+      ? 'rgba(134, 239, 172, 0.95)'
+      : p.$type === 'delete'
+        ? 'rgba(252, 165, 165, 0.95)'
+        : p.$type === 'skip'
+          ? 'rgba(255, 255, 255, 0.35)'
+          : 'rgba(255, 255, 255, 0.6)'};
+  background: ${(p) =>
+    p.$type === 'insert' ? 'rgba(34, 197, 94, 0.1)' : p.$type === 'delete' ? 'rgba(239, 68, 68, 0.1)' : 'transparent'};
+`;
+
+const EmptyState = styled.div`
+  padding: 24px 16px;
+  border-radius: 14px;
+  border: 1px dashed rgba(255, 255, 255, 0.1);
+  background: rgba(255, 255, 255, 0.02);
+  color: rgba(255, 255, 255, 0.38);
+  font-size: 12px;
+  text-align: center;
+  line-height: 1.6;
+`;
+
+const STATUS_LABELS: Record<WorkspaceFileDiffStatus, string> = {
+  added: 'new',
+  removed: 'deleted',
+  modified: 'changed',
+  unchanged: 'same'
+};
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'medium' });
+
+const FileDiff: React.FC<{ diff: WorkspaceFileDiff }> = ({ diff }) => {
+  const rows = useMemo(() => collapseLineDiff(diffLines(diff.before ?? '', diff.after ?? '')), [diff.before, diff.after]);
+  return (
+    <DiffView className="scrollbar-thin scrollbar-glass">
+      {rows.map((row, index) =>
+        row.type === 'skip' ? (
+          <DiffLine key={index} $type="skip">
+            {`⋯ ${row.count} unchanged line${row.count === 1 ? '' : 's'}`}
+          </DiffLine>
+        ) : (
+          <DiffLine key={index} $type={row.type}>
+            {`${row.type === 'insert' ? '+' : row.type === 'delete' ? '-' : ' '} ${row.text}`}
+          </DiffLine>
+        )
+      )}
+    </DiffView>
+  );
+};
+
+export interface CheckpointBrowserProps {
+  open: boolean;
+}
+
+export const CheckpointBrowser: React.FC<CheckpointBrowserProps> = ({ open }) => {
+  const projectId = useProjectStore((state) => state.projectId);
+  const liveFiles = useProjectStore((state) => state.files);
+  const isGenerating = useAIStore((state) => state.isGenerating);
+  const [checkpoints, setCheckpoints] = useState<WorkspaceCheckpointRecord[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [expandedPath, setExpandedPath] = useState<string | null>(null);
+  const [pickedPaths, setPickedPaths] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    const records = await useProjectStore.getState().listCheckpoints();
+    setCheckpoints(records);
+    setSelectedId((current) => (current && records.some((record) => record.id === current) ? current : records[0]?.id || null));
+  }, []);
+
+  useEffect(() => {
+    if (open) void refresh();
+  }, [open, projectId, refresh]);
+
+  useEffect(() => {
+    setPickedPaths(new Set());
+    setExpandedPath(null);
+  }, [selectedId]);
+
+  const selected = checkpoints.find((record) => record.id === selectedId) || null;
+  const diffs = useMemo(
+    () => (open && selected ? diffWorkspaceFiles(selected.files, liveFiles) : []),
+    [open, selected, liveFiles]
+  );
+  const changed = diffs.filter((diff) => diff.status !== 'unchanged');
+
+  const togglePicked = (path: string) => {
+    setPickedPaths((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const restore = async (paths?: string[]) => {
+    if (!selected) return;
+    setBusy(true);
+    try {
+      await useProjectStore.getState().restoreCheckpoint(selected.id, paths);
+      setPickedPaths(new Set());
+    } finally {
+      setBusy(false);
+      await refresh();
+    }
+  };
+
+  const handleRestoreAll = () => {
+    if (!selected) return;
+    if (!window.confirm(`Restore every file to "${selected.label}"? A checkpoint of the current state is saved first.`)) return;
+    void restore();
+  };
+
+  if (!projectId || checkpoints.length === 0) {
+    return (
+      <Wrapper>
+        <EmptyState>
+          No checkpoints yet.
+          <br />
+          One is saved before every generation run and plan step.
+        </EmptyState>
+      </Wrapper>
+    );
+  }
+
+  const locked = busy || isGenerating;
+
+  return (
+    <Wrapper>
+      <SectionLabel>Checkpoints — {checkpoints.length}</SectionLabel>
+      <Timeline>
+        {checkpoints.map((record) => (
+          <CheckpointCard key={record.id} type="button" $active={record.id === selectedId} onClick={() => setSelectedId(record.id)}>
+            <CheckpointLabel>{record.label}</CheckpointLabel>
+            <MetaChip>
+              <FileCode2 size={10} />
+              {record.files.length}
+            </MetaChip>
+            <MetaChip>
+              <Clock size={10} />
+              {formatTimestamp(record.updatedAt)}
+            </MetaChip>
+          </CheckpointCard>
+        ))}
+      </Timeline>
+
+      {selected && (
+        <>
+          <SectionLabel>
+            Changes since checkpoint — {changed.length} of {diffs.length} files
+          </SectionLabel>
+          <ActionRow>
+            <ActionButton type="button" disabled={locked || pickedPaths.size === 0} onClick={() => void restore(Array.from(pickedPaths))}>
+              <RotateCcw size={12} />
+              Restore selected ({pickedPaths.size})
+            </ActionButton>
+            <ActionButton type="button" disabled={locked || changed.length === 0} onClick={handleRestoreAll}>
+              <RotateCcw size={12} />
+              Restore all
+            </ActionButton>
+          </ActionRow>
+          {changed.length === 0 ? (
+            <EmptyState>The workspace matches this checkpoint.</EmptyState>
+          ) : (
+            changed.map((diff) => (
+              <React.Fragment key={diff.path}>
+                <FileRow>
+                  <input
+                    type="checkbox"
+                    checked={pickedPaths.has(diff.path)}
+                    onChange={() => togglePicked(diff.path)}
+                    disabled={locked}
+                    aria-label={`Select ${diff.path}`}
+                  />
+                  <FileToggle type="button" onClick={() => setExpandedPath((current) => (current === diff.path ? null : diff.path))}>
+                    {expandedPath === diff.path ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                    <span>{diff.path}</span>
+                  </FileToggle>
+                  <MetaChip>
+                    +{diff.additions} −{diff.deletions}
+                  </MetaChip>
+                  <StatusBadge $status={diff.status}>{STATUS_LABELS[diff.status]}</StatusBadge>
+                </FileRow>
+                {expandedPath === diff.path && <FileDiff diff={diff} />}
+              </React.Fragment>
+            ))
+          )}
+        </>
+      )}
+    </Wrapper>
+  );
+};
@@ -2,10 +2,12 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import Editor, { Monaco, OnMount } from '@monaco-editor/react';
 import { useProjectStore } from '@/stores/projectStore';
 import { useAIStore } from '@/stores/aiStore';
+import { useJournalStore } from '@/stores/journalStore';
+import { useEditorStore } from '@/stores/editorStore';
 import { shallow } from 'zustand/shallow';
 import { GlassCard } from './GlassCard';
 import { FileTree } from './FileTree';
-import { Play, Download, Sparkles, FolderOpen, X } from 'lucide-react';
+import { Play, Download, Sparkles, FolderOpen, X, ArrowLeft, ArrowRight, Columns, Pin, AlertTriangle } from 'lucide-react';
 import { downloadService } from '@/services/downloadService';
 import { usePreviewStore } from '@/stores/previewStore';
 import { getLanguageFromExtension } from '@/utils/stackDetector';
@@ -13,6 +15,8 @@ import type * as monaco from 'monaco-editor';
 import { useEditorAutoFollow } from '@/hooks/useEditorAutoFollow';
 import { useStreamingEditorBridge } from '@/hooks/useStreamingEditorBridge';
 import { LanguageIconBadge } from '@/components/files/LanguageIconBadge';
+import { BinaryAssetPreview } from '@/components/files/BinaryAssetPreview';
+import { SplitEditorPane, SplitPaneHeader } from '@/components/Editor/SplitEditorPane';
 import { Content, Description, Heading, Popover, Trigger } from '@/components/ui/InstructionPopover';
 
 interface CodeEditorProps {
@@ -39,9 +43,26 @@ const EDITOR_UI_TEXT = {
   autoFollow: 'Auto-follow',
   pausedFollow: 'Paused follow',
   thinking: 'Thinking',
-  fast: 'Fast'
+  fast: 'Fast',
+  back: 'Go back (Alt+Left)',
+  forward: 'Go forward (Alt+Right)',
+  splitEditor: 'Split editor',
+  closeSplit: 'Close split',
+  pin: 'Pin tab',
+  unpin: 'Unpin tab',
+  close: 'Close',
+  closeOthers: 'Close others',
+  openToSide: 'Open to the side',
+  unsaved: 'Unsaved changes',
+  noOpenTabs: 'No open editors. Pick a file from the file tree.',
+  emptyPane: 'No file in this pane',
+  conflictTitle: 'The AI rewrote this file while you had unsaved edits.',
+  keepAiVersion: 'Keep AI version',
+  restoreMyEdits: 'Restore my edits'
 } as const;
 
+type TabMenuState = { x: number; y: number; path: string };
+
 const sanitizeEditorContent = (
   raw: string,
   options?: { trimOuterEmptyLines?: boolean }
@@ -92,11 +113,31 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ showFileTree = true, isV
   const editorDisposablesRef = useRef<Array<{ dispose: () => void }>>([]);
   const autoPickedNonEmptyRef = useRef(false);
   const editorViewportRef = useRef<HTMLDivElement | null>(null);
+  const lastSyncedPathRef = useRef('');
 
   const { syncValueToEditor, resetBridge } = useStreamingEditorBridge();
   const { followState, notifyContentAppended } = useEditorAutoFollow(mountedEditor);
 
-  const currentFile = files.find((f) => (f.path || f.name) === activeFile);
+  const openTabs = useEditorStore((state) => state.openFiles);
+  const isSplit = useEditorStore((state) => state.isSplit);
+  const focusedPane = useEditorStore((state) => state.focusedPane);
+  const paneFileIds = useEditorStore((state) => state.paneFileIds);
+  const conflicts = useEditorStore((state) => state.conflicts);
+  const canGoBack = useEditorStore((state) => state.currentHistoryIndex > 0);
+  const canGoForward = useEditorStore((state) => state.currentHistoryIndex < state.history.length - 1);
+  const hasNavigated = useEditorStore((state) => state.history.length > 0);
+  const [tabMenu, setTabMenu] = useState<TabMenuState | null>(null);
+  const splitView = isSplit && !isMobileViewport;
+  // The main pane shows the active file unless the split's right pane has focus.
+  const editorPath = splitView && focusedPane === 'secondary' ? paneFileIds.primary : activeFile;
+  const secondaryPath = splitView ? (focusedPane === 'secondary' ? activeFile : paneFileIds.secondary) : null;
+  const editorPathRef = useRef(editorPath);
+  useEffect(() => {
+    editorPathRef.current = editorPath;
+  }, [editorPath]);
+  const activeConflict = activeFile ? conflicts[activeFile] : undefined;
+
+  const currentFile = files.find((f) => (f.path || f.name) === editorPath);
   const currentFilePath = currentFile?.path || currentFile?.name || '';
   const showSvgSource = Boolean(svgSourcePath && svgSourcePath === currentFilePath);
   const currentFileName = currentFilePath ? currentFilePath.split('/').pop() || currentFilePath : '';
@@ -108,7 +149,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ showFileTree = true, isV
   const isStreamingView =
     isGenerating &&
     streamText.length > 0 &&
-    (!currentFile || (currentFile.content || '').length === 0);
+    (!currentFile || (!currentFile.blob && (currentFile.content || '').length === 0));
 
   const sourceEditorValue = isStreamingView ? streamText : currentFile?.content ?? '';
 
@@ -139,24 +180,19 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ showFileTree = true, isV
     return isPlanning ? 'AI planning files' : 'AI preparing files';
   }, [isGenerating, isPlanning, queuedFilePaths, writingFilePath]);
 
-  const tabPaths = useMemo(() => {
-    const unique = Array.from(new Set(files.map((f) => f.path || f.name).filter(Boolean)));
-    if (!activeFile || !unique.includes(activeFile)) return unique;
-    return [activeFile, ...unique.filter((p) => p !== activeFile)];
-  }, [files, activeFile]);
   const nonEmptyFileCandidates = useMemo(
     () =>
       files.filter((file) => {
         const path = (file.path || file.name || '').toLowerCase();
         const content = String(file.content || '');
-        if (content.trim().length === 0) return false;
+        if (file.blob || content.trim().length === 0) return false;
         if (path.startsWith('backend/')) return false;
         if (!/\.(html?|css|js|jsx|ts|tsx|json|md|svg)$/i.test(path)) return false;
         return true;
       }),
     [files]
   );
-  const isCurrentFileEmpty = Boolean(currentFile && String(currentFile.content || '').trim().length === 0);
+  const isCurrentFileEmpty = Boolean(currentFile && !currentFile.blob && String(currentFile.content || '').trim().length === 0);
 
   const modeLabel = useMemo(() => {
     if (modelMode === 'thinking') return EDITOR_UI_TEXT.thinking;
@@ -200,6 +236,8 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ showFileTree = true, isV
     if (files.length === 0) return;
     const activeExists = Boolean(activeFile && files.some((file) => (file.path || file.name) === activeFile));
     if (activeExists) return;
+    // Closing the last tab leaves no active file on purpose.
+    if (!activeFile && hasNavigated) return;
     const preferredFile =
       files.find((file) => {
         const path = (file.path || file.name || '').toLowerCase();
@@ -213,7 +251,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ showFileTree = true, isV
       files[0];
     const nextPath = preferredFile.path || preferredFile.name;
     if (nextPath) setActiveFile(nextPath);
-  }, [activeFile, files, nonEmptyFileCandidates, setActiveFile]);
+  }, [activeFile, files, hasNavigated, nonEmptyFileCandidates, setActiveFile]);
 
   useEffect(() => {
     if (autoPickedNonEmptyRef.current) return;
@@ -242,10 +280,18 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ showFileTree = true, isV
       return;
     }
 
+    // Journal undo/redo on the file already in the model stays on Monaco's own undo stack.
+    const undoable =
+      !isStreamingView &&
+      lastSyncedPathRef.current === currentFilePath &&
+      useJournalStore.getState().consumeMirror(currentFilePath, sourceEditorValue);
+    lastSyncedPathRef.current = isStreamingView ? '' : currentFilePath;
+
     setEditorRenderValue(sourceEditorValue);
-    syncValueToEditor(mountedEditor, sourceEditorValue, { preferIncremental: false });
+    syncValueToEditor(mountedEditor, sourceEditorValue, { preferIncremental: false, undoable });
     resetBridge(sourceEditorValue);
   }, [
+    currentFilePath,
     isActiveWritingFile,
     isGenerating,
     isStreamingView,
@@ -256,6 +302,32 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ showFileTree = true, isV
     syncValueToEditor
   ]);
 
+  useEffect(() => {
+    if (!tabMenu) return;
+    const close = () => setTabMenu(null);
+    const onKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') close();
+    };
+    window.addEventListener('mousedown', close);
+    window.addEventListener('keydown', onKey);
+    return () => {
+      window.removeEventListener('mousedown', close);
+      window.removeEventListener('keydown', onKey);
+    };
+  }, [tabMenu]);
+
+  const revealTarget = useEditorStore((state) => state.revealTarget);
+  const lastRevealSeqRef = useRef(0);
+  useEffect(() => {
+    if (!mountedEditor || !revealTarget || isStreamingView || revealTarget.path !== currentFilePath) return;
+    if (lastRevealSeqRef.current === revealTarget.seq) return;
+    lastRevealSeqRef.current = revealTarget.seq;
+    const position = { lineNumber: revealTarget.line, column: revealTarget.column };
+    mountedEditor.setPosition(position);
+    mountedEditor.revealPositionInCenter(position);
+    mountedEditor.focus();
+  }, [currentFilePath, isStreamingView, mountedEditor, revealTarget, sourceEditorValue]);
+
   useEffect(() => {
     if (!mountedEditor || !isVisible) return;
     const raf1 = window.requestAnimationFrame(() => {
@@ -272,7 +344,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ showFileTree = true, isV
       window.cancelAnimationFrame(raf2);
       window.clearTimeout(timer);
     };
-  }, [activeFile, isVisible, mountedEditor]);
+  }, [editorPath, isVisible, mountedEditor, splitView]);
 
   useEffect(() => {
     if (!mountedEditor || !isVisible) return;
@@ -304,13 +376,17 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ showFileTree = true, isV
     editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => {
       editor.getAction('editor.action.formatDocument')?.run();
       const model = editor.getModel();
-      if (!model || !activeFile) return;
+      const path = editorPathRef.current;
+      if (!model || !path) return;
       const sanitized = sanitizeEditorContent(model.getValue(), { trimOuterEmptyLines: true });
       if (sanitized !== model.getValue()) {
         editor.setValue(sanitized);
       }
-      updateFile(activeFile, sanitized);
+      updateFile(path, sanitized);
+      useEditorStore.getState().markSaved(path, sanitized);
     });
+    editor.addCommand(monaco.KeyMod.Alt | monaco.KeyCode.LeftArrow, () => useEditorStore.getState().goBack());
+    editor.addCommand(monaco.KeyMod.Alt | monaco.KeyCode.RightArrow, () => useEditorStore.getState().goForward());
   };
 
   useEffect(() => {
@@ -330,6 +406,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ showFileTree = true, isV
         line: pos?.lineNumber || 1,
         column: pos?.column || 1
       });
+      if (editorPath && pos) useEditorStore.getState().notePosition(editorPath, pos.lineNumber);
     };
 
     const updateModelStats = () => {
@@ -347,13 +424,13 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ showFileTree = true, isV
       mountedEditor.onDidChangeModelContent(updateModelStats),
       mountedEditor.onDidBlurEditorText(() => {
         const model = mountedEditor.getModel();
-        if (!model || !activeFile) return;
+        if (!model || !editorPath) return;
         const current = model.getValue();
         const sanitized = sanitizeEditorContent(current, { trimOuterEmptyLines: true });
         if (sanitized !== current) {
           mountedEditor.setValue(sanitized);
         }
-        updateFile(activeFile, sanitized);
+        updateFile(editorPath, sanitized);
       })
     );
 
@@ -367,7 +444,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ showFileTree = true, isV
       });
       editorDisposablesRef.current = [];
     };
-  }, [activeFile, mountedEditor, updateFile]);
+  }, [editorPath, mountedEditor, updateFile]);
 
   useEffect(() => {
     const fallbackContent = sourceEditorValue || '';
@@ -448,7 +525,27 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ showFileTree = true, isV
       .map((line) => line.replace(/[ \t]+$/g, ''))
       .join('\n');
     setEditorRenderValue(cleaned);
-    if (activeFile) updateFile(activeFile, cleaned);
+    if (!editorPath) return;
+    updateFile(editorPath, cleaned);
+    useEditorStore.getState().noteUserEdit(editorPath, cleaned);
+  };
+
+  const handleSecondaryChange = (path: string, value: string) => {
+    if (isGenerating && writingFilePath === path) return;
+    // Trailing whitespace is left alone here: the pane is controlled by the store value and trimming would eat typed spaces.
+    const cleaned = value.replace(/\r\n/g, '\n');
+    updateFile(path, cleaned);
+    useEditorStore.getState().noteUserEdit(path, cleaned);
+  };
+
+  const openTabMenu = (event: React.MouseEvent, path: string) => {
+    event.preventDefault();
+    setTabMenu({ x: event.clientX, y: event.clientY, path });
+  };
+
+  const runTabMenuAction = (action: () => void) => {
+    setTabMenu(null);
+    action();
   };
 
   const handleRun = () => {
@@ -592,117 +689,275 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ showFileTree = true, isV
           </div>
 
           <div
-            className={`border-b border-white/10 bg-black/10 flex items-center overflow-x-auto scrollbar-thin ${
-              isMobileViewport ? 'h-8' : 'h-10'
-            } flex-row`}
+            className={`border-b border-white/10 bg-black/10 flex items-center ${isMobileViewport ? 'h-8' : 'h-10'} flex-row`}
           >
-              {tabPaths.map((path) => {
-                const active = activeFile === path;
-                const lang = getLanguageFromExtension(path);
+            <div className="flex-1 min-w-0 h-full flex items-center overflow-x-auto scrollbar-thin">
+              {openTabs.map((tab) => {
+                const active = activeFile === tab.path;
+                const visible = active || (splitView && (tab.path === editorPath || tab.path === secondaryPath));
                 return (
-                  <button
-                    key={path}
-                    type="button"
-                    onClick={() => setActiveFile(path)}
-                    className={`h-full whitespace-nowrap border-r border-white/8 transition-colors inline-flex items-center gap-2 ${
-                      isMobileViewport ? 'px-2 text-[10.5px]' : 'px-3 text-xs'
+                  <div
+                    key={tab.path}
+                    role="tab"
+                    aria-selected={active}
+                    title={tab.path}
+                    onClick={() => useEditorStore.getState().openFile(tab.path)}
+                    onMouseDown={(event) => {
+                      if (event.button !== 1 || tab.pinned) return;
+                      event.preventDefault();
+                      useEditorStore.getState().closeFile(tab.path);
+                    }}
+                    onContextMenu={(event) => openTabMenu(event, tab.path)}
+                    className={`group h-full whitespace-nowrap border-r border-white/8 transition-colors inline-flex items-center gap-2 cursor-pointer ${
+                      isMobileViewport ? 'pl-2 pr-1 text-[10.5px]' : 'pl-3 pr-1.5 text-xs'
                     } ${
-                      active ? 'text-cyan-300 bg-cyan-400/10' : 'text-white/55 hover:text-white/85 hover:bg-white/5'
+                      active
+                        ? 'text-cyan-300 bg-cyan-400/10'
+                        : visible
+                          ? 'text-white/80 bg-white/5'
+                          : 'text-white/55 hover:text-white/85 hover:bg-white/5'
                     }`}
                   >
-                    <LanguageIconBadge size="sm" language={lang} />
-                    <span className={isMobileViewport ? 'max-w-[110px] truncate' : ''}>{path.split('/').pop()}</span>
-                  </button>
+                    <LanguageIconBadge size="sm" language={tab.language} />
+                    <span className={`${isMobileViewport ? 'max-w-[110px] truncate' : ''} ${tab.pinned ? 'italic' : ''}`}>
+                      {tab.name}
+                    </span>
+                    {conflicts[tab.path] ? <AlertTriangle className="w-3 h-3 text-amber-300" /> : null}
+                    <button
+                      type="button"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        const editor = useEditorStore.getState();
+                        if (tab.pinned) editor.togglePin(tab.path);
+                        else editor.closeFile(tab.path);
+                      }}
+                      title={tab.pinned ? EDITOR_UI_TEXT.unpin : tab.isModified ? EDITOR_UI_TEXT.unsaved : EDITOR_UI_TEXT.close}
+                      aria-label={tab.pinned ? EDITOR_UI_TEXT.unpin : EDITOR_UI_TEXT.close}
+                      className="h-5 w-5 rounded inline-flex items-center justify-center text-white/60 hover:text-white hover:bg-white/10"
+                    >
+                      {tab.pinned ? (
+                        <Pin className="w-3 h-3" />
+                      ) : tab.isModified ? (
+                        <>
+                          <span className="w-2 h-2 rounded-full bg-white/70 group-hover:hidden" />
+                          <X className="w-3 h-3 hidden group-hover:block" />
+                        </>
+                      ) : (
+                        <X className={`w-3 h-3 ${active ? '' : 'opacity-0 group-hover:opacity-100'}`} />
+                      )}
+                    </button>
+                  </div>
                 );
               })}
-          </div>
-
-          <div className="flex-1 overflow-hidden min-h-0 bg-[#0a0a0f] relative">
-            {shouldRenderSvgPreview ? (
-              <div className="h-full w-full flex flex-col items-center justify-center gap-4 px-4">
-                <div className="text-xs uppercase tracking-[0.12em] text-white/55 font-semibold">SVG Visual</div>
-                <div className="rounded-2xl border border-white/15 bg-white/5 p-6 max-w-full max-h-[60%] overflow-auto">
-                  <img
-                    src={svgDataUrl}
-                    alt={currentFileName || 'SVG preview'}
-                    className="max-w-full max-h-[240px] md:max-h-[320px] object-contain"
-                  />
-                </div>
+            </div>
+            <div className="shrink-0 h-full flex items-center gap-1 px-1.5 border-l border-white/10">
+              <button
+                type="button"
+                onClick={() => useEditorStore.getState().goBack()}
+                disabled={!canGoBack}
+                title={EDITOR_UI_TEXT.back}
+                aria-label={EDITOR_UI_TEXT.back}
+                className="h-7 w-7 rounded-md inline-flex items-center justify-center text-white/70 hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <ArrowLeft className="w-3.5 h-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => useEditorStore.getState().goForward()}
+                disabled={!canGoForward}
+                title={EDITOR_UI_TEXT.forward}
+                aria-label={EDITOR_UI_TEXT.forward}
+                className="h-7 w-7 rounded-md inline-flex items-center justify-center text-white/70 hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <ArrowRight className="w-3.5 h-3.5" />
+              </button>
+              {!isMobileViewport ? (
                 <button
                   type="button"
-                  onClick={() => setSvgSourcePath(currentFilePath)}
-                  className="h-8 px-3 rounded-md border border-white/20 bg-white/10 text-white/80 text-xs font-semibold hover:bg-white/15"
+                  onClick={() => useEditorStore.getState().toggleSplit()}
+                  disabled={!activeFile}
+                  title={splitView ? EDITOR_UI_TEXT.closeSplit : EDITOR_UI_TEXT.splitEditor}
+                  aria-label={splitView ? EDITOR_UI_TEXT.closeSplit : EDITOR_UI_TEXT.splitEditor}
+                  aria-pressed={splitView}
+                  className={`h-7 w-7 rounded-md inline-flex items-center justify-center hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed ${
+                    splitView ? 'text-cyan-300 bg-cyan-400/10' : 'text-white/70'
+                  }`}
                 >
-                  View SVG Code
+                  <Columns className="w-3.5 h-3.5" />
                 </button>
-              </div>
-            ) : isStreamingView || currentFile ? (
-              <>
-                {isCurrentFileEmpty && nonEmptyFileCandidates.length > 0 ? (
-                  <div className="absolute left-3 right-3 top-3 z-20 rounded-lg border border-amber-300/25 bg-amber-300/10 px-3 py-2">
-                    <div className="text-[11px] font-semibold text-amber-100/90">
-                      Current file is empty. Open a file with code:
-                    </div>
-                    <div className="mt-2 flex flex-wrap items-center gap-2">
-                      {nonEmptyFileCandidates.slice(0, 3).map((candidate) => {
-                        const path = candidate.path || candidate.name || '';
-                        return (
-                          <button
-                            key={path}
-                            type="button"
-                            onClick={() => setActiveFile(path)}
-                            className="h-7 px-2 rounded-md border border-white/20 bg-black/40 text-[11px] text-white/90"
-                          >
-                            {path.split('/').pop()}
-                          </button>
-                        );
-                      })}
+              ) : null}
+            </div>
+          </div>
+
+          {tabMenu ? (
+            <div
+              className="fixed z-50 min-w-[170px] rounded-lg border border-white/10 bg-[#11131a] p-1 shadow-2xl"
+              style={{ left: tabMenu.x, top: tabMenu.y }}
+              onMouseDown={(event) => event.stopPropagation()}
+              onContextMenu={(event) => event.preventDefault()}
+            >
+              {(() => {
+                const editor = useEditorStore.getState();
+                const pinned = openTabs.some((tab) => tab.path === tabMenu.path && tab.pinned);
+                const items: Array<{ label: string; action: () => void; hidden?: boolean }> = [
+                  { label: pinned ? EDITOR_UI_TEXT.unpin : EDITOR_UI_TEXT.pin, action: () => editor.togglePin(tabMenu.path) },
+                  { label: EDITOR_UI_TEXT.close, action: () => editor.closeFile(tabMenu.path) },
+                  { label: EDITOR_UI_TEXT.closeOthers, action: () => editor.closeOthers(tabMenu.path) },
+                  { label: EDITOR_UI_TEXT.openToSide, action: () => editor.openToSide(tabMenu.path), hidden: isMobileViewport }
+                ];
+                return items
+                  .filter((item) => !item.hidden)
+                  .map((item) => (
+                    <button
+                      key={item.label}
+                      type="button"
+                      onClick={() => runTabMenuAction(item.action)}
+                      className="w-full text-left px-3 py-1.5 text-xs rounded-md text-white/85 hover:bg-white/10"
+                    >
+                      {item.label}
+                    </button>
+                  ));
+              })()}
+            </div>
+          ) : null}
+
+          {activeConflict ? (
+            <div className="border-b border-amber-300/25 bg-amber-300/10 px-3 py-2 flex flex-wrap items-center gap-2">
+              <AlertTriangle className="w-4 h-4 text-amber-200 shrink-0" />
+              <span className="text-[11px] font-semibold text-amber-100/90 flex-1 min-w-[180px]">
+                {EDITOR_UI_TEXT.conflictTitle}
+              </span>
+              <button
+                type="button"
+                onClick={() => useEditorStore.getState().resolveConflict(activeConflict.path, 'theirs')}
+                disabled={writingFilePath === activeConflict.path}
+                className="h-7 px-2 rounded-md border border-white/20 bg-black/40 text-[11px] text-white/90 disabled:opacity-50"
+              >
+                {EDITOR_UI_TEXT.keepAiVersion}
+              </button>
+              <button
+                type="button"
+                onClick={() => useEditorStore.getState().resolveConflict(activeConflict.path, 'mine')}
+                disabled={writingFilePath === activeConflict.path}
+                className="h-7 px-2 rounded-md border border-amber-200/40 bg-amber-200/15 text-[11px] text-amber-50 disabled:opacity-50"
+              >
+                {EDITOR_UI_TEXT.restoreMyEdits}
+              </button>
+            </div>
+          ) : null}
+
+          <div className="flex-1 overflow-hidden min-h-0 bg-[#0a0a0f] relative flex flex-row">
+            <div
+              className={`flex-1 min-w-0 min-h-0 flex flex-col ${splitView ? 'border-r border-white/10' : ''}`}
+              onMouseDownCapture={splitView ? () => useEditorStore.getState().focusPane('primary') : undefined}
+              onFocusCapture={splitView ? () => useEditorStore.getState().focusPane('primary') : undefined}
+            >
+              {splitView ? <SplitPaneHeader path={editorPath} focused={focusedPane === 'primary'} /> : null}
+              <div className="flex-1 min-h-0 relative">
+                {currentFile?.blob && !isStreamingView ? (
+                  <BinaryAssetPreview path={currentFilePath} blob={currentFile.blob} />
+                ) : shouldRenderSvgPreview ? (
+                  <div className="h-full w-full flex flex-col items-center justify-center gap-4 px-4">
+                    <div className="text-xs uppercase tracking-[0.12em] text-white/55 font-semibold">SVG Visual</div>
+                    <div className="rounded-2xl border border-white/15 bg-white/5 p-6 max-w-full max-h-[60%] overflow-auto">
+                      <img
+                        src={svgDataUrl}
+                        alt={currentFileName || 'SVG preview'}
+                        className="max-w-full max-h-[240px] md:max-h-[320px] object-contain"
+                      />
                     </div>
-                  </div>
-                ) : null}
-                {isSvgFile && svgDataUrl && !isStreamingView && !isActiveWritingFile && showSvgSource ? (
-                  <div className="absolute top-3 right-3 z-20">
                     <button
                       type="button"
-                      onClick={() => setSvgSourcePath(null)}
-                      className="h-8 px-3 rounded-md border border-white/20 bg-black/55 text-white/80 text-xs font-semibold hover:bg-black/70"
+                      onClick={() => setSvgSourcePath(currentFilePath)}
+                      className="h-8 px-3 rounded-md border border-white/20 bg-white/10 text-white/80 text-xs font-semibold hover:bg-white/15"
                     >
-                      Show SVG Visual
+                      View SVG Code
                     </button>
                   </div>
-                ) : null}
-                <div
-                  ref={editorViewportRef}
-                  className="h-full w-full min-h-0"
-                  style={isMobileViewport ? { minHeight: isCompactMobile ? 260 : 300 } : undefined}
-                >
-                  <Editor
-                    height="100%"
-                    language={isStreamingView ? 'markdown' : currentFileLanguage}
-                    value={editorRenderValue}
-                    onChange={handleEditorChange}
-                    onMount={handleEditorDidMount}
-                    theme="vs-dark"
-                    options={editorOptions}
-                    loading={
-                      <div className="flex items-center justify-center h-full">
-                        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cyan-500" />
+                ) : isStreamingView || currentFile ? (
+                  <>
+                    {isCurrentFileEmpty && nonEmptyFileCandidates.length > 0 ? (
+                      <div className="absolute left-3 right-3 top-3 z-20 rounded-lg border border-amber-300/25 bg-amber-300/10 px-3 py-2">
+                        <div className="text-[11px] font-semibold text-amber-100/90">
+                          Current file is empty. Open a file with code:
+                        </div>
+                        <div className="mt-2 flex flex-wrap items-center gap-2">
+                          {nonEmptyFileCandidates.slice(0, 3).map((candidate) => {
+                            const path = candidate.path || candidate.name || '';
+                            return (
+                              <button
+                                key={path}
+                                type="button"
+                                onClick={() => setActiveFile(path)}
+                                className="h-7 px-2 rounded-md border border-white/20 bg-black/40 text-[11px] text-white/90"
+                              >
+                                {path.split('/').pop()}
+                              </button>
+                            );
+                          })}
+                        </div>
                       </div>
-                    }
-                  />
-                </div>
-              </>
-            ) : (
-              <div className="flex flex-col items-center justify-center h-full text-white/25 gap-4 text-center px-6">
-                <div className="w-20 h-20 rounded-2xl bg-cyan-500/8 border border-white/10 flex items-center justify-center">
-                  <Sparkles size={34} className="text-cyan-300" />
-                </div>
-                <div>
-                  <h3 className="text-base font-bold text-white/80">{EDITOR_UI_TEXT.welcomeTitle}</h3>
-                  <p className="text-sm text-white/45 mt-1">{EDITOR_UI_TEXT.welcomeDescription}</p>
-                </div>
+                    ) : null}
+                    {isSvgFile && svgDataUrl && !isStreamingView && !isActiveWritingFile && showSvgSource ? (
+                      <div className="absolute top-3 right-3 z-20">
+                        <button
+                          type="button"
+                          onClick={() => setSvgSourcePath(null)}
+                          className="h-8 px-3 rounded-md border border-white/20 bg-black/55 text-white/80 text-xs font-semibold hover:bg-black/70"
+                        >
+                          Show SVG Visual
+                        </button>
+                      </div>
+                    ) : null}
+                    <div
+                      ref={editorViewportRef}
+                      className="h-full w-full min-h-0"
+                      style={isMobileViewport ? { minHeight: isCompactMobile ? 260 : 300 } : undefined}
+                    >
+                      <Editor
+                        height="100%"
+                        language={isStreamingView ? 'markdown' : currentFileLanguage}
+                        value={editorRenderValue}
+                        onChange={handleEditorChange}
+                        onMount={handleEditorDidMount}
+                        theme="vs-dark"
+                        options={editorOptions}
+                        loading={
+                          <div className="flex items-center justify-center h-full">
+                            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cyan-500" />
+                          </div>
+                        }
+                      />
+                    </div>
+                  </>
+                ) : (
+                  <div className="flex flex-col items-center justify-center h-full text-white/25 gap-4 text-center px-6">
+                    <div className="w-20 h-20 rounded-2xl bg-cyan-500/8 border border-white/10 flex items-center justify-center">
+                      <Sparkles size={34} className="text-cyan-300" />
+                    </div>
+                    <div>
+                      <h3 className="text-base font-bold text-white/80">{EDITOR_UI_TEXT.welcomeTitle}</h3>
+                      <p className="text-sm text-white/45 mt-1">
+                        {files.length > 0 ? EDITOR_UI_TEXT.noOpenTabs : EDITOR_UI_TEXT.welcomeDescription}
+                      </p>
+                    </div>
+                  </div>
+                )}
               </div>
-            )}
+            </div>
+            {splitView ? (
+              <SplitEditorPane
+                path={secondaryPath}
+                focused={focusedPane === 'secondary'}
+                readOnly={Boolean(isGenerating && secondaryPath && writingFilePath === secondaryPath)}
+                options={editorOptions}
+                emptyLabel={EDITOR_UI_TEXT.emptyPane}
+                closeLabel={EDITOR_UI_TEXT.closeSplit}
+                onFocus={() => useEditorStore.getState().focusPane('secondary')}
+                onChange={handleSecondaryChange}
+                onClose={() => useEditorStore.getState().toggleSplit()}
+              />
+            ) : null}
           </div>
 
           <div
@@ -1,8 +1,9 @@
 import React, { useMemo, useEffect, useState } from 'react';
 import styled, { css, keyframes } from 'styled-components';
-import { FileText, MessageSquare, CheckSquare, Layers, Zap, AlertTriangle } from 'lucide-react';
+import { FileText, MessageSquare, CheckSquare, Layers, Zap, AlertTriangle, Coins } from 'lucide-react';
 import { useAIStore } from '@/stores/aiStore';
 import { useProjectStore } from '@/stores/projectStore';
+import { formatTokenCount, formatUsageCost } from '@/utils/tokenUsage';
 
 const Wrapper = styled.div`
   width: 100%;
@@ -160,7 +161,7 @@ const LiveDot = styled.span`
 `;
 
 export const ContextPreview: React.FC = () => {
-  const { prompt, chatHistory, planSteps, lastPlannedPrompt, isGenerating, contextBudget, compressionSnapshot } = useAIStore();
+  const { prompt, chatHistory, planSteps, lastPlannedPrompt, isGenerating, contextBudget, compressionSnapshot, sessionUsage } = useAIStore();
   const { files, projectName, stack } = useProjectStore();
   const [, forceUpdate] = useState(0);
 
@@ -239,6 +240,27 @@ export const ContextPreview: React.FC = () => {
         </div>
       </ContextBar>
 
+      <Section>
+        <SectionHeader>
+          <Coins size={12} />
+          LLM Spend
+        </SectionHeader>
+        <Content $compact>
+          {sessionUsage.requests > 0 ? (
+            <>
+              <div><strong>Tokens:</strong> {formatTokenCount(sessionUsage.totalTokens)} ({formatTokenCount(sessionUsage.promptTokens)} in / {formatTokenCount(sessionUsage.completionTokens)} out)</div>
+              {sessionUsage.reasoningTokens > 0 && (
+                <div><strong>Reasoning:</strong> {formatTokenCount(sessionUsage.reasoningTokens)}</div>
+              )}
+              <div><strong>Calls:</strong> {sessionUsage.requests}</div>
+              <div><strong>Est. cost:</strong> {formatUsageCost(sessionUsage.costUsd)}</div>
+            </>
+          ) : (
+            <EmptyHint>No LLM calls yet</EmptyHint>
+          )}
+        </Content>
+      </Section>
+
       <Section>
         <SectionHeader>
           <FileText size={12} />
@@ -293,6 +315,11 @@ export const ContextPreview: React.FC = () => {
               {planSteps.map((step) => (
                 <div key={step.id} style={{ opacity: step.completed ? 1 : 0.5 }}>
                   {step.completed ? '✓' : '○'} {step.title}
+                  {step.usage && step.usage.totalTokens > 0 && (
+                    <span style={{ color: 'rgba(255,255,255,0.45)' }}>
+                      {' '}· {formatTokenCount(step.usage.totalTokens)} tok, {formatUsageCost(step.usage.costUsd)}
+                    </span>
+                  )}
                 </div>
               ))}
             </>
@@ -0,0 +1,92 @@
+import React from 'react';
+import Editor from '@monaco-editor/react';
+import type * as monaco from 'monaco-editor';
+import { X } from 'lucide-react';
+import { useProjectStore } from '@/stores/projectStore';
+import { getLanguageFromExtension } from '@/utils/stackDetector';
+import { LanguageIconBadge } from '@/components/files/LanguageIconBadge';
+import { BinaryAssetPreview } from '@/components/files/BinaryAssetPreview';
+
+interface SplitPaneHeaderProps {
+  path: string | null;
+  focused: boolean;
+  onClose?: () => void;
+  closeLabel?: string;
+}
+
+export const SplitPaneHeader: React.FC<SplitPaneHeaderProps> = ({ path, focused, onClose, closeLabel }) => (
+  <div
+    className={`h-7 shrink-0 px-2 border-b flex items-center gap-2 text-[11px] ${
+      focused ? 'border-cyan-400/40 bg-cyan-400/5 text-cyan-200' : 'border-white/10 bg-black/20 text-white/50'
+    }`}
+  >
+    {path ? <LanguageIconBadge size="sm" language={getLanguageFromExtension(path)} /> : null}
+    <span className="truncate" title={path || undefined}>
+      {path ? path.split('/').pop() : ''}
+    </span>
+    {onClose ? (
+      <button
+        type="button"
+        onClick={onClose}
+        title={closeLabel}
+        aria-label={closeLabel}
+        className="ml-auto h-5 w-5 rounded inline-flex items-center justify-center text-white/50 hover:text-white hover:bg-white/10"
+      >
+        <X className="w-3 h-3" />
+      </button>
+    ) : null}
+  </div>
+);
+
+interface SplitEditorPaneProps {
+  path: string | null;
+  focused: boolean;
+  readOnly: boolean;
+  options: monaco.editor.IStandaloneEditorConstructionOptions;
+  emptyLabel: string;
+  closeLabel: string;
+  onFocus: () => void;
+  onChange: (path: string, value: string) => void;
+  onClose: () => void;
+}
+
+// The right-hand pane of a split editor. It edits the project store directly; streaming and journal sync stay with
+// the main pane.
+export const SplitEditorPane: React.FC<SplitEditorPaneProps> = ({
+  path,
+  focused,
+  readOnly,
+  options,
+  emptyLabel,
+  closeLabel,
+  onFocus,
+  onChange,
+  onClose
+}) => {
+  const file = useProjectStore((state) => (path ? state.files.find((f) => (f.path || f.name) === path) : undefined));
+  const paneOptions = React.useMemo(() => ({ ...options, readOnly, minimap: { enabled: false } }), [options, readOnly]);
+
+  return (
+    <div className="flex-1 min-w-0 min-h-0 flex flex-col" onMouseDownCapture={onFocus} onFocusCapture={onFocus}>
+      <SplitPaneHeader path={path} focused={focused} onClose={onClose} closeLabel={closeLabel} />
+      <div className="flex-1 min-h-0 relative">
+        {!file || !path ? (
+          <div className="h-full flex items-center justify-center text-xs text-white/40">{emptyLabel}</div>
+        ) : file.blob ? (
+          <BinaryAssetPreview path={path} blob={file.blob} />
+        ) : (
+          <Editor
+            height="100%"
+            language={file.language || getLanguageFromExtension(path)}
+            value={file.content || ''}
+            onChange={(value) => {
+              if (value !== undefined) onChange(path, value);
+            }}
+            theme="vs-dark"
+            options={paneOptions}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -5,6 +5,7 @@ import Editor from '@monaco-editor/react';
 import { Search, Folder, File, X, Code2, Save } from 'lucide-react';
 
 import { useAIStore, useProjectStore, useEditorStore } from '@/stores';
+import type { ProjectFile } from '@/types';
 
 interface FileNode {
   id: string;
@@ -29,6 +30,7 @@ export const SuperEditor = forwardRef<SuperEditorHandle>((props, ref) => {
     activeFileId, 
     openFile,
     closeFile,
+    markSaved,
     settings
   } = useEditorStore();
 
@@ -109,15 +111,12 @@ export const SuperEditor = forwardRef<SuperEditorHandle>((props, ref) => {
   }, [editor]);
 
   useImperativeHandle(ref, () => ({
+    // Edits already live in the project store, so saving only moves each tab's baseline.
     saveAll: async () => {
-      openFiles.forEach((file: any) => {
-        if (file.content) {
-          updateFile(file.id, file.content);
-        }
-      });
+      openFiles.forEach((file) => markSaved(file.id));
     },
     formatCode
-  }), [openFiles, updateFile, formatCode]);
+  }), [openFiles, markSaved, formatCode]);
 
   const activeFile = openFiles.find((f: any) => f.id === activeFileId);
 
@@ -171,7 +170,7 @@ export const SuperEditor = forwardRef<SuperEditorHandle>((props, ref) => {
             <Editor
               height="100%"
               language={activeFile.language || 'plaintext'}
-              value={activeFile.content || ''}
+              value={files.find((f: ProjectFile) => (f.path || f.name) === activeFile.id)?.content || ''}
               theme="vs-dark"
               onChange={(value) => {
                 if (value !== undefined) {
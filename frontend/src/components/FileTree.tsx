@@ -9,16 +9,51 @@ import {
   ChevronRight,
   ChevronDown,
   PenLine,
-  Dot
+  Dot,
+  FilePlus,
+  FolderPlus,
+  Link2
 } from 'lucide-react';
 import { FileStructure } from '@/types';
 import { getLanguageFromExtension } from '@/utils/stackDetector';
 import { LanguageIconBadge } from '@/components/files/LanguageIconBadge';
+import {
+  createTreeFile,
+  createTreeFolder,
+  deleteTreePath,
+  duplicateTreePath,
+  fileTreeDestructiveNeedsConfirm,
+  moveTreePath
+} from '@/services/fileTreeOperations';
+import { isSameOrInside, joinTreePath, validateTreeName } from '@/utils/fileTreeOps';
+
+type TreeEditState =
+  | { mode: 'create-file' | 'create-folder'; dir: string; value: string }
+  | { mode: 'rename'; path: string; value: string };
+
+type TreeMenuState = { x: number; y: number; node: FileStructure | null };
+
+// Shared by every row of one tree: inline editing, the context menu and drag-and-drop.
+interface FileTreeController {
+  locked: boolean;
+  editing: TreeEditState | null;
+  dragSource: string | null;
+  dropTarget: string | null;
+  setEditValue: (value: string) => void;
+  commitEdit: () => void;
+  cancelEdit: () => void;
+  openMenu: (event: React.MouseEvent, node: FileStructure | null) => void;
+  startDrag: (event: React.DragEvent, path: string) => void;
+  endDrag: () => void;
+  dragOver: (event: React.DragEvent, dir: string) => void;
+  drop: (event: React.DragEvent, dir: string) => void;
+}
 
 interface FileTreeNodeProps {
   node: FileStructure;
   depth: number;
   isRTL?: boolean;
+  controller: FileTreeController;
 }
 
 type NodeStatus = 'ready' | 'queued' | 'writing';
@@ -127,7 +162,45 @@ const buildTreeFromFlatStructure = (entries: Array<{ path: string; type: 'file'
   });
 };
 
-const FileTreeNode: React.FC<FileTreeNodeProps> = ({ node, depth, isRTL }) => {
+const parentDirOf = (path: string) => (path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '');
+
+const TreeNameInput: React.FC<{ controller: FileTreeController; depth: number; isRTL?: boolean; icon?: React.ReactNode }> = ({
+  controller,
+  depth,
+  isRTL,
+  icon
+}) => (
+  <div
+    className="flex items-center gap-2 px-2 py-1"
+    style={{
+      paddingLeft: isRTL ? '8px' : `${depth * 12 + 8}px`,
+      paddingRight: isRTL ? `${depth * 12 + 8}px` : '8px',
+      flexDirection: isRTL ? 'row-reverse' : 'row'
+    }}
+  >
+    <div className="w-3.5" />
+    {icon}
+    <input
+      autoFocus
+      value={controller.editing?.value ?? ''}
+      onChange={(event) => controller.setEditValue(event.target.value)}
+      onFocus={(event) => {
+        // Select the name without its extension, like most editors do on rename.
+        const value = event.target.value;
+        const dot = value.lastIndexOf('.');
+        event.target.setSelectionRange(0, dot > 0 ? dot : value.length);
+      }}
+      onKeyDown={(event) => {
+        if (event.key === 'Enter') controller.commitEdit();
+        if (event.key === 'Escape') controller.cancelEdit();
+      }}
+      onBlur={controller.cancelEdit}
+      className="flex-1 min-w-0 h-6 rounded border border-cyan-400/50 bg-black/40 px-1.5 text-xs font-mono text-white outline-none"
+    />
+  </div>
+);
+
+const FileTreeNode: React.FC<FileTreeNodeProps> = ({ node, depth, isRTL, controller }) => {
   const [isOpen, setIsOpen] = React.useState(true);
   const { activeFile, setActiveFile } = useProjectStore();
   const { fileStatuses, writingFilePath } = useAIStore();
@@ -160,57 +233,91 @@ const FileTreeNode: React.FC<FileTreeNodeProps> = ({ node, depth, isRTL }) => {
     }
   };
 
+  const { editing } = controller;
+  const isRenaming = editing?.mode === 'rename' && editing.path === node.path;
+  const isCreatingHere = node.type === 'directory' && editing !== null && editing.mode !== 'rename' && editing.dir === node.path;
+  const dropDir = node.type === 'directory' ? node.path : parentDirOf(node.path);
+  const isDropTarget = node.type === 'directory' && controller.dropTarget === node.path;
+
   const isActive = activeFile === node.path;
   const status = computeStatus(node);
   const StatusIcon = status === 'writing' ? PenLine : Dot;
   const statusColor = getStatusColor(status);
+  const nodeIcon =
+    node.type === 'directory' ? (
+      <Folder className={`w-4 h-4 ${isActive ? 'text-amber-400' : 'text-blue-400/80'}`} />
+    ) : node.path ? (
+      <LanguageIconBadge size="sm" language={getLanguageFromExtension(node.path)} />
+    ) : (
+      <File className={`w-4 h-4 ${isActive ? 'text-amber-400' : 'text-white/40'}`} />
+    );
+
   return (
     <div>
-      <motion.div
-        className={`flex items-center gap-2 px-2 py-1.5 cursor-pointer rounded-md transition-all duration-200 ${
-          isActive
-            ? 'bg-white/10 text-white shadow-[0_0_15px_rgba(255,255,255,0.05)] border border-white/5'
-            : 'hover:bg-white/5 text-white/70 hover:text-white'
-        }`}
-        style={{ 
-          paddingLeft: isRTL ? '8px' : `${depth * 12 + 8}px`,
-          paddingRight: isRTL ? `${depth * 12 + 8}px` : '8px',
-          flexDirection: isRTL ? 'row-reverse' : 'row'
-        }}
-        onClick={handleClick}
-        layout
-        initial={{ opacity: 0, x: isRTL ? 6 : -6 }}
-        animate={{ opacity: 1, x: 0 }}
-      >
-        {node.type === 'directory' ? (
-          <>
-            {isOpen ? (
-              <ChevronDown className="w-3.5 h-3.5 opacity-70" />
+      {isRenaming ? (
+        <TreeNameInput controller={controller} depth={depth} isRTL={isRTL} icon={nodeIcon} />
+      ) : (
+        // Native drag events live on a plain wrapper; motion.div reserves onDragStart/onDragEnd for its own gestures.
+        <div
+          draggable={!controller.locked}
+          onDragStart={(event) => controller.startDrag(event, node.path)}
+          onDragEnd={controller.endDrag}
+          onDragOver={(event) => controller.dragOver(event, dropDir)}
+          onDrop={(event) => controller.drop(event, dropDir)}
+          onContextMenu={(event) => controller.openMenu(event, node)}
+        >
+          <motion.div
+            className={`flex items-center gap-2 px-2 py-1.5 cursor-pointer rounded-md transition-all duration-200 ${
+              isActive
+                ? 'bg-white/10 text-white shadow-[0_0_15px_rgba(255,255,255,0.05)] border border-white/5'
+                : 'hover:bg-white/5 text-white/70 hover:text-white'
+            } ${isDropTarget ? 'ring-1 ring-cyan-400/60 bg-cyan-400/10' : ''} ${controller.dragSource === node.path ? 'opacity-50' : ''}`}
+            style={{
+              paddingLeft: isRTL ? '8px' : `${depth * 12 + 8}px`,
+              paddingRight: isRTL ? `${depth * 12 + 8}px` : '8px',
+              flexDirection: isRTL ? 'row-reverse' : 'row'
+            }}
+            onClick={handleClick}
+            layout
+            initial={{ opacity: 0, x: isRTL ? 6 : -6 }}
+            animate={{ opacity: 1, x: 0 }}
+          >
+            {node.type === 'directory' ? (
+              <>
+                {isOpen ? (
+                  <ChevronDown className="w-3.5 h-3.5 opacity-70" />
+                ) : (
+                  <ChevronRight className={`w-3.5 h-3.5 opacity-70 ${isRTL ? 'rotate-180' : ''}`} />
+                )}
+                {nodeIcon}
+              </>
             ) : (
-              <ChevronRight className={`w-3.5 h-3.5 opacity-70 ${isRTL ? 'rotate-180' : ''}`} />
+              <>
+                <div className="w-3.5" />
+                {nodeIcon}
+              </>
             )}
-            <Folder className={`w-4 h-4 ${isActive ? 'text-amber-400' : 'text-blue-400/80'}`} />
-          </>
-        ) : (
-          <>
-            <div className="w-3.5" />
-            {node.path ? (
-              <LanguageIconBadge size="sm" language={getLanguageFromExtension(node.path)} />
-            ) : (
-              <File className={`w-4 h-4 ${isActive ? 'text-amber-400' : 'text-white/40'}`} />
+            <span className={`text-xs font-medium truncate ${isRTL ? 'text-right' : 'text-left'} flex-1 font-mono tracking-tight`}>
+              {node.name || node.path.split('/').pop()}
+            </span>
+            {status !== 'ready' && (
+              <StatusIcon className="w-3 h-3 animate-pulse" style={{ color: statusColor }} />
             )}
-          </>
-        )}
-        <span className={`text-xs font-medium truncate ${isRTL ? 'text-right' : 'text-left'} flex-1 font-mono tracking-tight`}>
-          {node.name || node.path.split('/').pop()}
-        </span>
-        {status !== 'ready' && (
-          <StatusIcon className="w-3 h-3 animate-pulse" style={{ color: statusColor }} />
-        )}
-      </motion.div>
+          </motion.div>
+        </div>
+      )}
+
+      {isCreatingHere ? (
+        <TreeNameInput
+          controller={controller}
+          depth={depth + 1}
+          isRTL={isRTL}
+          icon={editing?.mode === 'create-folder' ? <Folder className="w-4 h-4 text-blue-400/80" /> : <File className="w-4 h-4 text-white/40" />}
+        />
+      ) : null}
 
       <AnimatePresence>
-        {node.type === 'directory' && isOpen && node.children && (
+        {node.type === 'directory' && (isOpen || isCreatingHere) && node.children && (
           <motion.div
             initial={{ height: 0, opacity: 0 }}
             animate={{ height: 'auto', opacity: 1 }}
@@ -219,7 +326,7 @@ const FileTreeNode: React.FC<FileTreeNodeProps> = ({ node, depth, isRTL }) => {
             className="overflow-hidden"
           >
             {node.children.map((child) => (
-              <FileTreeNode key={child.path} node={child} depth={depth + 1} isRTL={isRTL} />
+              <FileTreeNode key={child.path} node={child} depth={depth + 1} isRTL={isRTL} controller={controller} />
             ))}
           </motion.div>
         )}
@@ -228,9 +335,261 @@ const FileTreeNode: React.FC<FileTreeNodeProps> = ({ node, depth, isRTL }) => {
   );
 };
 
+const MenuItem: React.FC<{ label: string; onSelect: () => void; disabled?: boolean; danger?: boolean }> = ({
+  label,
+  onSelect,
+  disabled,
+  danger
+}) => (
+  <button
+    type="button"
+    disabled={disabled}
+    onClick={onSelect}
+    className={`w-full text-left px-3 py-1.5 text-xs rounded-md disabled:opacity-40 disabled:cursor-not-allowed ${
+      danger ? 'text-red-300 hover:bg-red-400/10' : 'text-white/85 hover:bg-white/10'
+    }`}
+  >
+    {label}
+  </button>
+);
+
 export const FileTree: React.FC = () => {
   const { files, fileStructure, fileSystem } = useProjectStore();
-  const { isRTL } = useLanguage();
+  const isGenerating = useAIStore((state) => state.isGenerating);
+  const { t, isRTL } = useLanguage();
+  const [editing, setEditing] = React.useState<TreeEditState | null>(null);
+  const [menu, setMenu] = React.useState<TreeMenuState | null>(null);
+  const [dragSource, setDragSource] = React.useState<string | null>(null);
+  const [dropTarget, setDropTarget] = React.useState<string | null>(null);
+  const [rewriteReferences, setRewriteReferences] = React.useState(true);
+  const [notice, setNotice] = React.useState<{ text: string; error: boolean } | null>(null);
+
+  React.useEffect(() => {
+    if (!menu) return;
+    const close = () => setMenu(null);
+    const onKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') close();
+    };
+    window.addEventListener('mousedown', close);
+    window.addEventListener('scroll', close, true);
+    window.addEventListener('keydown', onKey);
+    return () => {
+      window.removeEventListener('mousedown', close);
+      window.removeEventListener('scroll', close, true);
+      window.removeEventListener('keydown', onKey);
+    };
+  }, [menu]);
+
+  const run = (task: () => Promise<string | null>) => {
+    setNotice(null);
+    task()
+      .then((text) => setNotice(text ? { text, error: false } : null))
+      .catch((error) => setNotice({ text: error instanceof Error ? error.message : String(error), error: true }));
+  };
+
+  const confirmDestructive = (message: string) => fileTreeDestructiveNeedsConfirm() && !window.confirm(message);
+
+  const move = (source: string, target: string) => {
+    if (source === target) return;
+    if (confirmDestructive(t('app.fileTree.confirmMove').replace('{from}', source).replace('{to}', target))) return;
+    run(async () => {
+      const result = await moveTreePath(source, target, { rewriteReferences, confirmed: true });
+      return result.rewrittenFiles > 0 ? t('app.fileTree.referencesUpdated').replace('{files}', String(result.rewrittenFiles)) : null;
+    });
+  };
+
+  const commitEdit = () => {
+    if (!editing) return;
+    const current = editing;
+    const nameError = validateTreeName(current.value);
+    setEditing(null);
+    if (current.mode === 'rename' && current.value.trim() === current.path.split('/').pop()) return;
+    if (nameError) {
+      if (nameError === 'invalid') setNotice({ text: t('app.fileTree.invalidName'), error: true });
+      return;
+    }
+    if (current.mode === 'rename') {
+      move(current.path, joinTreePath(parentDirOf(current.path), current.value));
+    } else if (current.mode === 'create-file') {
+      run(async () => {
+        await createTreeFile(joinTreePath(current.dir, current.value));
+        return null;
+      });
+    } else {
+      run(async () => {
+        await createTreeFolder(joinTreePath(current.dir, current.value));
+        return null;
+      });
+    }
+  };
+
+  const controller: FileTreeController = {
+    locked: isGenerating,
+    editing,
+    dragSource,
+    dropTarget,
+    setEditValue: (value) => setEditing((prev) => (prev ? { ...prev, value } : prev)),
+    commitEdit,
+    cancelEdit: () => setEditing(null),
+    openMenu: (event, node) => {
+      event.preventDefault();
+      event.stopPropagation();
+      setMenu({ x: event.clientX, y: event.clientY, node });
+    },
+    startDrag: (event, path) => {
+      event.dataTransfer.setData('text/plain', path);
+      event.dataTransfer.effectAllowed = 'move';
+      setDragSource(path);
+    },
+    endDrag: () => {
+      setDragSource(null);
+      setDropTarget(null);
+    },
+    dragOver: (event, dir) => {
+      if (!dragSource || controller.locked) return;
+      // Rows own the drop even when they refuse it, so the root area underneath does not take over.
+      event.stopPropagation();
+      // A folder cannot go inside itself, and dropping into its current folder changes nothing.
+      if (isSameOrInside(dir, dragSource) || parentDirOf(dragSource) === dir) {
+        if (dropTarget !== null) setDropTarget(null);
+        return;
+      }
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+      if (dropTarget !== dir) setDropTarget(dir);
+    },
+    drop: (event, dir) => {
+      if (!dragSource) return;
+      event.preventDefault();
+      event.stopPropagation();
+      const source = dragSource;
+      setDragSource(null);
+      setDropTarget(null);
+      if (isSameOrInside(dir, source) || parentDirOf(source) === dir) return;
+      move(source, joinTreePath(dir, source.split('/').pop() || source));
+    }
+  };
+
+  const startCreate = (mode: 'create-file' | 'create-folder', node: FileStructure | null) => {
+    setMenu(null);
+    const dir = !node ? '' : node.type === 'directory' ? node.path : parentDirOf(node.path);
+    setEditing({ mode, dir, value: '' });
+  };
+
+  const renderMenu = () => {
+    if (!menu) return null;
+    const { node } = menu;
+    return (
+      <div
+        className="fixed z-50 min-w-[170px] rounded-lg border border-white/10 bg-[#11131a] p-1 shadow-2xl"
+        style={{ left: menu.x, top: menu.y }}
+        onMouseDown={(event) => event.stopPropagation()}
+        onContextMenu={(event) => event.preventDefault()}
+      >
+        <MenuItem label={t('app.fileTree.newFile')} disabled={isGenerating} onSelect={() => startCreate('create-file', node)} />
+        <MenuItem label={t('app.fileTree.newFolder')} disabled={isGenerating} onSelect={() => startCreate('create-folder', node)} />
+        {node ? (
+          <>
+            <div className="my-1 h-px bg-white/10" />
+            <MenuItem
+              label={t('app.fileTree.rename')}
+              disabled={isGenerating}
+              onSelect={() => {
+                setMenu(null);
+                setEditing({ mode: 'rename', path: node.path, value: node.path.split('/').pop() || node.path });
+              }}
+            />
+            <MenuItem
+              label={t('app.fileTree.duplicate')}
+              disabled={isGenerating}
+              onSelect={() => {
+                setMenu(null);
+                run(async () => {
+                  await duplicateTreePath(node.path);
+                  return null;
+                });
+              }}
+            />
+            <MenuItem
+              label={t('app.fileTree.delete')}
+              danger
+              disabled={isGenerating}
+              onSelect={() => {
+                setMenu(null);
+                if (!window.confirm(t('app.fileTree.confirmDelete').replace('{path}', node.path))) return;
+                run(async () => {
+                  await deleteTreePath(node.path, { confirmed: true });
+                  return null;
+                });
+              }}
+            />
+          </>
+        ) : null}
+      </div>
+    );
+  };
+
+  const rootCreating = editing !== null && editing.mode !== 'rename' && editing.dir === '';
+
+  const renderTreeShell = (tree: FileStructure[], className: string) => (
+    <div
+      className={`${className} flex flex-col min-h-full`}
+      style={{ direction: isRTL ? 'rtl' : 'ltr' }}
+      onContextMenu={(event) => controller.openMenu(event, null)}
+      onDragOver={(event) => controller.dragOver(event, '')}
+      onDrop={(event) => controller.drop(event, '')}
+    >
+      <div className="flex items-center gap-1 px-1 pb-1.5" style={{ flexDirection: isRTL ? 'row-reverse' : 'row' }}>
+        <button
+          type="button"
+          title={t('app.fileTree.newFile')}
+          disabled={isGenerating}
+          onClick={() => startCreate('create-file', null)}
+          className="h-6 w-6 inline-flex items-center justify-center rounded text-white/55 hover:text-white hover:bg-white/10 disabled:opacity-40"
+        >
+          <FilePlus className="w-3.5 h-3.5" />
+        </button>
+        <button
+          type="button"
+          title={t('app.fileTree.newFolder')}
+          disabled={isGenerating}
+          onClick={() => startCreate('create-folder', null)}
+          className="h-6 w-6 inline-flex items-center justify-center rounded text-white/55 hover:text-white hover:bg-white/10 disabled:opacity-40"
+        >
+          <FolderPlus className="w-3.5 h-3.5" />
+        </button>
+        <button
+          type="button"
+          title={t('app.fileTree.rewriteReferences')}
+          aria-pressed={rewriteReferences}
+          onClick={() => setRewriteReferences((prev) => !prev)}
+          className={`h-6 w-6 inline-flex items-center justify-center rounded hover:bg-white/10 ${
+            rewriteReferences ? 'text-cyan-300 bg-cyan-400/10' : 'text-white/40'
+          }`}
+        >
+          <Link2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      {notice ? (
+        <div className={`px-2 pb-1.5 text-[11px] ${notice.error ? 'text-red-300' : 'text-emerald-300/90'}`}>{notice.text}</div>
+      ) : null}
+      {rootCreating ? (
+        <TreeNameInput
+          controller={controller}
+          depth={0}
+          isRTL={isRTL}
+          icon={editing?.mode === 'create-folder' ? <Folder className="w-4 h-4 text-blue-400/80" /> : <File className="w-4 h-4 text-white/40" />}
+        />
+      ) : null}
+      {tree.length === 0 && !rootCreating ? (
+        <div className="p-4 text-white/30 text-xs text-center italic">{t('app.fileTree.empty')}</div>
+      ) : (
+        tree.map((node) => <FileTreeNode key={node.path} node={node} depth={0} isRTL={isRTL} controller={controller} />)
+      )}
+      <div className={`flex-1 min-h-6 rounded-md ${dropTarget === '' ? 'bg-cyan-400/5 ring-1 ring-cyan-400/30' : ''}`} />
+      {renderMenu()}
+    </div>
+  );
 
   if (fileSystem && Object.keys(fileSystem).length > 0) {
     const buildTree = (fs: any, path = ''): FileStructure[] => {
@@ -255,23 +614,7 @@ export const FileTree: React.FC = () => {
       });
     };
 
-    const tree = buildTree(fileSystem);
-
-    return (
-      <div className="py-2" style={{ direction: isRTL ? 'rtl' : 'ltr' }}>
-        {tree.map((node) => (
-          <FileTreeNode key={node.path} node={node} depth={0} isRTL={isRTL} />
-        ))}
-      </div>
-    );
-  }
-
-  if (files.length === 0) {
-    return (
-      <div className="p-4 text-white/30 text-xs text-center italic">
-        No files yet. Generate code to get started.
-      </div>
-    );
+    return renderTreeShell(buildTree(fileSystem), 'py-2');
   }
 
   const flatEntries: Array<{ path: string; type: 'file' | 'directory' }> =
@@ -285,11 +628,5 @@ export const FileTree: React.FC = () => {
           .map((f) => ({ path: normalizePath(f.path || ''), type: 'file' as const }));
   const tree = buildTreeFromFlatStructure(flatEntries.filter((entry) => entry.path.length > 0));
 
-  return (
-    <div className="p-2 scrollbar-thin overflow-y-auto" style={{ direction: isRTL ? 'rtl' : 'ltr' }}>
-      {tree.map((node) => (
-        <FileTreeNode key={node.path} node={node} depth={0} isRTL={isRTL} />
-      ))}
-    </div>
-  );
+  return renderTreeShell(tree, 'p-2 scrollbar-thin overflow-y-auto');
 };
@@ -2,12 +2,26 @@ import React, { useEffect, useRef } from 'react';
 import { GlassCard } from './GlassCard';
 import { usePreviewStore } from '@/stores/previewStore';
 import { Terminal, Trash2 } from 'lucide-react';
-import { LogEntry } from '@/types';
+import { LogEntry, PreviewConsoleEntry } from '@/types';
 import { useLanguage } from '@/context/LanguageContext';
+import { formatPreviewConsoleLocation } from '@/utils/previewConsoleBridge';
 
-export const LogsPanel: React.FC = () => {
+const CONSOLE_LEVEL_TO_TYPE: Record<PreviewConsoleEntry['level'], LogEntry['type']> = {
+  log: 'info',
+  info: 'info',
+  debug: 'info',
+  warn: 'warning',
+  error: 'error'
+};
+
+interface LogsPanelProps {
+  defaultView?: 'logs' | 'console';
+}
+
+export const LogsPanel: React.FC<LogsPanelProps> = ({ defaultView = 'logs' }) => {
   const { t, isRTL } = useLanguage();
-  const { logs, clearLogs } = usePreviewStore();
+  const { logs, clearLogs, consoleEntries, clearConsole } = usePreviewStore();
+  const [view, setView] = React.useState<'logs' | 'console'>(defaultView);
   const [filter, setFilter] = React.useState<'all' | 'error' | 'warning' | 'info'>('all');
   const logsEndRef = useRef<HTMLDivElement>(null);
 
@@ -16,9 +30,14 @@ export const LogsPanel: React.FC = () => {
     return log.type === filter;
   });
 
+  const filteredConsole = consoleEntries.filter((entry) => {
+    if (filter === 'all') return true;
+    return CONSOLE_LEVEL_TO_TYPE[entry.level] === filter;
+  });
+
   useEffect(() => {
     logsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [logs]);
+  }, [logs, consoleEntries, view]);
 
   const getLogColor = (type: LogEntry['type']) => {
     switch (type) {
@@ -51,8 +70,17 @@ export const LogsPanel: React.FC = () => {
       <div className={`p-3 border-b border-white/10 glass-panel flex items-center justify-between ${isRTL ? 'flex-row-reverse' : 'flex-row'}`}>
         <div className={`flex items-center gap-2 ${isRTL ? 'flex-row-reverse' : 'flex-row'}`}>
           <Terminal className="w-5 h-5 text-amber-500" />
-          <h3 className="text-sm font-semibold text-white/90">{t('app.logs.title')}</h3>
-          <span className="text-xs text-amber-500/50">({logs.length})</span>
+          {(['logs', 'console'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setView(option)}
+              className={`text-sm font-semibold transition-colors ${view === option ? 'text-white/90' : 'text-white/40 hover:text-white/70'}`}
+            >
+              {option === 'logs' ? t('app.logs.title') : t('app.logs.console.title')}
+            </button>
+          ))}
+          <span className="text-xs text-amber-500/50">({view === 'logs' ? logs.length : consoleEntries.length})</span>
         </div>
         
         <div className={`flex items-center gap-2 ${isRTL ? 'flex-row-reverse' : 'flex-row'}`}>
@@ -68,7 +96,7 @@ export const LogsPanel: React.FC = () => {
           </select>
           
           <button
-            onClick={clearLogs}
+            onClick={view === 'logs' ? clearLogs : clearConsole}
             className="glass-button p-1.5 rounded-lg text-white/50 hover:text-red-400 hover:bg-red-400/10 transition-colors"
             title={t('app.logs.clear')}
           >
@@ -78,7 +106,44 @@ export const LogsPanel: React.FC = () => {
       </div>
       
       <div className={`flex-1 overflow-y-auto scrollbar-thin p-3 font-mono text-xs bg-black/20 ${isRTL ? 'text-right' : 'text-left'}`}>
-        {filteredLogs.length === 0 ? (
+        {view === 'console' ? (
+          filteredConsole.length === 0 ? (
+            <div className="text-white/20 text-center py-12 flex flex-col items-center gap-3">
+              <Terminal className="w-10 h-10 opacity-10" />
+              <p className="max-w-[180px] text-xs">
+                {t('app.logs.console.empty')}
+              </p>
+            </div>
+          ) : (
+            filteredConsole.map((entry) => {
+              const type = CONSOLE_LEVEL_TO_TYPE[entry.level];
+              const location = formatPreviewConsoleLocation(entry);
+              return (
+                <div
+                  key={entry.id}
+                  className={`flex gap-2 py-1.5 border-b border-white/5 last:border-0 ${getLogColor(type)} ${isRTL ? 'flex-row-reverse' : 'flex-row'}`}
+                >
+                  <span className="opacity-40 text-[10px] shrink-0">
+                    {new Date(entry.timestamp).toLocaleTimeString()}
+                  </span>
+                  <span className="shrink-0 font-bold">{getLogIcon(type)}</span>
+                  <div className="flex-1 min-w-0">
+                    <span className="break-all leading-relaxed whitespace-pre-wrap">{entry.message}</span>
+                    {entry.stack && (
+                      <details className="mt-1 text-white/40">
+                        <summary className="cursor-pointer text-[10px]">{t('app.logs.console.stack')}</summary>
+                        <pre className="whitespace-pre-wrap break-all text-[10px] leading-relaxed">{entry.stack}</pre>
+                      </details>
+                    )}
+                  </div>
+                  {location && (
+                    <span className="text-white/30 text-[10px] shrink-0">{location}</span>
+                  )}
+                </div>
+              );
+            })
+          )
+        ) : filteredLogs.length === 0 ? (
           <div className="text-white/20 text-center py-12 flex flex-col items-center gap-3">
             <Terminal className="w-10 h-10 opacity-10" />
             <p className="max-w-[180px] text-xs">
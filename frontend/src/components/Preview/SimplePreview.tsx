@@ -1,9 +1,50 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { AlertTriangle, CheckCircle2, Code, ExternalLink, FileText, RefreshCw } from 'lucide-react';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  ArrowRight,
+  CheckCircle2,
+  Code,
+  ExternalLink,
+  FileText,
+  LayoutGrid,
+  Maximize2,
+  RefreshCw,
+  RotateCw,
+  Smartphone
+} from 'lucide-react';
 import { useProjectStore } from '@/stores/projectStore';
+import { selectPreviewViewport, usePreviewStore } from '@/stores/previewStore';
 import { repairTruncatedContent, validatePreviewContent } from '@/utils/codeRepair';
 import { buildLivePreviewPath, publishLivePreviewSnapshot } from '@/utils/livePreviewLink';
 import { readAppSettings } from '@/utils/appSettings';
+import { getAssetObjectUrl, releaseAssetObjectUrls } from '@/utils/binaryAssets';
+import { createProjectPathResolver, isExternalReference as isExternalAssetUrl } from '@/utils/projectPathResolver';
+import {
+  createPreviewLocationMapper,
+  injectPreviewConsoleBridge,
+  parsePreviewConsoleMessage,
+  parsePreviewNavigateMessage
+} from '@/utils/previewConsoleBridge';
+import {
+  EMPTY_PREVIEW_HISTORY,
+  buildPreviewRoutes,
+  pushPreviewHistory,
+  resolvePreviewRouteInput,
+  routeForFile,
+  stepPreviewHistory,
+  type PreviewHistory,
+  type PreviewRoute
+} from '@/utils/previewRouter';
+import {
+  PREVIEW_DEVICE_SIZES,
+  PREVIEW_GRID_PRESETS,
+  fitPreviewScale,
+  resolvePreviewViewportSize,
+  type PreviewDevicePreset,
+  type PreviewViewport,
+  type PreviewViewportSize
+} from '@/utils/previewViewport';
 
 interface SimplePreviewProps {
   className?: string;
@@ -13,6 +54,7 @@ type ProjectFileLike = {
   path?: string;
   name?: string;
   content?: string;
+  blob?: Blob;
 };
 
 type PreviewMeta = {
@@ -43,19 +85,6 @@ const DEFAULT_META: PreviewMeta = {
   note: 'Waiting for files'
 };
 
-const isExternalAssetUrl = (value: string) => {
-  const trimmed = String(value || '').trim();
-  if (!trimmed) return false;
-  if (/^(?:[a-z][a-z0-9+.-]*:)?\/\//i.test(trimmed)) return true;
-  return (
-    trimmed.startsWith('data:') ||
-    trimmed.startsWith('blob:') ||
-    trimmed.startsWith('mailto:') ||
-    trimmed.startsWith('tel:') ||
-    trimmed.startsWith('#')
-  );
-};
-
 const normalizePath = (value: string) => {
   return String(value || '')
     .replace(/\\/g, '/')
@@ -72,23 +101,6 @@ const dirname = (value: string) => {
   return clean.slice(0, idx);
 };
 
-const joinPath = (baseDir: string, relativePath: string) => {
-  const base = normalizePath(baseDir);
-  const rel = normalizePath(relativePath);
-  if (!rel) return base;
-  const stack = [...(base ? base.split('/') : []), ...rel.split('/')];
-  const normalized: string[] = [];
-  for (const part of stack) {
-    if (!part || part === '.') continue;
-    if (part === '..') {
-      normalized.pop();
-      continue;
-    }
-    normalized.push(part);
-  }
-  return normalized.join('/');
-};
-
 const extensionOf = (value: string) => {
   const clean = normalizePath(value);
   const idx = clean.lastIndexOf('.');
@@ -435,11 +447,28 @@ export const SimplePreview: React.FC<SimplePreviewProps> = ({ className }) => {
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const debounceTimerRef = useRef<number | null>(null);
   const lastFilesHashRef = useRef<string>('');
+  const consoleBridgeRef = useRef<{ token: string; mapper: ReturnType<typeof createPreviewLocationMapper> } | null>(null);
+  const previewErrorCount = usePreviewStore((state) => state.consoleEntries.filter((entry) => entry.level === 'error').length);
 
   const [previewContent, setPreviewContent] = useState('');
   const [previewMeta, setPreviewMeta] = useState<PreviewMeta>(DEFAULT_META);
   const [runtimeState, setRuntimeState] = useState<'idle' | 'rendering' | 'ready' | 'error'>('idle');
   const [error, setError] = useState<string | null>(null);
+  const [consoleBridgeToken, setConsoleBridgeToken] = useState('');
+  const [pages, setPages] = useState<Record<string, string>>({});
+  const [routes, setRoutes] = useState<PreviewRoute[]>([]);
+  const [history, setHistory] = useState<PreviewHistory>(EMPTY_PREVIEW_HISTORY);
+  const [addressInput, setAddressInput] = useState('');
+  const [addressInvalid, setAddressInvalid] = useState(false);
+  const currentPageRef = useRef<string | null>(null);
+  const gridFramesRef = useRef<Map<string, HTMLIFrameElement>>(new Map());
+  const stageRef = useRef<HTMLDivElement>(null);
+  const [stageSize, setStageSize] = useState<PreviewViewportSize>({ width: 0, height: 0 });
+  const viewport = usePreviewStore((state) => selectPreviewViewport(state, projectId));
+  const updateViewport = useCallback(
+    (patch: Partial<PreviewViewport>) => usePreviewStore.getState().setViewport(projectId, patch),
+    [projectId]
+  );
 
   const ensureProjectId = useCallback(() => {
     const currentId = String(useProjectStore.getState().projectId || projectId || '').trim();
@@ -449,6 +478,17 @@ export const SimplePreview: React.FC<SimplePreviewProps> = ({ className }) => {
     return createdId;
   }, [projectId, setProjectId]);
 
+  // Every render gets a fresh token so late messages from a replaced document are ignored.
+  const armConsoleBridge = useCallback((urlToPath: Map<string, string>) => {
+    const token = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    consoleBridgeRef.current = {
+      token,
+      mapper: createPreviewLocationMapper(urlToPath, () => currentPageRef.current)
+    };
+    setConsoleBridgeToken(token);
+    usePreviewStore.getState().clearConsole();
+  }, []);
+
   const publishSnapshot = useCallback(
     (html: string, meta: PreviewMeta) => {
       const stableProjectId = ensureProjectId();
@@ -472,6 +512,7 @@ export const SimplePreview: React.FC<SimplePreviewProps> = ({ className }) => {
     return files
       .map((file) => {
         const path = normalizePath(file.path || file.name || 'untitled');
+        if (file.blob) return `${path}:blob:${file.blob.size}:${file.blob.type}`;
         const content = String(file.content || '');
         return `${path}:${content.length}:${quickHash(content)}`;
       })
@@ -483,6 +524,8 @@ export const SimplePreview: React.FC<SimplePreviewProps> = ({ className }) => {
       setError(null);
       setRuntimeState('rendering');
 
+      releaseAssetObjectUrls(files);
+
       if (files.length === 0) {
         setPreviewContent('');
         setPreviewMeta({
@@ -502,94 +545,15 @@ export const SimplePreview: React.FC<SimplePreviewProps> = ({ className }) => {
       const pathToFile = new Map<string, (ProjectFileLike & { normalizedPath: string })>();
       normalizedFiles.forEach((file) => pathToFile.set(file.normalizedPath, file));
       const allPaths = Array.from(pathToFile.keys());
-      const fileNameIndex = new Map<string, string[]>();
-      allPaths.forEach((path) => {
-        const base = path.split('/').pop() || path;
-        const list = fileNameIndex.get(base) || [];
-        list.push(path);
-        fileNameIndex.set(base, list);
-      });
       const autoMapped = new Set<string>();
       let projectRootDir = '';
+      const resolveReference = createProjectPathResolver(allPaths, () => projectRootDir);
 
       const resolveProjectPath = (fromPath: string, reference: string) => {
-        if (!reference) return null;
-        if (isExternalAssetUrl(reference)) return null;
-        const cleanRef = normalizePath(reference);
-        if (!cleanRef) return null;
-
-        const candidates: string[] = [];
-        const pushCandidate = (candidate: string) => {
-          const clean = normalizePath(candidate);
-          if (!clean) return;
-          if (!candidates.includes(clean)) candidates.push(clean);
-        };
-
-        const addSrcFallbacks = (candidate: string) => {
-          const clean = normalizePath(candidate);
-          if (!clean) return;
-          const srcPrefix = 'src/';
-          if (!clean.startsWith(srcPrefix)) return;
-          const withoutSrc = clean.slice(srcPrefix.length);
-          pushCandidate(`frontend/src/${withoutSrc}`);
-          pushCandidate(`frontend/src/assets/${withoutSrc}`);
-          pushCandidate(`frontend/assets/${withoutSrc}`);
-        };
-
-        if (reference.startsWith('/')) {
-          pushCandidate(joinPath(projectRootDir, cleanRef));
-          pushCandidate(cleanRef);
-          pushCandidate(`frontend/${cleanRef}`);
-          pushCandidate(`frontend/src/${cleanRef}`);
-          pushCandidate(`frontend/public/${cleanRef}`);
-          pushCandidate(`public/${cleanRef}`);
-          addSrcFallbacks(cleanRef);
-        } else {
-          const baseDir = dirname(fromPath);
-          const joined = joinPath(baseDir, cleanRef);
-          pushCandidate(joined);
-          pushCandidate(`frontend/${joined}`);
-          pushCandidate(`frontend/src/${joined}`);
-          pushCandidate(`frontend/public/${cleanRef}`);
-          pushCandidate(`public/${cleanRef}`);
-          addSrcFallbacks(cleanRef);
-          addSrcFallbacks(joined);
-        }
-
-        for (const candidate of candidates) {
-          if (pathToFile.has(candidate)) return candidate;
-        }
-
-        const suffixMatches = allPaths.filter((path) => path === cleanRef || path.endsWith(`/${cleanRef}`));
-        const fromRoot = normalizePath(fromPath).startsWith('backend/')
-          ? 'backend/'
-          : projectRootDir
-            ? `${normalizePath(projectRootDir)}/`
-            : '';
-        const referenceName = cleanRef.split('/').pop() || '';
-        const referenceExt = extensionOf(cleanRef);
-        const preferredByName = referenceName ? fileNameIndex.get(referenceName) || [] : [];
-        const pool = suffixMatches.length > 0 ? suffixMatches : preferredByName;
-        if (pool.length === 0) return null;
-
-        const scored = pool
-          .map((path) => {
-            const ext = extensionOf(path);
-            const score =
-              (path.startsWith(fromRoot) ? 22 : 0) +
-              (path.endsWith(`/${cleanRef}`) ? 14 : 0) +
-              (referenceExt && ext === referenceExt ? 10 : 0) +
-              (path.includes('/assets/icons/') ? 16 : 0) +
-              (path.includes('/assets/') ? 10 : 0) +
-              (path.includes('/src/') ? 4 : 0) -
-              path.length * 0.001;
-            return { path, score };
-          })
-          .sort((a, b) => b.score - a.score);
-
-        const winner = scored[0]?.path || null;
-        if (winner) autoMapped.add(`${fromPath} -> ${reference} => ${winner}`);
-        return winner;
+        const resolution = resolveReference(fromPath, reference);
+        if (!resolution) return null;
+        if (resolution.autoMapped) autoMapped.add(`${fromPath} -> ${reference} => ${resolution.path}`);
+        return resolution.path;
       };
 
       const selectEntryFile = () => {
@@ -668,6 +632,11 @@ export const SimplePreview: React.FC<SimplePreviewProps> = ({ className }) => {
 
         const file = pathToFile.get(path);
         if (!file) return null;
+        if (file.blob) {
+          const assetUrl = getAssetObjectUrl(file.blob);
+          resourceUrlByPath.set(path, assetUrl);
+          return assetUrl;
+        }
 
         buildingResource.add(path);
         const ext = extensionOf(path);
@@ -721,6 +690,10 @@ export const SimplePreview: React.FC<SimplePreviewProps> = ({ className }) => {
           unresolvedRefs: [],
           note: 'No HTML entry file detected'
         };
+        armConsoleBridge(new Map());
+        setPages({});
+        setRoutes([]);
+        setHistory(EMPTY_PREVIEW_HISTORY);
         setPreviewContent(fallback);
         setPreviewMeta(fallbackMeta);
         publishSnapshot(fallback, fallbackMeta);
@@ -728,208 +701,237 @@ export const SimplePreview: React.FC<SimplePreviewProps> = ({ className }) => {
       }
 
       projectRootDir = dirname(entryHtmlPath);
+      const pagePaths = allPaths.filter((path) => ['html', 'htm'].includes(extensionOf(path)));
+      const pagePathSet = new Set(pagePaths);
+
+      // Every page goes through the same resolver, so assets shared between pages map to the same data URLs.
+      const buildPageHtml = (pagePath: string) => {
+        const pageHtml = String(pathToFile.get(pagePath)?.content || '');
+        const parser = new DOMParser();
+        const documentNode = parser.parseFromString(pageHtml, 'text/html');
+
+        if (!documentNode.querySelector('meta[charset]')) {
+          const charsetMeta = documentNode.createElement('meta');
+          charsetMeta.setAttribute('charset', 'UTF-8');
+          documentNode.head.prepend(charsetMeta);
+        }
+        if (!documentNode.querySelector('meta[name="viewport"]')) {
+          const viewportMeta = documentNode.createElement('meta');
+          viewportMeta.setAttribute('name', 'viewport');
+          viewportMeta.setAttribute('content', 'width=device-width, initial-scale=1.0');
+          documentNode.head.appendChild(viewportMeta);
+        }
 
-      const entryHtml = String(pathToFile.get(entryHtmlPath)?.content || '');
-      const parser = new DOMParser();
-      const documentNode = parser.parseFromString(entryHtml, 'text/html');
+        const rewriteElementAttr = (selector: string, attr: string, removeOnFail = true) => {
+          documentNode.querySelectorAll(selector).forEach((element) => {
+            const value = element.getAttribute(attr);
+            if (!value || isExternalAssetUrl(value)) return;
+            const url = resolveToResourceUrl(pagePath, value);
+            if (url) {
+              element.setAttribute(attr, url);
+            } else if (removeOnFail) {
+              element.remove();
+              unresolved.add(`${pagePath} -> removed unresolved ${selector}: ${value}`);
+            } else {
+              element.removeAttribute(attr);
+              unresolved.add(`${pagePath} -> blanked unresolved ${attr} on ${selector}: ${value}`);
+            }
+          });
+        };
 
-      if (!documentNode.querySelector('meta[charset]')) {
-        const charsetMeta = documentNode.createElement('meta');
-        charsetMeta.setAttribute('charset', 'UTF-8');
-        documentNode.head.prepend(charsetMeta);
-      }
-      if (!documentNode.querySelector('meta[name="viewport"]')) {
-        const viewportMeta = documentNode.createElement('meta');
-        viewportMeta.setAttribute('name', 'viewport');
-        viewportMeta.setAttribute('content', 'width=device-width, initial-scale=1.0');
-        documentNode.head.appendChild(viewportMeta);
-      }
+        rewriteElementAttr('img[src]', 'src', false);
+        rewriteElementAttr('video[poster]', 'poster', false);
+        rewriteElementAttr('source[src]', 'src', true);
+        rewriteElementAttr('audio[src]', 'src', true);
+        rewriteElementAttr('object[data]', 'data', true);
+
+        documentNode.querySelectorAll('a[href]').forEach((anchor) => {
+          const href = String(anchor.getAttribute('href') || '').trim();
+          if (!href || isExternalAssetUrl(href)) return;
+
+          const [pathAndQueryRaw, hashRaw] = href.split('#', 2);
+          const [pathOnlyRaw, queryRaw] = String(pathAndQueryRaw || '').split('?', 2);
+          const hashSuffix = hashRaw ? `#${hashRaw}` : '';
+          const querySuffix = queryRaw ? `?${queryRaw}` : '';
+
+          let targetPath = String(pathOnlyRaw || '').trim();
+          if (!targetPath || targetPath === '.') {
+            targetPath = pagePath;
+          } else if (targetPath === '/') {
+            targetPath = 'index.html';
+          }
 
-      const rewriteElementAttr = (selector: string, attr: string, removeOnFail = true) => {
-        documentNode.querySelectorAll(selector).forEach((element) => {
-          const value = element.getAttribute(attr);
-          if (!value || isExternalAssetUrl(value)) return;
-          const url = resolveToResourceUrl(entryHtmlPath, value);
-          if (url) {
-            element.setAttribute(attr, url);
-          } else if (removeOnFail) {
-            element.remove();
-            unresolved.add(`${entryHtmlPath} -> removed unresolved ${selector}: ${value}`);
+          // Links to other pages stay inside the preview: the bridge script hands the click to the router.
+          const targetPage = resolveProjectPath(pagePath, targetPath);
+          if (targetPage && pagePathSet.has(targetPage)) {
+            resolved.add(`${pagePath} -> ${href}`);
+            anchor.setAttribute('href', hashSuffix || '#');
+            anchor.setAttribute('data-apex-route', targetPage);
+            if (hashSuffix) anchor.setAttribute('data-apex-hash', hashSuffix);
+            return;
+          }
+
+          const targetUrl = resolveToResourceUrl(pagePath, targetPath);
+          if (targetUrl) {
+            anchor.setAttribute('href', `${targetUrl}${querySuffix}${hashSuffix}`);
           } else {
-            element.removeAttribute(attr);
-            unresolved.add(`${entryHtmlPath} -> blanked unresolved ${attr} on ${selector}: ${value}`);
+            unresolved.add(`${pagePath} -> unresolved anchor: ${href}`);
+            anchor.setAttribute('href', '#');
           }
         });
-      };
-
-      rewriteElementAttr('img[src]', 'src', false);
-      rewriteElementAttr('video[poster]', 'poster', false);
-      rewriteElementAttr('source[src]', 'src', true);
-      rewriteElementAttr('audio[src]', 'src', true);
-      rewriteElementAttr('object[data]', 'data', true);
-
-      documentNode.querySelectorAll('a[href]').forEach((anchor) => {
-        const href = String(anchor.getAttribute('href') || '').trim();
-        if (!href || isExternalAssetUrl(href)) return;
-
-        const [pathAndQueryRaw, hashRaw] = href.split('#', 2);
-        const [pathOnlyRaw, queryRaw] = String(pathAndQueryRaw || '').split('?', 2);
-        const hashSuffix = hashRaw ? `#${hashRaw}` : '';
-        const querySuffix = queryRaw ? `?${queryRaw}` : '';
-
-        let targetPath = String(pathOnlyRaw || '').trim();
-        if (!targetPath || targetPath === '.') {
-          targetPath = entryHtmlPath;
-        } else if (targetPath === '/') {
-          targetPath = 'index.html';
-        }
-
-        const targetUrl = resolveToResourceUrl(entryHtmlPath, targetPath);
-        if (targetUrl) {
-          anchor.setAttribute('href', `${targetUrl}${querySuffix}${hashSuffix}`);
-        } else {
-          unresolved.add(`${entryHtmlPath} -> unresolved anchor: ${href}`);
-          anchor.setAttribute('href', '#');
-        }
-      });
 
-      documentNode.querySelectorAll('script[src]').forEach((scriptNode) => {
-        const value = scriptNode.getAttribute('src');
-        if (!value) return;
-        if (isExternalAssetUrl(value)) {
-          const normalized = normalizeExternalResource(value, 'script');
-          if (!normalized) {
-            scriptNode.remove();
-            unresolved.add(`${entryHtmlPath} -> removed unsupported external script: ${value}`);
+        documentNode.querySelectorAll('script[src]').forEach((scriptNode) => {
+          const value = scriptNode.getAttribute('src');
+          if (!value) return;
+          if (isExternalAssetUrl(value)) {
+            const normalized = normalizeExternalResource(value, 'script');
+            if (!normalized) {
+              scriptNode.remove();
+              unresolved.add(`${pagePath} -> removed unsupported external script: ${value}`);
+              return;
+            }
+            scriptNode.setAttribute('src', normalized);
+            scriptNode.removeAttribute('integrity');
+            if (normalized !== value) {
+              resolved.add(`${pagePath} -> ${value}`);
+            }
             return;
           }
-          scriptNode.setAttribute('src', normalized);
-          scriptNode.removeAttribute('integrity');
-          if (normalized !== value) {
-            resolved.add(`${entryHtmlPath} -> ${value}`);
+          const url = resolveToResourceUrl(pagePath, value);
+          if (url) {
+            scriptNode.setAttribute('src', url);
+          } else {
+            scriptNode.remove();
+            unresolved.add(`${pagePath} -> removed unresolved script: ${value}`);
           }
-          return;
-        }
-        const url = resolveToResourceUrl(entryHtmlPath, value);
-        if (url) {
-          scriptNode.setAttribute('src', url);
-        } else {
-          scriptNode.remove();
-          unresolved.add(`${entryHtmlPath} -> removed unresolved script: ${value}`);
-        }
-      });
+        });
 
-      documentNode.querySelectorAll('link[href]').forEach((linkNode) => {
-        const rel = String(linkNode.getAttribute('rel') || '').toLowerCase();
-        const handledRels = ['stylesheet', 'icon', 'shortcut icon', 'manifest', 'apple-touch-icon', 'apple-touch-icon-precomposed', 'preload', 'modulepreload'];
-        if (rel && !handledRels.includes(rel)) return;
-        const value = linkNode.getAttribute('href');
-        if (!value) return;
-        if (isExternalAssetUrl(value)) {
-          const normalized = normalizeExternalResource(value, 'style');
-          if (!normalized) {
-            linkNode.remove();
-            unresolved.add(`${entryHtmlPath} -> removed unsupported external resource: ${value}`);
+        documentNode.querySelectorAll('link[href]').forEach((linkNode) => {
+          const rel = String(linkNode.getAttribute('rel') || '').toLowerCase();
+          const handledRels = ['stylesheet', 'icon', 'shortcut icon', 'manifest', 'apple-touch-icon', 'apple-touch-icon-precomposed', 'preload', 'modulepreload'];
+          if (rel && !handledRels.includes(rel)) return;
+          const value = linkNode.getAttribute('href');
+          if (!value) return;
+          if (isExternalAssetUrl(value)) {
+            const normalized = normalizeExternalResource(value, 'style');
+            if (!normalized) {
+              linkNode.remove();
+              unresolved.add(`${pagePath} -> removed unsupported external resource: ${value}`);
+              return;
+            }
+            linkNode.setAttribute('href', normalized);
+            linkNode.removeAttribute('integrity');
+            if (normalized !== value) {
+              resolved.add(`${pagePath} -> ${value}`);
+            }
             return;
           }
-          linkNode.setAttribute('href', normalized);
-          linkNode.removeAttribute('integrity');
-          if (normalized !== value) {
-            resolved.add(`${entryHtmlPath} -> ${value}`);
+          const url = resolveToResourceUrl(pagePath, value);
+          if (url) {
+            linkNode.setAttribute('href', url);
+          } else {
+            // Remove unresolved link elements to prevent 404 errors
+            // For manifests, replace with empty JSON data-url; for others, remove entirely
+            if (rel === 'manifest') {
+              linkNode.setAttribute('href', 'data:application/json,{}');
+            } else {
+              linkNode.remove();
+            }
+            unresolved.add(`${pagePath} -> removed unresolved ${rel || 'link'}: ${value}`);
           }
-          return;
-        }
-        const url = resolveToResourceUrl(entryHtmlPath, value);
-        if (url) {
-          linkNode.setAttribute('href', url);
-        } else {
-          // Remove unresolved link elements to prevent 404 errors
-          // For manifests, replace with empty JSON data-url; for others, remove entirely
-          if (rel === 'manifest') {
-            linkNode.setAttribute('href', 'data:application/json,{}');
+        });
+
+        documentNode.querySelectorAll('source[srcset]').forEach((source) => {
+          const srcset = source.getAttribute('srcset');
+          if (!srcset) return;
+          const rewritten = srcset
+            .split(',')
+            .map((entry) => {
+              const parts = entry.trim().split(/\s+/);
+              if (parts.length === 0) return '';
+              const local = parts[0];
+              if (isExternalAssetUrl(local)) return entry;
+              const url = resolveToResourceUrl(pagePath, local);
+              if (!url) return ''; // drop unresolved srcset entries
+              return [url, ...parts.slice(1)].join(' ');
+            })
+            .filter(Boolean)
+            .join(', ');
+          if (rewritten) {
+            source.setAttribute('srcset', rewritten);
           } else {
-            linkNode.remove();
+            source.remove();
           }
-          unresolved.add(`${entryHtmlPath} -> removed unresolved ${rel || 'link'}: ${value}`);
-        }
-      });
+        });
 
-      documentNode.querySelectorAll('source[srcset]').forEach((source) => {
-        const srcset = source.getAttribute('srcset');
-        if (!srcset) return;
-        const rewritten = srcset
-          .split(',')
-          .map((entry) => {
-            const parts = entry.trim().split(/\s+/);
-            if (parts.length === 0) return '';
-            const local = parts[0];
-            if (isExternalAssetUrl(local)) return entry;
-            const url = resolveToResourceUrl(entryHtmlPath, local);
-            if (!url) return ''; // drop unresolved srcset entries
-            return [url, ...parts.slice(1)].join(' ');
-          })
-          .filter(Boolean)
-          .join(', ');
-        if (rewritten) {
-          source.setAttribute('srcset', rewritten);
-        } else {
-          source.remove();
+        documentNode.querySelectorAll('style').forEach((styleNode) => {
+          styleNode.textContent = rewriteCssUrls(styleNode.textContent || '', pagePath, resolveToResourceUrl);
+        });
+
+        // Prevent any remaining relative URLs from resolving against the parent page
+        if (!documentNode.querySelector('base')) {
+          const baseTag = documentNode.createElement('base');
+          baseTag.setAttribute('href', 'about:blank');
+          documentNode.head.prepend(baseTag);
         }
-      });
 
-      documentNode.querySelectorAll('style').forEach((styleNode) => {
-        styleNode.textContent = rewriteCssUrls(styleNode.textContent || '', entryHtmlPath, resolveToResourceUrl);
-      });
+        // Strip meta tags with local content URLs (og:image, twitter:image, etc.)
+        documentNode.querySelectorAll('meta[content]').forEach((metaNode) => {
+          const property = metaNode.getAttribute('property') || metaNode.getAttribute('name') || '';
+          if (!/(image|url|icon)/i.test(property)) return;
+          const content = metaNode.getAttribute('content') || '';
+          if (!content || isExternalAssetUrl(content) || content.startsWith('data:')) return;
+          // It's a local URL reference in meta — try to resolve, remove if not found
+          const url = resolveToResourceUrl(pagePath, content);
+          if (url) {
+            metaNode.setAttribute('content', url);
+          } else {
+            metaNode.remove();
+            unresolved.add(`${pagePath} -> removed unresolved meta ${property}: ${content}`);
+          }
+        });
 
-      // Prevent any remaining relative URLs from resolving against the parent page
-      if (!documentNode.querySelector('base')) {
-        const baseTag = documentNode.createElement('base');
-        baseTag.setAttribute('href', 'about:blank');
-        documentNode.head.prepend(baseTag);
-      }
+        documentNode.querySelectorAll('script:not([src])').forEach((scriptNode) => {
+          const isModule = scriptNode.getAttribute('type') === 'module';
+          const rawSource = scriptNode.textContent || '';
+          const nextSource = isModule
+            ? rewriteJavaScriptImports(rawSource, pagePath, resolveToResourceUrl)
+            : rawSource;
 
-      // Strip meta tags with local content URLs (og:image, twitter:image, etc.)
-      documentNode.querySelectorAll('meta[content]').forEach((metaNode) => {
-        const property = metaNode.getAttribute('property') || metaNode.getAttribute('name') || '';
-        if (!/(image|url|icon)/i.test(property)) return;
-        const content = metaNode.getAttribute('content') || '';
-        if (!content || isExternalAssetUrl(content) || content.startsWith('data:')) return;
-        // It's a local URL reference in meta — try to resolve, remove if not found
-        const url = resolveToResourceUrl(entryHtmlPath, content);
-        if (url) {
-          metaNode.setAttribute('content', url);
-        } else {
-          metaNode.remove();
-          unresolved.add(`${entryHtmlPath} -> removed unresolved meta ${property}: ${content}`);
-        }
-      });
+          if (!isModule && !isValidClassicScript(nextSource)) {
+            sanitizedScriptCount += 1;
+            scriptNode.textContent = '/* Simple Preview skipped malformed inline script. */';
+            scriptNode.setAttribute('data-apex-sanitized', 'script');
+            return;
+          }
 
-      documentNode.querySelectorAll('script:not([src])').forEach((scriptNode) => {
-        const isModule = scriptNode.getAttribute('type') === 'module';
-        const rawSource = scriptNode.textContent || '';
-        const nextSource = isModule
-          ? rewriteJavaScriptImports(rawSource, entryHtmlPath, resolveToResourceUrl)
-          : rawSource;
-
-        if (!isModule && !isValidClassicScript(nextSource)) {
-          sanitizedScriptCount += 1;
-          scriptNode.textContent = '/* Simple Preview skipped malformed inline script. */';
-          scriptNode.setAttribute('data-apex-sanitized', 'script');
-          return;
-        }
+          scriptNode.textContent = nextSource;
+        });
 
-        scriptNode.textContent = nextSource;
-      });
+        const inlineSvgCounts = sanitizeSvgNodes(documentNode);
+        sanitizedSvgPathCount += inlineSvgCounts.sanitizedPathCount;
+        sanitizedSvgViewBoxCount += inlineSvgCounts.sanitizedViewBoxCount;
 
-      const inlineSvgCounts = sanitizeSvgNodes(documentNode);
-      sanitizedSvgPathCount += inlineSvgCounts.sanitizedPathCount;
-      sanitizedSvgViewBoxCount += inlineSvgCounts.sanitizedViewBoxCount;
+        let htmlOutput = `<!doctype html>\n${documentNode.documentElement.outerHTML}`;
+        const validation = validatePreviewContent(htmlOutput);
+        if (!validation.valid) {
+          htmlOutput = repairTruncatedContent(htmlOutput, pagePath);
+        }
+        return htmlOutput;
+      };
 
-      let htmlOutput = `<!doctype html>\n${documentNode.documentElement.outerHTML}`;
-      const validation = validatePreviewContent(htmlOutput);
-      if (!validation.valid) {
-        htmlOutput = repairTruncatedContent(htmlOutput, entryHtmlPath || 'preview.html');
-      }
+      const builtPages: Record<string, string> = {};
+      pagePaths.forEach((pagePath) => {
+        builtPages[pagePath] = buildPageHtml(pagePath);
+      });
+      const htmlOutput = builtPages[entryHtmlPath];
+      const siteMapPath = allPaths.find((path) => path === 'site-map.json' || path.endsWith('/site-map.json'));
+      const nextRoutes = buildPreviewRoutes(
+        pagePaths,
+        entryHtmlPath,
+        siteMapPath ? String(pathToFile.get(siteMapPath)?.content || '') : null,
+        projectRootDir
+      );
 
       const noteParts: string[] = [];
       if (unresolved.size === 0) {
@@ -960,6 +962,16 @@ export const SimplePreview: React.FC<SimplePreviewProps> = ({ className }) => {
         unresolvedRefs: Array.from(unresolved).slice(0, 8),
         note: noteParts.join(' • ')
       };
+      const urlToPath = new Map<string, string>();
+      resourceUrlByPath.forEach((url, path) => urlToPath.set(url, path));
+      armConsoleBridge(urlToPath);
+      setPages(builtPages);
+      setRoutes(nextRoutes);
+      setHistory((prev) => {
+        const current = prev.entries[prev.index];
+        if (current && builtPages[current.file] !== undefined) return prev;
+        return pushPreviewHistory(EMPTY_PREVIEW_HISTORY, entryHtmlPath);
+      });
       setPreviewContent(htmlOutput);
       setPreviewMeta(nextMeta);
       publishSnapshot(htmlOutput, nextMeta);
@@ -967,7 +979,64 @@ export const SimplePreview: React.FC<SimplePreviewProps> = ({ className }) => {
       setError(`Failed to generate preview: ${(err as Error).message}`);
       setRuntimeState('error');
     }
-  }, [files, folderCount, htmlFiles, publishSnapshot]);
+  }, [armConsoleBridge, files, folderCount, htmlFiles, publishSnapshot]);
+
+  const currentEntry = history.entries[history.index] || null;
+  const currentPage = currentEntry && pages[currentEntry.file] !== undefined ? currentEntry.file : previewMeta.entryFile;
+  const currentHash = currentEntry && currentEntry.file === currentPage ? currentEntry.hash : '';
+  const currentRoute = currentPage ? routeForFile(currentPage, routes) : null;
+
+  useEffect(() => {
+    currentPageRef.current = currentPage;
+  }, [currentPage]);
+
+  const currentAddress = currentRoute ? `${currentRoute.path}${currentHash}` : '';
+
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    setAddressInput(currentAddress);
+    setAddressInvalid(false);
+  }, [currentAddress]);
+
+  const iframeContent = useMemo(() => {
+    const html = currentPage && pages[currentPage] !== undefined ? pages[currentPage] : previewContent;
+    return html && consoleBridgeToken ? injectPreviewConsoleBridge(html, consoleBridgeToken, currentHash) : html;
+  }, [consoleBridgeToken, currentHash, currentPage, pages, previewContent]);
+
+  const navigateTo = useCallback((file: string, hash = '') => {
+    setHistory((prev) => pushPreviewHistory(prev, file, hash));
+  }, []);
+
+  const handleAddressSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const target = resolvePreviewRouteInput(addressInput, routes);
+    if (!target) {
+      setAddressInvalid(true);
+      return;
+    }
+    navigateTo(target.file, target.hash);
+  };
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const bridge = consoleBridgeRef.current;
+      if (!bridge || !event.source) return;
+      const fromPrimary = Boolean(iframeRef.current && event.source === iframeRef.current.contentWindow);
+      const fromGrid = Array.from(gridFramesRef.current.values()).some((frame) => event.source === frame.contentWindow);
+      if (!fromPrimary && !fromGrid) return;
+      const navigation = parsePreviewNavigateMessage(event.data, bridge.token);
+      if (navigation) {
+        navigateTo(navigation.route, navigation.hash);
+        return;
+      }
+      // Grid copies render the same document; only the primary frame reports to the console.
+      if (!fromPrimary) return;
+      const entry = parsePreviewConsoleMessage(event.data, bridge.token, bridge.mapper);
+      if (entry) usePreviewStore.getState().addConsoleEntry(entry);
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [navigateTo]);
 
   useEffect(() => {
     if (filesHash === lastFilesHashRef.current) return;
@@ -1004,6 +1073,95 @@ export const SimplePreview: React.FC<SimplePreviewProps> = ({ className }) => {
 
   const viewState: 'empty' | 'error' | 'ready' = files.length === 0 ? 'empty' : error ? 'error' : 'ready';
 
+  useEffect(() => {
+    const node = stageRef.current;
+    if (!node || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(([entry]) => {
+      setStageSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [viewState]);
+
+  const viewportSize = resolvePreviewViewportSize(viewport);
+
+  const renderFrame = (key: string, size: PreviewViewportSize | null, scale: number, primary: boolean) => {
+    const frameProps = {
+      title: primary ? 'Simple Preview' : `Simple Preview (${key})`,
+      sandbox: 'allow-scripts allow-modals allow-popups allow-forms allow-presentation',
+      srcDoc: iframeContent
+    };
+    const ref = primary
+      ? iframeRef
+      : (node: HTMLIFrameElement | null) => {
+          if (node) gridFramesRef.current.set(key, node);
+          else gridFramesRef.current.delete(key);
+        };
+    const handlers = primary
+      ? {
+          onLoad: () => setRuntimeState('ready'),
+          onError: () => {
+            setRuntimeState('error');
+            setError('Preview iframe failed to load');
+          }
+        }
+      : {};
+
+    if (!size) {
+      return <iframe key={key} ref={ref} className="absolute inset-0 h-full w-full border-0" {...frameProps} {...handlers} />;
+    }
+    return (
+      <div
+        key={key}
+        className="shrink-0 overflow-hidden rounded-xl border border-white/10 bg-white shadow-[0_20px_60px_rgba(2,6,23,0.45)]"
+        style={{ width: size.width * scale, height: size.height * scale }}
+      >
+        <iframe
+          ref={ref}
+          className="border-0"
+          style={{ width: size.width, height: size.height, transform: `scale(${scale})`, transformOrigin: 'top left' }}
+          {...frameProps}
+          {...handlers}
+        />
+      </div>
+    );
+  };
+
+  const renderStage = () => {
+    const padding = 32;
+    if (viewport.grid) {
+      const gap = 16;
+      const cellBounds = {
+        width: (stageSize.width - padding - gap * (PREVIEW_GRID_PRESETS.length - 1)) / PREVIEW_GRID_PRESETS.length,
+        height: stageSize.height - padding - 22
+      };
+      return (
+        <div className="flex min-h-full items-start justify-center gap-4 p-4">
+          {PREVIEW_GRID_PRESETS.map((preset, index) => {
+            const size = resolvePreviewViewportSize({ preset, width: 0, height: 0, rotated: viewport.rotated }) as PreviewViewportSize;
+            return (
+              <div key={preset} className="flex flex-col items-center gap-1.5">
+                <div className="text-[10px] uppercase tracking-[0.15em] text-white/50">
+                  {PREVIEW_DEVICE_SIZES[preset].label} · {size.width}×{size.height}
+                </div>
+                {renderFrame(preset, size, fitPreviewScale(size, cellBounds), index === 0)}
+              </div>
+            );
+          })}
+        </div>
+      );
+    }
+    if (!viewportSize) return renderFrame('responsive', null, 1, true);
+    const scale = viewport.fit
+      ? fitPreviewScale(viewportSize, { width: stageSize.width - padding, height: stageSize.height - padding })
+      : 1;
+    return (
+      <div className="flex min-h-full min-w-fit items-start justify-center p-4">
+        {renderFrame('device', viewportSize, scale, true)}
+      </div>
+    );
+  };
+
   return (
     <div className={`relative w-full h-full overflow-hidden ${className || ''}`}>
       {viewState === 'empty' ? (
@@ -1061,6 +1219,11 @@ export const SimplePreview: React.FC<SimplePreviewProps> = ({ className }) => {
                 </div>
 
                 <div className="flex items-center gap-2">
+                  {previewErrorCount > 0 ? (
+                    <span className="rounded-full border border-red-400/30 bg-red-400/10 px-3 py-1 text-[11px] uppercase tracking-[0.15em] text-red-200">
+                      Console errors {previewErrorCount}
+                    </span>
+                  ) : null}
                   {previewMeta.autoMappedRefs > 0 ? (
                     <span className="rounded-full border border-cyan-300/30 bg-cyan-300/10 px-3 py-1 text-[11px] uppercase tracking-[0.15em] text-cyan-100">
                       Auto-mapped {previewMeta.autoMappedRefs}
@@ -1121,18 +1284,141 @@ export const SimplePreview: React.FC<SimplePreviewProps> = ({ className }) => {
               </div>
             ) : null}
 
-            <iframe
-              ref={iframeRef}
-              className="w-full flex-1 min-h-0 border-0"
-              title="Simple Preview"
-              sandbox="allow-scripts allow-modals allow-popups allow-forms allow-presentation"
-              srcDoc={previewContent}
-              onLoad={() => setRuntimeState('ready')}
-              onError={() => {
-                setRuntimeState('error');
-                setError('Preview iframe failed to load');
-              }}
-            />
+            {previewMeta.mode === 'html' ? (
+              <form
+                onSubmit={handleAddressSubmit}
+                className="flex items-center gap-2 border-b border-white/10 bg-black/20 px-3 py-2"
+              >
+                <button
+                  type="button"
+                  onClick={() => setHistory((prev) => stepPreviewHistory(prev, -1))}
+                  disabled={history.index <= 0}
+                  className="rounded-lg p-1.5 text-white/70 transition hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="Back"
+                >
+                  <ArrowLeft className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setHistory((prev) => stepPreviewHistory(prev, 1))}
+                  disabled={history.index >= history.entries.length - 1}
+                  className="rounded-lg p-1.5 text-white/70 transition hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="Forward"
+                >
+                  <ArrowRight className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={generatePreview}
+                  className="rounded-lg p-1.5 text-white/70 transition hover:bg-white/10 hover:text-white"
+                  title="Reload page"
+                >
+                  <RotateCw className="h-3.5 w-3.5" />
+                </button>
+                <input
+                  value={addressInput}
+                  onChange={(event) => {
+                    setAddressInput(event.target.value);
+                    setAddressInvalid(false);
+                  }}
+                  spellCheck={false}
+                  aria-label="Preview address"
+                  className={`min-w-0 flex-1 rounded-lg border bg-black/30 px-3 py-1 font-mono text-xs text-white/85 outline-none transition focus:border-cyan-300/40 ${
+                    addressInvalid ? 'border-red-400/50' : 'border-white/10'
+                  }`}
+                />
+                {routes.length > 1 ? (
+                  <select
+                    value={currentPage || ''}
+                    onChange={(event) => navigateTo(event.target.value)}
+                    aria-label="Preview page"
+                    className="max-w-[40%] rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-xs text-white/75"
+                  >
+                    {routes.map((route) => (
+                      <option key={route.file} value={route.file}>
+                        {route.title} — {route.path}
+                      </option>
+                    ))}
+                  </select>
+                ) : null}
+              </form>
+            ) : null}
+
+            <div className="flex flex-wrap items-center gap-2 border-b border-white/10 bg-black/10 px-3 py-1.5 text-xs text-white/70">
+              <Smartphone className="h-3.5 w-3.5 text-white/50" />
+              <select
+                value={viewport.preset}
+                onChange={(event) => updateViewport({ preset: event.target.value as PreviewDevicePreset, grid: false })}
+                aria-label="Device preset"
+                className="rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-xs text-white/75"
+              >
+                <option value="responsive">Responsive</option>
+                {(Object.keys(PREVIEW_DEVICE_SIZES) as Array<keyof typeof PREVIEW_DEVICE_SIZES>).map((preset) => (
+                  <option key={preset} value={preset}>
+                    {PREVIEW_DEVICE_SIZES[preset].label} ({PREVIEW_DEVICE_SIZES[preset].width}×{PREVIEW_DEVICE_SIZES[preset].height})
+                  </option>
+                ))}
+                <option value="custom">Custom</option>
+              </select>
+              {viewport.preset === 'custom' ? (
+                <span className="inline-flex items-center gap-1">
+                  <input
+                    type="number"
+                    key={`w-${viewport.width}`}
+                    defaultValue={viewport.width}
+                    onBlur={(event) => updateViewport({ width: Number(event.target.value) })}
+                    aria-label="Viewport width"
+                    className="w-16 rounded-lg border border-white/10 bg-black/30 px-2 py-1 text-xs text-white/85"
+                  />
+                  ×
+                  <input
+                    type="number"
+                    key={`h-${viewport.height}`}
+                    defaultValue={viewport.height}
+                    onBlur={(event) => updateViewport({ height: Number(event.target.value) })}
+                    aria-label="Viewport height"
+                    className="w-16 rounded-lg border border-white/10 bg-black/30 px-2 py-1 text-xs text-white/85"
+                  />
+                </span>
+              ) : null}
+              {viewportSize && !viewport.grid ? (
+                <span className="font-mono text-[11px] text-white/45">
+                  {viewportSize.width}×{viewportSize.height}
+                </span>
+              ) : null}
+              <div className="ml-auto flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => updateViewport({ rotated: !viewport.rotated })}
+                  disabled={viewport.preset === 'responsive' && !viewport.grid}
+                  className={`rounded-lg p-1.5 transition hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent ${viewport.rotated ? 'text-cyan-200' : ''}`}
+                  title="Rotate"
+                >
+                  <RotateCw className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => updateViewport({ fit: !viewport.fit })}
+                  disabled={!viewportSize || viewport.grid}
+                  className={`rounded-lg p-1.5 transition hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent ${viewport.fit ? 'text-cyan-200' : ''}`}
+                  title="Zoom to fit"
+                >
+                  <Maximize2 className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => updateViewport({ grid: !viewport.grid })}
+                  className={`rounded-lg p-1.5 transition hover:bg-white/10 hover:text-white ${viewport.grid ? 'text-cyan-200' : ''}`}
+                  title="Breakpoint grid"
+                >
+                  <LayoutGrid className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </div>
+
+            <div ref={stageRef} className="relative min-h-0 flex-1 overflow-auto bg-black/30">
+              {renderStage()}
+            </div>
           </div>
 
           <button
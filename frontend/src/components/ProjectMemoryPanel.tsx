@@ -0,0 +1,330 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { Check, Lock, Pencil, Pin, Plus, Trash2, Unlock, X } from 'lucide-react';
+import { useLanguage } from '@/context/LanguageContext';
+import { useProjectMemoryStore } from '@/stores/projectMemoryStore';
+import { useProjectStore } from '@/stores/projectStore';
+import type { ProjectMemoryCategory, ProjectMemoryFact } from '@/types/context';
+
+const CATEGORIES: ProjectMemoryCategory[] = ['constraint', 'decision', 'file', 'task'];
+
+const Wrapper = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 10px;
+  padding: 12px;
+`;
+
+const SectionLabel = styled.div`
+  font-size: 10px;
+  font-weight: 800;
+  letter-spacing: 0.12em;
+  text-transform: uppercase;
+  color: rgba(255, 255, 255, 0.38);
+  padding: 0 2px;
+`;
+
+const Hint = styled.div`
+  font-size: 11px;
+  line-height: 1.5;
+  color: rgba(255, 255, 255, 0.5);
+  padding: 0 2px;
+`;
+
+const Composer = styled.form`
+  display: grid;
+  gap: 6px;
+  padding: 10px;
+  border-radius: 12px;
+  border: 1px solid rgba(255, 255, 255, 0.08);
+  background: rgba(255, 255, 255, 0.03);
+`;
+
+const TextArea = styled.textarea`
+  min-height: 52px;
+  resize: vertical;
+  border-radius: 8px;
+  border: 1px solid rgba(255, 255, 255, 0.14);
+  background: rgba(0, 0, 0, 0.26);
+  color: rgba(255, 255, 255, 0.96);
+  padding: 6px 8px;
+  font-size: 12px;
+  font-family: inherit;
+  outline: none;
+
+  &:focus {
+    border-color: rgba(34, 211, 238, 0.46);
+  }
+`;
+
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  flex-wrap: wrap;
+`;
+
+const Select = styled.select`
+  height: 28px;
+  border-radius: 8px;
+  border: 1px solid rgba(255, 255, 255, 0.14);
+  background: rgba(0, 0, 0, 0.36);
+  color: rgba(255, 255, 255, 0.92);
+  padding: 0 6px;
+  font-size: 11px;
+  outline: none;
+`;
+
+const CheckLabel = styled.label`
+  display: inline-flex;
+  align-items: center;
+  gap: 5px;
+  font-size: 11px;
+  color: rgba(255, 255, 255, 0.75);
+  cursor: pointer;
+`;
+
+const Spacer = styled.span`
+  flex: 1;
+`;
+
+const ActionButton = styled.button`
+  height: 28px;
+  border-radius: 8px;
+  border: 1px solid rgba(34, 211, 238, 0.2);
+  background: rgba(34, 211, 238, 0.07);
+  color: rgba(255, 255, 255, 0.85);
+  font-size: 11px;
+  font-weight: 800;
+  padding: 0 10px;
+  display: inline-flex;
+  align-items: center;
+  gap: 6px;
+  cursor: pointer;
+
+  &:hover:not(:disabled) {
+    border-color: rgba(34, 211, 238, 0.45);
+    background: rgba(34, 211, 238, 0.14);
+  }
+
+  &:disabled {
+    opacity: 0.45;
+    cursor: not-allowed;
+  }
+`;
+
+const FactCard = styled.div<{ $permanent: boolean }>`
+  display: grid;
+  gap: 6px;
+  padding: 9px 10px;
+  border-radius: 12px;
+  border: 1px solid ${(p) => (p.$permanent ? 'rgba(245, 158, 11, 0.32)' : 'rgba(255, 255, 255, 0.07)')};
+  background: ${(p) => (p.$permanent ? 'rgba(245, 158, 11, 0.06)' : 'rgba(255, 255, 255, 0.03)')};
+`;
+
+const FactText = styled.div`
+  font-size: 12px;
+  line-height: 1.5;
+  color: rgba(255, 255, 255, 0.9);
+  white-space: pre-wrap;
+  word-break: break-word;
+`;
+
+const MetaChip = styled.span`
+  display: inline-flex;
+  align-items: center;
+  gap: 4px;
+  font-size: 10.5px;
+  color: rgba(255, 255, 255, 0.42);
+`;
+
+const IconButton = styled.button<{ $active?: boolean }>`
+  width: 26px;
+  height: 26px;
+  border: 0;
+  border-radius: 7px;
+  background: ${(p) => (p.$active ? 'rgba(34, 211, 238, 0.14)' : 'transparent')};
+  color: ${(p) => (p.$active ? 'rgba(103, 232, 249, 0.95)' : 'rgba(255, 255, 255, 0.55)')};
+  cursor: pointer;
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+
+  &:hover {
+    background: rgba(255, 255, 255, 0.08);
+    color: rgba(255, 255, 255, 0.92);
+  }
+`;
+
+const EmptyState = styled.div`
+  padding: 18px 14px;
+  border-radius: 14px;
+  border: 1px dashed rgba(255, 255, 255, 0.1);
+  background: rgba(255, 255, 255, 0.02);
+  color: rgba(255, 255, 255, 0.38);
+  font-size: 12px;
+  text-align: center;
+  line-height: 1.6;
+`;
+
+const ErrorLine = styled.div`
+  font-size: 11px;
+  color: rgba(252, 165, 165, 0.95);
+`;
+
+export const ProjectMemoryPanel: React.FC = () => {
+  const { t } = useLanguage();
+  const projectId = useProjectStore((state) => state.projectId);
+  const facts = useProjectMemoryStore((state) => state.facts);
+  const loaded = useProjectMemoryStore((state) => state.loaded);
+  const addFact = useProjectMemoryStore((state) => state.addFact);
+  const updateFact = useProjectMemoryStore((state) => state.updateFact);
+  const deleteFact = useProjectMemoryStore((state) => state.deleteFact);
+
+  const [text, setText] = useState('');
+  const [category, setCategory] = useState<ProjectMemoryCategory>('constraint');
+  const [permanent, setPermanent] = useState(true);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = (task: Promise<unknown>) => {
+    setError(null);
+    task.catch((err) => setError(err instanceof Error ? err.message : String(err)));
+  };
+
+  const visible = facts.filter((fact) => !fact.dismissed);
+  const rules = visible.filter((fact) => fact.permanent);
+  const pinned = visible.filter((fact) => !fact.permanent && fact.pinned);
+  const captured = visible.filter((fact) => !fact.permanent && !fact.pinned);
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!text.trim()) return;
+    run(addFact(text, { category, permanent }).then(() => setText('')));
+  };
+
+  const saveEdit = () => {
+    if (!editing) return;
+    run(updateFact(editing.id, { text: editing.text }).then(() => setEditing(null)));
+  };
+
+  const renderFact = (fact: ProjectMemoryFact) => (
+    <FactCard key={fact.id} $permanent={fact.permanent}>
+      {editing?.id === fact.id ? (
+        <TextArea
+          autoFocus
+          value={editing.text}
+          onChange={(event) => setEditing({ id: fact.id, text: event.target.value })}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) saveEdit();
+            if (event.key === 'Escape') setEditing(null);
+          }}
+        />
+      ) : (
+        <FactText>{fact.text}</FactText>
+      )}
+      <Row>
+        <MetaChip>{t(`app.memory.category.${fact.category}`)}</MetaChip>
+        <MetaChip>· {t(`app.memory.source.${fact.source}`)}</MetaChip>
+        {fact.relatedFiles.length > 0 ? <MetaChip title={fact.relatedFiles.join('\n')}>· {fact.relatedFiles.slice(0, 2).join(', ')}</MetaChip> : null}
+        <Spacer />
+        {editing?.id === fact.id ? (
+          <>
+            <IconButton type="button" title={t('app.memory.save')} onClick={saveEdit}>
+              <Check size={13} />
+            </IconButton>
+            <IconButton type="button" title={t('app.memory.cancel')} onClick={() => setEditing(null)}>
+              <X size={13} />
+            </IconButton>
+          </>
+        ) : (
+          <>
+            <IconButton
+              type="button"
+              $active={fact.permanent}
+              title={fact.permanent ? t('app.memory.unmarkPermanent') : t('app.memory.markPermanent')}
+              onClick={() => run(updateFact(fact.id, { permanent: !fact.permanent }))}
+            >
+              {fact.permanent ? <Lock size={13} /> : <Unlock size={13} />}
+            </IconButton>
+            <IconButton
+              type="button"
+              $active={fact.pinned}
+              title={fact.pinned ? t('app.memory.unpin') : t('app.memory.pin')}
+              onClick={() => run(updateFact(fact.id, { pinned: !fact.pinned }))}
+            >
+              <Pin size={13} />
+            </IconButton>
+            <IconButton type="button" title={t('app.memory.edit')} onClick={() => setEditing({ id: fact.id, text: fact.text })}>
+              <Pencil size={13} />
+            </IconButton>
+            <IconButton type="button" title={t('app.memory.delete')} onClick={() => run(deleteFact(fact.id))}>
+              <Trash2 size={13} />
+            </IconButton>
+          </>
+        )}
+      </Row>
+    </FactCard>
+  );
+
+  if (!projectId) {
+    return (
+      <Wrapper>
+        <EmptyState>{t('app.memory.noProject')}</EmptyState>
+      </Wrapper>
+    );
+  }
+
+  return (
+    <Wrapper>
+      <Hint>{t('app.memory.hint')}</Hint>
+      <Composer onSubmit={handleAdd}>
+        <TextArea value={text} placeholder={t('app.memory.placeholder')} onChange={(event) => setText(event.target.value)} />
+        <Row>
+          <Select value={category} onChange={(event) => setCategory(event.target.value as ProjectMemoryCategory)}>
+            {CATEGORIES.map((item) => (
+              <option key={item} value={item}>
+                {t(`app.memory.category.${item}`)}
+              </option>
+            ))}
+          </Select>
+          <CheckLabel>
+            <input type="checkbox" checked={permanent} onChange={(event) => setPermanent(event.target.checked)} />
+            {t('app.memory.permanent')}
+          </CheckLabel>
+          <Spacer />
+          <ActionButton type="submit" disabled={!text.trim()}>
+            <Plus size={12} />
+            {t('app.memory.add')}
+          </ActionButton>
+        </Row>
+      </Composer>
+      {error ? <ErrorLine>{error}</ErrorLine> : null}
+
+      <SectionLabel>
+        {t('app.memory.rules')} — {rules.length}
+      </SectionLabel>
+      {rules.length === 0 ? <EmptyState>{t('app.memory.rulesEmpty')}</EmptyState> : rules.map(renderFact)}
+
+      {pinned.length > 0 ? (
+        <>
+          <SectionLabel>
+            {t('app.memory.pinned')} — {pinned.length}
+          </SectionLabel>
+          {pinned.map(renderFact)}
+        </>
+      ) : null}
+
+      <SectionLabel>
+        {t('app.memory.captured')} — {captured.length}
+      </SectionLabel>
+      {!loaded ? (
+        <EmptyState>{t('app.memory.loading')}</EmptyState>
+      ) : captured.length === 0 ? (
+        <EmptyState>{t('app.memory.capturedEmpty')}</EmptyState>
+      ) : (
+        captured.map(renderFact)
+      )}
+    </Wrapper>
+  );
+};
@@ -0,0 +1,351 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import styled from 'styled-components';
+import { ChevronDown, ChevronRight, Copy, FileArchive, FilePlus2, FolderInput, FolderOpen, Pencil, Trash2 } from 'lucide-react';
+import { useAIStore } from '@/stores/aiStore';
+import { useProjectStore } from '@/stores/projectStore';
+import { useLanguage } from '@/context/LanguageContext';
+import type { WorkspaceProjectSummary } from '@/utils/workspaceDb';
+import {
+  readDroppedImport,
+  readFileListImport,
+  readZipImport,
+  type ProjectImportResult
+} from '@/utils/projectImport';
+
+const Wrapper = styled.div<{ $dropping?: boolean }>`
+  display: grid;
+  gap: 6px;
+  border-radius: 12px;
+  outline: 1px dashed ${(p) => (p.$dropping ? 'rgba(59, 130, 246, 0.6)' : 'transparent')};
+  outline-offset: 3px;
+`;
+
+const Toggle = styled.button`
+  width: 100%;
+  height: 34px;
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 0 10px;
+  border-radius: 10px;
+  border: 1px solid rgba(255, 255, 255, 0.08);
+  background: rgba(255, 255, 255, 0.03);
+  color: rgba(255, 255, 255, 0.85);
+  font-size: 12px;
+  font-weight: 600;
+  cursor: pointer;
+  transition: all 0.18s ease;
+
+  &:hover:not(:disabled) {
+    border-color: rgba(59, 130, 246, 0.3);
+    background: rgba(59, 130, 246, 0.08);
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const ToggleLabel = styled.span`
+  flex: 1;
+  min-width: 0;
+  text-align: start;
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+`;
+
+const List = styled.div`
+  display: grid;
+  gap: 4px;
+  max-height: 220px;
+  overflow-y: auto;
+  padding: 4px;
+  border-radius: 12px;
+  border: 1px solid rgba(255, 255, 255, 0.06);
+  background: rgba(0, 0, 0, 0.2);
+`;
+
+const Row = styled.div<{ $active?: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: 4px;
+  padding: 2px 4px 2px 2px;
+  border-radius: 8px;
+  border: 1px solid ${(p) => (p.$active ? 'rgba(59, 130, 246, 0.25)' : 'transparent')};
+  background: ${(p) => (p.$active ? 'rgba(59, 130, 246, 0.12)' : 'transparent')};
+
+  &:hover {
+    background: ${(p) => (p.$active ? 'rgba(59, 130, 246, 0.16)' : 'rgba(255, 255, 255, 0.05)')};
+  }
+`;
+
+const OpenButton = styled.button`
+  flex: 1;
+  min-width: 0;
+  display: grid;
+  gap: 2px;
+  padding: 6px 8px;
+  border: none;
+  background: transparent;
+  color: inherit;
+  text-align: start;
+  cursor: pointer;
+
+  &:disabled {
+    cursor: default;
+  }
+`;
+
+const ProjectName = styled.span`
+  font-size: 12px;
+  font-weight: 600;
+  color: rgba(255, 255, 255, 0.9);
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+`;
+
+const ProjectMeta = styled.span`
+  font-size: 10px;
+  color: rgba(255, 255, 255, 0.45);
+`;
+
+const IconButton = styled.button`
+  width: 26px;
+  height: 26px;
+  flex-shrink: 0;
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  border-radius: 7px;
+  border: 1px solid transparent;
+  background: transparent;
+  color: rgba(255, 255, 255, 0.5);
+  cursor: pointer;
+
+  &:hover:not(:disabled) {
+    color: rgba(255, 255, 255, 0.95);
+    border-color: rgba(255, 255, 255, 0.1);
+    background: rgba(255, 255, 255, 0.06);
+  }
+
+  &:disabled {
+    opacity: 0.4;
+    cursor: not-allowed;
+  }
+`;
+
+const Empty = styled.div`
+  padding: 10px;
+  font-size: 12px;
+  color: rgba(255, 255, 255, 0.45);
+  text-align: center;
+`;
+
+const ImportRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 4px;
+  padding: 0 4px;
+`;
+
+const ImportLabel = styled.span`
+  flex: 1;
+  min-width: 0;
+  font-size: 10px;
+  color: rgba(255, 255, 255, 0.45);
+`;
+
+const Notice = styled.div<{ $error?: boolean }>`
+  padding: 0 6px;
+  font-size: 11px;
+  line-height: 1.4;
+  color: ${(p) => (p.$error ? 'rgba(252, 165, 165, 0.95)' : 'rgba(255, 255, 255, 0.6)')};
+`;
+
+const formatUpdatedAt = (timestamp: number) => {
+  if (!timestamp) return '';
+  return new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+};
+
+export const ProjectSwitcher: React.FC = () => {
+  const { t } = useLanguage();
+  const projectId = useProjectStore((state) => state.projectId);
+  const projectName = useProjectStore((state) => state.projectName);
+  const isHydrating = useProjectStore((state) => state.isHydrating);
+  const isGenerating = useAIStore((state) => state.isGenerating);
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [projects, setProjects] = useState<WorkspaceProjectSummary[]>([]);
+  const [dropping, setDropping] = useState(false);
+  const [notice, setNotice] = useState<{ text: string; error: boolean } | null>(null);
+  const zipInputRef = useRef<HTMLInputElement | null>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
+  const filesInputRef = useRef<HTMLInputElement | null>(null);
+
+  const refresh = useCallback(async () => {
+    setProjects(await useProjectStore.getState().listProjects());
+  }, []);
+
+  useEffect(() => {
+    if (open) void refresh();
+  }, [open, projectId, refresh]);
+
+  const run = useCallback(
+    async (task: () => Promise<void>) => {
+      setBusy(true);
+      try {
+        await task();
+      } finally {
+        setBusy(false);
+        await refresh();
+      }
+    },
+    [refresh]
+  );
+
+  const handleOpen = (project: WorkspaceProjectSummary) => {
+    if (project.projectId === projectId) return;
+    void run(() => useProjectStore.getState().hydrateFromDisk(project.projectId));
+  };
+
+  const handleRename = (project: WorkspaceProjectSummary) => {
+    const name = window.prompt(t('app.projects.renamePrompt'), project.projectName);
+    if (name === null || !name.trim()) return;
+    void run(() => useProjectStore.getState().renameProject(project.projectId, name));
+  };
+
+  const handleDuplicate = (project: WorkspaceProjectSummary) => {
+    void run(async () => {
+      await useProjectStore.getState().duplicateProject(project.projectId);
+    });
+  };
+
+  const handleDelete = (project: WorkspaceProjectSummary) => {
+    const label = project.projectName || t('app.header.untitled');
+    if (!window.confirm(`${t('app.projects.deleteConfirm')} "${label}"?`)) return;
+    void run(() => useProjectStore.getState().deleteProject(project.projectId));
+  };
+
+  const locked = busy || isHydrating || isGenerating;
+
+  const runImport = (read: () => Promise<ProjectImportResult | null>) => {
+    if (locked) return;
+    setNotice(null);
+    void run(async () => {
+      try {
+        const result = await read();
+        if (!result) return;
+        const imported = await useProjectStore.getState().importProject(result);
+        setNotice(
+          imported
+            ? {
+                text: t('app.projects.imported')
+                  .replace('{count}', String(result.files.length))
+                  .replace('{skipped}', String(result.skipped.length)),
+                error: false
+              }
+            : { text: t('app.projects.importEmpty'), error: true }
+        );
+      } catch (err) {
+        setNotice({ text: `${t('app.projects.importFailed')} ${err instanceof Error ? err.message : ''}`.trim(), error: true });
+      }
+    });
+  };
+
+  const handlePicked = (event: React.ChangeEvent<HTMLInputElement>, kind: 'zip' | 'files') => {
+    const picked = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (picked.length === 0) return;
+    runImport(() => (kind === 'zip' ? readZipImport(picked[0]) : readFileListImport(picked, t('app.projects.importedName'))));
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDropping(false);
+    if (locked) return;
+    // Entries must be read from the DataTransfer before this handler returns.
+    const pending = readDroppedImport(event.dataTransfer);
+    runImport(() => pending);
+  };
+
+  return (
+    <Wrapper
+      $dropping={dropping}
+      onDragOver={(event) => {
+        if (locked || !event.dataTransfer.types.includes('Files')) return;
+        event.preventDefault();
+        setDropping(true);
+      }}
+      onDragLeave={() => setDropping(false)}
+      onDrop={handleDrop}
+    >
+      <Toggle type="button" onClick={() => setOpen((prev) => !prev)} aria-expanded={open} title={t('app.projects.title')}>
+        <FolderOpen size={14} />
+        <ToggleLabel>{projectName || t('app.header.untitled')}</ToggleLabel>
+        {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+      </Toggle>
+      {open && (
+        <List className="scrollbar-thin scrollbar-glass">
+          {projects.length === 0 ? (
+            <Empty>{t('app.projects.empty')}</Empty>
+          ) : (
+            projects.map((project) => (
+              <Row key={project.projectId} $active={project.projectId === projectId}>
+                <OpenButton
+                  type="button"
+                  onClick={() => handleOpen(project)}
+                  disabled={locked || project.projectId === projectId}
+                  title={t('app.projects.open')}
+                >
+                  <ProjectName>{project.projectName || t('app.header.untitled')}</ProjectName>
+                  <ProjectMeta>
+                    {project.fileCount} {t('app.projects.files')} · {formatUpdatedAt(project.updatedAt)}
+                  </ProjectMeta>
+                </OpenButton>
+                <IconButton type="button" onClick={() => handleRename(project)} disabled={locked} title={t('app.projects.rename')}>
+                  <Pencil size={12} />
+                </IconButton>
+                <IconButton type="button" onClick={() => handleDuplicate(project)} disabled={locked} title={t('app.projects.duplicate')}>
+                  <Copy size={12} />
+                </IconButton>
+                <IconButton type="button" onClick={() => handleDelete(project)} disabled={locked} title={t('app.projects.delete')}>
+                  <Trash2 size={12} />
+                </IconButton>
+              </Row>
+            ))
+          )}
+        </List>
+      )}
+      {open && (
+        <ImportRow>
+          <ImportLabel>{t('app.projects.importHint')}</ImportLabel>
+          <IconButton type="button" onClick={() => zipInputRef.current?.click()} disabled={locked} title={t('app.projects.importZip')}>
+            <FileArchive size={12} />
+          </IconButton>
+          <IconButton type="button" onClick={() => folderInputRef.current?.click()} disabled={locked} title={t('app.projects.importFolder')}>
+            <FolderInput size={12} />
+          </IconButton>
+          <IconButton type="button" onClick={() => filesInputRef.current?.click()} disabled={locked} title={t('app.projects.importFiles')}>
+            <FilePlus2 size={12} />
+          </IconButton>
+        </ImportRow>
+      )}
+      {notice && <Notice $error={notice.error}>{notice.text}</Notice>}
+      <input ref={zipInputRef} type="file" accept=".zip,application/zip" hidden onChange={(event) => handlePicked(event, 'zip')} />
+      <input
+        ref={(el) => {
+          folderInputRef.current = el;
+          el?.setAttribute('webkitdirectory', '');
+        }}
+        type="file"
+        multiple
+        hidden
+        onChange={(event) => handlePicked(event, 'files')}
+      />
+      <input ref={filesInputRef} type="file" multiple hidden onChange={(event) => handlePicked(event, 'files')} />
+    </Wrapper>
+  );
+};
@@ -1,13 +1,15 @@
-import React, { useCallback, useMemo, useState } from 'react';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
 import styled, { keyframes, css } from 'styled-components';
-import { ChevronDown, ChevronRight, Database, FileText, Folder, Settings, User } from 'lucide-react';
+import { ChevronDown, ChevronRight, Database, FileText, Folder, ImagePlus, Settings, User } from 'lucide-react';
 import { useAIStore } from '@/stores/aiStore';
 import { useProjectStore } from '@/stores/projectStore';
 import { usePreviewStore } from '@/stores/previewStore';
 import { useLanguage } from '@/context/LanguageContext';
 import { FileSystem } from '@/types';
 import { getLanguageFromExtension } from '@/utils/stackDetector';
+import { createBinaryFile, isBinaryAssetPath, MAX_BINARY_ASSET_BYTES } from '@/utils/binaryAssets';
 import { LanguageIconBadge } from '@/components/files/LanguageIconBadge';
+import { ProjectSwitcher } from '@/components/ProjectSwitcher';
 import { motion, AnimatePresence } from 'framer-motion';
 
 type SidebarTab = 'files' | 'database';
@@ -142,6 +144,36 @@ const TabButton = styled.button<{ $active?: boolean }>`
   }
 `;
 
+const HeaderIconButton = styled.button`
+  width: 28px;
+  height: 28px;
+  border-radius: 8px;
+  border: 1px solid rgba(255, 255, 255, 0.08);
+  background: rgba(255, 255, 255, 0.03);
+  color: rgba(255, 255, 255, 0.6);
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  cursor: pointer;
+  transition: all 0.2s ease;
+
+  &:hover:not(:disabled) {
+    color: rgba(255, 255, 255, 0.95);
+    border-color: rgba(34, 211, 238, 0.35);
+    background: rgba(34, 211, 238, 0.08);
+  }
+
+  &:disabled {
+    opacity: 0.4;
+    cursor: not-allowed;
+  }
+`;
+
+const HeaderNotice = styled.div`
+  font-size: 11px;
+  color: rgba(252, 211, 77, 0.9);
+`;
+
 const Body = styled.div`
   flex: 1;
   min-height: 0;
@@ -508,7 +540,9 @@ export const Sidebar: React.FC<SidebarProps> = ({ className, onOpenSettings }) =
   const [tab, setTab] = useState<SidebarTab>('files');
   const [openNodes, setOpenNodes] = useState<Record<string, boolean>>({});
   const { files, fileStatuses, writingFilePath } = useAIStore();
-  const { activeFile, setActiveFile, files: flatFiles, isHydrating, stack } = useProjectStore();
+  const { activeFile, setActiveFile, files: flatFiles, isHydrating, stack, upsertFile } = useProjectStore();
+  const assetInputRef = useRef<HTMLInputElement | null>(null);
+  const [assetNotice, setAssetNotice] = useState<string | null>(null);
   const { runtimeStatus } = usePreviewStore();
 
   const toggleNode = useCallback((path: string) => {
@@ -567,6 +601,23 @@ export const Sidebar: React.FC<SidebarProps> = ({ className, onOpenSettings }) =
     return text.trim();
   }, [schemaSource]);
 
+  const handleAssetUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(event.target.files || []);
+    event.target.value = '';
+    const rejected: string[] = [];
+    let lastPath = '';
+    for (const file of picked) {
+      if (!isBinaryAssetPath(file.name) || file.size > MAX_BINARY_ASSET_BYTES) {
+        rejected.push(file.name);
+        continue;
+      }
+      lastPath = `assets/${file.name}`;
+      upsertFile(createBinaryFile(lastPath, file));
+    }
+    if (lastPath) setActiveFile(lastPath);
+    setAssetNotice(rejected.length > 0 ? `${t('app.sidebar.assetRejected')}: ${rejected.join(', ')}` : null);
+  };
+
   const renderTree = () => {
     if (isHydrating && tree.length === 0) {
       return (
@@ -607,7 +658,26 @@ export const Sidebar: React.FC<SidebarProps> = ({ className, onOpenSettings }) =
       <Header>
         <HeaderRow style={{ flexDirection: isRTL ? 'row-reverse' : 'row' }}>
           <HeaderTitle>{t('app.sidebar.files')}</HeaderTitle>
+          <HeaderIconButton
+            type="button"
+            title={t('app.sidebar.uploadAsset')}
+            aria-label={t('app.sidebar.uploadAsset')}
+            disabled={isHydrating}
+            onClick={() => assetInputRef.current?.click()}
+          >
+            <ImagePlus size={14} />
+          </HeaderIconButton>
+          <input
+            ref={assetInputRef}
+            type="file"
+            multiple
+            accept="image/*,font/*,audio/*,video/*,.woff,.woff2,.ttf,.otf,.eot,.ico,.pdf"
+            style={{ display: 'none' }}
+            onChange={handleAssetUpload}
+          />
         </HeaderRow>
+        {assetNotice ? <HeaderNotice>{assetNotice}</HeaderNotice> : null}
+        <ProjectSwitcher />
         <Tabs style={{ direction: isRTL ? 'rtl' : 'ltr' }}>
           <TabButton
             type="button"
@@ -1,10 +1,11 @@
 import React, { useMemo } from 'react';
 import styled from 'styled-components';
-import { History, FolderOpen, Clock, FileCode2 } from 'lucide-react';
+import { History, FolderOpen, Clock, FileCode2, Coins } from 'lucide-react';
 import { useAIStore, selectContextBudget } from '@/stores/aiStore';
 import { useProjectStore } from '@/stores/projectStore';
 import { FileSystem, ProjectFile } from '@/types';
 import { getLanguageFromExtension } from '@/utils/stackDetector';
+import { formatTokenCount, formatUsageCost } from '@/utils/tokenUsage';
 import { ContextPreview } from '@/components/ContextPreview';
 
 const Wrapper = styled.div`
@@ -283,6 +284,7 @@ export const SidebarHistory: React.FC = () => {
             const displayName = session.projectName || session.title || 'Untitled Session';
             const fileCount = flattenFileSystem(session.files).length;
             const budget = session.contextBudget || selectContextBudget(session.id);
+            const usage = session.usage;
             return (
               <SessionCard key={session.id} type="button" onClick={() => handleRestore(session.id)}>
                 <SessionIconWrap>
@@ -303,6 +305,12 @@ export const SidebarHistory: React.FC = () => {
                         {fileCount} file{fileCount !== 1 ? 's' : ''}
                       </SessionMetaChip>
                     )}
+                    {usage && usage.totalTokens > 0 && (
+                      <SessionMetaChip title={`${usage.requests} LLM call(s)`}>
+                        <Coins size={10} />
+                        {formatTokenCount(usage.totalTokens)} · {formatUsageCost(usage.costUsd)}
+                      </SessionMetaChip>
+                    )}
                     <SessionMetaChip style={{ marginLeft: 'auto', color: budget.status === 'critical' ? 'rgba(239,68,68,0.8)' : budget.status === 'warning' ? 'rgba(251,191,36,0.8)' : 'rgba(34,211,238,0.65)' }}>
                       ctx {budget.utilizationPct.toFixed(0)}%
                     </SessionMetaChip>
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { binaryAssetKind, formatAssetSize, getAssetObjectUrl } from '@/utils/binaryAssets';
+
+const Wrap = styled.div`
+  height: 100%;
+  width: 100%;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  justify-content: center;
+  gap: 14px;
+  padding: 16px;
+`;
+
+const Label = styled.div`
+  font-size: 12px;
+  font-weight: 600;
+  letter-spacing: 0.12em;
+  text-transform: uppercase;
+  color: rgba(255, 255, 255, 0.55);
+`;
+
+const Stage = styled.div<{ $checkered?: boolean }>`
+  max-width: 100%;
+  max-height: 62%;
+  overflow: auto;
+  border-radius: 16px;
+  border: 1px solid rgba(255, 255, 255, 0.15);
+  padding: 20px;
+  background: ${(p) =>
+    p.$checkered
+      ? 'repeating-conic-gradient(rgba(255, 255, 255, 0.07) 0% 25%, rgba(255, 255, 255, 0.02) 0% 50%) 50% / 16px 16px'
+      : 'rgba(255, 255, 255, 0.05)'};
+
+  img,
+  video {
+    display: block;
+    max-width: 100%;
+    max-height: 320px;
+    object-fit: contain;
+  }
+`;
+
+const FontSample = styled.div<{ $family: string }>`
+  font-family: ${(p) => p.$family}, sans-serif;
+  color: rgba(255, 255, 255, 0.92);
+  line-height: 1.3;
+  text-align: center;
+
+  div:first-child {
+    font-size: 34px;
+  }
+
+  div:last-child {
+    font-size: 16px;
+    margin-top: 8px;
+    color: rgba(255, 255, 255, 0.7);
+  }
+`;
+
+const Meta = styled.div`
+  font-size: 11px;
+  color: rgba(255, 255, 255, 0.45);
+  font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+`;
+
+interface BinaryAssetPreviewProps {
+  path: string;
+  blob: Blob;
+}
+
+const fontFamilyFor = (path: string) => `apex-asset-${path.replace(/[^a-z0-9]+/gi, '-')}`;
+
+export const BinaryAssetPreview: React.FC<BinaryAssetPreviewProps> = ({ path, blob }) => {
+  const kind = binaryAssetKind(path);
+  const url = getAssetObjectUrl(blob);
+  const name = path.split('/').pop() || path;
+  const [fontState, setFontState] = useState<'loading' | 'ready' | 'failed'>('loading');
+  const family = fontFamilyFor(path);
+
+  useEffect(() => {
+    if (kind !== 'font' || typeof FontFace === 'undefined') return;
+    let cancelled = false;
+    const face = new FontFace(family, `url(${url})`);
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    setFontState('loading');
+    face
+      .load()
+      .then((loaded) => {
+        if (cancelled) return;
+        document.fonts.add(loaded);
+        setFontState('ready');
+      })
+      .catch(() => {
+        if (!cancelled) setFontState('failed');
+      });
+    return () => {
+      cancelled = true;
+      document.fonts.delete(face);
+    };
+  }, [family, kind, url]);
+
+  return (
+    <Wrap>
+      <Label>{kind === 'other' ? 'Binary file' : `${kind} asset`}</Label>
+      {kind === 'image' ? (
+        <Stage $checkered>
+          {/* A blob: object URL, which next/image cannot optimize. */}
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={url} alt={name} />
+        </Stage>
+      ) : kind === 'font' ? (
+        <Stage>
+          {fontState === 'failed' ? (
+            <Meta>This font could not be loaded.</Meta>
+          ) : (
+            <FontSample $family={family} style={{ opacity: fontState === 'ready' ? 1 : 0.35 }}>
+              <div>Aa Bb Cc 0123</div>
+              <div>The quick brown fox jumps over the lazy dog</div>
+            </FontSample>
+          )}
+        </Stage>
+      ) : kind === 'audio' ? (
+        <Stage>
+          <audio src={url} controls />
+        </Stage>
+      ) : kind === 'video' ? (
+        <Stage>
+          <video src={url} controls />
+        </Stage>
+      ) : null}
+      <Meta>
+        {name} · {blob.type || 'application/octet-stream'} · {formatAssetSize(blob.size)}
+      </Meta>
+    </Wrap>
+  );
+};
@@ -0,0 +1,398 @@
+import React, { useMemo, useRef, useState } from 'react';
+import styled from 'styled-components';
+import { DiffEditor, type DiffOnMount } from '@monaco-editor/react';
+import { Check, X } from 'lucide-react';
+import { useLanguage } from '@/context/LanguageContext';
+import { useAIStore } from '@/stores/aiStore';
+import { useReviewStore, type ReviewChange, type ReviewChangeKind } from '@/stores/reviewStore';
+import { getLanguageFromExtension } from '@/utils/stackDetector';
+import { diffLines, lineDiffHunks } from '@/utils/workspaceDiff';
+
+interface ChangeReviewPanelProps {
+  onOpenFile: (path: string) => void;
+  onClose: () => void;
+}
+
+type MonacoDiffEditor = Parameters<DiffOnMount>[0];
+
+const Wrapper = styled.div`
+  height: 100%;
+  min-height: 0;
+  display: flex;
+  flex-direction: column;
+`;
+
+const Toolbar = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  padding: 10px 12px;
+  border-bottom: 1px solid rgba(255, 255, 255, 0.08);
+`;
+
+const Title = styled.div`
+  flex: 1;
+  min-width: 0;
+  font-size: 12px;
+  font-weight: 800;
+  color: rgba(255, 255, 255, 0.9);
+`;
+
+const ActionButton = styled.button<{ $primary?: boolean }>`
+  height: 30px;
+  border-radius: 8px;
+  border: 1px solid ${(p) => (p.$primary ? 'rgba(34, 211, 238, 0.4)' : 'rgba(255, 255, 255, 0.14)')};
+  background: ${(p) => (p.$primary ? 'rgba(34, 211, 238, 0.14)' : 'rgba(255, 255, 255, 0.04)')};
+  color: rgba(255, 255, 255, 0.88);
+  font-size: 11px;
+  font-weight: 800;
+  padding: 0 10px;
+  display: inline-flex;
+  align-items: center;
+  gap: 6px;
+  white-space: nowrap;
+  cursor: pointer;
+
+  &:hover:not(:disabled) {
+    border-color: rgba(34, 211, 238, 0.5);
+  }
+
+  &:disabled {
+    opacity: 0.45;
+    cursor: not-allowed;
+  }
+`;
+
+const IconButton = styled.button`
+  width: 28px;
+  height: 28px;
+  border: 0;
+  border-radius: 8px;
+  background: transparent;
+  color: rgba(255, 255, 255, 0.6);
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  cursor: pointer;
+
+  &:hover {
+    background: rgba(255, 255, 255, 0.08);
+    color: rgba(255, 255, 255, 0.92);
+  }
+`;
+
+const Summary = styled.div<{ $error?: boolean }>`
+  padding: 8px 12px;
+  font-size: 11px;
+  color: ${(p) => (p.$error ? 'rgba(252, 165, 165, 0.95)' : 'rgba(255, 255, 255, 0.5)')};
+`;
+
+const Body = styled.div`
+  flex: 1;
+  min-height: 0;
+  display: flex;
+`;
+
+const ChangeList = styled.div`
+  width: 240px;
+  flex: 0 0 auto;
+  overflow: auto;
+  padding: 8px;
+  border-right: 1px solid rgba(255, 255, 255, 0.08);
+`;
+
+const ChangeRow = styled.div<{ $selected: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  padding: 5px 6px;
+  border-radius: 7px;
+  background: ${(p) => (p.$selected ? 'rgba(34, 211, 238, 0.1)' : 'transparent')};
+  color: rgba(255, 255, 255, 0.88);
+  font-size: 12px;
+  cursor: pointer;
+
+  &:hover {
+    background: ${(p) => (p.$selected ? 'rgba(34, 211, 238, 0.12)' : 'rgba(255, 255, 255, 0.05)')};
+  }
+`;
+
+const FilePath = styled.span<{ $muted?: boolean }>`
+  flex: 1;
+  min-width: 0;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  opacity: ${(p) => (p.$muted ? 0.45 : 1)};
+  text-decoration: ${(p) => (p.$muted ? 'line-through' : 'none')};
+`;
+
+const KindBadge = styled.span<{ $kind: ReviewChangeKind }>`
+  flex: 0 0 auto;
+  font-size: 9px;
+  font-weight: 800;
+  text-transform: uppercase;
+  padding: 1px 6px;
+  border-radius: 999px;
+  color: ${(p) =>
+    p.$kind === 'create'
+      ? 'rgba(134, 239, 172, 0.95)'
+      : p.$kind === 'delete'
+        ? 'rgba(252, 165, 165, 0.95)'
+        : p.$kind === 'move'
+          ? 'rgba(253, 224, 71, 0.95)'
+          : 'rgba(103, 232, 249, 0.95)'};
+  background: rgba(255, 255, 255, 0.06);
+`;
+
+const DiffColumn = styled.div`
+  flex: 1;
+  min-width: 0;
+  display: flex;
+  flex-direction: column;
+`;
+
+const DiffHeader = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 6px 10px;
+  font-size: 11px;
+  color: rgba(255, 255, 255, 0.6);
+  border-bottom: 1px solid rgba(255, 255, 255, 0.06);
+`;
+
+const DiffSlot = styled.div`
+  flex: 1;
+  min-height: 0;
+`;
+
+const Notice = styled.div`
+  flex: 1;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  padding: 24px;
+  font-size: 12px;
+  color: rgba(255, 255, 255, 0.55);
+  text-align: center;
+`;
+
+const HunkList = styled.div`
+  max-height: 120px;
+  overflow: auto;
+  display: flex;
+  flex-wrap: wrap;
+  gap: 6px;
+  padding: 8px 10px;
+  border-top: 1px solid rgba(255, 255, 255, 0.08);
+`;
+
+const HunkChip = styled.label<{ $rejected: boolean }>`
+  display: inline-flex;
+  align-items: center;
+  gap: 6px;
+  padding: 3px 8px;
+  border-radius: 999px;
+  border: 1px solid ${(p) => (p.$rejected ? 'rgba(255, 255, 255, 0.12)' : 'rgba(34, 211, 238, 0.35)')};
+  color: ${(p) => (p.$rejected ? 'rgba(255, 255, 255, 0.45)' : 'rgba(255, 255, 255, 0.85)')};
+  font-family: 'JetBrains Mono', monospace;
+  font-size: 10px;
+  cursor: pointer;
+
+  button {
+    border: 0;
+    padding: 0;
+    background: transparent;
+    color: inherit;
+    font: inherit;
+    cursor: pointer;
+  }
+`;
+
+const Footer = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  padding: 8px 12px;
+  border-top: 1px solid rgba(255, 255, 255, 0.08);
+`;
+
+const Spacer = styled.span`
+  flex: 1;
+`;
+
+const DIFF_OPTIONS = {
+  readOnly: true,
+  renderSideBySide: true,
+  minimap: { enabled: false },
+  scrollBeyondLastLine: false,
+  automaticLayout: true,
+  fontSize: 12
+};
+
+const ChangeDetail: React.FC<{ change: ReviewChange }> = ({ change }) => {
+  const { t } = useLanguage();
+  const toggleHunk = useReviewStore((state) => state.toggleHunk);
+  const editorRef = useRef<MonacoDiffEditor | null>(null);
+  const hunks = useMemo(
+    () => (change.kind === 'edit' && change.after !== null ? lineDiffHunks(diffLines(change.before || '', change.after)) : []),
+    [change.kind, change.before, change.after]
+  );
+
+  if (change.kind === 'move' || change.kind === 'delete') {
+    return (
+      <Notice>
+        {change.kind === 'move'
+          ? t('app.review.moveNotice').replace('{from}', change.path).replace('{to}', change.toPath || '')
+          : t('app.review.deleteNotice').replace('{path}', change.path)}
+        {change.reason ? ` (${change.reason})` : ''}
+      </Notice>
+    );
+  }
+
+  const rejected = new Set(change.rejectedHunks);
+  return (
+    <>
+      <DiffSlot>
+        <DiffEditor
+          height="100%"
+          original={change.before || ''}
+          modified={change.after || ''}
+          language={getLanguageFromExtension(change.path)}
+          theme="vs-dark"
+          options={DIFF_OPTIONS}
+          onMount={(editor) => {
+            editorRef.current = editor;
+          }}
+        />
+      </DiffSlot>
+      {hunks.length > 1 ? (
+        <HunkList className="scrollbar-thin scrollbar-glass">
+          {hunks.map((hunk, index) => {
+            const isRejected = !change.accepted || rejected.has(index);
+            return (
+              <HunkChip key={index} $rejected={isRejected}>
+                <input type="checkbox" checked={!isRejected} onChange={() => toggleHunk(change.id, index)} />
+                <button
+                  type="button"
+                  title={t('app.review.revealHunk')}
+                  onClick={() => editorRef.current?.getModifiedEditor().revealLineInCenter(Math.max(1, hunk.afterLine))}
+                >
+                  {`@@ ${hunk.afterLine} +${hunk.additions} -${hunk.deletions}`}
+                </button>
+              </HunkChip>
+            );
+          })}
+        </HunkList>
+      ) : null}
+    </>
+  );
+};
+
+export const ChangeReviewPanel: React.FC<ChangeReviewPanelProps> = ({ onOpenFile, onClose }) => {
+  const { t } = useLanguage();
+  const changes = useReviewStore((state) => state.changes);
+  const selectedId = useReviewStore((state) => state.selectedId);
+  const isApplying = useReviewStore((state) => state.isApplying);
+  const isGenerating = useAIStore((state) => state.isGenerating);
+  const [notice, setNotice] = useState<{ text: string; error: boolean } | null>(null);
+
+  const review = useReviewStore.getState();
+  const selected = changes.find((change) => change.id === selectedId) || null;
+  const acceptedCount = changes.filter((change) => change.accepted).length;
+
+  const apply = async () => {
+    const result = await useReviewStore.getState().apply();
+    if (result.ok) {
+      onClose();
+      return;
+    }
+    setNotice({
+      text:
+        result.reason === 'stale'
+          ? t('app.review.stale').replace('{path}', result.path || '')
+          : t(result.reason === 'write' ? 'app.review.writeFailed' : 'app.review.backupFailed'),
+      error: true
+    });
+  };
+
+  const discard = () => {
+    review.discard();
+    onClose();
+  };
+
+  return (
+    <Wrapper>
+      <Toolbar>
+        <Title>{t('app.review.title').replace('{count}', String(changes.length))}</Title>
+        <ActionButton type="button" onClick={() => review.setAllAccepted(true)}>
+          <Check size={13} />
+          {t('app.review.acceptAll')}
+        </ActionButton>
+        <ActionButton type="button" onClick={() => review.setAllAccepted(false)}>
+          {t('app.review.rejectAll')}
+        </ActionButton>
+        <IconButton type="button" title={t('app.review.close')} aria-label={t('app.review.close')} onClick={onClose}>
+          <X size={15} />
+        </IconButton>
+      </Toolbar>
+
+      {notice ? <Summary $error={notice.error}>{notice.text}</Summary> : <Summary>{t('app.review.hint')}</Summary>}
+
+      <Body>
+        <ChangeList className="scrollbar-thin scrollbar-glass">
+          {changes.map((change) => (
+            <ChangeRow
+              key={change.id}
+              $selected={change.id === selectedId}
+              onClick={() => review.select(change.id)}
+              onDoubleClick={() => (change.kind === 'edit' ? onOpenFile(change.path) : undefined)}
+              title={change.toPath ? `${change.path} -> ${change.toPath}` : change.path}
+            >
+              <input
+                type="checkbox"
+                checked={change.accepted}
+                onClick={(event) => event.stopPropagation()}
+                onChange={(event) => review.setAccepted(change.id, event.target.checked)}
+              />
+              <FilePath $muted={!change.accepted}>{change.toPath ? `${change.path} -> ${change.toPath}` : change.path}</FilePath>
+              <KindBadge $kind={change.kind}>{t(`app.review.kind.${change.kind}`)}</KindBadge>
+            </ChangeRow>
+          ))}
+        </ChangeList>
+
+        <DiffColumn>
+          {selected ? (
+            <>
+              <DiffHeader>
+                <FilePath>{selected.path}</FilePath>
+                {selected.rejectedHunks.length > 0 ? (
+                  <span>{t('app.review.partial').replace('{count}', String(selected.rejectedHunks.length))}</span>
+                ) : null}
+              </DiffHeader>
+              <ChangeDetail key={selected.id} change={selected} />
+            </>
+          ) : (
+            <Notice>{t('app.review.empty')}</Notice>
+          )}
+        </DiffColumn>
+      </Body>
+
+      <Footer>
+        <ActionButton type="button" onClick={discard} disabled={isApplying}>
+          {t('app.review.discard')}
+        </ActionButton>
+        <Spacer />
+        <ActionButton
+          type="button"
+          $primary
+          disabled={isApplying || isGenerating || changes.length === 0}
+          onClick={() => void apply()}
+        >
+          {t('app.review.apply').replace('{count}', String(acceptedCount))}
+        </ActionButton>
+      </Footer>
+    </Wrapper>
+  );
+};
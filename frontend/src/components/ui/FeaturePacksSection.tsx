@@ -0,0 +1,493 @@
+import React, { useRef, useState } from 'react';
+import styled from 'styled-components';
+import { Check, Download, Pencil, Plus, Trash2, Upload, X } from 'lucide-react';
+import { useLanguage } from '@/context/LanguageContext';
+import { downloadService } from '@/services/downloadService';
+import { useFeaturePackStore } from '@/stores/featurePackStore';
+import type { FeaturePack, FeatureRule, FeatureRuleKind, ToolFeatureCategory, UserToolFeature } from '@/types/constraints';
+import { createEmptyFeatureRule, createEmptyUserFeature, userFeatureId } from '@/utils/featurePacks';
+
+interface FeaturePacksSectionProps {
+  selectedFeatures: string[];
+  onSelectFeatures: (featureIds: string[]) => void;
+}
+
+type PackDraft = Pick<FeaturePack, 'name' | 'description' | 'features'> & Partial<Pick<FeaturePack, 'id' | 'createdAt'>>;
+
+const CATEGORIES: ToolFeatureCategory[] = ['ui', 'ux', 'quality', 'integration'];
+const RULE_KINDS: FeatureRuleKind[] = ['html', 'css', 'js', 'pattern'];
+
+// Technical examples, shown untranslated.
+const RULE_PLACEHOLDERS: Record<FeatureRuleKind, { target: string; match?: string; scope?: string }> = {
+  html: { target: 'meta', match: 'property=^og:', scope: 'head' },
+  css: { target: 'font-family  |  @media', match: 'Inter', scope: 'prefers-color-scheme' },
+  js: { target: 'localStorage\\.setItem', match: '^theme$' },
+  pattern: { target: 'data-brand=' }
+};
+
+const Section = styled.section`
+  display: grid;
+  gap: 10px;
+`;
+
+const HeaderRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  flex-wrap: wrap;
+`;
+
+const SectionTitle = styled.div`
+  flex: 1;
+  font-size: 11px;
+  font-weight: 800;
+  letter-spacing: 0.12em;
+  text-transform: uppercase;
+  color: rgba(255, 255, 255, 0.58);
+`;
+
+const SmallButton = styled.button`
+  height: 28px;
+  border-radius: 8px;
+  border: 1px solid rgba(255, 255, 255, 0.16);
+  background: rgba(255, 255, 255, 0.06);
+  color: rgba(255, 255, 255, 0.9);
+  font-size: 11px;
+  font-weight: 700;
+  padding: 0 9px;
+  cursor: pointer;
+  display: inline-flex;
+  align-items: center;
+  gap: 5px;
+
+  &:hover:not(:disabled) {
+    background: rgba(255, 255, 255, 0.12);
+  }
+
+  &:disabled {
+    opacity: 0.45;
+    cursor: not-allowed;
+  }
+`;
+
+const Status = styled.div<{ $error: boolean }>`
+  font-size: 11px;
+  color: ${(p) => (p.$error ? 'rgba(252, 165, 165, 0.95)' : 'rgba(134, 239, 172, 0.9)')};
+`;
+
+const EmptyLine = styled.div`
+  font-size: 11px;
+  color: rgba(255, 255, 255, 0.52);
+  padding: 4px 2px;
+`;
+
+const PackCard = styled.div`
+  display: grid;
+  gap: 6px;
+  border-radius: 12px;
+  border: 1px solid rgba(255, 255, 255, 0.1);
+  background: rgba(255, 255, 255, 0.03);
+  padding: 10px;
+`;
+
+const PackName = styled.div`
+  flex: 1;
+  min-width: 0;
+  font-size: 12px;
+  font-weight: 800;
+  color: rgba(255, 255, 255, 0.94);
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const PackMeta = styled.div`
+  font-size: 11px;
+  line-height: 1.4;
+  color: rgba(255, 255, 255, 0.58);
+`;
+
+const FeatureCard = styled.div`
+  display: grid;
+  gap: 6px;
+  border-radius: 10px;
+  border: 1px solid rgba(255, 255, 255, 0.08);
+  background: rgba(0, 0, 0, 0.18);
+  padding: 8px;
+`;
+
+const FieldRow = styled.div`
+  display: flex;
+  gap: 6px;
+  align-items: center;
+`;
+
+const Input = styled.input`
+  flex: 1;
+  min-width: 0;
+  height: 30px;
+  border-radius: 8px;
+  border: 1px solid rgba(255, 255, 255, 0.14);
+  background: rgba(0, 0, 0, 0.26);
+  color: rgba(255, 255, 255, 0.96);
+  padding: 0 8px;
+  font-size: 12px;
+  outline: none;
+
+  &:focus {
+    border-color: rgba(34, 211, 238, 0.46);
+  }
+`;
+
+const TextArea = styled.textarea`
+  min-height: 54px;
+  resize: vertical;
+  border-radius: 8px;
+  border: 1px solid rgba(255, 255, 255, 0.14);
+  background: rgba(0, 0, 0, 0.26);
+  color: rgba(255, 255, 255, 0.96);
+  padding: 6px 8px;
+  font-size: 12px;
+  font-family: inherit;
+  outline: none;
+
+  &:focus {
+    border-color: rgba(34, 211, 238, 0.46);
+  }
+`;
+
+const Select = styled.select`
+  height: 30px;
+  border-radius: 8px;
+  border: 1px solid rgba(255, 255, 255, 0.14);
+  background: rgba(0, 0, 0, 0.36);
+  color: rgba(255, 255, 255, 0.92);
+  padding: 0 6px;
+  font-size: 11px;
+  outline: none;
+`;
+
+// Two lines per rule: kind / target / match / remove, then scope / message.
+const RuleRow = styled.div`
+  display: grid;
+  grid-template-columns: 78px minmax(0, 1fr) minmax(0, 1fr) auto;
+  gap: 4px;
+  align-items: center;
+  padding-top: 4px;
+  border-top: 1px dashed rgba(255, 255, 255, 0.08);
+`;
+
+const MessageInput = styled(Input)`
+  grid-column: span 2;
+`;
+
+const Spacer = styled.span`
+  flex: 1;
+`;
+
+const IconButton = styled.button`
+  width: 26px;
+  height: 26px;
+  border: 0;
+  border-radius: 7px;
+  background: transparent;
+  color: rgba(255, 255, 255, 0.62);
+  cursor: pointer;
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+
+  &:hover {
+    background: rgba(255, 255, 255, 0.08);
+    color: rgba(255, 255, 255, 0.92);
+  }
+`;
+
+const HiddenFileInput = styled.input`
+  display: none;
+`;
+
+const toDraft = (pack: FeaturePack): PackDraft => ({
+  id: pack.id,
+  createdAt: pack.createdAt,
+  name: pack.name,
+  description: pack.description,
+  features: pack.features.map((feature) => ({ ...feature, rules: feature.rules.map((rule) => ({ ...rule })) }))
+});
+
+const exportFileName = (name: string) => `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'feature-packs'}.json`;
+
+export const FeaturePacksSection: React.FC<FeaturePacksSectionProps> = ({ selectedFeatures, onSelectFeatures }) => {
+  const { t } = useLanguage();
+  const packs = useFeaturePackStore((state) => state.packs);
+  const savePack = useFeaturePackStore((state) => state.savePack);
+  const deletePack = useFeaturePackStore((state) => state.deletePack);
+  const importPacks = useFeaturePackStore((state) => state.importPacks);
+  const exportPacks = useFeaturePackStore((state) => state.exportPacks);
+
+  const [draft, setDraft] = useState<PackDraft | null>(null);
+  const [status, setStatus] = useState<{ error: boolean; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const packFeatureIds = (pack: Pick<FeaturePack, 'id' | 'features'>) => pack.features.map((feature) => userFeatureId(pack.id, feature.id));
+
+  const updateFeature = (index: number, patch: Partial<UserToolFeature>) =>
+    setDraft((current) =>
+      current ? { ...current, features: current.features.map((feature, i) => (i === index ? { ...feature, ...patch } : feature)) } : current
+    );
+
+  const updateRule = (featureIndex: number, ruleIndex: number, patch: Partial<FeatureRule>) =>
+    setDraft((current) => {
+      if (!current) return current;
+      const feature = current.features[featureIndex];
+      const rules = feature.rules.map((rule, i) => (i === ruleIndex ? { ...rule, ...patch } : rule));
+      return { ...current, features: current.features.map((entry, i) => (i === featureIndex ? { ...feature, rules } : entry)) };
+    });
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      const previous = draft.id ? packs.find((pack) => pack.id === draft.id) : undefined;
+      const saved = await savePack(draft);
+      // Features removed in the editor must not stay selected as dangling ids.
+      if (previous) {
+        const kept = new Set(packFeatureIds(saved));
+        const dropped = packFeatureIds(previous).filter((id) => !kept.has(id));
+        if (dropped.some((id) => selectedFeatures.includes(id))) onSelectFeatures(selectedFeatures.filter((id) => !dropped.includes(id)));
+      }
+      setDraft(null);
+      setStatus({ error: false, text: `${t('app.tools.packs.saved')}: ${saved.name}` });
+    } catch (error) {
+      setStatus({ error: true, text: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const handleDelete = async (pack: FeaturePack) => {
+    if (!window.confirm(`${t('app.tools.packs.deleteConfirm')} "${pack.name}"?`)) return;
+    const ids = packFeatureIds(pack);
+    if (ids.some((id) => selectedFeatures.includes(id))) onSelectFeatures(selectedFeatures.filter((id) => !ids.includes(id)));
+    await deletePack(pack.id).catch((error) => setStatus({ error: true, text: String(error?.message || error) }));
+  };
+
+  const handleSelectAll = (pack: FeaturePack) => {
+    const ids = packFeatureIds(pack);
+    const allSelected = ids.every((id) => selectedFeatures.includes(id));
+    onSelectFeatures(
+      allSelected ? selectedFeatures.filter((id) => !ids.includes(id)) : Array.from(new Set([...selectedFeatures, ...ids]))
+    );
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await importPacks(await file.text());
+      setStatus({ error: false, text: `${t('app.tools.packs.imported')}: ${imported.map((pack) => pack.name).join(', ')}` });
+    } catch (error) {
+      setStatus({ error: true, text: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const renderRule = (feature: UserToolFeature, featureIndex: number, rule: FeatureRule, ruleIndex: number) => {
+    const placeholder = RULE_PLACEHOLDERS[rule.kind];
+    return (
+      <RuleRow key={ruleIndex}>
+        <Select
+          value={rule.kind}
+          onChange={(event) => updateRule(featureIndex, ruleIndex, { kind: event.target.value as FeatureRuleKind })}
+          aria-label={t('app.tools.packs.rule.kind')}
+        >
+          {RULE_KINDS.map((kind) => (
+            <option key={kind} value={kind}>
+              {kind}
+            </option>
+          ))}
+        </Select>
+        <Input
+          value={rule.target}
+          placeholder={placeholder.target}
+          onChange={(event) => updateRule(featureIndex, ruleIndex, { target: event.target.value })}
+          aria-label={t('app.tools.packs.rule.target')}
+        />
+        <Input
+          value={rule.match || ''}
+          placeholder={placeholder.match || '—'}
+          disabled={!placeholder.match}
+          onChange={(event) => updateRule(featureIndex, ruleIndex, { match: event.target.value })}
+          aria-label={t('app.tools.packs.rule.match')}
+        />
+        <IconButton
+          type="button"
+          title={t('app.tools.packs.rule.remove')}
+          onClick={() => updateFeature(featureIndex, { rules: feature.rules.filter((_, i) => i !== ruleIndex) })}
+        >
+          <X size={12} />
+        </IconButton>
+        <Input
+          value={rule.scope || ''}
+          placeholder={placeholder.scope || '—'}
+          disabled={!placeholder.scope}
+          onChange={(event) => updateRule(featureIndex, ruleIndex, { scope: event.target.value })}
+          aria-label={t('app.tools.packs.rule.scope')}
+        />
+        <MessageInput
+          value={rule.message || ''}
+          placeholder={t('app.tools.packs.rule.message')}
+          onChange={(event) => updateRule(featureIndex, ruleIndex, { message: event.target.value })}
+          aria-label={t('app.tools.packs.rule.message')}
+        />
+      </RuleRow>
+    );
+  };
+
+  const renderEditor = (current: PackDraft) => (
+    <PackCard>
+      <Input
+        value={current.name}
+        placeholder={t('app.tools.packs.name')}
+        onChange={(event) => setDraft({ ...current, name: event.target.value })}
+      />
+      <Input
+        value={current.description}
+        placeholder={t('app.tools.packs.description')}
+        onChange={(event) => setDraft({ ...current, description: event.target.value })}
+      />
+      {current.features.map((feature, featureIndex) => (
+        <FeatureCard key={featureIndex}>
+          <FieldRow>
+            <Input
+              value={feature.label}
+              placeholder={t('app.tools.packs.feature.label')}
+              onChange={(event) => updateFeature(featureIndex, { label: event.target.value })}
+            />
+            <Select
+              value={feature.category}
+              onChange={(event) => updateFeature(featureIndex, { category: event.target.value as ToolFeatureCategory })}
+            >
+              {CATEGORIES.map((category) => (
+                <option key={category} value={category}>
+                  {t(`app.tools.category.${category}`)}
+                </option>
+              ))}
+            </Select>
+            <IconButton
+              type="button"
+              title={t('app.tools.packs.feature.remove')}
+              onClick={() => setDraft({ ...current, features: current.features.filter((_, i) => i !== featureIndex) })}
+            >
+              <Trash2 size={13} />
+            </IconButton>
+          </FieldRow>
+          <Input
+            value={feature.description}
+            placeholder={t('app.tools.packs.description')}
+            onChange={(event) => updateFeature(featureIndex, { description: event.target.value })}
+          />
+          <TextArea
+            value={feature.promptRule}
+            placeholder={t('app.tools.packs.feature.promptRule')}
+            onChange={(event) => updateFeature(featureIndex, { promptRule: event.target.value })}
+          />
+          <FieldRow>
+            <PackMeta>{t('app.tools.packs.rule.title')}</PackMeta>
+            <Spacer />
+            <Select
+              value={feature.ruleMatch}
+              onChange={(event) => updateFeature(featureIndex, { ruleMatch: event.target.value === 'any' ? 'any' : 'all' })}
+            >
+              <option value="all">{t('app.tools.packs.rule.matchAll')}</option>
+              <option value="any">{t('app.tools.packs.rule.matchAny')}</option>
+            </Select>
+          </FieldRow>
+          {feature.rules.map((rule, ruleIndex) => renderRule(feature, featureIndex, rule, ruleIndex))}
+          <FieldRow>
+            <SmallButton type="button" onClick={() => updateFeature(featureIndex, { rules: [...feature.rules, createEmptyFeatureRule()] })}>
+              <Plus size={11} />
+              {t('app.tools.packs.rule.add')}
+            </SmallButton>
+          </FieldRow>
+        </FeatureCard>
+      ))}
+      <FieldRow>
+        <SmallButton type="button" onClick={() => setDraft({ ...current, features: [...current.features, createEmptyUserFeature()] })}>
+          <Plus size={11} />
+          {t('app.tools.packs.feature.add')}
+        </SmallButton>
+        <Spacer />
+        <SmallButton type="button" onClick={() => setDraft(null)}>
+          {t('app.tools.packs.cancel')}
+        </SmallButton>
+        <SmallButton type="button" onClick={() => void handleSave()}>
+          <Check size={11} />
+          {t('app.tools.packs.save')}
+        </SmallButton>
+      </FieldRow>
+    </PackCard>
+  );
+
+  return (
+    <Section>
+      <HeaderRow>
+        <SectionTitle>{t('app.tools.packs.title')}</SectionTitle>
+        <SmallButton
+          type="button"
+          disabled={Boolean(draft)}
+          onClick={() => setDraft({ name: '', description: '', features: [createEmptyUserFeature()] })}
+        >
+          <Plus size={11} />
+          {t('app.tools.packs.new')}
+        </SmallButton>
+        <SmallButton type="button" onClick={() => fileInputRef.current?.click()}>
+          <Upload size={11} />
+          {t('app.tools.packs.import')}
+        </SmallButton>
+        <SmallButton
+          type="button"
+          disabled={packs.length === 0}
+          onClick={() => downloadService.downloadText(exportPacks(), 'feature-packs.json')}
+        >
+          <Download size={11} />
+          {t('app.tools.packs.exportAll')}
+        </SmallButton>
+        <HiddenFileInput ref={fileInputRef} type="file" accept="application/json,.json" onChange={(event) => void handleImport(event)} />
+      </HeaderRow>
+
+      {status ? <Status $error={status.error}>{status.text}</Status> : null}
+      {draft && !draft.id ? renderEditor(draft) : null}
+      {packs.length === 0 && !draft ? <EmptyLine>{t('app.tools.packs.none')}</EmptyLine> : null}
+
+      {packs.map((pack) =>
+        draft?.id === pack.id ? (
+          <React.Fragment key={pack.id}>{renderEditor(draft)}</React.Fragment>
+        ) : (
+          <PackCard key={pack.id}>
+            <FieldRow>
+              <PackName title={pack.name}>{pack.name}</PackName>
+              <SmallButton type="button" disabled={pack.features.length === 0} onClick={() => handleSelectAll(pack)}>
+                {t('app.tools.packs.selectAll')}
+              </SmallButton>
+              <IconButton type="button" title={t('app.tools.packs.edit')} disabled={Boolean(draft)} onClick={() => setDraft(toDraft(pack))}>
+                <Pencil size={12} />
+              </IconButton>
+              <IconButton
+                type="button"
+                title={t('app.tools.packs.export')}
+                onClick={() => downloadService.downloadText(exportPacks([pack.id]), exportFileName(pack.name))}
+              >
+                <Download size={12} />
+              </IconButton>
+              <IconButton type="button" title={t('app.tools.packs.delete')} onClick={() => void handleDelete(pack)}>
+                <Trash2 size={12} />
+              </IconButton>
+            </FieldRow>
+            <PackMeta>
+              {pack.description ? `${pack.description} · ` : ''}
+              {pack.features.length} {t('app.tools.packs.features')}
+            </PackMeta>
+          </PackCard>
+        )
+      )}
+    </Section>
+  );
+};
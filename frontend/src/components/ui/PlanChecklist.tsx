@@ -2,7 +2,7 @@
 
 import React, { useMemo } from 'react';
 import styled from 'styled-components';
-import { CheckCircle2, Circle, Loader2, ListChecks } from 'lucide-react';
+import { Ban, CheckCircle2, Circle, CircleSlash, Loader2, ListChecks, RotateCcw, SkipForward, XCircle } from 'lucide-react';
 import { useLanguage } from '@/context/LanguageContext';
 import { normalizePlanCategory, type NormalizedPlanCategory } from '@/utils/planCategory';
 
@@ -12,7 +12,9 @@ export interface PlanChecklistItem {
   description?: string;
   completed: boolean;
   category?: 'config' | 'frontend' | 'backend' | 'integration' | 'testing' | 'deployment' | 'tasks';
-  status?: 'pending' | 'in_progress' | 'completed' | 'blocked';
+  status?: 'pending' | 'in_progress' | 'completed' | 'failed' | 'blocked' | 'skipped';
+  statusDetail?: string;
+  notes?: string;
   files?: string[];
   estimatedSize?: 'small' | 'medium' | 'large';
 }
@@ -143,20 +145,27 @@ const SectionTitle = styled.div`
   color: rgba(255, 255, 255, 0.58);
 `;
 
-const Item = styled.div<{ $state: 'pending' | 'active' | 'done' }>`
+type ItemState = 'pending' | 'active' | 'done' | 'failed' | 'blocked' | 'skipped';
+
+const Item = styled.div<{ $state: ItemState }>`
   border-radius: 12px;
   border: 1px solid
     ${(p) => {
       if (p.$state === 'done') return 'rgba(34, 197, 94, 0.3)';
       if (p.$state === 'active') return 'rgba(56, 189, 248, 0.4)';
+      if (p.$state === 'failed') return 'rgba(248, 113, 113, 0.4)';
+      if (p.$state === 'blocked') return 'rgba(251, 191, 36, 0.35)';
       return 'rgba(255, 255, 255, 0.06)';
     }};
   background:
     ${(p) => {
       if (p.$state === 'done') return 'linear-gradient(90deg, rgba(34, 197, 94, 0.05), rgba(34, 197, 94, 0.02))';
       if (p.$state === 'active') return 'linear-gradient(90deg, rgba(56, 189, 248, 0.08), rgba(56, 189, 248, 0.04))';
+      if (p.$state === 'failed') return 'linear-gradient(90deg, rgba(248, 113, 113, 0.08), rgba(248, 113, 113, 0.03))';
+      if (p.$state === 'blocked') return 'rgba(251, 191, 36, 0.04)';
       return 'rgba(255, 255, 255, 0.02)';
     }};
+  opacity: ${(p) => (p.$state === 'skipped' ? 0.6 : 1)};
   padding: 12px;
   transition: all 0.2s ease;
 
@@ -180,7 +189,7 @@ const ItemTitle = styled.div`
   line-height: 1.35;
 `;
 
-const ItemStatus = styled.div<{ $state: 'pending' | 'active' | 'done' }>`
+const ItemStatus = styled.div<{ $state: ItemState }>`
   font-size: 10px;
   font-weight: 800;
   letter-spacing: 0.07em;
@@ -189,10 +198,50 @@ const ItemStatus = styled.div<{ $state: 'pending' | 'active' | 'done' }>`
     ${(p) => {
       if (p.$state === 'done') return 'rgba(134, 239, 172, 0.95)';
       if (p.$state === 'active') return 'rgba(125, 211, 252, 0.95)';
+      if (p.$state === 'failed') return 'rgba(252, 165, 165, 0.95)';
+      if (p.$state === 'blocked') return 'rgba(253, 230, 138, 0.9)';
       return 'rgba(255, 255, 255, 0.5)';
     }};
 `;
 
+const ItemDetail = styled.div`
+  margin-top: 7px;
+  font-size: 11px;
+  line-height: 1.4;
+  color: rgba(252, 165, 165, 0.88);
+  word-break: break-word;
+`;
+
+const ItemActions = styled.div`
+  margin-top: 8px;
+  display: flex;
+  gap: 6px;
+`;
+
+const ItemAction = styled.button`
+  height: 24px;
+  border-radius: 7px;
+  border: 1px solid rgba(255, 255, 255, 0.16);
+  background: rgba(255, 255, 255, 0.05);
+  color: rgba(255, 255, 255, 0.85);
+  font-size: 10px;
+  font-weight: 800;
+  padding: 0 8px;
+  display: inline-flex;
+  align-items: center;
+  gap: 5px;
+  cursor: pointer;
+
+  &:hover:not(:disabled) {
+    background: rgba(255, 255, 255, 0.1);
+  }
+
+  &:disabled {
+    opacity: 0.45;
+    cursor: not-allowed;
+  }
+`;
+
 const ItemDescription = styled.div`
   margin-top: 7px;
   font-size: 11px;
@@ -221,6 +270,10 @@ interface PlanChecklistProps {
   currentStepId?: string;
   embedded?: boolean;
   className?: string;
+  onRetryStep?: (id: string) => void;
+  onSkipStep?: (id: string) => void;
+  // Retry and skip stay disabled while a generation is running.
+  actionsDisabled?: boolean;
 }
 
 const ORDERED_CATEGORIES: NormalizedPlanCategory[] = [
@@ -268,11 +321,14 @@ export const PlanChecklist: React.FC<PlanChecklistProps> = ({
   items,
   currentStepId,
   embedded = false,
-  className
+  className,
+  onRetryStep,
+  onSkipStep,
+  actionsDisabled = false
 }) => {
   const { t, isRTL } = useLanguage();
   const total = items.length;
-  const doneCount = items.filter((item) => item.completed).length;
+  const doneCount = items.filter((item) => item.completed || item.status === 'skipped').length;
   const progress = total > 0 ? doneCount / total : 0;
   const grouped = useMemo(() => splitByCategory(items), [items]);
   const hasRenderableSections = useMemo(
@@ -281,18 +337,37 @@ export const PlanChecklist: React.FC<PlanChecklistProps> = ({
   );
 
   const renderItem = (item: PlanChecklistItem) => {
-    const state: 'pending' | 'active' | 'done' =
-      item.completed ? 'done' : currentStepId === item.id ? 'active' : 'pending';
+    const state: ItemState = item.completed
+      ? 'done'
+      : item.status === 'in_progress' || (item.status !== 'failed' && item.status !== 'blocked' && currentStepId === item.id)
+        ? 'active'
+        : item.status === 'failed' || item.status === 'blocked' || item.status === 'skipped'
+          ? item.status
+          : 'pending';
     const statusLabel =
-      state === 'done' ? t('app.plan.status.done') : state === 'active' ? t('app.plan.status.working') : t('app.plan.status.pending');
+      state === 'done'
+        ? t('app.plan.status.done')
+        : state === 'active'
+          ? t('app.plan.status.working')
+          : state === 'pending'
+            ? t('app.plan.status.pending')
+            : t(`app.plan.status.${state}`);
     const icon =
       state === 'done' ? (
         <CheckCircle2 size={16} color="rgba(134, 239, 172, 0.95)" />
       ) : state === 'active' ? (
         <Loader2 size={16} color="rgba(125, 211, 252, 0.95)" className="animate-spin" />
+      ) : state === 'failed' ? (
+        <XCircle size={16} color="rgba(252, 165, 165, 0.95)" />
+      ) : state === 'blocked' ? (
+        <Ban size={16} color="rgba(253, 230, 138, 0.9)" />
+      ) : state === 'skipped' ? (
+        <CircleSlash size={16} color="rgba(255, 255, 255, 0.42)" />
       ) : (
         <Circle size={16} color="rgba(255, 255, 255, 0.42)" />
       );
+    const canRetry = Boolean(onRetryStep) && (state === 'failed' || state === 'blocked');
+    const canSkip = Boolean(onSkipStep) && (state === 'failed' || state === 'blocked' || state === 'pending');
 
     return (
       <Item key={item.id} $state={state}>
@@ -302,6 +377,7 @@ export const PlanChecklist: React.FC<PlanChecklistProps> = ({
           <ItemStatus $state={state}>{statusLabel}</ItemStatus>
         </ItemHead>
         {item.description ? <ItemDescription>{item.description}</ItemDescription> : null}
+        {item.statusDetail && (state === 'failed' || state === 'blocked') ? <ItemDetail>{item.statusDetail}</ItemDetail> : null}
         {Array.isArray(item.files) && item.files.length > 0 ? (
           <FileList style={{ direction: isRTL ? 'rtl' : 'ltr' }}>
             {item.files.slice(0, 5).map((file) => (
@@ -310,6 +386,22 @@ export const PlanChecklist: React.FC<PlanChecklistProps> = ({
             {item.files.length > 5 ? <FileChip>+{item.files.length - 5} {t('app.plan.more')}</FileChip> : null}
           </FileList>
         ) : null}
+        {canRetry || canSkip ? (
+          <ItemActions style={{ direction: isRTL ? 'rtl' : 'ltr' }}>
+            {canRetry ? (
+              <ItemAction type="button" disabled={actionsDisabled} onClick={() => onRetryStep?.(item.id)}>
+                <RotateCcw size={11} />
+                {t('app.plan.action.retry')}
+              </ItemAction>
+            ) : null}
+            {canSkip ? (
+              <ItemAction type="button" disabled={actionsDisabled} onClick={() => onSkipStep?.(item.id)}>
+                <SkipForward size={11} />
+                {t('app.plan.action.skip')}
+              </ItemAction>
+            ) : null}
+          </ItemActions>
+        ) : null}
       </Item>
     );
   };
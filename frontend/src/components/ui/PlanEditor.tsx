@@ -0,0 +1,306 @@
+'use client';
+
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { ArrowDown, ArrowUp, Merge, Play, RefreshCw, Scissors, Trash2 } from 'lucide-react';
+import { useLanguage } from '@/context/LanguageContext';
+import type { PlanStep } from '@/stores/aiStore';
+import {
+  deletePlanStep,
+  mergePlanStepWithNext,
+  movePlanStep,
+  parsePlanFilesInput,
+  splitPlanStep,
+  updatePlanStep
+} from '@/utils/planEditing';
+
+interface PlanEditorProps {
+  steps: PlanStep[];
+  onChange: (steps: PlanStep[]) => void;
+  onExecute: () => void;
+  // Re-plans everything from `index` on, keeping the steps before it as a fixed prefix.
+  onReplanFrom: (index: number) => void;
+  reviewEnabled: boolean;
+  onReviewEnabledChange: (enabled: boolean) => void;
+  busy?: boolean;
+}
+
+const Body = styled.div`
+  padding: 10px;
+  display: grid;
+  gap: 10px;
+`;
+
+const Hint = styled.div`
+  font-size: 11px;
+  line-height: 1.45;
+  color: rgba(255, 255, 255, 0.62);
+`;
+
+const StepCard = styled.div`
+  border-radius: 12px;
+  border: 1px solid rgba(255, 255, 255, 0.1);
+  background: rgba(255, 255, 255, 0.03);
+  padding: 10px;
+  display: grid;
+  gap: 7px;
+`;
+
+const StepHead = styled.div`
+  display: grid;
+  grid-template-columns: 22px 1fr;
+  gap: 8px;
+  align-items: center;
+`;
+
+const StepIndex = styled.span`
+  width: 22px;
+  height: 22px;
+  border-radius: 999px;
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  font-size: 10px;
+  font-weight: 800;
+  color: rgba(125, 211, 252, 0.95);
+  background: rgba(56, 189, 248, 0.12);
+`;
+
+const fieldStyles = `
+  width: 100%;
+  min-width: 0;
+  border-radius: 8px;
+  border: 1px solid rgba(255, 255, 255, 0.14);
+  background: rgba(0, 0, 0, 0.24);
+  color: rgba(255, 255, 255, 0.94);
+  font-size: 12px;
+  padding: 6px 8px;
+  outline: none;
+
+  &:focus {
+    border-color: rgba(34, 211, 238, 0.46);
+  }
+`;
+
+const TitleInput = styled.input`
+  ${fieldStyles}
+  font-weight: 700;
+`;
+
+const Field = styled.textarea`
+  ${fieldStyles}
+  resize: vertical;
+  min-height: 34px;
+  font-size: 11px;
+  line-height: 1.4;
+`;
+
+const FieldLabel = styled.label`
+  display: grid;
+  gap: 4px;
+  font-size: 10px;
+  font-weight: 800;
+  letter-spacing: 0.06em;
+  text-transform: uppercase;
+  color: rgba(255, 255, 255, 0.5);
+`;
+
+const Description = styled.div`
+  font-size: 11px;
+  line-height: 1.4;
+  color: rgba(255, 255, 255, 0.58);
+`;
+
+const Toolbar = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 5px;
+`;
+
+const ToolButton = styled.button`
+  height: 24px;
+  border-radius: 7px;
+  border: 1px solid rgba(255, 255, 255, 0.14);
+  background: rgba(255, 255, 255, 0.04);
+  color: rgba(255, 255, 255, 0.82);
+  font-size: 10px;
+  font-weight: 700;
+  padding: 0 7px;
+  display: inline-flex;
+  align-items: center;
+  gap: 4px;
+  cursor: pointer;
+
+  &:hover:not(:disabled) {
+    background: rgba(255, 255, 255, 0.1);
+  }
+
+  &:disabled {
+    opacity: 0.4;
+    cursor: not-allowed;
+  }
+`;
+
+const Footer = styled.div`
+  position: sticky;
+  bottom: 0;
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 10px;
+  padding: 10px;
+  border-top: 1px solid rgba(255, 255, 255, 0.08);
+  background: rgba(15, 23, 42, 0.92);
+`;
+
+const ReviewToggle = styled.label`
+  display: inline-flex;
+  align-items: center;
+  gap: 6px;
+  font-size: 11px;
+  color: rgba(255, 255, 255, 0.7);
+  cursor: pointer;
+`;
+
+const ExecuteButton = styled.button`
+  height: 32px;
+  border-radius: 10px;
+  border: 1px solid rgba(34, 211, 238, 0.45);
+  background: rgba(34, 211, 238, 0.16);
+  color: rgba(255, 255, 255, 0.96);
+  font-size: 12px;
+  font-weight: 800;
+  padding: 0 14px;
+  display: inline-flex;
+  align-items: center;
+  gap: 6px;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.45;
+    cursor: not-allowed;
+  }
+`;
+
+export const PlanEditor: React.FC<PlanEditorProps> = ({
+  steps,
+  onChange,
+  onExecute,
+  onReplanFrom,
+  reviewEnabled,
+  onReviewEnabledChange,
+  busy = false
+}) => {
+  const { t, isRTL } = useLanguage();
+  // Files are typed as free text and parsed on blur so separators can be typed mid-edit.
+  const [filesDrafts, setFilesDrafts] = useState<Record<string, string>>({});
+
+  const commitFiles = (stepId: string) => {
+    const text = filesDrafts[stepId];
+    if (text === undefined) return;
+    onChange(updatePlanStep(steps, stepId, { files: parsePlanFilesInput(text) }));
+    setFilesDrafts((current) => {
+      const next = { ...current };
+      delete next[stepId];
+      return next;
+    });
+  };
+
+  return (
+    <>
+      <Body style={{ direction: isRTL ? 'rtl' : 'ltr' }}>
+        <Hint>{t('app.plan.editor.hint')}</Hint>
+        {steps.map((step, index) => (
+          <StepCard key={step.id}>
+            <StepHead>
+              <StepIndex>{index + 1}</StepIndex>
+              <TitleInput
+                value={step.title}
+                disabled={busy}
+                aria-label={t('app.plan.editor.stepTitle')}
+                onChange={(event) => onChange(updatePlanStep(steps, step.id, { title: event.target.value }))}
+              />
+            </StepHead>
+            {step.description ? <Description>{step.description}</Description> : null}
+            <FieldLabel>
+              {t('app.plan.editor.files')}
+              <Field
+                rows={2}
+                disabled={busy}
+                value={filesDrafts[step.id] ?? (step.files || []).join(', ')}
+                placeholder="index.html, style.css"
+                onChange={(event) => {
+                  const value = event.target.value;
+                  setFilesDrafts((current) => ({ ...current, [step.id]: value }));
+                }}
+                onBlur={() => commitFiles(step.id)}
+              />
+            </FieldLabel>
+            <FieldLabel>
+              {t('app.plan.editor.notes')}
+              <Field
+                rows={2}
+                disabled={busy}
+                value={step.notes || ''}
+                placeholder={t('app.plan.editor.notesPlaceholder')}
+                onChange={(event) => onChange(updatePlanStep(steps, step.id, { notes: event.target.value }))}
+              />
+            </FieldLabel>
+            <Toolbar>
+              <ToolButton
+                type="button"
+                title={t('app.plan.editor.moveUp')}
+                disabled={busy || index === 0}
+                onClick={() => onChange(movePlanStep(steps, index, -1))}
+              >
+                <ArrowUp size={11} />
+              </ToolButton>
+              <ToolButton
+                type="button"
+                title={t('app.plan.editor.moveDown')}
+                disabled={busy || index === steps.length - 1}
+                onClick={() => onChange(movePlanStep(steps, index, 1))}
+              >
+                <ArrowDown size={11} />
+              </ToolButton>
+              <ToolButton type="button" disabled={busy} onClick={() => onChange(splitPlanStep(steps, step.id))}>
+                <Scissors size={11} />
+                {t('app.plan.editor.split')}
+              </ToolButton>
+              <ToolButton
+                type="button"
+                disabled={busy || index === steps.length - 1}
+                onClick={() => onChange(mergePlanStepWithNext(steps, step.id))}
+              >
+                <Merge size={11} />
+                {t('app.plan.editor.merge')}
+              </ToolButton>
+              <ToolButton
+                type="button"
+                disabled={busy || steps.length <= 1}
+                onClick={() => onChange(deletePlanStep(steps, step.id))}
+              >
+                <Trash2 size={11} />
+                {t('app.plan.editor.delete')}
+              </ToolButton>
+              <ToolButton type="button" disabled={busy} onClick={() => onReplanFrom(index)}>
+                <RefreshCw size={11} />
+                {t('app.plan.editor.replanFrom')} {index + 1}
+              </ToolButton>
+            </Toolbar>
+          </StepCard>
+        ))}
+      </Body>
+      <Footer style={{ direction: isRTL ? 'rtl' : 'ltr' }}>
+        <ReviewToggle>
+          <input type="checkbox" checked={reviewEnabled} onChange={(event) => onReviewEnabledChange(event.target.checked)} />
+          {t('app.plan.editor.reviewToggle')}
+        </ReviewToggle>
+        <ExecuteButton type="button" disabled={busy || steps.length === 0} onClick={onExecute}>
+          <Play size={12} />
+          {busy ? t('app.plan.editor.replanning') : t('app.plan.editor.execute')}
+        </ExecuteButton>
+      </Footer>
+    </>
+  );
+};
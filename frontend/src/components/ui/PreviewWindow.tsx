@@ -1,9 +1,11 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import styled from 'styled-components';
-import { AlertTriangle, MonitorPlay } from 'lucide-react';
+import { AlertTriangle, MonitorPlay, Terminal } from 'lucide-react';
 import { SimplePreview } from '../Preview/SimplePreview';
+import { LogsPanel } from '../LogsPanel';
+import { usePreviewStore } from '@/stores/previewStore';
 import { ErrorBoundary } from './ErrorBoundary';
 
 const Window = styled.div`
@@ -132,6 +134,33 @@ const Content = styled.div`
   backdrop-filter: blur(8px);
 `;
 
+const ConsoleToggle = styled.button<{ $active: boolean; $alert: boolean }>`
+  display: inline-flex;
+  align-items: center;
+  gap: 5px;
+  height: 24px;
+  padding: 0 9px;
+  border-radius: 999px;
+  font-size: 10px;
+  font-weight: 700;
+  letter-spacing: 0.05em;
+  text-transform: uppercase;
+  cursor: pointer;
+  color: ${(p) => (p.$alert ? 'rgba(252, 165, 165, 0.95)' : 'rgba(255, 255, 255, 0.75)')};
+  border: 1px solid ${(p) => (p.$active ? 'rgba(34, 211, 238, 0.4)' : 'rgba(255, 255, 255, 0.1)')};
+  background: ${(p) => (p.$active ? 'rgba(34, 211, 238, 0.12)' : 'rgba(255, 255, 255, 0.05)')};
+
+  &:hover {
+    border-color: rgba(34, 211, 238, 0.4);
+  }
+`;
+
+const ConsoleDock = styled.div`
+  height: 220px;
+  flex-shrink: 0;
+  border-top: 1px solid rgba(255, 255, 255, 0.06);
+`;
+
 interface PreviewWindowProps {
   className?: string;
   enabled?: boolean;
@@ -141,6 +170,8 @@ interface PreviewWindowProps {
 export const PreviewWindow: React.FC<PreviewWindowProps> = ({ className, enabled = true }) => {
   const statusTone: 'idle' | 'busy' | 'ready' | 'error' = enabled ? 'ready' : 'idle';
   const statusLabel = enabled ? 'Live · Simple' : 'Closed';
+  const [consoleOpen, setConsoleOpen] = useState(false);
+  const consoleErrorCount = usePreviewStore((state) => state.consoleEntries.filter((entry) => entry.level === 'error').length);
 
   const handleReset = () => {
     if (typeof window === 'undefined') return;
@@ -172,6 +203,16 @@ export const PreviewWindow: React.FC<PreviewWindowProps> = ({ className, enabled
         </Dots>
         <Title>Live Preview</Title>
         <Right>
+          <ConsoleToggle
+            type="button"
+            $active={consoleOpen}
+            $alert={consoleErrorCount > 0}
+            onClick={() => setConsoleOpen((prev) => !prev)}
+            title="Preview console"
+          >
+            <Terminal size={11} />
+            {consoleErrorCount > 0 ? consoleErrorCount : 'Console'}
+          </ConsoleToggle>
           <StatusPill $tone={statusTone} title={statusLabel}>
             <StatusDot $tone={statusTone} />
             {statusLabel}
@@ -191,6 +232,11 @@ export const PreviewWindow: React.FC<PreviewWindowProps> = ({ className, enabled
           )}
         </ErrorBoundary>
       </Content>
+      {consoleOpen && (
+        <ConsoleDock>
+          <LogsPanel defaultView="console" />
+        </ConsoleDock>
+      )}
     </Window>
   );
 };
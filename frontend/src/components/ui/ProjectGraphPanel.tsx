@@ -0,0 +1,456 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import styled from 'styled-components';
+import { AlertTriangle, Maximize2, Minus, Plus, Unlink } from 'lucide-react';
+import { useLanguage } from '@/context/LanguageContext';
+import { useAIStore } from '@/stores/aiStore';
+import { useProjectStore } from '@/stores/projectStore';
+import { buildProjectGraphView, type ProjectGraphNode } from '@/services/projectGraph';
+import type { DependencyEdge } from '@/types/context';
+
+interface ProjectGraphPanelProps {
+  onOpenFile: (path: string) => void;
+}
+
+type ViewBox = { x: number; y: number; w: number; h: number };
+
+const EDGE_TYPES: DependencyEdge['type'][] = ['import', 'link', 'asset', 'route'];
+
+const EDGE_COLORS: Record<DependencyEdge['type'], string> = {
+  import: '#fbbf24',
+  link: '#f472b6',
+  asset: '#94a3b8',
+  route: '#38bdf8'
+};
+
+const TAG_COLORS: Record<string, string> = {
+  page: '#38bdf8',
+  script: '#fbbf24',
+  style: '#f472b6',
+  meta: '#a78bfa'
+};
+
+const OTHER_COLOR = '#64748b';
+
+const nodeColor = (node: ProjectGraphNode) => TAG_COLORS[node.tags[0]] || OTHER_COLOR;
+
+const basename = (path: string) => path.split('/').pop() || path;
+
+const Wrapper = styled.div`
+  height: 100%;
+  min-height: 0;
+  display: grid;
+  grid-template-columns: minmax(0, 1fr) 240px;
+
+  @media (max-width: 900px) {
+    grid-template-columns: 1fr;
+    grid-template-rows: minmax(0, 1fr) auto;
+  }
+`;
+
+const Canvas = styled.div<{ $dragging: boolean }>`
+  position: relative;
+  min-height: 0;
+  overflow: hidden;
+  background: radial-gradient(circle at 50% 40%, rgba(56, 189, 248, 0.05), transparent 60%), rgba(2, 6, 23, 0.6);
+  cursor: ${(p) => (p.$dragging ? 'grabbing' : 'grab')};
+
+  svg {
+    width: 100%;
+    height: 100%;
+    display: block;
+  }
+`;
+
+const Toolbar = styled.div`
+  position: absolute;
+  top: 10px;
+  left: 10px;
+  display: flex;
+  flex-wrap: wrap;
+  gap: 6px;
+`;
+
+const ToolButton = styled.button<{ $active?: boolean; $color?: string }>`
+  height: 26px;
+  border-radius: 8px;
+  border: 1px solid ${(p) => (p.$active ? p.$color || 'rgba(34, 211, 238, 0.45)' : 'rgba(255, 255, 255, 0.14)')};
+  background: ${(p) => (p.$active ? 'rgba(255, 255, 255, 0.08)' : 'rgba(15, 23, 42, 0.85)')};
+  color: rgba(255, 255, 255, ${(p) => (p.$active ? 0.92 : 0.55)});
+  font-size: 10px;
+  font-weight: 800;
+  padding: 0 8px;
+  display: inline-flex;
+  align-items: center;
+  gap: 5px;
+  cursor: pointer;
+  text-transform: capitalize;
+`;
+
+const Swatch = styled.span<{ $color: string }>`
+  width: 8px;
+  height: 8px;
+  border-radius: 999px;
+  background: ${(p) => p.$color};
+`;
+
+const Side = styled.aside`
+  min-height: 0;
+  overflow: auto;
+  border-left: 1px solid rgba(255, 255, 255, 0.08);
+  background: rgba(15, 23, 42, 0.72);
+  padding: 12px;
+  display: grid;
+  align-content: start;
+  gap: 14px;
+
+  @media (max-width: 900px) {
+    border-left: 0;
+    border-top: 1px solid rgba(255, 255, 255, 0.08);
+    max-height: 220px;
+  }
+`;
+
+const Section = styled.section`
+  display: grid;
+  gap: 6px;
+`;
+
+const SectionTitle = styled.div`
+  font-size: 10px;
+  font-weight: 800;
+  letter-spacing: 0.12em;
+  text-transform: uppercase;
+  color: rgba(255, 255, 255, 0.45);
+  display: flex;
+  align-items: center;
+  gap: 6px;
+`;
+
+const Legend = styled.div`
+  display: grid;
+  gap: 4px;
+  font-size: 11px;
+  color: rgba(255, 255, 255, 0.7);
+
+  span {
+    display: inline-flex;
+    align-items: center;
+    gap: 6px;
+  }
+`;
+
+const Stat = styled.div`
+  font-size: 11px;
+  color: rgba(255, 255, 255, 0.66);
+  line-height: 1.5;
+`;
+
+const PathButton = styled.button`
+  width: 100%;
+  text-align: left;
+  border: 0;
+  border-radius: 7px;
+  background: rgba(255, 255, 255, 0.04);
+  color: rgba(255, 255, 255, 0.86);
+  font-size: 11px;
+  padding: 5px 7px;
+  cursor: pointer;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+
+  &:hover {
+    background: rgba(255, 255, 255, 0.1);
+  }
+
+  small {
+    display: block;
+    color: rgba(248, 113, 113, 0.85);
+    font-size: 10px;
+  }
+`;
+
+const Empty = styled.div`
+  height: 100%;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  font-size: 12px;
+  color: rgba(255, 255, 255, 0.55);
+`;
+
+const describeNode = (node: ProjectGraphNode, t: (key: string) => string) => {
+  const lines = [node.path, `${t('app.graph.tags')}: ${node.tags.join(', ') || '-'}`];
+  if (node.page) lines.push(`${t('app.graph.route')}: ${node.page.route}${node.page.title ? ` (${node.page.title})` : ''}`);
+  lines.push(`${t('app.graph.degree')}: in ${node.inDegree} / out ${node.outDegree}`);
+  if (node.contextItem) {
+    lines.push(`${t(`app.graph.context.${node.context}`)} · score ${node.contextItem.score.toFixed(1)}`);
+    lines.push(...node.contextItem.reasons.slice(0, 6));
+  }
+  for (const reference of node.brokenReferences.slice(0, 6)) lines.push(`✖ L${reference.line} ${reference.ref}`);
+  return lines.join('\n');
+};
+
+export const ProjectGraphPanel: React.FC<ProjectGraphPanelProps> = ({ onOpenFile }) => {
+  const { t } = useLanguage();
+  const files = useProjectStore((state) => state.files);
+  const activeFile = useProjectStore((state) => state.activeFile);
+  const trace = useAIStore((state) => state.lastRetrievalTrace);
+  const [visibleEdges, setVisibleEdges] = useState<Set<DependencyEdge['type']>>(() => new Set(EDGE_TYPES));
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [view, setView] = useState<ViewBox | null>(null);
+  const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const canvasRef = useRef<HTMLDivElement | null>(null);
+
+  const graph = useMemo(() => buildProjectGraphView(files, trace), [files, trace]);
+  const nodeByPath = useMemo(() => new Map(graph.nodes.map((node) => [node.path, node])), [graph]);
+  const viewBox = view || { x: 0, y: 0, w: graph.width, h: graph.height };
+
+  const orphans = graph.nodes.filter((node) => node.orphan);
+  const brokenNodes = graph.nodes.filter((node) => node.brokenReferences.length > 0);
+  const selectedCount = graph.nodes.filter((node) => node.context === 'selected').length;
+  const droppedCount = graph.nodes.filter((node) => node.context === 'dropped').length;
+
+  const neighbours = useMemo(() => {
+    if (!hovered) return null;
+    const set = new Set([hovered]);
+    for (const edge of graph.edges) {
+      if (edge.from === hovered) set.add(edge.to);
+      if (edge.to === hovered) set.add(edge.from);
+    }
+    return set;
+  }, [graph, hovered]);
+
+  const zoom = (factor: number, originX = viewBox.x + viewBox.w / 2, originY = viewBox.y + viewBox.h / 2) => {
+    const w = Math.min(graph.width * 4, Math.max(graph.width / 8, viewBox.w * factor));
+    const h = (w / viewBox.w) * viewBox.h;
+    setView({ x: originX - ((originX - viewBox.x) * w) / viewBox.w, y: originY - ((originY - viewBox.y) * h) / viewBox.h, w, h });
+  };
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+
+  // React registers wheel listeners as passive, so zooming needs a native listener to stop page scroll.
+  useEffect(() => {
+    const element = canvasRef.current;
+    if (!element) return undefined;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      zoomRef.current(event.deltaY > 0 ? 1.15 : 1 / 1.15);
+    };
+    element.addEventListener('wheel', onWheel, { passive: false });
+    return () => element.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const toggleEdgeType = (type: DependencyEdge['type']) =>
+    setVisibleEdges((current) => {
+      const next = new Set(current);
+      if (next.has(type)) next.delete(type);
+      else next.add(type);
+      return next;
+    });
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    dragRef.current = { x: event.clientX, y: event.clientY, moved: false };
+    setDragging(true);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const element = canvasRef.current;
+    if (!drag || !element) return;
+    const dx = event.clientX - drag.x;
+    const dy = event.clientY - drag.y;
+    if (!drag.moved && Math.hypot(dx, dy) < 3) return;
+    drag.moved = true;
+    const scale = viewBox.w / Math.max(1, element.clientWidth);
+    setView({ ...viewBox, x: viewBox.x - dx * scale, y: viewBox.y - dy * scale });
+    dragRef.current = { x: event.clientX, y: event.clientY, moved: true };
+  };
+
+  const endDrag = () => {
+    setDragging(false);
+    window.setTimeout(() => {
+      dragRef.current = null;
+    }, 0);
+  };
+
+  const openNode = (path: string) => {
+    if (dragRef.current?.moved) return;
+    onOpenFile(path);
+  };
+
+  if (graph.nodes.length === 0) {
+    return <Empty>{t('app.graph.empty')}</Empty>;
+  }
+
+  return (
+    <Wrapper>
+      <Canvas
+        ref={canvasRef}
+        $dragging={dragging}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerLeave={endDrag}
+      >
+        <svg viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.w} ${viewBox.h}`} role="img" aria-label={t('app.graph.title')}>
+          <defs>
+            {EDGE_TYPES.map((type) => (
+              <marker key={type} id={`graph-arrow-${type}`} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={EDGE_COLORS[type]} />
+              </marker>
+            ))}
+          </defs>
+          {graph.edges
+            .filter((edge) => visibleEdges.has(edge.type))
+            .map((edge) => {
+              const from = nodeByPath.get(edge.from);
+              const to = nodeByPath.get(edge.to);
+              if (!from || !to) return null;
+              const dx = to.x - from.x;
+              const dy = to.y - from.y;
+              const length = Math.max(1, Math.hypot(dx, dy));
+              const inset = 14;
+              const dimmed = neighbours && !(neighbours.has(edge.from) && neighbours.has(edge.to));
+              return (
+                <line
+                  key={`${edge.from}->${edge.to}:${edge.type}`}
+                  x1={from.x + (dx / length) * inset}
+                  y1={from.y + (dy / length) * inset}
+                  x2={to.x - (dx / length) * inset}
+                  y2={to.y - (dy / length) * inset}
+                  stroke={EDGE_COLORS[edge.type]}
+                  strokeWidth={1.2 + Math.min(3, edge.weight - 1)}
+                  strokeDasharray={edge.type === 'asset' ? '4 4' : undefined}
+                  strokeOpacity={dimmed ? 0.12 : 0.7}
+                  markerEnd={`url(#graph-arrow-${edge.type})`}
+                />
+              );
+            })}
+          {graph.nodes.map((node) => {
+            const radius = 8 + Math.min(8, node.inDegree + node.outDegree);
+            const color = nodeColor(node);
+            const dimmed = neighbours && !neighbours.has(node.path);
+            const isActive = node.path === activeFile;
+            return (
+              <g
+                key={node.path}
+                transform={`translate(${node.x} ${node.y})`}
+                opacity={dimmed ? 0.25 : 1}
+                style={{ cursor: 'pointer' }}
+                onPointerEnter={() => setHovered(node.path)}
+                onPointerLeave={() => setHovered(null)}
+                onClick={() => openNode(node.path)}
+              >
+                <title>{describeNode(node, t)}</title>
+                {node.context ? (
+                  <circle
+                    r={radius + 6}
+                    fill="none"
+                    stroke={node.context === 'selected' ? '#4ade80' : 'rgba(148, 163, 184, 0.7)'}
+                    strokeWidth={2}
+                    strokeDasharray={node.context === 'dropped' ? '3 3' : undefined}
+                  />
+                ) : null}
+                <circle
+                  r={radius}
+                  fill={color}
+                  fillOpacity={node.orphan ? 0.3 : 0.85}
+                  stroke={node.brokenReferences.length > 0 ? '#f87171' : isActive ? '#ffffff' : color}
+                  strokeWidth={node.brokenReferences.length > 0 || isActive ? 3 : 1.5}
+                  strokeDasharray={node.orphan ? '4 3' : undefined}
+                />
+                <text
+                  y={radius + 14}
+                  textAnchor="middle"
+                  fontSize={12}
+                  fontWeight={isActive ? 800 : 600}
+                  fill="rgba(255, 255, 255, 0.86)"
+                  style={{ pointerEvents: 'none' }}
+                >
+                  {node.page && node.page.route !== `/${basename(node.path)}` ? `${basename(node.path)} · ${node.page.route}` : basename(node.path)}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+        <Toolbar onPointerDown={(event) => event.stopPropagation()}>
+          <ToolButton type="button" title={t('app.graph.zoomIn')} onClick={() => zoom(1 / 1.3)}>
+            <Plus size={12} />
+          </ToolButton>
+          <ToolButton type="button" title={t('app.graph.zoomOut')} onClick={() => zoom(1.3)}>
+            <Minus size={12} />
+          </ToolButton>
+          <ToolButton type="button" title={t('app.graph.fit')} onClick={() => setView(null)}>
+            <Maximize2 size={12} />
+          </ToolButton>
+          {EDGE_TYPES.map((type) => (
+            <ToolButton key={type} type="button" $active={visibleEdges.has(type)} $color={EDGE_COLORS[type]} onClick={() => toggleEdgeType(type)}>
+              <Swatch $color={EDGE_COLORS[type]} />
+              {t(`app.graph.edge.${type}`)}
+            </ToolButton>
+          ))}
+        </Toolbar>
+      </Canvas>
+
+      <Side>
+        <Section>
+          <SectionTitle>{t('app.graph.legend')}</SectionTitle>
+          <Legend>
+            {Object.entries(TAG_COLORS).map(([tag, color]) => (
+              <span key={tag}>
+                <Swatch $color={color} />
+                {t(`app.graph.tag.${tag}`)}
+              </span>
+            ))}
+            <span>
+              <Swatch $color={OTHER_COLOR} />
+              {t('app.graph.tag.other')}
+            </span>
+          </Legend>
+        </Section>
+
+        <Section>
+          <SectionTitle>{t('app.graph.contextTitle')}</SectionTitle>
+          <Stat>
+            {trace
+              ? `${t('app.graph.context.selected')}: ${selectedCount} · ${t('app.graph.context.dropped')}: ${droppedCount} · ${trace.strategy}`
+              : t('app.graph.context.none')}
+          </Stat>
+        </Section>
+
+        <Section>
+          <SectionTitle>
+            <AlertTriangle size={11} />
+            {t('app.graph.broken')} ({brokenNodes.length})
+          </SectionTitle>
+          {brokenNodes.length === 0 ? <Stat>{t('app.graph.none')}</Stat> : null}
+          {brokenNodes.map((node) => (
+            <PathButton key={node.path} type="button" onClick={() => onOpenFile(node.path)} title={describeNode(node, t)}>
+              {node.path}
+              {node.brokenReferences.slice(0, 3).map((reference) => (
+                <small key={`${reference.line}:${reference.ref}`}>
+                  L{reference.line} → {reference.ref}
+                </small>
+              ))}
+            </PathButton>
+          ))}
+        </Section>
+
+        <Section>
+          <SectionTitle>
+            <Unlink size={11} />
+            {t('app.graph.orphans')} ({orphans.length})
+          </SectionTitle>
+          {orphans.length === 0 ? <Stat>{t('app.graph.none')}</Stat> : null}
+          {orphans.map((node) => (
+            <PathButton key={node.path} type="button" onClick={() => onOpenFile(node.path)}>
+              {node.path}
+            </PathButton>
+          ))}
+        </Section>
+      </Side>
+    </Wrapper>
+  );
+};
@@ -3,12 +3,15 @@ import styled from 'styled-components';
 import { Check, Plus, X } from 'lucide-react';
 import { TOOL_FEATURES } from '@/config/toolFeatures';
 import { useLanguage } from '@/context/LanguageContext';
-import type { ToolFeatureCategory } from '@/types/constraints';
+import { useFeaturePackStore } from '@/stores/featurePackStore';
+import type { ToolFeature, ToolFeatureCategory } from '@/types/constraints';
+import { FeaturePacksSection } from '@/components/ui/FeaturePacksSection';
 
 interface ToolsPanelProps {
   selectedFeatures: string[];
   customFeatureTags: string[];
   onToggleFeature: (featureId: string) => void;
+  onSelectFeatures: (featureIds: string[]) => void;
   onAddCustomTag: (tag: string) => void;
   onRemoveCustomTag: (tag: string) => void;
   inline?: boolean;
@@ -101,6 +104,18 @@ const FeatureLabel = styled.div`
   font-weight: 700;
 `;
 
+const PackBadge = styled.span`
+  margin-inline-start: 6px;
+  border-radius: 999px;
+  border: 1px solid rgba(167, 139, 250, 0.35);
+  background: rgba(167, 139, 250, 0.12);
+  color: rgba(221, 214, 254, 0.92);
+  font-size: 9px;
+  font-weight: 800;
+  padding: 1px 6px;
+  vertical-align: middle;
+`;
+
 const FeatureDesc = styled.div`
   margin-top: 3px;
   font-size: 11px;
@@ -188,6 +203,7 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
   selectedFeatures,
   customFeatureTags,
   onToggleFeature,
+  onSelectFeatures,
   onAddCustomTag,
   onRemoveCustomTag,
   inline = false
@@ -195,12 +211,23 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
   const { t } = useLanguage();
   const [customTagInput, setCustomTagInput] = useState('');
 
+  const userFeaturesById = useFeaturePackStore((state) => state.featuresById);
+  const packs = useFeaturePackStore((state) => state.packs);
+
   const featuresByCategory = useMemo(() => {
-    return CATEGORIES.reduce<Record<ToolFeatureCategory, typeof TOOL_FEATURES>>((acc, category) => {
-      acc[category] = TOOL_FEATURES.filter((feature) => feature.category === category);
+    const all = [...TOOL_FEATURES, ...Object.values(userFeaturesById)];
+    return CATEGORIES.reduce<Record<ToolFeatureCategory, ToolFeature[]>>((acc, category) => {
+      acc[category] = all.filter((feature) => feature.category === category);
       return acc;
     }, { ui: [], ux: [], quality: [], integration: [] });
-  }, []);
+  }, [userFeaturesById]);
+
+  const packNames = useMemo(() => new Map(packs.map((pack) => [pack.id, pack.name])), [packs]);
+
+  const featureLabel = (id: string) => {
+    const userFeature = userFeaturesById[id];
+    return userFeature ? userFeature.label || id : t(`app.tools.feature.${id}.label`);
+  };
 
   const submitCustomTag = (event: React.FormEvent) => {
     event.preventDefault();
@@ -234,8 +261,11 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
                 >
                   <CheckSlot $active={isActive}>{isActive ? <Check size={12} /> : null}</CheckSlot>
                   <div>
-                    <FeatureLabel>{t(feature.labelKey)}</FeatureLabel>
-                    <FeatureDesc>{t(feature.descriptionKey)}</FeatureDesc>
+                    <FeatureLabel>
+                      {feature.label ?? t(feature.labelKey)}
+                      {feature.packId ? <PackBadge>{packNames.get(feature.packId) || feature.packId}</PackBadge> : null}
+                    </FeatureLabel>
+                    <FeatureDesc>{feature.description ?? t(feature.descriptionKey)}</FeatureDesc>
                   </div>
                 </FeatureButton>
               );
@@ -251,7 +281,7 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
         ) : (
           <TagRow>
             {selectedFeatures.map((id) => (
-              <Tag key={id}>{t(`app.tools.feature.${id}.label`)}</Tag>
+              <Tag key={id}>{featureLabel(id)}</Tag>
             ))}
           </TagRow>
         )}
@@ -285,6 +315,8 @@ export const ToolsPanel: React.FC<ToolsPanelProps> = ({
           </TagRow>
         )}
       </Category>
+
+      <FeaturePacksSection selectedFeatures={selectedFeatures} onSelectFeatures={onSelectFeatures} />
     </Panel>
   );
 };
@@ -0,0 +1,583 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import styled from 'styled-components';
+import { CaseSensitive, ChevronDown, ChevronRight, Regex, Replace, WholeWord, X } from 'lucide-react';
+import { useLanguage } from '@/context/LanguageContext';
+import { useAIStore } from '@/stores/aiStore';
+import { useJournalStore } from '@/stores/journalStore';
+import { useProjectStore } from '@/stores/projectStore';
+import { createWorkspaceBackup } from '@/utils/workspaceBackupsDb';
+import { collapseLineDiff, diffLines } from '@/utils/workspaceDiff';
+import {
+  buildWorkspaceReplacements,
+  searchWorkspaceFiles,
+  type WorkspaceReplacement,
+  type WorkspaceSearchMatch,
+  type WorkspaceSearchOptions
+} from '@/utils/workspaceSearch';
+
+interface WorkspaceSearchPanelProps {
+  onOpenMatch: (path: string, line: number, column: number) => void;
+  onClose: () => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+const EMPTY_OPTIONS: WorkspaceSearchOptions = {
+  query: '',
+  isRegex: false,
+  matchCase: false,
+  wholeWord: false,
+  include: '',
+  exclude: ''
+};
+
+const Wrapper = styled.div`
+  height: 100%;
+  min-height: 0;
+  display: flex;
+  flex-direction: column;
+`;
+
+const Controls = styled.div`
+  display: grid;
+  gap: 6px;
+  padding: 12px;
+  border-bottom: 1px solid rgba(255, 255, 255, 0.08);
+`;
+
+const FieldRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+`;
+
+const Field = styled.div`
+  flex: 1;
+  min-width: 0;
+  display: flex;
+  align-items: center;
+  gap: 2px;
+  height: 30px;
+  padding: 0 4px 0 8px;
+  border-radius: 8px;
+  border: 1px solid rgba(255, 255, 255, 0.14);
+  background: rgba(0, 0, 0, 0.26);
+
+  &:focus-within {
+    border-color: rgba(34, 211, 238, 0.46);
+  }
+
+  input {
+    flex: 1;
+    min-width: 0;
+    border: 0;
+    background: transparent;
+    color: rgba(255, 255, 255, 0.96);
+    font-size: 12px;
+    outline: none;
+  }
+`;
+
+const ToggleButton = styled.button<{ $active: boolean }>`
+  width: 24px;
+  height: 22px;
+  border-radius: 6px;
+  border: 1px solid ${(p) => (p.$active ? 'rgba(34, 211, 238, 0.45)' : 'transparent')};
+  background: ${(p) => (p.$active ? 'rgba(34, 211, 238, 0.14)' : 'transparent')};
+  color: ${(p) => (p.$active ? 'rgba(103, 232, 249, 0.95)' : 'rgba(255, 255, 255, 0.5)')};
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  cursor: pointer;
+
+  &:hover {
+    color: rgba(255, 255, 255, 0.92);
+  }
+`;
+
+const ActionButton = styled.button<{ $primary?: boolean }>`
+  height: 30px;
+  border-radius: 8px;
+  border: 1px solid ${(p) => (p.$primary ? 'rgba(34, 211, 238, 0.4)' : 'rgba(255, 255, 255, 0.14)')};
+  background: ${(p) => (p.$primary ? 'rgba(34, 211, 238, 0.14)' : 'rgba(255, 255, 255, 0.04)')};
+  color: rgba(255, 255, 255, 0.88);
+  font-size: 11px;
+  font-weight: 800;
+  padding: 0 10px;
+  display: inline-flex;
+  align-items: center;
+  gap: 6px;
+  white-space: nowrap;
+  cursor: pointer;
+
+  &:hover:not(:disabled) {
+    border-color: rgba(34, 211, 238, 0.5);
+  }
+
+  &:disabled {
+    opacity: 0.45;
+    cursor: not-allowed;
+  }
+`;
+
+const IconButton = styled.button`
+  width: 28px;
+  height: 28px;
+  border: 0;
+  border-radius: 8px;
+  background: transparent;
+  color: rgba(255, 255, 255, 0.6);
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  cursor: pointer;
+
+  &:hover {
+    background: rgba(255, 255, 255, 0.08);
+    color: rgba(255, 255, 255, 0.92);
+  }
+`;
+
+const Summary = styled.div<{ $error?: boolean }>`
+  padding: 8px 12px;
+  font-size: 11px;
+  color: ${(p) => (p.$error ? 'rgba(252, 165, 165, 0.95)' : 'rgba(255, 255, 255, 0.5)')};
+`;
+
+const Results = styled.div`
+  flex: 1;
+  min-height: 0;
+  overflow: auto;
+  padding: 0 8px 12px;
+`;
+
+const FileHeader = styled.button`
+  width: 100%;
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  padding: 5px 6px;
+  border: 0;
+  border-radius: 7px;
+  background: transparent;
+  color: rgba(255, 255, 255, 0.88);
+  font-size: 12px;
+  font-weight: 700;
+  text-align: left;
+  cursor: pointer;
+
+  &:hover {
+    background: rgba(255, 255, 255, 0.05);
+  }
+`;
+
+const FilePath = styled.span`
+  flex: 1;
+  min-width: 0;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const CountBadge = styled.span`
+  font-size: 10px;
+  font-weight: 800;
+  padding: 1px 7px;
+  border-radius: 999px;
+  background: rgba(255, 255, 255, 0.08);
+  color: rgba(255, 255, 255, 0.65);
+`;
+
+const MatchRow = styled.button`
+  width: 100%;
+  display: flex;
+  gap: 10px;
+  padding: 3px 6px 3px 28px;
+  border: 0;
+  border-radius: 6px;
+  background: transparent;
+  color: rgba(255, 255, 255, 0.7);
+  font-family: 'JetBrains Mono', monospace;
+  font-size: 11px;
+  text-align: left;
+  cursor: pointer;
+
+  &:hover {
+    background: rgba(34, 211, 238, 0.08);
+  }
+
+  mark {
+    background: rgba(250, 204, 21, 0.28);
+    color: rgba(255, 255, 255, 0.96);
+    border-radius: 2px;
+  }
+`;
+
+const LineNumber = styled.span`
+  flex: 0 0 auto;
+  min-width: 32px;
+  text-align: right;
+  color: rgba(255, 255, 255, 0.35);
+`;
+
+const LineText = styled.span`
+  flex: 1;
+  min-width: 0;
+  white-space: pre;
+  overflow: hidden;
+  text-overflow: ellipsis;
+`;
+
+const PreviewCard = styled.div`
+  margin-top: 8px;
+  border-radius: 12px;
+  border: 1px solid rgba(255, 255, 255, 0.07);
+  background: rgba(255, 255, 255, 0.03);
+  padding: 6px;
+`;
+
+const PreviewHeader = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 2px 4px 6px;
+  font-size: 12px;
+  font-weight: 700;
+  color: rgba(255, 255, 255, 0.88);
+  cursor: pointer;
+`;
+
+const DiffView = styled.pre`
+  margin: 0;
+  max-height: 280px;
+  overflow: auto;
+  border-radius: 9px;
+  border: 1px solid rgba(255, 255, 255, 0.06);
+  background: rgba(0, 0, 0, 0.3);
+  font-family: 'JetBrains Mono', monospace;
+  font-size: 11px;
+  line-height: 1.5;
+`;
+
+const DiffLine = styled.div<{ $type: 'equal' | 'insert' | 'delete' | 'skip' }>`
+  padding: 0 8px;
+  white-space: pre;
+  color: ${(p) =>
+    p.$type === 'insert'
+      ? 'rgba(134, 239, 172, 0.95)'
+      : p.$type === 'delete'
+        ? 'rgba(252, 165, 165, 0.95)'
+        : p.$type === 'skip'
+          ? 'rgba(255, 255, 255, 0.35)'
+          : 'rgba(255, 255, 255, 0.6)'};
+  background: ${(p) =>
+    p.$type === 'insert' ? 'rgba(34, 197, 94, 0.1)' : p.$type === 'delete' ? 'rgba(239, 68, 68, 0.1)' : 'transparent'};
+`;
+
+const PreviewActions = styled.div`
+  position: sticky;
+  top: 0;
+  z-index: 1;
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  padding: 8px 4px;
+  background: rgba(9, 12, 22, 0.96);
+`;
+
+const Spacer = styled.span`
+  flex: 1;
+`;
+
+const MatchPreview: React.FC<{ match: WorkspaceSearchMatch }> = ({ match }) => {
+  const { preview, previewStart, length } = match;
+  return (
+    <LineText>
+      {preview.slice(0, previewStart)}
+      <mark>{preview.slice(previewStart, previewStart + length)}</mark>
+      {preview.slice(previewStart + length)}
+    </LineText>
+  );
+};
+
+const ReplacementDiff: React.FC<{ replacement: WorkspaceReplacement }> = ({ replacement }) => {
+  const rows = useMemo(
+    () => collapseLineDiff(diffLines(replacement.before, replacement.after), 2),
+    [replacement.before, replacement.after]
+  );
+  return (
+    <DiffView className="scrollbar-thin scrollbar-glass">
+      {rows.map((row, index) =>
+        row.type === 'skip' ? (
+          <DiffLine key={index} $type="skip">
+            {`⋯ ${row.count}`}
+          </DiffLine>
+        ) : (
+          <DiffLine key={index} $type={row.type}>
+            {`${row.type === 'insert' ? '+' : row.type === 'delete' ? '-' : ' '} ${row.text}`}
+          </DiffLine>
+        )
+      )}
+    </DiffView>
+  );
+};
+
+const readLiveContent = (path: string) => {
+  const file = useProjectStore.getState().files.find((f) => (f.path || f.name) === path);
+  return file ? String(file.content || '') : null;
+};
+
+export const WorkspaceSearchPanel: React.FC<WorkspaceSearchPanelProps> = ({ onOpenMatch, onClose }) => {
+  const { t } = useLanguage();
+  const files = useProjectStore((state) => state.files);
+  const projectId = useProjectStore((state) => state.projectId);
+  const isGenerating = useAIStore((state) => state.isGenerating);
+
+  const [draft, setDraft] = useState<WorkspaceSearchOptions>(EMPTY_OPTIONS);
+  const [options, setOptions] = useState<WorkspaceSearchOptions>(EMPTY_OPTIONS);
+  const [replacement, setReplacement] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+  const [preview, setPreview] = useState<WorkspaceReplacement[] | null>(null);
+  const [skipped, setSkipped] = useState<Set<string>>(() => new Set());
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<{ text: string; error: boolean } | null>(null);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setOptions(draft), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [draft]);
+
+  const result = useMemo(() => searchWorkspaceFiles(files, options), [files, options]);
+
+  const update = (patch: Partial<WorkspaceSearchOptions>) => {
+    setDraft((prev) => ({ ...prev, ...patch }));
+    setPreview(null);
+    setNotice(null);
+  };
+
+  const toggleCollapsed = (path: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+
+  const openPreview = () => {
+    const next = buildWorkspaceReplacements(
+      useProjectStore.getState().files,
+      result.files.map((file) => file.path),
+      options,
+      replacement
+    );
+    setSkipped(new Set());
+    setNotice(next.length === 0 ? { text: t('app.search.nothingToReplace'), error: false } : null);
+    setPreview(next.length > 0 ? next : null);
+  };
+
+  const selected = (preview || []).filter((entry) => !skipped.has(entry.path));
+  const selectedCount = selected.reduce((sum, entry) => sum + entry.count, 0);
+
+  const applyPreview = async () => {
+    if (selected.length === 0 || busy) return;
+    // The preview is only valid against the contents it was built from.
+    const stale = selected.find((entry) => readLiveContent(entry.path) !== entry.before);
+    if (stale) {
+      // Rebuild first: openPreview clears the notice, and the user still needs to know why nothing was applied.
+      openPreview();
+      setNotice({ text: t('app.search.stale').replace('{path}', stale.path), error: true });
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await createWorkspaceBackup({
+        projectId,
+        reason: 'pre-replace',
+        paths: selected.map((entry) => entry.path)
+      });
+    } catch {
+      setBusy(false);
+      setNotice({ text: t('app.search.backupFailed'), error: true });
+      return;
+    }
+
+    const project = useProjectStore.getState();
+    for (const entry of selected) project.updateFile(entry.path, entry.after);
+    void useJournalStore.getState().record({
+      runId: null,
+      label: `Replace "${options.query}" in ${selected.length} file${selected.length === 1 ? '' : 's'}`,
+      changes: selected.map((entry) => ({ path: entry.path, before: entry.before, after: entry.after }))
+    });
+
+    setBusy(false);
+    setPreview(null);
+    setNotice({
+      text: t('app.search.replaced')
+        .replace('{count}', String(selectedCount))
+        .replace('{files}', String(selected.length)),
+      error: false
+    });
+  };
+
+  const summary = result.error
+    ? { text: result.error, error: true }
+    : notice ||
+      (options.query
+        ? {
+            text: `${t('app.search.summary')
+              .replace('{count}', String(result.totalMatches))
+              .replace('{files}', String(result.files.length))}${result.truncated ? ` ${t('app.search.truncated')}` : ''}`,
+            error: false
+          }
+        : null);
+
+  return (
+    <Wrapper>
+      <Controls>
+        <FieldRow>
+          <Field>
+            <input
+              autoFocus
+              value={draft.query}
+              placeholder={t('app.search.placeholder')}
+              onChange={(event) => update({ query: event.target.value })}
+            />
+            <ToggleButton
+              type="button"
+              $active={draft.matchCase}
+              title={t('app.search.matchCase')}
+              onClick={() => update({ matchCase: !draft.matchCase })}
+            >
+              <CaseSensitive size={14} />
+            </ToggleButton>
+            <ToggleButton
+              type="button"
+              $active={draft.wholeWord}
+              title={t('app.search.wholeWord')}
+              onClick={() => update({ wholeWord: !draft.wholeWord })}
+            >
+              <WholeWord size={14} />
+            </ToggleButton>
+            <ToggleButton
+              type="button"
+              $active={draft.isRegex}
+              title={t('app.search.regex')}
+              onClick={() => update({ isRegex: !draft.isRegex })}
+            >
+              <Regex size={14} />
+            </ToggleButton>
+          </Field>
+          <IconButton type="button" title={t('app.search.close')} aria-label={t('app.search.close')} onClick={onClose}>
+            <X size={15} />
+          </IconButton>
+        </FieldRow>
+        <FieldRow>
+          <Field>
+            <input
+              value={replacement}
+              placeholder={t('app.search.replacePlaceholder')}
+              onChange={(event) => {
+                setReplacement(event.target.value);
+                setPreview(null);
+              }}
+            />
+          </Field>
+          <ActionButton
+            type="button"
+            disabled={!options.query || result.files.length === 0 || Boolean(result.error) || options !== draft}
+            onClick={openPreview}
+          >
+            <Replace size={13} />
+            {t('app.search.replaceAll')}
+          </ActionButton>
+        </FieldRow>
+        <FieldRow>
+          <Field>
+            <input
+              value={draft.include}
+              placeholder={t('app.search.include')}
+              onChange={(event) => update({ include: event.target.value })}
+            />
+          </Field>
+          <Field>
+            <input
+              value={draft.exclude}
+              placeholder={t('app.search.exclude')}
+              onChange={(event) => update({ exclude: event.target.value })}
+            />
+          </Field>
+        </FieldRow>
+      </Controls>
+
+      {summary ? <Summary $error={summary.error}>{summary.text}</Summary> : null}
+
+      <Results className="scrollbar-thin scrollbar-glass">
+        {preview ? (
+          <>
+            <PreviewActions>
+              <ActionButton type="button" $primary disabled={selected.length === 0 || busy || isGenerating} onClick={() => void applyPreview()}>
+                {t('app.search.apply')
+                  .replace('{count}', String(selectedCount))
+                  .replace('{files}', String(selected.length))}
+              </ActionButton>
+              <ActionButton type="button" onClick={() => setPreview(null)}>
+                {t('app.search.cancel')}
+              </ActionButton>
+              <Spacer />
+            </PreviewActions>
+            {preview.map((entry) => (
+              <PreviewCard key={entry.path}>
+                <PreviewHeader>
+                  <input
+                    type="checkbox"
+                    checked={!skipped.has(entry.path)}
+                    onChange={() =>
+                      setSkipped((prev) => {
+                        const next = new Set(prev);
+                        if (next.has(entry.path)) next.delete(entry.path);
+                        else next.add(entry.path);
+                        return next;
+                      })
+                    }
+                  />
+                  <FilePath title={entry.path}>{entry.path}</FilePath>
+                  <CountBadge>{entry.count}</CountBadge>
+                </PreviewHeader>
+                <ReplacementDiff replacement={entry} />
+              </PreviewCard>
+            ))}
+          </>
+        ) : (
+          result.files.map((file) => {
+            const isCollapsed = collapsed.has(file.path);
+            return (
+              <div key={file.path}>
+                <FileHeader type="button" onClick={() => toggleCollapsed(file.path)} title={file.path}>
+                  {isCollapsed ? <ChevronRight size={13} /> : <ChevronDown size={13} />}
+                  <FilePath>{file.path}</FilePath>
+                  <CountBadge>
+                    {file.matches.length}
+                    {file.truncated ? '+' : ''}
+                  </CountBadge>
+                </FileHeader>
+                {isCollapsed
+                  ? null
+                  : file.matches.map((match) => (
+                      <MatchRow
+                        key={`${match.line}:${match.column}`}
+                        type="button"
+                        onClick={() => onOpenMatch(file.path, match.line, match.column + 1)}
+                      >
+                        <LineNumber>{match.line}</LineNumber>
+                        <MatchPreview match={match} />
+                      </MatchRow>
+                    ))}
+              </div>
+            );
+          })
+        )}
+      </Results>
+    </Wrapper>
+  );
+};
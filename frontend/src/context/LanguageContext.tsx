@@ -106,6 +106,36 @@ const translations: Record<Language, Translations> = {
     'app.sidebar.files': 'Files',
     'app.sidebar.history': 'History',
     'app.sidebar.settings': 'Settings',
+    'app.sidebar.uploadAsset': 'Upload images, fonts or media to assets/',
+    'app.sidebar.assetRejected': 'Not a supported asset or larger than 5 MB',
+    'app.fileTree.newFile': 'New file',
+    'app.fileTree.newFolder': 'New folder',
+    'app.fileTree.rename': 'Rename',
+    'app.fileTree.duplicate': 'Duplicate',
+    'app.fileTree.delete': 'Delete',
+    'app.fileTree.rewriteReferences': 'Update href/src/import references when moving or renaming',
+    'app.fileTree.referencesUpdated': 'Updated references in {files} file(s).',
+    'app.fileTree.confirmMove': 'Move {from} to {to}?',
+    'app.fileTree.confirmDelete': 'Delete {path}? A backup is kept and text files can be restored with undo.',
+    'app.fileTree.invalidName': 'That name contains characters that cannot be used in a path.',
+    'app.fileTree.empty': 'No files yet. Generate code or create a file to get started.',
+    'app.projects.title': 'Projects',
+    'app.projects.empty': 'No saved projects yet.',
+    'app.projects.open': 'Open project',
+    'app.projects.files': 'files',
+    'app.projects.rename': 'Rename',
+    'app.projects.renamePrompt': 'Project name',
+    'app.projects.duplicate': 'Duplicate',
+    'app.projects.delete': 'Delete',
+    'app.projects.deleteConfirm': 'Delete project',
+    'app.projects.importHint': 'Import, or drop a folder or ZIP here',
+    'app.projects.importZip': 'Import a ZIP archive',
+    'app.projects.importFolder': 'Import a folder',
+    'app.projects.importFiles': 'Import files',
+    'app.projects.importedName': 'Imported project',
+    'app.projects.imported': 'Imported {count} files as a new project ({skipped} skipped).',
+    'app.projects.importEmpty': 'Nothing to import: every file was ignored, binary or too large.',
+    'app.projects.importFailed': 'Import failed.',
     'app.status.line': 'Line',
     'app.status.chars': 'chars',
     'app.mode.editor': 'Editor Mode',
@@ -170,6 +200,37 @@ const translations: Record<Language, Translations> = {
     'app.tools.custom.placeholder': 'Add custom feature tag (e.g. offline support)',
     'app.tools.custom.add': 'Add Tag',
     'app.tools.custom.none': 'No custom tags.',
+    'app.tools.packs.title': 'Feature packs',
+    'app.tools.packs.none': 'No feature packs yet. Create one or import a JSON export.',
+    'app.tools.packs.new': 'New pack',
+    'app.tools.packs.import': 'Import',
+    'app.tools.packs.imported': 'Imported',
+    'app.tools.packs.export': 'Export pack',
+    'app.tools.packs.exportAll': 'Export all',
+    'app.tools.packs.edit': 'Edit pack',
+    'app.tools.packs.delete': 'Delete pack',
+    'app.tools.packs.deleteConfirm': 'Delete feature pack',
+    'app.tools.packs.selectAll': 'Select all',
+    'app.tools.packs.features': 'features',
+    'app.tools.packs.name': 'Pack name',
+    'app.tools.packs.description': 'Description',
+    'app.tools.packs.save': 'Save pack',
+    'app.tools.packs.saved': 'Saved',
+    'app.tools.packs.cancel': 'Cancel',
+    'app.tools.packs.feature.add': 'Add feature',
+    'app.tools.packs.feature.remove': 'Remove feature',
+    'app.tools.packs.feature.label': 'Feature label',
+    'app.tools.packs.feature.promptRule': 'Prompt rule sent to the model',
+    'app.tools.packs.rule.title': 'Validation rules',
+    'app.tools.packs.rule.matchAll': 'All rules must pass',
+    'app.tools.packs.rule.matchAny': 'Any rule may pass',
+    'app.tools.packs.rule.add': 'Add rule',
+    'app.tools.packs.rule.remove': 'Remove rule',
+    'app.tools.packs.rule.kind': 'Rule kind',
+    'app.tools.packs.rule.target': 'Target',
+    'app.tools.packs.rule.match': 'Match',
+    'app.tools.packs.rule.scope': 'Scope',
+    'app.tools.packs.rule.message': 'Hint shown when missing (optional)',
     'app.tools.section.selected': 'Selected',
     'app.tools.section.custom': 'Custom',
     'app.tools.category.ui': 'UI',
@@ -215,6 +276,9 @@ const translations: Record<Language, Translations> = {
     'app.logs.filter.info': 'Info',
     'app.logs.filter.warning': 'Warning',
     'app.logs.filter.error': 'Error',
+    'app.logs.console.title': 'Preview console',
+    'app.logs.console.empty': 'No console output from the preview yet.',
+    'app.logs.console.stack': 'Stack trace',
     'app.mobile.tab.editor': 'Editor',
     'app.mobile.tab.preview': 'Preview',
     'app.mobile.tab.ai': 'AI',
@@ -233,6 +297,117 @@ const translations: Record<Language, Translations> = {
     'app.plan.status.reasoning': 'Reasoning...',
     'app.plan.status.done': 'Done',
     'app.plan.status.pending': 'Pending',
+    'app.plan.status.failed': 'Failed',
+    'app.plan.status.blocked': 'Blocked',
+    'app.plan.status.skipped': 'Skipped',
+    'app.plan.action.retry': 'Retry',
+    'app.plan.action.skip': 'Skip',
+    'app.plan.editor.hint': 'Review the plan before it runs. Rename, reorder, split, merge or delete steps, adjust target files and leave notes for the executor.',
+    'app.plan.editor.stepTitle': 'Step title',
+    'app.plan.editor.files': 'Target files',
+    'app.plan.editor.notes': 'Notes',
+    'app.plan.editor.notesPlaceholder': 'Extra guidance for this step (optional)',
+    'app.plan.editor.moveUp': 'Move up',
+    'app.plan.editor.moveDown': 'Move down',
+    'app.plan.editor.split': 'Split',
+    'app.plan.editor.merge': 'Merge with next',
+    'app.plan.editor.delete': 'Delete',
+    'app.plan.editor.replanFrom': 'Re-plan from',
+    'app.plan.editor.reviewToggle': 'Review plans before executing',
+    'app.plan.editor.replanning': 'Re-planning…',
+    'app.plan.editor.execute': 'Execute plan',
+    'app.graph.title': 'Project graph',
+    'app.graph.empty': 'No project files to graph yet.',
+    'app.graph.zoomIn': 'Zoom in',
+    'app.graph.zoomOut': 'Zoom out',
+    'app.graph.fit': 'Fit to view',
+    'app.graph.legend': 'Legend',
+    'app.graph.tags': 'Tags',
+    'app.graph.route': 'Route',
+    'app.graph.degree': 'References',
+    'app.graph.tag.page': 'Page',
+    'app.graph.tag.script': 'Script',
+    'app.graph.tag.style': 'Style',
+    'app.graph.tag.meta': 'Meta',
+    'app.graph.tag.other': 'Other',
+    'app.graph.edge.import': 'import',
+    'app.graph.edge.link': 'link',
+    'app.graph.edge.asset': 'asset',
+    'app.graph.edge.route': 'route',
+    'app.graph.contextTitle': 'Last request context',
+    'app.graph.context.selected': 'Selected',
+    'app.graph.context.dropped': 'Dropped',
+    'app.graph.context.none': 'No request has been sent yet.',
+    'app.graph.broken': 'Broken links',
+    'app.graph.orphans': 'Orphaned files',
+    'app.graph.none': 'None',
+    'app.memory.title': 'Project memory',
+    'app.memory.close': 'Close project memory',
+    'app.memory.hint': 'Rules are sent with every request. Pinned and recent facts are added when they fit; facts are captured from chat when a session is saved.',
+    'app.memory.placeholder': 'e.g. Never use external CDNs',
+    'app.memory.permanent': 'Project rule',
+    'app.memory.add': 'Add',
+    'app.memory.rules': 'Project rules',
+    'app.memory.rulesEmpty': 'No project rules yet.',
+    'app.memory.pinned': 'Pinned',
+    'app.memory.captured': 'Captured',
+    'app.memory.capturedEmpty': 'Nothing captured from chat yet.',
+    'app.memory.loading': 'Loading…',
+    'app.memory.noProject': 'Open a project to manage its memory.',
+    'app.memory.pin': 'Pin',
+    'app.memory.unpin': 'Unpin',
+    'app.memory.markPermanent': 'Make a project rule',
+    'app.memory.unmarkPermanent': 'Remove from project rules',
+    'app.memory.edit': 'Edit',
+    'app.memory.delete': 'Delete',
+    'app.memory.save': 'Save',
+    'app.memory.cancel': 'Cancel',
+    'app.memory.category.constraint': 'Constraint',
+    'app.memory.category.decision': 'Decision',
+    'app.memory.category.file': 'File',
+    'app.memory.category.task': 'Task',
+    'app.memory.source.user': 'added by you',
+    'app.memory.source.chat': 'from chat',
+    'app.memory.source.summary': 'from summary',
+    'app.search.tab': 'Search',
+    'app.search.shortcut': 'Search files (Ctrl+Shift+F)',
+    'app.search.placeholder': 'Search',
+    'app.search.replacePlaceholder': 'Replace',
+    'app.search.include': 'Files to include (e.g. *.css, src)',
+    'app.search.exclude': 'Files to exclude',
+    'app.search.matchCase': 'Match case',
+    'app.search.wholeWord': 'Match whole word',
+    'app.search.regex': 'Use regular expression',
+    'app.search.close': 'Close search',
+    'app.search.replaceAll': 'Replace all…',
+    'app.search.summary': '{count} results in {files} files',
+    'app.search.truncated': '(results were capped)',
+    'app.search.nothingToReplace': 'Nothing to replace.',
+    'app.search.apply': 'Replace {count} in {files} files',
+    'app.search.cancel': 'Cancel',
+    'app.search.stale': '{path} changed since the preview was built; review the refreshed preview.',
+    'app.search.backupFailed': 'Replace was cancelled because the backup could not be created.',
+    'app.search.replaced': 'Replaced {count} matches in {files} files. Use workspace undo to revert.',
+    'app.review.tab': 'Review ({count})',
+    'app.review.title': '{count} proposed changes',
+    'app.review.hint': 'Nothing has been written yet. Untick files or hunks you do not want, then apply.',
+    'app.review.acceptAll': 'Accept all',
+    'app.review.rejectAll': 'Reject all',
+    'app.review.close': 'Close review',
+    'app.review.discard': 'Discard all',
+    'app.review.apply': 'Apply {count} accepted',
+    'app.review.empty': 'Select a change to see its diff.',
+    'app.review.partial': '{count} hunks rejected',
+    'app.review.revealHunk': 'Show this hunk',
+    'app.review.moveNotice': 'Move {from} to {to}',
+    'app.review.deleteNotice': 'Delete {path}',
+    'app.review.stale': '{path} changed after the review was created; discard this review and run again.',
+    'app.review.backupFailed': 'Nothing was applied because the backup could not be created.',
+    'app.review.writeFailed': 'Saving the accepted changes failed; nothing was applied and the review is still open.',
+    'app.review.kind.edit': 'edit',
+    'app.review.kind.create': 'new',
+    'app.review.kind.delete': 'delete',
+    'app.review.kind.move': 'move',
     'app.plan.stage.planner': 'Planner',
     'app.plan.stage.html': 'HTML',
     'app.plan.stage.css': 'CSS',
@@ -351,6 +526,36 @@ const translations: Record<Language, Translations> = {
     'app.sidebar.files': 'الملفات',
     'app.sidebar.history': 'السجل',
     'app.sidebar.settings': 'الإعدادات',
+    'app.sidebar.uploadAsset': 'رفع صور أو خطوط أو وسائط إلى assets/',
+    'app.sidebar.assetRejected': 'ليس ملف أصول مدعومًا أو أكبر من 5 ميغابايت',
+    'app.fileTree.newFile': 'ملف جديد',
+    'app.fileTree.newFolder': 'مجلد جديد',
+    'app.fileTree.rename': 'إعادة التسمية',
+    'app.fileTree.duplicate': 'تكرار',
+    'app.fileTree.delete': 'حذف',
+    'app.fileTree.rewriteReferences': 'تحديث مراجع href/src/import عند النقل أو إعادة التسمية',
+    'app.fileTree.referencesUpdated': 'تم تحديث المراجع في {files} ملف.',
+    'app.fileTree.confirmMove': 'نقل {from} إلى {to}؟',
+    'app.fileTree.confirmDelete': 'حذف {path}؟ ستُحفظ نسخة احتياطية ويمكن استعادة الملفات النصية بالتراجع.',
+    'app.fileTree.invalidName': 'يحتوي الاسم على أحرف لا يمكن استخدامها في المسار.',
+    'app.fileTree.empty': 'لا توجد ملفات بعد. أنشئ الكود أو أنشئ ملفًا للبدء.',
+    'app.projects.title': 'المشاريع',
+    'app.projects.empty': 'لا توجد مشاريع محفوظة بعد.',
+    'app.projects.open': 'فتح المشروع',
+    'app.projects.files': 'ملفات',
+    'app.projects.rename': 'إعادة التسمية',
+    'app.projects.renamePrompt': 'اسم المشروع',
+    'app.projects.duplicate': 'نسخ',
+    'app.projects.delete': 'حذف',
+    'app.projects.deleteConfirm': 'حذف المشروع',
+    'app.projects.importHint': 'استيراد، أو أفلت مجلدًا أو ملف ZIP هنا',
+    'app.projects.importZip': 'استيراد أرشيف ZIP',
+    'app.projects.importFolder': 'استيراد مجلد',
+    'app.projects.importFiles': 'استيراد ملفات',
+    'app.projects.importedName': 'مشروع مستورد',
+    'app.projects.imported': 'تم استيراد {count} ملفًا كمشروع جديد (تم تخطي {skipped}).',
+    'app.projects.importEmpty': 'لا يوجد ما يُستورد: كل الملفات مستبعدة أو ثنائية أو كبيرة جدًا.',
+    'app.projects.importFailed': 'فشل الاستيراد.',
     'app.status.line': 'السطر',
     'app.status.chars': 'حرف',
     'app.mode.editor': 'وضع التحرير',
@@ -415,6 +620,37 @@ const translations: Record<Language, Translations> = {
     'app.tools.custom.placeholder': 'أضف وسم مخصص (مثال: دعم العمل بدون إنترنت)',
     'app.tools.custom.add': 'إضافة وسم',
     'app.tools.custom.none': 'لا توجد وسوم مخصصة.',
+    'app.tools.packs.title': 'حزم الميزات',
+    'app.tools.packs.none': 'لا توجد حزم ميزات بعد. أنشئ حزمة أو استورد ملف JSON.',
+    'app.tools.packs.new': 'حزمة جديدة',
+    'app.tools.packs.import': 'استيراد',
+    'app.tools.packs.imported': 'تم الاستيراد',
+    'app.tools.packs.export': 'تصدير الحزمة',
+    'app.tools.packs.exportAll': 'تصدير الكل',
+    'app.tools.packs.edit': 'تعديل الحزمة',
+    'app.tools.packs.delete': 'حذف الحزمة',
+    'app.tools.packs.deleteConfirm': 'حذف حزمة الميزات',
+    'app.tools.packs.selectAll': 'تحديد الكل',
+    'app.tools.packs.features': 'ميزات',
+    'app.tools.packs.name': 'اسم الحزمة',
+    'app.tools.packs.description': 'الوصف',
+    'app.tools.packs.save': 'حفظ الحزمة',
+    'app.tools.packs.saved': 'تم الحفظ',
+    'app.tools.packs.cancel': 'إلغاء',
+    'app.tools.packs.feature.add': 'إضافة ميزة',
+    'app.tools.packs.feature.remove': 'إزالة الميزة',
+    'app.tools.packs.feature.label': 'اسم الميزة',
+    'app.tools.packs.feature.promptRule': 'قاعدة التعليمات المرسلة للنموذج',
+    'app.tools.packs.rule.title': 'قواعد التحقق',
+    'app.tools.packs.rule.matchAll': 'يجب أن تنجح كل القواعد',
+    'app.tools.packs.rule.matchAny': 'يكفي نجاح أي قاعدة',
+    'app.tools.packs.rule.add': 'إضافة قاعدة',
+    'app.tools.packs.rule.remove': 'إزالة القاعدة',
+    'app.tools.packs.rule.kind': 'نوع القاعدة',
+    'app.tools.packs.rule.target': 'الهدف',
+    'app.tools.packs.rule.match': 'المطابقة',
+    'app.tools.packs.rule.scope': 'النطاق',
+    'app.tools.packs.rule.message': 'تلميح عند الغياب (اختياري)',
     'app.tools.section.selected': 'المحدد',
     'app.tools.section.custom': 'مخصص',
     'app.tools.category.ui': 'واجهة',
@@ -460,6 +696,9 @@ const translations: Record<Language, Translations> = {
     'app.logs.filter.info': 'معلومة',
     'app.logs.filter.warning': 'تحذير',
     'app.logs.filter.error': 'خطأ',
+    'app.logs.console.title': 'وحدة تحكم المعاينة',
+    'app.logs.console.empty': 'لا توجد مخرجات من المعاينة بعد.',
+    'app.logs.console.stack': 'تتبع المكدس',
     'app.mobile.tab.editor': 'المحرر',
     'app.mobile.tab.preview': 'المعاينة',
     'app.mobile.tab.ai': 'الذكاء',
@@ -478,6 +717,117 @@ const translations: Record<Language, Translations> = {
     'app.plan.status.reasoning': 'جاري الاستنتاج...',
     'app.plan.status.done': 'تم',
     'app.plan.status.pending': 'قيد الانتظار',
+    'app.plan.status.failed': 'فشل',
+    'app.plan.status.blocked': 'محظور',
+    'app.plan.status.skipped': 'تم التخطي',
+    'app.plan.action.retry': 'إعادة المحاولة',
+    'app.plan.action.skip': 'تخطي',
+    'app.plan.editor.hint': 'راجع الخطة قبل تنفيذها. يمكنك إعادة تسمية الخطوات أو ترتيبها أو تقسيمها أو دمجها أو حذفها، وتعديل الملفات المستهدفة وإضافة ملاحظات للمنفّذ.',
+    'app.plan.editor.stepTitle': 'عنوان الخطوة',
+    'app.plan.editor.files': 'الملفات المستهدفة',
+    'app.plan.editor.notes': 'ملاحظات',
+    'app.plan.editor.notesPlaceholder': 'إرشادات إضافية لهذه الخطوة (اختياري)',
+    'app.plan.editor.moveUp': 'تحريك لأعلى',
+    'app.plan.editor.moveDown': 'تحريك لأسفل',
+    'app.plan.editor.split': 'تقسيم',
+    'app.plan.editor.merge': 'دمج مع التالية',
+    'app.plan.editor.delete': 'حذف',
+    'app.plan.editor.replanFrom': 'إعادة التخطيط من',
+    'app.plan.editor.reviewToggle': 'مراجعة الخطط قبل التنفيذ',
+    'app.plan.editor.replanning': 'جارٍ إعادة التخطيط…',
+    'app.plan.editor.execute': 'تنفيذ الخطة',
+    'app.graph.title': 'مخطط المشروع',
+    'app.graph.empty': 'لا توجد ملفات لعرضها في المخطط بعد.',
+    'app.graph.zoomIn': 'تكبير',
+    'app.graph.zoomOut': 'تصغير',
+    'app.graph.fit': 'ملاءمة العرض',
+    'app.graph.legend': 'دليل الألوان',
+    'app.graph.tags': 'الوسوم',
+    'app.graph.route': 'المسار',
+    'app.graph.degree': 'المراجع',
+    'app.graph.tag.page': 'صفحة',
+    'app.graph.tag.script': 'سكربت',
+    'app.graph.tag.style': 'تنسيق',
+    'app.graph.tag.meta': 'بيانات وصفية',
+    'app.graph.tag.other': 'أخرى',
+    'app.graph.edge.import': 'استيراد',
+    'app.graph.edge.link': 'ربط',
+    'app.graph.edge.asset': 'أصل',
+    'app.graph.edge.route': 'مسار',
+    'app.graph.contextTitle': 'سياق آخر طلب',
+    'app.graph.context.selected': 'مختار',
+    'app.graph.context.dropped': 'مستبعد',
+    'app.graph.context.none': 'لم يُرسل أي طلب بعد.',
+    'app.graph.broken': 'روابط معطلة',
+    'app.graph.orphans': 'ملفات غير مرتبطة',
+    'app.graph.none': 'لا يوجد',
+    'app.memory.title': 'ذاكرة المشروع',
+    'app.memory.close': 'إغلاق ذاكرة المشروع',
+    'app.memory.hint': 'تُرسل القواعد مع كل طلب. تُضاف الحقائق المثبتة والحديثة عندما تتسع لها المساحة، وتُلتقط الحقائق من المحادثة عند حفظ الجلسة.',
+    'app.memory.placeholder': 'مثال: لا تستخدم شبكات CDN خارجية أبدًا',
+    'app.memory.permanent': 'قاعدة مشروع',
+    'app.memory.add': 'إضافة',
+    'app.memory.rules': 'قواعد المشروع',
+    'app.memory.rulesEmpty': 'لا توجد قواعد للمشروع بعد.',
+    'app.memory.pinned': 'مثبتة',
+    'app.memory.captured': 'ملتقطة',
+    'app.memory.capturedEmpty': 'لم يُلتقط شيء من المحادثة بعد.',
+    'app.memory.loading': 'جارٍ التحميل…',
+    'app.memory.noProject': 'افتح مشروعًا لإدارة ذاكرته.',
+    'app.memory.pin': 'تثبيت',
+    'app.memory.unpin': 'إلغاء التثبيت',
+    'app.memory.markPermanent': 'اجعلها قاعدة مشروع',
+    'app.memory.unmarkPermanent': 'إزالة من قواعد المشروع',
+    'app.memory.edit': 'تعديل',
+    'app.memory.delete': 'حذف',
+    'app.memory.save': 'حفظ',
+    'app.memory.cancel': 'إلغاء',
+    'app.memory.category.constraint': 'قيد',
+    'app.memory.category.decision': 'قرار',
+    'app.memory.category.file': 'ملف',
+    'app.memory.category.task': 'مهمة',
+    'app.memory.source.user': 'أضفتها أنت',
+    'app.memory.source.chat': 'من المحادثة',
+    'app.memory.source.summary': 'من الملخص',
+    'app.search.tab': 'بحث',
+    'app.search.shortcut': 'البحث في الملفات (Ctrl+Shift+F)',
+    'app.search.placeholder': 'بحث',
+    'app.search.replacePlaceholder': 'استبدال',
+    'app.search.include': 'الملفات المضمّنة (مثل ‎*.css، src)',
+    'app.search.exclude': 'الملفات المستبعدة',
+    'app.search.matchCase': 'مطابقة حالة الأحرف',
+    'app.search.wholeWord': 'مطابقة الكلمة كاملة',
+    'app.search.regex': 'استخدام تعبير نمطي',
+    'app.search.close': 'إغلاق البحث',
+    'app.search.replaceAll': 'استبدال الكل…',
+    'app.search.summary': '{count} نتيجة في {files} ملفات',
+    'app.search.truncated': '(تم تقليص النتائج)',
+    'app.search.nothingToReplace': 'لا يوجد ما يُستبدل.',
+    'app.search.apply': 'استبدال {count} في {files} ملفات',
+    'app.search.cancel': 'إلغاء',
+    'app.search.stale': 'تغيّر {path} بعد إنشاء المعاينة؛ راجع المعاينة المحدّثة.',
+    'app.search.backupFailed': 'أُلغي الاستبدال لتعذّر إنشاء النسخة الاحتياطية.',
+    'app.search.replaced': 'تم استبدال {count} تطابقًا في {files} ملفات. استخدم التراجع لإلغاء ذلك.',
+    'app.review.tab': 'مراجعة ({count})',
+    'app.review.title': '{count} تغييرات مقترحة',
+    'app.review.hint': 'لم يُكتب أي شيء بعد. ألغِ تحديد الملفات أو الأجزاء التي لا تريدها ثم طبّق.',
+    'app.review.acceptAll': 'قبول الكل',
+    'app.review.rejectAll': 'رفض الكل',
+    'app.review.close': 'إغلاق المراجعة',
+    'app.review.discard': 'تجاهل الكل',
+    'app.review.apply': 'تطبيق {count} مقبولة',
+    'app.review.empty': 'اختر تغييرًا لعرض الفروقات.',
+    'app.review.partial': 'رُفض {count} من الأجزاء',
+    'app.review.revealHunk': 'عرض هذا الجزء',
+    'app.review.moveNotice': 'نقل {from} إلى {to}',
+    'app.review.deleteNotice': 'حذف {path}',
+    'app.review.stale': 'تغيّر {path} بعد إنشاء المراجعة؛ تجاهل هذه المراجعة وأعد التشغيل.',
+    'app.review.backupFailed': 'لم يُطبَّق شيء لتعذّر إنشاء النسخة الاحتياطية.',
+    'app.review.writeFailed': 'تعذّر حفظ التغييرات المقبولة؛ لم يُطبَّق شيء وما زالت المراجعة مفتوحة.',
+    'app.review.kind.edit': 'تعديل',
+    'app.review.kind.create': 'جديد',
+    'app.review.kind.delete': 'حذف',
+    'app.review.kind.move': 'نقل',
     'app.plan.stage.planner': 'المخطط',
     'app.plan.stage.html': 'HTML',
     'app.plan.stage.css': 'CSS',
@@ -3,6 +3,8 @@ import type * as monaco from 'monaco-editor';
 
 type SyncOptions = {
   preferIncremental?: boolean;
+  // Replace only the changed span as its own undo stop instead of resetting the model.
+  undoable?: boolean;
 };
 
 export const useStreamingEditorBridge = () => {
@@ -50,6 +52,41 @@ export const useStreamingEditorBridge = () => {
         }
       }
 
+      if (options.undoable) {
+        let prefix = 0;
+        const maxPrefix = Math.min(current.length, nextValue.length);
+        while (prefix < maxPrefix && current.charCodeAt(prefix) === nextValue.charCodeAt(prefix)) prefix++;
+        let suffix = 0;
+        const maxSuffix = maxPrefix - prefix;
+        while (
+          suffix < maxSuffix &&
+          current.charCodeAt(current.length - 1 - suffix) === nextValue.charCodeAt(nextValue.length - 1 - suffix)
+        ) {
+          suffix++;
+        }
+        const start = model.getPositionAt(prefix);
+        const end = model.getPositionAt(current.length - suffix);
+        model.pushStackElement();
+        model.pushEditOperations(
+          [],
+          [
+            {
+              range: {
+                startLineNumber: start.lineNumber,
+                startColumn: start.column,
+                endLineNumber: end.lineNumber,
+                endColumn: end.column
+              },
+              text: nextValue.slice(prefix, nextValue.length - suffix)
+            }
+          ],
+          () => null
+        );
+        model.pushStackElement();
+        lastValueRef.current = nextValue;
+        return true;
+      }
+
       model.setValue(nextValue);
       lastValueRef.current = nextValue;
       return true;
@@ -3,16 +3,20 @@ import { apiUrl, getApiBaseUrl } from '@/services/apiBase';
 import { useSubscriptionStore } from '@/stores/subscriptionStore';
 import { useProjectStore } from '@/stores/projectStore';
 import { useAIStore } from '@/stores/aiStore';
-import { usePreviewStore } from '@/stores/previewStore';
+import { useProjectMemoryStore } from '@/stores/projectMemoryStore';
+import { selectRecentPreviewErrors, usePreviewStore } from '@/stores/previewStore';
 import type { GenerationConstraints, GenerationProfile } from '@/types/constraints';
 import { buildAIOrganizationPolicyBlock, mergePromptWithConstraints } from '@/services/constraintPromptBuilder';
 import { buildContextBundle } from '@/services/contextRetrievalEngine';
 import { summarizeMemorySnapshot } from '@/services/memoryEngine';
 import { parseFileOpEventPayload } from '@/services/fileOpEvents';
-import type { WorkspaceAnalysisReport } from '@/types/context';
+import type { ConversationSummary, TokenUsageReport, WorkspaceAnalysisReport } from '@/types/context';
 import type { StrictWritePolicy } from '@/services/workspaceIntelligence';
+import { formatAssetSize, isBinaryFile } from '@/utils/binaryAssets';
 import { sanitizeOperationPath, stripTrailingFileMarkerFragment } from '@/utils/fileOpGuards';
 import { hasExplicitFrameworkRequest, resolveGenerationProfile } from '@/utils/generationProfile';
+import { parsePatchHunks, type PatchHunk } from '@/utils/patchHunks';
+import { parseTokenUsageReport } from '@/utils/tokenUsage';
 
 interface AIResponse {
   plan: string;
@@ -45,14 +49,96 @@ export type StreamFileEvent =
       toPath: string;
       reason?: string;
       safetyCheckPassed?: boolean;
+    }
+  | {
+      type: 'hunks';
+      path: string;
+      hunks: PatchHunk[];
+      reason?: string;
+      errors?: string[];
     };
 
+export interface LLMProviderInfo {
+  name: string;
+  label: string;
+  kind: string;
+  configured: boolean;
+  baseUrl: string | null;
+  model: string | null;
+  thinkingModel: string | null;
+  hint: string | null;
+}
+
+export interface LLMRouteInfo {
+  provider: string;
+  model: string;
+  thinkingModel?: string;
+  configured: boolean;
+}
+
+export interface ProviderStatus {
+  configured: boolean;
+  code?: string;
+  hint?: string | null;
+  provider?: string;
+  providers: LLMProviderInfo[];
+  routing: { planner: LLMRouteInfo; executor: LLMRouteInfo } | null;
+}
+
+// Plan step as exchanged with /ai/plan; `fixedSteps` in the request carry user-edited steps the planner must keep.
+export interface PlanPrefixStep {
+  id?: string;
+  title?: string;
+  category?: string;
+  files?: string[];
+  description?: string;
+  notes?: string;
+  depends_on?: string[];
+  estimatedSize?: 'small' | 'medium' | 'large';
+}
+
+// Last routing reported by the backend; undefined fields let the backend pick from its own env.
+let lastProviderRouting: ProviderStatus['routing'] = null;
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' ? (value as Record<string, unknown>) : null;
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : null);
+
+const parseRouteInfo = (value: unknown): LLMRouteInfo | null => {
+  const raw = asRecord(value);
+  if (!raw || typeof raw.provider !== 'string') return null;
+  return {
+    provider: raw.provider,
+    model: String(raw.model || ''),
+    thinkingModel: optionalString(raw.thinkingModel) ?? undefined,
+    configured: Boolean(raw.configured)
+  };
+};
+
+const parseProviderInfo = (value: unknown): LLMProviderInfo | null => {
+  const raw = asRecord(value);
+  if (!raw || typeof raw.name !== 'string') return null;
+  return {
+    name: raw.name,
+    label: String(raw.label || raw.name),
+    kind: String(raw.kind || 'openai-compatible'),
+    configured: Boolean(raw.configured),
+    baseUrl: optionalString(raw.baseUrl),
+    model: optionalString(raw.model),
+    thinkingModel: optionalString(raw.thinkingModel),
+    hint: optionalString(raw.hint)
+  };
+};
+
 const buildModelRoutingPayload = (thinkingMode: boolean, multiAgentEnabled: boolean = false) => {
+  const planner = lastProviderRouting?.planner;
+  const executor = lastProviderRouting?.executor;
   return {
-    plannerProvider: 'deepseek',
-    plannerModel: 'deepseek-chat',
-    executorProvider: 'deepseek',
-    executorModel: thinkingMode ? 'deepseek-reasoner' : 'deepseek-chat',
+    plannerProvider: planner?.provider || undefined,
+    plannerModel: planner?.model || undefined,
+    executorProvider: executor?.provider || undefined,
+    executorModel: (thinkingMode ? executor?.thinkingModel || executor?.model : executor?.model) || undefined,
     fallbackPolicy: 'planner->executor->default',
     multiAgent: {
       enabled: Boolean(multiAgentEnabled),
@@ -69,7 +155,7 @@ const buildContextMetaPayload = (extra?: Record<string, unknown>) => {
   const decisionMemory = (ai.compressionSnapshot?.summaryBlocks || [])
     .flatMap((block) => block.keyDecisions || [])
     .slice(0, 16);
-  const memorySummary = summarizeMemorySnapshot(ai.memorySnapshot);
+  const memorySummary = summarizeMemorySnapshot(ai.memorySnapshot, useProjectMemoryStore.getState().facts);
   return {
     budget: ai.contextBudget,
     compressionSummary: ai.compressionSnapshot,
@@ -81,6 +167,28 @@ const buildContextMetaPayload = (extra?: Record<string, unknown>) => {
   };
 };
 
+const MAX_MEMORY_PROMPT_CHARS = 4_000;
+
+// Project rules lead the summary, so trimming to the budget drops session notes before them.
+const buildMemoryPromptBlock = () =>
+  summarizeMemorySnapshot(useAIStore.getState().memorySnapshot, useProjectMemoryStore.getState().facts).slice(
+    0,
+    MAX_MEMORY_PROMPT_CHARS
+  );
+
+const MAX_ASSET_PROMPT_ENTRIES = 60;
+
+// Binary assets have no text to send; listing them lets generated code reference the real files.
+const buildBinaryAssetsPromptBlock = (files: ProjectFile[]) => {
+  const assets = files.filter((file) => isBinaryFile(file));
+  if (assets.length === 0) return '';
+  const lines = assets
+    .slice(0, MAX_ASSET_PROMPT_ENTRIES)
+    .map((file) => `${file.path || file.name} (${file.blob?.type || 'binary'}, ${formatAssetSize(file.blob?.size || 0)})`);
+  if (assets.length > MAX_ASSET_PROMPT_ENTRIES) lines.push(`...(${assets.length - MAX_ASSET_PROMPT_ENTRIES} more)`);
+  return `[BINARY ASSETS]\n${lines.join('\n')}`;
+};
+
 const summarizeTopFolders = (paths: string[]) => {
   const buckets = new Map<string, number>();
   for (const path of paths) {
@@ -136,7 +244,7 @@ const trimPromptForBackend = (rawPrompt: string, backendLimit: number) => {
 };
 
 export const aiService = {
-  async getProviderStatus(): Promise<{ configured: boolean; code?: string; hint?: string | null; provider?: string }> {
+  async getProviderStatus(): Promise<ProviderStatus> {
     const response = await fetch(apiUrl('/ai/provider-status'), {
       method: 'GET',
       headers: { 'Content-Type': 'application/json' }
@@ -144,12 +252,22 @@ export const aiService = {
     if (!response.ok) {
       throw new Error(`Provider status failed (${response.status})`);
     }
-    const data: any = await response.json();
+    const data = asRecord(await response.json());
+    const providers: LLMProviderInfo[] = Array.isArray(data?.providers)
+      ? data.providers.map(parseProviderInfo).filter((item): item is LLMProviderInfo => item !== null)
+      : [];
+    const rawRouting = asRecord(data?.routing);
+    const planner = parseRouteInfo(rawRouting?.planner);
+    const executor = parseRouteInfo(rawRouting?.executor);
+    const routing = planner && executor ? { planner, executor } : null;
+    lastProviderRouting = routing;
     return {
       configured: Boolean(data?.configured),
       code: typeof data?.code === 'string' ? data.code : undefined,
       hint: typeof data?.hint === 'string' ? data.hint : null,
-      provider: typeof data?.provider === 'string' ? data.provider : undefined
+      provider: typeof data?.provider === 'string' ? data.provider : undefined,
+      providers,
+      routing
     };
   },
 
@@ -160,8 +278,9 @@ export const aiService = {
     projectType?: 'FRONTEND_ONLY' | null,
     constraints?: GenerationConstraints,
     architectMode: boolean = false,
-    multiAgentEnabled: boolean = false
-  ): Promise<{ title?: string; description?: string; stack?: string; fileTree?: string[]; steps: Array<{ id: string; title: string; category?: string; files?: string[]; description?: string }> }> {
+    multiAgentEnabled: boolean = false,
+    fixedSteps: PlanPrefixStep[] = []
+  ): Promise<{ title?: string; description?: string; stack?: string; fileTree?: string[]; steps: Array<PlanPrefixStep & { id: string; title: string }>; usage?: TokenUsageReport }> {
     try {
       const PLAN_URL = apiUrl('/ai/plan');
       const isAbortLike = (err: any) =>
@@ -282,7 +401,8 @@ QUALITY:
             }
           }
 
-        const enhancedPlanPrompt = `${planningRules}\n\n${organizationPolicyBlock}\n\n[USER REQUEST]\n${enhancedRequestPrompt}`;
+        const memoryBlock = buildMemoryPromptBlock();
+        const enhancedPlanPrompt = `${planningRules}\n\n${organizationPolicyBlock}\n\n${memoryBlock ? `${memoryBlock}\n\n` : ''}[USER REQUEST]\n${enhancedRequestPrompt}`;
 
           try {
             return await fetch(PLAN_URL, {
@@ -296,6 +416,7 @@ QUALITY:
                 projectType: selectedProjectType,
                 multiAgentEnabled,
                 constraints,
+                fixedSteps,
                 contextMeta: buildContextMetaPayload(),
                 modelRouting: buildModelRoutingPayload(thinkingMode, multiAgentEnabled)
               })
@@ -364,14 +485,52 @@ QUALITY:
       const description = typeof data?.description === 'string' ? data.description : undefined;
       const stack = typeof data?.stack === 'string' ? data.stack : undefined;
       const fileTree = Array.isArray(data?.fileTree) ? data.fileTree : undefined;
+      const usage = parseTokenUsageReport(data?.usage) || undefined;
 
-      return { title, description, stack, fileTree, steps };
+      return { title, description, stack, fileTree, steps, usage };
     } catch (error: any) {
       console.error('Plan Error Details:', error);
       throw new Error(getErrorMessage(error, 'Failed to generate plan'));
     }
   },
 
+  async summarizeConversation(
+    messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+    abortSignal?: AbortSignal
+  ): Promise<Omit<ConversationSummary, 'generatedAt' | 'coveredMessages'> & { usage?: TokenUsageReport }> {
+    const response = await fetch(apiUrl('/ai/summarize'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal: abortSignal,
+      body: JSON.stringify({
+        messages,
+        modelRouting: buildModelRoutingPayload(false)
+      })
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(text || `Summary failed (${response.status})`);
+    }
+    const data = asRecord(await response.json());
+    const records = (value: unknown) => (Array.isArray(value) ? value.map(asRecord) : []);
+    const toFacts = (value: unknown) =>
+      records(value)
+        .map((item) => ({
+          summary: String(item?.summary || '').trim(),
+          files: Array.isArray(item?.files) ? item.files.map((file: unknown) => String(file)) : []
+        }))
+        .filter((item) => item.summary);
+    return {
+      summary: String(data?.summary || '').trim(),
+      decisions: toFacts(data?.decisions),
+      fileResponsibilities: records(data?.fileResponsibilities)
+        .map((item) => ({ path: String(item?.path || '').trim(), responsibility: String(item?.responsibility || '').trim() }))
+        .filter((item) => item.path && item.responsibility),
+      openTasks: toFacts(data?.openTasks),
+      usage: parseTokenUsageReport(data?.usage) || undefined
+    };
+  },
+
   async generateCode(prompt: string): Promise<AIResponse> {
     void prompt;
     throw new Error('generateCode() is deprecated; use generateCodeStream()');
@@ -397,6 +556,7 @@ QUALITY:
           typingMs?: number;
           abortSignal?: AbortSignal;
           onFileEvent?: (event: StreamFileEvent) => void;
+          onUsage?: (usage: TokenUsageReport) => void;
           resumeContext?: {
             completedFiles: string[];
             lastSuccessfulFile: string | null;
@@ -435,9 +595,9 @@ QUALITY:
       const aiState = useAIStore.getState();
       const previewState = usePreviewStore.getState();
       const contextBundle = buildContextBundle({
-        files: projectState.files,
+        files: projectState.files.filter((file) => !isBinaryFile(file)),
         activeFile: projectState.activeFile,
-        recentPreviewErrors: previewState.logs.slice(-24).map((entry) => String(entry.message || '')),
+        recentPreviewErrors: selectRecentPreviewErrors(previewState),
         prompt: effectivePrompt,
         memoryHints: aiState.memorySnapshot?.ledger?.decisions?.map((item) => item.summary) || [],
         mode: constraints?.contextIntelligenceMode || 'balanced_graph',
@@ -446,15 +606,14 @@ QUALITY:
         workspaceAnalysis
       });
       const retrievalTrace = contextBundle.retrievalTrace;
+      aiState.setLastRetrievalTrace(retrievalTrace);
       const normalizedFiles = contextBundle.files.map((item) => item.path);
+      const memoryBlock = buildMemoryPromptBlock();
+      const assetsBlock = buildBinaryAssetsPromptBlock(projectState.files);
 
       const selectedProjectMode: GenerationConstraints['projectMode'] = constraints?.projectMode || 'FRONTEND_ONLY';
       const foldersDigest = summarizeTopFolders(normalizedFiles);
-      const recentPreviewErrors = previewState.logs
-        .slice(-20)
-        .map((line) => String(line.message || '').trim())
-        .filter(Boolean)
-        .slice(-8);
+      const recentPreviewErrors = selectRecentPreviewErrors(previewState, 8);
 
       const context = {
         files: normalizedFiles,
@@ -528,7 +687,7 @@ Your success is measured ONLY by Execution completeness (%) and Preview Runner C
 NEGATIVE CONSTRAINTS (NEVER DO THIS):
 - ⛔ NEVER open a [[PATCH_FILE:...]] block and immediately close it with [[END_FILE]] without real code inside. ZERO EMPTY FILES.
 - NEVER output partial files (e.g., "// ... rest of code" or "/* styles here */").
-- NEVER use SEARCH/REPLACE blocks or diff markers.
+- NEVER use SEARCH/REPLACE or diff hunks outside a [[PATCH_HUNKS: path]] ... [[END_FILE]] block, and never for files that do not exist yet.
 - NEVER skip any planned task.
 - NEVER create two files that serve the same purpose (e.g. do NOT create styles.css if style.css already exists).
 - NEVER create CSS/JS files with forbidden names: styles.css, main.css, global.css, globals.css, app.css, index.css, app.js, main.js, index.js.
@@ -641,7 +800,7 @@ ${context.recentPreviewErrors.length > 0 ? context.recentPreviewErrors.join('\n'
 [CONTEXT RETRIEVAL TRACE]
 Strategy: ${retrievalTrace.strategy}
 Selected: ${retrievalTrace.selected.slice(0, 40).map((item) => `${item.path} (${item.score})`).join(', ') || 'none'}
-
+${memoryBlock ? `\n${memoryBlock}\n` : ''}${assetsBlock ? `\n${assetsBlock}\n` : ''}
 [USER REQUEST]
 ${constrainedPrompt}
 `.trim();
@@ -687,7 +846,9 @@ ${constrainedPrompt}
       const editNodeToken = '[[EDIT_NODE:';
       const deleteToken = '[[DELETE_FILE:';
       const moveToken = '[[MOVE_FILE:';
+      const hunksToken = '[[PATCH_HUNKS:';
       const endToken = '[[END_FILE]]';
+      const openTokens = [patchToken, startToken, editToken, editNodeToken, deleteToken, moveToken, hunksToken];
       const streamTailMax = 2200;
 
       const partialFiles = new Set<string>();
@@ -708,6 +869,9 @@ ${constrainedPrompt}
         private currentLine = 1;
         private currentMode: 'create' | 'edit' = 'create';
         private resumeAppendPath: string | undefined;
+        // Hunk blocks are buffered whole; a partial hunk cannot be applied.
+        private hunkBody: string | null = null;
+        private hunkReason: string | undefined;
 
         setResumeAppendPath(path?: string) {
           this.resumeAppendPath = path;
@@ -728,20 +892,14 @@ ${constrainedPrompt}
               const editNodeIdx = this.scan.indexOf(editNodeToken);
               const deleteIdx = this.scan.indexOf(deleteToken);
               const moveIdx = this.scan.indexOf(moveToken);
+              const hunksIdx = this.scan.indexOf(hunksToken);
               const nextIdx =
-                [patchIdx, startIdx, editIdx, editNodeIdx, deleteIdx, moveIdx]
+                [patchIdx, startIdx, editIdx, editNodeIdx, deleteIdx, moveIdx, hunksIdx]
                   .filter((v) => v !== -1)
                   .sort((a, b) => a - b)[0] ?? -1;
 
               if (nextIdx === -1) {
-                const keep = Math.max(
-                  patchToken.length - 1,
-                  startToken.length - 1,
-                  editToken.length - 1,
-                  editNodeToken.length - 1,
-                  deleteToken.length - 1,
-                  moveToken.length - 1
-                );
+                const keep = Math.max(...openTokens.map((token) => token.length - 1));
                 this.scan = this.scan.slice(Math.max(0, this.scan.length - keep));
                 return;
               }
@@ -787,6 +945,24 @@ ${constrainedPrompt}
                 continue;
               }
 
+              if (hunksIdx === nextIdx) {
+                const closeIdx = this.scan.indexOf(']]', nextIdx);
+                if (closeIdx === -1) {
+                  this.scan = this.scan.slice(nextIdx);
+                  return;
+                }
+                const parsed = this.parsePatchPayload(this.scan.slice(nextIdx + hunksToken.length, closeIdx).trim());
+                this.scan = this.scan.slice(closeIdx + 2);
+                if (!parsed.path) continue;
+                this.currentPath = parsed.path;
+                this.inFile = true;
+                this.currentLine = 1;
+                this.currentMode = 'edit';
+                this.hunkBody = '';
+                this.hunkReason = parsed.reason;
+                continue;
+              }
+
               const isPatch = patchIdx !== -1 && patchIdx === nextIdx;
               const isEdit = (editIdx !== -1 && editIdx === nextIdx) || (editNodeIdx !== -1 && editNodeIdx === nextIdx);
               const token = isPatch
@@ -832,8 +1008,9 @@ ${constrainedPrompt}
             const nextEditNodeIdx = this.scan.indexOf(editNodeToken);
             const nextDeleteIdx = this.scan.indexOf(deleteToken);
             const nextMoveIdx = this.scan.indexOf(moveToken);
+            const nextHunksIdx = this.scan.indexOf(hunksToken);
             const nextMarkerIdx =
-              [nextPatchIdx, nextStartIdx, nextEditIdx, nextEditNodeIdx, nextDeleteIdx, nextMoveIdx]
+              [nextPatchIdx, nextStartIdx, nextEditIdx, nextEditNodeIdx, nextDeleteIdx, nextMoveIdx, nextHunksIdx]
                 .filter((v) => v !== -1)
                 .sort((a, b) => a - b)[0] ?? -1;
 
@@ -845,6 +1022,13 @@ ${constrainedPrompt}
               continue;
             }
 
+            if (endIdx !== -1 && this.hunkBody !== null) {
+              this.flushContent(this.scan.slice(0, endIdx));
+              this.scan = this.scan.slice(endIdx + endToken.length);
+              this.emitHunks(false);
+              continue;
+            }
+
             if (endIdx !== -1) {
               this.flushContent(this.scan.slice(0, endIdx));
               completedFiles.add(this.currentPath);
@@ -858,15 +1042,7 @@ ${constrainedPrompt}
               continue;
             }
 
-            const keep = Math.max(
-              patchToken.length + 8,
-              startToken.length + 8,
-              editToken.length + 8,
-              editNodeToken.length + 8,
-              deleteToken.length + 8,
-              moveToken.length + 8,
-              endToken.length + 8
-            );
+            const keep = Math.max(...openTokens.map((token) => token.length + 8), endToken.length + 8);
             if (this.scan.length <= keep) return;
 
             this.flushContent(this.scan.slice(0, this.scan.length - keep));
@@ -876,11 +1052,35 @@ ${constrainedPrompt}
 
         private flushContent(content: string) {
           if (!content) return;
+          if (this.hunkBody !== null) {
+            this.hunkBody += content;
+            return;
+          }
           options.onFileEvent?.({ type: 'chunk', path: this.currentPath, mode: this.currentMode, chunk: content, line: this.currentLine });
           this.currentLine += countLines(content);
         }
 
+        private emitHunks(truncated: boolean) {
+          const { hunks, errors } = parsePatchHunks(this.hunkBody || '');
+          if (truncated) errors.push('Hunk block was cut off before [[END_FILE]]');
+          options.onFileEvent?.({
+            type: 'hunks',
+            path: this.currentPath,
+            hunks,
+            reason: this.hunkReason,
+            ...(errors.length > 0 ? { errors } : {})
+          });
+          this.hunkBody = null;
+          this.hunkReason = undefined;
+          this.inFile = false;
+          this.currentPath = '';
+        }
+
         private forceClose(partial: boolean) {
+          if (this.hunkBody !== null) {
+            this.emitHunks(true);
+            return;
+          }
           // Keep file text untouched. Partial metadata is enough for recovery/repair.
           partialFiles.add(this.currentPath);
           options.onFileEvent?.({ type: 'end', path: this.currentPath, mode: this.currentMode, partial, line: this.currentLine });
@@ -940,6 +1140,11 @@ ${constrainedPrompt}
             this.flushContent(stripTrailingFileMarkerFragment(this.scan));
             this.scan = '';
           }
+          if (this.hunkBody !== null) {
+            // A cut-off hunk block is rejected as a whole; there is nothing to resume.
+            this.emitHunks(true);
+            return null;
+          }
           const cutPath = this.currentPath;
           const cutLine = this.currentLine;
           this.forceClose(true);
@@ -1293,6 +1498,12 @@ ${constrainedPrompt}
                 consumeToken(dataText);
                 continue;
               }
+
+              if (eventName === 'usage') {
+                const usage = parseTokenUsageReport(dataText);
+                if (usage) options.onUsage?.(usage);
+                continue;
+              }
             }
 
             if (buffer.length > 0 && !/(^|\n)event:\s/.test(buffer) && !/(^|\n)data:\s/.test(buffer)) {
@@ -1,9 +1,9 @@
-import { TOOL_FEATURES_BY_ID } from '@/config/toolFeatures';
+import { resolveToolFeature } from '@/stores/featurePackStore';
 import type { GenerationConstraints } from '@/types/constraints';
 import { buildSvgPolicyPromptLine } from '@/services/projectStructurePolicy';
 
 const formatFeatureLine = (featureId: string) => {
-  const feature = TOOL_FEATURES_BY_ID[featureId];
+  const feature = resolveToolFeature(featureId);
   if (!feature) return `- ${featureId}`;
   return `- ${featureId}: ${feature.promptRule}`;
 };
@@ -258,6 +258,7 @@ export const buildConstraintsRepairPrompt = (
     '- If issue is HIDDEN_FILE_TYPE_MISMATCH_JS_CONTAINS_CSS:* move styling rules into the canonical CSS file and keep the JS file executable JavaScript only.',
     '- If issue is HIDDEN_FILE_TYPE_MISMATCH_CSS_CONTAINS_JS:* move logic into the canonical JS file and keep the CSS file styles-only.',
     '- If issue is HIDDEN_FILE_TYPE_MISMATCH_*_CONTAINS_HTML* then put markup in HTML files only and keep JS/CSS files pure.',
+    '- If issue is missing:<feature> @ <path>:<line> <note> then complete that feature in the named file at or near that line; the note states exactly what is absent.',
     '- Output only valid file markers and full code changes.'
   ].join('\n');
 };
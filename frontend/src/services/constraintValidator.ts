@@ -1,9 +1,12 @@
-import { TOOL_FEATURES_BY_ID } from '@/config/toolFeatures';
+import { buildReferenceGraph } from '@/services/dependencyGraph';
+import { checkFeatureStructures, type FeatureCheckResult } from '@/services/featureStructureValidator';
 import type { GenerationConstraints } from '@/types/constraints';
 import type { ProjectFile } from '@/types';
 
 type ConstraintValidationResult = {
   missingFeatures: string[];
+  /** Per selected feature: present or not, with file/line evidence and the gaps a repair should target. */
+  featureChecks: FeatureCheckResult[];
   qualityViolations: string[];
   routingViolations: string[];
   namingViolations: string[];
@@ -15,11 +18,6 @@ type ConstraintValidationResult = {
   readyForFinalize: boolean;
 };
 
-const flattenProjectFiles = (files: ProjectFile[]) =>
-  files
-    .map((file) => `${file.path || file.name}\n${file.content || ''}`)
-    .join('\n');
-
 const normalizePath = (value: string) => String(value || '').replace(/\\/g, '/').trim().toLowerCase();
 
 const findFile = (files: ProjectFile[], matcher: (path: string) => boolean) =>
@@ -118,27 +116,9 @@ const validateRouteIntegrity = (files: ProjectFile[]): string[] => {
   const hasSiteMapContract = Boolean(findFile(files, (p) => p.endsWith('/site-map.json') || p === 'site-map.json'));
   if (!hasSiteMapContract) violations.push('ROUTE_MISSING_SITE_MAP_CONTRACT');
 
-  const allPaths = new Set(
-    htmlFiles.map((f) => normalizePath(f.path || f.name || '')).filter(Boolean)
-  );
-  const linkRegex = /href=["']([^"']+)["']/gi;
-
-  for (const file of htmlFiles) {
-    const fromPath = normalizePath(file.path || file.name || '');
-    const content = String(file.content || '');
-    let match: RegExpExecArray | null;
-    while ((match = linkRegex.exec(content)) !== null) {
-      const ref = String(match[1] || '').trim();
-      if (!ref || ref.startsWith('#') || /^[a-z]+:\/\//i.test(ref)) continue;
-      const normalized = normalizePath(ref.replace(/^\.\//, ''));
-      if (!normalized.endsWith('.html')) continue;
-      const sameDir = fromPath.includes('/')
-        ? normalizePath(`${fromPath.slice(0, fromPath.lastIndexOf('/') + 1)}${normalized}`)
-        : normalized;
-      if (!allPaths.has(normalized) && !allPaths.has(sameDir)) {
-        violations.push(`ROUTE_BROKEN_LINK:${fromPath}->${normalized}`);
-      }
-    }
+  for (const item of buildReferenceGraph(files).broken) {
+    if (item.kind !== 'page-link') continue;
+    violations.push(`ROUTE_BROKEN_LINK:${normalizePath(item.from)}->${normalizePath(item.ref.replace(/[?#].*$/, '').replace(/^\.\//, ''))}`);
   }
 
   return Array.from(new Set(violations));
@@ -180,25 +160,9 @@ const validateNamingConventions = (files: ProjectFile[]): string[] => {
 
 const computeRetrievalCoverageScore = (files: ProjectFile[]): number => {
   if (!files.length) return 0;
-  const pathSet = new Set(files.map((f) => normalizePath(f.path || f.name || '')).filter(Boolean));
-  let refs = 0;
-  let resolved = 0;
-
-  const attrRegex = /(href|src)=["']([^"']+)["']/gi;
-  for (const file of files) {
-    const content = String(file.content || '');
-    const fromPath = normalizePath(file.path || file.name || '');
-    const fromDir = fromPath.includes('/') ? fromPath.slice(0, fromPath.lastIndexOf('/') + 1) : '';
-    let match: RegExpExecArray | null;
-    while ((match = attrRegex.exec(content)) !== null) {
-      const ref = String(match[2] || '').trim();
-      if (!ref || ref.startsWith('#') || /^[a-z]+:\/\//i.test(ref)) continue;
-      refs += 1;
-      const normalized = normalizePath(ref.replace(/^\.\//, ''));
-      const sameDirPath = normalizePath(`${fromDir}${normalized}`);
-      if (pathSet.has(normalized) || pathSet.has(sameDirPath)) resolved += 1;
-    }
-  }
+  const { references, broken } = buildReferenceGraph(files);
+  const resolved = references.filter((item) => item.resolved).length;
+  const refs = resolved + broken.length;
 
   if (refs === 0) return 100;
   return Math.max(0, Math.min(100, Math.round((resolved / refs) * 100)));
@@ -454,13 +418,8 @@ export const validateConstraints = (
   files: ProjectFile[],
   constraints: GenerationConstraints
 ): ConstraintValidationResult => {
-  const corpus = flattenProjectFiles(files);
-
-  const missingFeatures = constraints.selectedFeatures.filter((featureId) => {
-    const feature = TOOL_FEATURES_BY_ID[featureId];
-    if (!feature || feature.validators.length === 0) return false;
-    return !feature.validators.some((rule) => rule.test(corpus));
-  });
+  const featureChecks = checkFeatureStructures(files, constraints.selectedFeatures);
+  const missingFeatures = featureChecks.filter((check) => !check.present).map((check) => check.featureId);
 
   const qualityViolations: string[] = [];
   const routingViolations: string[] = [];
@@ -487,6 +446,7 @@ export const validateConstraints = (
 
   return {
     missingFeatures,
+    featureChecks,
     qualityViolations,
     routingViolations,
     namingViolations,
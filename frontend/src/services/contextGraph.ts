@@ -1,4 +1,6 @@
 import type { ContextRetrievalItem, ContextRetrievalTrace, DependencyEdge, FileNode } from '@/types/context';
+import { buildReferenceGraph } from '@/services/dependencyGraph';
+import { rankFilesByRelevance } from '@/services/symbolIndex';
 
 type ContextGraphInputFile = {
   path?: string;
@@ -19,7 +21,7 @@ const getExtension = (path: string) => {
   return idx === -1 ? '' : clean.slice(idx + 1).toLowerCase();
 };
 
-const toFileNodes = (files: ContextGraphInputFile[]): FileNode[] =>
+export const toFileNodes = (files: ContextGraphInputFile[]): FileNode[] =>
   files
     .map((file) => {
       const path = normalizePath(file.path || file.name || '');
@@ -42,56 +44,21 @@ const toFileNodes = (files: ContextGraphInputFile[]): FileNode[] =>
     })
     .filter((node): node is FileNode => Boolean(node));
 
-const extractRefs = (content: string) => {
-  const refs: string[] = [];
-  const re = /(href|src|from)\s*[:=]?\s*["']([^"']+)["']/gi;
-  let match: RegExpExecArray | null;
-  while ((match = re.exec(content)) !== null) {
-    const raw = String(match[2] || '').trim();
-    if (!raw || raw.startsWith('#') || /^[a-z]+:\/\//i.test(raw)) continue;
-    refs.push(raw);
-  }
-  return refs;
-};
-
-export const buildDependencyEdges = (files: ContextGraphInputFile[]): DependencyEdge[] => {
-  const knownPaths = new Set(files.map((f) => normalizePath(f.path || f.name || '')).filter(Boolean));
-  const edges: DependencyEdge[] = [];
-
-  for (const file of files) {
-    const from = normalizePath(file.path || file.name || '');
-    const content = String(file.content || '');
-    if (!from) continue;
-
-    const refs = extractRefs(content);
-    for (const ref of refs) {
-      const normalizedRef = normalizePath(ref);
-      if (!normalizedRef) continue;
-      const to =
-        knownPaths.has(normalizedRef)
-          ? normalizedRef
-          : Array.from(knownPaths).find((path) => path.endsWith(`/${normalizedRef}`) || path === normalizedRef);
-      if (!to) continue;
-      edges.push({
-        from,
-        to,
-        type: /href/i.test(ref) ? 'route' : /src/i.test(ref) ? 'asset' : 'import',
-        weight: 1
-      });
-    }
-  }
-
-  return edges;
-};
+export const buildDependencyEdges = (files: ContextGraphInputFile[]): DependencyEdge[] => buildReferenceGraph(files).edges;
 
 type ContextSelectionOptions = {
   files: ContextGraphInputFile[];
   activeFile?: string | null;
   recentPreviewErrors?: string[];
+  // Free text (prompt plus memory hints) matched against the symbol index.
+  query?: string;
   mode?: 'balanced_graph' | 'light' | 'max' | 'strict_full';
   maxItems?: number;
 };
 
+// Upper bound of the relevance share of a file's score; the best-matching file gets all of it.
+const MAX_RELEVANCE_SCORE = 80;
+
 const scorePath = (
   path: string,
   activeFile: string,
@@ -133,6 +100,10 @@ export const selectContextRetrievalTrace = (options: ContextSelectionOptions): C
     adjacency.get(edge.to)!.add(edge.from);
   }
 
+  const relevance = rankFilesByRelevance(files, options.query || '');
+  const topRelevance = relevance[0]?.score || 0;
+  const relevanceByPath = new Map(relevance.map((item) => [item.path, item]));
+
   const errorSeedPaths = new Set<string>();
   for (const node of fileNodes) {
     const base = node.path.split('/').pop() || '';
@@ -172,12 +143,16 @@ export const selectContextRetrievalTrace = (options: ContextSelectionOptions): C
     .map((node) => {
       const degree = degreeByPath.get(node.path) || 0;
       const dependencyDistance = distanceByPath.has(node.path) ? Number(distanceByPath.get(node.path)) : Number.POSITIVE_INFINITY;
-      const score = scorePath(node.path, activeFile, recentPreviewErrors, degree, dependencyDistance);
+      const match = relevanceByPath.get(node.path);
+      const relevanceScore =
+        match && topRelevance > 0 ? Math.round(((MAX_RELEVANCE_SCORE * match.score) / topRelevance) * 100) / 100 : 0;
+      const score = scorePath(node.path, activeFile, recentPreviewErrors, degree, dependencyDistance) + relevanceScore;
       const reasons: string[] = [];
       if (normalizePath(node.path) === normalizePath(activeFile || '')) reasons.push('active-file');
       if (degree > 0) reasons.push(`dependency-degree:${degree}`);
       if (recentPreviewErrors.some((line) => line.includes(node.path.split('/').pop() || ''))) reasons.push('error-proximity');
       if (Number.isFinite(dependencyDistance)) reasons.push(`dependency-distance:${dependencyDistance}`);
+      if (match) reasons.push(`bm25:${match.score.toFixed(2)}`, ...match.reasons);
       if (reasons.length === 0) reasons.push('global-context');
       return { path: node.path, score, reasons };
     })
@@ -1,5 +1,6 @@
 import type { ProjectFile } from '@/types';
 import { selectContextRetrievalTrace } from '@/services/contextGraph';
+import { rankFilesByRelevance, type FileRelevance } from '@/services/symbolIndex';
 import type { ContextRetrievalTrace, WorkspaceAnalysisReport, WorkspaceManifestEntry } from '@/types/context';
 
 export interface ContextBundleFile {
@@ -120,6 +121,15 @@ const buildSnippet = (content: string, tokens: string[]) => {
   return source.slice(start, end);
 };
 
+// Centers the snippet on the best BM25 chunk so the defining rule or function is what the model sees.
+const buildRelevantSnippet = (content: string, match: FileRelevance | undefined, tokens: string[]) => {
+  if (!match) return buildSnippet(content, tokens);
+  const lines = String(content || '').split('\n');
+  const { startLine, endLine } = match.bestHit.chunk;
+  const from = Math.max(0, startLine - 4);
+  return lines.slice(from, Math.max(endLine, from + 12)).join('\n').slice(0, 1600);
+};
+
 const computeLexicalScore = (path: string, content: string, tokens: string[]) => {
   if (tokens.length === 0) return 0;
   const corpusPath = normalizeText(path);
@@ -232,22 +242,27 @@ export const buildContextBundle = (options: BuildContextBundleOptions): ContextB
     files,
     activeFile: activePath,
     recentPreviewErrors,
+    query: tokenSeed,
     mode: options.mode || 'balanced_graph',
     maxItems: Math.max(maxFiles * 2, 24)
   });
   const graphScoreByPath = new Map(trace.selected.map((item) => [normalizePath(item.path), Number(item.score || 0)]));
+  const traceReasonsByPath = new Map(
+    [...trace.selected, ...trace.dropped].map((item) => [normalizePath(item.path), item.reasons] as const)
+  );
+  const relevanceByPath = new Map(rankFilesByRelevance(files, tokenSeed).map((item) => [item.path, item]));
 
   const ranked = files
     .map((file, index) => {
       const path = normalizePath(file.path || file.name || '');
       const content = String(file.content || '');
       if (!path) return null;
+      // The graph score already carries BM25 relevance from the symbol index.
       const graphScore = graphScoreByPath.get(path) || 0;
-      const lexicalScore = computeLexicalScore(path, content, tokens);
       const previewScore = computePreviewErrorScore(path, recentPreviewErrors);
       const recencyScore = Math.max(0, 20 - Math.floor(index / 2));
-      const score = graphScore + lexicalScore + previewScore + recencyScore;
-      const snippet = buildSnippet(content, tokens);
+      const score = graphScore + previewScore + recencyScore;
+      const snippet = buildRelevantSnippet(content, relevanceByPath.get(path), tokens);
       return {
         path,
         content,
@@ -262,12 +277,13 @@ export const buildContextBundle = (options: BuildContextBundleOptions): ContextB
 
   const selectedFiles = ranked.slice(0, maxFiles);
   const selectedPathSet = new Set(selectedFiles.map((item) => item.path));
+  const reasonsFor = (path: string) => traceReasonsByPath.get(path) || ['context-bundle'];
   const selectedTrace = ranked
     .slice(0, maxFiles)
-    .map((item) => ({ path: item.path, score: item.score, reasons: ['context-bundle'] }));
+    .map((item) => ({ path: item.path, score: item.score, reasons: reasonsFor(item.path) }));
   const droppedTrace = ranked
     .slice(maxFiles)
-    .map((item) => ({ path: item.path, score: item.score, reasons: ['context-bundle'] }));
+    .map((item) => ({ path: item.path, score: item.score, reasons: reasonsFor(item.path) }));
 
   const activeFileSource = files.find((file) => normalizePath(file.path || file.name || '') === activePath);
   const activeFile =
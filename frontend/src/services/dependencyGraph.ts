@@ -0,0 +1,232 @@
+import type { DependencyEdge } from '@/types/context';
+import { parseHtmlDocument, walkHtml } from '@/utils/sourceStructure';
+import { createProjectPathResolver, isExternalReference, normalizeProjectPath } from '@/utils/projectPathResolver';
+
+/**
+ * Per-language reference extraction (HTML attributes and inline blocks, CSS `@import`/`url()`, ES module
+ * imports, `import()`, `fetch`, workers) resolved with the preview's path rules. The result is the single
+ * source for context edges, route validation and broken-reference reporting.
+ */
+
+export type ReferenceKind =
+  | 'page-link'
+  | 'stylesheet'
+  | 'script'
+  | 'module-import'
+  | 'dynamic-import'
+  | 'css-import'
+  | 'css-url'
+  | 'fetch'
+  | 'worker'
+  | 'asset';
+
+export interface ExtractedReference {
+  ref: string;
+  kind: ReferenceKind;
+  line: number;
+}
+
+export interface ProjectReference extends ExtractedReference {
+  from: string;
+  resolved: string | null;
+  edgeType: DependencyEdge['type'];
+}
+
+export interface ReferenceGraph {
+  edges: DependencyEdge[];
+  references: ProjectReference[];
+  broken: ProjectReference[];
+}
+
+type ReferenceGraphInputFile = {
+  path?: string;
+  name?: string;
+  content?: string;
+};
+
+const EDGE_TYPE: Record<ReferenceKind, DependencyEdge['type']> = {
+  'page-link': 'route',
+  stylesheet: 'link',
+  'css-import': 'link',
+  script: 'import',
+  'module-import': 'import',
+  'dynamic-import': 'import',
+  worker: 'import',
+  'css-url': 'asset',
+  fetch: 'asset',
+  asset: 'asset'
+};
+
+const SCRIPT_EXTENSIONS = ['js', 'mjs', 'cjs', 'jsx', 'ts', 'tsx'];
+const STYLE_EXTENSIONS = ['css', 'scss', 'sass', 'less'];
+const MODULE_RESOLVE_SUFFIXES = ['.js', '.mjs', '.ts', '.tsx', '.jsx', '/index.js', '/index.ts'];
+
+const extensionOf = (path: string) => {
+  const name = path.split('/').pop() || path;
+  const idx = name.lastIndexOf('.');
+  return idx === -1 ? '' : name.slice(idx + 1).toLowerCase();
+};
+
+const lineIndex = (source: string) => {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) if (source.charCodeAt(i) === 10) starts.push(i + 1);
+  return (offset: number) => {
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (starts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo + 1;
+  };
+};
+
+const collectMatches = (source: string, re: RegExp, kindOf: (match: RegExpExecArray) => ReferenceKind | null) => {
+  const lineAt = lineIndex(source);
+  const out: ExtractedReference[] = [];
+  re.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(source)) !== null) {
+    const ref = String(match[1] ?? '').trim();
+    const kind = kindOf(match);
+    if (ref && kind) out.push({ ref, kind, line: lineAt(match.index) });
+  }
+  return out;
+};
+
+const isBareSpecifier = (ref: string) => !/^(?:\.{1,2}\/|\/)/.test(ref);
+
+export const extractCssReferences = (source: string): ExtractedReference[] => {
+  const text = String(source || '').replace(/\/\*[\s\S]*?(?:\*\/|$)/g, (comment) => comment.replace(/[^\n]/g, ' '));
+  const imports = collectMatches(text, /@import\s+(?:url\(\s*)?["']?([^"')\s;]+)["']?\s*\)?/gi, () => 'css-import');
+  const importLines = new Set(imports.map((item) => `${item.line}:${item.ref}`));
+  const urls = collectMatches(text, /url\(\s*["']?([^"')]+?)["']?\s*\)/gi, () => 'css-url').filter(
+    (item) => !importLines.has(`${item.line}:${item.ref}`)
+  );
+  return [...imports, ...urls];
+};
+
+export const extractScriptReferences = (source: string): ExtractedReference[] => {
+  const text = String(source || '');
+  const staticImports = collectMatches(
+    text,
+    /(?:^|[;\n}])\s*(?:import|export)\s+(?:[^'"`;]*?\s+from\s+)?["']([^"'\n]+)["']/g,
+    () => 'module-import'
+  ).filter((item) => !isBareSpecifier(item.ref));
+  const dynamicImports = collectMatches(text, /\bimport\s*\(\s*["'`]([^"'`\n$]+)["'`]\s*\)/g, () => 'dynamic-import').filter(
+    (item) => !isBareSpecifier(item.ref)
+  );
+  const fetches = collectMatches(text, /\bfetch\s*\(\s*["'`]([^"'`\n$]+)["'`]/g, () => 'fetch');
+  const workers = collectMatches(
+    text,
+    /\b(?:new\s+(?:Shared)?Worker\s*\(|serviceWorker\.register\s*\()\s*(?:new\s+URL\s*\(\s*)?["'`]([^"'`\n$]+)["'`]/g,
+    () => 'worker'
+  );
+  return [...staticImports, ...dynamicImports, ...fetches, ...workers];
+};
+
+const offsetLines = (refs: ExtractedReference[], firstLine: number) =>
+  refs.map((item) => ({ ...item, line: item.line + firstLine - 1 }));
+
+export const extractHtmlReferences = (source: string): ExtractedReference[] => {
+  const out: ExtractedReference[] = [];
+  walkHtml(parseHtmlDocument(source), (node) => {
+    const { attrs } = node;
+    const push = (ref: string | undefined, kind: ReferenceKind) => {
+      const value = String(ref || '').trim();
+      if (value) out.push({ ref: value, kind, line: node.line });
+    };
+
+    if (node.tag === 'a' || node.tag === 'area') {
+      push(attrs.href, 'page-link');
+    } else if (node.tag === 'link') {
+      const rel = String(attrs.rel || '').toLowerCase();
+      const isModulePreload = rel.includes('modulepreload');
+      const isStyle = rel.includes('stylesheet') || (rel.includes('preload') && String(attrs.as || '').toLowerCase() === 'style');
+      push(attrs.href, isStyle ? 'stylesheet' : isModulePreload ? 'script' : 'asset');
+    } else if (node.tag === 'script') {
+      push(attrs.src, 'script');
+      if (!attrs.src && node.text) out.push(...offsetLines(extractScriptReferences(node.text), node.textLine));
+    } else if (node.tag === 'style' && node.text) {
+      out.push(...offsetLines(extractCssReferences(node.text), node.textLine));
+    } else if (node.tag === 'iframe' || node.tag === 'frame') {
+      push(attrs.src, 'page-link');
+    } else if (node.tag === 'form') {
+      if (/\.html?(?:[?#]|$)/i.test(String(attrs.action || ''))) push(attrs.action, 'page-link');
+    } else {
+      push(attrs.src, 'asset');
+      push(attrs.poster, 'asset');
+      if (node.tag === 'object') push(attrs.data, 'asset');
+    }
+
+    for (const candidate of String(attrs.srcset || '').split(',')) push(candidate.trim().split(/\s+/)[0], 'asset');
+    if (attrs.style) {
+      for (const item of extractCssReferences(attrs.style)) out.push({ ...item, line: node.line });
+    }
+  });
+  return out;
+};
+
+const extractByLanguage = (path: string, content: string): ExtractedReference[] => {
+  const ext = extensionOf(path);
+  if (ext === 'html' || ext === 'htm') return extractHtmlReferences(content);
+  if (STYLE_EXTENSIONS.includes(ext)) return extractCssReferences(content);
+  if (SCRIPT_EXTENSIONS.includes(ext)) return extractScriptReferences(content);
+  return [];
+};
+
+export const extractFileReferences = (path: string, content: string): ExtractedReference[] =>
+  extractByLanguage(path, content).sort((a, b) => a.line - b.line);
+
+// Query strings, fragments and template placeholders are not part of the file path.
+const cleanReference = (ref: string) => {
+  const value = String(ref || '').trim();
+  if (!value || /\$\{|\{\{|<%/.test(value)) return '';
+  return value.replace(/[?#].*$/, '');
+};
+
+// Only references that clearly name a file can be broken; `/api/users` or `about` may be served elsewhere.
+const expectsProjectFile = (ref: string, kind: ReferenceKind) => {
+  if (kind === 'module-import' || kind === 'dynamic-import' || kind === 'script' || kind === 'stylesheet' || kind === 'css-import') {
+    return true;
+  }
+  return /\.[a-z0-9]{1,5}$/i.test(ref) && !/^\/?api\//i.test(ref);
+};
+
+export const buildReferenceGraph = (files: ReferenceGraphInputFile[]): ReferenceGraph => {
+  const entries = files
+    .map((file) => ({ path: normalizeProjectPath(file.path || file.name || ''), content: String(file.content || '') }))
+    .filter((file) => file.path);
+  const resolve = createProjectPathResolver(entries.map((file) => file.path));
+  const references: ProjectReference[] = [];
+  const edges = new Map<string, DependencyEdge>();
+
+  for (const file of entries) {
+    for (const item of extractFileReferences(file.path, file.content)) {
+      const ref = cleanReference(item.ref);
+      if (!ref || isExternalReference(item.ref)) continue;
+      let resolution = resolve(file.path, ref);
+      if (!resolution && (item.kind === 'module-import' || item.kind === 'dynamic-import') && !extensionOf(ref)) {
+        for (const suffix of MODULE_RESOLVE_SUFFIXES) {
+          resolution = resolve(file.path, `${ref}${suffix}`);
+          if (resolution) break;
+        }
+      }
+      const edgeType = EDGE_TYPE[item.kind];
+      const resolved = resolution?.path || null;
+      references.push({ ...item, from: file.path, resolved, edgeType });
+      if (!resolved || resolved === file.path) continue;
+      const key = `${file.path}\u0000${resolved}\u0000${edgeType}`;
+      const existing = edges.get(key);
+      if (existing) existing.weight += 1;
+      else edges.set(key, { from: file.path, to: resolved, type: edgeType, weight: 1 });
+    }
+  }
+
+  const broken = references.filter((item) => !item.resolved && expectsProjectFile(cleanReference(item.ref), item.kind));
+  return { edges: Array.from(edges.values()), references, broken };
+};
+
+/** `index.html:12 -> css/site.css (stylesheet)` for logs, prompts and violation codes. */
+export const describeReference = (item: ProjectReference) => `${item.from}:${item.line} -> ${item.ref} (${item.kind})`;
@@ -1,15 +1,21 @@
 import axios from 'axios';
 import { ProjectFile } from '@/types';
+import { blobToBase64 } from '@/utils/binaryAssets';
 
 import { apiUrl } from '@/services/apiBase';
 
 export const downloadService = {
   async downloadAsZip(files: ProjectFile[], projectName: string): Promise<void> {
     try {
+      const payload = await Promise.all(
+        files.map(async ({ blob, ...file }) =>
+          blob ? { ...file, content: await blobToBase64(blob), encoding: 'base64' as const } : file
+        )
+      );
       const response = await axios.post(
         apiUrl('/download/zip'),
         {
-          files
+          files: payload
         },
         {
           responseType: 'blob'
@@ -29,5 +35,17 @@ export const downloadService = {
       console.error('Failed to download ZIP:', error);
       throw new Error('Failed to download project');
     }
+  },
+
+  downloadText(content: string, fileName: string, type = 'application/json'): void {
+    const blob = new Blob([content], { type });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
   }
 };
@@ -0,0 +1,901 @@
+import { resolveToolFeature } from '@/stores/featurePackStore';
+import type { ProjectFile } from '@/types';
+import type { FeatureRule, ToolFeature } from '@/types/constraints';
+import { compileRulePattern } from '@/utils/featurePacks';
+import {
+  cssBlockHasRules,
+  describeHtmlElement,
+  findHtmlElements,
+  hasHtmlAncestor,
+  isJsNode,
+  jsMemberPath,
+  jsStringValue,
+  parseCssRules,
+  parseHtmlDocument,
+  parseScriptAst,
+  walkCss,
+  walkJs,
+  type CssNode,
+  type HtmlNode,
+  type JsNode
+} from '@/utils/sourceStructure';
+
+export type FeatureEvidence = {
+  path: string;
+  line: number | null;
+  note: string;
+};
+
+export type FeatureCheckResult = {
+  featureId: string;
+  present: boolean;
+  /** Where the feature, or a partial attempt at it, lives. */
+  evidence: FeatureEvidence[];
+  /** What still blocks the feature, anchored to the file/line a repair should touch. */
+  gaps: FeatureEvidence[];
+  /** False when the verdict came from the feature's fallback patterns rather than a parsed structure. */
+  structural: boolean;
+};
+
+type HtmlSource = { path: string; doc: HtmlNode };
+type CssSource = { path: string; nodes: CssNode[]; lineOffset: number };
+type ScriptSource = { path: string; ast: JsNode; lineOffset: number };
+
+type ParsedProject = {
+  html: HtmlSource[];
+  css: CssSource[];
+  scripts: ScriptSource[];
+  /** Script/style sources the parsers cannot read (JSX, TypeScript, SFCs, syntax errors). */
+  unparsed: Array<{ path: string; content: string }>;
+  entryHtml: HtmlSource | null;
+  sources: Array<{ path: string; content: string }>;
+};
+
+type CheckOutcome = Omit<FeatureCheckResult, 'featureId' | 'structural'>;
+
+const HTML_RE = /\.html?$/i;
+const CSS_RE = /\.css$/i;
+const SCSS_RE = /\.(?:scss|sass|less)$/i;
+const JS_RE = /\.(?:m?js|cjs)$/i;
+const OTHER_SCRIPT_RE = /\.(?:jsx|tsx?|vue|svelte|astro)$/i;
+const MAX_EVIDENCE = 4;
+
+const pathOf = (file: ProjectFile) => String(file.path || file.name || '').replace(/\\/g, '/').replace(/^\.\//, '');
+
+const parseProject = (files: ProjectFile[]): ParsedProject => {
+  const project: ParsedProject = {
+    html: [],
+    css: [],
+    scripts: [],
+    unparsed: [],
+    entryHtml: null,
+    sources: files.map((file) => ({ path: pathOf(file), content: String(file.content || '') }))
+  };
+
+  for (const file of files) {
+    const path = pathOf(file);
+    const content = String(file.content || '');
+    if (!path || !content.trim()) continue;
+
+    if (HTML_RE.test(path)) {
+      const doc = parseHtmlDocument(content);
+      project.html.push({ path, doc });
+      for (const style of findHtmlElements(doc, (node) => node.tag === 'style')) {
+        project.css.push({ path, nodes: parseCssRules(style.text), lineOffset: style.textLine - 1 });
+      }
+      const inlineScripts = findHtmlElements(
+        doc,
+        (node) => node.tag === 'script' && !node.attrs.src && !/json|template|text\/(?!javascript)/i.test(node.attrs.type || '')
+      );
+      for (const script of inlineScripts) {
+        if (!script.text.trim()) continue;
+        const ast = parseScriptAst(script.text);
+        if (ast) project.scripts.push({ path, ast, lineOffset: script.textLine - 1 });
+        else project.unparsed.push({ path, content: script.text });
+      }
+    } else if (CSS_RE.test(path)) {
+      project.css.push({ path, nodes: parseCssRules(content), lineOffset: 0 });
+    } else if (SCSS_RE.test(path)) {
+      // Nested preprocessor syntax still yields a usable rule tree; keep the raw text for the pattern fallback too.
+      project.css.push({ path, nodes: parseCssRules(content), lineOffset: 0 });
+      project.unparsed.push({ path, content });
+    } else if (JS_RE.test(path)) {
+      const ast = parseScriptAst(content);
+      if (ast) project.scripts.push({ path, ast, lineOffset: 0 });
+      else project.unparsed.push({ path, content });
+    } else if (OTHER_SCRIPT_RE.test(path)) {
+      project.unparsed.push({ path, content });
+    }
+  }
+
+  project.entryHtml =
+    project.html.find((source) => /(^|\/)index\.html?$/i.test(source.path) && !source.path.includes('/pages/')) ||
+    project.html[0] ||
+    null;
+  return project;
+};
+
+const jsLine = (source: ScriptSource, node: JsNode) => (node.loc ? node.loc.start.line + source.lineOffset : null);
+
+const cssLine = (source: CssSource, line: number) => line + source.lineOffset;
+
+const at = (path: string, line: number | null, note: string): FeatureEvidence => ({ path, line, note });
+
+/** Anchor for "add it here" gaps: the entry page's `<body>`/`<head>`, else the first stylesheet or script. */
+const entryAnchor = (project: ParsedProject, tag: 'body' | 'head' = 'body') => {
+  if (project.entryHtml) {
+    const node = findHtmlElements(project.entryHtml.doc, (el) => el.tag === tag)[0];
+    return { path: project.entryHtml.path, line: node ? node.line : null };
+  }
+  const fallback = project.css[0] || project.scripts[0];
+  return { path: fallback ? fallback.path : 'index.html', line: null };
+};
+
+const stylesheetAnchor = (project: ParsedProject) => {
+  const sheet = project.css.find((source) => source.lineOffset === 0) || project.css[0];
+  return sheet ? { path: sheet.path, line: null } : entryAnchor(project, 'head');
+};
+
+const scriptAnchor = (project: ParsedProject) => {
+  const script = project.scripts.find((source) => source.lineOffset === 0) || project.scripts[0];
+  return script ? { path: script.path, line: null } : entryAnchor(project);
+};
+
+const forEachCss = (project: ParsedProject, visit: (source: CssSource, node: CssNode, ancestors: CssNode[]) => void) => {
+  for (const source of project.css) walkCss(source.nodes, (node, ancestors) => visit(source, node, ancestors));
+};
+
+const forEachJs = (project: ParsedProject, visit: (source: ScriptSource, node: JsNode, ancestors: JsNode[]) => void) => {
+  for (const source of project.scripts) walkJs(source.ast, (node, ancestors) => visit(source, node, ancestors));
+};
+
+const forEachElement = (project: ParsedProject, visit: (source: HtmlSource, node: HtmlNode) => void) => {
+  for (const source of project.html) findHtmlElements(source.doc, () => true).forEach((node) => visit(source, node));
+};
+
+const callArgs = (node: JsNode) => (Array.isArray(node.arguments) ? (node.arguments as JsNode[]) : []);
+
+/** Method name of a member call such as `promise.catch(...)`, whatever the object expression is. */
+const calleeProperty = (node: JsNode) => {
+  const callee = isJsNode(node.callee) && node.callee.type === 'ChainExpression' ? node.callee.expression : node.callee;
+  return isJsNode(callee) && callee.type === 'MemberExpression' && isJsNode(callee.property) ? String(callee.property.name || '') : '';
+};
+
+const isCallTo = (node: JsNode, pattern: RegExp) =>
+  (node.type === 'CallExpression' || node.type === 'NewExpression') && pattern.test(jsMemberPath(node.callee));
+
+const isFunctionNode = (node: unknown): node is JsNode =>
+  isJsNode(node) &&
+  (node.type === 'FunctionDeclaration' || node.type === 'FunctionExpression' || node.type === 'ArrowFunctionExpression');
+
+/** Named functions per script: declarations plus `const name = () => {}` / `function () {}` bindings. */
+const collectFunctions = (source: ScriptSource) => {
+  const functions = new Map<string, JsNode>();
+  walkJs(source.ast, (node) => {
+    if (node.type === 'FunctionDeclaration' && isJsNode(node.id)) functions.set(String(node.id.name), node);
+    if (node.type === 'VariableDeclarator' && isJsNode(node.id) && isFunctionNode(node.init)) {
+      functions.set(String(node.id.name), node.init);
+    }
+    if ((node.type === 'Property' || node.type === 'MethodDefinition') && isFunctionNode(node.value)) {
+      const name = isJsNode(node.key) ? String(node.key.name || jsStringValue(node.key) || '') : '';
+      if (name) functions.set(name, node.value);
+    }
+  });
+  return functions;
+};
+
+/** Resolves a handler argument (inline function or a name) to function nodes in the same script. */
+const resolveHandler = (handler: unknown, functions: Map<string, JsNode>): JsNode | null => {
+  if (isFunctionNode(handler)) return handler;
+  const name = jsMemberPath(handler).split('.').pop() || '';
+  return functions.get(name) || null;
+};
+
+/** True when `fn` (or a same-script function it calls, two levels deep) contains a node matching `predicate`. */
+const functionReaches = (
+  fn: JsNode,
+  functions: Map<string, JsNode>,
+  predicate: (node: JsNode) => boolean,
+  depth = 2,
+  seen = new Set<JsNode>()
+): JsNode | null => {
+  if (seen.has(fn)) return null;
+  seen.add(fn);
+  let found: JsNode | null = null;
+  const callees: JsNode[] = [];
+  walkJs(fn, (node) => {
+    if (found) return;
+    if (predicate(node)) found = node;
+    else if (depth > 0 && node.type === 'CallExpression') {
+      const callee = functions.get(jsMemberPath(node.callee).split('.').pop() || '');
+      if (callee) callees.push(callee);
+    }
+  });
+  if (found) return found;
+  for (const callee of callees) {
+    const nested = functionReaches(callee, functions, predicate, depth - 1, seen);
+    if (nested) return nested;
+  }
+  return null;
+};
+
+const QUERY_CALL_RE = /(?:^|\.)(?:querySelector|querySelectorAll|getElementById|getElementsByClassName|closest|matches)$/;
+
+/** Selector a DOM lookup expression targets, following one `const el = document.querySelector(...)` binding. */
+const selectorForTarget = (target: unknown, source: ScriptSource): string | null => {
+  if (!isJsNode(target)) return null;
+  const expression = target.type === 'ChainExpression' && isJsNode(target.expression) ? target.expression : target;
+  if (expression.type === 'CallExpression' && QUERY_CALL_RE.test(jsMemberPath(expression.callee))) {
+    const value = jsStringValue(callArgs(expression)[0]);
+    if (value === null) return null;
+    return /getElementById$/.test(jsMemberPath(expression.callee)) ? `#${value}` : value;
+  }
+  if (expression.type === 'Identifier') {
+    let selector: string | null = null;
+    walkJs(source.ast, (node) => {
+      if (selector || node.type !== 'VariableDeclarator' || !isJsNode(node.id) || node.id.name !== expression.name) return;
+      selector = selectorForTarget(node.init, source);
+    });
+    return selector;
+  }
+  return null;
+};
+
+type ListenerBinding = {
+  source: ScriptSource;
+  node: JsNode;
+  event: string;
+  selector: string | null;
+  handler: JsNode | null;
+  functions: Map<string, JsNode>;
+};
+
+/** Every `el.addEventListener(event, fn)` and `el.onevent = fn` binding across the project's scripts. */
+const collectListeners = (project: ParsedProject): ListenerBinding[] => {
+  const bindings: ListenerBinding[] = [];
+  for (const source of project.scripts) {
+    const functions = collectFunctions(source);
+    walkJs(source.ast, (node) => {
+      if (node.type === 'CallExpression' && /(?:^|\.)addEventListener$/.test(jsMemberPath(node.callee))) {
+        const [eventArg, handlerArg] = callArgs(node);
+        const callee = node.callee as JsNode;
+        const object = callee.type === 'ChainExpression' ? (callee.expression as JsNode).object : callee.object;
+        bindings.push({
+          source,
+          node,
+          event: String(jsStringValue(eventArg) || '').toLowerCase(),
+          selector: selectorForTarget(object, source),
+          handler: resolveHandler(handlerArg, functions),
+          functions
+        });
+      }
+      if (node.type === 'AssignmentExpression' && isJsNode(node.left) && node.left.type === 'MemberExpression') {
+        const property = isJsNode(node.left.property) ? String(node.left.property.name || '') : '';
+        if (!/^on[a-z]+$/.test(property)) return;
+        bindings.push({
+          source,
+          node,
+          event: property.slice(2),
+          selector: selectorForTarget(node.left.object, source),
+          handler: resolveHandler(node.right, functions),
+          functions
+        });
+      }
+    });
+  }
+  return bindings;
+};
+
+/** Delegated listeners (`document.addEventListener('click', e => e.target.closest('#x'))`) also count as bound to `#x`. */
+const listenerSelectors = (binding: ListenerBinding) => {
+  const selectors = binding.selector ? [binding.selector] : [];
+  if (binding.handler) {
+    walkJs(binding.handler, (node) => {
+      if (node.type === 'CallExpression' && /(?:^|\.)(?:closest|matches)$/.test(jsMemberPath(node.callee))) {
+        const value = jsStringValue(callArgs(node)[0]);
+        if (value) selectors.push(value);
+      }
+    });
+  }
+  return selectors;
+};
+
+const selectorTargets = (selector: string, node: HtmlNode) => {
+  const id = node.attrs.id;
+  const classes = String(node.attrs.class || '').split(/\s+/).filter(Boolean);
+  if (id && new RegExp(`#${id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w-])`).test(selector)) return true;
+  if (classes.some((name) => new RegExp(`\\.${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w-])`).test(selector))) return true;
+  return Object.keys(node.attrs).some((attr) => attr.startsWith('data-') && selector.includes(`[${attr}`));
+};
+
+/** Function names an inline `onclick="toggleTheme()"` attribute calls. */
+const inlineHandlerNames = (value: string) => {
+  const ast = parseScriptAst(value);
+  const names: string[] = [];
+  if (!ast) return names;
+  walkJs(ast, (node) => {
+    if (node.type === 'CallExpression') {
+      const name = jsMemberPath(node.callee).split('.').pop();
+      if (name) names.push(name);
+    }
+  });
+  return names;
+};
+
+const cssDeclarations = (project: ParsedProject) => {
+  const out: Array<{ source: CssSource; node: CssNode; property: string; value: string; line: number }> = [];
+  forEachCss(project, (source, node) => {
+    for (const decl of node.declarations) out.push({ source, node, ...decl, line: cssLine(source, decl.line) });
+  });
+  return out;
+};
+
+const limit = <T>(items: T[]) => items.slice(0, MAX_EVIDENCE);
+
+// ---------------------------------------------------------------------------
+// Feature checks
+// ---------------------------------------------------------------------------
+
+const checkSvgIcons = (project: ParsedProject): CheckOutcome => {
+  const evidence: FeatureEvidence[] = [];
+  forEachElement(project, (source, node) => {
+    if (node.tag === 'svg' && !hasHtmlAncestor(node, 'svg') && !hasHtmlAncestor(node, 'head')) {
+      evidence.push(at(source.path, node.line, 'inline <svg>'));
+    }
+    if (['img', 'object', 'use', 'image'].includes(node.tag) && /\.svg(?:[?#]|$)|^#/i.test(node.attrs.src || node.attrs.data || node.attrs.href || '')) {
+      evidence.push(at(source.path, node.line, `${describeHtmlElement(node)} references an SVG`));
+    }
+  });
+  for (const decl of cssDeclarations(project)) {
+    if (/url\([^)]*\.svg/i.test(decl.value)) evidence.push(at(decl.source.path, decl.line, `${decl.property} uses an SVG url()`));
+  }
+  forEachJs(project, (source, node) => {
+    const value = node.type === 'TemplateElement' ? (node.value as { cooked?: string })?.cooked : jsStringValue(node);
+    if (value && /<svg\b/i.test(value)) evidence.push(at(source.path, jsLine(source, node), 'SVG markup in script'));
+  });
+  if (evidence.length > 0) return { present: true, evidence: limit(evidence), gaps: [] };
+  const anchor = entryAnchor(project);
+  return { present: false, evidence, gaps: [at(anchor.path, anchor.line, 'no inline <svg> or .svg icon is used in markup, styles or scripts')] };
+};
+
+const TRANSLUCENT_RE = /rgba\(|hsla\(|\/\s*(?:0?\.\d+|\d{1,2}%)\s*\)|transparent|color-mix\(|var\(|#[0-9a-f]{8}\b|#[0-9a-f]{4}\b/i;
+
+const checkGlassmorphism = (project: ParsedProject): CheckOutcome => {
+  const evidence: FeatureEvidence[] = [];
+  const gaps: FeatureEvidence[] = [];
+  forEachCss(project, (source, node) => {
+    const blur = node.declarations.find((decl) => /^(?:-webkit-)?backdrop-filter$/.test(decl.property) && /blur\(/i.test(decl.value));
+    if (!blur) return;
+    const background = node.declarations.find((decl) => /^background(?:-color)?$/.test(decl.property) && TRANSLUCENT_RE.test(decl.value));
+    const label = node.kind === 'rule' ? node.prelude : `@${node.name}`;
+    if (background) evidence.push(at(source.path, cssLine(source, node.line), `${label} combines backdrop blur with a translucent background`));
+    else gaps.push(at(source.path, cssLine(source, node.line), `${label} blurs the backdrop but has no translucent background`));
+  });
+  if (evidence.length > 0) return { present: true, evidence: limit(evidence), gaps: [] };
+  if (gaps.length === 0) {
+    const anchor = stylesheetAnchor(project);
+    gaps.push(at(anchor.path, anchor.line, 'no rule applies backdrop-filter: blur(...) over a translucent background'));
+  }
+  return { present: false, evidence, gaps: limit(gaps) };
+};
+
+const THEME_WORD_RE = /theme|dark|light|mode|color-scheme/i;
+
+const isThemeToggle = (node: HtmlNode) => {
+  const interactive =
+    ['button', 'input', 'a', 'label', 'select'].includes(node.tag) || node.attrs.role === 'switch' || node.attrs.role === 'button';
+  if (!interactive) return false;
+  const attrs = Object.entries(node.attrs)
+    .filter(([name]) => ['id', 'class', 'name', 'title', 'aria-label', 'aria-pressed', 'for'].includes(name) || name.startsWith('data-'))
+    .map(([name, value]) => `${name} ${value}`)
+    .join(' ');
+  return THEME_WORD_RE.test(attrs) || THEME_WORD_RE.test(node.text);
+};
+
+const writesLocalStorage = (node: JsNode) =>
+  (node.type === 'CallExpression' && /(?:^|\.)localStorage\.setItem$/.test(jsMemberPath(node.callee))) ||
+  (node.type === 'AssignmentExpression' && /(?:^|\.)localStorage\.\w+$/.test(jsMemberPath(node.left)));
+
+const checkDarkModeToggle = (project: ParsedProject): CheckOutcome => {
+  const toggles: Array<{ source: HtmlSource; node: HtmlNode }> = [];
+  forEachElement(project, (source, node) => {
+    if (isThemeToggle(node)) toggles.push({ source, node });
+  });
+  const listeners = collectListeners(project).filter((binding) => ['click', 'change', 'input', 'toggle'].includes(binding.event));
+
+  const evidence: FeatureEvidence[] = [];
+  const gaps: FeatureEvidence[] = [];
+  const handlerGaps: FeatureEvidence[] = [];
+
+  const judgeHandler = (binding: ListenerBinding, label: string) => {
+    const line = jsLine(binding.source, binding.node);
+    if (binding.handler && functionReaches(binding.handler, binding.functions, writesLocalStorage)) {
+      evidence.push(at(binding.source.path, line, `${label} ${binding.event} handler persists the theme to localStorage`));
+      return true;
+    }
+    handlerGaps.push(at(binding.source.path, line, `${label} ${binding.event} handler does not save the chosen theme with localStorage.setItem`));
+    return false;
+  };
+
+  for (const toggle of toggles) {
+    const label = describeHtmlElement(toggle.node);
+    const bound = listeners.filter((binding) => listenerSelectors(binding).some((selector) => selectorTargets(selector, toggle.node)));
+    const inline = ['onclick', 'onchange', 'oninput']
+      .filter((attr) => toggle.node.attrs[attr])
+      .flatMap((attr) => inlineHandlerNames(toggle.node.attrs[attr]));
+    let wired = bound.length > 0 || inline.length > 0;
+    if (bound.some((binding) => judgeHandler(binding, label))) {
+      evidence.unshift(at(toggle.source.path, toggle.node.line, `theme toggle ${label}`));
+      continue;
+    }
+    for (const script of project.scripts) {
+      const functions = collectFunctions(script);
+      for (const name of inline) {
+        const fn = functions.get(name);
+        if (!fn) continue;
+        wired = true;
+        if (functionReaches(fn, functions, writesLocalStorage)) {
+          evidence.push(at(toggle.source.path, toggle.node.line, `theme toggle ${label} calls ${name}() which persists the theme`));
+        } else {
+          handlerGaps.push(at(script.path, jsLine(script, fn), `${name}() (called by ${label}) does not save the theme with localStorage.setItem`));
+        }
+      }
+    }
+    if (!wired) gaps.push(at(toggle.source.path, toggle.node.line, `theme toggle ${label} is not wired to a click/change handler`));
+  }
+
+  // Toggles rendered from script never reach the HTML tree; accept a theme-named lookup bound to a persisting handler.
+  if (evidence.length === 0) {
+    for (const binding of listeners) {
+      const selector = listenerSelectors(binding).find((value) => THEME_WORD_RE.test(value));
+      if (selector && binding.handler && functionReaches(binding.handler, binding.functions, writesLocalStorage)) {
+        evidence.push(at(binding.source.path, jsLine(binding.source, binding.node), `${selector} ${binding.event} handler persists the theme to localStorage`));
+      }
+    }
+  }
+
+  if (evidence.length > 0) return { present: true, evidence: limit(evidence), gaps: [] };
+  if (toggles.length === 0) {
+    const anchor = entryAnchor(project);
+    gaps.push(at(anchor.path, anchor.line, 'no visible theme toggle control (button or switch) in the markup'));
+  }
+  return { present: false, evidence, gaps: limit([...gaps, ...handlerGaps]) };
+};
+
+const checkResponsive = (project: ParsedProject): CheckOutcome => {
+  const evidence: FeatureEvidence[] = [];
+  const gaps: FeatureEvidence[] = [];
+  forEachCss(project, (source, node) => {
+    if (node.kind !== 'at-rule' || node.name !== 'media' || !/(?:min|max)-width|width\s*[<>]/i.test(node.prelude)) return;
+    const line = cssLine(source, node.line);
+    if (cssBlockHasRules(node)) evidence.push(at(source.path, line, `@media ${node.prelude}`));
+    else gaps.push(at(source.path, line, `@media ${node.prelude} block contains no rules`));
+  });
+  if (evidence.length === 0 && gaps.length === 0) {
+    const anchor = stylesheetAnchor(project);
+    gaps.push(at(anchor.path, anchor.line, 'no width-based @media breakpoint with rules'));
+  }
+
+  const hasBreakpoint = evidence.length > 0;
+  const viewport = project.html
+    .flatMap((source) => findHtmlElements(source.doc, (node) => node.tag === 'meta' && /^viewport$/i.test(node.attrs.name || '')).map((node) => ({ source, node })))[0];
+  if (viewport) evidence.push(at(viewport.source.path, viewport.node.line, 'viewport meta tag'));
+  else if (project.entryHtml) {
+    const anchor = entryAnchor(project, 'head');
+    gaps.push(at(anchor.path, anchor.line, 'missing <meta name="viewport"> in <head>'));
+  }
+
+  const present = hasBreakpoint && Boolean(viewport || !project.entryHtml);
+  return { present, evidence: limit(evidence), gaps: present ? [] : limit(gaps) };
+};
+
+const checkAnimationSystem = (project: ParsedProject): CheckOutcome => {
+  const motion: FeatureEvidence[] = [];
+  const reduced: FeatureEvidence[] = [];
+  const gaps: FeatureEvidence[] = [];
+
+  for (const decl of cssDeclarations(project)) {
+    if (/^(?:transition|animation)(?:-name|-property)?$/.test(decl.property) && !/^none\b/i.test(decl.value)) {
+      motion.push(at(decl.source.path, decl.line, `${decl.property}: ${decl.value.slice(0, 60)}`));
+    }
+  }
+  forEachCss(project, (source, node) => {
+    if (node.kind === 'at-rule' && node.name === 'keyframes') motion.push(at(source.path, cssLine(source, node.line), `@keyframes ${node.prelude}`));
+    if (node.kind === 'at-rule' && node.name === 'media' && /prefers-reduced-motion/i.test(node.prelude)) {
+      const line = cssLine(source, node.line);
+      if (cssBlockHasRules(node)) reduced.push(at(source.path, line, `@media ${node.prelude} overrides motion`));
+      else gaps.push(at(source.path, line, `@media ${node.prelude} block contains no rules`));
+    }
+  });
+  forEachJs(project, (source, node) => {
+    if (isCallTo(node, /(?:^|\.)animate$/)) motion.push(at(source.path, jsLine(source, node), 'Element.animate() call'));
+    if (isCallTo(node, /(?:^|\.)matchMedia$/) && /prefers-reduced-motion/i.test(jsStringValue(callArgs(node)[0]) || '')) {
+      reduced.push(at(source.path, jsLine(source, node), 'script checks prefers-reduced-motion'));
+    }
+  });
+
+  if (motion.length === 0) {
+    const anchor = stylesheetAnchor(project);
+    gaps.unshift(at(anchor.path, anchor.line, 'no transition, animation or @keyframes declarations'));
+  }
+  if (reduced.length === 0 && !gaps.some((gap) => /prefers-reduced-motion/.test(gap.note))) {
+    const anchor = stylesheetAnchor(project);
+    gaps.push(at(anchor.path, anchor.line, 'no @media (prefers-reduced-motion: reduce) block that disables or shortens motion'));
+  }
+  const present = motion.length > 0 && reduced.length > 0;
+  return { present, evidence: limit([...reduced, ...motion]), gaps: present ? [] : limit(gaps) };
+};
+
+const CONSTRAINT_ATTRS = ['required', 'pattern', 'minlength', 'maxlength', 'min', 'max'];
+const VALIDATION_CALL_RE = /(?:^|\.)(?:checkValidity|reportValidity|setCustomValidity|test|match)$/;
+
+const validatesInput = (node: JsNode) =>
+  isCallTo(node, VALIDATION_CALL_RE) ||
+  (node.type === 'MemberExpression' && isJsNode(node.property) && /^(?:validity|validationMessage)$/.test(String(node.property.name)));
+
+const checkFormValidation = (project: ParsedProject): CheckOutcome => {
+  const forms: Array<{ source: HtmlSource; node: HtmlNode }> = [];
+  const evidence: FeatureEvidence[] = [];
+  let errorState = false;
+
+  forEachElement(project, (source, node) => {
+    if (node.tag === 'form') forms.push({ source, node });
+    if (['input', 'textarea', 'select'].includes(node.tag)) {
+      const attr = CONSTRAINT_ATTRS.find((name) => name in node.attrs);
+      const typed = /^(?:email|url|tel|number)$/i.test(node.attrs.type || '');
+      if (attr || typed) evidence.push(at(source.path, node.line, `${describeHtmlElement(node)} declares ${attr || `type=${node.attrs.type}`}`));
+    }
+    if (node.attrs.role === 'alert' || 'aria-live' in node.attrs || 'aria-invalid' in node.attrs || /error|invalid/i.test(node.attrs.class || '')) {
+      errorState = true;
+    }
+  });
+
+  for (const binding of collectListeners(project)) {
+    if (!['submit', 'input', 'blur', 'change', 'invalid'].includes(binding.event) || !binding.handler) continue;
+    const check = functionReaches(binding.handler, binding.functions, validatesInput);
+    if (check) evidence.push(at(binding.source.path, jsLine(binding.source, binding.node), `${binding.event} handler validates input`));
+  }
+  forEachCss(project, (_source, node) => {
+    if (node.kind === 'rule' && /:(?:user-)?invalid|\.(?:[\w-]*error|invalid)/i.test(node.prelude)) errorState = true;
+  });
+  forEachJs(project, (_source, node) => {
+    if (isCallTo(node, /(?:^|\.)setCustomValidity$/)) errorState = true;
+    if (isCallTo(node, /(?:^|\.)setAttribute$/) && jsStringValue(callArgs(node)[0]) === 'aria-invalid') errorState = true;
+    // class names such as `classList.add('is-invalid')`
+    if (node.type === 'Literal' && typeof node.value === 'string' && /(?:^|[\s-])(?:error|invalid)(?:$|[\s-])/i.test(node.value)) errorState = true;
+  });
+
+  const gaps: FeatureEvidence[] = [];
+  if (forms.length === 0) {
+    const anchor = entryAnchor(project);
+    gaps.push(at(anchor.path, anchor.line, 'no <form> element to validate'));
+  } else {
+    const form = forms[0];
+    if (evidence.length === 0) {
+      gaps.push(at(form.source.path, form.node.line, `${describeHtmlElement(form.node)} has no constraint attributes or validating submit/input handler`));
+    }
+    if (!errorState) {
+      gaps.push(at(form.source.path, form.node.line, `${describeHtmlElement(form.node)} has no visible error state (role="alert", aria-live, aria-invalid or error styles)`));
+    }
+  }
+  const present = gaps.length === 0;
+  if (present) evidence.unshift(at(forms[0].source.path, forms[0].node.line, describeHtmlElement(forms[0].node)));
+  return { present, evidence: limit(evidence), gaps };
+};
+
+const isFullDocument = (doc: HtmlNode) => findHtmlElements(doc, (node) => node.tag === 'html' || node.tag === 'head').length > 0;
+
+const checkSeoMeta = (project: ParsedProject): CheckOutcome => {
+  const evidence: FeatureEvidence[] = [];
+  const gaps: FeatureEvidence[] = [];
+
+  for (const source of project.html.filter((page) => isFullDocument(page.doc))) {
+    const head = findHtmlElements(source.doc, (node) => node.tag === 'head')[0];
+    const anchorLine = head ? head.line : 1;
+    const inHead = (node: HtmlNode) => (head ? hasHtmlAncestor(node, 'head') : !hasHtmlAncestor(node, 'body'));
+    const metas = findHtmlElements(source.doc, (node) => node.tag === 'meta');
+
+    const title = findHtmlElements(source.doc, (node) => node.tag === 'title' && !hasHtmlAncestor(node, 'svg'))[0];
+    if (title && title.text.trim() && inHead(title)) evidence.push(at(source.path, title.line, `<title>${title.text.trim().slice(0, 40)}</title>`));
+    else gaps.push(at(source.path, title ? title.line : anchorLine, title ? '<title> is empty or outside <head>' : 'missing <title> in <head>'));
+
+    const description = metas.find((node) => /^description$/i.test(node.attrs.name || ''));
+    if (description && description.attrs.content?.trim() && inHead(description)) {
+      evidence.push(at(source.path, description.line, 'meta description'));
+    } else {
+      gaps.push(at(source.path, description ? description.line : anchorLine, description ? 'meta description is empty or outside <head>' : 'missing <meta name="description"> in <head>'));
+    }
+
+    const og = metas.filter((node) => /^og:/i.test(node.attrs.property || node.attrs.name || ''));
+    const ogInHead = og.filter((node) => inHead(node) && node.attrs.content?.trim());
+    if (ogInHead.length > 0) {
+      evidence.push(at(source.path, ogInHead[0].line, `${ogInHead.length} og: meta tag(s) in <head>`));
+    } else if (og.length > 0) {
+      gaps.push(at(source.path, og[0].line, `${og[0].attrs.property || og[0].attrs.name} meta is outside <head> or has no content`));
+    } else {
+      gaps.push(at(source.path, anchorLine, 'missing og:title / og:description meta tags in <head>'));
+    }
+  }
+
+  if (project.html.length === 0) gaps.push(at('index.html', null, 'no HTML document to carry SEO metadata'));
+  const present = gaps.length === 0 && evidence.length > 0;
+  return { present, evidence: limit(evidence), gaps: limit(gaps) };
+};
+
+const LANDMARK_ROLES: Record<string, string> = { header: 'banner', nav: 'navigation', footer: 'contentinfo', aside: 'complementary' };
+
+const checkA11yLandmarks = (project: ParsedProject): CheckOutcome => {
+  const evidence: FeatureEvidence[] = [];
+  const gaps: FeatureEvidence[] = [];
+  const pages = project.html.filter((page) => isFullDocument(page.doc));
+
+  for (const source of pages.length > 0 ? pages : project.html) {
+    const main = findHtmlElements(source.doc, (node) => node.tag === 'main' || node.attrs.role === 'main')[0];
+    const others = findHtmlElements(
+      source.doc,
+      (node) => (node.tag in LANDMARK_ROLES && !hasHtmlAncestor(node, 'article')) || Object.values(LANDMARK_ROLES).includes(node.attrs.role || '')
+    );
+    const body = findHtmlElements(source.doc, (node) => node.tag === 'body')[0];
+    if (main) evidence.push(at(source.path, main.line, `${describeHtmlElement(main)} landmark`));
+    else gaps.push(at(source.path, body ? body.line : null, 'missing <main> landmark'));
+    if (others.length > 0) evidence.push(at(source.path, others[0].line, `${describeHtmlElement(others[0])} landmark`));
+    else gaps.push(at(source.path, body ? body.line : null, 'no <header>, <nav> or <footer> landmark around the main content'));
+  }
+
+  if (project.html.length === 0) gaps.push(at('index.html', null, 'no HTML document to carry landmarks'));
+  const present = gaps.length === 0;
+  return { present, evidence: limit(evidence), gaps: limit(gaps) };
+};
+
+const checkRtlSupport = (project: ParsedProject): CheckOutcome => {
+  const evidence: FeatureEvidence[] = [];
+  forEachElement(project, (source, node) => {
+    if (/^(?:rtl|auto)$/i.test(node.attrs.dir || '')) evidence.push(at(source.path, node.line, `${describeHtmlElement(node)} dir="${node.attrs.dir}"`));
+  });
+  forEachCss(project, (source, node) => {
+    if (node.kind === 'rule' && /\[dir\s*=\s*["']?rtl|:dir\(\s*rtl/i.test(node.prelude)) {
+      evidence.push(at(source.path, cssLine(source, node.line), `${node.prelude} styles`));
+    }
+  });
+  forEachJs(project, (source, node) => {
+    if (isCallTo(node, /(?:^|\.)setAttribute$/) && jsStringValue(callArgs(node)[0]) === 'dir') {
+      evidence.push(at(source.path, jsLine(source, node), 'script switches the dir attribute'));
+    }
+    if (node.type === 'AssignmentExpression' && /(?:^|\.)dir$/.test(jsMemberPath(node.left))) {
+      evidence.push(at(source.path, jsLine(source, node), 'script switches document direction'));
+    }
+  });
+  if (evidence.length > 0) return { present: true, evidence: limit(evidence), gaps: [] };
+  const html = project.entryHtml ? findHtmlElements(project.entryHtml.doc, (node) => node.tag === 'html')[0] : undefined;
+  const anchor = project.entryHtml ? { path: project.entryHtml.path, line: html ? html.line : null } : stylesheetAnchor(project);
+  return { present: false, evidence, gaps: [at(anchor.path, anchor.line, 'no dir="rtl" attribute, direction switch in script, or [dir="rtl"] styles')] };
+};
+
+const NETWORK_CALL_RE = /^(?:window\.)?fetch$|^axios(?:\.\w+)?$|^\w*[aA]pi\w*\.(?:get|post|put|patch|delete|request)$|^XMLHttpRequest$/;
+
+const checkApiIntegration = (project: ParsedProject): CheckOutcome => {
+  const handled: FeatureEvidence[] = [];
+  const unhandled: FeatureEvidence[] = [];
+
+  forEachJs(project, (source, node, ancestors) => {
+    if (!isCallTo(node, NETWORK_CALL_RE)) return;
+    const name = jsMemberPath(node.callee);
+    const line = jsLine(source, node);
+    const inTry = ancestors.some((ancestor, index) => ancestor.type === 'TryStatement' && ancestors[index + 1] === ancestor.block);
+    const chainedCatch = ancestors.some(
+      (ancestor) =>
+        ancestor.type === 'CallExpression' &&
+        (calleeProperty(ancestor) === 'catch' || (calleeProperty(ancestor) === 'then' && callArgs(ancestor).length > 1))
+    );
+    if (inTry || chainedCatch) handled.push(at(source.path, line, `${name}() call with error handling`));
+    else unhandled.push(at(source.path, line, `${name}() call has no try/catch or .catch() error path`));
+  });
+
+  if (handled.length > 0) return { present: true, evidence: limit(handled), gaps: [] };
+  if (unhandled.length > 0) return { present: false, evidence: [], gaps: limit(unhandled) };
+  const anchor = scriptAnchor(project);
+  return { present: false, evidence: [], gaps: [at(anchor.path, anchor.line, 'no fetch/axios data layer with loading and error handling')] };
+};
+
+const STATE_IMPORT_RE = /^(?:zustand|redux|@reduxjs\/toolkit|pinia|jotai|valtio|mobx|nanostores|@preact\/signals)/;
+const STATE_CALL_RE = /(?:^|\.)(?:createStore|configureStore|useState|useReducer|createSlice|defineStore|atom|signal|reactive|writable)$/;
+const STATE_NAME_RE = /(?:^|[a-z_])(?:state|store)$|^(?:state|store)/i;
+
+const checkStateManagement = (project: ParsedProject): CheckOutcome => {
+  const evidence: FeatureEvidence[] = [];
+  forEachJs(project, (source, node) => {
+    const line = jsLine(source, node);
+    if (node.type === 'ImportDeclaration' && STATE_IMPORT_RE.test(String(jsStringValue(node.source) || ''))) {
+      evidence.push(at(source.path, line, `imports ${jsStringValue(node.source)}`));
+    } else if (isCallTo(node, STATE_CALL_RE)) {
+      evidence.push(at(source.path, line, `${jsMemberPath(node.callee)}() state container`));
+    } else if (node.type === 'VariableDeclarator' && isJsNode(node.id) && STATE_NAME_RE.test(String(node.id.name || ''))) {
+      const init = node.init;
+      if (isJsNode(init) && (init.type === 'ObjectExpression' || init.type === 'NewExpression' || init.type === 'CallExpression')) {
+        evidence.push(at(source.path, line, `${node.id.name} state object`));
+      }
+    } else if (node.type === 'ClassDeclaration' && isJsNode(node.id) && /Store|State/.test(String(node.id.name || ''))) {
+      evidence.push(at(source.path, line, `class ${node.id.name}`));
+    }
+  });
+  if (evidence.length > 0) return { present: true, evidence: limit(evidence), gaps: [] };
+  const anchor = scriptAnchor(project);
+  return { present: false, evidence, gaps: [at(anchor.path, anchor.line, 'no central state object or store; UI state is scattered across handlers')] };
+};
+
+const checkPerformanceAssets = (project: ParsedProject): CheckOutcome => {
+  const evidence: FeatureEvidence[] = [];
+  const eagerImages: FeatureEvidence[] = [];
+  forEachElement(project, (source, node) => {
+    const label = describeHtmlElement(node);
+    if ((node.tag === 'img' || node.tag === 'iframe') && /^lazy$/i.test(node.attrs.loading || '')) evidence.push(at(source.path, node.line, `${label} loading="lazy"`));
+    else if (node.tag === 'img' && !node.attrs.loading) eagerImages.push(at(source.path, node.line, `${label} loads eagerly; add loading="lazy" and width/height`));
+    if (node.tag === 'img' && (node.attrs.srcset || /^async$/i.test(node.attrs.decoding || ''))) evidence.push(at(source.path, node.line, `${label} responsive/async image`));
+    if (node.tag === 'link' && /\b(?:preload|preconnect|prefetch|modulepreload)\b/i.test(node.attrs.rel || '')) evidence.push(at(source.path, node.line, `<link rel="${node.attrs.rel}">`));
+    if (node.tag === 'script' && node.attrs.src && ('defer' in node.attrs || 'async' in node.attrs || /module/i.test(node.attrs.type || ''))) {
+      evidence.push(at(source.path, node.line, `${node.attrs.src} loads without blocking`));
+    }
+  });
+  forEachJs(project, (source, node) => {
+    if (isCallTo(node, /(?:^|\.)(?:IntersectionObserver|requestIdleCallback)$/)) evidence.push(at(source.path, jsLine(source, node), `${jsMemberPath(node.callee)} defers work`));
+  });
+  for (const decl of cssDeclarations(project)) {
+    if (decl.property === 'content-visibility') evidence.push(at(decl.source.path, decl.line, 'content-visibility'));
+  }
+  if (evidence.length > 0) return { present: true, evidence: limit(evidence), gaps: [] };
+  if (eagerImages.length > 0) return { present: false, evidence, gaps: limit(eagerImages) };
+  const anchor = entryAnchor(project, 'head');
+  return { present: false, evidence, gaps: [at(anchor.path, anchor.line, 'no lazy-loaded media, deferred scripts or resource hints')] };
+};
+
+const STRUCTURAL_CHECKS: Record<string, (project: ParsedProject) => CheckOutcome> = {
+  'support-svg-icons': checkSvgIcons,
+  'ui-glassmorphism': checkGlassmorphism,
+  'dark-mode-toggle': checkDarkModeToggle,
+  'responsive-mobile-first': checkResponsive,
+  'animation-system': checkAnimationSystem,
+  'form-validation': checkFormValidation,
+  'seo-meta-og': checkSeoMeta,
+  'a11y-landmarks': checkA11yLandmarks,
+  'rtl-support': checkRtlSupport,
+  'api-integration-ready': checkApiIntegration,
+  'state-management-ready': checkStateManagement,
+  'performance-optimized-assets': checkPerformanceAssets
+};
+
+const describeRule = (rule: FeatureRule) => {
+  if (rule.message) return rule.message;
+  if (rule.kind === 'html') {
+    const scope = rule.scope ? ` inside <${rule.scope}>` : '';
+    return `no <${rule.target}${rule.match ? ` ${rule.match}` : ''}>${scope}`;
+  }
+  if (rule.kind === 'css') {
+    const scope = rule.scope ? ` within @media/@supports matching /${rule.scope}/` : '';
+    if (rule.target.startsWith('@')) return `no non-empty ${rule.target}${rule.match ? ` /${rule.match}/` : ''} block`;
+    return `no ${rule.target}${rule.match ? `: /${rule.match}/` : ''} declaration${scope}`;
+  }
+  if (rule.kind === 'js') return `no call to /${rule.target}/${rule.match ? ` with /${rule.match}/` : ''}`;
+  return `nothing matches /${rule.target}/`;
+};
+
+const evaluateRule = (project: ParsedProject, rule: FeatureRule): FeatureEvidence[] => {
+  const found: FeatureEvidence[] = [];
+
+  if (rule.kind === 'html') {
+    const tag = rule.target.toLowerCase();
+    const match = rule.match || '';
+    const eq = match.indexOf('=');
+    const attrName = (eq < 0 ? match : match.slice(0, eq)).trim().toLowerCase();
+    const valuePattern = eq < 0 ? null : compileRulePattern(match.slice(eq + 1));
+    forEachElement(project, (source, node) => {
+      if (tag !== '*' && node.tag !== tag) return;
+      if (attrName && !(attrName in node.attrs)) return;
+      if (valuePattern && !valuePattern.test(node.attrs[attrName])) return;
+      if (rule.scope && !hasHtmlAncestor(node, rule.scope.toLowerCase())) return;
+      found.push(at(source.path, node.line, describeHtmlElement(node)));
+    });
+  } else if (rule.kind === 'css') {
+    const matchPattern = compileRulePattern(rule.match);
+    const scopePattern = compileRulePattern(rule.scope);
+    forEachCss(project, (source, node, ancestors) => {
+      if (scopePattern && !ancestors.some((ancestor) => ancestor.kind === 'at-rule' && scopePattern.test(ancestor.prelude))) return;
+      if (rule.target.startsWith('@')) {
+        if (node.kind !== 'at-rule' || node.name !== rule.target.slice(1).toLowerCase()) return;
+        if (matchPattern && !matchPattern.test(node.prelude)) return;
+        if (cssBlockHasRules(node) || node.name === 'import') found.push(at(source.path, cssLine(source, node.line), `@${node.name} ${node.prelude}`));
+        return;
+      }
+      for (const decl of node.declarations) {
+        if (decl.property !== rule.target.toLowerCase() || (matchPattern && !matchPattern.test(decl.value))) continue;
+        found.push(at(source.path, cssLine(source, decl.line), `${decl.property}: ${decl.value.slice(0, 60)}`));
+      }
+    });
+  } else if (rule.kind === 'js') {
+    const calleePattern = compileRulePattern(rule.target);
+    const argPattern = compileRulePattern(rule.match);
+    if (calleePattern) {
+      forEachJs(project, (source, node) => {
+        if (!isCallTo(node, calleePattern)) return;
+        if (argPattern && !argPattern.test(jsStringValue(callArgs(node)[0]) || '')) return;
+        found.push(at(source.path, jsLine(source, node), `${jsMemberPath(node.callee)}() call`));
+      });
+    }
+  } else {
+    const pattern = compileRulePattern(rule.target);
+    if (pattern) found.push(...matchValidators([pattern], project.sources));
+  }
+
+  return found;
+};
+
+/** Evaluates a user-defined feature's declarative rules; every rule (or any, per `ruleMatch`) must find evidence. */
+const checkDeclarativeRules = (project: ParsedProject, feature: ToolFeature): CheckOutcome => {
+  const rules = feature.rules || [];
+  const evidence: FeatureEvidence[] = [];
+  const gaps: FeatureEvidence[] = [];
+  for (const rule of rules) {
+    const found = evaluateRule(project, rule);
+    if (found.length > 0) {
+      evidence.push(...found.slice(0, 2));
+      continue;
+    }
+    const anchor =
+      rule.kind === 'html'
+        ? entryAnchor(project, rule.scope === 'head' ? 'head' : 'body')
+        : rule.kind === 'css'
+          ? stylesheetAnchor(project)
+          : rule.kind === 'js'
+            ? scriptAnchor(project)
+            : entryAnchor(project);
+    gaps.push(at(anchor.path, anchor.line, describeRule(rule)));
+  }
+  const present = feature.ruleMatch === 'any' ? gaps.length < rules.length : gaps.length === 0;
+  return { present, evidence: limit(evidence), gaps: present ? [] : limit(gaps) };
+};
+
+/** Pattern match over the given sources, reporting the first matching file as evidence. */
+const matchValidators = (validators: RegExp[], sources: Array<{ path: string; content: string }>): FeatureEvidence[] => {
+  for (const source of sources) {
+    const rule = validators.find((pattern) => pattern.test(`${source.path}\n${source.content}`));
+    if (rule) return [at(source.path, null, `matches ${rule}`)];
+  }
+  return [];
+};
+
+/**
+ * Checks each selected feature against the parsed HTML/CSS/JS of the project. User-defined features run their
+ * declarative rules; features without either, and sources the parsers cannot read, fall back to `validators`.
+ */
+export const checkFeatureStructures = (files: ProjectFile[], featureIds: string[]): FeatureCheckResult[] => {
+  const project = parseProject(files);
+
+  return featureIds.flatMap((featureId): FeatureCheckResult[] => {
+    const feature = resolveToolFeature(featureId);
+    if (!feature) return [];
+    const check =
+      STRUCTURAL_CHECKS[featureId] ||
+      (feature.rules && feature.rules.length > 0 ? (parsed: ParsedProject) => checkDeclarativeRules(parsed, feature) : null);
+
+    if (!check) {
+      if (feature.validators.length === 0) return [];
+      const evidence = matchValidators(feature.validators, project.sources);
+      return [{ featureId, present: evidence.length > 0, evidence, gaps: [], structural: false }];
+    }
+
+    const outcome = check(project);
+    if (!outcome.present && project.unparsed.length > 0) {
+      const fallback = matchValidators(feature.validators, project.unparsed);
+      if (fallback.length > 0) return [{ featureId, present: true, evidence: fallback, gaps: [], structural: false }];
+    }
+    return [{ featureId, ...outcome, structural: true }];
+  });
+};
+
+export const formatFeatureEvidence = (item: FeatureEvidence) =>
+  `${item.path}${item.line ? `:${item.line}` : ''} ${item.note}`;
+
+/** Issue line for repair prompts, e.g. `dark-mode-toggle @ index.html:14 theme toggle <button#theme> is not wired ...`. */
+export const formatFeatureGap = (result: FeatureCheckResult) => {
+  if (result.gaps.length === 0) return result.featureId;
+  return `${result.featureId} @ ${result.gaps.map(formatFeatureEvidence).join('; ')}`;
+};
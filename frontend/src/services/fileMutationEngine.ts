@@ -134,6 +134,13 @@ export const createFileMutationEngine = (options: FileMutationEngineOptions) =>
         return { ...event, path: resolved };
       }
 
+      if (event.type === 'hunks') {
+        const raw = normalize(event.path || '');
+        const resolved = resolveOperationPath(raw);
+        if (!resolved) return null;
+        return { ...event, path: resolved };
+      }
+
       if (event.type === 'chunk' || event.type === 'end') {
         const raw = normalize(event.path || '');
         const resolved = resolveOperationPath(raw) || activeOperationPath || resolvePath(raw) || raw;
@@ -1,4 +1,5 @@
 import { sanitizeOperationPath } from '@/utils/fileOpGuards';
+import { coercePatchHunks, type PatchHunk } from '@/utils/patchHunks';
 
 export type ParsedFileOpEvent =
   | {
@@ -22,16 +23,25 @@ export type ParsedFileOpEvent =
       toPath: string;
       reason?: string;
       safetyCheckPassed?: boolean;
+    }
+  | {
+      type: 'hunks';
+      path: string;
+      hunks: PatchHunk[];
+      reason?: string;
+      errors?: string[];
     };
 
 type BackendFileOpPayload = {
-  op: 'patch' | 'delete' | 'move';
+  op: 'patch' | 'delete' | 'move' | 'hunks';
   phase: 'start' | 'chunk' | 'end';
   path: string;
   toPath?: string;
   mode?: 'create' | 'edit';
   reason?: string;
   chunk?: string;
+  hunks?: unknown;
+  errors?: unknown;
 };
 
 const toSafeString = (value: unknown) => String(value || '').trim();
@@ -74,6 +84,17 @@ export const parseFileOpEventPayload = (dataText: string): ParsedFileOpEvent | n
     };
   }
 
+  if (op === 'hunks') {
+    const errors = Array.isArray(payload?.errors) ? payload.errors.map((item) => toSafeString(item)).filter(Boolean) : [];
+    return {
+      type: 'hunks',
+      path,
+      hunks: coercePatchHunks(payload?.hunks),
+      reason: reason || undefined,
+      ...(errors.length > 0 ? { errors } : {})
+    };
+  }
+
   if (op !== 'patch') return null;
 
   if (phase === 'start') {
@@ -0,0 +1,194 @@
+import type { ProjectFile } from '@/types';
+import type { WorkspaceJournalChange } from '@/utils/workspaceDb';
+import { useJournalStore } from '@/stores/journalStore';
+import { useProjectStore } from '@/stores/projectStore';
+import { createWorkspaceBackup } from '@/utils/workspaceBackupsDb';
+import { sanitizeOperationPath } from '@/utils/fileOpGuards';
+import { getLanguageFromExtension } from '@/utils/stackDetector';
+import { isSameOrInside, nextDuplicatePath, planTreeMoves, rewriteMovedReferences } from '@/utils/fileTreeOps';
+
+/**
+ * Create, rename/move, duplicate and delete from the file tree. Each operation snapshots the files it is about to
+ * change with `createWorkspaceBackup` and records an undoable journal entry; `destructiveSafetyMode` decides whether
+ * deletes and moves are allowed and whether they need an explicit confirmation first.
+ */
+
+export interface FileTreeOperationOptions {
+  // Set once the user accepted the prompt shown in `review_changes` mode.
+  confirmed?: boolean;
+}
+
+export interface FileTreeMoveResult {
+  moved: number;
+  rewrittenFiles: number;
+}
+
+const pathOf = (file: ProjectFile) => sanitizeOperationPath(file.path || file.name || '');
+
+const filesUnder = (path: string) => useProjectStore.getState().files.filter((file) => isSameOrInside(pathOf(file), path));
+
+const directoriesUnder = (path: string) =>
+  useProjectStore
+    .getState()
+    .fileStructure.filter((entry) => entry.type === 'directory' && isSameOrInside(sanitizeOperationPath(entry.path), path));
+
+const pathExists = (path: string) =>
+  useProjectStore.getState().files.some((file) => isSameOrInside(pathOf(file), path)) || directoriesUnder(path).length > 0;
+
+export const fileTreeDestructiveNeedsConfirm = () => useProjectStore.getState().destructiveSafetyMode === 'review_changes';
+
+const assertDestructiveAllowed = (label: string, options: FileTreeOperationOptions) => {
+  const mode = useProjectStore.getState().destructiveSafetyMode || 'backup_then_apply';
+  if (mode === 'no_delete_move') throw new Error(`${label} is disabled by the destructive safety policy.`);
+  if (mode === 'review_changes' && !options.confirmed) throw new Error(`${label} needs confirmation.`);
+};
+
+const backupBefore = async (reason: string, paths: string[]) => {
+  try {
+    await createWorkspaceBackup({ projectId: useProjectStore.getState().projectId, reason, paths });
+  } catch {
+    throw new Error('Backup failed; nothing was changed.');
+  }
+};
+
+// Binary assets cannot be restored from a text journal, so undo only covers text files.
+const recordJournal = (label: string, changes: WorkspaceJournalChange[], binaryPaths: Set<string>) => {
+  const textChanges = changes.filter((change) => !binaryPaths.has(change.path));
+  if (textChanges.length === 0) return;
+  void useJournalStore.getState().record({ runId: null, label, changes: textChanges });
+};
+
+const normalizeTarget = (rawPath: string) => {
+  const path = sanitizeOperationPath(rawPath);
+  if (!path) throw new Error('Enter a valid path.');
+  if (pathExists(path)) throw new Error(`${path} already exists.`);
+  return path;
+};
+
+export const createTreeFile = async (rawPath: string) => {
+  const path = normalizeTarget(rawPath);
+  const project = useProjectStore.getState();
+  await backupBefore('pre-create', [path]);
+  project.upsertFile({ name: path.split('/').pop() || path, path, content: '', language: getLanguageFromExtension(path) });
+  project.setActiveFile(path);
+  recordJournal(`Create ${path}`, [{ path, before: null, after: '' }], new Set());
+  return path;
+};
+
+export const createTreeFolder = async (rawPath: string) => {
+  const path = normalizeTarget(rawPath);
+  const project = useProjectStore.getState();
+  project.setFileStructure([...project.fileStructure, { name: path.split('/').pop() || path, path, type: 'directory' }]);
+  return path;
+};
+
+/** Renames or moves a file or folder; `rewriteReferences` also updates href/src/import references to the moved files. */
+export const moveTreePath = async (
+  rawSource: string,
+  rawTarget: string,
+  options: FileTreeOperationOptions & { rewriteReferences?: boolean } = {}
+): Promise<FileTreeMoveResult> => {
+  const source = sanitizeOperationPath(rawSource);
+  const target = sanitizeOperationPath(rawTarget);
+  if (!source || !target || source === target) return { moved: 0, rewrittenFiles: 0 };
+  if (isSameOrInside(target, source)) throw new Error('A folder cannot be moved into itself.');
+  if (pathExists(target)) throw new Error(`${target} already exists.`);
+  assertDestructiveAllowed('Moving files', options);
+
+  const project = useProjectStore.getState();
+  const moves = planTreeMoves(project.files.map(pathOf), source, target);
+  const movedDirectories = directoriesUnder(source);
+  if (moves.length === 0 && movedDirectories.length === 0) throw new Error(`${source} does not exist.`);
+
+  const rewrites = options.rewriteReferences ? rewriteMovedReferences(project.files, moves) : [];
+  await backupBefore('pre-move', [...moves.map((move) => move.from), ...rewrites.map((rewrite) => rewrite.path)]);
+
+  const contentByPath = new Map(project.files.map((file) => [pathOf(file), String(file.content || '')]));
+  const binaryPaths = new Set(project.files.filter((file) => file.blob).map(pathOf));
+  for (const rewrite of rewrites) {
+    project.updateFile(rewrite.path, rewrite.after);
+  }
+  for (const move of moves) {
+    project.moveFile(move.from, move.to);
+    if (binaryPaths.has(move.from)) binaryPaths.add(move.to);
+  }
+  if (movedDirectories.length > 0) {
+    const current = useProjectStore.getState().fileStructure;
+    project.setFileStructure([
+      ...current.filter((entry) => !isSameOrInside(sanitizeOperationPath(entry.path), source)),
+      ...movedDirectories.map((entry) => {
+        const path = `${target}${sanitizeOperationPath(entry.path).slice(source.length)}`;
+        return { name: path.split('/').pop() || path, path, type: 'directory' as const };
+      })
+    ]);
+  }
+
+  const rewritten = new Map(rewrites.map((rewrite) => [rewrite.path, rewrite.after]));
+  const changes: WorkspaceJournalChange[] = [];
+  for (const [path, before] of contentByPath) {
+    if (rewritten.has(path) && !moves.some((move) => move.from === path)) {
+      changes.push({ path, before, after: rewritten.get(path) ?? before });
+    }
+  }
+  for (const move of moves) {
+    const before = contentByPath.get(move.from) ?? '';
+    changes.push({ path: move.from, before, after: null }, { path: move.to, before: null, after: rewritten.get(move.from) ?? before });
+  }
+  recordJournal(`Move ${source} to ${target}`, changes, binaryPaths);
+  return { moved: moves.length, rewrittenFiles: rewrites.length };
+};
+
+export const duplicateTreePath = async (rawSource: string) => {
+  const source = sanitizeOperationPath(rawSource);
+  const sources = filesUnder(source);
+  const isFolder = !sources.some((file) => pathOf(file) === source);
+  if (sources.length === 0 && directoriesUnder(source).length === 0) throw new Error(`${source} does not exist.`);
+
+  const project = useProjectStore.getState();
+  const existing = new Set([...project.files.map(pathOf), ...project.fileStructure.map((entry) => sanitizeOperationPath(entry.path))]);
+  const target = nextDuplicatePath(existing, source, isFolder);
+  await backupBefore('pre-duplicate', [target]);
+
+  const changes: WorkspaceJournalChange[] = [];
+  const binaryPaths = new Set<string>();
+  for (const file of sources) {
+    const path = `${target}${pathOf(file).slice(source.length)}`;
+    project.upsertFile({ ...file, path, name: path.split('/').pop() || path });
+    if (file.blob) binaryPaths.add(path);
+    changes.push({ path, before: null, after: String(file.content || '') });
+  }
+  if (isFolder) {
+    project.setFileStructure([
+      ...useProjectStore.getState().fileStructure,
+      ...directoriesUnder(source).map((entry) => {
+        const path = `${target}${sanitizeOperationPath(entry.path).slice(source.length)}`;
+        return { name: path.split('/').pop() || path, path, type: 'directory' as const };
+      })
+    ]);
+  } else {
+    project.setActiveFile(target);
+  }
+  recordJournal(`Duplicate ${source}`, changes, binaryPaths);
+  return target;
+};
+
+export const deleteTreePath = async (rawPath: string, options: FileTreeOperationOptions = {}) => {
+  const path = sanitizeOperationPath(rawPath);
+  const targets = filesUnder(path);
+  if (targets.length === 0 && directoriesUnder(path).length === 0) throw new Error(`${path} does not exist.`);
+  assertDestructiveAllowed('Deleting files', options);
+  await backupBefore('pre-delete', targets.map(pathOf));
+
+  const project = useProjectStore.getState();
+  const binaryPaths = new Set(targets.filter((file) => file.blob).map(pathOf));
+  // deleteFile rebuilds the structure from files alone, which would also drop unrelated empty folders.
+  const remaining = project.fileStructure.filter((entry) => !isSameOrInside(sanitizeOperationPath(entry.path), path));
+  for (const file of targets) project.deleteFile(pathOf(file));
+  project.setFileStructure(remaining);
+  recordJournal(
+    `Delete ${path}`,
+    targets.map((file) => ({ path: pathOf(file), before: String(file.content || ''), after: null })),
+    binaryPaths
+  );
+  return targets.length;
+};
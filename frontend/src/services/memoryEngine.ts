@@ -1,4 +1,4 @@
-import type { MemoryFact, MemorySnapshot } from '@/types/context';
+import type { ConversationSummary, MemoryFact, MemorySnapshot, ProjectMemoryFact } from '@/types/context';
 
 type MemoryChatMessage = {
   role: 'system' | 'user' | 'assistant';
@@ -10,7 +10,7 @@ type MemoryPlanStep = {
   title: string;
   description?: string;
   completed?: boolean;
-  status?: 'pending' | 'in_progress' | 'completed' | 'blocked';
+  status?: 'pending' | 'in_progress' | 'completed' | 'failed' | 'blocked' | 'skipped';
   files?: string[];
 };
 
@@ -109,32 +109,143 @@ const extractTaskFacts = (steps: MemoryPlanStep[], now: number): MemoryFact[] =>
   return out;
 };
 
+const SUMMARY_FACT_CONFIDENCE = 0.9;
+
+const toSummaryFacts = (
+  category: MemoryFact['category'],
+  items: ConversationSummary['decisions'],
+  generatedAt: number
+): MemoryFact[] => {
+  const out: MemoryFact[] = [];
+  items.forEach((item, index) => {
+    const fact = toFact(`llm-${generatedAt}-${index}`, category, item.summary, item.files, generatedAt);
+    if (fact) out.push({ ...fact, confidence: SUMMARY_FACT_CONFIDENCE });
+  });
+  return out;
+};
+
+// With a model summary, its decisions replace the keyword scan for the messages it covers; newer messages
+// are still scanned so decisions made after the summary are not lost.
 export const buildMemorySnapshot = (args: {
   chatHistory: MemoryChatMessage[];
   planSteps: MemoryPlanStep[];
+  conversationSummary?: ConversationSummary | null;
 }): MemorySnapshot => {
   const now = Date.now();
   const history = Array.isArray(args.chatHistory) ? args.chatHistory : [];
   const steps = Array.isArray(args.planSteps) ? args.planSteps : [];
+  const summary = args.conversationSummary || null;
+
+  const decisions = summary
+    ? [
+        ...extractDecisionFacts(history.slice(summary.coveredMessages), now),
+        ...toSummaryFacts('decision', summary.decisions, summary.generatedAt)
+      ].slice(0, 16)
+    : extractDecisionFacts(history, now);
+  const tasks = summary
+    ? [...extractTaskFacts(steps, now), ...toSummaryFacts('task', summary.openTasks, summary.generatedAt)]
+    : extractTaskFacts(steps, now);
 
   return {
     version: 1,
     generatedAt: now,
     ledger: {
       working: extractWorkingFacts(history, now),
-      decisions: extractDecisionFacts(history, now),
-      tasks: extractTaskFacts(steps, now)
-    }
+      decisions,
+      tasks
+    },
+    conversationSummary: summary
   };
 };
 
-export const summarizeMemorySnapshot = (snapshot?: MemorySnapshot | null): string => {
-  if (!snapshot?.ledger) return '';
+export type ProjectMemoryCandidate = Pick<ProjectMemoryFact, 'text' | 'category' | 'source' | 'relatedFiles'>;
+
+/** Case- and punctuation-insensitive identity of a memory text, used to de-duplicate captures. */
+export const projectMemoryKey = (text: string) =>
+  String(text || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\u0600-\u06ff]+/g, ' ')
+    .trim();
+
+const USER_RULE_RE = /^(?:please\s+)?(always|never|must|do not|don't|avoid|make sure)\b/i;
+const PERMANENT_RULE_RE = /^(?:please\s+)?(always|never)\b/i;
+
+// Project memory only keeps what outlives a session: model-summarized decisions and file roles, plus rules the
+// user stated outright ("always use CSS variables for colors"). Open tasks and working notes stay per session.
+export const extractProjectMemoryCandidates = (args: {
+  chatHistory: MemoryChatMessage[];
+  snapshot?: MemorySnapshot | null;
+}): ProjectMemoryCandidate[] => {
+  const out: ProjectMemoryCandidate[] = [];
+  const summary = args.snapshot?.conversationSummary;
+  for (const item of summary?.decisions || []) {
+    out.push({ text: item.summary, category: 'decision', source: 'summary', relatedFiles: item.files });
+  }
+  for (const item of summary?.fileResponsibilities || []) {
+    out.push({ text: `${item.path}: ${item.responsibility}`, category: 'file', source: 'summary', relatedFiles: [item.path] });
+  }
+
+  for (const msg of Array.isArray(args.chatHistory) ? args.chatHistory : []) {
+    if (msg?.role !== 'user') continue;
+    for (const sentence of String(msg.content || '').split(/\r?\n|(?<=[.!?])\s+/)) {
+      const clean = sentence.replace(/^[\s>*\-\d.)]+/, '').trim();
+      if (clean.length < 8 || clean.length > 240 || !USER_RULE_RE.test(clean)) continue;
+      out.push({
+        text: clean,
+        category: PERMANENT_RULE_RE.test(clean) ? 'constraint' : 'decision',
+        source: 'chat',
+        relatedFiles: extractFileRefs(clean)
+      });
+    }
+  }
+
+  const seen = new Set<string>();
+  return out.filter((item) => {
+    const key = projectMemoryKey(item.text);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const MAX_PROMPT_MEMORY_FACTS = 12;
+
+/** Permanent rules always go out in full; other facts are ranked pinned-first, then by recency. */
+export const selectProjectMemoryForPrompt = (facts: ProjectMemoryFact[]) => {
+  const active = (Array.isArray(facts) ? facts : []).filter((fact) => !fact.dismissed && fact.text.trim());
+  const rules = active.filter((fact) => fact.permanent).sort((a, b) => a.createdAt - b.createdAt);
+  const others = active
+    .filter((fact) => !fact.permanent)
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt)
+    .slice(0, MAX_PROMPT_MEMORY_FACTS);
+  return { rules, facts: others };
+};
+
+export const summarizeMemorySnapshot = (
+  snapshot?: MemorySnapshot | null,
+  projectFacts: ProjectMemoryFact[] = []
+): string => {
   const sections: string[] = [];
+  const project = selectProjectMemoryForPrompt(projectFacts);
+  if (project.rules.length > 0) sections.push('[PROJECT RULES]', ...project.rules.map((fact) => `- ${fact.text}`));
+  if (project.facts.length > 0) sections.push('[PROJECT MEMORY]', ...project.facts.map((fact) => `- ${fact.text}`));
+  if (!snapshot?.ledger) return sections.join('\n');
+
+  const known = new Set([...project.rules, ...project.facts].map((fact) => projectMemoryKey(fact.text)));
   const working = snapshot.ledger.working.slice(0, 6).map((item) => `- ${item.summary}`);
-  const decisions = snapshot.ledger.decisions.slice(0, 8).map((item) => `- ${item.summary}`);
+  const decisions = snapshot.ledger.decisions
+    .filter((item) => !known.has(projectMemoryKey(item.summary)))
+    .slice(0, 8)
+    .map((item) => `- ${item.summary}`);
   const tasks = snapshot.ledger.tasks.slice(0, 8).map((item) => `- ${item.summary}`);
 
+  const summary = snapshot.conversationSummary;
+  if (summary?.summary) sections.push('[CONVERSATION SUMMARY]', summary.summary);
+  const responsibilities = (summary?.fileResponsibilities || [])
+    .filter((item) => !known.has(projectMemoryKey(`${item.path}: ${item.responsibility}`)))
+    .slice(0, 12)
+    .map((item) => `- ${item.path}: ${item.responsibility}`);
+  if (responsibilities.length > 0) sections.push('[FILE RESPONSIBILITIES]', ...responsibilities);
   if (working.length > 0) sections.push('[WORKING MEMORY]', ...working);
   if (decisions.length > 0) sections.push('[DECISION MEMORY]', ...decisions);
   if (tasks.length > 0) sections.push('[TASK MEMORY]', ...tasks);
@@ -0,0 +1,292 @@
+export type PlanStepStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'blocked' | 'skipped';
+
+export interface SchedulablePlanStep {
+  id: string;
+  title: string;
+  files?: string[];
+  depends_on?: string[];
+  completed?: boolean;
+  status?: PlanStepStatus;
+  estimatedSize?: 'small' | 'medium' | 'large';
+}
+
+export interface PlanGraph {
+  // Step ids in execution order: dependencies first, plan order as the tie-breaker.
+  order: string[];
+  // Resolved, acyclic upstream ids per step.
+  dependencies: Record<string, string[]>;
+  // Each cycle found in `depends_on`, in plan order; edges pointing back up the plan were dropped to break it.
+  cycles: string[][];
+  unknownDependencies: Array<{ stepId: string; ref: string }>;
+}
+
+export interface PlanScheduleOptions<T extends SchedulablePlanStep> {
+  runStep: (step: T) => Promise<void>;
+  onStatus: (stepId: string, status: PlanStepStatus, detail?: string) => void;
+  // Declared target files the step left missing; a non-empty result fails the step.
+  findMissingFiles?: (step: T) => string[];
+  shouldStop?: () => boolean;
+  // Sum of size weights allowed in flight (small 1, medium 2, large 3); a lone step always runs.
+  maxParallelWeight?: number;
+}
+
+export interface PlanScheduleResult {
+  completed: string[];
+  failed: Array<{ stepId: string; error: string }>;
+  blocked: string[];
+  graph: PlanGraph;
+  // Error thrown by a step while the run was being stopped; the step is left pending.
+  interruption: unknown;
+}
+
+const SIZE_WEIGHT: Record<NonNullable<SchedulablePlanStep['estimatedSize']>, number> = {
+  small: 1,
+  medium: 2,
+  large: 3
+};
+
+const DEFAULT_MAX_PARALLEL_WEIGHT = 4;
+
+const normalizeTargetPath = (value: string) =>
+  String(value || '')
+    .replace(/\\/g, '/')
+    .replace(/^\.\//, '')
+    .replace(/^\/+/, '')
+    .replace(/^frontend\//i, '')
+    .trim()
+    .toLowerCase();
+
+const targetsOf = (step: SchedulablePlanStep) =>
+  Array.from(new Set((Array.isArray(step.files) ? step.files : []).map(normalizeTargetPath).filter(Boolean)));
+
+// Entries without an extension are treated as directories and overlap everything beneath them.
+const targetsOverlap = (a: string[], b: string[]) =>
+  a.some((left) =>
+    b.some((right) => {
+      if (left === right) return true;
+      const leftIsDir = !/\.[a-z0-9]+$/i.test(left);
+      const rightIsDir = !/\.[a-z0-9]+$/i.test(right);
+      return (leftIsDir && right.startsWith(`${left.replace(/\/$/, '')}/`)) || (rightIsDir && left.startsWith(`${right.replace(/\/$/, '')}/`));
+    })
+  );
+
+const findStronglyConnected = (ids: string[], edges: Record<string, string[]>) => {
+  const indexOf = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let counter = 0;
+
+  const visit = (id: string) => {
+    indexOf.set(id, counter);
+    lowLink.set(id, counter);
+    counter += 1;
+    stack.push(id);
+    onStack.add(id);
+    for (const next of edges[id] || []) {
+      if (!indexOf.has(next)) {
+        visit(next);
+        lowLink.set(id, Math.min(lowLink.get(id) as number, lowLink.get(next) as number));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id) as number, indexOf.get(next) as number));
+      }
+    }
+    if (lowLink.get(id) !== indexOf.get(id)) return;
+    const component: string[] = [];
+    let member: string | undefined;
+    do {
+      member = stack.pop() as string;
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== id);
+    components.push(component);
+  };
+
+  for (const id of ids) if (!indexOf.has(id)) visit(id);
+  return components;
+};
+
+/** Resolves `depends_on` (step ids, 1-based positions or titles) into an acyclic dependency graph. */
+export const buildPlanGraph = (steps: SchedulablePlanStep[]): PlanGraph => {
+  const ids = steps.map((step) => step.id);
+  const position = new Map(ids.map((id, index) => [id, index]));
+  const byTitle = new Map(steps.map((step) => [String(step.title || '').trim().toLowerCase(), step.id]));
+  const unknownDependencies: PlanGraph['unknownDependencies'] = [];
+  const selfCycles: string[][] = [];
+
+  const resolveRef = (raw: unknown) => {
+    const ref = String(raw ?? '').trim();
+    if (!ref) return null;
+    if (position.has(ref)) return ref;
+    const titled = byTitle.get(ref.toLowerCase());
+    if (titled) return titled;
+    const ordinal = /^(?:step[\s_-]*)?(\d+)$/i.exec(ref);
+    if (ordinal) return ids[Number(ordinal[1]) - 1] ?? null;
+    return null;
+  };
+
+  const raw: Record<string, string[]> = {};
+  for (const step of steps) {
+    const deps = new Set<string>();
+    for (const ref of Array.isArray(step.depends_on) ? step.depends_on : []) {
+      const resolved = resolveRef(ref);
+      if (!resolved) {
+        unknownDependencies.push({ stepId: step.id, ref: String(ref ?? '') });
+        continue;
+      }
+      if (resolved === step.id) {
+        selfCycles.push([step.id]);
+        continue;
+      }
+      deps.add(resolved);
+    }
+    raw[step.id] = Array.from(deps);
+  }
+
+  const cycles = [...selfCycles];
+  const componentOf = new Map<string, number>();
+  findStronglyConnected(ids, raw).forEach((component, index) => {
+    for (const id of component) componentOf.set(id, index);
+    if (component.length > 1) {
+      cycles.push(component.sort((a, b) => (position.get(a) as number) - (position.get(b) as number)));
+    }
+  });
+
+  const dependencies: Record<string, string[]> = {};
+  for (const id of ids) {
+    dependencies[id] = raw[id].filter(
+      (dep) => componentOf.get(dep) !== componentOf.get(id) || (position.get(dep) as number) < (position.get(id) as number)
+    );
+  }
+
+  const remaining = new Map(ids.map((id) => [id, dependencies[id].length]));
+  const dependents: Record<string, string[]> = {};
+  for (const id of ids) for (const dep of dependencies[id]) (dependents[dep] ||= []).push(id);
+  const order: string[] = [];
+  const ready = ids.filter((id) => remaining.get(id) === 0);
+  while (ready.length > 0) {
+    ready.sort((a, b) => (position.get(a) as number) - (position.get(b) as number));
+    const id = ready.shift() as string;
+    order.push(id);
+    for (const next of dependents[id] || []) {
+      const left = (remaining.get(next) as number) - 1;
+      remaining.set(next, left);
+      if (left === 0) ready.push(next);
+    }
+  }
+
+  return { order, dependencies, cycles, unknownDependencies };
+};
+
+/** Ids of every step downstream of `stepId`, nearest first. */
+export const collectDownstreamSteps = (steps: SchedulablePlanStep[], stepId: string) => {
+  const { dependencies } = buildPlanGraph(steps);
+  const out: string[] = [];
+  const queue = [stepId];
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    for (const step of steps) {
+      if (step.id === stepId || out.includes(step.id)) continue;
+      if (dependencies[step.id]?.includes(current)) {
+        out.push(step.id);
+        queue.push(step.id);
+      }
+    }
+  }
+  return out;
+};
+
+/**
+ * Runs unfinished steps in dependency order, starting independent steps together when their target
+ * files don't overlap. Steps without target files run alone. A failed step blocks everything downstream
+ * of it; unrelated branches keep going. Completed and skipped steps count as satisfied dependencies.
+ */
+export const runPlanSchedule = async <T extends SchedulablePlanStep>(
+  steps: T[],
+  options: PlanScheduleOptions<T>
+): Promise<PlanScheduleResult> => {
+  const graph = buildPlanGraph(steps);
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  const maxWeight = Math.max(1, options.maxParallelWeight ?? DEFAULT_MAX_PARALLEL_WEIGHT);
+  const shouldStop = () => Boolean(options.shouldStop?.());
+
+  const satisfied = new Set(steps.filter((step) => step.completed || step.status === 'skipped').map((step) => step.id));
+  const pending = graph.order.filter((id) => !satisfied.has(id));
+  const unsuccessful = new Map<string, string>();
+  const result: PlanScheduleResult = { completed: [], failed: [], blocked: [], graph, interruption: null };
+
+  for (const id of pending) {
+    if (byId.get(id)?.status !== 'pending') options.onStatus(id, 'pending');
+  }
+
+  const running = new Map<string, { targets: string[]; weight: number; done: Promise<string> }>();
+  const runningWeight = () => Array.from(running.values()).reduce((sum, entry) => sum + entry.weight, 0);
+
+  const canStart = (targets: string[], weight: number) => {
+    if (running.size === 0) return true;
+    if (targets.length === 0) return false;
+    if (runningWeight() + weight > maxWeight) return false;
+    return Array.from(running.values()).every((entry) => entry.targets.length > 0 && !targetsOverlap(entry.targets, targets));
+  };
+
+  const start = (step: T, targets: string[], weight: number) => {
+    options.onStatus(step.id, 'in_progress');
+    const done = (async () => {
+      try {
+        await options.runStep(step);
+        const missing = options.findMissingFiles?.(step) || [];
+        if (missing.length > 0) {
+          throw new Error(`PLAN_STEP_MISSING_FILES: step "${step.title}" did not produce ${missing.join(', ')}`);
+        }
+        satisfied.add(step.id);
+        result.completed.push(step.id);
+        options.onStatus(step.id, 'completed');
+      } catch (error) {
+        if (shouldStop()) {
+          result.interruption ??= error;
+          options.onStatus(step.id, 'pending');
+        } else {
+          const message = (error instanceof Error ? error.message : String(error || '')) || 'Step failed';
+          unsuccessful.set(step.id, `"${step.title}" failed`);
+          result.failed.push({ stepId: step.id, error: message });
+          options.onStatus(step.id, 'failed', message);
+        }
+      }
+      return step.id;
+    })();
+    running.set(step.id, { targets, weight, done });
+  };
+
+  while (pending.length > 0 || running.size > 0) {
+    if (!shouldStop()) {
+      for (let i = 0; i < pending.length; i++) {
+        const id = pending[i];
+        const upstream = graph.dependencies[id] || [];
+        const cause = upstream.find((dep) => unsuccessful.has(dep));
+        if (cause) {
+          const detail = `Upstream step ${unsuccessful.get(cause)}`;
+          unsuccessful.set(id, `"${byId.get(id)?.title || id}" is blocked`);
+          result.blocked.push(id);
+          options.onStatus(id, 'blocked', detail);
+          pending.splice(i--, 1);
+          continue;
+        }
+        if (!upstream.every((dep) => satisfied.has(dep))) continue;
+        const step = byId.get(id) as T;
+        const targets = targetsOf(step);
+        const weight = SIZE_WEIGHT[step.estimatedSize || 'medium'] || SIZE_WEIGHT.medium;
+        if (!canStart(targets, weight)) continue;
+        pending.splice(i--, 1);
+        start(step, targets, weight);
+        if (targets.length === 0) break;
+      }
+    }
+
+    if (running.size === 0) break;
+    const finished = await Promise.race(Array.from(running.values()).map((entry) => entry.done));
+    running.delete(finished);
+  }
+
+  return result;
+};
@@ -0,0 +1,181 @@
+import { toFileNodes } from '@/services/contextGraph';
+import { buildReferenceGraph, type ProjectReference } from '@/services/dependencyGraph';
+import type { ContextRetrievalItem, ContextRetrievalTrace, DependencyEdge, FileNode, PageNode } from '@/types/context';
+
+export type ProjectGraphContextState = 'selected' | 'dropped' | null;
+
+export interface ProjectGraphNode extends FileNode {
+  x: number;
+  y: number;
+  inDegree: number;
+  outDegree: number;
+  context: ProjectGraphContextState;
+  contextItem: ContextRetrievalItem | null;
+  // Nothing references the file and it is not an entry page or metadata.
+  orphan: boolean;
+  brokenReferences: ProjectReference[];
+  page: PageNode | null;
+}
+
+export interface ProjectGraphView {
+  nodes: ProjectGraphNode[];
+  edges: DependencyEdge[];
+  pages: PageNode[];
+  width: number;
+  height: number;
+}
+
+type ProjectGraphInputFile = {
+  path?: string;
+  name?: string;
+  content?: string;
+};
+
+const LAYOUT_SIZE = 1000;
+const LAYOUT_ITERATIONS = 180;
+const LAYOUT_GRAVITY = 0.3;
+const LAYOUT_MARGIN = 60;
+
+const isEntryPage = (path: string) => /(^|\/)index\.html?$/i.test(path) && path.split('/').length <= 2;
+
+const pageRoute = (path: string) => {
+  const clean = path.replace(/^frontend\//, '').replace(/(^|\/)index\.html?$/i, '$1');
+  return `/${clean.replace(/\.html?$/i, '')}`.replace(/\/+$/, '') || '/';
+};
+
+const pageTitle = (content: string) => {
+  const match = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(content);
+  return match ? match[1].replace(/\s+/g, ' ').trim() || undefined : undefined;
+};
+
+// Deterministic force layout: nodes start on a circle grouped by folder, repel each other and are pulled
+// together along edges. Small projects settle well within the fixed iteration budget.
+const layoutNodes = (paths: string[], edges: DependencyEdge[]) => {
+  const count = paths.length;
+  const center = LAYOUT_SIZE / 2;
+  const ordered = [...paths].sort();
+  const position = new Map<string, { x: number; y: number }>();
+  ordered.forEach((path, index) => {
+    const angle = (2 * Math.PI * index) / Math.max(1, count);
+    const radius = count <= 1 ? 0 : LAYOUT_SIZE * 0.35;
+    position.set(path, { x: center + radius * Math.cos(angle), y: center + radius * Math.sin(angle) });
+  });
+  if (count <= 1) return position;
+
+  const ideal = Math.max(60, Math.min(180, (LAYOUT_SIZE * 0.8) / Math.sqrt(count)));
+  const links = edges.filter((edge) => edge.from !== edge.to && position.has(edge.from) && position.has(edge.to));
+  for (let step = 0; step < LAYOUT_ITERATIONS; step++) {
+    const temperature = (1 - step / LAYOUT_ITERATIONS) * ideal * 0.5;
+    const shift = new Map(ordered.map((path) => [path, { x: 0, y: 0 }]));
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const a = position.get(ordered[i])!;
+        const b = position.get(ordered[j])!;
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const distance = Math.max(1, Math.hypot(dx, dy));
+        const force = (ideal * ideal) / distance;
+        const fx = (dx / distance) * force;
+        const fy = (dy / distance) * force;
+        shift.get(ordered[i])!.x += fx;
+        shift.get(ordered[i])!.y += fy;
+        shift.get(ordered[j])!.x -= fx;
+        shift.get(ordered[j])!.y -= fy;
+      }
+    }
+    for (const edge of links) {
+      const a = position.get(edge.from)!;
+      const b = position.get(edge.to)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.max(1, Math.hypot(dx, dy));
+      const force = (distance * distance) / ideal;
+      const fx = (dx / distance) * force;
+      const fy = (dy / distance) * force;
+      shift.get(edge.from)!.x -= fx;
+      shift.get(edge.from)!.y -= fy;
+      shift.get(edge.to)!.x += fx;
+      shift.get(edge.to)!.y += fy;
+    }
+    for (const path of ordered) {
+      const point = position.get(path)!;
+      const delta = shift.get(path)!;
+      // Gravity keeps disconnected files from drifting off the canvas.
+      delta.x += (center - point.x) * LAYOUT_GRAVITY;
+      delta.y += (center - point.y) * LAYOUT_GRAVITY;
+      const length = Math.max(1, Math.hypot(delta.x, delta.y));
+      const capped = Math.min(length, temperature);
+      point.x += (delta.x / length) * capped;
+      point.y += (delta.y / length) * capped;
+    }
+  }
+
+  // Fit the settled layout into the canvas, keeping its aspect ratio.
+  const points = Array.from(position.values());
+  const minX = Math.min(...points.map((point) => point.x));
+  const maxX = Math.max(...points.map((point) => point.x));
+  const minY = Math.min(...points.map((point) => point.y));
+  const maxY = Math.max(...points.map((point) => point.y));
+  const scale = (LAYOUT_SIZE - 2 * LAYOUT_MARGIN) / Math.max(1, maxX - minX, maxY - minY);
+  for (const point of points) {
+    point.x = LAYOUT_MARGIN + (point.x - minX) * scale;
+    point.y = LAYOUT_MARGIN + (point.y - minY) * scale;
+  }
+  return position;
+};
+
+export const buildProjectGraphView = (
+  files: ProjectGraphInputFile[],
+  trace: ContextRetrievalTrace | null
+): ProjectGraphView => {
+  const fileNodes = toFileNodes(files);
+  const contentByPath = new Map(
+    files.map((file) => [String(file.path || file.name || '').replace(/\\/g, '/').replace(/^\.?\//, ''), String(file.content || '')] as const)
+  );
+  const { edges, broken } = buildReferenceGraph(files);
+  const known = new Set(fileNodes.map((node) => node.path));
+  const graphEdges = edges.filter((edge) => known.has(edge.from) && known.has(edge.to));
+
+  const inDegree = new Map<string, number>();
+  const outDegree = new Map<string, number>();
+  for (const edge of graphEdges) {
+    outDegree.set(edge.from, (outDegree.get(edge.from) || 0) + 1);
+    inDegree.set(edge.to, (inDegree.get(edge.to) || 0) + 1);
+  }
+
+  const pages: PageNode[] = fileNodes
+    .filter((node) => node.tags.includes('page'))
+    .map((node) => ({
+      route: pageRoute(node.path),
+      filePath: node.path,
+      title: pageTitle(contentByPath.get(node.path) || ''),
+      linksTo: Array.from(new Set(graphEdges.filter((edge) => edge.from === node.path && edge.type === 'route').map((edge) => edge.to)))
+    }));
+  const pageByPath = new Map(pages.map((page) => [page.filePath, page]));
+
+  const selected = new Map((trace?.selected || []).map((item) => [item.path, item]));
+  const dropped = new Map((trace?.dropped || []).map((item) => [item.path, item]));
+  const positions = layoutNodes(
+    fileNodes.map((node) => node.path),
+    graphEdges
+  );
+
+  const nodes = fileNodes.map((node): ProjectGraphNode => {
+    const point = positions.get(node.path) || { x: LAYOUT_SIZE / 2, y: LAYOUT_SIZE / 2 };
+    const contextItem = selected.get(node.path) || dropped.get(node.path) || null;
+    return {
+      ...node,
+      x: point.x,
+      y: point.y,
+      inDegree: inDegree.get(node.path) || 0,
+      outDegree: outDegree.get(node.path) || 0,
+      context: selected.has(node.path) ? 'selected' : dropped.has(node.path) ? 'dropped' : null,
+      contextItem,
+      orphan: !inDegree.get(node.path) && !isEntryPage(node.path) && !node.tags.includes('meta'),
+      brokenReferences: broken.filter((item) => item.from === node.path),
+      page: pageByPath.get(node.path) || null
+    };
+  });
+
+  return { nodes, edges: graphEdges, pages, width: LAYOUT_SIZE, height: LAYOUT_SIZE };
+};
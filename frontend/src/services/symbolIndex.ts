@@ -0,0 +1,338 @@
+import {
+  isJsNode,
+  parseCssRules,
+  parseHtmlDocument,
+  parseScriptAst,
+  walkCss,
+  walkHtml,
+  walkJs,
+  type JsNode
+} from '@/utils/sourceStructure';
+
+/**
+ * In-browser retrieval index: symbols (JS functions and classes, CSS selectors and custom properties, HTML ids
+ * and classes) plus content chunks ranked with BM25, so a prompt like "the pricing card hover" can pull in the
+ * rules and markup that define it.
+ */
+
+export type CodeSymbolKind = 'function' | 'class' | 'css-selector' | 'css-variable' | 'html-id' | 'html-class';
+
+export interface CodeSymbol {
+  name: string;
+  kind: CodeSymbolKind;
+  path: string;
+  line: number;
+}
+
+export interface IndexedChunk {
+  path: string;
+  startLine: number;
+  endLine: number;
+  text: string;
+  symbols: CodeSymbol[];
+  termFrequency: Map<string, number>;
+  length: number;
+}
+
+export interface SymbolIndex {
+  chunks: IndexedChunk[];
+  symbols: CodeSymbol[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+export interface SymbolSearchHit {
+  chunk: IndexedChunk;
+  score: number;
+  matchedTerms: string[];
+  matchedSymbols: CodeSymbol[];
+}
+
+export interface FileRelevance {
+  path: string;
+  // BM25 of the best chunk plus a damped share of the file's other matching chunks.
+  score: number;
+  reasons: string[];
+  bestHit: SymbolSearchHit;
+}
+
+type SymbolIndexInputFile = {
+  path?: string;
+  name?: string;
+  content?: string;
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Symbol names count this many extra times in their chunk, so defining a name outranks mentioning it.
+const SYMBOL_TERM_BOOST = 2;
+const MAX_CHUNK_LINES = 40;
+const HTML_WINDOW_LINES = 24;
+const MAX_INDEXED_CHARS = 200_000;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'have', 'in', 'into', 'is', 'it',
+  'its', 'make', 'me', 'my', 'of', 'on', 'or', 'our', 'please', 'so', 'that', 'the', 'their', 'them', 'then',
+  'there', 'this', 'to', 'use', 'want', 'was', 'we', 'when', 'with', 'you', 'your', 'var', 'let', 'const',
+  'return', 'function', 'px', 'rem', 'em', 'div', 'span'
+]);
+
+const normalizePath = (value: string) =>
+  String(value || '')
+    .replace(/\\/g, '/')
+    .replace(/^\.\//, '')
+    .replace(/^\/+/, '')
+    .trim();
+
+const getExtension = (path: string) => {
+  const name = path.split('/').pop() || path;
+  const idx = name.lastIndexOf('.');
+  return idx === -1 ? '' : name.slice(idx + 1).toLowerCase();
+};
+
+const stemTerm = (term: string) => {
+  if (term.length > 4 && term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  return term;
+};
+
+/** Splits camelCase, kebab-case and snake_case identifiers into lowercase, lightly stemmed terms. */
+export const tokenizeForSearch = (value: string) =>
+  String(value || '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9\u0600-\u06ff]+/)
+    .filter((term) => term.length >= 2 && !STOP_WORDS.has(term) && !/^\d+$/.test(term))
+    .map(stemTerm);
+
+const jsSymbolName = (node: JsNode): { name: string; kind: CodeSymbolKind } | null => {
+  const nameOf = (value: unknown) => (isJsNode(value) && value.type === 'Identifier' ? String(value.name || '') : '');
+  if (node.type === 'FunctionDeclaration') return { name: nameOf(node.id), kind: 'function' };
+  if (node.type === 'ClassDeclaration' || node.type === 'ClassExpression') return { name: nameOf(node.id), kind: 'class' };
+  if (node.type === 'VariableDeclarator' && isJsNode(node.init)) {
+    if (node.init.type === 'ArrowFunctionExpression' || node.init.type === 'FunctionExpression') {
+      return { name: nameOf(node.id), kind: 'function' };
+    }
+    if (node.init.type === 'ClassExpression') return { name: nameOf(node.id), kind: 'class' };
+  }
+  if ((node.type === 'MethodDefinition' || node.type === 'Property') && isJsNode(node.value)) {
+    const isFunction = node.value.type === 'FunctionExpression' || node.value.type === 'ArrowFunctionExpression';
+    if (isFunction) return { name: nameOf(node.key), kind: 'function' };
+  }
+  return null;
+};
+
+// Regex fallback for scripts acorn cannot parse (TypeScript, JSX, half-written code).
+const JS_SYMBOL_PATTERNS: Array<{ re: RegExp; kind: CodeSymbolKind }> = [
+  { re: /\bfunction\s*\*?\s*([A-Za-z_$][\w$]*)\s*\(/g, kind: 'function' },
+  { re: /\bclass\s+([A-Za-z_$][\w$]*)/g, kind: 'class' },
+  { re: /\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s*)?(?:\([^)]*\)|[A-Za-z_$][\w$]*)\s*(?::[^=]+)?=>/g, kind: 'function' }
+];
+
+const extractJsSymbols = (path: string, content: string): CodeSymbol[] => {
+  const symbols: CodeSymbol[] = [];
+  const ast = parseScriptAst(content);
+  if (ast) {
+    walkJs(ast, (node) => {
+      const found = jsSymbolName(node);
+      if (found?.name) symbols.push({ ...found, path, line: node.loc?.start.line || 1 });
+    });
+    return symbols;
+  }
+  const lines = content.split('\n');
+  lines.forEach((line, index) => {
+    for (const { re, kind } of JS_SYMBOL_PATTERNS) {
+      re.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = re.exec(line)) !== null) symbols.push({ name: match[1], kind, path, line: index + 1 });
+    }
+  });
+  return symbols;
+};
+
+const extractCssSymbols = (path: string, content: string): CodeSymbol[] => {
+  const symbols: CodeSymbol[] = [];
+  walkCss(parseCssRules(content), (node) => {
+    if (node.kind === 'rule') {
+      for (const selector of node.prelude.split(',')) {
+        const name = selector.trim().replace(/\s+/g, ' ');
+        if (name) symbols.push({ name, kind: 'css-selector', path, line: node.line });
+      }
+    }
+    for (const declaration of node.declarations) {
+      if (declaration.property.startsWith('--')) {
+        symbols.push({ name: declaration.property, kind: 'css-variable', path, line: declaration.line });
+      }
+    }
+  });
+  return symbols;
+};
+
+const extractHtmlSymbols = (path: string, content: string): CodeSymbol[] => {
+  const symbols: CodeSymbol[] = [];
+  const root = parseHtmlDocument(content);
+  walkHtml(root, (node) => {
+    if (node.attrs.id) symbols.push({ name: `#${node.attrs.id}`, kind: 'html-id', path, line: node.line });
+    for (const className of String(node.attrs.class || '').split(/\s+/).filter(Boolean)) {
+      symbols.push({ name: `.${className}`, kind: 'html-class', path, line: node.line });
+    }
+    if (node.tag === 'style' && node.text) {
+      for (const symbol of extractCssSymbols(path, node.text)) symbols.push({ ...symbol, line: symbol.line + node.textLine - 1 });
+    }
+    if (node.tag === 'script' && node.text && !node.attrs.src) {
+      for (const symbol of extractJsSymbols(path, node.text)) symbols.push({ ...symbol, line: symbol.line + node.textLine - 1 });
+    }
+  });
+  return symbols;
+};
+
+export const extractCodeSymbols = (path: string, content: string): CodeSymbol[] => {
+  const ext = getExtension(path);
+  if (['js', 'mjs', 'cjs', 'jsx', 'ts', 'tsx'].includes(ext)) return extractJsSymbols(path, content);
+  if (['css', 'scss', 'sass', 'less'].includes(ext)) return extractCssSymbols(path, content);
+  if (['html', 'htm'].includes(ext)) return extractHtmlSymbols(path, content);
+  return [];
+};
+
+// Code files split at symbol starts so a chunk is roughly one rule or one function; markup is split into windows.
+const chunkBoundaries = (path: string, lineCount: number, symbols: CodeSymbol[]) => {
+  const starts = new Set<number>([1]);
+  if (['html', 'htm'].includes(getExtension(path))) {
+    for (let line = 1; line <= lineCount; line += HTML_WINDOW_LINES) starts.add(line);
+  } else {
+    for (const symbol of symbols) {
+      if (symbol.kind !== 'css-variable') starts.add(symbol.line);
+    }
+  }
+  const sorted = Array.from(starts).filter((line) => line <= lineCount).sort((a, b) => a - b);
+  const ranges: Array<[number, number]> = [];
+  sorted.forEach((start, index) => {
+    const end = (sorted[index + 1] ?? lineCount + 1) - 1;
+    for (let from = start; from <= end; from += MAX_CHUNK_LINES) ranges.push([from, Math.min(end, from + MAX_CHUNK_LINES - 1)]);
+  });
+  return ranges;
+};
+
+type FileIndexEntry = { hash: string; chunks: IndexedChunk[]; symbols: CodeSymbol[] };
+
+const hashContent = (value: string) => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) hash = ((hash << 5) + hash) ^ value.charCodeAt(i);
+  return `${value.length}:${(hash >>> 0).toString(16)}`;
+};
+
+const indexFile = (path: string, content: string): Omit<FileIndexEntry, 'hash'> => {
+  const source = content.slice(0, MAX_INDEXED_CHARS);
+  const lines = source.split('\n');
+  const symbols = extractCodeSymbols(path, source);
+  const pathTerms = tokenizeForSearch(path.replace(/\.[a-z0-9]+$/i, ''));
+
+  const chunks = chunkBoundaries(path, lines.length, symbols)
+    .map(([startLine, endLine]) => {
+      const text = lines.slice(startLine - 1, endLine).join('\n');
+      const chunkSymbols = symbols.filter((symbol) => symbol.line >= startLine && symbol.line <= endLine);
+      const termFrequency = new Map<string, number>();
+      const add = (term: string, weight: number) => termFrequency.set(term, (termFrequency.get(term) || 0) + weight);
+      for (const term of tokenizeForSearch(text)) add(term, 1);
+      for (const symbol of chunkSymbols) for (const term of tokenizeForSearch(symbol.name)) add(term, SYMBOL_TERM_BOOST);
+      for (const term of pathTerms) add(term, 1);
+      const length = Array.from(termFrequency.values()).reduce((sum, count) => sum + count, 0);
+      return { path, startLine, endLine, text, symbols: chunkSymbols, termFrequency, length };
+    })
+    .filter((chunk) => chunk.text.trim().length > 0);
+
+  return { chunks, symbols };
+};
+
+// Per-file entries survive between builds so only edited files are re-parsed.
+const fileIndexCache = new Map<string, FileIndexEntry>();
+
+export const buildSymbolIndex = (files: SymbolIndexInputFile[]): SymbolIndex => {
+  const chunks: IndexedChunk[] = [];
+  const symbols: CodeSymbol[] = [];
+  const seen = new Set<string>();
+
+  for (const file of files) {
+    const path = normalizePath(file.path || file.name || '');
+    if (!path || seen.has(path)) continue;
+    seen.add(path);
+    const content = String(file.content || '');
+    const hash = hashContent(content);
+    let entry = fileIndexCache.get(path);
+    if (!entry || entry.hash !== hash) {
+      entry = { hash, ...indexFile(path, content) };
+      fileIndexCache.set(path, entry);
+    }
+    chunks.push(...entry.chunks);
+    symbols.push(...entry.symbols);
+  }
+  for (const path of Array.from(fileIndexCache.keys())) {
+    if (!seen.has(path)) fileIndexCache.delete(path);
+  }
+
+  const documentFrequency = new Map<string, number>();
+  for (const chunk of chunks) {
+    for (const term of chunk.termFrequency.keys()) documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+  }
+  const averageLength = chunks.length > 0 ? chunks.reduce((sum, chunk) => sum + chunk.length, 0) / chunks.length : 0;
+
+  return { chunks, symbols, documentFrequency, averageLength };
+};
+
+export const searchSymbolIndex = (index: SymbolIndex, query: string, limit = 40): SymbolSearchHit[] => {
+  const terms = Array.from(new Set(tokenizeForSearch(query))).slice(0, 48);
+  if (terms.length === 0 || index.chunks.length === 0) return [];
+  const total = index.chunks.length;
+  const idf = new Map(
+    terms.map((term) => {
+      const df = index.documentFrequency.get(term) || 0;
+      return [term, Math.log(1 + (total - df + 0.5) / (df + 0.5))] as const;
+    })
+  );
+
+  const hits: SymbolSearchHit[] = [];
+  for (const chunk of index.chunks) {
+    let score = 0;
+    const matchedTerms: string[] = [];
+    const lengthNorm = 1 - BM25_B + BM25_B * (chunk.length / (index.averageLength || 1));
+    for (const term of terms) {
+      const tf = chunk.termFrequency.get(term) || 0;
+      if (tf === 0) continue;
+      matchedTerms.push(term);
+      score += (idf.get(term) || 0) * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm));
+    }
+    if (score <= 0) continue;
+    const matchedSymbols = chunk.symbols.filter((symbol) => tokenizeForSearch(symbol.name).some((term) => matchedTerms.includes(term)));
+    hits.push({ chunk, score, matchedTerms, matchedSymbols });
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+/** Ranks files by their matching chunks; `reasons` name the matched lines, terms and symbols. */
+export const rankFilesByRelevance = (files: SymbolIndexInputFile[], query: string, limit = 120): FileRelevance[] => {
+  if (tokenizeForSearch(query).length === 0) return [];
+  const hits = searchSymbolIndex(buildSymbolIndex(files), query, limit);
+  const byPath = new Map<string, SymbolSearchHit[]>();
+  for (const hit of hits) {
+    const list = byPath.get(hit.chunk.path) || [];
+    list.push(hit);
+    byPath.set(hit.chunk.path, list);
+  }
+
+  return Array.from(byPath.entries())
+    .map(([path, fileHits]) => {
+      const [bestHit, ...rest] = fileHits;
+      const score = bestHit.score + 0.25 * rest.reduce((sum, hit) => sum + hit.score, 0);
+      const reasons = fileHits.slice(0, 3).map(
+        (hit) => `lexical-match:L${hit.chunk.startLine}-${hit.chunk.endLine}(${hit.matchedTerms.join(',')})`
+      );
+      const symbols = Array.from(
+        new Map(fileHits.flatMap((hit) => hit.matchedSymbols).map((symbol) => [`${symbol.kind}:${symbol.name}`, symbol])).values()
+      );
+      for (const symbol of symbols.slice(0, 4)) reasons.push(`symbol:${symbol.kind}:${symbol.name}@L${symbol.line}`);
+      return { path, score, reasons, bestHit };
+    })
+    .sort((a, b) => b.score - a.score);
+};
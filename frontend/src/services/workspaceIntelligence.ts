@@ -1,6 +1,6 @@
 import type { ProjectFile } from '@/types';
 import type { InteractionMode } from '@/stores/aiStore';
-import { buildDependencyEdges } from '@/services/contextGraph';
+import { buildReferenceGraph, describeReference, type ReferenceGraph } from '@/services/dependencyGraph';
 import type { GenerationProfile, TouchBudgetMode } from '@/types/constraints';
 import type {
   WorkspaceAllowedCreateRule,
@@ -76,7 +76,7 @@ const extension = (path: string) => {
   return name.slice(idx + 1).toLowerCase();
 };
 
-const isFirstPartyPath = (path: string) => {
+export const isFirstPartyPath = (path: string) => {
   const normalized = normalizePath(path);
   if (!normalized) return false;
   const segments = normalized.split('/').filter(Boolean);
@@ -128,16 +128,9 @@ const resolveMentionToPath = (mention: string, availablePaths: string[]): string
   return null;
 };
 
-const buildDependencyAdjacency = (files: ProjectFile[]) => {
+const buildDependencyAdjacency = (graph: ReferenceGraph) => {
   const adjacency = new Map<string, Set<string>>();
-  const edges = buildDependencyEdges(
-    files.map((file) => ({
-      path: file.path || file.name,
-      content: file.content || ''
-    }))
-  );
-
-  for (const edge of edges) {
+  for (const edge of graph.edges) {
     const from = normalizePath(edge.from);
     const to = normalizePath(edge.to);
     if (!from || !to) continue;
@@ -385,13 +378,9 @@ export const analyzeWorkspaceIntelligence = (
     requiredReadSet.add(allPaths[0]);
   }
 
-  const dependencyAdjacency = buildDependencyAdjacency(
-    firstPartyFiles.map((file) => ({
-      name: basename(file.path),
-      path: file.path,
-      content: file.content
-    }))
-  );
+  const referenceGraph = buildReferenceGraph(firstPartyFiles);
+  const dependencyAdjacency = buildDependencyAdjacency(referenceGraph);
+  const brokenReferences = referenceGraph.broken.map(describeReference);
 
   const expandedSet = new Set<string>([
     ...Array.from(requiredReadSet),
@@ -468,6 +457,7 @@ export const analyzeWorkspaceIntelligence = (
   if (coverageMetrics.dependencyCoverage < 60) riskFlags.push('LOW_DEPENDENCY_COVERAGE');
   if (coverageMetrics.previewSignalCoverage < 80) riskFlags.push('LOW_PREVIEW_SIGNAL_COVERAGE');
   if (estimatedContextChars > maxContextChars) riskFlags.push('CONTEXT_BUDGET_PRESSURE');
+  if (brokenReferences.length > 0) riskFlags.push('BROKEN_REFERENCES');
 
   return {
     manifest,
@@ -477,7 +467,8 @@ export const analyzeWorkspaceIntelligence = (
     allowedCreateRules,
     confidence,
     coverageMetrics,
-    riskFlags
+    riskFlags,
+    brokenReferences
   };
 };
 
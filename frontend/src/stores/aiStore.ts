@@ -2,24 +2,32 @@ import { createWithEqualityFn } from 'zustand/traditional';
 import { createJSONStorage, persist } from 'zustand/middleware';
 import { FileStructure, FileSystem, GenerationStatus, ProjectFile } from '@/types';
 import { useProjectStore } from '@/stores/projectStore';
+import { useProjectMemoryStore } from '@/stores/projectMemoryStore';
 import { aiService } from '@/services/aiService';
 import { repairTruncatedContent } from '@/utils/codeRepair';
+import { applyPatchHunks, describePatchHunkFailure, type PatchHunk } from '@/utils/patchHunks';
 import { normalizePlanCategory } from '@/utils/planCategory';
 import { normalizeWorkspaceDirectoryPath, normalizeWorkspaceFilePath } from '@/utils/workspacePaths';
 import { loadSessionsFromDisk, saveSessionToDisk, type StoredHistorySession } from '@/utils/sessionDb';
-import { buildMemorySnapshot } from '@/services/memoryEngine';
+import { buildMemorySnapshot, extractProjectMemoryCandidates } from '@/services/memoryEngine';
+import { collectDownstreamSteps } from '@/services/planScheduler';
 import { sanitizeOperationPath } from '@/utils/fileOpGuards';
 import { toFrontendCanonicalPath } from '@/services/frontendProjectModeV12';
 import { resolveGenerationProfile } from '@/utils/generationProfile';
-import { isChatAutoSaveEnabled } from '@/utils/appSettings';
+import { isChatAutoSaveEnabled, isLLMConversationSummaryEnabled } from '@/utils/appSettings';
 import type { DestructiveSafetyMode, GenerationProfile, TouchBudgetMode } from '@/types/constraints';
 import type {
   ActiveModelProfile,
   CompressionSnapshot,
   ContextBudgetState,
+  ContextRetrievalTrace,
+  ConversationSummary,
   MemorySnapshot,
+  TokenUsageReport,
+  TokenUsageTotals,
   WorkspaceAnalysisReport
 } from '@/types/context';
+import { EMPTY_TOKEN_USAGE, addTokenUsage, coerceTokenUsageTotals } from '@/utils/tokenUsage';
 
 type ModelMode = 'fast' | 'thinking' | 'super';
 export type FileStreamStatus = 'ready' | 'queued' | 'writing' | 'partial' | 'compromised';
@@ -49,6 +57,13 @@ export type AIFileEvent =
       toPath: string;
       reason?: string;
       safetyCheckPassed?: boolean;
+    }
+  | {
+      type: 'hunks';
+      path: string;
+      hunks: PatchHunk[];
+      reason?: string;
+      errors?: string[];
     };
 
 type FileSystemState = FileSystem | [];
@@ -69,10 +84,15 @@ export interface PlanStep {
   description: string;
   completed: boolean;
   category: 'config' | 'frontend' | 'backend' | 'integration' | 'testing' | 'deployment' | 'tasks';
-  status: 'pending' | 'in_progress' | 'completed' | 'blocked';
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'blocked' | 'skipped';
+  // Failure or blocking reason from the plan scheduler.
+  statusDetail?: string;
+  // User annotation from the plan editor; sent with the step prompt and to the planner on re-plan.
+  notes?: string;
   files: string[];
   estimatedSize: 'small' | 'medium' | 'large';
   depends_on?: string[];
+  usage?: TokenUsageTotals;
 }
 
 export interface HistorySession {
@@ -109,6 +129,7 @@ export interface HistorySession {
   completedFiles?: string[];
   lastSuccessfulFile?: string | null;
   lastSuccessfulLine?: number;
+  usage?: TokenUsageTotals;
 }
 
 interface AISections {
@@ -143,6 +164,10 @@ interface AIStoreState {
   architectMode: boolean;
   multiAgentEnabled: boolean;
   lastPlannedPrompt: string;
+  // Pause after planning so the plan can be edited before it runs.
+  planReviewEnabled: boolean;
+  // Request whose freshly generated plan is waiting in the editor; null when nothing is under review.
+  planReviewPrompt: string | null;
   chatHistory: ChatMessage[];
   decisionTrace: string;
   streamText: string;
@@ -176,8 +201,11 @@ interface AIStoreState {
   memorySnapshot: MemorySnapshot | null;
   brainEvents: BrainEvent[];
   analysisReport: WorkspaceAnalysisReport | null;
+  // Files the most recent request put into (or left out of) the model context.
+  lastRetrievalTrace: ContextRetrievalTrace | null;
   policyViolations: string[];
   blockedReason: string | null;
+  sessionUsage: TokenUsageTotals;
 }
 
 interface AIStoreActions {
@@ -185,6 +213,10 @@ interface AIStoreActions {
   setPlan: (plan: string) => void;
   setPlanSteps: (steps: PlanStep[]) => void;
   setPlanStepCompleted: (id: string, completed: boolean) => void;
+  setPlanStepStatus: (id: string, status: PlanStep['status'], detail?: string) => void;
+  // Returns a failed or blocked step, and the steps it blocked, to pending for the next run.
+  retryPlanStep: (id: string) => void;
+  skipPlanStep: (id: string) => void;
   clearPlanSteps: () => void;
   setProjectType: (type: ProjectType | null) => void;
   setSelectedFeatures: (features: string[]) => void;
@@ -197,7 +229,9 @@ interface AIStoreActions {
   addChatMessage: (message: ChatMessage) => void;
   clearChatHistory: () => void;
   setInteractionMode: (mode: InteractionMode) => void;
-  generatePlan: (prompt?: string, abortSignal?: AbortSignal) => Promise<void>;
+  generatePlan: (prompt?: string, abortSignal?: AbortSignal, options?: { fixedSteps?: PlanStep[] }) => Promise<void>;
+  setPlanReviewEnabled: (enabled: boolean) => void;
+  setPlanReviewPrompt: (prompt: string | null) => void;
   setDecisionTrace: (trace: string) => void;
   appendStreamText: (text: string) => void;
   setStreamText: (text: string) => void;
@@ -238,10 +272,13 @@ interface AIStoreActions {
   addBrainEvent: (event: Omit<BrainEvent, 'id' | 'ts'> & { id?: string; ts?: number }) => void;
   clearBrainEvents: () => void;
   setAnalysisReport: (report: WorkspaceAnalysisReport | null) => void;
+  setLastRetrievalTrace: (trace: ContextRetrievalTrace | null) => void;
   setPolicyViolations: (issues: string[]) => void;
   addPolicyViolation: (issue: string) => void;
   clearPolicyViolations: () => void;
   setBlockedReason: (reason: string | null) => void;
+  recordTokenUsage: (report: TokenUsageReport, stepId?: string | null) => void;
+  summarizeConversation: () => Promise<boolean>;
 }
 
 export type AIState = AIStoreState & AIStoreActions;
@@ -259,6 +296,8 @@ const CONTEXT_CRITICAL_PCT = 90;
 const COMPRESSION_THRESHOLD_CHARS = 100_000;
 const KEEP_RECENT_MESSAGES = 8;
 const SUMMARY_CHUNK_SIZE = 5;
+// Older messages that must pile up beyond the last model summary before it is refreshed.
+const SUMMARY_REFRESH_MESSAGES = 6;
 const MAX_HISTORY_SESSIONS = 120;
 const AI_EMERGENCY_SESSION_KEY = 'apex-ai-emergency-session';
 export const AI_NEW_CHAT_GUARD_KEY = 'apex-ai-new-chat-guard';
@@ -343,7 +382,8 @@ const readEmergencySession = (): Partial<HistorySession> | null => {
           : {},
       completedFiles: Array.isArray(parsed?.completedFiles) ? parsed.completedFiles.map((v: any) => String(v || '')) : [],
       lastSuccessfulFile: parsed?.lastSuccessfulFile ? String(parsed.lastSuccessfulFile) : null,
-      lastSuccessfulLine: Number(parsed?.lastSuccessfulLine || 0)
+      lastSuccessfulLine: Number(parsed?.lastSuccessfulLine || 0),
+      usage: coerceTokenUsageTotals(parsed?.usage)
     };
   } catch {
     return null;
@@ -467,9 +507,23 @@ const createSummaryBlock = (
   };
 };
 
+const createModelSummaryBlock = (
+  summary: ConversationSummary,
+  covered: number,
+  level: number
+): CompressionSnapshot['summaryBlocks'][number] => ({
+  id: `l${level}-llm-0-${covered - 1}-${summary.generatedAt}`,
+  range: `0-${covered - 1}`,
+  summary: summary.summary.slice(0, 900),
+  keyFiles: summary.fileResponsibilities.map((item) => item.path).slice(0, 8),
+  keyDecisions: summary.decisions.map((item) => item.summary.slice(0, 160)).slice(0, 6)
+});
+
+// A model summary, when present, stands in for the keyword blocks of the messages it covers.
 const compressChatHistoryHierarchical = (
   history: ChatMessage[],
-  previousSnapshot?: CompressionSnapshot
+  previousSnapshot?: CompressionSnapshot,
+  conversationSummary?: ConversationSummary | null
 ): { chatHistory: ChatMessage[]; snapshot: CompressionSnapshot } => {
   if (history.length === 0) {
     return { chatHistory: [], snapshot: previousSnapshot || DEFAULT_COMPRESSION_SNAPSHOT };
@@ -489,8 +543,12 @@ const compressChatHistoryHierarchical = (
 
   const level = Math.min((previousSnapshot?.level || 0) + 1, 3);
   const summaryBlocks: CompressionSnapshot['summaryBlocks'] = [];
+  const covered = conversationSummary ? Math.min(conversationSummary.coveredMessages, olderMessages.length) : 0;
+  if (conversationSummary && covered > 0) {
+    summaryBlocks.push(createModelSummaryBlock(conversationSummary, covered, level));
+  }
 
-  for (let i = 0; i < olderMessages.length; i += SUMMARY_CHUNK_SIZE) {
+  for (let i = covered; i < olderMessages.length; i += SUMMARY_CHUNK_SIZE) {
     const chunk = olderMessages.slice(i, i + SUMMARY_CHUNK_SIZE);
     summaryBlocks.push(createSummaryBlock(chunk, i, i + chunk.length - 1, level));
   }
@@ -770,6 +828,8 @@ const buildInitialState = (): AIStoreState => ({
   architectMode: true,
   multiAgentEnabled: false,
   lastPlannedPrompt: '',
+  planReviewEnabled: true,
+  planReviewPrompt: null,
   chatHistory: [],
   decisionTrace: '',
   streamText: '',
@@ -804,8 +864,10 @@ const buildInitialState = (): AIStoreState => ({
   memorySnapshot: null,
   brainEvents: [],
   analysisReport: null,
+  lastRetrievalTrace: null,
   policyViolations: [],
-  blockedReason: null
+  blockedReason: null,
+  sessionUsage: EMPTY_TOKEN_USAGE
 });
 
 const buildSessionSaveSignature = (args: {
@@ -819,6 +881,7 @@ const buildSessionSaveSignature = (args: {
   planSteps: PlanStep[];
   executionPhase: ExecutionPhase;
   writingFilePath: string | null;
+  usage: TokenUsageTotals;
 }) => {
   const fileCount = Array.isArray(args.files) ? args.files.length : 0;
   const fileSize = (args.files || []).reduce((acc, file) => acc + Number(String(file?.content || '').length), 0);
@@ -835,7 +898,8 @@ const buildSessionSaveSignature = (args: {
     `chat:${chatCount}:${lastMessageKey}`,
     `plan:${String(args.plan || '').slice(0, 160)}:${planCount}`,
     `phase:${String(args.executionPhase || 'idle')}`,
-    `writing:${String(args.writingFilePath || '')}`
+    `writing:${String(args.writingFilePath || '')}`,
+    `usage:${args.usage.requests}:${args.usage.totalTokens}`
   ].join('|');
 };
 
@@ -845,6 +909,8 @@ export const useAIStore = createWithEqualityFn<AIState>()(
   persist(
     (set, get) => {
       let sessionSaveTimer: number | null = null;
+      let conversationSummaryInFlight = false;
+      let conversationSummaryRetryAt = 0;
 
       const scheduleSessionSave = (delay = 900) => {
         if (typeof window === 'undefined') return;
@@ -857,6 +923,11 @@ export const useAIStore = createWithEqualityFn<AIState>()(
         }, delay);
       };
 
+      const maybeSummarizeConversation = () => {
+        if (get().contextBudget.status === 'ok') return;
+        void get().summarizeConversation();
+      };
+
       return {
         ...initialState,
 
@@ -881,6 +952,47 @@ export const useAIStore = createWithEqualityFn<AIState>()(
           scheduleSessionSave();
         },
 
+        setPlanStepStatus: (id, status, detail) => {
+          set((state) => ({
+            planSteps: state.planSteps.map((step) =>
+              step.id === id
+                ? { ...step, status, completed: status === 'completed', statusDetail: detail || undefined }
+                : step
+            )
+          }));
+          scheduleSessionSave();
+        },
+
+        retryPlanStep: (id) => {
+          set((state) => {
+            const reset = new Set([id, ...collectDownstreamSteps(state.planSteps, id)]);
+            return {
+              planSteps: state.planSteps.map((step) =>
+                reset.has(step.id) && (step.id === id || step.status === 'blocked')
+                  ? { ...step, status: 'pending', completed: false, statusDetail: undefined }
+                  : step
+              )
+            };
+          });
+          scheduleSessionSave();
+        },
+
+        skipPlanStep: (id) => {
+          set((state) => {
+            const released = new Set(collectDownstreamSteps(state.planSteps, id));
+            return {
+              planSteps: state.planSteps.map((step) => {
+                if (step.id === id) return { ...step, status: 'skipped', completed: false, statusDetail: undefined };
+                if (released.has(step.id) && step.status === 'blocked') {
+                  return { ...step, status: 'pending', statusDetail: undefined };
+                }
+                return step;
+              })
+            };
+          });
+          scheduleSessionSave();
+        },
+
         clearPlanSteps: () => {
           set({ planSteps: [] });
           scheduleSessionSave();
@@ -927,6 +1039,7 @@ export const useAIStore = createWithEqualityFn<AIState>()(
             contextBudget: calculateContextBudget(history, normalizeFileSystem(state.files))
           }));
           scheduleSessionSave();
+          maybeSummarizeConversation();
         },
 
         addChatMessage: (message) => {
@@ -947,6 +1060,7 @@ export const useAIStore = createWithEqualityFn<AIState>()(
             };
           });
           scheduleSessionSave();
+          maybeSummarizeConversation();
         },
 
         clearChatHistory: () => {
@@ -956,7 +1070,8 @@ export const useAIStore = createWithEqualityFn<AIState>()(
 
         setInteractionMode: (mode) => set({ interactionMode: mode }),
 
-      generatePlan: async (promptOverride?: string, abortSignal?: AbortSignal) => {
+      generatePlan: async (promptOverride?: string, abortSignal?: AbortSignal, options?: { fixedSteps?: PlanStep[] }) => {
+        const fixedSteps = options?.fixedSteps || [];
         const prompt = (promptOverride ?? get().prompt ?? '').trim();
         if (!prompt) return;
 
@@ -1021,7 +1136,7 @@ export const useAIStore = createWithEqualityFn<AIState>()(
             generationProfile: (projectSettings.generationProfile || 'auto') as 'auto' | 'static' | 'framework',
             destructiveSafetyMode: (projectSettings.destructiveSafetyMode || 'backup_then_apply') as
               | 'backup_then_apply'
-              | 'manual_confirm'
+              | 'review_changes'
               | 'no_delete_move',
             postProcessMode: 'safety_only' as const,
             minContextConfidence: 80
@@ -1033,7 +1148,17 @@ export const useAIStore = createWithEqualityFn<AIState>()(
             projectType,
             constraints,
             get().architectMode,
-            get().multiAgentEnabled
+            get().multiAgentEnabled,
+            fixedSteps.map((step) => ({
+              id: step.id,
+              title: step.title,
+              category: step.category,
+              files: step.files,
+              description: step.description,
+              notes: step.notes,
+              depends_on: step.depends_on,
+              estimatedSize: step.estimatedSize
+            }))
           );
           const rawSteps: any[] = Array.isArray(data?.steps) ? data.steps : [];
           const normalizedTree = normalizeFileList(data?.fileTree);
@@ -1052,7 +1177,8 @@ export const useAIStore = createWithEqualityFn<AIState>()(
                 normalizeFileList(s?.files)
               ),
               estimatedSize: (s?.estimatedSize || 'medium') as PlanStep['estimatedSize'],
-              depends_on: Array.isArray(s?.depends_on) ? s.depends_on : []
+              depends_on: Array.isArray(s?.depends_on) ? s.depends_on : [],
+              notes: typeof s?.notes === 'string' && s.notes.trim() ? s.notes.trim() : undefined
             }))
             .filter((s) => s.title.length > 0);
 
@@ -1061,6 +1187,7 @@ export const useAIStore = createWithEqualityFn<AIState>()(
           }
 
           set({ planSteps, lastPlannedPrompt: prompt, plan: data?.title || 'Architecture Plan' });
+          if (data?.usage) get().recordTokenUsage(data.usage);
           scheduleSessionSave();
           
           const project = useProjectStore.getState();
@@ -1103,13 +1230,19 @@ export const useAIStore = createWithEqualityFn<AIState>()(
           }
 
           const message = err?.message || 'Failed to generate plan';
-          set({ error: message, plan: '', planSteps: [], lastPlannedPrompt: '' });
+          // A failed re-plan keeps the edited plan it started from.
+          if (fixedSteps.length > 0) set({ error: message });
+          else set({ error: message, plan: '', planSteps: [], lastPlannedPrompt: '' });
           throw (err instanceof Error ? err : new Error(message));
         } finally {
           set({ isPlanning: false });
         }
       },
 
+      setPlanReviewEnabled: (enabled) => set({ planReviewEnabled: Boolean(enabled) }),
+
+      setPlanReviewPrompt: (prompt) => set({ planReviewPrompt: prompt }),
+
       setDecisionTrace: (trace) => set({ decisionTrace: trace }),
 
       appendStreamText: (text) =>
@@ -1151,6 +1284,7 @@ export const useAIStore = createWithEqualityFn<AIState>()(
       clearBrainEvents: () => set({ brainEvents: [] }),
 
       setAnalysisReport: (report) => set({ analysisReport: report }),
+      setLastRetrievalTrace: (trace) => set({ lastRetrievalTrace: trace }),
 
       setPolicyViolations: (issues) => set({ policyViolations: Array.from(new Set((issues || []).map((item) => String(item || '').trim()).filter(Boolean))) }),
 
@@ -1166,6 +1300,86 @@ export const useAIStore = createWithEqualityFn<AIState>()(
 
       setBlockedReason: (reason) => set({ blockedReason: reason ? String(reason) : null }),
 
+      recordTokenUsage: (report, stepId) => {
+        const delta = coerceTokenUsageTotals(report);
+        if (delta.requests === 0 && delta.totalTokens === 0) return;
+        set((state) => ({
+          sessionUsage: addTokenUsage(state.sessionUsage, delta),
+          planSteps: stepId
+            ? state.planSteps.map((step) =>
+                step.id === stepId ? { ...step, usage: addTokenUsage(step.usage, delta) } : step
+              )
+            : state.planSteps
+        }));
+        scheduleSessionSave();
+      },
+
+      // Optional model pass over the older messages once the context budget leaves "ok". When it fails
+      // (offline, provider not configured) the keyword heuristics stay in place and the pass backs off.
+      summarizeConversation: async () => {
+        if (conversationSummaryInFlight || Date.now() < conversationSummaryRetryAt) return false;
+        if (!isLLMConversationSummaryEnabled()) return false;
+        if (typeof navigator !== 'undefined' && navigator.onLine === false) return false;
+
+        const state = get();
+        const history = state.chatHistory;
+        const olderCount = Math.max(0, history.length - KEEP_RECENT_MESSAGES);
+        const previous = state.memorySnapshot?.conversationSummary || null;
+        const from = previous && previous.coveredMessages <= olderCount ? previous.coveredMessages : 0;
+        const pending = history
+          .slice(from, olderCount)
+          .filter((msg) => msg.kind !== 'completion-summary' && msg.content.trim().length > 0)
+          .map((msg) => ({ role: msg.role, content: msg.content }));
+        if (pending.length < SUMMARY_REFRESH_MESSAGES) return false;
+
+        const carried =
+          previous && from > 0
+            ? [
+                {
+                  role: 'system' as const,
+                  content: [
+                    `[PREVIOUS SUMMARY] of the ${from} messages before these:`,
+                    previous.summary,
+                    ...previous.decisions.map((item) => `- decision: ${item.summary}`),
+                    ...previous.fileResponsibilities.map((item) => `- file: ${item.path}: ${item.responsibility}`),
+                    ...previous.openTasks.map((item) => `- open task: ${item.summary}`)
+                  ].join('\n')
+                }
+              ]
+            : [];
+
+        conversationSummaryInFlight = true;
+        try {
+          const result = await aiService.summarizeConversation([...carried, ...pending]);
+          const current = get();
+          if (current.currentSessionId !== state.currentSessionId || current.chatHistory[0] !== history[0]) return false;
+          if (result.usage) current.recordTokenUsage(result.usage);
+          const conversationSummary: ConversationSummary = {
+            generatedAt: Date.now(),
+            coveredMessages: olderCount,
+            summary: result.summary,
+            decisions: result.decisions,
+            fileResponsibilities: result.fileResponsibilities,
+            openTasks: result.openTasks
+          };
+          set((latest) => ({
+            memorySnapshot: buildMemorySnapshot({
+              chatHistory: latest.chatHistory,
+              planSteps: latest.planSteps,
+              conversationSummary
+            })
+          }));
+          scheduleSessionSave();
+          return true;
+        } catch (error) {
+          conversationSummaryRetryAt = Date.now() + 120_000;
+          console.warn('[memory] Conversation summary unavailable, keeping heuristic summaries.', error);
+          return false;
+        } finally {
+          conversationSummaryInFlight = false;
+        }
+      },
+
   verifyIntegrity: () => {
     const { fileStatuses } = get();
     const broken = Object.entries(fileStatuses).filter(
@@ -1283,6 +1497,32 @@ export const useAIStore = createWithEqualityFn<AIState>()(
           return;
         }
 
+        if (type === 'hunks') {
+          // Anchors are checked against the project store; a hunk that does not apply leaves the file untouched.
+          const project = useProjectStore.getState();
+          const existing = project.files.find((file) => (file.path || file.name) === path);
+          const result =
+            existing && !(event.errors && event.errors.length > 0)
+              ? applyPatchHunks(String(existing.content || ''), event.hunks)
+              : null;
+          if (!result || !result.ok) {
+            const reasons = !existing
+              ? ['target file does not exist']
+              : result && !result.ok
+                ? result.failures.map(describePatchHunkFailure)
+                : event.errors || [];
+            console.warn(`[Patch] Rejected hunks for ${path}: ${reasons.join('; ')}`);
+            get().setFileStatus(path, 'ready');
+            return;
+          }
+          project.updateFile(path, result.content);
+          get().upsertFileNode(path, result.content);
+          get().setFileStatus(path, 'ready');
+          get().addCompletedFile(path);
+          scheduleSessionSave(350);
+          return;
+        }
+
         const chunk = event.type === 'chunk' ? event.chunk : undefined;
         const partial = event.type === 'end' ? event.partial : undefined;
         const mode = event.type === 'start' ? event.mode : undefined;
@@ -1421,11 +1661,17 @@ export const useAIStore = createWithEqualityFn<AIState>()(
         
         const contextBudget = calculateContextBudget(state.chatHistory, snapshotFiles);
         const contextSize = contextBudget.usedChars;
-        const compressed = compressChatHistoryHierarchical(state.chatHistory, state.compressionSnapshot);
+        const conversationSummary = state.memorySnapshot?.conversationSummary || null;
+        const compressed = compressChatHistoryHierarchical(state.chatHistory, state.compressionSnapshot, conversationSummary);
         const memorySnapshot = buildMemorySnapshot({
           chatHistory: state.chatHistory,
-          planSteps: state.planSteps
+          planSteps: state.planSteps,
+          conversationSummary
         });
+        void useProjectMemoryStore
+          .getState()
+          .captureFacts(projectStore.projectId, extractProjectMemoryCandidates({ chatHistory: state.chatHistory, snapshot: memorySnapshot }))
+          .catch(() => undefined);
         const activeModelProfile = getActiveModelProfile();
         const fullChatHistory = state.chatHistory.map((message) => ({ ...message }));
         
@@ -1440,7 +1686,8 @@ export const useAIStore = createWithEqualityFn<AIState>()(
           plan: state.plan,
           planSteps: state.planSteps,
           executionPhase: state.executionPhase,
-          writingFilePath: state.writingFilePath
+          writingFilePath: state.writingFilePath,
+          usage: state.sessionUsage
         });
         const previousSignature = lastSessionSaveSignatureById.get(sessionId);
         if (previousSignature === saveSignature) return;
@@ -1480,7 +1727,8 @@ export const useAIStore = createWithEqualityFn<AIState>()(
           fileStatuses: { ...state.fileStatuses },
           completedFiles: [...state.completedFiles],
           lastSuccessfulFile: state.lastSuccessfulFile,
-          lastSuccessfulLine: state.lastSuccessfulLine
+          lastSuccessfulLine: state.lastSuccessfulLine,
+          usage: { ...state.sessionUsage }
         };
 
         // Always move latest snapshot to the top so history ordering stays consistent.
@@ -1515,7 +1763,8 @@ export const useAIStore = createWithEqualityFn<AIState>()(
               name: f.name,
               path: f.path,
               content: f.content,
-              language: f.language
+              language: f.language,
+              ...(f.blob ? { blob: f.blob } : {})
             })),
             chatHistory: snapshot.chatHistory.map((m) => ({ role: m.role, content: m.content })),
             plan: snapshot.plan,
@@ -1525,10 +1774,13 @@ export const useAIStore = createWithEqualityFn<AIState>()(
               completed: s.completed,
               category: s.category as any,
               status: s.status,
+              statusDetail: s.statusDetail,
+              notes: s.notes,
               files: s.files,
               description: s.description,
               estimatedSize: s.estimatedSize,
-              depends_on: s.depends_on
+              depends_on: s.depends_on,
+              usage: s.usage
             })),
             contextSize: snapshot.contextSize,
             contextBudget: snapshot.contextBudget,
@@ -1543,7 +1795,8 @@ export const useAIStore = createWithEqualityFn<AIState>()(
             fileStatuses: snapshot.fileStatuses || {},
             completedFiles: Array.isArray(snapshot.completedFiles) ? snapshot.completedFiles : [],
             lastSuccessfulFile: snapshot.lastSuccessfulFile || null,
-            lastSuccessfulLine: Number(snapshot.lastSuccessfulLine || 0)
+            lastSuccessfulLine: Number(snapshot.lastSuccessfulLine || 0),
+            usage: snapshot.usage
           };
           void saveSessionToDisk(stored).catch(() => undefined);
 
@@ -1577,7 +1830,8 @@ export const useAIStore = createWithEqualityFn<AIState>()(
               fileStatuses: snapshot.fileStatuses || {},
               completedFiles: snapshot.completedFiles || [],
               lastSuccessfulFile: snapshot.lastSuccessfulFile || null,
-              lastSuccessfulLine: Number(snapshot.lastSuccessfulLine || 0)
+              lastSuccessfulLine: Number(snapshot.lastSuccessfulLine || 0),
+              usage: snapshot.usage
             };
             window.localStorage.setItem(AI_EMERGENCY_SESSION_KEY, JSON.stringify(emergencyPayload));
           }
@@ -1637,7 +1891,8 @@ export const useAIStore = createWithEqualityFn<AIState>()(
                   : {},
               completedFiles: Array.isArray(emergency.completedFiles) ? emergency.completedFiles : [],
               lastSuccessfulFile: emergency.lastSuccessfulFile || null,
-              lastSuccessfulLine: Number(emergency.lastSuccessfulLine || 0)
+              lastSuccessfulLine: Number(emergency.lastSuccessfulLine || 0),
+              usage: coerceTokenUsageTotals(emergency.usage)
             };
             set((prev) => ({
               history: [recovered, ...prev.history].slice(0, MAX_HISTORY_SESSIONS),
@@ -1672,9 +1927,12 @@ export const useAIStore = createWithEqualityFn<AIState>()(
                   completed: Boolean(p.completed),
                   category: normalizePlanCategory(p.category, p.title, Array.isArray(p.files) ? p.files : []),
                   status: (p.status || 'pending') as PlanStep['status'],
+                  statusDetail: p.statusDetail,
+                  notes: p.notes,
                   files: Array.isArray(p.files) ? p.files : [],
                   estimatedSize: (p.estimatedSize || 'medium') as PlanStep['estimatedSize'],
-                  depends_on: Array.isArray(p.depends_on) ? p.depends_on : []
+                  depends_on: Array.isArray(p.depends_on) ? p.depends_on : [],
+                  usage: p.usage ? coerceTokenUsageTotals(p.usage) : undefined
                 }))
               : [],
             contextSize: Number(s.contextSize || 0),
@@ -1694,7 +1952,8 @@ export const useAIStore = createWithEqualityFn<AIState>()(
                 : {},
             completedFiles: Array.isArray(s.completedFiles) ? s.completedFiles : [],
             lastSuccessfulFile: s.lastSuccessfulFile || null,
-            lastSuccessfulLine: Number(s.lastSuccessfulLine || 0)
+            lastSuccessfulLine: Number(s.lastSuccessfulLine || 0),
+            usage: coerceTokenUsageTotals(s.usage)
           }));
 
           set((prev) => ({
@@ -1763,6 +2022,7 @@ export const useAIStore = createWithEqualityFn<AIState>()(
           planSteps: session.planSteps.map((step) => ({ ...step })),
           prompt: '',
           lastPlannedPrompt: '',
+          planReviewPrompt: null,
           decisionTrace: '',
           streamText: '',
           thinkingContent: '',
@@ -1792,8 +2052,10 @@ export const useAIStore = createWithEqualityFn<AIState>()(
           memorySnapshot: session.memorySnapshot || null,
           brainEvents: [],
           analysisReport: null,
+          lastRetrievalTrace: null,
           policyViolations: [],
-          blockedReason: null
+          blockedReason: null,
+          sessionUsage: coerceTokenUsageTotals(session.usage)
         });
       },
 
@@ -1813,6 +2075,7 @@ export const useAIStore = createWithEqualityFn<AIState>()(
           plan: '',
           planSteps: [],
           lastPlannedPrompt: '',
+          planReviewPrompt: null,
           prompt: '',
           decisionTrace: '',
           streamText: '',
@@ -1841,12 +2104,13 @@ export const useAIStore = createWithEqualityFn<AIState>()(
           memorySnapshot: null,
           brainEvents: [],
           analysisReport: null,
+          lastRetrievalTrace: null,
           policyViolations: [],
-          blockedReason: null
+          blockedReason: null,
+          sessionUsage: EMPTY_TOKEN_USAGE
          });
 
-         // Clear persisted workspace before reload so "New Chat" doesn't restore old files.
-         void useProjectStore.getState().clearDisk();
+         // The current project stays on disk; flushing first keeps its last edits out of the fresh workspace.
          try {
            void (window as any).__APEX_WORKSPACE_PERSIST__?.flush?.();
            window.localStorage.removeItem(AI_EMERGENCY_SESSION_KEY);
@@ -1902,7 +2166,10 @@ export const useAIStore = createWithEqualityFn<AIState>()(
         prompt: state.prompt,
         plan: state.plan,
         planSteps: state.planSteps,
+        sessionUsage: state.sessionUsage,
         lastPlannedPrompt: state.lastPlannedPrompt,
+        planReviewEnabled: state.planReviewEnabled,
+        planReviewPrompt: state.planReviewPrompt,
         projectType: state.projectType,
         selectedFeatures: state.selectedFeatures,
         customFeatureTags: state.customFeatureTags,
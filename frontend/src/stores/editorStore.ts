@@ -1,23 +1,30 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
+import type { ProjectFile } from '@/types';
+import { useProjectStore } from '@/stores/projectStore';
+import { useAIStore } from '@/stores/aiStore';
+import { useJournalStore } from '@/stores/journalStore';
 
 // Enhanced Editor Store with AI Integration
-interface EditorFile {
+// Tabs are keyed by workspace path; file contents live in the project store.
+export interface EditorTab {
   id: string;
   name: string;
   path: string;
-  content: string;
   language: string;
-  isOpen: boolean;
+  pinned: boolean;
   isModified: boolean;
-  version: number;
-  lastModified: Date;
-  aiSuggestions?: string[];
-  analysis?: {
-    complexity: number;
-    issues: number;
-    suggestions: string[];
-  };
+  // Content when the tab was opened, last saved with Ctrl+S or last written by the AI.
+  savedContent: string;
+}
+
+export type EditorPane = 'primary' | 'secondary';
+
+// The AI started writing a file while the user had unsaved edits in its tab.
+export interface EditorConflict {
+  path: string;
+  mine: string;
+  detectedAt: number;
 }
 
 interface EditorTheme {
@@ -70,10 +77,13 @@ interface AIAssistantState {
 }
 
 interface EditorState {
-  // Files and tabs
-  files: EditorFile[];
-  openFiles: EditorFile[];
+  // Tabs and split panes
+  openFiles: EditorTab[];
   activeFileId: string | null;
+  isSplit: boolean;
+  focusedPane: EditorPane;
+  paneFileIds: Record<EditorPane, string | null>;
+  conflicts: Record<string, EditorConflict>;
   
   // Editor settings
   settings: EditorSettings;
@@ -91,19 +101,30 @@ interface EditorState {
   showAIAssistant: boolean;
   showCommandPalette: boolean;
   showProblems: boolean;
+  // Set by workspace search; the code editor moves its cursor there once the file is active.
+  revealTarget: { path: string; line: number; column: number; seq: number } | null;
   
   // History and navigation
   history: Array<{ fileId: string; position: number; timestamp: Date }>;
   currentHistoryIndex: number;
   
   // Actions
-  // File management
+  // Tabs
   openFile: (fileId: string) => void;
   closeFile: (fileId: string) => void;
-  updateFile: (fileId: string, content: string) => void;
+  closeOthers: (fileId: string) => void;
+  togglePin: (fileId: string) => void;
+  noteUserEdit: (fileId: string, content: string) => void;
+  markSaved: (fileId: string, content?: string) => void;
   saveFile: (fileId: string) => Promise<void>;
-  createFile: (path: string, content?: string) => void;
-  deleteFile: (fileId: string) => void;
+  resolveConflict: (fileId: string, keep: 'theirs' | 'mine') => void;
+  // Drops a conflict once the file holds `mine` again by other means; the tab keeps its unsaved state.
+  clearConflict: (fileId: string) => void;
+
+  // Split view
+  toggleSplit: () => void;
+  openToSide: (fileId: string) => void;
+  focusPane: (pane: EditorPane) => void;
   
   // Settings
   updateSettings: (settings: Partial<EditorSettings>) => void;
@@ -120,12 +141,15 @@ interface EditorState {
   setSidebarWidth: (width: number) => void;
   toggleExplorer: () => void;
   toggleSearch: () => void;
+  setShowSearch: (show: boolean) => void;
+  revealInEditor: (path: string, line: number, column?: number) => void;
   toggleProblems: () => void;
   
   // Navigation
   goBack: () => void;
   goForward: () => void;
   addToHistory: (fileId: string, position: number) => void;
+  notePosition: (fileId: string, position: number) => void;
   
   // Bulk operations
   saveAll: () => Promise<void>;
@@ -136,9 +160,12 @@ interface EditorState {
 export const useEditorStore = create<EditorState>()(
   subscribeWithSelector((set, get) => ({
     // Initial state
-    files: [],
     openFiles: [],
     activeFileId: null,
+    isSplit: false,
+    focusedPane: 'primary',
+    paneFileIds: { primary: null, secondary: null },
+    conflicts: {},
     
     settings: {
       fontSize: 14,
@@ -227,152 +254,143 @@ export const useEditorStore = create<EditorState>()(
     showAIAssistant: false,
     showCommandPalette: false,
     showProblems: false,
+    revealTarget: null,
     
     history: [],
     currentHistoryIndex: -1,
     
-    // File management actions
+    // Tab actions
     openFile: (fileId: string) => {
-      const { files, openFiles } = get();
-      const file = files.find(f => f.id === fileId);
-      
-      if (!file) return;
-      
-      // Add to open files if not already there
-      if (!openFiles.find(f => f.id === fileId)) {
-        set({ openFiles: [...openFiles, { ...file, isOpen: true }] });
+      if (projectContent(fileId) === null) return;
+      if (useProjectStore.getState().activeFile === fileId) {
+        trackActiveFile(fileId);
+        return;
       }
-      
-      set({ activeFileId: fileId });
-      
-      // Add to history
-      get().addToHistory(fileId, 0);
+      // The project store subscription below opens the tab and records history.
+      useProjectStore.getState().setActiveFile(fileId);
     },
-    
+
     closeFile: (fileId: string) => {
-      const { openFiles, activeFileId } = get();
+      const { openFiles, paneFileIds } = get();
+      const index = openFiles.findIndex(f => f.id === fileId);
+      if (index === -1) return;
       const newOpenFiles = openFiles.filter(f => f.id !== fileId);
-      
-      // If closing the active file, activate another
-      let newActiveFileId = activeFileId;
-      if (activeFileId === fileId) {
-        const index = openFiles.findIndex(f => f.id === fileId);
-        if (newOpenFiles.length > 0) {
-          newActiveFileId = index > 0 ? newOpenFiles[index - 1].id : newOpenFiles[0].id;
-        } else {
-          newActiveFileId = null;
+      const neighbour = newOpenFiles[Math.max(0, index - 1)]?.id || null;
+      const conflicts = omitConflict(get().conflicts, fileId);
+
+      set({
+        openFiles: newOpenFiles,
+        conflicts,
+        paneFileIds: {
+          primary: paneFileIds.primary === fileId ? neighbour : paneFileIds.primary,
+          secondary: paneFileIds.secondary === fileId ? neighbour : paneFileIds.secondary
         }
-      }
-      
-      set({ 
-        openFiles: newOpenFiles, 
-        activeFileId: newActiveFileId 
       });
+
+      // If closing the active file, activate a neighbour
+      if (useProjectStore.getState().activeFile === fileId) {
+        useProjectStore.getState().setActiveFile(neighbour || '');
+      }
     },
-    
-    updateFile: (fileId: string, content: string) => {
-      const { files, openFiles } = get();
-      const now = new Date();
-      
-      // Update in files array
-      const updatedFiles = files.map(file => 
-        file.id === fileId 
-          ? { 
-              ...file, 
-              content, 
-              isModified: true, 
-              lastModified: now,
-              version: file.version + 1
-            }
-          : file
-      );
-      
-      // Update in open files
-      const updatedOpenFiles = openFiles.map(file => 
-        file.id === fileId 
-          ? { 
-              ...file, 
-              content, 
-              isModified: true, 
-              lastModified: now,
-              version: file.version + 1
-            }
-          : file
-      );
-      
-      set({ 
-        files: updatedFiles, 
-        openFiles: updatedOpenFiles 
+
+    closeOthers: (fileId: string) => {
+      const { openFiles, conflicts } = get();
+      const kept = openFiles.filter(f => f.id === fileId || f.pinned);
+      const keptIds = new Set(kept.map(f => f.id));
+      set({
+        openFiles: kept,
+        conflicts: Object.fromEntries(Object.entries(conflicts).filter(([path]) => keptIds.has(path))),
+        isSplit: false,
+        focusedPane: 'primary',
+        paneFileIds: { primary: fileId, secondary: null }
       });
-      
-      // Trigger AI analysis if enabled
-      const { aiAssistant } = get();
-      if (aiAssistant.isEnabled && !aiAssistant.isAnalyzing) {
-        // Debounce AI analysis
-        setTimeout(() => get().runAIAnalysis(), 1000);
-      }
+      get().openFile(fileId);
     },
-    
+
+    togglePin: (fileId: string) => {
+      const toggled = get().openFiles.map(f => (f.id === fileId ? { ...f, pinned: !f.pinned } : f));
+      // Pinned tabs stay at the front, in the order they were pinned.
+      set({ openFiles: [...toggled.filter(f => f.pinned), ...toggled.filter(f => !f.pinned)] });
+    },
+
+    noteUserEdit: (fileId: string, content: string) => {
+      const tab = get().openFiles.find(f => f.id === fileId);
+      if (!tab || tab.isModified === (content !== tab.savedContent)) return;
+      set(state => ({
+        openFiles: state.openFiles.map(f => (f.id === fileId ? { ...f, isModified: content !== f.savedContent } : f))
+      }));
+    },
+
+    markSaved: (fileId: string, content?: string) => {
+      const savedContent = content ?? projectContent(fileId);
+      if (savedContent === null) return;
+      set(state => ({
+        openFiles: state.openFiles.map(f => (f.id === fileId ? { ...f, savedContent, isModified: false } : f))
+      }));
+    },
+
     saveFile: async (fileId: string) => {
-      const { files, openFiles } = get();
-      
-      // Mark as not modified
-      const updatedFiles = files.map(file => 
-        file.id === fileId ? { ...file, isModified: false } : file
-      );
-      
-      const updatedOpenFiles = openFiles.map(file => 
-        file.id === fileId ? { ...file, isModified: false } : file
-      );
-      
-      set({ 
-        files: updatedFiles, 
-        openFiles: updatedOpenFiles 
-      });
+      get().markSaved(fileId);
     },
-    
-    createFile: (path: string, content = '') => {
-      const { files } = get();
-      const id = `file_${Date.now()}_${Math.random()}`;
-      const name = path.split('/').pop() || 'untitled';
-      const language = getLanguageFromPath(path);
-      
-      const newFile: EditorFile = {
-        id,
-        name,
-        path,
-        content,
-        language,
-        isOpen: false,
-        isModified: false,
-        version: 1,
-        lastModified: new Date()
-      };
-      
-      set({ files: [...files, newFile] });
-      get().openFile(id);
+
+    clearConflict: (fileId: string) => {
+      if (!get().conflicts[fileId]) return;
+      set({ conflicts: omitConflict(get().conflicts, fileId) });
     },
-    
-    deleteFile: (fileId: string) => {
-      const { files, openFiles, activeFileId } = get();
-      
-      const newFiles = files.filter(f => f.id !== fileId);
-      const newOpenFiles = openFiles.filter(f => f.id !== fileId);
-      
-      let newActiveFileId = activeFileId;
-      if (activeFileId === fileId && newOpenFiles.length > 0) {
-        newActiveFileId = newOpenFiles[0].id;
-      } else if (activeFileId === fileId) {
-        newActiveFileId = null;
+
+    resolveConflict: (fileId: string, keep: 'theirs' | 'mine') => {
+      const conflict = get().conflicts[fileId];
+      if (!conflict) return;
+      const conflicts = omitConflict(get().conflicts, fileId);
+      const current = projectContent(fileId);
+      if (keep === 'theirs' || current === null) {
+        set({ conflicts });
+        get().markSaved(fileId);
+        return;
       }
-      
-      set({ 
-        files: newFiles, 
-        openFiles: newOpenFiles,
-        activeFileId: newActiveFileId
+
+      useProjectStore.getState().updateFile(fileId, conflict.mine);
+      void useJournalStore.getState().record({
+        runId: null,
+        label: `Restore my edits to ${fileId}`,
+        changes: [{ path: fileId, before: current, after: conflict.mine }]
       });
+      // The AI version becomes the saved baseline, so the restored edits still show as unsaved.
+      set(state => ({
+        conflicts,
+        openFiles: state.openFiles.map(f =>
+          f.id === fileId ? { ...f, savedContent: current, isModified: conflict.mine !== current } : f
+        )
+      }));
     },
-    
+
+    // Split view actions
+    toggleSplit: () => {
+      const activeFile = useProjectStore.getState().activeFile;
+      if (get().isSplit) {
+        set({ isSplit: false, focusedPane: 'primary', paneFileIds: { primary: activeFile, secondary: null } });
+        return;
+      }
+      set({ isSplit: true, focusedPane: 'secondary', paneFileIds: { primary: activeFile, secondary: activeFile } });
+    },
+
+    openToSide: (fileId: string) => {
+      if (!get().isSplit) {
+        const activeFile = useProjectStore.getState().activeFile;
+        set({ isSplit: true, paneFileIds: { primary: activeFile, secondary: activeFile } });
+      }
+      set({ focusedPane: 'secondary' });
+      get().openFile(fileId);
+    },
+
+    focusPane: (pane: EditorPane) => {
+      const { isSplit, focusedPane, paneFileIds } = get();
+      if (!isSplit || focusedPane === pane) return;
+      set({ focusedPane: pane });
+      const fileId = paneFileIds[pane];
+      if (fileId) get().openFile(fileId);
+    },
+
     // Settings actions
     updateSettings: (newSettings: Partial<EditorSettings>) => {
       set(state => ({
@@ -403,7 +421,7 @@ export const useEditorStore = create<EditorState>()(
     },
     
     runAIAnalysis: async () => {
-      const { activeFileId, files, aiAssistant } = get();
+      const { activeFileId, aiAssistant } = get();
       
       if (!activeFileId || !aiAssistant.isEnabled) return;
       
@@ -414,13 +432,13 @@ export const useEditorStore = create<EditorState>()(
       try {
         // Import and run AI analysis
         const { codeAnalyzer } = await import('@/services/codeAnalyzer');
-        const file = files.find(f => f.id === activeFileId);
+        const content = projectContent(activeFileId);
         
-        if (file) {
+        if (content !== null) {
           const analysis = await codeAnalyzer.analyzeFile(
-            file.content,
-            file.language,
-            file.path
+            content,
+            getLanguageFromPath(activeFileId),
+            activeFileId
           );
           
           set(state => ({
@@ -463,6 +481,14 @@ export const useEditorStore = create<EditorState>()(
     toggleSearch: () => {
       set(state => ({ showSearch: !state.showSearch }));
     },
+
+    setShowSearch: (show: boolean) => {
+      set({ showSearch: show });
+    },
+
+    revealInEditor: (path: string, line: number, column = 1) => {
+      set(state => ({ revealTarget: { path, line, column, seq: (state.revealTarget?.seq || 0) + 1 } }));
+    },
     
     toggleProblems: () => {
       set(state => ({ showProblems: !state.showProblems }));
@@ -471,32 +497,21 @@ export const useEditorStore = create<EditorState>()(
     // Navigation actions
     goBack: () => {
       const { history, currentHistoryIndex } = get();
-      if (currentHistoryIndex > 0) {
-        const newIndex = currentHistoryIndex - 1;
-        const entry = history[newIndex];
-        set({ 
-          currentHistoryIndex: newIndex,
-          activeFileId: entry.fileId
-        });
-        get().openFile(entry.fileId);
-      }
+      let index = currentHistoryIndex - 1;
+      while (index >= 0 && projectContent(history[index].fileId) === null) index--;
+      if (index >= 0) navigateToHistory(index);
     },
     
     goForward: () => {
       const { history, currentHistoryIndex } = get();
-      if (currentHistoryIndex < history.length - 1) {
-        const newIndex = currentHistoryIndex + 1;
-        const entry = history[newIndex];
-        set({ 
-          currentHistoryIndex: newIndex,
-          activeFileId: entry.fileId
-        });
-        get().openFile(entry.fileId);
-      }
+      let index = currentHistoryIndex + 1;
+      while (index < history.length && projectContent(history[index].fileId) === null) index++;
+      if (index < history.length) navigateToHistory(index);
     },
     
     addToHistory: (fileId: string, position: number) => {
       const { history, currentHistoryIndex } = get();
+      if (history[currentHistoryIndex]?.fileId === fileId) return;
       
       // Remove any entries after current index
       const newHistory = history.slice(0, currentHistoryIndex + 1);
@@ -518,6 +533,13 @@ export const useEditorStore = create<EditorState>()(
         currentHistoryIndex: newHistory.length - 1
       });
     },
+
+    notePosition: (fileId: string, position: number) => {
+      const { history, currentHistoryIndex } = get();
+      const entry = history[currentHistoryIndex];
+      if (!entry || entry.fileId !== fileId || entry.position === position) return;
+      set({ history: history.map((item, index) => (index === currentHistoryIndex ? { ...item, position } : item)) });
+    },
     
     // Bulk operations
     saveAll: async () => {
@@ -532,8 +554,13 @@ export const useEditorStore = create<EditorState>()(
     closeAll: () => {
       set({ 
         openFiles: [],
-        activeFileId: null
+        activeFileId: null,
+        conflicts: {},
+        isSplit: false,
+        focusedPane: 'primary',
+        paneFileIds: { primary: null, secondary: null }
       });
+      useProjectStore.getState().setActiveFile('');
     },
     
     formatAll: () => {
@@ -574,6 +601,129 @@ function getLanguageFromPath(path: string): string {
   return langMap[ext || ''] || 'plaintext';
 }
 
+function projectContent(path: string | null): string | null {
+  if (!path) return null;
+  const file = useProjectStore.getState().files.find(f => (f.path || f.name) === path);
+  return file ? String(file.content || '') : null;
+}
+
+function omitConflict(conflicts: Record<string, EditorConflict>, path: string) {
+  const next = { ...conflicts };
+  delete next[path];
+  return next;
+}
+
+// Back/forward moves through history without pushing new entries.
+let navigatingHistory = false;
+
+function navigateToHistory(index: number) {
+  const entry = useEditorStore.getState().history[index];
+  useEditorStore.setState({ currentHistoryIndex: index });
+  navigatingHistory = true;
+  try {
+    useEditorStore.getState().openFile(entry.fileId);
+  } finally {
+    navigatingHistory = false;
+  }
+  if (entry.position > 1) useEditorStore.getState().revealInEditor(entry.fileId, entry.position);
+}
+
+// The project store's active file is the source of truth; it always has a tab and fills the focused pane.
+function trackActiveFile(path: string | null) {
+  const state = useEditorStore.getState();
+  if (!path) {
+    useEditorStore.setState({ activeFileId: null });
+    return;
+  }
+  const content = projectContent(path);
+  if (content === null) return;
+  const openFiles = state.openFiles.some(f => f.id === path)
+    ? state.openFiles
+    : [
+        ...state.openFiles,
+        {
+          id: path,
+          name: path.split('/').pop() || path,
+          path,
+          language: getLanguageFromPath(path),
+          pinned: false,
+          isModified: false,
+          savedContent: content
+        }
+      ];
+  useEditorStore.setState({
+    openFiles,
+    activeFileId: path,
+    paneFileIds: { ...state.paneFileIds, [state.focusedPane]: path }
+  });
+  if (!navigatingHistory) state.addToHistory(path, 1);
+}
+
+function pruneMissingTabs(files: ProjectFile[]) {
+  const { openFiles, paneFileIds, conflicts } = useEditorStore.getState();
+  const existing = new Set(files.map(f => f.path || f.name));
+  if (openFiles.every(f => existing.has(f.id))) return;
+  const activeFile = useProjectStore.getState().activeFile;
+  const keep = (id: string | null) => (id && existing.has(id) ? id : activeFile);
+  useEditorStore.setState({
+    openFiles: openFiles.filter(f => existing.has(f.id)),
+    conflicts: Object.fromEntries(Object.entries(conflicts).filter(([path]) => existing.has(path))),
+    paneFileIds: { primary: keep(paneFileIds.primary), secondary: keep(paneFileIds.secondary) }
+  });
+}
+
+function resetTabs() {
+  useEditorStore.setState({
+    openFiles: [],
+    activeFileId: null,
+    conflicts: {},
+    isSplit: false,
+    focusedPane: 'primary',
+    paneFileIds: { primary: null, secondary: null },
+    history: [],
+    currentHistoryIndex: -1
+  });
+}
+
+let trackedProjectId = useProjectStore.getState().projectId;
+
+useProjectStore.subscribe((state, prev) => {
+  if (state.projectId !== trackedProjectId) {
+    trackedProjectId = state.projectId;
+    resetTabs();
+    trackActiveFile(state.activeFile);
+    return;
+  }
+  if (state.files !== prev.files) {
+    pruneMissingTabs(state.files);
+    // The active file may be restored before its content is loaded.
+    if (state.activeFile && state.activeFile !== useEditorStore.getState().activeFileId) trackActiveFile(state.activeFile);
+  }
+  if (state.activeFile !== prev.activeFile) trackActiveFile(state.activeFile);
+});
+
+// A file the AI rewrites while its tab has unsaved edits becomes a conflict; otherwise the AI version is the new baseline.
+useAIStore.subscribe((state, prev) => {
+  if (state.writingFilePath === prev.writingFilePath) return;
+  const editor = useEditorStore.getState();
+  const finished = prev.writingFilePath;
+  if (finished && !editor.conflicts[finished] && editor.openFiles.some(f => f.id === finished)) {
+    editor.markSaved(finished);
+  }
+  const started = state.writingFilePath;
+  const tab = started ? editor.openFiles.find(f => f.id === started) : undefined;
+  if (started && tab?.isModified && !editor.conflicts[started]) {
+    useEditorStore.setState(current => ({
+      conflicts: {
+        ...current.conflicts,
+        [started]: { path: started, mine: projectContent(started) ?? '', detectedAt: Date.now() }
+      }
+    }));
+  }
+});
+
+trackActiveFile(useProjectStore.getState().activeFile);
+
 // Subscribe to changes and persist to localStorage
 useEditorStore.subscribe(
   (state) => state.settings,
@@ -0,0 +1,76 @@
+import { createWithEqualityFn } from 'zustand/traditional';
+import { TOOL_FEATURES_BY_ID } from '@/config/toolFeatures';
+import type { FeaturePack, ToolFeature } from '@/types/constraints';
+import { deleteFeaturePack, loadFeaturePacks, saveFeaturePacks } from '@/utils/featurePacksDb';
+import { normalizeFeaturePack, parseFeaturePacksJson, serializeFeaturePacks, toToolFeature } from '@/utils/featurePacks';
+
+interface FeaturePackState {
+  packs: FeaturePack[];
+  loaded: boolean;
+  // Every user feature adapted to `ToolFeature`, keyed by `<packId>/<featureId>`.
+  featuresById: Record<string, ToolFeature>;
+
+  load: () => Promise<void>;
+  savePack: (input: unknown) => Promise<FeaturePack>;
+  deletePack: (packId: string) => Promise<void>;
+  importPacks: (json: string) => Promise<FeaturePack[]>;
+  exportPacks: (packIds?: string[]) => string;
+}
+
+const indexFeatures = (packs: FeaturePack[]) => {
+  const byId: Record<string, ToolFeature> = {};
+  for (const pack of packs) {
+    for (const feature of pack.features) {
+      const tool = toToolFeature(pack, feature);
+      byId[tool.id] = tool;
+    }
+  }
+  return byId;
+};
+
+const withPacks = (packs: FeaturePack[]) => {
+  const sorted = [...packs].sort((a, b) => a.name.localeCompare(b.name));
+  return { packs: sorted, featuresById: indexFeatures(sorted) };
+};
+
+export const useFeaturePackStore = createWithEqualityFn<FeaturePackState>((set, get) => ({
+  packs: [],
+  loaded: false,
+  featuresById: {},
+
+  load: async () => {
+    const packs = await loadFeaturePacks().catch(() => [] as FeaturePack[]);
+    set({ ...withPacks(packs), loaded: true });
+  },
+
+  savePack: async (input) => {
+    const pack = normalizeFeaturePack(input);
+    await saveFeaturePacks([pack]);
+    set(withPacks([...get().packs.filter((entry) => entry.id !== pack.id), pack]));
+    return pack;
+  },
+
+  deletePack: async (packId) => {
+    await deleteFeaturePack(packId);
+    set(withPacks(get().packs.filter((pack) => pack.id !== packId)));
+  },
+
+  importPacks: async (json) => {
+    // Packs keep their ids, so re-importing an updated export replaces the earlier copy.
+    const imported = parseFeaturePacksJson(json);
+    await saveFeaturePacks(imported);
+    const ids = new Set(imported.map((pack) => pack.id));
+    set(withPacks([...get().packs.filter((pack) => !ids.has(pack.id)), ...imported]));
+    return imported;
+  },
+
+  exportPacks: (packIds) => {
+    const packs = packIds ? get().packs.filter((pack) => packIds.includes(pack.id)) : get().packs;
+    return serializeFeaturePacks(packs);
+  }
+}));
+
+/** Looks up a built-in or user-defined feature; the validator and prompt builder treat both the same way. */
+export const resolveToolFeature = (featureId: string): ToolFeature | null =>
+  TOOL_FEATURES_BY_ID[featureId] || useFeaturePackStore.getState().featuresById[featureId] || null;
+
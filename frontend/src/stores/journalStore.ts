@@ -0,0 +1,149 @@
+import { createWithEqualityFn } from 'zustand/traditional';
+import { useProjectStore } from '@/stores/projectStore';
+import { getLanguageFromExtension } from '@/utils/stackDetector';
+import {
+  appendJournalOperation,
+  loadJournalOperations,
+  markJournalOperations,
+  type WorkspaceJournalChange,
+  type WorkspaceOperationJournalRecord
+} from '@/utils/workspaceDb';
+
+export type JournalDirection = 'undo' | 'redo';
+
+export type JournalStepResult =
+  | { ok: true; labels: string[] }
+  | { ok: false; reason: 'empty' | 'conflict'; labels: string[]; path?: string };
+
+export type JournalMirror = {
+  seq: number;
+  contents: Record<string, string | null>;
+};
+
+interface JournalState {
+  undoLabel: string | null;
+  redoLabel: string | null;
+  // Latest content written by undo/redo, keyed by path; the editor applies it as an undoable model edit.
+  mirror: JournalMirror | null;
+
+  refresh: () => Promise<void>;
+  record: (entry: { runId: string | null; label: string; changes: WorkspaceJournalChange[] }) => Promise<void>;
+  undo: (options?: { wholeRun?: boolean }) => Promise<JournalStepResult>;
+  redo: (options?: { wholeRun?: boolean }) => Promise<JournalStepResult>;
+  consumeMirror: (path: string, content: string) => boolean;
+}
+
+// Records and steps touch the same journal, so they run strictly one after another.
+let queue: Promise<unknown> = Promise.resolve();
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const next = queue.then(task, task);
+  queue = next.catch(() => undefined);
+  return next;
+};
+
+const readContent = (path: string): string | null => {
+  const file = useProjectStore.getState().files.find((f) => (f.path || f.name) === path);
+  return file ? String(file.content || '') : null;
+};
+
+const findConflict = (record: WorkspaceOperationJournalRecord, direction: JournalDirection) =>
+  record.changes.find((change) => readContent(change.path) !== (direction === 'undo' ? change.after : change.before));
+
+const pickRecords = (
+  operations: WorkspaceOperationJournalRecord[],
+  direction: JournalDirection,
+  wholeRun: boolean
+): WorkspaceOperationJournalRecord[] => {
+  // Undone operations are always newer than active ones: undo walks back from the newest active, redo forward from the oldest undone.
+  const candidates =
+    direction === 'undo' ? operations.filter((op) => !op.undone).reverse() : operations.filter((op) => op.undone);
+  const first = candidates[0];
+  if (!first) return [];
+  if (!wholeRun || !first.runId) return [first];
+  const picked: WorkspaceOperationJournalRecord[] = [];
+  for (const candidate of candidates) {
+    if (candidate.runId !== first.runId) break;
+    picked.push(candidate);
+  }
+  return picked;
+};
+
+let mirrorSeq = 0;
+
+export const useJournalStore = createWithEqualityFn<JournalState>((set, get) => {
+  const step = (direction: JournalDirection, wholeRun: boolean) =>
+    enqueue(async (): Promise<JournalStepResult> => {
+      const projectId = useProjectStore.getState().projectId;
+      const records = pickRecords(await loadJournalOperations(projectId), direction, wholeRun);
+      if (records.length === 0) return { ok: false, reason: 'empty', labels: [] };
+
+      const applied: WorkspaceOperationJournalRecord[] = [];
+      let conflict: WorkspaceJournalChange | undefined;
+      for (const record of records) {
+        conflict = findConflict(record, direction);
+        if (conflict) break;
+
+        const changes = direction === 'undo' ? [...record.changes].reverse() : record.changes;
+        const contents: Record<string, string | null> = {};
+        for (const change of changes) contents[change.path] = direction === 'undo' ? change.before : change.after;
+        set({ mirror: { seq: ++mirrorSeq, contents: { ...(get().mirror?.contents || {}), ...contents } } });
+
+        const project = useProjectStore.getState();
+        for (const change of changes) {
+          const content = direction === 'undo' ? change.before : change.after;
+          if (content === null) {
+            project.deleteFile(change.path);
+          } else {
+            project.upsertFile({
+              name: change.path.split('/').pop() || change.path,
+              path: change.path,
+              content,
+              language: getLanguageFromExtension(change.path)
+            });
+          }
+        }
+        applied.push(record);
+      }
+
+      await markJournalOperations(applied, direction === 'undo');
+      await get().refresh();
+      const labels = applied.map((record) => record.label);
+      if (conflict) return { ok: false, reason: 'conflict', labels, path: conflict.path };
+      return { ok: true, labels };
+    });
+
+  return {
+    undoLabel: null,
+    redoLabel: null,
+    mirror: null,
+
+    refresh: async () => {
+      const operations = await loadJournalOperations(useProjectStore.getState().projectId).catch(() => []);
+      set({
+        undoLabel: pickRecords(operations, 'undo', false)[0]?.label ?? null,
+        redoLabel: pickRecords(operations, 'redo', false)[0]?.label ?? null
+      });
+    },
+
+    record: (entry) =>
+      enqueue(async () => {
+        const changes = entry.changes.filter((change) => change.before !== change.after);
+        if (changes.length === 0) return;
+        await appendJournalOperation(useProjectStore.getState().projectId, { ...entry, changes }).catch(() => null);
+        await get().refresh();
+      }),
+
+    undo: (options) => step('undo', options?.wholeRun === true),
+
+    redo: (options) => step('redo', options?.wholeRun === true),
+
+    consumeMirror: (path, content) => {
+      const mirror = get().mirror;
+      if (!mirror || mirror.contents[path] !== content) return false;
+      const rest = { ...mirror.contents };
+      delete rest[path];
+      set({ mirror: Object.keys(rest).length > 0 ? { ...mirror, contents: rest } : null });
+      return true;
+    }
+  };
+});
@@ -1,5 +1,10 @@
 import { createWithEqualityFn } from 'zustand/traditional';
-import { ExecutionResult, LogEntry } from '@/types';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { ExecutionResult, LogEntry, PreviewConsoleEntry } from '@/types';
+import { formatPreviewConsoleLocation } from '@/utils/previewConsoleBridge';
+import { DEFAULT_PREVIEW_VIEWPORT, normalizePreviewViewport, type PreviewViewport } from '@/utils/previewViewport';
+
+const MAX_CONSOLE_ENTRIES = 500;
 
 export type RuntimeStatus = 'idle' | 'configuring' | 'booting' | 'mounting' | 'installing' | 'starting' | 'ready' | 'error';
 
@@ -11,6 +16,10 @@ interface PreviewState {
   previewContent: string | null;
   runtimeStatus: RuntimeStatus;
   runtimeMessage: string | null;
+  // Console output and uncaught errors posted by the bridge script inside the preview iframe.
+  consoleEntries: PreviewConsoleEntry[];
+  // Device emulation settings keyed by workspace projectId; the only persisted slice of this store.
+  viewportsByProject: Record<string, PreviewViewport>;
   
   setIsExecuting: (isExecuting: boolean) => void;
   setExecutionResult: (result: ExecutionResult) => void;
@@ -19,6 +28,9 @@ interface PreviewState {
   setPreviewUrl: (url: string | null) => void;
   setPreviewContent: (content: string | null) => void;
   setRuntimeStatus: (status: RuntimeStatus, message?: string | null) => void;
+  addConsoleEntry: (entry: Omit<PreviewConsoleEntry, 'id'>) => void;
+  clearConsole: () => void;
+  setViewport: (projectId: string, patch: Partial<PreviewViewport>) => void;
   reset: () => void;
 }
 
@@ -29,27 +41,89 @@ const initialState = {
   previewUrl: null,
   previewContent: null,
   runtimeStatus: 'idle' as RuntimeStatus,
-  runtimeMessage: null
+  runtimeMessage: null,
+  consoleEntries: [] as PreviewConsoleEntry[]
 };
 
-export const usePreviewStore = createWithEqualityFn<PreviewState>((set) => ({
-  ...initialState,
-  
-  setIsExecuting: (isExecuting) => set({ isExecuting }),
-  
-  setExecutionResult: (result) => set({ executionResult: result }),
-  
-  addLog: (log) => set((state) => ({
-    logs: [...state.logs, log]
-  })),
-  
-  clearLogs: () => set({ logs: [] }),
-  
-  setPreviewUrl: (url) => set({ previewUrl: url }),
-  
-  setPreviewContent: (content) => set({ previewContent: content }),
+let consoleEntrySeq = 0;
 
-  setRuntimeStatus: (runtimeStatus, runtimeMessage = null) => set({ runtimeStatus, runtimeMessage }),
-  
-  reset: () => set(initialState)
-}));
+export const usePreviewStore = createWithEqualityFn<PreviewState>()(
+  persist(
+    (set) => ({
+      ...initialState,
+      viewportsByProject: {},
+
+      setIsExecuting: (isExecuting) => set({ isExecuting }),
+
+      setExecutionResult: (result) => set({ executionResult: result }),
+
+      addLog: (log) => set((state) => ({
+        logs: [...state.logs, log]
+      })),
+
+      clearLogs: () => set({ logs: [] }),
+
+      setPreviewUrl: (url) => set({ previewUrl: url }),
+
+      setPreviewContent: (content) => set({ previewContent: content }),
+
+      setRuntimeStatus: (runtimeStatus, runtimeMessage = null) => set({ runtimeStatus, runtimeMessage }),
+
+      addConsoleEntry: (entry) => set((state) => ({
+        consoleEntries: [...state.consoleEntries, { ...entry, id: ++consoleEntrySeq }].slice(-MAX_CONSOLE_ENTRIES)
+      })),
+
+      clearConsole: () => set({ consoleEntries: [] }),
+
+      setViewport: (projectId, patch) => set((state) => {
+        const key = projectId || 'default';
+        const current = state.viewportsByProject[key] || DEFAULT_PREVIEW_VIEWPORT;
+        return {
+          viewportsByProject: { ...state.viewportsByProject, [key]: normalizePreviewViewport({ ...current, ...patch }) }
+        };
+      }),
+
+      reset: () => set(initialState)
+    }),
+    {
+      name: 'apex-preview-store',
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ viewportsByProject: state.viewportsByProject })
+    }
+  )
+);
+
+export const selectPreviewViewport = (state: Pick<PreviewState, 'viewportsByProject'>, projectId: string) =>
+  state.viewportsByProject[projectId || 'default'] || DEFAULT_PREVIEW_VIEWPORT;
+
+/**
+ * Distinct preview errors, newest last: iframe console errors formatted with their project location for context
+ * retrieval, merged with error-level runtime logs (WebContainer and framework output).
+ */
+export const selectRecentPreviewErrors = (
+  state: Pick<PreviewState, 'consoleEntries' | 'logs'>,
+  limit = 24
+): string[] => {
+  const candidates: Array<{ timestamp: number; line: string }> = [];
+  for (const entry of state.consoleEntries) {
+    if (entry.level !== 'error') continue;
+    const location = formatPreviewConsoleLocation(entry);
+    const line = `${location ? `${location} ` : ''}${entry.message.split('\n')[0]}`.trim();
+    candidates.push({ timestamp: entry.timestamp, line });
+  }
+  for (const log of state.logs) {
+    if (log.type !== 'error') continue;
+    candidates.push({ timestamp: log.timestamp, line: String(log.message || '').split('\n')[0].trim() });
+  }
+  candidates.sort((a, b) => a.timestamp - b.timestamp);
+
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (let i = candidates.length - 1; i >= 0 && out.length < limit; i -= 1) {
+    const { line } = candidates[i];
+    if (!line || seen.has(line)) continue;
+    seen.add(line);
+    out.push(line);
+  }
+  return out.reverse();
+};
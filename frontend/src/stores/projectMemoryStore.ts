@@ -0,0 +1,143 @@
+import { createWithEqualityFn } from 'zustand/traditional';
+import { projectMemoryKey, type ProjectMemoryCandidate } from '@/services/memoryEngine';
+import type { ProjectMemoryCategory, ProjectMemoryFact } from '@/types/context';
+import { deleteProjectMemoryFacts, loadProjectMemory, saveProjectMemoryFacts } from '@/utils/projectMemoryDb';
+
+type ProjectMemoryPatch = Partial<Pick<ProjectMemoryFact, 'text' | 'category' | 'pinned' | 'permanent' | 'relatedFiles'>>;
+
+interface ProjectMemoryState {
+  projectId: string;
+  facts: ProjectMemoryFact[];
+  loaded: boolean;
+
+  load: (projectId: string) => Promise<void>;
+  addFact: (text: string, options?: ProjectMemoryPatch) => Promise<ProjectMemoryFact | null>;
+  updateFact: (factId: string, patch: ProjectMemoryPatch) => Promise<void>;
+  deleteFact: (factId: string) => Promise<void>;
+  captureFacts: (projectId: string, candidates: ProjectMemoryCandidate[]) => Promise<number>;
+}
+
+// Captured facts that nobody pinned or promoted are capped per project; the oldest go first.
+const MAX_CAPTURED_FACTS = 60;
+const MAX_FACT_TEXT = 400;
+
+const CATEGORIES: ProjectMemoryCategory[] = ['constraint', 'decision', 'file', 'task'];
+
+const createFactId = () => `mem-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const cleanText = (value: string) => String(value || '').replace(/\s+/g, ' ').trim().slice(0, MAX_FACT_TEXT);
+
+const sortFacts = (facts: ProjectMemoryFact[]) =>
+  [...facts].sort(
+    (a, b) => Number(b.permanent) - Number(a.permanent) || Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt
+  );
+
+const isCapturedOnly = (fact: ProjectMemoryFact) => fact.source !== 'user' && !fact.pinned && !fact.permanent && !fact.dismissed;
+
+export const useProjectMemoryStore = createWithEqualityFn<ProjectMemoryState>((set, get) => ({
+  projectId: '',
+  facts: [],
+  loaded: false,
+
+  load: async (projectId) => {
+    const id = String(projectId || '').trim();
+    set({ projectId: id, facts: [], loaded: false });
+    const facts = await loadProjectMemory(id).catch(() => [] as ProjectMemoryFact[]);
+    // A later switch may have finished first.
+    if (get().projectId !== id) return;
+    set({ facts: sortFacts(facts), loaded: true });
+  },
+
+  addFact: async (text, options = {}) => {
+    const { projectId, facts } = get();
+    const clean = cleanText(text);
+    if (!projectId || !clean) return null;
+    const now = Date.now();
+    const fact: ProjectMemoryFact = {
+      id: createFactId(),
+      projectId,
+      text: clean,
+      category: options.category && CATEGORIES.includes(options.category) ? options.category : 'constraint',
+      source: 'user',
+      permanent: Boolean(options.permanent),
+      pinned: options.pinned ?? true,
+      relatedFiles: options.relatedFiles || [],
+      sourceKey: projectMemoryKey(clean),
+      dismissed: false,
+      createdAt: now,
+      updatedAt: now
+    };
+    await saveProjectMemoryFacts([fact]);
+    set({ facts: sortFacts([...facts, fact]) });
+    return fact;
+  },
+
+  updateFact: async (factId, patch) => {
+    const existing = get().facts.find((fact) => fact.id === factId);
+    if (!existing) return;
+    const text = patch.text === undefined ? existing.text : cleanText(patch.text);
+    if (!text) return;
+    const next: ProjectMemoryFact = { ...existing, ...patch, text, updatedAt: Date.now() };
+    await saveProjectMemoryFacts([next]);
+    set((state) => ({ facts: sortFacts(state.facts.map((fact) => (fact.id === factId ? next : fact))) }));
+  },
+
+  // Captured facts are kept as dismissed tombstones so the next session save does not bring them back.
+  deleteFact: async (factId) => {
+    const existing = get().facts.find((fact) => fact.id === factId);
+    if (!existing) return;
+    if (existing.source === 'user') {
+      await deleteProjectMemoryFacts([factId]);
+      set((state) => ({ facts: state.facts.filter((fact) => fact.id !== factId) }));
+      return;
+    }
+    const dismissed: ProjectMemoryFact = { ...existing, dismissed: true, pinned: false, permanent: false, updatedAt: Date.now() };
+    await saveProjectMemoryFacts([dismissed]);
+    set((state) => ({ facts: sortFacts(state.facts.map((fact) => (fact.id === factId ? dismissed : fact))) }));
+  },
+
+  captureFacts: async (projectId, candidates) => {
+    const state = get();
+    if (!state.loaded || !projectId || state.projectId !== projectId) return 0;
+    const known = new Set(state.facts.flatMap((fact) => [fact.sourceKey, projectMemoryKey(fact.text)]));
+    const now = Date.now();
+    const added: ProjectMemoryFact[] = [];
+    for (const candidate of candidates) {
+      const text = cleanText(candidate.text);
+      const key = projectMemoryKey(text);
+      if (!key || known.has(key)) continue;
+      known.add(key);
+      added.push({
+        id: createFactId(),
+        projectId,
+        text,
+        category: candidate.category,
+        source: candidate.source,
+        permanent: false,
+        pinned: false,
+        relatedFiles: candidate.relatedFiles.slice(0, 12),
+        sourceKey: key,
+        dismissed: false,
+        createdAt: now,
+        updatedAt: now
+      });
+    }
+    if (added.length === 0) return 0;
+
+    // Overflowing captures become tombstones too: they are likely still in the chat and would be captured again.
+    const merged = [...state.facts, ...added];
+    const overflow = new Set(
+      merged
+        .filter(isCapturedOnly)
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .slice(MAX_CAPTURED_FACTS)
+        .map((fact) => fact.id)
+    );
+    const next = merged.map((fact) => (overflow.has(fact.id) ? { ...fact, dismissed: true } : fact));
+    const addedIds = new Set(added.map((fact) => fact.id));
+    // Applied before the write so a capture racing this one sees the new keys.
+    set({ facts: sortFacts(next) });
+    await saveProjectMemoryFacts(next.filter((fact) => addedIds.has(fact.id) || overflow.has(fact.id)));
+    return added.length;
+  }
+}));
@@ -2,7 +2,21 @@ import { createWithEqualityFn } from 'zustand/traditional';
 import { persist } from 'zustand/middleware';
 import { ProjectFile, FileStructure, FileSystem } from '@/types';
 import { normalizeStoredPath } from '@/utils/workspacePaths';
-import { applyWorkspaceDelta, clearWorkspace, createWorkspaceCheckpoint, loadWorkspace } from '@/utils/workspaceDb';
+import { detectStack } from '@/utils/stackDetector';
+import {
+  applyWorkspaceDelta,
+  createWorkspaceCheckpoint,
+  createWorkspaceProjectId,
+  deleteWorkspaceProject,
+  duplicateWorkspaceProject,
+  listWorkspaceProjects,
+  loadWorkspace,
+  loadWorkspaceCheckpoint,
+  loadWorkspaceCheckpoints,
+  renameWorkspaceProject,
+  type WorkspaceCheckpointRecord,
+  type WorkspaceProjectSummary
+} from '@/utils/workspaceDb';
 import type {
   ConstraintEnforcement,
   DestructiveSafetyMode,
@@ -30,8 +44,15 @@ interface ProjectState {
   description: string;
   isHydrating: boolean;
 
-  hydrateFromDisk: () => Promise<void>;
-  clearDisk: () => Promise<void>;
+  hydrateFromDisk: (projectId?: string) => Promise<void>;
+  listProjects: () => Promise<WorkspaceProjectSummary[]>;
+  renameProject: (projectId: string, name: string) => Promise<void>;
+  duplicateProject: (projectId: string) => Promise<string | null>;
+  importProject: (source: { name: string; files: ProjectFile[] }) => Promise<string | null>;
+  deleteProject: (projectId: string) => Promise<void>;
+  createCheckpoint: (label: string) => Promise<WorkspaceCheckpointRecord | null>;
+  listCheckpoints: () => Promise<WorkspaceCheckpointRecord[]>;
+  restoreCheckpoint: (checkpointId: string, paths?: string[]) => Promise<boolean>;
 
   setProjectId: (id: string) => void;
   setProjectName: (name: string) => void;
@@ -164,56 +185,90 @@ const mergeFileStructureWithFiles = (inputStructure: FileStructure[], files: Pro
     });
 };
 
+const flushWorkspacePersistence = async () => {
+  await (window as any).__APEX_WORKSPACE_PERSIST__?.flush?.();
+};
+
+const reseedWorkspacePersistence = (projectId: string, files: ProjectFile[]) => {
+  (window as any).__APEX_WORKSPACE_PERSIST__?.reseed?.(projectId, files);
+};
+
+// While held, workspace changes stay in memory and nothing is written to IndexedDB; release writes what is pending.
+export const holdWorkspacePersistence = () => {
+  (window as any).__APEX_WORKSPACE_PERSIST__?.hold?.();
+};
+
+export const releaseWorkspacePersistence = () => {
+  (window as any).__APEX_WORKSPACE_PERSIST__?.release?.();
+};
+
 export const useProjectStore = createWithEqualityFn<ProjectState>()(
   persist(
     (set, get) => ({
       ...initialState,
 
-      hydrateFromDisk: async () => {
+      hydrateFromDisk: async (projectId) => {
         if (typeof window === 'undefined') return;
         if (get().isHydrating) return;
 
+        // An explicit projectId switches projects, so pending writes must land on the one being left.
+        const targetId = String(projectId || '').trim();
+        if (targetId) await flushWorkspacePersistence().catch(() => undefined);
+
         set({ isHydrating: true });
         try {
           const current = get();
-          if (current.files.length > 0) return;
-
-          const loaded = await loadWorkspace().catch(() => ({ meta: null, files: [] }));
-          if (loaded.files.length > 0) {
+          if (!targetId && current.files.length > 0) return;
+
+          const loadId =
+            targetId ||
+            current.projectId ||
+            (await listWorkspaceProjects().catch(() => []))[0]?.projectId ||
+            '';
+          const loaded = loadId
+            ? await loadWorkspace(loadId).catch(() => ({ meta: null, files: [] }))
+            : { meta: null, files: [] };
+          if (targetId && !loaded.meta) return;
+
+          if (loaded.files.length > 0 || targetId) {
             const restoredFiles = normalizeProjectFiles(
               loaded.files.map((f) => ({
                 name: f.name || f.path.split('/').pop() || f.path,
                 path: f.path,
                 content: f.content || '',
-                language: f.language
+                language: f.language,
+                ...(f.blob ? { blob: f.blob } : {})
               }))
             );
 
             const latest = get();
-            if (latest.files.length > 0) return;
+            if (!targetId && latest.files.length > 0) return;
 
             const fileStructure = mergeFileStructureWithFiles(loaded.meta?.fileStructure || [], restoredFiles);
+            const base = targetId ? { ...initialState, activeFile: null as string | null } : current;
+            const nextProjectId = loaded.meta?.projectId || loadId;
 
             set({
-              projectId: loaded.meta?.projectId ?? current.projectId,
-              projectName: loaded.meta?.projectName ?? current.projectName,
+              projectId: nextProjectId,
+              projectName: loaded.meta?.projectName ?? base.projectName,
               projectType: 'FRONTEND_ONLY',
               selectedFeatures: Array.isArray(loaded.meta?.selectedFeatures)
                 ? loaded.meta.selectedFeatures
-                : current.selectedFeatures,
+                : base.selectedFeatures,
               customFeatureTags: Array.isArray(loaded.meta?.customFeatureTags)
                 ? loaded.meta.customFeatureTags
-                : current.customFeatureTags,
-              constraintsEnforcement: loaded.meta?.constraintsEnforcement ?? current.constraintsEnforcement,
-              generationProfile: loaded.meta?.generationProfile ?? current.generationProfile,
-              destructiveSafetyMode: loaded.meta?.destructiveSafetyMode ?? current.destructiveSafetyMode,
-              touchBudgetMode: loaded.meta?.touchBudgetMode ?? current.touchBudgetMode,
-              stack: loaded.meta?.stack ?? current.stack,
-              description: loaded.meta?.description ?? current.description,
-              activeFile: toNormalizedPath(loaded.meta?.activeFile || '') || current.activeFile || (restoredFiles[0]?.path || null),
+                : base.customFeatureTags,
+              constraintsEnforcement: loaded.meta?.constraintsEnforcement ?? base.constraintsEnforcement,
+              generationProfile: loaded.meta?.generationProfile ?? base.generationProfile,
+              destructiveSafetyMode: loaded.meta?.destructiveSafetyMode ?? base.destructiveSafetyMode,
+              touchBudgetMode: loaded.meta?.touchBudgetMode ?? base.touchBudgetMode,
+              stack: loaded.meta?.stack ?? base.stack,
+              description: loaded.meta?.description ?? base.description,
+              activeFile: toNormalizedPath(loaded.meta?.activeFile || '') || base.activeFile || (restoredFiles[0]?.path || null),
               files: restoredFiles,
               fileStructure
             });
+            reseedWorkspacePersistence(nextProjectId, restoredFiles);
             return;
           }
 
@@ -236,7 +291,7 @@ export const useProjectStore = createWithEqualityFn<ProjectState>()(
               if (normalizedLegacyFiles.length > 0) {
                 const normalizedLegacyStructure = mergeFileStructureWithFiles([], normalizedLegacyFiles);
                 const legacyMeta = {
-                  projectId: current.projectId || '',
+                  projectId: String(parsed?.projectId || current.projectId || '').trim() || createWorkspaceProjectId(),
                   projectName: String(parsed?.projectName || current.projectName || ''),
                   projectType: current.projectType || 'FRONTEND_ONLY',
                   selectedFeatures: current.selectedFeatures || [],
@@ -251,9 +306,14 @@ export const useProjectStore = createWithEqualityFn<ProjectState>()(
                   fileStructure: normalizedLegacyStructure
                 };
 
-                await applyWorkspaceDelta({ meta: legacyMeta, upsertFiles: normalizedLegacyFiles });
+                await applyWorkspaceDelta({
+                  projectId: legacyMeta.projectId,
+                  meta: legacyMeta,
+                  upsertFiles: normalizedLegacyFiles
+                });
 
                 set({
+                  projectId: legacyMeta.projectId,
                   projectName: legacyMeta.projectName,
                   projectType: legacyMeta.projectType,
                   selectedFeatures: legacyMeta.selectedFeatures,
@@ -268,6 +328,7 @@ export const useProjectStore = createWithEqualityFn<ProjectState>()(
                   files: normalizedLegacyFiles,
                   fileStructure: normalizedLegacyStructure
                 });
+                reseedWorkspacePersistence(legacyMeta.projectId, normalizedLegacyFiles);
               }
             } catch {
               // ignore parse failures
@@ -281,14 +342,129 @@ export const useProjectStore = createWithEqualityFn<ProjectState>()(
         }
       },
 
-      clearDisk: async () => {
+      listProjects: async () => {
+        if (typeof window === 'undefined') return [];
+        await flushWorkspacePersistence().catch(() => undefined);
+        return listWorkspaceProjects().catch(() => []);
+      },
+
+      renameProject: async (projectId, name) => {
         if (typeof window === 'undefined') return;
-        await clearWorkspace().catch(() => undefined);
-        try {
-          window.localStorage.removeItem('apex-coding-autosave');
-        } catch {
-          // ignore
-        }
+        const projectName = String(name || '').trim();
+        if (!projectId || !projectName) return;
+        await flushWorkspacePersistence().catch(() => undefined);
+        const renamed = await renameWorkspaceProject(projectId, projectName);
+        if (renamed && get().projectId === projectId) set({ projectName });
+      },
+
+      duplicateProject: async (projectId) => {
+        if (typeof window === 'undefined') return null;
+        await flushWorkspacePersistence().catch(() => undefined);
+        const source = await loadWorkspace(projectId);
+        if (!source.meta) return null;
+        const copy = await duplicateWorkspaceProject(projectId, `${source.meta.projectName || 'Untitled project'} (copy)`);
+        return copy?.projectId || null;
+      },
+
+      // Imported files become a new project that is switched to right away, with a checkpoint of the original state.
+      importProject: async (source) => {
+        if (typeof window === 'undefined' || get().isHydrating) return null;
+        const importedFiles = normalizeProjectFiles(source.files);
+        if (importedFiles.length === 0) return null;
+        await flushWorkspacePersistence().catch(() => undefined);
+
+        const fileStructure = mergeFileStructureWithFiles([], importedFiles);
+        const meta = {
+          projectId: createWorkspaceProjectId(),
+          projectName: String(source.name || '').trim() || 'Imported project',
+          projectType: initialState.projectType,
+          selectedFeatures: [] as string[],
+          customFeatureTags: [] as string[],
+          constraintsEnforcement: initialState.constraintsEnforcement,
+          generationProfile: initialState.generationProfile,
+          destructiveSafetyMode: initialState.destructiveSafetyMode,
+          touchBudgetMode: initialState.touchBudgetMode,
+          stack: detectStack(importedFiles),
+          description: '',
+          activeFile:
+            importedFiles.find((file) => file.path === 'index.html')?.path || importedFiles[0]?.path || null,
+          fileStructure
+        };
+        await applyWorkspaceDelta({ projectId: meta.projectId, meta, upsertFiles: importedFiles });
+
+        set({ ...initialState, ...meta, files: importedFiles });
+        reseedWorkspacePersistence(meta.projectId, importedFiles);
+        await createWorkspaceCheckpoint(meta.projectId, 'import').catch(() => null);
+        return meta.projectId;
+      },
+
+      deleteProject: async (projectId) => {
+        if (typeof window === 'undefined' || !projectId) return;
+        await flushWorkspacePersistence().catch(() => undefined);
+        if (get().projectId === projectId) get().reset();
+        await deleteWorkspaceProject(projectId);
+      },
+
+      createCheckpoint: async (label) => {
+        if (typeof window === 'undefined') return null;
+        await flushWorkspacePersistence().catch(() => undefined);
+        const projectId = get().projectId;
+        if (!projectId) return null;
+        return createWorkspaceCheckpoint(projectId, label).catch(() => null);
+      },
+
+      listCheckpoints: async () => {
+        if (typeof window === 'undefined') return [];
+        const projectId = get().projectId;
+        if (!projectId) return [];
+        return loadWorkspaceCheckpoints(projectId).catch(() => []);
+      },
+
+      // Restores the whole snapshot, or only `paths` when given. Files created after the checkpoint are removed.
+      restoreCheckpoint: async (checkpointId, paths) => {
+        if (typeof window === 'undefined') return false;
+        await flushWorkspacePersistence().catch(() => undefined);
+        const projectId = get().projectId;
+        if (!projectId) return false;
+        const checkpoint = await loadWorkspaceCheckpoint(projectId, checkpointId);
+        if (!checkpoint) return false;
+
+        const scope = paths ? new Set(paths.map((path) => toNormalizedPath(path)).filter(Boolean)) : null;
+        const inScope = (path: string) => !scope || scope.has(path);
+        const snapshotFiles = normalizeProjectFiles(
+          checkpoint.files.map((f) => ({
+            name: f.name || f.path.split('/').pop() || f.path,
+            path: f.path,
+            content: f.content || '',
+            language: f.language,
+            ...(f.blob ? { blob: f.blob } : {})
+          }))
+        );
+        const snapshotPaths = new Set(snapshotFiles.map((file) => file.path || file.name));
+        const currentFiles = normalizeProjectFiles(get().files);
+        const upsertFiles = snapshotFiles.filter((file) => inScope(file.path || file.name));
+        const deletePaths = currentFiles
+          .map((file) => file.path || file.name)
+          .filter((path) => inScope(path) && !snapshotPaths.has(path));
+        if (upsertFiles.length === 0 && deletePaths.length === 0) return false;
+
+        await createWorkspaceCheckpoint(projectId, `before restore: ${checkpoint.label}`).catch(() => null);
+        await applyWorkspaceDelta({ projectId, upsertFiles, deletePaths });
+
+        const replaced = new Set([...deletePaths, ...upsertFiles.map((file) => file.path || file.name)]);
+        const nextFiles = currentFiles.filter((file) => !replaced.has(file.path || file.name)).concat(upsertFiles);
+        const baseStructure = scope
+          ? get().fileStructure.filter((entry) => !deletePaths.includes(toNormalizedPath(entry.path || '')))
+          : checkpoint.meta?.fileStructure || [];
+        const activeFile = get().activeFile;
+        set({
+          files: nextFiles,
+          fileStructure: mergeFileStructureWithFiles(baseStructure, nextFiles),
+          activeFile: activeFile && nextFiles.some((file) => file.path === activeFile) ? activeFile : nextFiles[0]?.path || null
+        });
+        // The delta above already wrote these files.
+        reseedWorkspacePersistence(projectId, nextFiles);
+        return true;
       },
        
       setProjectId: (id) => set({ projectId: id }),
@@ -438,8 +614,9 @@ export const useProjectStore = createWithEqualityFn<ProjectState>()(
             activeFile: state.activeFile === target ? null : state.activeFile
           };
         });
-        if (typeof window !== 'undefined') {
-          void applyWorkspaceDelta({ deletePaths: [target] }).catch(() => undefined);
+        const projectId = get().projectId;
+        if (typeof window !== 'undefined' && projectId) {
+          void applyWorkspaceDelta({ projectId, deletePaths: [target] }).catch(() => undefined);
         }
       },
 
@@ -481,8 +658,9 @@ export const useProjectStore = createWithEqualityFn<ProjectState>()(
           };
         });
 
-        if (typeof window !== 'undefined') {
-          void applyWorkspaceDelta({ movePaths: [{ from, to }] }).catch(() => undefined);
+        const projectId = get().projectId;
+        if (typeof window !== 'undefined' && projectId) {
+          void applyWorkspaceDelta({ projectId, movePaths: [{ from, to }] }).catch(() => undefined);
         }
       },
       
@@ -531,15 +709,30 @@ if (typeof window !== 'undefined') {
       return (hash >>> 0).toString(16);
     };
 
+    // Binary assets keep an empty `content`, so a replaced Blob is told apart by its own id.
+    const blobIds = new WeakMap<Blob, number>();
+    let nextBlobId = 0;
+    const blobSig = (blob: Blob) => {
+      let id = blobIds.get(blob);
+      if (id === undefined) {
+        id = ++nextBlobId;
+        blobIds.set(blob, id);
+      }
+      return `${id}:${blob.size}:${blob.type}`;
+    };
+
     const fileSig = (f: ProjectFile) => {
       const path = toNormalizedPath(f.path || f.name || '');
       const content = f.content || '';
-      return `${path}:${content.length}:${sampleHash(content)}`;
+      return `${path}:${content.length}:${sampleHash(content)}${f.blob ? `:${blobSig(f.blob)}` : ''}`;
     };
 
     let flushTimer: number | null = null;
     let backupTimer: number | null = null;
+    let held = false;
     let lastCheckpointAt = 0;
+    // The project that pending writes and prevSigs describe.
+    let trackedProjectId = useProjectStore.getState().projectId;
     const pendingUpserts = new Map<string, ProjectFile>();
     const pendingDeletes = new Set<string>();
     let pendingMeta: {
@@ -563,21 +756,35 @@ if (typeof window !== 'undefined') {
         window.clearTimeout(flushTimer);
         flushTimer = null;
       }
+      if (held) return;
 
       const upsertFiles = Array.from(pendingUpserts.values());
       const deletePaths = Array.from(pendingDeletes.values());
       const meta = pendingMeta;
+      let projectId = trackedProjectId;
 
       pendingUpserts.clear();
       pendingDeletes.clear();
       pendingMeta = null;
 
       if (!meta && upsertFiles.length === 0 && deletePaths.length === 0) return;
-      await applyWorkspaceDelta({ meta: meta ?? undefined, upsertFiles, deletePaths }).catch(() => undefined);
+      if (!projectId) {
+        // Nothing worth keeping yet; files without an id get one so they are listed as a project.
+        if (upsertFiles.length === 0) return;
+        projectId = createWorkspaceProjectId();
+        trackedProjectId = projectId;
+        useProjectStore.setState({ projectId });
+      }
+      await applyWorkspaceDelta({
+        projectId,
+        meta: meta ? { ...meta, projectId } : undefined,
+        upsertFiles,
+        deletePaths
+      }).catch(() => undefined);
       const now = Date.now();
       if (now - lastCheckpointAt > 45_000) {
         lastCheckpointAt = now;
-        void createWorkspaceCheckpoint('autosave').catch(() => undefined);
+        void createWorkspaceCheckpoint(projectId, 'autosave').catch(() => undefined);
       }
     };
 
@@ -586,11 +793,13 @@ if (typeof window !== 'undefined') {
       try {
         const state = useProjectStore.getState();
         const payload = {
+          projectId: state.projectId,
           projectName: state.projectName,
           stack: state.stack,
           description: state.description,
           activeFile: toNormalizedPath(state.activeFile || '') || null,
-          files: normalizeProjectFiles(state.files).map((file) => ({
+          // Binary assets cannot go through JSON; they are only kept in IndexedDB.
+          files: normalizeProjectFiles(state.files.filter((file) => !file.blob)).map((file) => ({
             name: file.name,
             path: file.path || file.name,
             content: file.content || '',
@@ -604,7 +813,7 @@ if (typeof window !== 'undefined') {
     };
 
     const scheduleFlush = () => {
-      if (flushTimer) return;
+      if (flushTimer || held) return;
       flushTimer = window.setTimeout(() => {
         flushTimer = null;
         void flushNow();
@@ -612,7 +821,7 @@ if (typeof window !== 'undefined') {
     };
 
     const scheduleBackup = () => {
-      if (backupTimer) return;
+      if (backupTimer || held) return;
       backupTimer = window.setTimeout(() => {
         backupTimer = null;
         writeLegacyAutosaveBackup();
@@ -624,6 +833,15 @@ if (typeof window !== 'undefined') {
     useProjectStore.subscribe((state) => {
       if (state.isHydrating) return;
 
+      if (state.projectId !== trackedProjectId) {
+        // Leaving a saved project: write what it still owes, then diff the new one from scratch.
+        if (trackedProjectId) {
+          void flushNow();
+          prevSigs.clear();
+        }
+        trackedProjectId = state.projectId;
+      }
+
       const nextMeta = {
         projectId: state.projectId,
         projectName: state.projectName,
@@ -679,8 +897,32 @@ if (typeof window !== 'undefined') {
           window.clearTimeout(backupTimer);
           backupTimer = null;
         }
+        if (held) return;
         writeLegacyAutosaveBackup();
         await flushNow();
+      },
+      hold: () => {
+        held = true;
+      },
+      release: () => {
+        if (!held) return;
+        held = false;
+        scheduleFlush();
+        scheduleBackup();
+      },
+      reseed: (projectId: string, files: ProjectFile[]) => {
+        if (flushTimer) {
+          window.clearTimeout(flushTimer);
+          flushTimer = null;
+        }
+        pendingUpserts.clear();
+        pendingDeletes.clear();
+        pendingMeta = null;
+        prevSigs.clear();
+        for (const file of normalizeProjectFiles(files)) {
+          prevSigs.set(file.path || file.name, fileSig(file));
+        }
+        trackedProjectId = projectId;
       }
     };
 
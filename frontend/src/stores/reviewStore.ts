@@ -0,0 +1,256 @@
+import { createWithEqualityFn } from 'zustand/traditional';
+import type { ProjectFile } from '@/types';
+import { useEditorStore } from '@/stores/editorStore';
+import { useJournalStore } from '@/stores/journalStore';
+import { holdWorkspacePersistence, releaseWorkspacePersistence, useProjectStore } from '@/stores/projectStore';
+import { applyWorkspaceDelta, type WorkspaceJournalChange } from '@/utils/workspaceDb';
+import { createWorkspaceBackup } from '@/utils/workspaceBackupsDb';
+import { detectLineEnding, diffLines, lineDiffHunks, mergeLineDiffHunks } from '@/utils/workspaceDiff';
+import { getLanguageFromExtension } from '@/utils/stackDetector';
+
+export type ReviewChangeKind = 'edit' | 'create' | 'delete' | 'move';
+
+export interface ReviewChange {
+  id: string;
+  kind: ReviewChangeKind;
+  // The file as it is in the workspace; for moves, the source path.
+  path: string;
+  toPath?: string;
+  // null when the file does not exist on that side.
+  before: string | null;
+  after: string | null;
+  reason?: string;
+  accepted: boolean;
+  // Hunk indexes (see lineDiffHunks) left out of an accepted edit.
+  rejectedHunks: number[];
+}
+
+export type ReviewChangeInput = Pick<ReviewChange, 'kind' | 'path' | 'toPath' | 'before' | 'after' | 'reason'>;
+
+export type ReviewApplyResult = { ok: true; applied: number } | { ok: false; reason: 'stale' | 'backup' | 'write'; path?: string };
+
+interface ReviewState {
+  runId: string | null;
+  changes: ReviewChange[];
+  selectedId: string | null;
+  isApplying: boolean;
+
+  open: (runId: string | null, changes: ReviewChangeInput[]) => void;
+  select: (id: string) => void;
+  setAccepted: (id: string, accepted: boolean) => void;
+  toggleHunk: (id: string, hunk: number) => void;
+  setAllAccepted: (accepted: boolean) => void;
+  discard: () => void;
+  apply: () => Promise<ReviewApplyResult>;
+}
+
+const changeId = (change: ReviewChangeInput) => (change.kind === 'move' ? `${change.path}->${change.toPath}` : change.path);
+
+const readContent = (path: string): string | null => {
+  const file = useProjectStore.getState().files.find((f) => (f.path || f.name) === path);
+  return file ? String(file.content || '') : null;
+};
+
+/** The content an accepted change writes, with rejected hunks kept at their original text. */
+export const reviewedContent = (change: ReviewChange): string | null => {
+  if (change.after === null) return null;
+  if (change.before === null || change.rejectedHunks.length === 0) return change.after;
+  return mergeLineDiffHunks(
+    diffLines(change.before, change.after),
+    new Set(change.rejectedHunks),
+    detectLineEnding(change.before)
+  );
+};
+
+const toProjectFile = (path: string, content: string): ProjectFile => ({
+  name: path.split('/').pop() || path,
+  path,
+  content,
+  language: getLanguageFromExtension(path)
+});
+
+export const useReviewStore = createWithEqualityFn<ReviewState>((set, get) => ({
+  runId: null,
+  changes: [],
+  selectedId: null,
+  isApplying: false,
+
+  open: (runId, changes) => {
+    const next = changes.map((change) => ({ ...change, id: changeId(change), accepted: true, rejectedHunks: [] }));
+    set({ runId, changes: next, selectedId: next[0]?.id ?? null, isApplying: false });
+  },
+
+  select: (id) => set({ selectedId: id }),
+
+  setAccepted: (id, accepted) =>
+    set((state) => ({
+      changes: state.changes.map((change) => (change.id === id ? { ...change, accepted, rejectedHunks: [] } : change))
+    })),
+
+  toggleHunk: (id, hunk) =>
+    set((state) => ({
+      changes: state.changes.map((change) => {
+        if (change.id !== id || change.before === null || change.after === null) return change;
+        const total = lineDiffHunks(diffLines(change.before, change.after)).length;
+        // A rejected file has every hunk rejected; rejecting every hunk is the same as rejecting the file.
+        const rejected = new Set(change.accepted ? change.rejectedHunks : Array.from({ length: total }, (_, index) => index));
+        if (rejected.has(hunk)) rejected.delete(hunk);
+        else rejected.add(hunk);
+        if (rejected.size >= total) return { ...change, accepted: false, rejectedHunks: [] };
+        return { ...change, accepted: true, rejectedHunks: Array.from(rejected).sort((a, b) => a - b) };
+      })
+    })),
+
+  setAllAccepted: (accepted) =>
+    set((state) => ({ changes: state.changes.map((change) => ({ ...change, accepted, rejectedHunks: [] })) })),
+
+  discard: () => set({ runId: null, changes: [], selectedId: null, isApplying: false }),
+
+  apply: async () => {
+    const { changes, runId, isApplying } = get();
+    if (isApplying) return { ok: true, applied: 0 };
+    const accepted = changes.filter((change) => change.accepted);
+
+    // Proposals were made against the workspace as it was when the run finished.
+    const stale = accepted.find((change) => readContent(change.path) !== change.before);
+    if (stale) return { ok: false, reason: 'stale', path: stale.path };
+    if (accepted.length === 0) {
+      get().discard();
+      return { ok: true, applied: 0 };
+    }
+
+    set({ isApplying: true });
+    const projectId = useProjectStore.getState().projectId;
+    try {
+      await createWorkspaceBackup({
+        projectId,
+        reason: 'pre-review-apply',
+        paths: accepted.filter((change) => change.before !== null).map((change) => change.path)
+      });
+    } catch {
+      set({ isApplying: false });
+      return { ok: false, reason: 'backup' };
+    }
+
+    const upsertFiles: ProjectFile[] = [];
+    const deletePaths: string[] = [];
+    const movePaths: Array<{ from: string; to: string }> = [];
+    const journal: WorkspaceJournalChange[] = [];
+    // Binary assets cannot be restored from a text journal, so undo only covers text files.
+    const binaryPaths = new Set(
+      useProjectStore
+        .getState()
+        .files.filter((file) => file.blob)
+        .map((file) => file.path || file.name)
+    );
+    for (const change of accepted) {
+      const content = reviewedContent(change);
+      if (change.kind === 'move' && change.toPath) {
+        movePaths.push({ from: change.path, to: change.toPath });
+        if (binaryPaths.has(change.path)) continue;
+        journal.push(
+          { path: change.path, before: change.before, after: null },
+          { path: change.toPath, before: null, after: change.before }
+        );
+      } else if (content === null) {
+        deletePaths.push(change.path);
+        if (!binaryPaths.has(change.path)) journal.push({ path: change.path, before: change.before, after: null });
+      } else {
+        upsertFiles.push(toProjectFile(change.path, content));
+        journal.push({ path: change.path, before: change.before, after: content });
+      }
+    }
+
+    // One transaction for the whole review, then the in-memory workspace catches up.
+    if (projectId) {
+      try {
+        await applyWorkspaceDelta({ projectId, upsertFiles, deletePaths, movePaths });
+      } catch {
+        // Nothing was committed, so the workspace and the review stay as they were.
+        set({ isApplying: false });
+        return { ok: false, reason: 'write' };
+      }
+    }
+    const project = useProjectStore.getState();
+    for (const move of movePaths) project.moveFile(move.from, move.to);
+    for (const path of deletePaths) project.deleteFile(path);
+    for (const file of upsertFiles) project.upsertFile(file);
+    if (journal.length > 0) {
+      void useJournalStore.getState().record({
+        runId,
+        label: `Apply ${accepted.length} reviewed change${accepted.length === 1 ? '' : 's'}`,
+        changes: journal
+      });
+    }
+
+    get().discard();
+    return { ok: true, applied: accepted.length };
+  }
+}));
+
+// The workspace as it was when a review run started, keyed by path.
+export type ReviewBaseline = Map<string, ProjectFile>;
+
+/** Starts a review run: workspace writes stay in memory until the review is applied or discarded. */
+export const beginReviewRun = (): ReviewBaseline => {
+  holdWorkspacePersistence();
+  return new Map(useProjectStore.getState().files.map((file) => [file.path || file.name, file]));
+};
+
+/**
+ * Ends a review run: every path in `written` that the run changed becomes a review change and goes back to its
+ * content before the run, then persistence resumes. Other files, including anything the user typed meanwhile, are
+ * left alone. `proposals` are the deletes and moves the run asked for but never applied. Returns the number of
+ * changes waiting for review.
+ */
+export const finishReviewRun = (
+  runId: string,
+  baseline: ReviewBaseline,
+  written: ReadonlySet<string>,
+  proposals: ReviewChangeInput[]
+) => {
+  const project = useProjectStore.getState();
+  const editor = useEditorStore.getState();
+  const changes = new Map<string, ReviewChangeInput>();
+  const current = new Map(project.files.map((file) => [file.path || file.name, file]));
+
+  for (const path of written) {
+    const file = current.get(path);
+    const original = baseline.get(path);
+    if (file?.blob || original?.blob || (file && file === original)) continue;
+    const after = file ? String(file.content || '') : null;
+    // An unsaved edit the run overwrote is what the user had, so the review starts from it and keeps it.
+    const conflict = editor.conflicts[path];
+    const before = conflict ? conflict.mine : original ? String(original.content || '') : null;
+    if (before === after) continue;
+
+    if (before === null) {
+      changes.set(path, { kind: 'create', path, before, after });
+      project.deleteFile(path);
+    } else if (after === null) {
+      changes.set(path, { kind: 'delete', path, before, after });
+      if (original) project.upsertFile({ ...original, content: before });
+    } else {
+      changes.set(path, { kind: 'edit', path, before, after });
+      project.updateFile(path, before);
+    }
+    if (conflict) editor.clearConflict(path);
+    else if (before !== null) editor.markSaved(path);
+  }
+
+  for (const proposal of proposals) {
+    const before = readContent(proposal.path);
+    if (before === null) {
+      // Created and then removed by the same run: nothing to review.
+      if (proposal.kind === 'delete') changes.delete(proposal.path);
+      continue;
+    }
+    if (proposal.kind === 'delete') changes.set(proposal.path, { ...proposal, before, after: null });
+    else changes.set(changeId(proposal), { ...proposal, before, after: before });
+  }
+  releaseWorkspacePersistence();
+
+  const pending = Array.from(changes.values()).sort((a, b) => a.path.localeCompare(b.path));
+  if (pending.length > 0) useReviewStore.getState().open(runId, pending);
+  return pending.length;
+};
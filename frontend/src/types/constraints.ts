@@ -8,7 +8,8 @@ export type AnalysisMode = 'strict_full';
 export type TouchBudgetMode = 'minimal' | 'adaptive';
 export type PostProcessMode = 'safety_only';
 export type GenerationProfile = 'auto' | 'static' | 'framework';
-export type DestructiveSafetyMode = 'backup_then_apply' | 'manual_confirm' | 'no_delete_move';
+// `review_changes` holds every AI edit, delete and move for review before anything is written.
+export type DestructiveSafetyMode = 'backup_then_apply' | 'review_changes' | 'no_delete_move';
 
 export interface GenerationConstraints {
   projectMode: ProjectMode;
@@ -29,11 +30,55 @@ export interface GenerationConstraints {
 
 export type ToolFeatureCategory = 'ui' | 'ux' | 'quality' | 'integration';
 
+export type FeatureRuleKind = 'html' | 'css' | 'js' | 'pattern';
+
+/** Declarative check for a user-defined feature, evaluated against the parsed project like the built-in checks. */
+export interface FeatureRule {
+  kind: FeatureRuleKind;
+  /** html: tag name or `*`; css: property name, or `@name` for an at-rule; js: callee pattern; pattern: regex source. */
+  target: string;
+  /** html: attribute name, optionally `name=regex`; css: value (or at-rule params) regex; js: first-argument regex. */
+  match?: string;
+  /** html: `head` or `body`; css: regex the enclosing at-rule params must match, e.g. `prefers-reduced-motion`. */
+  scope?: string;
+  /** Reported to repair prompts when the rule fails. */
+  message?: string;
+}
+
+export type FeatureRuleMatch = 'all' | 'any';
+
 export interface ToolFeature {
   id: string;
   labelKey: string;
   descriptionKey: string;
   category: ToolFeatureCategory;
   promptRule: string;
+  /** Fallback patterns, used when no structural check exists or the sources cannot be parsed. */
   validators: RegExp[];
+  /** Literal texts of user-defined features; built-ins are translated through the keys instead. */
+  label?: string;
+  description?: string;
+  rules?: FeatureRule[];
+  ruleMatch?: FeatureRuleMatch;
+  packId?: string;
+}
+
+export interface UserToolFeature {
+  /** Unique within its pack; registered as `<packId>/<id>`. */
+  id: string;
+  label: string;
+  description: string;
+  category: ToolFeatureCategory;
+  promptRule: string;
+  rules: FeatureRule[];
+  ruleMatch: FeatureRuleMatch;
+}
+
+export interface FeaturePack {
+  id: string;
+  name: string;
+  description: string;
+  features: UserToolFeature[];
+  createdAt: number;
+  updatedAt: number;
 }
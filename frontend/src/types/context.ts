@@ -9,6 +9,21 @@ export interface ContextBudgetState {
   status: ContextStatus;
 }
 
+export interface TokenUsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+  requests: number;
+  costUsd: number | null;
+}
+
+export interface TokenUsageReport extends TokenUsageTotals {
+  stage: 'plan' | 'generate';
+  provider: string;
+  model: string;
+}
+
 export interface CompressionSummaryBlock {
   id: string;
   range: string;
@@ -40,10 +55,51 @@ export interface MemoryLedger {
   tasks: MemoryFact[];
 }
 
+export interface ConversationSummaryFact {
+  summary: string;
+  files: string[];
+}
+
+export interface ConversationFileResponsibility {
+  path: string;
+  responsibility: string;
+}
+
+// Model-written summary of the chat messages before `coveredMessages`; absent when only heuristics ran.
+export interface ConversationSummary {
+  generatedAt: number;
+  coveredMessages: number;
+  summary: string;
+  decisions: ConversationSummaryFact[];
+  fileResponsibilities: ConversationFileResponsibility[];
+  openTasks: ConversationSummaryFact[];
+}
+
 export interface MemorySnapshot {
   version: 1;
   generatedAt: number;
   ledger: MemoryLedger;
+  conversationSummary?: ConversationSummary | null;
+}
+
+export type ProjectMemoryCategory = 'constraint' | 'decision' | 'file' | 'task';
+
+// Long-lived, user-editable memory of one workspace project; survives chat sessions.
+export interface ProjectMemoryFact {
+  id: string;
+  projectId: string;
+  text: string;
+  category: ProjectMemoryCategory;
+  source: 'user' | 'chat' | 'summary';
+  // Permanent facts are project rules sent with every request; pinned facts outrank captured ones.
+  permanent: boolean;
+  pinned: boolean;
+  relatedFiles: string[];
+  // Key of the text as first captured, so an edited or dismissed fact is not captured again.
+  sourceKey: string;
+  dismissed: boolean;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface ActiveModelProfile {
@@ -129,4 +185,6 @@ export interface WorkspaceAnalysisReport {
   confidence: number;
   coverageMetrics: WorkspaceCoverageMetrics;
   riskFlags: string[];
+  // References that name a project file which does not exist, e.g. `index.html:12 -> css/site.css (stylesheet)`.
+  brokenReferences: string[];
 }
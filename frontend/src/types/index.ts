@@ -26,3 +26,19 @@ export interface LogEntry {
   message: string;
   source?: string;
 }
+
+export type PreviewConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export type PreviewConsoleKind = 'console' | 'error' | 'rejection' | 'resource';
+
+export interface PreviewConsoleEntry {
+  id: number;
+  timestamp: number;
+  level: PreviewConsoleLevel;
+  kind: PreviewConsoleKind;
+  message: string;
+  path: string | null;
+  line: number | null;
+  column: number | null;
+  stack?: string;
+}
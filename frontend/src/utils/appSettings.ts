@@ -6,6 +6,7 @@ export type AppSettings = {
   autoOpenPreview: boolean;
   chatAutoFollow: boolean;
   preferLivePreviewRoute: boolean;
+  llmConversationSummaries: boolean;
 };
 
 export const DEFAULT_APP_SETTINGS: AppSettings = {
@@ -13,7 +14,8 @@ export const DEFAULT_APP_SETTINGS: AppSettings = {
   restoreLastSession: true,
   autoOpenPreview: true,
   chatAutoFollow: true,
-  preferLivePreviewRoute: true
+  preferLivePreviewRoute: true,
+  llmConversationSummaries: true
 };
 
 const toBoolean = (value: unknown, fallback: boolean) => {
@@ -32,7 +34,8 @@ export const normalizeAppSettings = (input: unknown): AppSettings => {
     restoreLastSession: toBoolean(source.restoreLastSession, DEFAULT_APP_SETTINGS.restoreLastSession),
     autoOpenPreview: toBoolean(source.autoOpenPreview, DEFAULT_APP_SETTINGS.autoOpenPreview),
     chatAutoFollow: toBoolean(source.chatAutoFollow, DEFAULT_APP_SETTINGS.chatAutoFollow),
-    preferLivePreviewRoute: toBoolean(source.preferLivePreviewRoute, DEFAULT_APP_SETTINGS.preferLivePreviewRoute)
+    preferLivePreviewRoute: toBoolean(source.preferLivePreviewRoute, DEFAULT_APP_SETTINGS.preferLivePreviewRoute),
+    llmConversationSummaries: toBoolean(source.llmConversationSummaries, DEFAULT_APP_SETTINGS.llmConversationSummaries)
   };
 };
 
@@ -63,3 +66,5 @@ export const patchAppSettings = (patch: Partial<AppSettings>): AppSettings => {
 };
 
 export const isChatAutoSaveEnabled = () => readAppSettings().autoSaveChats;
+
+export const isLLMConversationSummaryEnabled = () => readAppSettings().llmConversationSummaries;
@@ -0,0 +1,98 @@
+import type { ProjectFile } from '@/types';
+import { getLanguageFromExtension } from '@/utils/stackDetector';
+
+// Binary files keep an empty `content` and carry their bytes in `blob`; everything text-based skips them.
+export const MAX_BINARY_ASSET_BYTES = 5 * 1024 * 1024;
+
+const ASSET_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  eot: 'application/vnd.ms-fontobject',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  pdf: 'application/pdf'
+};
+
+export type BinaryAssetKind = 'image' | 'font' | 'audio' | 'video' | 'other';
+
+const extensionOf = (path: string) => {
+  const name = String(path || '').split('/').pop() || '';
+  const idx = name.lastIndexOf('.');
+  return idx === -1 ? '' : name.slice(idx + 1).toLowerCase();
+};
+
+export const isBinaryAssetPath = (path: string) => extensionOf(path) in ASSET_MIME_TYPES;
+
+export const isBinaryFile = (file: Pick<ProjectFile, 'blob'> | null | undefined): boolean => Boolean(file?.blob);
+
+export const assetMimeType = (path: string) => ASSET_MIME_TYPES[extensionOf(path)] || 'application/octet-stream';
+
+export const binaryAssetKind = (path: string): BinaryAssetKind => {
+  const mime = assetMimeType(path);
+  if (mime.startsWith('image/')) return 'image';
+  if (mime.startsWith('font/') || mime === 'application/vnd.ms-fontobject') return 'font';
+  if (mime.startsWith('audio/')) return 'audio';
+  if (mime.startsWith('video/')) return 'video';
+  return 'other';
+};
+
+export const createBinaryFile = (path: string, data: Blob | Uint8Array): ProjectFile => {
+  const type = assetMimeType(path);
+  const blob = data instanceof Blob ? (data.type === type ? data : data.slice(0, data.size, type)) : new Blob([new Uint8Array(data)], { type });
+  return {
+    name: path.split('/').pop() || path,
+    path,
+    content: '',
+    language: getLanguageFromExtension(path),
+    blob
+  };
+};
+
+export const formatAssetSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// One object URL per Blob, shared by the preview and the editor until the blob leaves the workspace.
+const objectUrls = new Map<Blob, string>();
+
+export const getAssetObjectUrl = (blob: Blob) => {
+  let url = objectUrls.get(blob);
+  if (!url) {
+    url = URL.createObjectURL(blob);
+    objectUrls.set(blob, url);
+  }
+  return url;
+};
+
+export const releaseAssetObjectUrls = (files: Array<{ blob?: Blob }>) => {
+  const live = new Set(files.map((file) => file.blob).filter(Boolean));
+  for (const [blob, url] of objectUrls) {
+    if (live.has(blob)) continue;
+    URL.revokeObjectURL(url);
+    objectUrls.delete(blob);
+  }
+};
+
+export const blobToBase64 = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
@@ -0,0 +1,157 @@
+import type {
+  FeaturePack,
+  FeatureRule,
+  FeatureRuleKind,
+  ToolFeature,
+  ToolFeatureCategory,
+  UserToolFeature
+} from '@/types/constraints';
+
+export const FEATURE_PACKS_EXPORT_FORMAT = 'apex-feature-packs';
+
+const RULE_KINDS: FeatureRuleKind[] = ['html', 'css', 'js', 'pattern'];
+const CATEGORIES: ToolFeatureCategory[] = ['ui', 'ux', 'quality', 'integration'];
+const MAX_TEXT = 2000;
+
+const slugify = (value: string) =>
+  String(value || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48);
+
+const text = (value: unknown, max = MAX_TEXT) => (typeof value === 'string' ? value.trim().slice(0, max) : '');
+
+/** Compiles a user-supplied pattern case-insensitively; null when it is empty or not a valid regex. */
+export const compileRulePattern = (source: string | undefined) => {
+  const clean = String(source || '').trim();
+  if (!clean) return null;
+  try {
+    return new RegExp(clean, 'i');
+  } catch {
+    return null;
+  }
+};
+
+export const createFeaturePackId = (name: string) =>
+  `${slugify(name) || 'pack'}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 5)}`;
+
+export const createEmptyFeatureRule = (kind: FeatureRuleKind = 'html'): FeatureRule => ({ kind, target: '', match: '', scope: '', message: '' });
+
+export const createEmptyUserFeature = (label = ''): UserToolFeature => ({
+  id: '',
+  label,
+  description: '',
+  category: 'quality',
+  promptRule: '',
+  rules: [],
+  ruleMatch: 'all'
+});
+
+const normalizeRule = (input: unknown, where: string): FeatureRule | null => {
+  const raw = input && typeof input === 'object' ? (input as Record<string, unknown>) : {};
+  const kind = RULE_KINDS.includes(raw.kind as FeatureRuleKind) ? (raw.kind as FeatureRuleKind) : null;
+  const target = text(raw.target, 400);
+  if (!kind || !target) return null;
+  const rule: FeatureRule = { kind, target };
+  const match = text(raw.match, 400);
+  const scope = text(raw.scope, 400);
+  const message = text(raw.message, 400);
+  if (match) rule.match = match;
+  if (scope) rule.scope = scope;
+  if (message) rule.message = message;
+
+  const patterns =
+    kind === 'pattern' || kind === 'js'
+      ? [target, kind === 'js' ? match : '']
+      : kind === 'css'
+        ? [match, scope]
+        : [match.includes('=') ? match.slice(match.indexOf('=') + 1) : ''];
+  for (const pattern of patterns) {
+    if (pattern && !compileRulePattern(pattern)) throw new Error(`${where}: "${pattern}" is not a valid regular expression`);
+  }
+  return rule;
+};
+
+const normalizeFeature = (input: unknown, index: number, packName: string): UserToolFeature => {
+  const raw = input && typeof input === 'object' ? (input as Record<string, unknown>) : {};
+  const label = text(raw.label, 120);
+  if (!label) throw new Error(`${packName}: feature #${index + 1} needs a label`);
+  const where = `${packName} / ${label}`;
+  const rules = (Array.isArray(raw.rules) ? raw.rules : [])
+    .map((rule) => normalizeRule(rule, where))
+    .filter((rule): rule is FeatureRule => Boolean(rule));
+  return {
+    id: slugify(text(raw.id, 64) || label) || `feature-${index + 1}`,
+    label,
+    description: text(raw.description, 400),
+    category: CATEGORIES.includes(raw.category as ToolFeatureCategory) ? (raw.category as ToolFeatureCategory) : 'quality',
+    promptRule: text(raw.promptRule) || label,
+    rules,
+    ruleMatch: raw.ruleMatch === 'any' ? 'any' : 'all'
+  };
+};
+
+/** Validates and cleans a pack from the editor or an import; throws with a readable message when it is unusable. */
+export const normalizeFeaturePack = (input: unknown): FeaturePack => {
+  const raw = input && typeof input === 'object' ? (input as Record<string, unknown>) : {};
+  const name = text(raw.name, 120);
+  if (!name) throw new Error('Feature pack needs a name');
+  const now = Date.now();
+
+  const features: UserToolFeature[] = [];
+  const seen = new Set<string>();
+  (Array.isArray(raw.features) ? raw.features : []).forEach((entry, index) => {
+    const feature = normalizeFeature(entry, index, name);
+    let id = feature.id;
+    for (let n = 2; seen.has(id); n++) id = `${feature.id}-${n}`;
+    seen.add(id);
+    features.push({ ...feature, id });
+  });
+
+  return {
+    id: text(raw.id, 80) || createFeaturePackId(name),
+    name,
+    description: text(raw.description, 400),
+    features,
+    createdAt: Number(raw.createdAt) > 0 ? Number(raw.createdAt) : now,
+    updatedAt: now
+  };
+};
+
+/** Accepts an export file, a bare array of packs, or a single pack. */
+export const parseFeaturePacksJson = (json: string): FeaturePack[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  const record = parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+  const list = Array.isArray(parsed) ? parsed : Array.isArray(record?.packs) ? (record?.packs as unknown[]) : [parsed];
+  if (list.length === 0) throw new Error('File contains no feature packs');
+  return list.map((pack) => normalizeFeaturePack(pack));
+};
+
+export const serializeFeaturePacks = (packs: FeaturePack[]) =>
+  JSON.stringify({ format: FEATURE_PACKS_EXPORT_FORMAT, version: 1, exportedAt: new Date().toISOString(), packs }, null, 2);
+
+export const userFeatureId = (packId: string, featureId: string) => `${packId}/${featureId}`;
+
+/** Adapts a stored feature to the `ToolFeature` shape the validator and prompt builder consume. */
+export const toToolFeature = (pack: FeaturePack, feature: UserToolFeature): ToolFeature => ({
+  id: userFeatureId(pack.id, feature.id),
+  labelKey: '',
+  descriptionKey: '',
+  category: feature.category,
+  promptRule: feature.promptRule,
+  validators: feature.rules
+    .filter((rule) => rule.kind === 'pattern')
+    .map((rule) => compileRulePattern(rule.target))
+    .filter((pattern): pattern is RegExp => Boolean(pattern)),
+  label: feature.label,
+  description: feature.description,
+  rules: feature.rules,
+  ruleMatch: feature.ruleMatch,
+  packId: pack.id
+});
@@ -0,0 +1,35 @@
+import type { FeaturePack } from '@/types/constraints';
+import { FEATURE_PACKS_STORE, openWorkspaceDb } from '@/utils/workspaceDb';
+
+const runRequest = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openWorkspaceDb();
+  const tx = db.transaction([FEATURE_PACKS_STORE], mode);
+  const req = fn(tx.objectStore(FEATURE_PACKS_STORE));
+  return await new Promise<T>((resolve, reject) => {
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const loadFeaturePacks = async (): Promise<FeaturePack[]> => {
+  const packs = (await runRequest('readonly', (store) => store.getAll())) as FeaturePack[];
+  return (Array.isArray(packs) ? packs : []).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveFeaturePacks = async (packs: FeaturePack[]) => {
+  if (packs.length === 0) return;
+  const db = await openWorkspaceDb();
+  const tx = db.transaction([FEATURE_PACKS_STORE], 'readwrite');
+  const store = tx.objectStore(FEATURE_PACKS_STORE);
+  for (const pack of packs) store.put(pack);
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const deleteFeaturePack = async (packId: string) => {
+  await runRequest('readwrite', (store) => store.delete(packId));
+};
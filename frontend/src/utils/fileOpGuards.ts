@@ -1,8 +1,9 @@
 const CONTROL_MARKER_LINE_RE =
-  /^\s*\[\[(?:PATCH_FILE|START_FILE|EDIT_FILE|EDIT_NODE|DELETE_FILE|MOVE_FILE|END_FILE|PARTIAL_FILE_CLOSED|ACTIVE_FILE|END_ACTIVE_FILE|CTX_FILE|END_CTX_FILE)\b[^\]]*\]\]\s*$/gim;
+  /^\s*\[\[(?:PATCH_FILE|PATCH_HUNKS|START_FILE|EDIT_FILE|EDIT_NODE|DELETE_FILE|MOVE_FILE|END_FILE|PARTIAL_FILE_CLOSED|ACTIVE_FILE|END_ACTIVE_FILE|CTX_FILE|END_CTX_FILE)\b[^\]]*\]\]\s*$/gim;
 
 const CONTROL_MARKER_PREFIXES = [
   '[[PATCH_FILE:',
+  '[[PATCH_HUNKS:',
   '[[START_FILE:',
   '[[EDIT_FILE:',
   '[[EDIT_NODE:',
@@ -0,0 +1,145 @@
+import { buildReferenceGraph, type ProjectReference } from '@/services/dependencyGraph';
+import { normalizeProjectPath, projectDirname } from '@/utils/projectPathResolver';
+
+export interface TreeMove {
+  from: string;
+  to: string;
+}
+
+export interface TreeReferenceRewrite {
+  // Path of the referencing file before the move.
+  path: string;
+  before: string;
+  after: string;
+  count: number;
+}
+
+type TreeInputFile = { path?: string; name?: string; content?: string };
+
+const INVALID_NAME = /[\\:*?"<>|]/;
+
+/** Returns the reason a single path segment typed into the tree cannot be used, or null. */
+export const validateTreeName = (name: string): 'empty' | 'invalid' | null => {
+  const value = String(name || '').trim();
+  if (!value) return 'empty';
+  if (value === '.' || value === '..' || INVALID_NAME.test(value) || value.split('/').some((part) => !part.trim())) return 'invalid';
+  return null;
+};
+
+export const joinTreePath = (dir: string, name: string) => normalizeProjectPath(dir ? `${dir}/${name.trim()}` : name.trim());
+
+export const isSameOrInside = (path: string, folder: string) => path === folder || path.startsWith(`${folder}/`);
+
+/** Every file move needed to take `source` (a file, or a folder and everything in it) to `target`. */
+export const planTreeMoves = (paths: string[], source: string, target: string): TreeMove[] => {
+  const from = normalizeProjectPath(source);
+  const to = normalizeProjectPath(target);
+  if (!from || !to || from === to) return [];
+  return paths
+    .map((path) => normalizeProjectPath(path))
+    .filter((path) => isSameOrInside(path, from))
+    .map((path) => ({ from: path, to: `${to}${path.slice(from.length)}` }));
+};
+
+const splitExtension = (path: string) => {
+  const slash = path.lastIndexOf('/');
+  const dot = path.lastIndexOf('.');
+  return dot > slash + 1 ? { stem: path.slice(0, dot), ext: path.slice(dot) } : { stem: path, ext: '' };
+};
+
+/** `about.html` -> `about copy.html`, then `about copy 2.html`, ... */
+export const nextDuplicatePath = (existing: Set<string>, path: string, isFolder = false) => {
+  const { stem, ext } = isFolder ? { stem: path, ext: '' } : splitExtension(path);
+  let candidate = `${stem} copy${ext}`;
+  for (let i = 2; existing.has(candidate) || [...existing].some((item) => item.startsWith(`${candidate}/`)); i++) {
+    candidate = `${stem} copy ${i}${ext}`;
+  }
+  return candidate;
+};
+
+const relativeProjectPath = (fromDir: string, to: string) => {
+  const fromParts = fromDir ? fromDir.split('/') : [];
+  const toParts = to.split('/');
+  let shared = 0;
+  while (shared < fromParts.length && shared < toParts.length - 1 && fromParts[shared] === toParts[shared]) shared++;
+  return [...fromParts.slice(shared).map(() => '..'), ...toParts.slice(shared)].join('/');
+};
+
+const hasExtension = (path: string) => /\.[^./]+$/.test(path.split('/').pop() || '');
+
+// Extensionless module specifiers keep their style: `./utils` stays extensionless, `./lib` keeps pointing at the folder.
+const specifierTarget = (pathPart: string, target: string) => {
+  if (hasExtension(pathPart) || !hasExtension(target)) return target;
+  const lastSegment = pathPart.split('/').pop() || '';
+  if (/\/index\.[^./]+$/.test(target) && lastSegment !== 'index') return target.replace(/\/index\.[^./]+$/, '');
+  return target.replace(/\.[^./]+$/, '');
+};
+
+const formatReference = (item: ProjectReference, resolved: string, newFrom: string, newTarget: string) => {
+  const [, pathPart, suffix] = item.ref.match(/^([^?#]*)([\s\S]*)$/) || [item.ref, item.ref, ''];
+  const target = specifierTarget(pathPart, newTarget);
+  if (pathPart.startsWith('/')) return `/${target}${suffix}`;
+  if (projectDirname(newFrom) === projectDirname(item.from) && newTarget === resolved) return item.ref;
+  const relative = relativeProjectPath(projectDirname(newFrom), target);
+  const needsDot = pathPart.startsWith('./') || item.kind === 'module-import' || item.kind === 'dynamic-import';
+  return `${needsDot && !relative.startsWith('../') ? './' : ''}${relative}${suffix}`;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const replaceReferenceOnLine = (line: string, from: string, to: string) => {
+  let count = 0;
+  const re = new RegExp(`(^|[\\s"'\`(=,])${escapeRegExp(from)}(?=$|[\\s"'\`),])`, 'g');
+  const next = line.replace(re, (_match, lead: string) => {
+    count++;
+    return `${lead}${to}`;
+  });
+  return { next, count };
+};
+
+/**
+ * Rewrites `href`/`src`/`import`/`url()` references affected by the moves: references to a moved file from anywhere,
+ * and relative references inside a moved file. Results are keyed by each file's path before the move.
+ */
+export const rewriteMovedReferences = (files: TreeInputFile[], moves: TreeMove[]): TreeReferenceRewrite[] => {
+  if (moves.length === 0) return [];
+  const moved = new Map(moves.map((move) => [normalizeProjectPath(move.from), normalizeProjectPath(move.to)]));
+  const { edges, references } = buildReferenceGraph(files);
+  const referrers = new Set(edges.filter((edge) => moved.has(edge.to) || moved.has(edge.from)).map((edge) => edge.from));
+  if (referrers.size === 0) return [];
+
+  const byLine = new Map<string, Map<number, Map<string, string>>>();
+  for (const item of references) {
+    if (!referrers.has(item.from) || !item.resolved || item.resolved === item.from) continue;
+    if (!moved.has(item.resolved) && !moved.has(item.from)) continue;
+    const next = formatReference(item, item.resolved, moved.get(item.from) || item.from, moved.get(item.resolved) || item.resolved);
+    if (next === item.ref) continue;
+    const lines = byLine.get(item.from) || new Map<number, Map<string, string>>();
+    const refs = lines.get(item.line) || new Map<string, string>();
+    refs.set(item.ref, next);
+    lines.set(item.line, refs);
+    byLine.set(item.from, lines);
+  }
+
+  const out: TreeReferenceRewrite[] = [];
+  for (const file of files) {
+    const path = normalizeProjectPath(file.path || file.name || '');
+    const lines = byLine.get(path);
+    if (!lines || typeof file.content !== 'string') continue;
+    const source = file.content.split('\n');
+    let count = 0;
+    for (const [lineNumber, refs] of lines) {
+      let text = source[lineNumber - 1];
+      if (text === undefined) continue;
+      for (const [from, to] of refs) {
+        const result = replaceReferenceOnLine(text, from, to);
+        text = result.next;
+        count += result.count;
+      }
+      source[lineNumber - 1] = text;
+    }
+    const after = source.join('\n');
+    if (count > 0 && after !== file.content) out.push({ path, before: file.content, after, count });
+  }
+  return out;
+};
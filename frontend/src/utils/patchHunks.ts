@@ -0,0 +1,234 @@
+import { detectLineEnding } from '@/utils/workspaceDiff';
+
+export interface PatchHunk {
+  format: 'search_replace' | 'unified';
+  search: string;
+  replace: string;
+  startLine?: number;
+}
+
+export interface PatchHunkFailure {
+  index: number;
+  reason: 'not_found' | 'ambiguous' | 'empty_anchor';
+  search: string;
+}
+
+export type PatchHunkResult =
+  | { ok: true; content: string; applied: number }
+  | { ok: false; failures: PatchHunkFailure[] };
+
+// Mirrors backend/utils/patchHunks.js so the client-side marker fallback emits the same hunks.
+const SEARCH_OPEN_RE = /^<{5,9}\s*SEARCH\s*$/;
+const DIVIDER_RE = /^={5,9}\s*$/;
+const REPLACE_CLOSE_RE = /^>{5,9}\s*REPLACE\s*$/;
+const UNIFIED_HEADER_RE = /^@@\s+-(\d+)(?:,\d+)?\s+\+\d+(?:,\d+)?\s+@@/;
+const UNIFIED_FILE_HEADER_RE = /^(?:---|\+\+\+)\s/;
+
+export const parsePatchHunks = (body: string): { hunks: PatchHunk[]; errors: string[] } => {
+  const lines = String(body || '').replace(/\r\n/g, '\n').split('\n');
+  const hunks: PatchHunk[] = [];
+  const errors: string[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (SEARCH_OPEN_RE.test(line)) {
+      const search: string[] = [];
+      const replace: string[] = [];
+      let section: 'search' | 'replace' = 'search';
+      let closed = false;
+      i += 1;
+      while (i < lines.length) {
+        const current = lines[i];
+        if (section === 'search' && DIVIDER_RE.test(current)) {
+          section = 'replace';
+        } else if (section === 'replace' && REPLACE_CLOSE_RE.test(current)) {
+          closed = true;
+          i += 1;
+          break;
+        } else if (section === 'search') {
+          search.push(current);
+        } else {
+          replace.push(current);
+        }
+        i += 1;
+      }
+      if (!closed) {
+        errors.push(`Hunk ${hunks.length + 1} is missing its ${section === 'search' ? '=======' : '>>>>>>> REPLACE'} marker`);
+        break;
+      }
+      const hunk: PatchHunk = { format: 'search_replace', search: search.join('\n'), replace: replace.join('\n') };
+      if (!hunk.search.trim()) errors.push(`Hunk ${hunks.length + 1} has an empty SEARCH anchor`);
+      hunks.push(hunk);
+      continue;
+    }
+
+    const header = line.match(UNIFIED_HEADER_RE);
+    if (header) {
+      const search: string[] = [];
+      const replace: string[] = [];
+      i += 1;
+      while (i < lines.length && !UNIFIED_HEADER_RE.test(lines[i]) && !SEARCH_OPEN_RE.test(lines[i])) {
+        const current = lines[i];
+        if (current.startsWith('\\')) {
+          // "\ No newline at end of file"
+        } else if (current.startsWith('-')) {
+          search.push(current.slice(1));
+        } else if (current.startsWith('+')) {
+          replace.push(current.slice(1));
+        } else if (current.startsWith(' ') || current === '') {
+          search.push(current.slice(1));
+          replace.push(current.slice(1));
+        } else {
+          break;
+        }
+        i += 1;
+      }
+      while (search.length > 0 && replace.length > 0 && search[search.length - 1] === '' && replace[replace.length - 1] === '') {
+        search.pop();
+        replace.pop();
+      }
+      const hunk: PatchHunk = {
+        format: 'unified',
+        search: search.join('\n'),
+        replace: replace.join('\n'),
+        startLine: Number(header[1])
+      };
+      if (!hunk.search.trim()) errors.push(`Hunk ${hunks.length + 1} has no context or removed lines to anchor on`);
+      hunks.push(hunk);
+      continue;
+    }
+
+    if (line.trim() && !UNIFIED_FILE_HEADER_RE.test(line)) {
+      errors.push(`Unexpected text outside a hunk: ${line.trim().slice(0, 80)}`);
+    }
+    i += 1;
+  }
+
+  if (hunks.length === 0 && errors.length === 0) errors.push('No hunks found');
+  return { hunks, errors };
+};
+
+export const coercePatchHunks = (raw: unknown): PatchHunk[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((item): PatchHunk | null => {
+      if (!item || typeof item !== 'object') return null;
+      const record = item as Record<string, unknown>;
+      if (typeof record.search !== 'string' || typeof record.replace !== 'string') return null;
+      const startLine = Number(record.startLine);
+      return {
+        format: record.format === 'unified' ? 'unified' : 'search_replace',
+        search: record.search,
+        replace: record.replace,
+        ...(Number.isFinite(startLine) && startLine > 0 ? { startLine } : {})
+      };
+    })
+    .filter((hunk): hunk is PatchHunk => Boolean(hunk));
+};
+
+const lineStartOffsets = (lines: string[]) => {
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    offsets.push(offset);
+    offset += line.length + 1;
+  }
+  return offsets;
+};
+
+const lineNumberAt = (text: string, offset: number) => {
+  let line = 1;
+  for (let i = 0; i < offset && i < text.length; i++) if (text.charCodeAt(i) === 10) line++;
+  return line;
+};
+
+type AnchorMatch = { start: number; end: number; line: number };
+
+const findExactMatches = (text: string, search: string): AnchorMatch[] => {
+  const matches: AnchorMatch[] = [];
+  let from = 0;
+  while (from <= text.length) {
+    const idx = text.indexOf(search, from);
+    if (idx === -1) break;
+    matches.push({ start: idx, end: idx + search.length, line: lineNumberAt(text, idx) });
+    from = idx + 1;
+  }
+  return matches;
+};
+
+// Models routinely drop trailing whitespace and CRs, so fall back to a per-line comparison that ignores them.
+const findLooseMatches = (text: string, search: string): AnchorMatch[] => {
+  const fileLines = text.split('\n');
+  const searchLines = search.split('\n').map((line) => line.trimEnd());
+  const offsets = lineStartOffsets(fileLines);
+  const matches: AnchorMatch[] = [];
+  for (let i = 0; i + searchLines.length <= fileLines.length; i++) {
+    let same = true;
+    for (let j = 0; j < searchLines.length; j++) {
+      if (fileLines[i + j].trimEnd() !== searchLines[j]) {
+        same = false;
+        break;
+      }
+    }
+    if (!same) continue;
+    const last = i + searchLines.length - 1;
+    matches.push({ start: offsets[i], end: offsets[last] + fileLines[last].length, line: i + 1 });
+  }
+  return matches;
+};
+
+const pickMatch = (matches: AnchorMatch[], hunk: PatchHunk, lineShift: number): AnchorMatch | null => {
+  if (matches.length === 1) return matches[0];
+  if (matches.length === 0 || !hunk.startLine) return null;
+  // Ambiguous anchors are only resolved by a unified header that names the line exactly.
+  const expected = hunk.startLine + lineShift;
+  return matches.find((match) => match.line === expected) || null;
+};
+
+const countNewlines = (text: string) => {
+  let n = 0;
+  for (let i = 0; i < text.length; i++) if (text.charCodeAt(i) === 10) n++;
+  return n;
+};
+
+/**
+ * Applies every hunk in order or none of them: a single unmatched or ambiguous
+ * anchor fails the whole patch so the file is never left half-edited. Matching
+ * runs on LF text; the result goes back to the file's own line ending.
+ */
+export const applyPatchHunks = (content: string, hunks: PatchHunk[]): PatchHunkResult => {
+  const failures: PatchHunkFailure[] = [];
+  const eol = detectLineEnding(content);
+  let text = String(content ?? '').replace(/\r\n/g, '\n');
+  let lineShift = 0;
+
+  hunks.forEach((hunk, index) => {
+    const search = hunk.search.replace(/\r\n/g, '\n');
+    if (!search.trim()) {
+      failures.push({ index, reason: 'empty_anchor', search });
+      return;
+    }
+    let matches = findExactMatches(text, search);
+    if (matches.length === 0) matches = findLooseMatches(text, search);
+    const match = pickMatch(matches, hunk, lineShift);
+    if (!match) {
+      failures.push({ index, reason: matches.length > 1 ? 'ambiguous' : 'not_found', search });
+      return;
+    }
+    const replace = hunk.replace.replace(/\r\n/g, '\n');
+    text = `${text.slice(0, match.start)}${replace}${text.slice(match.end)}`;
+    lineShift += countNewlines(replace) - countNewlines(search);
+  });
+
+  if (failures.length > 0) return { ok: false, failures };
+  return { ok: true, content: eol === '\n' ? text : text.replace(/\n/g, eol), applied: hunks.length };
+};
+
+export const describePatchHunkFailure = (failure: PatchHunkFailure) => {
+  const anchor = failure.search.split('\n').find((line) => line.trim())?.trim().slice(0, 80) || '';
+  if (failure.reason === 'empty_anchor') return `hunk ${failure.index + 1}: empty SEARCH anchor`;
+  if (failure.reason === 'ambiguous') return `hunk ${failure.index + 1}: anchor matches more than once ("${anchor}")`;
+  return `hunk ${failure.index + 1}: anchor not found ("${anchor}")`;
+};
@@ -0,0 +1,99 @@
+import type { PlanStep } from '@/stores/aiStore';
+
+// Pure edits for the plan editor. Step ids stay stable so `depends_on` keeps pointing at the same work
+// after reordering; edits that remove an id rewrite the references to it.
+
+const uniqueStepId = (steps: PlanStep[], base: string) => {
+  const taken = new Set(steps.map((step) => step.id));
+  for (let n = 2; ; n++) {
+    const candidate = `${base}.${n}`;
+    if (!taken.has(candidate)) return candidate;
+  }
+};
+
+const replaceDependency = (step: PlanStep, from: string, to: string[]) => {
+  const deps = Array.isArray(step.depends_on) ? step.depends_on.map(String) : [];
+  if (!deps.includes(from)) return step;
+  const next = Array.from(new Set(deps.flatMap((dep) => (dep === from ? to : [dep])))).filter((dep) => dep !== step.id);
+  return { ...step, depends_on: next };
+};
+
+export const parsePlanFilesInput = (value: string) =>
+  Array.from(
+    new Set(
+      String(value || '')
+        .split(/[\n,]+/)
+        .map((entry) => entry.trim().replace(/\\/g, '/'))
+        .filter(Boolean)
+    )
+  );
+
+export const movePlanStep = (steps: PlanStep[], index: number, offset: -1 | 1) => {
+  const target = index + offset;
+  if (index < 0 || index >= steps.length || target < 0 || target >= steps.length) return steps;
+  const next = [...steps];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+export const updatePlanStep = (steps: PlanStep[], stepId: string, patch: Partial<Pick<PlanStep, 'title' | 'description' | 'files' | 'notes'>>) =>
+  steps.map((step) => (step.id === stepId ? { ...step, ...patch } : step));
+
+export const deletePlanStep = (steps: PlanStep[], stepId: string) => {
+  const removed = steps.find((step) => step.id === stepId);
+  if (!removed) return steps;
+  // Dependents inherit the removed step's own upstream so the ordering it implied survives.
+  const inherited = Array.isArray(removed.depends_on) ? removed.depends_on.map(String) : [];
+  return steps.filter((step) => step.id !== stepId).map((step) => replaceDependency(step, stepId, inherited));
+};
+
+/** Splits a step in two after itself; target files are divided between the halves and the second half depends on the first. */
+export const splitPlanStep = (steps: PlanStep[], stepId: string) => {
+  const index = steps.findIndex((step) => step.id === stepId);
+  if (index < 0) return steps;
+  const original = steps[index];
+  const files = Array.isArray(original.files) ? original.files : [];
+  const cut = Math.ceil(files.length / 2);
+  const secondId = uniqueStepId(steps, original.id);
+  const first: PlanStep = { ...original, title: `${original.title} (1/2)`, files: files.slice(0, cut) };
+  const second: PlanStep = {
+    ...original,
+    id: secondId,
+    title: `${original.title} (2/2)`,
+    files: files.length > 1 ? files.slice(cut) : files,
+    depends_on: [original.id],
+    notes: undefined,
+    completed: false,
+    status: 'pending',
+    statusDetail: undefined,
+    usage: undefined
+  };
+  const rewired = steps.map((step) => (step.id === original.id ? step : replaceDependency(step, original.id, [original.id, secondId])));
+  return [...rewired.slice(0, index), first, second, ...rewired.slice(index + 1)];
+};
+
+/** Folds the step after `stepId` into it: titles, descriptions and notes are joined and files unioned. */
+export const mergePlanStepWithNext = (steps: PlanStep[], stepId: string) => {
+  const index = steps.findIndex((step) => step.id === stepId);
+  if (index < 0 || index >= steps.length - 1) return steps;
+  const keep = steps[index];
+  const absorbed = steps[index + 1];
+  const join = (a?: string, b?: string) => [a, b].map((part) => String(part || '').trim()).filter(Boolean).join('\n');
+  const merged: PlanStep = {
+    ...keep,
+    title: `${keep.title} + ${absorbed.title}`,
+    description: join(keep.description, absorbed.description),
+    notes: join(keep.notes, absorbed.notes) || undefined,
+    files: Array.from(new Set([...(keep.files || []), ...(absorbed.files || [])])),
+    depends_on: Array.from(
+      new Set([...(keep.depends_on || []), ...(absorbed.depends_on || [])].map(String).filter((dep) => dep !== keep.id && dep !== absorbed.id))
+    ),
+    estimatedSize: keep.estimatedSize === 'large' || absorbed.estimatedSize === 'large' ? 'large' : 'medium',
+    completed: false,
+    status: 'pending',
+    statusDetail: undefined
+  };
+  return steps
+    .filter((step) => step.id !== absorbed.id)
+    .map((step) => (step.id === keep.id ? merged : replaceDependency(step, absorbed.id, [keep.id])));
+};
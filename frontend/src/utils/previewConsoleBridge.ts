@@ -0,0 +1,208 @@
+import type { PreviewConsoleEntry, PreviewConsoleKind, PreviewConsoleLevel } from '@/types';
+
+export const PREVIEW_CONSOLE_MESSAGE_TYPE = 'apex-preview-console';
+
+const MAX_MESSAGE_CHARS = 2000;
+const MAX_STACK_CHARS = 4000;
+const LEVELS: PreviewConsoleLevel[] = ['log', 'info', 'warn', 'error', 'debug'];
+const KINDS: PreviewConsoleKind[] = ['console', 'error', 'rejection', 'resource'];
+
+type RawBridgeMessage = {
+  type?: unknown;
+  token?: unknown;
+  level?: unknown;
+  kind?: unknown;
+  message?: unknown;
+  source?: unknown;
+  line?: unknown;
+  column?: unknown;
+  stack?: unknown;
+  route?: unknown;
+  hash?: unknown;
+};
+
+// Runs first inside the sandboxed iframe; it cannot import anything, so it is kept as plain ES5.
+// Besides console capture it routes clicks on rewritten page links (`data-apex-route`) back to the parent.
+const BRIDGE_SOURCE = `(function () {
+  var TYPE = __TYPE__;
+  var TOKEN = __TOKEN__;
+  var HASH = __HASH__;
+  var send = function (payload) {
+    try {
+      payload.type = TYPE;
+      payload.token = TOKEN;
+      window.parent.postMessage(payload, '*');
+    } catch (e) {}
+  };
+  var format = function (value) {
+    if (value instanceof Error) return value.stack || value.name + ': ' + value.message;
+    if (typeof value === 'string') return value;
+    try {
+      var json = JSON.stringify(value);
+      return json === undefined ? String(value) : json;
+    } catch (e) {
+      return String(value);
+    }
+  };
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      var args = Array.prototype.slice.call(arguments);
+      send({ kind: 'console', level: level, message: args.map(format).join(' ') });
+      if (original) original.apply(console, arguments);
+    };
+  });
+  window.addEventListener('error', function (event) {
+    var target = event.target;
+    if (target && target !== window && (target.src || target.href)) {
+      send({ kind: 'resource', level: 'error', message: 'Failed to load <' + String(target.tagName || '').toLowerCase() + '>', source: target.src || target.href });
+      return;
+    }
+    send({
+      kind: 'error',
+      level: 'error',
+      message: event.message || 'Uncaught error',
+      source: event.filename,
+      line: event.lineno,
+      column: event.colno,
+      stack: event.error && event.error.stack
+    });
+  }, true);
+  var scrollToHash = function (hash) {
+    var id = decodeURIComponent(String(hash || '').replace(/^#/, ''));
+    var target = id ? document.getElementById(id) || document.getElementsByName(id)[0] : null;
+    if (target && target.scrollIntoView) target.scrollIntoView();
+  };
+  document.addEventListener('click', function (event) {
+    if (event.defaultPrevented || event.button !== 0) return;
+    var node = event.target;
+    while (node && node.nodeType === 1 && String(node.tagName).toUpperCase() !== 'A') node = node.parentNode;
+    if (!node || node.nodeType !== 1) return;
+    var route = node.getAttribute('data-apex-route');
+    var href = node.getAttribute('href') || '';
+    if (route) {
+      event.preventDefault();
+      send({ kind: 'navigate', route: route, hash: node.getAttribute('data-apex-hash') || '' });
+    } else if (href.charAt(0) === '#') {
+      event.preventDefault();
+      scrollToHash(href);
+    }
+  });
+  if (HASH) {
+    document.addEventListener('DOMContentLoaded', function () {
+      scrollToHash(HASH);
+    });
+  }
+  window.addEventListener('unhandledrejection', function (event) {
+    var reason = event.reason;
+    send({
+      kind: 'rejection',
+      level: 'error',
+      message: 'Unhandled promise rejection: ' + format(reason && reason.message ? reason.message : reason),
+      stack: reason && reason.stack
+    });
+  });
+})();`;
+
+// Replacer functions, so `$&`, `$'` and the like in a hash from the address bar are inserted as written.
+export const buildPreviewConsoleBridgeScript = (token: string, hash = '') =>
+  BRIDGE_SOURCE.replace('__TYPE__', () => JSON.stringify(PREVIEW_CONSOLE_MESSAGE_TYPE))
+    .replace('__TOKEN__', () => JSON.stringify(token))
+    .replace('__HASH__', () => JSON.stringify(hash).replace(/</g, '\\u003c'));
+
+/** Inserts the bridge as the first script of the document so it wraps `console` before project code runs. */
+export const injectPreviewConsoleBridge = (html: string, token: string, hash = '') => {
+  const tag = `<script data-apex-preview-bridge="1">${buildPreviewConsoleBridgeScript(token, hash)}</script>`;
+  // `<head(\s...)?>` so a page without <head> does not get the bridge inside its first <header>.
+  const headOpen = /<head(\s[^>]*)?>/i;
+  if (headOpen.test(html)) return html.replace(headOpen, (match) => `${match}${tag}`);
+  return `${tag}${html}`;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Rewrites data URLs (and `about:srcdoc`, the page on screen) in preview output back to the project paths they were built from.
+ * Unknown data URLs are shortened so a base64 payload never ends up in a prompt.
+ */
+export const createPreviewLocationMapper = (urlToPath: Map<string, string>, getPagePath: () => string | null) => {
+  const urls = Array.from(urlToPath.keys()).sort((a, b) => b.length - a.length);
+  const pattern = urls.length > 0 ? new RegExp(urls.map(escapeRegExp).join('|'), 'g') : null;
+
+  const mapText = (text: string) => {
+    let out = String(text || '');
+    if (pattern) out = out.replace(pattern, (url) => urlToPath.get(url) || url);
+    const pagePath = getPagePath();
+    if (pagePath) out = out.replace(/about:srcdoc/g, pagePath);
+    return out.replace(/data:[a-z]+\/[a-z0-9.+-]+;base64,[A-Za-z0-9+/=]{24,}/gi, (url) => `${url.slice(0, url.indexOf(',') + 1)}…`);
+  };
+
+  const mapSource = (source: string) => {
+    const clean = String(source || '').trim();
+    if (!clean) return null;
+    if (urlToPath.has(clean)) return urlToPath.get(clean) || null;
+    if (clean === 'about:srcdoc') return getPagePath();
+    return mapText(clean);
+  };
+
+  return { mapText, mapSource };
+};
+
+const toPositiveInt = (value: unknown) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : null;
+};
+
+/** Validates a posted bridge message and maps its locations; returns null for anything that is not ours. */
+export const parsePreviewConsoleMessage = (
+  data: unknown,
+  token: string,
+  mapper: ReturnType<typeof createPreviewLocationMapper>
+): Omit<PreviewConsoleEntry, 'id'> | null => {
+  if (!data || typeof data !== 'object') return null;
+  const raw = data as RawBridgeMessage;
+  if (raw.type !== PREVIEW_CONSOLE_MESSAGE_TYPE || raw.token !== token || raw.kind === 'navigate') return null;
+
+  const level = LEVELS.includes(raw.level as PreviewConsoleLevel) ? (raw.level as PreviewConsoleLevel) : 'log';
+  const kind = KINDS.includes(raw.kind as PreviewConsoleKind) ? (raw.kind as PreviewConsoleKind) : 'console';
+  const stack = typeof raw.stack === 'string' && raw.stack ? mapper.mapText(raw.stack).slice(0, MAX_STACK_CHARS) : undefined;
+
+  let path = typeof raw.source === 'string' ? mapper.mapSource(raw.source) : null;
+  let line = toPositiveInt(raw.line);
+  let column = toPositiveInt(raw.column);
+  if (!path && stack) {
+    // Console errors carry no filename; take the first frame that points at a project file.
+    const frame = stack.match(/([\w./-]+\.(?:m?js|jsx|cjs|html?)):(\d+):(\d+)/);
+    if (frame) {
+      path = frame[1];
+      line = Number(frame[2]);
+      column = Number(frame[3]);
+    }
+  }
+
+  return {
+    timestamp: Date.now(),
+    level,
+    kind,
+    message: mapper.mapText(String(raw.message ?? '')).slice(0, MAX_MESSAGE_CHARS),
+    path,
+    line,
+    column,
+    stack
+  };
+};
+
+/** Reads a link click the bridge forwarded from a rewritten `<a data-apex-route>`. */
+export const parsePreviewNavigateMessage = (data: unknown, token: string): { route: string; hash: string } | null => {
+  if (!data || typeof data !== 'object') return null;
+  const raw = data as RawBridgeMessage;
+  if (raw.type !== PREVIEW_CONSOLE_MESSAGE_TYPE || raw.token !== token || raw.kind !== 'navigate') return null;
+  if (typeof raw.route !== 'string' || !raw.route) return null;
+  return { route: raw.route, hash: typeof raw.hash === 'string' ? raw.hash : '' };
+};
+
+export const formatPreviewConsoleLocation = (entry: Pick<PreviewConsoleEntry, 'path' | 'line' | 'column'>) => {
+  if (!entry.path) return '';
+  if (!entry.line) return entry.path;
+  return `${entry.path}:${entry.line}${entry.column ? `:${entry.column}` : ''}`;
+};
@@ -0,0 +1,128 @@
+export type PreviewRoute = {
+  /** Address shown in the preview address bar, e.g. `/` or `/pages/about.html`. */
+  path: string;
+  /** Project-relative HTML file the route renders. */
+  file: string;
+  title: string;
+};
+
+export type PreviewHistory = {
+  entries: Array<{ file: string; hash: string }>;
+  index: number;
+};
+
+export const EMPTY_PREVIEW_HISTORY: PreviewHistory = { entries: [], index: -1 };
+
+const normalizeRoutePath = (value: string) =>
+  String(value || '')
+    .replace(/\\/g, '/')
+    .replace(/^\.\//, '')
+    .replace(/\/+/g, '/')
+    .replace(/^\//, '')
+    .trim();
+
+const titleFromFile = (file: string) => {
+  const base = (file.split('/').pop() || file).replace(/\.html?$/i, '');
+  if (base.toLowerCase() === 'index') {
+    const parent = file.split('/').slice(-2, -1)[0];
+    return parent ? parent.replace(/[-_]+/g, ' ') : 'Home';
+  }
+  return base.replace(/[-_]+/g, ' ');
+};
+
+type RawRoute = { path?: unknown; file?: unknown; title?: unknown; name?: unknown };
+
+const readSiteMapRoutes = (siteMapContent: string): RawRoute[] => {
+  try {
+    const parsed = JSON.parse(siteMapContent) as unknown;
+    if (Array.isArray(parsed)) return parsed as RawRoute[];
+    if (parsed && typeof parsed === 'object') {
+      const record = parsed as Record<string, unknown>;
+      if (Array.isArray(record.routes)) return record.routes as RawRoute[];
+      if (Array.isArray(record.pages)) return record.pages as RawRoute[];
+      // `{ "/about": "pages/about.html" }`
+      return Object.entries(record)
+        .filter(([, file]) => typeof file === 'string')
+        .map(([path, file]) => ({ path, file }));
+    }
+  } catch {
+    // an unparseable site map falls back to the discovered pages
+  }
+  return [];
+};
+
+/**
+ * Builds the route table from `site-map.json` when it maps to real pages, then appends every other HTML
+ * page so the picker can still reach it. The entry page always comes first.
+ */
+export const buildPreviewRoutes = (
+  pagePaths: string[],
+  entryPath: string,
+  siteMapContent: string | null,
+  rootDir = ''
+): PreviewRoute[] => {
+  const pages = new Set(pagePaths);
+  const routes: PreviewRoute[] = [];
+  const seenFiles = new Set<string>();
+  const prefix = rootDir ? `${rootDir}/` : '';
+
+  const resolvePage = (file: string) => {
+    const clean = normalizeRoutePath(file);
+    if (pages.has(clean)) return clean;
+    if (pages.has(`${prefix}${clean}`)) return `${prefix}${clean}`;
+    return null;
+  };
+
+  for (const raw of siteMapContent ? readSiteMapRoutes(siteMapContent) : []) {
+    const fileValue = typeof raw.file === 'string' ? raw.file : typeof raw.path === 'string' ? raw.path : '';
+    const file = resolvePage(fileValue) || resolvePage(`${normalizeRoutePath(fileValue)}/index.html`);
+    if (!file || seenFiles.has(file)) continue;
+    seenFiles.add(file);
+    const title = typeof raw.title === 'string' ? raw.title : typeof raw.name === 'string' ? raw.name : titleFromFile(file);
+    const path = typeof raw.path === 'string' && raw.path.trim() ? `/${normalizeRoutePath(raw.path)}` : `/${file}`;
+    routes.push({ path, file, title });
+  }
+
+  const remaining = pagePaths.filter((file) => !seenFiles.has(file)).sort((a, b) => a.localeCompare(b));
+  for (const file of remaining) {
+    const relative = prefix && file.startsWith(prefix) ? file.slice(prefix.length) : file;
+    routes.push({ path: file === entryPath ? '/' : `/${relative}`, file, title: titleFromFile(file) });
+  }
+
+  const entryIndex = routes.findIndex((route) => route.file === entryPath);
+  if (entryIndex > 0) routes.unshift(...routes.splice(entryIndex, 1));
+  return routes;
+};
+
+/** Resolves what the user typed in the address bar to a page file, or null when nothing matches. */
+export const resolvePreviewRouteInput = (input: string, routes: PreviewRoute[]): { file: string; hash: string } | null => {
+  const [withoutHash, hash = ''] = String(input || '').trim().split('#', 2);
+  const clean = normalizeRoutePath(withoutHash.split('?')[0] || '');
+  const hashSuffix = hash ? `#${hash}` : '';
+
+  const byPath = routes.find((route) => normalizeRoutePath(route.path) === clean);
+  if (byPath) return { file: byPath.file, hash: hashSuffix };
+
+  const candidates = [clean, `${clean}.html`, `${clean}/index.html`.replace(/^\//, '')];
+  for (const candidate of candidates) {
+    const match = routes.find((route) => route.file === candidate || route.file.endsWith(`/${candidate}`));
+    if (match) return { file: match.file, hash: hashSuffix };
+  }
+  return null;
+};
+
+export const routeForFile = (file: string, routes: PreviewRoute[]) =>
+  routes.find((route) => route.file === file) || { path: `/${file}`, file, title: titleFromFile(file) };
+
+export const pushPreviewHistory = (history: PreviewHistory, file: string, hash = ''): PreviewHistory => {
+  const current = history.entries[history.index];
+  if (current && current.file === file && current.hash === hash) return history;
+  const entries = [...history.entries.slice(0, history.index + 1), { file, hash }];
+  return { entries, index: entries.length - 1 };
+};
+
+export const stepPreviewHistory = (history: PreviewHistory, delta: -1 | 1): PreviewHistory => {
+  const index = history.index + delta;
+  if (index < 0 || index >= history.entries.length) return history;
+  return { ...history, index };
+};
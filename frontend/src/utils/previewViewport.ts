@@ -0,0 +1,73 @@
+export type PreviewDevicePreset = 'responsive' | 'phone' | 'tablet' | 'desktop' | 'custom';
+
+export type PreviewViewport = {
+  preset: PreviewDevicePreset;
+  /** Used by the `custom` preset only; fixed presets take their size from `PREVIEW_DEVICE_SIZES`. */
+  width: number;
+  height: number;
+  rotated: boolean;
+  fit: boolean;
+  grid: boolean;
+};
+
+export type PreviewViewportSize = { width: number; height: number };
+
+export const PREVIEW_DEVICE_SIZES: Record<'phone' | 'tablet' | 'desktop', PreviewViewportSize & { label: string }> = {
+  phone: { label: 'Phone', width: 390, height: 844 },
+  tablet: { label: 'Tablet', width: 820, height: 1180 },
+  desktop: { label: 'Desktop', width: 1440, height: 900 }
+};
+
+/** Breakpoints rendered side by side in grid mode, narrowest first. */
+export const PREVIEW_GRID_PRESETS = ['phone', 'tablet', 'desktop'] as const;
+
+export const DEFAULT_PREVIEW_VIEWPORT: PreviewViewport = {
+  preset: 'responsive',
+  width: 1280,
+  height: 800,
+  rotated: false,
+  fit: true,
+  grid: false
+};
+
+const MIN_SIZE = 200;
+const MAX_SIZE = 4096;
+
+const clampSize = (value: unknown, fallback: number) => {
+  const n = Math.round(Number(value));
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(MAX_SIZE, Math.max(MIN_SIZE, n));
+};
+
+export const normalizePreviewViewport = (input: unknown): PreviewViewport => {
+  const source = input && typeof input === 'object' ? (input as Record<string, unknown>) : {};
+  const preset = ['responsive', 'phone', 'tablet', 'desktop', 'custom'].includes(String(source.preset))
+    ? (source.preset as PreviewDevicePreset)
+    : DEFAULT_PREVIEW_VIEWPORT.preset;
+  return {
+    preset,
+    width: clampSize(source.width, DEFAULT_PREVIEW_VIEWPORT.width),
+    height: clampSize(source.height, DEFAULT_PREVIEW_VIEWPORT.height),
+    rotated: source.rotated === true,
+    fit: source.fit !== false,
+    grid: source.grid === true
+  };
+};
+
+/** Pixel size the page is laid out at, or null when it should simply fill the panel. */
+export const resolvePreviewViewportSize = (
+  viewport: Pick<PreviewViewport, 'preset' | 'width' | 'height' | 'rotated'>
+): PreviewViewportSize | null => {
+  if (viewport.preset === 'responsive') return null;
+  const base =
+    viewport.preset === 'custom'
+      ? { width: viewport.width, height: viewport.height }
+      : PREVIEW_DEVICE_SIZES[viewport.preset];
+  return viewport.rotated ? { width: base.height, height: base.width } : { width: base.width, height: base.height };
+};
+
+/** Scale that fits `size` inside `bounds` without upscaling. */
+export const fitPreviewScale = (size: PreviewViewportSize, bounds: PreviewViewportSize) => {
+  if (bounds.width <= 0 || bounds.height <= 0) return 1;
+  return Math.min(1, bounds.width / size.width, bounds.height / size.height);
+};
@@ -0,0 +1,231 @@
+import JSZip from 'jszip';
+import type { ProjectFile } from '@/types';
+import { isFirstPartyPath } from '@/services/workspaceIntelligence';
+import { createBinaryFile, isBinaryAssetPath, MAX_BINARY_ASSET_BYTES } from '@/utils/binaryAssets';
+import { sanitizeOperationPath } from '@/utils/fileOpGuards';
+import { getLanguageFromExtension } from '@/utils/stackDetector';
+
+export type ProjectImportSkipReason = 'ignored' | 'binary' | 'too_large' | 'limit';
+
+export interface ProjectImportResult {
+  name: string;
+  files: ProjectFile[];
+  skipped: Array<{ path: string; reason: ProjectImportSkipReason }>;
+}
+
+// `read` resolves null once the entry turns out to be larger than `maxBytes`.
+type ImportEntry = { path: string; size: number; read: (maxBytes: number) => Promise<Uint8Array | null> };
+
+const MAX_FILE_BYTES = 512 * 1024;
+const MAX_TOTAL_BYTES = 24 * 1024 * 1024;
+const MAX_FILES = 1500;
+
+const JUNK_NAMES = new Set(['.ds_store', 'thumbs.db', 'desktop.ini']);
+const JUNK_SEGMENTS = new Set(['__macosx']);
+
+// Binary files that are not web assets (see binaryAssets.ts) are left out.
+const BINARY_EXTENSIONS = new Set(['tiff', 'psd', 'mov', 'zip', 'gz', 'tgz', 'rar', '7z', 'exe', 'dll', 'wasm']);
+
+const extensionOf = (path: string) => {
+  const name = path.split('/').pop() || '';
+  const idx = name.lastIndexOf('.');
+  return idx === -1 ? '' : name.slice(idx + 1).toLowerCase();
+};
+
+const isJunkPath = (path: string) => {
+  const segments = path.split('/');
+  return JUNK_NAMES.has((segments[segments.length - 1] || '').toLowerCase()) || segments.some((s) => JUNK_SEGMENTS.has(s.toLowerCase()));
+};
+
+const decodeText = (bytes: Uint8Array): string | null => {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return text.includes('\u0000') ? null : text.replace(/^\uFEFF/, '');
+  } catch {
+    return null;
+  }
+};
+
+// Archives and dropped folders usually wrap everything in one top-level folder; it becomes the project name.
+const splitCommonRoot = (paths: string[]) => {
+  const first = paths[0]?.split('/')[0] || '';
+  if (!first || paths.some((path) => !path.startsWith(`${first}/`))) return { root: '', strip: (path: string) => path };
+  return { root: first, strip: (path: string) => path.slice(first.length + 1) };
+};
+
+const collectEntries = async (entries: ImportEntry[], fallbackName: string): Promise<ProjectImportResult> => {
+  const skipped: ProjectImportResult['skipped'] = [];
+  const candidates = entries
+    .map((entry) => ({ ...entry, path: sanitizeOperationPath(entry.path) }))
+    .filter((entry) => entry.path && !isJunkPath(entry.path));
+  const { root, strip } = splitCommonRoot(candidates.map((entry) => entry.path));
+
+  const files: ProjectFile[] = [];
+  let totalBytes = 0;
+  for (const entry of candidates.sort((a, b) => a.path.localeCompare(b.path))) {
+    const path = strip(entry.path);
+    if (!isFirstPartyPath(path)) {
+      skipped.push({ path, reason: 'ignored' });
+      continue;
+    }
+    if (BINARY_EXTENSIONS.has(extensionOf(path))) {
+      skipped.push({ path, reason: 'binary' });
+      continue;
+    }
+    const isAsset = isBinaryAssetPath(path);
+    const maxBytes = isAsset ? MAX_BINARY_ASSET_BYTES : MAX_FILE_BYTES;
+    if (entry.size > maxBytes) {
+      skipped.push({ path, reason: 'too_large' });
+      continue;
+    }
+    if (files.length >= MAX_FILES || totalBytes >= MAX_TOTAL_BYTES || totalBytes + entry.size > MAX_TOTAL_BYTES) {
+      skipped.push({ path, reason: 'limit' });
+      continue;
+    }
+    // A zip entry's declared size can lie, so reading stops as soon as either cap is passed.
+    const remaining = MAX_TOTAL_BYTES - totalBytes;
+    const bytes = await entry.read(Math.min(maxBytes, remaining));
+    if (!bytes || bytes.byteLength > maxBytes || totalBytes + bytes.byteLength > MAX_TOTAL_BYTES) {
+      skipped.push({ path, reason: remaining < maxBytes ? 'limit' : 'too_large' });
+      continue;
+    }
+    if (isAsset) {
+      totalBytes += bytes.byteLength;
+      files.push(createBinaryFile(path, bytes));
+      continue;
+    }
+    const content = decodeText(bytes);
+    if (content === null) {
+      skipped.push({ path, reason: 'binary' });
+      continue;
+    }
+    totalBytes += bytes.byteLength;
+    files.push({ name: path.split('/').pop() || path, path, content, language: getLanguageFromExtension(path) });
+  }
+
+  return { name: root || fallbackName, files, skipped };
+};
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+// JSZip keeps the central directory's uncompressed size and a chunked reader on each entry without typing them.
+type ZipEntryInternals = JSZip.JSZipObject & {
+  _data?: { uncompressedSize?: unknown };
+  internalStream?: (type: 'uint8array') => JSZip.JSZipStreamHelper<Uint8Array>;
+};
+
+/**
+ * The uncompressed size the archive declares for an entry, or 0 when it is unknown. `_data` is private to JSZip
+ * (checked against 3.10.1); if it goes away, reading still stops at the caps, only later.
+ */
+const declaredZipEntrySize = (entry: ZipEntryInternals) => {
+  const size = entry._data?.uncompressedSize;
+  return typeof size === 'number' && Number.isFinite(size) && size > 0 ? size : 0;
+};
+
+const readZipEntry = (entry: ZipEntryInternals, maxBytes: number) =>
+  new Promise<Uint8Array | null>((resolve, reject) => {
+    if (!entry.internalStream) {
+      entry.async('uint8array').then((bytes) => resolve(bytes.byteLength > maxBytes ? null : bytes), reject);
+      return;
+    }
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const stream = entry.internalStream('uint8array');
+    stream
+      .on('data', (chunk) => {
+        size += chunk.byteLength;
+        if (size > maxBytes) {
+          stream.pause();
+          resolve(null);
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on('error', reject)
+      .on('end', () => {
+        const bytes = new Uint8Array(size);
+        let offset = 0;
+        for (const chunk of chunks) {
+          bytes.set(chunk, offset);
+          offset += chunk.byteLength;
+        }
+        resolve(bytes);
+      })
+      .resume();
+  });
+
+export const readZipImport = async (file: File): Promise<ProjectImportResult> => {
+  // loadAsync reads the whole archive into memory, so an archive over the import cap is refused before that.
+  if (file.size > MAX_TOTAL_BYTES) {
+    throw new Error(`The archive is larger than ${Math.round(MAX_TOTAL_BYTES / (1024 * 1024))} MB.`);
+  }
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const entries: ImportEntry[] = [];
+  zip.forEach((path, entry: ZipEntryInternals) => {
+    if (entry.dir) return;
+    entries.push({
+      path,
+      size: declaredZipEntrySize(entry),
+      read: (maxBytes) => readZipEntry(entry, maxBytes)
+    });
+  });
+  return collectEntries(entries, stripExtension(file.name));
+};
+
+export const isZipFile = (file: File) => /\.zip$/i.test(file.name) || file.type === 'application/zip';
+
+/** Files from a multi-file or folder picker; folder pickers fill in `webkitRelativePath`. */
+export const readFileListImport = async (files: File[], fallbackName: string): Promise<ProjectImportResult> =>
+  collectEntries(
+    files.map((file) => ({
+      path: file.webkitRelativePath || file.name,
+      size: file.size,
+      read: async (maxBytes) => (file.size > maxBytes ? null : new Uint8Array(await file.arrayBuffer()))
+    })),
+    fallbackName
+  );
+
+const readDirectoryEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryFile = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+const walkEntry = async (entry: FileSystemEntry, out: ImportEntry[]) => {
+  if (entry.isFile) {
+    const file = await entryFile(entry as FileSystemFileEntry);
+    out.push({
+      path: entry.fullPath.replace(/^\/+/, ''),
+      size: file.size,
+      read: async (maxBytes) => (file.size > maxBytes ? null : new Uint8Array(await file.arrayBuffer()))
+    });
+    return;
+  }
+  if (!entry.isDirectory) return;
+  // Ignored folders such as node_modules are not even listed; they can hold tens of thousands of files.
+  // The dropped folder itself is exempt, so dropping a "dist" folder still imports it.
+  const inner = entry.fullPath.split('/').filter(Boolean).slice(1);
+  if (inner.length > 0 && !isFirstPartyPath(inner.join('/'))) return;
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries returns results in batches until it yields an empty one.
+  for (;;) {
+    const batch = await readDirectoryEntries(reader);
+    if (batch.length === 0) break;
+    for (const child of batch) await walkEntry(child, out);
+  }
+};
+
+/** A drop of one ZIP archive, one or more folders, or loose files. Returns null when nothing usable was dropped. */
+export const readDroppedImport = async (dataTransfer: DataTransfer): Promise<ProjectImportResult | null> => {
+  const files = Array.from(dataTransfer.files);
+  if (files.length === 1 && isZipFile(files[0])) return readZipImport(files[0]);
+
+  const roots = Array.from(dataTransfer.items)
+    .map((item) => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => Boolean(entry));
+  if (roots.length === 0) return files.length > 0 ? readFileListImport(files, 'Imported project') : null;
+
+  const entries: ImportEntry[] = [];
+  for (const root of roots) await walkEntry(root, entries);
+  return collectEntries(entries, 'Imported project');
+};
@@ -0,0 +1,46 @@
+import type { ProjectMemoryFact } from '@/types/context';
+import { PROJECT_MEMORY_STORE, openWorkspaceDb } from '@/utils/workspaceDb';
+
+const runRequest = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openWorkspaceDb();
+  const tx = db.transaction([PROJECT_MEMORY_STORE], mode);
+  const req = fn(tx.objectStore(PROJECT_MEMORY_STORE));
+  return await new Promise<T>((resolve, reject) => {
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const loadProjectMemory = async (projectId: string): Promise<ProjectMemoryFact[]> => {
+  const id = String(projectId || '').trim();
+  if (!id) return [];
+  const facts = (await runRequest('readonly', (store) => store.index('by_projectId').getAll(id))) as ProjectMemoryFact[];
+  return Array.isArray(facts) ? facts : [];
+};
+
+export const saveProjectMemoryFacts = async (facts: ProjectMemoryFact[]) => {
+  if (facts.length === 0) return;
+  const db = await openWorkspaceDb();
+  const tx = db.transaction([PROJECT_MEMORY_STORE], 'readwrite');
+  const store = tx.objectStore(PROJECT_MEMORY_STORE);
+  for (const fact of facts) store.put(fact);
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const deleteProjectMemoryFacts = async (factIds: string[]) => {
+  if (factIds.length === 0) return;
+  const db = await openWorkspaceDb();
+  const tx = db.transaction([PROJECT_MEMORY_STORE], 'readwrite');
+  const store = tx.objectStore(PROJECT_MEMORY_STORE);
+  for (const id of factIds) store.delete(id);
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
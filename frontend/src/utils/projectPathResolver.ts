@@ -0,0 +1,154 @@
+// Resolves a reference found in one project file (`href`, `src`, `import`, `url()`, ...) to a project path.
+// Shared by the preview renderer and the dependency graph so both agree on what a reference points at.
+
+export interface ProjectPathResolution {
+  path: string;
+  // True when the reference only matched by suffix or file name rather than an exact candidate path.
+  autoMapped: boolean;
+}
+
+export const isExternalReference = (value: string) => {
+  const trimmed = String(value || '').trim();
+  if (!trimmed) return false;
+  if (/^(?:[a-z][a-z0-9+.-]*:)?\/\//i.test(trimmed)) return true;
+  return (
+    trimmed.startsWith('data:') ||
+    trimmed.startsWith('blob:') ||
+    trimmed.startsWith('mailto:') ||
+    trimmed.startsWith('tel:') ||
+    trimmed.startsWith('javascript:') ||
+    trimmed.startsWith('#')
+  );
+};
+
+export const normalizeProjectPath = (value: string) =>
+  String(value || '')
+    .replace(/\\/g, '/')
+    .replace(/^\.\//, '')
+    .replace(/\/+/g, '/')
+    .replace(/^\//, '')
+    .trim();
+
+export const projectDirname = (value: string) => {
+  const clean = normalizeProjectPath(value);
+  const idx = clean.lastIndexOf('/');
+  return idx === -1 ? '' : clean.slice(0, idx);
+};
+
+export const joinProjectPath = (baseDir: string, relativePath: string) => {
+  const base = normalizeProjectPath(baseDir);
+  const rel = normalizeProjectPath(relativePath);
+  if (!rel) return base;
+  const normalized: string[] = [];
+  for (const part of [...(base ? base.split('/') : []), ...rel.split('/')]) {
+    if (!part || part === '.') continue;
+    if (part === '..') {
+      normalized.pop();
+      continue;
+    }
+    normalized.push(part);
+  }
+  return normalized.join('/');
+};
+
+const extensionOf = (value: string) => {
+  const clean = normalizeProjectPath(value);
+  const idx = clean.lastIndexOf('.');
+  return idx === -1 ? '' : clean.slice(idx + 1).toLowerCase();
+};
+
+/**
+ * Builds a resolver over `paths`. Candidates are tried in order (relative to the referencing file, then the
+ * `frontend/`, `src/` and `public/` layouts); failing that, the best suffix or same-name match is auto-mapped.
+ * `getRootDir` supplies the site root for `/absolute` references once the entry page is known.
+ */
+export const createProjectPathResolver = (paths: string[], getRootDir: () => string = () => '') => {
+  const pathSet = new Set(paths.map(normalizeProjectPath).filter(Boolean));
+  const allPaths = Array.from(pathSet);
+  const fileNameIndex = new Map<string, string[]>();
+  for (const path of allPaths) {
+    const base = path.split('/').pop() || path;
+    const list = fileNameIndex.get(base) || [];
+    list.push(path);
+    fileNameIndex.set(base, list);
+  }
+
+  return (fromPath: string, reference: string): ProjectPathResolution | null => {
+    if (!reference) return null;
+    if (isExternalReference(reference)) return null;
+    const cleanRef = normalizeProjectPath(reference);
+    if (!cleanRef) return null;
+    const projectRootDir = getRootDir();
+
+    const candidates: string[] = [];
+    const pushCandidate = (candidate: string) => {
+      const clean = normalizeProjectPath(candidate);
+      if (!clean) return;
+      if (!candidates.includes(clean)) candidates.push(clean);
+    };
+
+    const addSrcFallbacks = (candidate: string) => {
+      const clean = normalizeProjectPath(candidate);
+      if (!clean) return;
+      const srcPrefix = 'src/';
+      if (!clean.startsWith(srcPrefix)) return;
+      const withoutSrc = clean.slice(srcPrefix.length);
+      pushCandidate(`frontend/src/${withoutSrc}`);
+      pushCandidate(`frontend/src/assets/${withoutSrc}`);
+      pushCandidate(`frontend/assets/${withoutSrc}`);
+    };
+
+    if (reference.startsWith('/')) {
+      pushCandidate(joinProjectPath(projectRootDir, cleanRef));
+      pushCandidate(cleanRef);
+      pushCandidate(`frontend/${cleanRef}`);
+      pushCandidate(`frontend/src/${cleanRef}`);
+      pushCandidate(`frontend/public/${cleanRef}`);
+      pushCandidate(`public/${cleanRef}`);
+      addSrcFallbacks(cleanRef);
+    } else {
+      const joined = joinProjectPath(projectDirname(fromPath), cleanRef);
+      pushCandidate(joined);
+      pushCandidate(`frontend/${joined}`);
+      pushCandidate(`frontend/src/${joined}`);
+      pushCandidate(`frontend/public/${cleanRef}`);
+      pushCandidate(`public/${cleanRef}`);
+      addSrcFallbacks(cleanRef);
+      addSrcFallbacks(joined);
+    }
+
+    for (const candidate of candidates) {
+      if (pathSet.has(candidate)) return { path: candidate, autoMapped: false };
+    }
+
+    const suffixMatches = allPaths.filter((path) => path === cleanRef || path.endsWith(`/${cleanRef}`));
+    const fromRoot = normalizeProjectPath(fromPath).startsWith('backend/')
+      ? 'backend/'
+      : projectRootDir
+        ? `${normalizeProjectPath(projectRootDir)}/`
+        : '';
+    const referenceName = cleanRef.split('/').pop() || '';
+    const referenceExt = extensionOf(cleanRef);
+    const preferredByName = referenceName ? fileNameIndex.get(referenceName) || [] : [];
+    const pool = suffixMatches.length > 0 ? suffixMatches : preferredByName;
+    if (pool.length === 0) return null;
+
+    const scored = pool
+      .map((path) => {
+        const ext = extensionOf(path);
+        const score =
+          (path.startsWith(fromRoot) ? 22 : 0) +
+          (path.endsWith(`/${cleanRef}`) ? 14 : 0) +
+          (referenceExt && ext === referenceExt ? 10 : 0) +
+          (path.includes('/assets/icons/') ? 16 : 0) +
+          (path.includes('/assets/') ? 10 : 0) +
+          (path.includes('/src/') ? 4 : 0) -
+          path.length * 0.001;
+        return { path, score };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    const winner = scored[0]?.path;
+    return winner ? { path: winner, autoMapped: true } : null;
+  };
+};
@@ -4,7 +4,8 @@ import type {
   ActiveModelProfile,
   CompressionSnapshot,
   ContextBudgetState,
-  MemorySnapshot
+  MemorySnapshot,
+  TokenUsageTotals
 } from '@/types/context';
 import type { DestructiveSafetyMode, GenerationProfile, TouchBudgetMode } from '@/types/constraints';
 
@@ -20,11 +21,14 @@ export type StoredPlanStep = {
   title: string;
   completed: boolean;
   category?: 'config' | 'frontend' | 'backend' | 'integration' | 'testing' | 'deployment' | 'tasks';
-  status?: 'pending' | 'in_progress' | 'completed' | 'blocked';
+  status?: 'pending' | 'in_progress' | 'completed' | 'failed' | 'blocked' | 'skipped';
+  statusDetail?: string;
+  notes?: string;
   files?: string[];
   description?: string;
   estimatedSize?: 'small' | 'medium' | 'large';
   depends_on?: string[];
+  usage?: TokenUsageTotals;
 };
 
 export type StoredHistorySession = {
@@ -60,6 +64,7 @@ export type StoredHistorySession = {
   completedFiles?: string[];
   lastSuccessfulFile?: string | null;
   lastSuccessfulLine?: number;
+  usage?: TokenUsageTotals;
 };
 
 const MAX_HISTORY_SESSIONS = 120;
@@ -82,7 +87,9 @@ const coerceGenerationProfile = (value: unknown): GenerationProfile => {
 
 const coerceDestructiveSafetyMode = (value: unknown): DestructiveSafetyMode => {
   const normalized = String(value || '').trim().toLowerCase();
-  if (normalized === 'manual_confirm' || normalized === 'no_delete_move') return normalized;
+  if (normalized === 'review_changes' || normalized === 'no_delete_move') return normalized;
+  // Projects saved before review mode used `manual_confirm`, which review mode replaces.
+  if (normalized === 'manual_confirm') return 'review_changes';
   return 'backup_then_apply';
 };
 
@@ -205,6 +212,7 @@ export const clearAllSessionsFromDisk = async () => {
 };
 
 export const archiveCurrentWorkspaceAsSession = async (
+  projectId: string,
   session: Omit<
     StoredHistorySession,
     | 'projectFiles'
@@ -222,13 +230,14 @@ export const archiveCurrentWorkspaceAsSession = async (
     | 'description'
   >
 ) => {
-  const workspace = await loadWorkspace().catch(() => ({ meta: null as any, files: [] as any[] }));
+  const workspace = await loadWorkspace(projectId).catch(() => ({ meta: null as any, files: [] as any[] }));
   const projectFiles: ProjectFile[] = Array.isArray(workspace.files)
     ? workspace.files.map((f: any) => ({
         name: String(f?.name || f?.path || ''),
         path: String(f?.path || f?.name || ''),
         content: String(f?.content || ''),
-        language: f?.language
+        language: f?.language,
+        ...(f?.blob instanceof Blob ? { blob: f.blob } : {})
       }))
     : [];
 
@@ -0,0 +1,369 @@
+import { parse as parseJavaScript } from 'acorn';
+
+/**
+ * Lightweight structural parsers for generated static sites: an HTML element tree, a CSS rule tree and a
+ * JavaScript AST, all carrying 1-based line numbers so findings can point at the exact place to repair.
+ */
+
+const buildLineIndex = (source: string) => {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source.charCodeAt(i) === 10) starts.push(i + 1);
+  }
+  return (offset: number) => {
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (starts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo + 1;
+  };
+};
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+export type HtmlNode = {
+  /** Lowercase tag name; `#document` for the root. */
+  tag: string;
+  attrs: Record<string, string>;
+  line: number;
+  children: HtmlNode[];
+  parent: HtmlNode | null;
+  /** Direct text content; the raw body for `<script>`, `<style>`, `<title>` and `<textarea>`. */
+  text: string;
+  /** Line the text content starts on. */
+  textLine: number;
+};
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'title', 'textarea']);
+const ATTR_RE = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const parseAttributes = (source: string) => {
+  const attrs: Record<string, string> = {};
+  ATTR_RE.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTR_RE.exec(source)) !== null) {
+    const name = match[1].toLowerCase();
+    if (!(name in attrs)) attrs[name] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attrs;
+};
+
+/** Finds the `>` closing a start tag, skipping quoted attribute values. */
+const findTagEnd = (source: string, from: number) => {
+  let quote = '';
+  for (let i = from; i < source.length; i++) {
+    const ch = source[i];
+    if (quote) {
+      if (ch === quote) quote = '';
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '>') {
+      return i;
+    }
+  }
+  return -1;
+};
+
+export const parseHtmlDocument = (source: string): HtmlNode => {
+  const text = String(source || '');
+  const lineAt = buildLineIndex(text);
+  const root: HtmlNode = { tag: '#document', attrs: {}, line: 1, children: [], parent: null, text: '', textLine: 1 };
+  const stack: HtmlNode[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const appendText = (value: string, offset: number) => {
+    const node = current();
+    if (!value.trim()) return;
+    if (!node.text) node.textLine = lineAt(offset);
+    node.text += value;
+  };
+
+  let pos = 0;
+  while (pos < text.length) {
+    const lt = text.indexOf('<', pos);
+    if (lt < 0) {
+      appendText(text.slice(pos), pos);
+      break;
+    }
+    if (lt > pos) appendText(text.slice(pos, lt), pos);
+
+    if (text.startsWith('<!--', lt)) {
+      const end = text.indexOf('-->', lt + 4);
+      pos = end < 0 ? text.length : end + 3;
+      continue;
+    }
+    if (text[lt + 1] === '!' || text[lt + 1] === '?') {
+      const end = text.indexOf('>', lt);
+      pos = end < 0 ? text.length : end + 1;
+      continue;
+    }
+
+    const closing = /^<\/([a-zA-Z][\w:-]*)[^>]*>/.exec(text.slice(lt, lt + 256));
+    if (closing) {
+      const tag = closing[1].toLowerCase();
+      const index = stack.map((node) => node.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      pos = lt + closing[0].length;
+      continue;
+    }
+
+    const opening = /^<([a-zA-Z][\w:-]*)/.exec(text.slice(lt, lt + 128));
+    if (!opening) {
+      appendText('<', lt);
+      pos = lt + 1;
+      continue;
+    }
+
+    const end = findTagEnd(text, lt + opening[0].length);
+    if (end < 0) break;
+    const tag = opening[1].toLowerCase();
+    const rawAttrs = text.slice(lt + opening[0].length, end);
+    const node: HtmlNode = {
+      tag,
+      attrs: parseAttributes(rawAttrs),
+      line: lineAt(lt),
+      children: [],
+      parent: current(),
+      text: '',
+      textLine: lineAt(end + 1)
+    };
+    current().children.push(node);
+    pos = end + 1;
+
+    if (VOID_TAGS.has(tag) || rawAttrs.trim().endsWith('/')) continue;
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const close = text.slice(pos).search(new RegExp(`</${tag}\\s*>`, 'i'));
+      const bodyEnd = close < 0 ? text.length : pos + close;
+      node.text = text.slice(pos, bodyEnd);
+      pos = close < 0 ? text.length : text.indexOf('>', bodyEnd) + 1;
+      continue;
+    }
+    stack.push(node);
+  }
+
+  return root;
+};
+
+export const walkHtml = (node: HtmlNode, visit: (node: HtmlNode) => void) => {
+  for (const child of node.children) {
+    visit(child);
+    walkHtml(child, visit);
+  }
+};
+
+export const findHtmlElements = (root: HtmlNode, predicate: (node: HtmlNode) => boolean) => {
+  const out: HtmlNode[] = [];
+  walkHtml(root, (node) => {
+    if (predicate(node)) out.push(node);
+  });
+  return out;
+};
+
+export const hasHtmlAncestor = (node: HtmlNode, tag: string) => {
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (parent.tag === tag) return true;
+  }
+  return false;
+};
+
+/** Short label such as `<button#theme-toggle.btn>` for use in findings. */
+export const describeHtmlElement = (node: HtmlNode) => {
+  const id = node.attrs.id ? `#${node.attrs.id}` : '';
+  const firstClass = String(node.attrs.class || '').trim().split(/\s+/)[0];
+  return `<${node.tag}${id}${firstClass ? `.${firstClass}` : ''}>`;
+};
+
+// ---------------------------------------------------------------------------
+// CSS
+// ---------------------------------------------------------------------------
+
+export type CssDeclaration = { property: string; value: string; line: number };
+
+export type CssNode = {
+  kind: 'rule' | 'at-rule';
+  /** Selector list for rules, parameters for at-rules. */
+  prelude: string;
+  /** Lowercase at-rule name without `@` (`media`, `keyframes`, ...); empty for rules. */
+  name: string;
+  line: number;
+  declarations: CssDeclaration[];
+  children: CssNode[];
+};
+
+const stripCssComments = (source: string) =>
+  source.replace(/\/\*[\s\S]*?(?:\*\/|$)/g, (comment) => comment.replace(/[^\n]/g, ' '));
+
+export const parseCssRules = (source: string): CssNode[] => {
+  const text = stripCssComments(String(source || ''));
+  const lineAt = buildLineIndex(text);
+  let pos = 0;
+
+  // Reads up to the next `{`, `;` or `}` outside strings and parentheses.
+  const readSegment = () => {
+    const start = pos;
+    let quote = '';
+    let depth = 0;
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (quote) {
+        if (ch === '\\') pos++;
+        else if (ch === quote) quote = '';
+      } else if (ch === '"' || ch === "'") {
+        quote = ch;
+      } else if (ch === '(') {
+        depth++;
+      } else if (ch === ')') {
+        depth = Math.max(0, depth - 1);
+      } else if (depth === 0 && (ch === '{' || ch === ';' || ch === '}')) {
+        break;
+      }
+      pos++;
+    }
+    const raw = text.slice(start, pos);
+    const lead = raw.length - raw.trimStart().length;
+    return { value: raw.trim(), line: lineAt(start + lead), terminator: text[pos] || '' };
+  };
+
+  const parseBlock = (target: { declarations: CssDeclaration[]; children: CssNode[] }) => {
+    while (pos < text.length) {
+      const segment = readSegment();
+      if (segment.terminator === '{') {
+        pos++;
+        const atRule = /^@([\w-]+)\s*([\s\S]*)$/.exec(segment.value);
+        const node: CssNode = {
+          kind: atRule ? 'at-rule' : 'rule',
+          prelude: atRule ? atRule[2].trim() : segment.value,
+          name: atRule ? atRule[1].toLowerCase() : '',
+          line: segment.line,
+          declarations: [],
+          children: []
+        };
+        target.children.push(node);
+        parseBlock(node);
+        continue;
+      }
+
+      if (segment.value.startsWith('@')) {
+        const atRule = /^@([\w-]+)\s*([\s\S]*)$/.exec(segment.value);
+        if (atRule) {
+          target.children.push({
+            kind: 'at-rule',
+            prelude: atRule[2].trim(),
+            name: atRule[1].toLowerCase(),
+            line: segment.line,
+            declarations: [],
+            children: []
+          });
+        }
+      } else if (segment.value.includes(':')) {
+        const colon = segment.value.indexOf(':');
+        const property = segment.value.slice(0, colon).trim().toLowerCase();
+        if (property) {
+          target.declarations.push({ property, value: segment.value.slice(colon + 1).trim(), line: segment.line });
+        }
+      }
+
+      pos++;
+      if (segment.terminator === '}' || segment.terminator === '') return;
+    }
+  };
+
+  const root = { declarations: [] as CssDeclaration[], children: [] as CssNode[] };
+  while (pos < text.length) parseBlock(root);
+  return root.children;
+};
+
+export const walkCss = (nodes: CssNode[], visit: (node: CssNode, ancestors: CssNode[]) => void, ancestors: CssNode[] = []) => {
+  for (const node of nodes) {
+    visit(node, ancestors);
+    walkCss(node.children, visit, [...ancestors, node]);
+  }
+};
+
+/** True when the block, or anything nested in it, declares at least one property. */
+export const cssBlockHasRules = (node: CssNode): boolean =>
+  node.declarations.length > 0 || node.children.some((child) => cssBlockHasRules(child));
+
+// ---------------------------------------------------------------------------
+// JavaScript
+// ---------------------------------------------------------------------------
+
+export type JsNode = {
+  type: string;
+  loc?: { start: { line: number; column: number } };
+  [key: string]: unknown;
+};
+
+/** Parses as a module first and falls back to a classic script; returns null when neither parses (JSX, TS, broken code). */
+export const parseScriptAst = (source: string): JsNode | null => {
+  const text = String(source || '');
+  for (const sourceType of ['module', 'script'] as const) {
+    try {
+      return parseJavaScript(text, {
+        ecmaVersion: 'latest',
+        sourceType,
+        locations: true,
+        allowHashBang: true,
+        allowReturnOutsideFunction: sourceType === 'script'
+      }) as unknown as JsNode;
+    } catch {
+      // try the next source type
+    }
+  }
+  return null;
+};
+
+export const isJsNode = (value: unknown): value is JsNode =>
+  Boolean(value) && typeof value === 'object' && typeof (value as { type?: unknown }).type === 'string';
+
+export const walkJs = (node: JsNode, visit: (node: JsNode, ancestors: JsNode[]) => void, ancestors: JsNode[] = []) => {
+  visit(node, ancestors);
+  const nextAncestors = [...ancestors, node];
+  for (const key of Object.keys(node)) {
+    if (key === 'loc' || key === 'start' || key === 'end') continue;
+    const value = node[key];
+    if (Array.isArray(value)) {
+      for (const item of value) if (isJsNode(item)) walkJs(item, visit, nextAncestors);
+    } else if (isJsNode(value)) {
+      walkJs(value, visit, nextAncestors);
+    }
+  }
+};
+
+/** Dotted name of an identifier or member chain, e.g. `window.localStorage.setItem`; empty when not static. */
+export const jsMemberPath = (node: unknown): string => {
+  if (!isJsNode(node)) return '';
+  if (node.type === 'Identifier') return String(node.name || '');
+  if (node.type === 'ThisExpression') return 'this';
+  if (node.type === 'ChainExpression') return jsMemberPath(node.expression);
+  if (node.type === 'MemberExpression') {
+    const object = jsMemberPath(node.object);
+    const property = node.computed ? jsStringValue(node.property) : isJsNode(node.property) ? String(node.property.name || '') : '';
+    if (!object || !property) return '';
+    return `${object}.${property}`;
+  }
+  return '';
+};
+
+/** Value of a string literal or an expression-free template literal. */
+export const jsStringValue = (node: unknown): string | null => {
+  if (!isJsNode(node)) return null;
+  if (node.type === 'Literal' && typeof node.value === 'string') return node.value;
+  if (node.type === 'TemplateLiteral') {
+    const quasis = Array.isArray(node.quasis) ? (node.quasis as JsNode[]) : [];
+    const expressions = Array.isArray(node.expressions) ? node.expressions : [];
+    if (expressions.length === 0 && quasis.length === 1) {
+      const value = quasis[0].value as { cooked?: string } | undefined;
+      return value?.cooked ?? null;
+    }
+  }
+  return null;
+};
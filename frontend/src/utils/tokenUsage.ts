@@ -0,0 +1,85 @@
+import type { TokenUsageReport, TokenUsageTotals } from '@/types/context';
+
+export const EMPTY_TOKEN_USAGE: TokenUsageTotals = {
+  promptTokens: 0,
+  completionTokens: 0,
+  reasoningTokens: 0,
+  totalTokens: 0,
+  requests: 0,
+  costUsd: null
+};
+
+const toCount = (value: unknown) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.round(n) : 0;
+};
+
+const toCost = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+};
+
+export const coerceTokenUsageTotals = (raw: unknown): TokenUsageTotals => {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  return {
+    promptTokens: toCount(value.promptTokens),
+    completionTokens: toCount(value.completionTokens),
+    reasoningTokens: toCount(value.reasoningTokens),
+    totalTokens: toCount(value.totalTokens),
+    requests: toCount(value.requests),
+    costUsd: toCost(value.costUsd)
+  };
+};
+
+export const parseTokenUsageReport = (raw: unknown): TokenUsageReport | null => {
+  let value: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  const totals = coerceTokenUsageTotals(record);
+  if (totals.requests === 0 && totals.totalTokens === 0) return null;
+  return {
+    ...totals,
+    stage: record.stage === 'plan' ? 'plan' : 'generate',
+    provider: String(record.provider || ''),
+    model: String(record.model || '')
+  };
+};
+
+export const addTokenUsage = (base: TokenUsageTotals | null | undefined, delta: TokenUsageTotals): TokenUsageTotals => {
+  const a = base || EMPTY_TOKEN_USAGE;
+  const costUsd =
+    a.costUsd === null && delta.costUsd === null
+      ? null
+      : Math.round(((a.costUsd || 0) + (delta.costUsd || 0)) * 1e6) / 1e6;
+  return {
+    promptTokens: a.promptTokens + delta.promptTokens,
+    completionTokens: a.completionTokens + delta.completionTokens,
+    reasoningTokens: a.reasoningTokens + delta.reasoningTokens,
+    totalTokens: a.totalTokens + delta.totalTokens,
+    requests: a.requests + delta.requests,
+    costUsd
+  };
+};
+
+export const formatTokenCount = (value: number) => {
+  const n = Math.max(0, Number(value) || 0);
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(2)}M`;
+  if (n >= 10_000) return `${Math.round(n / 1000)}k`;
+  if (n >= 1000) return `${(n / 1000).toFixed(1)}k`;
+  return String(n);
+};
+
+export const formatUsageCost = (value: number | null) => {
+  if (value === null || !Number.isFinite(value)) return '—';
+  if (value === 0) return '$0';
+  if (value < 0.01) return `$${value.toFixed(4)}`;
+  return `$${value.toFixed(2)}`;
+};
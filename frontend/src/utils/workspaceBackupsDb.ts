@@ -3,6 +3,7 @@ import { applyWorkspaceDelta, BACKUPS_STORE, FILE_STORE, openWorkspaceDb } from
 
 export type WorkspaceBackupRecord = {
   id: string;
+  projectId: string;
   updatedAt: number;
   reason: string;
   paths: string[];
@@ -11,6 +12,7 @@ export type WorkspaceBackupRecord = {
     name: string;
     content: string;
     language?: string;
+    blob?: Blob;
   }>;
 };
 
@@ -38,7 +40,7 @@ export const isSensitiveWorkspacePath = (path: string) => {
   return SENSITIVE_PATTERNS.some((pattern) => pattern.test(normalized));
 };
 
-const pruneBackups = async (store: IDBObjectStore) => {
+const pruneBackups = async (store: IDBObjectStore, projectId: string) => {
   const ids: string[] = [];
   await new Promise<void>((resolve, reject) => {
     const req = store.index('by_updatedAt').openCursor(null, 'prev');
@@ -48,7 +50,7 @@ const pruneBackups = async (store: IDBObjectStore) => {
         resolve();
         return;
       }
-      ids.push(String(cursor.primaryKey || ''));
+      if (cursor.value?.projectId === projectId) ids.push(String(cursor.primaryKey || ''));
       cursor.continue();
     };
     req.onerror = () => reject(req.error);
@@ -59,7 +61,9 @@ const pruneBackups = async (store: IDBObjectStore) => {
   }
 };
 
-export const createWorkspaceBackup = async (args: { reason: string; paths: string[] }) => {
+export const createWorkspaceBackup = async (args: { projectId: string; reason: string; paths: string[] }) => {
+  const projectId = String(args.projectId || '').trim();
+  if (!projectId) return null;
   const normalizedPaths = Array.from(new Set((args.paths || []).map((path) => normalizePath(path)).filter(Boolean)));
   if (normalizedPaths.length === 0) return null;
 
@@ -71,7 +75,7 @@ export const createWorkspaceBackup = async (args: { reason: string; paths: strin
   const files: WorkspaceBackupRecord['files'] = [];
   for (const path of normalizedPaths) {
     const record = await new Promise<any>((resolve, reject) => {
-      const req = fileStore.get(path);
+      const req = fileStore.get([projectId, path]);
       req.onsuccess = () => resolve(req.result);
       req.onerror = () => reject(req.error);
     });
@@ -80,7 +84,8 @@ export const createWorkspaceBackup = async (args: { reason: string; paths: strin
       path,
       name: record.name || path.split('/').pop() || path,
       content: String(record.content || ''),
-      language: record.language
+      language: record.language,
+      ...(record.blob ? { blob: record.blob } : {})
     });
   }
 
@@ -96,6 +101,7 @@ export const createWorkspaceBackup = async (args: { reason: string; paths: strin
   const updatedAt = Date.now();
   const backup: WorkspaceBackupRecord = {
     id: `backup-${updatedAt}-${Math.random().toString(36).slice(2, 8)}`,
+    projectId,
     updatedAt,
     reason: String(args.reason || 'pre-destructive-operation').slice(0, 160),
     paths: normalizedPaths,
@@ -103,7 +109,7 @@ export const createWorkspaceBackup = async (args: { reason: string; paths: strin
   };
 
   backupStore.put(backup);
-  await pruneBackups(backupStore);
+  await pruneBackups(backupStore, projectId);
 
   await new Promise<void>((resolve, reject) => {
     tx.oncomplete = () => resolve();
@@ -114,7 +120,9 @@ export const createWorkspaceBackup = async (args: { reason: string; paths: strin
   return backup;
 };
 
-export const loadWorkspaceBackups = async (limit = 40): Promise<WorkspaceBackupRecord[]> => {
+export const loadWorkspaceBackups = async (projectId: string, limit = 40): Promise<WorkspaceBackupRecord[]> => {
+  const id = String(projectId || '').trim();
+  if (!id) return [];
   const db = await openWorkspaceDb();
   const tx = db.transaction([BACKUPS_STORE], 'readonly');
   const store = tx.objectStore(BACKUPS_STORE);
@@ -127,7 +135,7 @@ export const loadWorkspaceBackups = async (limit = 40): Promise<WorkspaceBackupR
         resolve(out);
         return;
       }
-      out.push(cursor.value as WorkspaceBackupRecord);
+      if (cursor.value?.projectId === id) out.push(cursor.value as WorkspaceBackupRecord);
       cursor.continue();
     };
     req.onerror = () => reject(req.error);
@@ -145,14 +153,15 @@ export const restoreWorkspaceBackup = async (backupId: string) => {
     req.onsuccess = () => resolve((req.result as WorkspaceBackupRecord) || null);
     req.onerror = () => reject(req.error);
   });
-  if (!backup || !Array.isArray(backup.files) || backup.files.length === 0) return false;
+  if (!backup?.projectId || !Array.isArray(backup.files) || backup.files.length === 0) return false;
 
   const upsertFiles: ProjectFile[] = backup.files.map((file) => ({
     name: file.name,
     path: file.path,
     content: file.content,
-    language: file.language
+    language: file.language,
+    ...(file.blob ? { blob: file.blob } : {})
   }));
-  await applyWorkspaceDelta({ upsertFiles });
+  await applyWorkspaceDelta({ projectId: backup.projectId, upsertFiles });
   return true;
 };
@@ -1,9 +1,11 @@
 import type { FileStructure, ProjectFile } from '@/types';
 import type { DestructiveSafetyMode, GenerationProfile, TouchBudgetMode } from '@/types/constraints';
+import type { ProjectMemoryFact } from '@/types/context';
 
 export type WorkspaceMetaRecord = {
-  key: 'current';
-  version: 3;
+  key: string;
+  version: 4;
+  createdAt: number;
   updatedAt: number;
   projectId: string;
   projectName: string;
@@ -21,15 +23,25 @@ export type WorkspaceMetaRecord = {
 };
 
 export type WorkspaceFileRecord = {
+  projectId: string;
   path: string;
   name: string;
   content: string;
   language?: string;
+  blob?: Blob;
   updatedAt: number;
 };
 
-export type WorkspaceJournalRecord = {
+export type WorkspaceJournalChange = {
+  path: string;
+  // null means the file did not exist on that side of the operation.
+  before: string | null;
+  after: string | null;
+};
+
+export type WorkspaceDeltaJournalRecord = {
   id: string;
+  projectId: string;
   updatedAt: number;
   type: 'delta';
   upserts: number;
@@ -38,27 +50,61 @@ export type WorkspaceJournalRecord = {
   hasMetaUpdate: boolean;
 };
 
+export type WorkspaceOperationJournalRecord = {
+  id: string;
+  projectId: string;
+  updatedAt: number;
+  type: 'operation';
+  runId: string | null;
+  label: string;
+  changes: WorkspaceJournalChange[];
+  undone: boolean;
+};
+
+export type WorkspaceJournalRecord = WorkspaceDeltaJournalRecord | WorkspaceOperationJournalRecord;
+
 export type WorkspaceCheckpointRecord = {
   id: string;
+  projectId: string;
   updatedAt: number;
   label: string;
   meta: WorkspaceMetaRecord | null;
   files: WorkspaceFileRecord[];
 };
 
+export type WorkspaceProjectSummary = {
+  projectId: string;
+  projectName: string;
+  description: string;
+  stack: string;
+  fileCount: number;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type WorkspaceMetaInput = Omit<WorkspaceMetaRecord, 'key' | 'version' | 'createdAt' | 'updatedAt'>;
+
 export const DB_NAME = 'apex-coding-workspace';
-export const DB_VERSION = 3;
+export const DB_VERSION = 6;
 export const META_STORE = 'meta';
 export const FILE_STORE = 'files';
 export const SESSIONS_STORE = 'sessions';
 export const JOURNAL_STORE = 'journals';
 export const CHECKPOINT_STORE = 'checkpoints';
 export const BACKUPS_STORE = 'backups';
+// Organization-wide, not project-scoped: user-defined feature packs.
+export const FEATURE_PACKS_STORE = 'featurePacks';
+export const PROJECT_MEMORY_STORE = 'projectMemory';
 
 const MAX_JOURNAL_RECORDS = 500;
+const MAX_JOURNAL_OPERATIONS = 200;
 const MAX_CHECKPOINT_RECORDS = 30;
+// v1-v3 kept a single meta record under this key and keyed files by path alone.
+const LEGACY_META_KEY = 'current';
 
 let dbPromise: Promise<IDBDatabase> | null = null;
+// Operations recorded within the same millisecond still need a stable order for undo/redo.
+let lastOperationStamp = 0;
 
 const coerceProjectType = (_value: unknown): 'FRONTEND_ONLY' => 'FRONTEND_ONLY';
 
@@ -70,7 +116,9 @@ const coerceGenerationProfile = (value: unknown): GenerationProfile => {
 
 const coerceDestructiveSafetyMode = (value: unknown): DestructiveSafetyMode => {
   const normalized = String(value || '').trim().toLowerCase();
-  if (normalized === 'manual_confirm' || normalized === 'no_delete_move') return normalized;
+  if (normalized === 'review_changes' || normalized === 'no_delete_move') return normalized;
+  // Projects saved before review mode used `manual_confirm`, which review mode replaces.
+  if (normalized === 'manual_confirm') return 'review_changes';
   return 'backup_then_apply';
 };
 
@@ -80,6 +128,11 @@ const coerceTouchBudgetMode = (value: unknown): TouchBudgetMode => {
   return 'adaptive';
 };
 
+const normalizeProjectId = (value: unknown) => String(value || '').trim();
+
+export const createWorkspaceProjectId = () =>
+  `project-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
 const asPromise = <T>(req: IDBRequest<T>): Promise<T> =>
   new Promise((resolve, reject) => {
     req.onsuccess = () => resolve(req.result);
@@ -92,11 +145,37 @@ const ensureIndex = (store: IDBObjectStore, name: string, keyPath: string) => {
   }
 };
 
+const buildMetaRecord = (
+  projectId: string,
+  meta: Partial<WorkspaceMetaInput>,
+  timestamps: { createdAt: number; updatedAt: number }
+): WorkspaceMetaRecord => ({
+  key: projectId,
+  version: 4,
+  createdAt: timestamps.createdAt,
+  updatedAt: timestamps.updatedAt,
+  projectId,
+  projectName: meta.projectName ?? '',
+  projectType: 'FRONTEND_ONLY',
+  selectedFeatures: Array.isArray(meta.selectedFeatures) ? meta.selectedFeatures : [],
+  customFeatureTags: Array.isArray(meta.customFeatureTags) ? meta.customFeatureTags : [],
+  constraintsEnforcement: meta.constraintsEnforcement ?? 'hard',
+  stack: meta.stack ?? '',
+  description: meta.description ?? '',
+  activeFile: meta.activeFile ?? null,
+  fileStructure: Array.isArray(meta.fileStructure) ? meta.fileStructure : [],
+  generationProfile: coerceGenerationProfile(meta.generationProfile),
+  destructiveSafetyMode: coerceDestructiveSafetyMode(meta.destructiveSafetyMode),
+  touchBudgetMode: coerceTouchBudgetMode(meta.touchBudgetMode)
+});
+
 const normalizeMeta = (meta: WorkspaceMetaRecord | null | undefined): WorkspaceMetaRecord | null => {
   if (!meta) return null;
   return {
     ...meta,
-    version: 3,
+    key: meta.projectId,
+    version: 4,
+    createdAt: Number(meta.createdAt || meta.updatedAt || 0),
     projectType: coerceProjectType(meta.projectType),
     generationProfile: coerceGenerationProfile((meta as any).generationProfile),
     destructiveSafetyMode: coerceDestructiveSafetyMode((meta as any).destructiveSafetyMode),
@@ -104,6 +183,51 @@ const normalizeMeta = (meta: WorkspaceMetaRecord | null | undefined): WorkspaceM
   };
 };
 
+const createFileStore = (db: IDBDatabase) => {
+  const files = db.createObjectStore(FILE_STORE, { keyPath: ['projectId', 'path'] });
+  ensureIndex(files, 'by_projectId', 'projectId');
+  return files;
+};
+
+const ensureProjectScopedStore = (db: IDBDatabase, tx: IDBTransaction, name: string) => {
+  const store = db.objectStoreNames.contains(name) ? tx.objectStore(name) : db.createObjectStore(name, { keyPath: 'id' });
+  ensureIndex(store, 'by_updatedAt', 'updatedAt');
+  ensureIndex(store, 'by_projectId', 'projectId');
+};
+
+// Moves a single-project (v1-v3) database under one projectId. Runs inside the upgrade transaction.
+const migrateLegacyWorkspace = (db: IDBDatabase, tx: IDBTransaction) => {
+  const metaStore = tx.objectStore(META_STORE);
+  const metaReq = metaStore.get(LEGACY_META_KEY);
+  metaReq.onsuccess = () => {
+    const legacyMeta = metaReq.result as WorkspaceMetaRecord | undefined;
+    const projectId = normalizeProjectId(legacyMeta?.projectId) || createWorkspaceProjectId();
+    const filesReq = tx.objectStore(FILE_STORE).getAll();
+    filesReq.onsuccess = () => {
+      const legacyFiles = (Array.isArray(filesReq.result) ? filesReq.result : []) as WorkspaceFileRecord[];
+      db.deleteObjectStore(FILE_STORE);
+      const fileStore = createFileStore(db);
+      for (const file of legacyFiles) fileStore.put({ ...file, projectId });
+
+      if (legacyMeta || legacyFiles.length > 0) {
+        const updatedAt = Number(legacyMeta?.updatedAt || Date.now());
+        metaStore.delete(LEGACY_META_KEY);
+        metaStore.put(buildMetaRecord(projectId, legacyMeta || {}, { createdAt: updatedAt, updatedAt }));
+      }
+
+      for (const name of [JOURNAL_STORE, CHECKPOINT_STORE, BACKUPS_STORE]) {
+        const cursorReq = tx.objectStore(name).openCursor();
+        cursorReq.onsuccess = () => {
+          const cursor = cursorReq.result;
+          if (!cursor) return;
+          if (!cursor.value?.projectId) cursor.update({ ...cursor.value, projectId });
+          cursor.continue();
+        };
+      }
+    };
+  };
+};
+
 export const openWorkspaceDb = (): Promise<IDBDatabase> => {
   if (dbPromise) return dbPromise;
 
@@ -111,40 +235,27 @@ export const openWorkspaceDb = (): Promise<IDBDatabase> => {
     const req = indexedDB.open(DB_NAME, DB_VERSION);
     req.onupgradeneeded = () => {
       const db = req.result;
+      const tx = req.transaction as IDBTransaction;
+      const needsLegacyMigration =
+        db.objectStoreNames.contains(FILE_STORE) && tx.objectStore(FILE_STORE).keyPath === 'path';
+
       if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'key' });
-      if (!db.objectStoreNames.contains(FILE_STORE)) db.createObjectStore(FILE_STORE, { keyPath: 'path' });
+      if (!db.objectStoreNames.contains(FILE_STORE)) createFileStore(db);
 
       if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
         const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
         ensureIndex(sessions, 'by_updatedAt', 'updatedAt');
       } else {
-        const sessions = req.transaction?.objectStore(SESSIONS_STORE);
-        if (sessions) ensureIndex(sessions, 'by_updatedAt', 'updatedAt');
+        ensureIndex(tx.objectStore(SESSIONS_STORE), 'by_updatedAt', 'updatedAt');
       }
 
-      if (!db.objectStoreNames.contains(JOURNAL_STORE)) {
-        const journals = db.createObjectStore(JOURNAL_STORE, { keyPath: 'id' });
-        ensureIndex(journals, 'by_updatedAt', 'updatedAt');
-      } else {
-        const journals = req.transaction?.objectStore(JOURNAL_STORE);
-        if (journals) ensureIndex(journals, 'by_updatedAt', 'updatedAt');
-      }
-
-      if (!db.objectStoreNames.contains(CHECKPOINT_STORE)) {
-        const checkpoints = db.createObjectStore(CHECKPOINT_STORE, { keyPath: 'id' });
-        ensureIndex(checkpoints, 'by_updatedAt', 'updatedAt');
-      } else {
-        const checkpoints = req.transaction?.objectStore(CHECKPOINT_STORE);
-        if (checkpoints) ensureIndex(checkpoints, 'by_updatedAt', 'updatedAt');
-      }
+      ensureProjectScopedStore(db, tx, JOURNAL_STORE);
+      ensureProjectScopedStore(db, tx, CHECKPOINT_STORE);
+      ensureProjectScopedStore(db, tx, BACKUPS_STORE);
+      ensureProjectScopedStore(db, tx, PROJECT_MEMORY_STORE);
+      if (!db.objectStoreNames.contains(FEATURE_PACKS_STORE)) db.createObjectStore(FEATURE_PACKS_STORE, { keyPath: 'id' });
 
-      if (!db.objectStoreNames.contains(BACKUPS_STORE)) {
-        const backups = db.createObjectStore(BACKUPS_STORE, { keyPath: 'id' });
-        ensureIndex(backups, 'by_updatedAt', 'updatedAt');
-      } else {
-        const backups = req.transaction?.objectStore(BACKUPS_STORE);
-        if (backups) ensureIndex(backups, 'by_updatedAt', 'updatedAt');
-      }
+      if (needsLegacyMigration) migrateLegacyWorkspace(db, tx);
     };
     req.onsuccess = () => resolve(req.result);
     req.onerror = () => reject(req.error);
@@ -166,7 +277,7 @@ const withTx = async <T>(storeNames: string[], mode: IDBTransactionMode, fn: (tx
   return result;
 };
 
-const pruneByUpdatedAt = async (store: IDBObjectStore, maxRecords: number) => {
+const pruneByUpdatedAt = async (store: IDBObjectStore, maxRecords: number, match: (record: { projectId?: string; type?: string } | undefined) => boolean) => {
   const ids: string[] = [];
   await new Promise<void>((resolve, reject) => {
     const index = store.index('by_updatedAt');
@@ -177,7 +288,7 @@ const pruneByUpdatedAt = async (store: IDBObjectStore, maxRecords: number) => {
         resolve();
         return;
       }
-      ids.push(String(cursor.primaryKey || ''));
+      if (match(cursor.value)) ids.push(String(cursor.primaryKey || ''));
       cursor.continue();
     };
     req.onerror = () => reject(req.error);
@@ -188,17 +299,36 @@ const pruneByUpdatedAt = async (store: IDBObjectStore, maxRecords: number) => {
   }
 };
 
+const deleteByProjectId = (store: IDBObjectStore, projectId: string) =>
+  new Promise<void>((resolve, reject) => {
+    const req = store.index('by_projectId').openCursor(IDBKeyRange.only(projectId));
+    req.onsuccess = () => {
+      const cursor = req.result as IDBCursorWithValue | null;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      cursor.delete();
+      cursor.continue();
+    };
+    req.onerror = () => reject(req.error);
+  });
+
 const addJournalRecord = (tx: IDBTransaction, record: WorkspaceJournalRecord) => {
   tx.objectStore(JOURNAL_STORE).put(record);
 };
 
-export const loadWorkspace = async (): Promise<{ meta: WorkspaceMetaRecord | null; files: WorkspaceFileRecord[] }> => {
+export const loadWorkspace = async (
+  projectId: string
+): Promise<{ meta: WorkspaceMetaRecord | null; files: WorkspaceFileRecord[] }> => {
+  const id = normalizeProjectId(projectId);
+  if (!id) return { meta: null, files: [] };
   return withTx([META_STORE, FILE_STORE], 'readonly', async (tx) => {
     const metaStore = tx.objectStore(META_STORE);
     const fileStore = tx.objectStore(FILE_STORE);
 
-    const meta = await asPromise(metaStore.get('current') as IDBRequest<WorkspaceMetaRecord | undefined>);
-    const files = await asPromise(fileStore.getAll() as IDBRequest<WorkspaceFileRecord[]>);
+    const meta = await asPromise(metaStore.get(id) as IDBRequest<WorkspaceMetaRecord | undefined>);
+    const files = await asPromise(fileStore.index('by_projectId').getAll(id) as IDBRequest<WorkspaceFileRecord[]>);
     return {
       meta: normalizeMeta(meta || null),
       files: Array.isArray(files) ? files : []
@@ -206,12 +336,38 @@ export const loadWorkspace = async (): Promise<{ meta: WorkspaceMetaRecord | nul
   });
 };
 
+export const listWorkspaceProjects = async (): Promise<WorkspaceProjectSummary[]> => {
+  return withTx([META_STORE, FILE_STORE], 'readonly', async (tx) => {
+    const records = await asPromise(tx.objectStore(META_STORE).getAll() as IDBRequest<WorkspaceMetaRecord[]>);
+    const fileIndex = tx.objectStore(FILE_STORE).index('by_projectId');
+    const out: WorkspaceProjectSummary[] = [];
+    for (const record of Array.isArray(records) ? records : []) {
+      const meta = normalizeMeta(record);
+      if (!meta?.projectId) continue;
+      const fileCount = await asPromise(fileIndex.count(meta.projectId));
+      out.push({
+        projectId: meta.projectId,
+        projectName: meta.projectName,
+        description: meta.description,
+        stack: meta.stack,
+        fileCount,
+        createdAt: meta.createdAt,
+        updatedAt: meta.updatedAt
+      });
+    }
+    return out.sort((a, b) => b.updatedAt - a.updatedAt);
+  });
+};
+
 export const applyWorkspaceDelta = async (delta: {
-  meta?: Omit<WorkspaceMetaRecord, 'key' | 'version' | 'updatedAt'>;
+  projectId: string;
+  meta?: WorkspaceMetaInput;
   upsertFiles?: ProjectFile[];
   deletePaths?: string[];
   movePaths?: Array<{ from: string; to: string }>;
 }) => {
+  const projectId = normalizeProjectId(delta.projectId);
+  if (!projectId) return;
   const updatedAt = Date.now();
   return withTx([META_STORE, FILE_STORE, JOURNAL_STORE], 'readwrite', async (tx) => {
     const metaStore = tx.objectStore(META_STORE);
@@ -221,26 +377,12 @@ export const applyWorkspaceDelta = async (delta: {
     const deletes = Array.isArray(delta.deletePaths) ? delta.deletePaths : [];
     const moves = Array.isArray(delta.movePaths) ? delta.movePaths : [];
 
+    const existingMeta = await asPromise(metaStore.get(projectId) as IDBRequest<WorkspaceMetaRecord | undefined>);
     if (delta.meta) {
-      const record: WorkspaceMetaRecord = {
-        key: 'current',
-        version: 3,
-        updatedAt,
-        projectId: delta.meta.projectId ?? '',
-        projectName: delta.meta.projectName ?? '',
-        projectType: 'FRONTEND_ONLY',
-        selectedFeatures: Array.isArray(delta.meta.selectedFeatures) ? delta.meta.selectedFeatures : [],
-        customFeatureTags: Array.isArray(delta.meta.customFeatureTags) ? delta.meta.customFeatureTags : [],
-        constraintsEnforcement: delta.meta.constraintsEnforcement ?? 'hard',
-        stack: delta.meta.stack ?? '',
-        description: delta.meta.description ?? '',
-        activeFile: delta.meta.activeFile ?? null,
-        fileStructure: Array.isArray(delta.meta.fileStructure) ? delta.meta.fileStructure : [],
-        generationProfile: coerceGenerationProfile((delta.meta as any).generationProfile),
-        destructiveSafetyMode: coerceDestructiveSafetyMode((delta.meta as any).destructiveSafetyMode),
-        touchBudgetMode: coerceTouchBudgetMode((delta.meta as any).touchBudgetMode)
-      };
-      metaStore.put(record);
+      const createdAt = Number(existingMeta?.createdAt || updatedAt);
+      metaStore.put(buildMetaRecord(projectId, delta.meta, { createdAt, updatedAt }));
+    } else if (existingMeta) {
+      metaStore.put({ ...existingMeta, updatedAt });
     }
 
     if (upserts.length > 0) {
@@ -248,10 +390,12 @@ export const applyWorkspaceDelta = async (delta: {
         const path = String(f.path || f.name || '').trim();
         if (!path) continue;
         const record: WorkspaceFileRecord = {
+          projectId,
           path,
           name: f.name || path.split('/').pop() || path,
           content: f.content || '',
           language: f.language,
+          ...(f.blob ? { blob: f.blob } : {}),
           updatedAt
         };
         fileStore.put(record);
@@ -262,7 +406,7 @@ export const applyWorkspaceDelta = async (delta: {
       for (const path of deletes) {
         const cleanPath = String(path || '').trim();
         if (!cleanPath) continue;
-        fileStore.delete(cleanPath);
+        fileStore.delete([projectId, cleanPath]);
       }
     }
 
@@ -272,7 +416,7 @@ export const applyWorkspaceDelta = async (delta: {
         const to = String(op?.to || '').trim();
         if (!from || !to || from === to) continue;
 
-        const existing = await asPromise(fileStore.get(from) as IDBRequest<WorkspaceFileRecord | undefined>);
+        const existing = await asPromise(fileStore.get([projectId, from]) as IDBRequest<WorkspaceFileRecord | undefined>);
         if (existing) {
           const movedRecord: WorkspaceFileRecord = {
             ...existing,
@@ -282,12 +426,13 @@ export const applyWorkspaceDelta = async (delta: {
           };
           fileStore.put(movedRecord);
         }
-        fileStore.delete(from);
+        fileStore.delete([projectId, from]);
       }
     }
 
     addJournalRecord(tx, {
       id: `journal-${updatedAt}-${Math.random().toString(36).slice(2, 8)}`,
+      projectId,
       updatedAt,
       type: 'delta',
       upserts: upserts.length,
@@ -295,30 +440,38 @@ export const applyWorkspaceDelta = async (delta: {
       moves: moves.length,
       hasMetaUpdate: Boolean(delta.meta)
     });
-    await pruneByUpdatedAt(journalStore, MAX_JOURNAL_RECORDS);
+    await pruneByUpdatedAt(
+      journalStore,
+      MAX_JOURNAL_RECORDS,
+      (record) => record?.projectId === projectId && record?.type !== 'operation'
+    );
     return;
   });
 };
 
-export const createWorkspaceCheckpoint = async (label = 'autosave') => {
-  const snapshot = await loadWorkspace();
+export const createWorkspaceCheckpoint = async (projectId: string, label = 'autosave') => {
+  const snapshot = await loadWorkspace(projectId);
+  if (!snapshot.meta && snapshot.files.length === 0) return null;
   const updatedAt = Date.now();
   return withTx([CHECKPOINT_STORE], 'readwrite', async (tx) => {
     const checkpointStore = tx.objectStore(CHECKPOINT_STORE);
     const record: WorkspaceCheckpointRecord = {
       id: `checkpoint-${updatedAt}-${Math.random().toString(36).slice(2, 8)}`,
+      projectId: normalizeProjectId(projectId),
       updatedAt,
       label: String(label || 'autosave').slice(0, 80),
       meta: snapshot.meta,
       files: snapshot.files
     };
     checkpointStore.put(record);
-    await pruneByUpdatedAt(checkpointStore, MAX_CHECKPOINT_RECORDS);
+    await pruneByUpdatedAt(checkpointStore, MAX_CHECKPOINT_RECORDS, (entry) => entry?.projectId === record.projectId);
     return record;
   });
 };
 
-export const loadWorkspaceCheckpoints = async (limit = 30): Promise<WorkspaceCheckpointRecord[]> => {
+export const loadWorkspaceCheckpoints = async (projectId: string, limit = 30): Promise<WorkspaceCheckpointRecord[]> => {
+  const id = normalizeProjectId(projectId);
+  if (!id) return [];
   return withTx([CHECKPOINT_STORE], 'readonly', async (tx) => {
     const store = tx.objectStore(CHECKPOINT_STORE);
     const out: WorkspaceCheckpointRecord[] = [];
@@ -330,7 +483,7 @@ export const loadWorkspaceCheckpoints = async (limit = 30): Promise<WorkspaceChe
           resolve(out);
           return;
         }
-        out.push(cursor.value as WorkspaceCheckpointRecord);
+        if (cursor.value?.projectId === id) out.push(cursor.value as WorkspaceCheckpointRecord);
         cursor.continue();
       };
       req.onerror = () => reject(req.error);
@@ -338,13 +491,124 @@ export const loadWorkspaceCheckpoints = async (limit = 30): Promise<WorkspaceChe
   });
 };
 
+export const loadWorkspaceCheckpoint = async (projectId: string, checkpointId: string) => {
+  const id = String(checkpointId || '').trim();
+  if (!id) return null;
+  return withTx([CHECKPOINT_STORE], 'readonly', async (tx) => {
+    const record = await asPromise(tx.objectStore(CHECKPOINT_STORE).get(id) as IDBRequest<WorkspaceCheckpointRecord | undefined>);
+    if (!record || record.projectId !== normalizeProjectId(projectId)) return null;
+    return record;
+  });
+};
+
+const readJournalOperations = async (store: IDBObjectStore, projectId: string) => {
+  const records = await asPromise(store.index('by_projectId').getAll(projectId) as IDBRequest<WorkspaceJournalRecord[]>);
+  return (Array.isArray(records) ? records : [])
+    .filter((record): record is WorkspaceOperationJournalRecord => record?.type === 'operation')
+    .sort((a, b) => a.updatedAt - b.updatedAt);
+};
+
+/** Appends one applied operation. Anything still undone is dropped, since it can no longer be redone. */
+export const appendJournalOperation = async (
+  projectId: string,
+  entry: { runId: string | null; label: string; changes: WorkspaceJournalChange[] }
+) => {
+  const id = normalizeProjectId(projectId);
+  if (!id || entry.changes.length === 0) return null;
+  const updatedAt = Math.max(Date.now(), lastOperationStamp + 1);
+  lastOperationStamp = updatedAt;
+  return withTx([JOURNAL_STORE], 'readwrite', async (tx) => {
+    const store = tx.objectStore(JOURNAL_STORE);
+    for (const record of await readJournalOperations(store, id)) {
+      if (record.undone) store.delete(record.id);
+    }
+    const record: WorkspaceOperationJournalRecord = {
+      id: `operation-${updatedAt}-${Math.random().toString(36).slice(2, 8)}`,
+      projectId: id,
+      updatedAt,
+      type: 'operation',
+      runId: entry.runId,
+      label: String(entry.label || '').slice(0, 120),
+      changes: entry.changes,
+      undone: false
+    };
+    store.put(record);
+    await pruneByUpdatedAt(store, MAX_JOURNAL_OPERATIONS, (candidate) => candidate?.projectId === id && candidate?.type === 'operation');
+    return record;
+  });
+};
+
+export const loadJournalOperations = async (projectId: string): Promise<WorkspaceOperationJournalRecord[]> => {
+  const id = normalizeProjectId(projectId);
+  if (!id) return [];
+  return withTx([JOURNAL_STORE], 'readonly', async (tx) => readJournalOperations(tx.objectStore(JOURNAL_STORE), id));
+};
+
+export const markJournalOperations = async (records: WorkspaceOperationJournalRecord[], undone: boolean) => {
+  if (records.length === 0) return;
+  return withTx([JOURNAL_STORE], 'readwrite', async (tx) => {
+    const store = tx.objectStore(JOURNAL_STORE);
+    for (const record of records) store.put({ ...record, undone });
+    return;
+  });
+};
+
+export const renameWorkspaceProject = async (projectId: string, projectName: string) => {
+  const id = normalizeProjectId(projectId);
+  if (!id) return null;
+  return withTx([META_STORE], 'readwrite', async (tx) => {
+    const store = tx.objectStore(META_STORE);
+    const existing = normalizeMeta(await asPromise(store.get(id) as IDBRequest<WorkspaceMetaRecord | undefined>));
+    if (!existing) return null;
+    const record: WorkspaceMetaRecord = { ...existing, projectName: String(projectName || '').trim(), updatedAt: Date.now() };
+    store.put(record);
+    return record;
+  });
+};
+
+export const duplicateWorkspaceProject = async (projectId: string, projectName: string) => {
+  const source = await loadWorkspace(projectId);
+  if (!source.meta) return null;
+  const nextId = createWorkspaceProjectId();
+  const updatedAt = Date.now();
+  return withTx([META_STORE, FILE_STORE, PROJECT_MEMORY_STORE], 'readwrite', async (tx) => {
+    const record = buildMetaRecord(nextId, { ...source.meta, projectName }, { createdAt: updatedAt, updatedAt });
+    tx.objectStore(META_STORE).put(record);
+    const fileStore = tx.objectStore(FILE_STORE);
+    for (const file of source.files) {
+      fileStore.put({ ...file, projectId: nextId, updatedAt });
+    }
+    const memoryStore = tx.objectStore(PROJECT_MEMORY_STORE);
+    const facts = await asPromise(memoryStore.index('by_projectId').getAll(normalizeProjectId(projectId)) as IDBRequest<ProjectMemoryFact[]>);
+    for (const fact of Array.isArray(facts) ? facts : []) {
+      memoryStore.put({ ...fact, id: `${fact.id}-${nextId}`, projectId: nextId });
+    }
+    return record;
+  });
+};
+
+export const deleteWorkspaceProject = async (projectId: string) => {
+  const id = normalizeProjectId(projectId);
+  if (!id) return;
+  return withTx([META_STORE, FILE_STORE, JOURNAL_STORE, CHECKPOINT_STORE, BACKUPS_STORE, PROJECT_MEMORY_STORE], 'readwrite', async (tx) => {
+    tx.objectStore(META_STORE).delete(id);
+    await deleteByProjectId(tx.objectStore(FILE_STORE), id);
+    await deleteByProjectId(tx.objectStore(JOURNAL_STORE), id);
+    await deleteByProjectId(tx.objectStore(CHECKPOINT_STORE), id);
+    await deleteByProjectId(tx.objectStore(BACKUPS_STORE), id);
+    await deleteByProjectId(tx.objectStore(PROJECT_MEMORY_STORE), id);
+    return;
+  });
+};
+
 export const clearWorkspace = async () => {
-  return withTx([META_STORE, FILE_STORE, JOURNAL_STORE, CHECKPOINT_STORE, BACKUPS_STORE], 'readwrite', async (tx) => {
+  return withTx([META_STORE, FILE_STORE, JOURNAL_STORE, CHECKPOINT_STORE, BACKUPS_STORE, PROJECT_MEMORY_STORE], 'readwrite', async (tx) => {
     tx.objectStore(META_STORE).clear();
     tx.objectStore(FILE_STORE).clear();
     tx.objectStore(JOURNAL_STORE).clear();
     tx.objectStore(CHECKPOINT_STORE).clear();
     tx.objectStore(BACKUPS_STORE).clear();
+    tx.objectStore(PROJECT_MEMORY_STORE).clear();
     return;
   });
 };
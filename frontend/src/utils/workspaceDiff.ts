@@ -0,0 +1,213 @@
+import { normalizeStoredPath } from '@/utils/workspacePaths';
+
+export type LineDiffOp = { type: 'equal' | 'insert' | 'delete'; text: string };
+
+export type LineDiffRow = LineDiffOp | { type: 'skip'; count: number };
+
+export type WorkspaceFileDiffStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface WorkspaceFileDiff {
+  path: string;
+  status: WorkspaceFileDiffStatus;
+  before: string | null;
+  after: string | null;
+  additions: number;
+  deletions: number;
+}
+
+type DiffableFile = { path?: string; name?: string; content?: string };
+
+// Above this many cells the LCS table is skipped and the changed middle is shown as one replacement.
+const MAX_LCS_CELLS = 4_000_000;
+
+const splitLines = (text: string) => String(text ?? '').replace(/\r\n/g, '\n').split('\n');
+
+export const diffLines = (before: string, after: string): LineDiffOp[] => {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const head: LineDiffOp[] = a.slice(0, prefix).map((text) => ({ type: 'equal', text }));
+  const tail: LineDiffOp[] = a.slice(a.length - suffix).map((text) => ({ type: 'equal', text }));
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  const n = midA.length;
+  const m = midB.length;
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...midA.map((text): LineDiffOp => ({ type: 'delete', text })),
+      ...midB.map((text): LineDiffOp => ({ type: 'insert', text })),
+      ...tail
+    ];
+  }
+
+  // lcs[i * (m + 1) + j] = length of the LCS of midA[i..] and midB[j..]
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        midA[i] === midB[j] ? lcs[(i + 1) * width + j + 1] + 1 : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const middle: LineDiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'equal', text: midA[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      middle.push({ type: 'delete', text: midA[i] });
+      i++;
+    } else {
+      middle.push({ type: 'insert', text: midB[j] });
+      j++;
+    }
+  }
+  while (i < n) middle.push({ type: 'delete', text: midA[i++] });
+  while (j < m) middle.push({ type: 'insert', text: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+};
+
+/** Folds unchanged runs longer than `context` lines on either side of a change into skip rows. */
+export const collapseLineDiff = (ops: LineDiffOp[], context = 3): LineDiffRow[] => {
+  const rows: LineDiffRow[] = [];
+  const isChange = ops.map((op) => op.type !== 'equal');
+  const keep = new Array<boolean>(ops.length).fill(false);
+  ops.forEach((_, index) => {
+    if (!isChange[index]) return;
+    for (let k = Math.max(0, index - context); k <= Math.min(ops.length - 1, index + context); k++) keep[k] = true;
+  });
+
+  let skipped = 0;
+  ops.forEach((op, index) => {
+    if (keep[index]) {
+      if (skipped > 0) rows.push({ type: 'skip', count: skipped });
+      skipped = 0;
+      rows.push(op);
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped > 0) rows.push({ type: 'skip', count: skipped });
+  return rows;
+};
+
+export interface LineDiffHunk {
+  // `ops` range of the run of changed lines, end exclusive.
+  start: number;
+  end: number;
+  // 1-based line where the hunk starts in the before and after text.
+  beforeLine: number;
+  afterLine: number;
+  additions: number;
+  deletions: number;
+}
+
+/** Groups each run of consecutive inserted/deleted lines into one hunk. */
+export const lineDiffHunks = (ops: LineDiffOp[]): LineDiffHunk[] => {
+  const hunks: LineDiffHunk[] = [];
+  let beforeLine = 1;
+  let afterLine = 1;
+  let current: LineDiffHunk | null = null;
+  ops.forEach((op, index) => {
+    if (op.type === 'equal') {
+      current = null;
+      beforeLine++;
+      afterLine++;
+      return;
+    }
+    if (!current) {
+      current = { start: index, end: index, beforeLine, afterLine, additions: 0, deletions: 0 };
+      hunks.push(current);
+    }
+    current.end = index + 1;
+    if (op.type === 'insert') {
+      current.additions++;
+      afterLine++;
+    } else {
+      current.deletions++;
+      beforeLine++;
+    }
+  });
+  return hunks;
+};
+
+// Diff ops carry no line endings, so a merge rejoins with the file's own.
+export const detectLineEnding = (text: string) => (/\r\n/.test(String(text ?? '')) ? '\r\n' : '\n');
+
+/** Rebuilds the text taking the after side of every hunk except `rejected` (hunk indexes), which keep the before side. */
+export const mergeLineDiffHunks = (ops: LineDiffOp[], rejected: ReadonlySet<number>, eol = '\n'): string => {
+  const hunkByOp = new Map<number, number>();
+  lineDiffHunks(ops).forEach((hunk, hunkIndex) => {
+    for (let i = hunk.start; i < hunk.end; i++) hunkByOp.set(i, hunkIndex);
+  });
+  const lines: string[] = [];
+  ops.forEach((op, index) => {
+    const hunk = hunkByOp.get(index);
+    const keepAfter = hunk === undefined || !rejected.has(hunk);
+    if (op.type === 'equal' || (op.type === 'insert' && keepAfter) || (op.type === 'delete' && !keepAfter)) lines.push(op.text);
+  });
+  return lines.join(eol);
+};
+
+const indexByPath = (files: DiffableFile[]) => {
+  const map = new Map<string, string>();
+  for (const file of files) {
+    const path = normalizeStoredPath(file.path || file.name || '');
+    if (path) map.set(path, String(file.content ?? ''));
+  }
+  return map;
+};
+
+/** Compares a snapshot (before) with the live workspace (after), sorted with changed files first. */
+export const diffWorkspaceFiles = (snapshot: DiffableFile[], live: DiffableFile[]): WorkspaceFileDiff[] => {
+  const before = indexByPath(snapshot);
+  const after = indexByPath(live);
+  const paths = Array.from(new Set([...before.keys(), ...after.keys()]));
+
+  const out = paths.map((path): WorkspaceFileDiff => {
+    const prev = before.has(path) ? (before.get(path) as string) : null;
+    const next = after.has(path) ? (after.get(path) as string) : null;
+    if (prev === null) {
+      return { path, status: 'added', before: null, after: next, additions: next ? splitLines(next).length : 0, deletions: 0 };
+    }
+    if (next === null) {
+      return { path, status: 'removed', before: prev, after: null, additions: 0, deletions: prev ? splitLines(prev).length : 0 };
+    }
+    if (prev === next) {
+      return { path, status: 'unchanged', before: prev, after: next, additions: 0, deletions: 0 };
+    }
+    const ops = diffLines(prev, next);
+    return {
+      path,
+      status: 'modified',
+      before: prev,
+      after: next,
+      additions: ops.filter((op) => op.type === 'insert').length,
+      deletions: ops.filter((op) => op.type === 'delete').length
+    };
+  });
+
+  return out.sort((a, b) => {
+    const rank = (entry: WorkspaceFileDiff) => (entry.status === 'unchanged' ? 1 : 0);
+    if (rank(a) !== rank(b)) return rank(a) - rank(b);
+    return a.path.localeCompare(b.path);
+  });
+};
@@ -0,0 +1,265 @@
+import { normalizeStoredPath } from '@/utils/workspacePaths';
+
+export interface WorkspaceSearchOptions {
+  query: string;
+  isRegex: boolean;
+  matchCase: boolean;
+  wholeWord: boolean;
+  include: string;
+  exclude: string;
+}
+
+export interface WorkspaceSearchMatch {
+  line: number;
+  column: number;
+  length: number;
+  // Text of the matched line, trimmed around the match when the line is long.
+  preview: string;
+  previewStart: number;
+}
+
+export interface WorkspaceSearchFileResult {
+  path: string;
+  matches: WorkspaceSearchMatch[];
+  truncated: boolean;
+}
+
+export interface WorkspaceSearchResult {
+  files: WorkspaceSearchFileResult[];
+  totalMatches: number;
+  truncated: boolean;
+  error: string | null;
+}
+
+export interface WorkspaceReplacement {
+  path: string;
+  before: string;
+  after: string;
+  count: number;
+}
+
+type SearchableFile = { path?: string; name?: string; content?: string };
+
+const MAX_MATCHES_PER_FILE = 500;
+const MAX_TOTAL_MATCHES = 5000;
+const MAX_FILE_CHARS = 2_000_000;
+const PREVIEW_CHARS = 160;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const splitPatterns = (value: string) =>
+  String(value || '')
+    .split(',')
+    .map((entry) => entry.trim().replace(/\\/g, '/'))
+    .filter(Boolean);
+
+const globBodyToRegExp = (glob: string) => {
+  let out = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches zero or more folders; a trailing "**" matches everything below.
+        if (glob[i + 2] === '/') {
+          out += '(?:.*/)?';
+          i += 2;
+        } else {
+          out += '.*';
+          i += 1;
+        }
+      } else {
+        out += '[^/]*';
+      }
+    } else if (ch === '?') {
+      out += '[^/]';
+    } else if (ch === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) {
+        out += '\\{';
+      } else {
+        out += `(?:${glob
+          .slice(i + 1, end)
+          .split(',')
+          .map((part) => globBodyToRegExp(part))
+          .join('|')})`;
+        i = end;
+      }
+    } else {
+      out += escapeRegExp(ch);
+    }
+  }
+  return out;
+};
+
+/**
+ * Compiles comma-separated globs. A pattern without a leading "/" or "./" matches at any depth,
+ * and a pattern naming a folder also matches everything inside it.
+ */
+export const compilePathGlobs = (value: string): RegExp[] =>
+  splitPatterns(value).map((pattern) => {
+    const anchored = /^\.?\//.test(pattern);
+    const body = globBodyToRegExp(pattern.replace(/^\.?\/+/, '').replace(/\/+$/, ''));
+    return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${body}(?:/.*)?$`, 'i');
+  });
+
+export const matchesPathFilters = (path: string, include: RegExp[], exclude: RegExp[]) => {
+  if (include.length > 0 && !include.some((re) => re.test(path))) return false;
+  return !exclude.some((re) => re.test(path));
+};
+
+/** Builds the global search expression, or returns the reason the query cannot be compiled. */
+export const buildSearchRegExp = (options: WorkspaceSearchOptions): RegExp | string | null => {
+  const query = String(options.query || '');
+  if (!query) return null;
+  let source = options.isRegex ? query : escapeRegExp(query);
+  if (options.wholeWord) source = `(?<![\\w$])(?:${source})(?![\\w$])`;
+  try {
+    return new RegExp(source, options.matchCase ? 'gm' : 'gim');
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+const lineStartsOf = (content: string) => {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content.charCodeAt(i) === 10) starts.push(i + 1);
+  }
+  return starts;
+};
+
+const lineIndexAt = (starts: number[], offset: number) => {
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+const toPreview = (lineText: string, column: number, length: number) => {
+  const text = lineText.replace(/\r$/, '');
+  if (text.length <= PREVIEW_CHARS) return { preview: text, previewStart: column };
+  const start = Math.max(0, Math.min(column - 40, text.length - PREVIEW_CHARS));
+  const end = Math.max(start + PREVIEW_CHARS, Math.min(text.length, column + length));
+  return { preview: text.slice(start, end), previewStart: column - start };
+};
+
+const forEachMatch = (regex: RegExp, content: string, visit: (index: number, text: string) => boolean) => {
+  regex.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(content))) {
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+    if (!visit(match.index, match[0])) break;
+  }
+};
+
+export const searchWorkspaceFiles = (files: SearchableFile[], options: WorkspaceSearchOptions): WorkspaceSearchResult => {
+  const regex = buildSearchRegExp(options);
+  if (regex === null) return { files: [], totalMatches: 0, truncated: false, error: null };
+  if (typeof regex === 'string') return { files: [], totalMatches: 0, truncated: false, error: regex };
+
+  const include = compilePathGlobs(options.include);
+  const exclude = compilePathGlobs(options.exclude);
+  const results: WorkspaceSearchFileResult[] = [];
+  let totalMatches = 0;
+  let truncated = false;
+
+  const ordered = files
+    .map((file) => ({ path: normalizeStoredPath(file.path || file.name || ''), content: file.content }))
+    .filter((file) => file.path && typeof file.content === 'string' && file.content.length <= MAX_FILE_CHARS)
+    .filter((file) => matchesPathFilters(file.path, include, exclude))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  for (const file of ordered) {
+    if (totalMatches >= MAX_TOTAL_MATCHES) {
+      truncated = true;
+      break;
+    }
+    const content = file.content as string;
+    const starts = lineStartsOf(content);
+    const matches: WorkspaceSearchMatch[] = [];
+    let fileTruncated = false;
+    forEachMatch(regex, content, (index, text) => {
+      if (matches.length >= MAX_MATCHES_PER_FILE || totalMatches >= MAX_TOTAL_MATCHES) {
+        fileTruncated = true;
+        return false;
+      }
+      const lineIndex = lineIndexAt(starts, index);
+      const lineEnd = lineIndex + 1 < starts.length ? starts[lineIndex + 1] - 1 : content.length;
+      const column = index - starts[lineIndex];
+      // A match spanning lines is highlighted up to the end of its first line.
+      const length = Math.min(text.length, lineEnd - index);
+      matches.push({
+        line: lineIndex + 1,
+        column,
+        length,
+        ...toPreview(content.slice(starts[lineIndex], lineEnd), column, length)
+      });
+      totalMatches++;
+      return true;
+    });
+    if (matches.length > 0) results.push({ path: file.path, matches, truncated: fileTruncated });
+    if (fileTruncated) truncated = true;
+  }
+
+  return { files: results, totalMatches, truncated, error: null };
+};
+
+const expandReplacement = (
+  template: string,
+  matched: string,
+  groups: Array<string | undefined>,
+  named: Record<string, string | undefined>
+) =>
+  template.replace(/\$(\$|&|<([^>]*)>|(\d{1,2}))/g, (token, kind: string, name?: string, digits?: string) => {
+    if (kind === '$') return '$';
+    if (kind === '&') return matched;
+    if (name !== undefined) return name in named ? named[name] ?? '' : token;
+    const index = Number(digits);
+    // "$12" falls back to "$1" followed by "2" when there are fewer than 12 groups, like String.prototype.replace.
+    if (index >= 1 && index <= groups.length) return groups[index - 1] ?? '';
+    if (digits && digits.length === 2) {
+      const single = Number(digits[0]);
+      if (single >= 1 && single <= groups.length) return (groups[single - 1] ?? '') + digits[1];
+    }
+    return token;
+  });
+
+/**
+ * Replaces every match in the given paths. In regex mode the replacement understands `$1`, `$<name>` and `$&`;
+ * otherwise it is inserted literally.
+ */
+export const buildWorkspaceReplacements = (
+  files: SearchableFile[],
+  paths: string[],
+  options: WorkspaceSearchOptions,
+  replacement: string
+): WorkspaceReplacement[] => {
+  const regex = buildSearchRegExp(options);
+  if (!regex || typeof regex === 'string') return [];
+  const wanted = new Set(paths.map((path) => normalizeStoredPath(path)));
+  const out: WorkspaceReplacement[] = [];
+  for (const file of files) {
+    const path = normalizeStoredPath(file.path || file.name || '');
+    if (!wanted.has(path) || typeof file.content !== 'string') continue;
+    let count = 0;
+    const after = file.content.replace(regex, (...args: unknown[]) => {
+      const matched = String(args[0]);
+      if (matched.length === 0) return matched;
+      count++;
+      if (!options.isRegex) return replacement;
+      const hasNamed = typeof args[args.length - 1] === 'object' && args[args.length - 1] !== null;
+      const groups = args.slice(1, hasNamed ? -3 : -2) as Array<string | undefined>;
+      const named = (hasNamed ? args[args.length - 1] : {}) as Record<string, string | undefined>;
+      return expandReplacement(replacement, matched, groups, named);
+    });
+    if (count > 0 && after !== file.content) out.push({ path, before: file.content, after, count });
+  }
+  return out.sort((a, b) => a.path.localeCompare(b.path));
+};
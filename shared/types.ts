@@ -3,6 +3,8 @@ export interface ProjectFile {
   content: string;
   path?: string;
   language?: string;
+  // Bytes of a binary asset (image, font, ...); `content` stays empty for these files.
+  blob?: Blob;
 }
 
 export interface FileSystemEntry {